@@ -7,6 +7,9 @@
  * All tools upserted through this service automatically include metadata:
  * - source: 'scraper'
  * - scraped_at: ISO timestamp
+ *
+ * Create the client with SCRAPER_CLIENT_HEADERS so the audit log attributes
+ * these writes to the scraper.
  * 
  * @module scraper-db.service
  */
@@ -22,6 +25,15 @@ const TABLES = {
   CATEGORIES: 'categories',
   TOOL_CATEGORIES: 'tool_categories',
   FAQS: 'faqs',
+  SCRAPER_RUNS: 'scraper_runs',
+} as const;
+
+/**
+ * Headers for the scraper's Supabase client. Service-role writes carry no
+ * auth user, so the audit_log triggers read the actor from x-audit-actor.
+ */
+export const SCRAPER_CLIENT_HEADERS = {
+  'x-audit-actor': 'scraper',
 } as const;
 
 // =============================================================================
@@ -81,6 +93,19 @@ export interface ScraperFaqInsert {
   display_order?: number | null;
 }
 
+/**
+ * Summary of one scraper run, shown as the last run on the admin dashboard.
+ */
+export interface ScraperRunInsert {
+  started_at: string;
+  status: 'succeeded' | 'partial' | 'failed';
+  pages_scraped: number;
+  tools_extracted: number;
+  categories_scraped: number;
+  error_count: number;
+  version?: string | null;
+}
+
 /**
  * Result of a scraper database operation.
  */
@@ -315,6 +340,27 @@ export class ScraperDbService {
 
     return data;
   }
+
+  /**
+   * Record a finished run in scraper_runs.
+   * Failures are logged and reported, never thrown, so a run that scraped
+   * successfully is not turned into a failure by its own bookkeeping.
+   * 
+   * @param run - Run summary
+   * @returns True if the run was recorded
+   */
+  async recordRun(run: ScraperRunInsert): Promise<boolean> {
+    const { error } = await this.supabase
+      .from(TABLES.SCRAPER_RUNS)
+      .insert(run);
+
+    if (error) {
+      console.error('[ScraperDb] Failed to record scraper run:', error.message);
+      return false;
+    }
+
+    return true;
+  }
 }
 
 /**
@@ -326,9 +372,11 @@ export class ScraperDbService {
  * @example
  * ```ts
  * import { createClient } from '@supabase/supabase-js';
- * import { createScraperDbService } from './lib/scraper-db.service';
+ * import { createScraperDbService, SCRAPER_CLIENT_HEADERS } from './lib/scraper-db.service';
  * 
- * const supabase = createClient(url, serviceRoleKey);
+ * const supabase = createClient(url, serviceRoleKey, {
+ *   global: { headers: SCRAPER_CLIENT_HEADERS },
+ * });
  * const scraperDb = createScraperDbService(supabase);
  * 
  * const result = await scraperDb.upsertTools([{ name: 'ChatGPT', slug: 'chatgpt', website_url: '...' }]);
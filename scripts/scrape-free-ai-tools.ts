@@ -15,6 +15,7 @@ import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import {
   ScraperDbService,
   createScraperDbService,
+  SCRAPER_CLIENT_HEADERS,
   type ScraperCategoryInsert,
   type ScraperToolInsert,
   type ScraperToolCategoryInsert,
@@ -64,6 +65,7 @@ function createAdminClient(): SupabaseClient | null {
       autoRefreshToken: false,
       persistSession: false,
     },
+    global: { headers: SCRAPER_CLIENT_HEADERS },
   });
 }
 
@@ -124,14 +126,6 @@ interface ScrapedCategoryPage {
   nextCategory: string | null;
 }
 
-interface ScrapedFeaturedTool {
-  name: string;
-  slug: string;
-  imageUrl: string;
-  description: string;
-  badge: 'Free' | 'New' | 'Popular' | null;
-}
-
 interface ScrapedFAQItem {
   question: string;
   answer: string;
@@ -421,64 +415,6 @@ class FreeAIToolsScraper {
     return categories;
   }
 
-  /**
-   * Scrape featured tools from main page
-   * Requirement 6.3: Extract featured tools with images, descriptions, badges
-   */
-  async scrapeFeaturedTools(): Promise<ScrapedFeaturedTool[]> {
-    if (!this.page) throw new Error('Page not initialized');
-
-    const featuredTools: ScrapedFeaturedTool[] = [];
-    
-    // Find featured tools section
-    const featuredSection = await this.page.$('h3:has-text("Featured")');
-    if (!featuredSection) return featuredTools;
-    
-    const parent = await featuredSection.evaluateHandle(el => el.parentElement);
-    const toolCards = await (parent as any).$$('div[cursor="pointer"], [cursor=pointer]');
-    
-    for (const card of toolCards) {
-      try {
-        // Get tool name
-        const nameEl = await card.$('div:has-text("")');
-        const name = nameEl ? await nameEl.textContent() : '';
-        
-        // Get image
-        const imgEl = await card.$('img');
-        const imageUrl = imgEl ? await imgEl.getAttribute('src') || '' : '';
-        
-        // Get description - usually the last text element
-        const allText = await card.textContent();
-        const description = allText?.replace(name || '', '').trim() || '';
-        
-        // Check for badge
-        let badge: 'Free' | 'New' | 'Popular' | null = null;
-        const badgeText = await card.textContent();
-        if (badgeText?.includes('Free')) badge = 'Free';
-        else if (badgeText?.includes('New')) badge = 'New';
-        else if (badgeText?.includes('Popular')) badge = 'Popular';
-        
-        // Generate slug from name
-        const slug = name?.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || '';
-        
-        if (name && slug) {
-          featuredTools.push({
-            name: sanitizeHtml(name.trim()),
-            slug,
-            imageUrl,
-            description: sanitizeHtml(description.substring(0, 500)),
-            badge,
-          });
-        }
-      } catch {
-        // Skip malformed cards
-      }
-    }
-    
-    return featuredTools;
-  }
-
-
   /**
    * Scrape FAQ items from main page
    * Requirement 15.7: Extract FAQ questions and answers
@@ -692,6 +628,9 @@ class FreeAIToolsScraper {
    */
   async run(): Promise<void> {
     this.logger.logStart();
+    const startedAt = new Date();
+    let categoriesScraped = 0;
+    let completed = false;
     
     try {
       await this.init();
@@ -707,12 +646,7 @@ class FreeAIToolsScraper {
       );
       console.log(`    Found ${categories.length} categories`);
       
-      const featuredTools = await withRetry(
-        () => this.scrapeFeaturedTools(),
-        this.logger,
-        'scrapeFeaturedTools'
-      );
-      console.log(`    Found ${featuredTools.length} featured tools`);
+      // Featured tools are curated by staff in the featured_tools table, not scraped
       
       const faqItems = await withRetry(
         () => this.scrapeFAQItems(),
@@ -742,19 +676,46 @@ class FreeAIToolsScraper {
         }
       }
       
+      categoriesScraped = categoryData.size;
+      
       // Step 3: Write output JSON files
       console.log('\n[Step 3] Writing output JSON files...');
-      await this.writeOutputFiles(categories, categoryData, featuredTools, faqItems);
+      await this.writeOutputFiles(categories, categoryData, faqItems);
       
       // Step 4: Write to Supabase database
       await this.writeToDatabase(categories, categoryData, faqItems);
+      completed = true;
       
     } finally {
       await this.close();
+      await this.recordRun(startedAt, completed, categoriesScraped);
       this.logComplete();
     }
   }
 
+  /**
+   * Record this run in scraper_runs for the admin dashboard
+   */
+  private async recordRun(startedAt: Date, completed: boolean, categoriesScraped: number): Promise<void> {
+    if (!this.scraperDb) {
+      return;
+    }
+
+    const metadata = this.logger.getMetadata();
+    const dbFailures = Object.values(this.dbResults).reduce((sum, result) => sum + result.failed, 0);
+    const errorCount = metadata.errors + dbFailures;
+
+    await this.scraperDb.recordRun({
+      started_at: startedAt.toISOString(),
+      status: !completed ? 'failed' : errorCount > 0 ? 'partial' : 'succeeded',
+      pages_scraped: metadata.pagesScraped,
+      tools_extracted: metadata.toolsExtracted,
+      categories_scraped: categoriesScraped,
+      error_count: errorCount,
+      version: CONFIG.version,
+    });
+  }
+
   /**
    * Log completion summary including database results
    */
@@ -922,7 +883,6 @@ class FreeAIToolsScraper {
   private async writeOutputFiles(
     categories: ScrapedCategory[],
     categoryData: Map<string, ScrapedCategoryPage>,
-    featuredTools: ScrapedFeaturedTool[],
     faqItems: ScrapedFAQItem[]
   ): Promise<void> {
     if (!CONFIG.writeToJsonFiles) {
@@ -958,18 +918,6 @@ class FreeAIToolsScraper {
     );
     console.log(`    Written: categories.json (${categoriesList.length} categories)`);
     
-    // Write featured-tools.json
-    const featuredToolsWithIds = featuredTools.map((tool, index) => ({
-      id: generateId(),
-      ...tool,
-      displayOrder: index,
-    }));
-    this.writeJsonFile(
-      path.join(CONFIG.outputDir, 'featured-tools.json'),
-      featuredToolsWithIds
-    );
-    console.log(`    Written: featured-tools.json (${featuredToolsWithIds.length} tools)`);
-    
     // Write faq.json
     this.writeJsonFile(
       path.join(CONFIG.outputDir, 'faq.json'),
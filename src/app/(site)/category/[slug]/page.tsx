@@ -1,7 +1,12 @@
 
+import { permanentRedirect } from 'next/navigation';
 import { Container } from '@/components/layout/Container';
 import { ToolGrid } from '@/components/features/ToolGrid';
-import { getTools } from '@/lib/services/tools.service';
+import { queryTools } from '@/lib/services/tools.service';
+import { getCategoryBySlug } from '@/lib/services/categories.service';
+import { resolveSlugRedirect } from '@/lib/services/redirects.service';
+import { getFaqs } from '@/lib/services/faq.service';
+import { FAQAccordion } from '@/components/features/free-ai-tools';
 
 interface CategoryPageProps {
     params: Promise<{ slug: string }>;
@@ -19,8 +24,19 @@ export async function generateMetadata({ params }: CategoryPageProps) {
 export default async function CategoryPage({ params, searchParams }: CategoryPageProps) {
     const { slug } = await params;
     const { q } = await searchParams;
-    const tools = await getTools({ search: q, category: slug });
-    const total = tools.length;
+
+    // A renamed category keeps its old URLs working
+    if (!(await getCategoryBySlug(slug))) {
+        const currentSlug = await resolveSlugRedirect('categories', slug);
+        if (currentSlug) {
+            permanentRedirect(q ? `/category/${currentSlug}?q=${encodeURIComponent(q)}` : `/category/${currentSlug}`);
+        }
+    }
+
+    const query = { categories: [slug], search: q };
+    const [page, faqs] = await Promise.all([queryTools(query), getFaqs(`category:${slug}`)]);
+    const tools = page.items;
+    const total = page.total;
     const categoryName = slug.replace(/-/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
 
     if (!tools.length && !q) {
@@ -40,7 +56,14 @@ export default async function CategoryPage({ params, searchParams }: CategoryPag
             </div>
 
             <Container>
-                <ToolGrid initialTools={tools} category={slug} />
+                <ToolGrid initialPage={page} query={query} />
+
+                {faqs.length > 0 && (
+                    <section className="mt-12" id="faq">
+                        <h2 className="text-2xl font-bold mb-6">{categoryName} FAQ</h2>
+                        <FAQAccordion items={faqs} />
+                    </section>
+                )}
             </Container>
         </div>
     );
@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect } from 'react';
+import { ErrorFallback } from '@/components/ui/ErrorFallback';
 
 export default function Error({
     error,
@@ -9,19 +9,5 @@ export default function Error({
     error: Error & { digest?: string };
     reset: () => void;
 }) {
-    useEffect(() => {
-        console.error(error);
-    }, [error]);
-
-    return (
-        <div className="flex h-[50vh] flex-col items-center justify-center gap-4">
-            <h2 className="text-xl font-bold">Something went wrong!</h2>
-            <button
-                className="rounded-md bg-toolify-purple-600 px-4 py-2 text-white hover:bg-toolify-purple-700"
-                onClick={() => reset()}
-            >
-                Try again
-            </button>
-        </div>
-    );
+    return <ErrorFallback error={error} reset={reset} />;
 }
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCollection } from '@/lib/services/collections.service';
+import {
+    COLLECTION_EXPORT_FORMATS,
+    toCollectionCsv,
+    toCollectionFileName,
+    toCollectionMarkdown,
+    type CollectionExportFormat,
+} from '@/lib/types/collection';
+
+const CONTENT_TYPES: Record<CollectionExportFormat, string> = {
+    markdown: 'text/markdown; charset=utf-8',
+    csv: 'text/csv; charset=utf-8',
+};
+
+/**
+ * Downloads a collection as Markdown or CSV: /collections/<id>/export?format=csv
+ * Private collections can only be exported by their owner.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const format = request.nextUrl.searchParams.get('format') ?? 'markdown';
+    if (!COLLECTION_EXPORT_FORMATS.includes(format as CollectionExportFormat)) {
+        return NextResponse.json({ error: `Unknown format: ${format}` }, { status: 400 });
+    }
+
+    const view = await getCollection(id);
+    if (!view) {
+        return NextResponse.json({ error: 'Collection not found' }, { status: 404 });
+    }
+
+    const exportFormat = format as CollectionExportFormat;
+    const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000';
+    const body = exportFormat === 'csv'
+        ? toCollectionCsv(view.collection, baseUrl)
+        : toCollectionMarkdown(view.collection, baseUrl);
+
+    return new NextResponse(body, {
+        headers: {
+            'Content-Type': CONTENT_TYPES[exportFormat],
+            'Content-Disposition': `attachment; filename="${toCollectionFileName(view.collection.name, exportFormat)}"`,
+            'Cache-Control': 'private, no-store',
+        },
+    });
+}
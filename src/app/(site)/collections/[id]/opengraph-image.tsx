@@ -0,0 +1,87 @@
+import { ImageResponse } from 'next/og';
+import { getSharedCollection } from '@/lib/services/collections.service';
+
+export const runtime = 'edge';
+export const alt = 'Tool Collection';
+export const size = {
+    width: 1200,
+    height: 630,
+};
+export const contentType = 'image/png';
+
+/** Tool names listed on the card before "and N more" */
+const LISTED_TOOLS = 4;
+
+// Private collections get the generic card so their names never leak
+export default async function Image(props: { params: Promise<{ id: string }> }) {
+    const params = await props.params;
+    const collection = await getSharedCollection(params.id);
+
+    if (!collection) {
+        return new ImageResponse(
+            (
+                <div style={{
+                    fontSize: 48,
+                    background: 'white',
+                    width: '100%',
+                    height: '100%',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                }}>
+                    AI Tools Book
+                </div>
+            ),
+            { ...size }
+        );
+    }
+
+    const listed = collection.items.slice(0, LISTED_TOOLS).map(item => item.tool.name);
+    const more = collection.items.length - listed.length;
+
+    return new ImageResponse(
+        (
+            <div
+                style={{
+                    fontSize: 48,
+                    background: '#5800FF',
+                    width: '100%',
+                    height: '100%',
+                    display: 'flex',
+                    flexDirection: 'column',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    color: 'white',
+                    padding: '40px',
+                    textAlign: 'center',
+                }}
+            >
+                <div style={{ fontSize: 28, opacity: 0.8, marginBottom: 10 }}>
+                    {`Collection · ${collection.itemCount} ${collection.itemCount === 1 ? 'tool' : 'tools'}`}
+                </div>
+                <div style={{ fontSize: 72, fontWeight: 'bold', marginBottom: 20 }}>
+                    {collection.name}
+                </div>
+                {listed.length > 0 && (
+                    <div style={{ fontSize: 32, opacity: 0.9 }}>
+                        {more > 0 ? `${listed.join(', ')} and ${more} more` : listed.join(', ')}
+                    </div>
+                )}
+                <div style={{
+                    marginTop: 40,
+                    background: 'white',
+                    borderRadius: 20,
+                    padding: '10px 30px',
+                    color: '#5800FF',
+                    fontSize: 24,
+                    fontWeight: 'bold'
+                }}>
+                    View on AI Tools Book
+                </div>
+            </div>
+        ),
+        {
+            ...size,
+        }
+    );
+}
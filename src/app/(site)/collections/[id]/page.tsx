@@ -0,0 +1,115 @@
+import { Metadata } from 'next';
+import Image from 'next/image';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { Download } from 'lucide-react';
+import { Container } from '@/components/layout/Container';
+import { CollectionEditor } from '@/components/features/collections/CollectionEditor';
+import { getCollection } from '@/lib/services/collections.service';
+import {
+    COLLECTION_VISIBILITY_DESCRIPTIONS,
+    COLLECTION_VISIBILITY_LABELS,
+} from '@/lib/types/collection';
+
+interface PageProps {
+    params: Promise<{ id: string }>;
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+    const { id } = await params;
+    const view = await getCollection(id);
+    if (!view) return {};
+
+    const { collection } = view;
+    const description = collection.description
+        || `${collection.itemCount} AI ${collection.itemCount === 1 ? 'tool' : 'tools'} curated on AI Tools Book`;
+
+    return {
+        title: `${collection.name} | AI Tools Book`,
+        description,
+        // Unlisted collections are shared by link only
+        robots: collection.visibility === 'public' ? undefined : { index: false, follow: false },
+        openGraph: {
+            title: collection.name,
+            description,
+        },
+    };
+}
+
+export default async function CollectionPage({ params }: PageProps) {
+    const { id } = await params;
+    const view = await getCollection(id);
+    if (!view) {
+        notFound();
+    }
+
+    const { collection, isOwner } = view;
+
+    return (
+        <div className="min-h-screen py-16 bg-gray-50/50">
+            <Container>
+                <div className="max-w-3xl mx-auto space-y-8">
+                    <div>
+                        <Link href="/collections" className="text-sm text-[var(--primary)] hover:underline">
+                            Collections
+                        </Link>
+                        <h1 className="text-3xl font-bold text-gray-900 mt-2">{collection.name}</h1>
+                        {collection.description && (
+                            <p className="mt-3 text-[var(--muted-foreground)] whitespace-pre-line">{collection.description}</p>
+                        )}
+                        <div className="mt-4 flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-gray-500">
+                            <span>{collection.itemCount} {collection.itemCount === 1 ? 'tool' : 'tools'}</span>
+                            {isOwner && (
+                                <span title={COLLECTION_VISIBILITY_DESCRIPTIONS[collection.visibility]}>
+                                    {COLLECTION_VISIBILITY_LABELS[collection.visibility]}: {COLLECTION_VISIBILITY_DESCRIPTIONS[collection.visibility].toLowerCase()}
+                                </span>
+                            )}
+                            <span className="flex items-center gap-3">
+                                <Download className="w-4 h-4" />
+                                <a href={`/collections/${collection.id}/export?format=markdown`} className="text-[var(--primary)] hover:underline">
+                                    Markdown
+                                </a>
+                                <a href={`/collections/${collection.id}/export?format=csv`} className="text-[var(--primary)] hover:underline">
+                                    CSV
+                                </a>
+                            </span>
+                        </div>
+                    </div>
+
+                    {isOwner ? (
+                        <CollectionEditor collection={collection} />
+                    ) : collection.items.length === 0 ? (
+                        <p className="rounded-lg border border-dashed border-[var(--border)] bg-white p-8 text-center text-gray-500">
+                            This collection is empty.
+                        </p>
+                    ) : (
+                        <ol className="space-y-4">
+                            {collection.items.map((item, index) => (
+                                <li key={item.id} className="flex gap-4 rounded-lg border border-[var(--border)] bg-white p-4">
+                                    <span className="w-6 shrink-0 pt-1 text-right text-sm font-semibold text-gray-400">{index + 1}</span>
+                                    <div className="relative w-12 h-12 shrink-0 overflow-hidden rounded-md border border-[var(--border)] bg-gray-50">
+                                        <Image src={item.tool.image} alt="" fill className="object-cover" sizes="48px" />
+                                    </div>
+                                    <div className="flex-1 min-w-0">
+                                        <div className="flex flex-wrap items-center gap-2">
+                                            <Link href={`/tool/${item.tool.slug}`} className="font-semibold text-gray-900 hover:text-[var(--primary)]">
+                                                {item.tool.name}
+                                            </Link>
+                                            <span className="text-xs text-gray-500">{item.tool.pricing}</span>
+                                        </div>
+                                        <p className="text-sm text-[var(--muted-foreground)]">{item.tool.shortDescription}</p>
+                                        {item.note && (
+                                            <blockquote className="mt-2 border-l-2 border-[var(--primary)] pl-3 text-sm text-gray-700 whitespace-pre-line">
+                                                {item.note}
+                                            </blockquote>
+                                        )}
+                                    </div>
+                                </li>
+                            ))}
+                        </ol>
+                    )}
+                </div>
+            </Container>
+        </div>
+    );
+}
@@ -0,0 +1,74 @@
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { Container } from '@/components/layout/Container';
+import { CollectionCard } from '@/components/features/collections/CollectionCard';
+import { CollectionForm } from '@/components/features/collections/CollectionForm';
+import { listOwnCollections, listRecentPublicCollections } from '@/lib/services/collections.service';
+
+export const metadata: Metadata = {
+    title: 'Tool Collections | AI Tools Book',
+    description: 'Curated lists of AI tools put together by the AI Tools Book community.',
+    alternates: {
+        canonical: 'https://aitoolsbook.com/collections',
+    },
+};
+
+export default async function CollectionsPage() {
+    const [ownCollections, publicCollections] = await Promise.all([
+        listOwnCollections(),
+        listRecentPublicCollections(),
+    ]);
+
+    return (
+        <div className="min-h-screen py-16 bg-gray-50/50">
+            <Container>
+                <div className="text-center mb-12">
+                    <h1 className="text-3xl md:text-4xl font-bold mb-4">Tool Collections</h1>
+                    <p className="text-[var(--muted-foreground)]">
+                        Group the tools you use into lists, add notes, and share them with a link.
+                    </p>
+                </div>
+
+                <section className="mb-16">
+                    <h2 className="text-xl font-bold mb-6">Your collections</h2>
+                    {ownCollections === null ? (
+                        <p className="text-gray-600">
+                            <Link href="/login?callbackUrl=%2Fcollections" className="font-medium text-[var(--primary)] hover:underline">
+                                Log in
+                            </Link>{' '}
+                            to create collections.
+                        </p>
+                    ) : (
+                        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                            <div className="lg:col-span-2">
+                                {ownCollections.length === 0 ? (
+                                    <p className="rounded-lg border border-dashed border-[var(--border)] bg-white p-8 text-center text-gray-500">
+                                        You have no collections yet.
+                                    </p>
+                                ) : (
+                                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                        {ownCollections.map(collection => (
+                                            <CollectionCard key={collection.id} collection={collection} showVisibility />
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                            <CollectionForm />
+                        </div>
+                    )}
+                </section>
+
+                {publicCollections.length > 0 && (
+                    <section>
+                        <h2 className="text-xl font-bold mb-6">Recently updated public collections</h2>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                            {publicCollections.map(collection => (
+                                <CollectionCard key={collection.id} collection={collection} />
+                            ))}
+                        </div>
+                    </section>
+                )}
+            </Container>
+        </div>
+    );
+}
@@ -1,6 +1,7 @@
 import { Metadata } from 'next';
-import { notFound } from 'next/navigation';
+import { notFound, permanentRedirect } from 'next/navigation';
 import { freeAIToolsService, FreeAIToolsError } from '@/lib/services/free-ai-tools.service';
+import { resolveSlugRedirect } from '@/lib/services/redirects.service';
 import { Breadcrumb } from '@/components/ui/Breadcrumb';
 import {
   CategorySidebar,
@@ -295,6 +296,11 @@ export default async function CategoryPage({
   } catch (error) {
     // Handle not found errors
     if (error instanceof FreeAIToolsError && error.code === 'NOT_FOUND') {
+      // Renamed categories keep their old URLs working
+      const currentSlug = await resolveSlugRedirect('categories', slug);
+      if (currentSlug) {
+        permanentRedirect(`/free-ai-tools/${currentSlug}`);
+      }
       notFound();
     }
     throw error;
@@ -1,6 +1,9 @@
 import { Metadata } from 'next';
 import Link from 'next/link';
 import { freeAIToolsService } from '@/lib/services/free-ai-tools.service';
+import { getFeaturedPanelTools } from '@/lib/services/featured.service';
+import { getFaqs } from '@/lib/services/faq.service';
+import type { FAQ } from '@/lib/types/faq';
 import {
   CategorySidebar,
   FeaturedToolsPanel,
@@ -181,7 +184,11 @@ function ThreeStepsSection() {
  * FAQ Section Component
  * Displays FAQ accordion - Requirement 2.6
  */
-function FAQSection({ faqItems }: { faqItems: { question: string; answer: string }[] }) {
+function FAQSection({ faqItems }: { faqItems: FAQ[] }) {
+  if (faqItems.length === 0) {
+    return null;
+  }
+
   return (
     <section className="mb-10" id="faq">
       <h2 className="text-2xl font-bold text-[var(--foreground)] mb-6">
@@ -255,8 +262,8 @@ export default async function FreeAIToolsPage() {
   // Fetch data using the service
   const [categories, featuredTools, faqItems] = await Promise.all([
     freeAIToolsService.getCategories(),
-    freeAIToolsService.getFeaturedTools(),
-    freeAIToolsService.getFAQItems(),
+    getFeaturedPanelTools(),
+    getFaqs('free-ai-tools'),
   ]);
 
   // Calculate total tools count for structured data
@@ -13,7 +13,8 @@ import {
     SocialShare,
     SortDropdown
 } from '@/components/features/midjourney';
-import { Prompt, FilterGroup, FAQ } from '@/lib/types/prompt';
+import { Prompt, FilterGroup } from '@/lib/types/prompt';
+import type { FAQ } from '@/lib/types/faq';
 import { ChevronRight, ArrowUp } from 'lucide-react';
 
 interface MidjourneyLibraryClientProps {
@@ -2,7 +2,8 @@ import { Suspense } from 'react';
 import { Container } from '@/components/layout/Container';
 import { MasonryGrid } from '@/components/features/MasonryGrid';
 import { PromptCard } from '@/components/features/PromptCard';
-import { getPrompts, getTagCounts, getFilterGroups, getFAQs } from '@/lib/services/prompt.service';
+import { getPrompts, getTagCounts, getFilterGroups } from '@/lib/services/prompt.service';
+import { getFaqs } from '@/lib/services/faq.service';
 import { Metadata } from 'next';
 import { MidjourneyLibraryClient } from './MidjourneyLibraryClient';
 
@@ -21,7 +22,7 @@ async function MidjourneyContent() {
         getPrompts(50),
         getTagCounts(),
         getFilterGroups(),
-        getFAQs()
+        getFaqs('midjourney-library')
     ]);
 
     return (
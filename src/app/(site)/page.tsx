@@ -2,10 +2,11 @@ import { Suspense } from 'react';
 import { Metadata } from 'next';
 import { Container } from '@/components/layout/Container';
 import { NewsService } from '@/lib/services/news.service';
+import { getHomeFeaturedTools } from '@/lib/services/featured.service';
 import { NewsSidebar } from '@/components/features/news/NewsSidebar';
 import {
   StatsBar,
-  MyToolsSection,
+  MyToolsDock,
   FilterTabs,
   ToolCardsGrid,
   CategoryGrid,
@@ -19,13 +20,11 @@ import { Mail } from 'lucide-react';
 
 // Data imports
 import myToolsData from '@/data/my-tools.json';
-import featuredToolsData from '@/data/featured-tools.json';
 import categoriesData from '@/data/categories-home.json';
 
 // Types
 import {
   MyToolSchema,
-  FeaturedToolSchema,
   CategoryItemSchema,
   safeParseArray
 } from '@/lib/types/home.types';
@@ -56,6 +55,15 @@ export async function generateMetadata(): Promise<Metadata> {
   };
 }
 
+/**
+ * Featured tools grid. Loaded inside the section's error boundary so a
+ * database outage only takes down this grid, not the whole homepage.
+ */
+async function FeaturedToolCards() {
+  const featuredTools = await getHomeFeaturedTools();
+  return <ToolCardsGrid tools={featuredTools} activeFilter="today" />;
+}
+
 /**
  * Homepage - AI Tools Book
  * 
@@ -67,7 +75,6 @@ export default async function HomePage() {
 
   // Validate data with Zod - Issue #23, #27
   const validatedMyTools = safeParseArray(MyToolSchema, myToolsData);
-  const validatedFeaturedTools = safeParseArray(FeaturedToolSchema, featuredToolsData);
   const validatedCategories = safeParseArray(CategoryItemSchema, categoriesData);
 
   // TODO: Issue #44, #45 - Fetch real stats from database
@@ -107,10 +114,7 @@ export default async function HomePage() {
             {/* My Tools Section - Issue #37: Error boundary */}
             <HomeErrorBoundary sectionName="My Tools">
               <Suspense fallback={<MyToolsSkeleton />}>
-                <MyToolsSection
-                  tools={validatedMyTools || []}
-                  editable={false}
-                />
+                <MyToolsDock defaults={validatedMyTools || []} />
               </Suspense>
             </HomeErrorBoundary>
 
@@ -122,10 +126,7 @@ export default async function HomePage() {
             {/* Tool Cards Grid - Issue #37, #4 */}
             <HomeErrorBoundary sectionName="Featured Tools">
               <Suspense fallback={<ToolCardsSkeleton />}>
-                <ToolCardsGrid
-                  tools={validatedFeaturedTools || []}
-                  activeFilter="today"
-                />
+                <FeaturedToolCards />
               </Suspense>
             </HomeErrorBoundary>
 
@@ -0,0 +1,89 @@
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { Container } from '@/components/layout/Container';
+import { SubmitToolForm } from '@/components/features/submit/SubmitToolForm';
+import { getCategories } from '@/lib/services/categories.service';
+import { getSubmissionByToken } from '@/lib/services/submissions.service';
+import { SUBMISSION_STATUS_LABELS, type SubmissionStatus } from '@/lib/types/submission';
+
+interface PageProps {
+    params: Promise<{ token: string }>;
+}
+
+// The token is a secret; keep status pages out of search results
+export const metadata: Metadata = {
+    title: 'Submission Status | AI Tools Book',
+    robots: { index: false, follow: false },
+};
+
+const STATUS_STYLES: Record<SubmissionStatus, string> = {
+    pending: 'bg-blue-50 text-blue-700 border-blue-200',
+    changes_requested: 'bg-amber-50 text-amber-700 border-amber-200',
+    approved: 'bg-green-50 text-green-700 border-green-200',
+    rejected: 'bg-red-50 text-red-700 border-red-200',
+};
+
+const STATUS_MESSAGES: Record<SubmissionStatus, string> = {
+    pending: 'Our team will review your tool shortly. Bookmark this page to check on it.',
+    changes_requested: 'Our team asked for a few changes. Update your submission below and it will go back into review.',
+    approved: 'Your tool is now listed in the directory.',
+    rejected: 'Your tool was not added to the directory.',
+};
+
+export default async function SubmissionStatusPage({ params }: PageProps) {
+    const { token } = await params;
+    const submission = await getSubmissionByToken(token);
+    if (!submission) {
+        notFound();
+    }
+
+    const categories = submission.status === 'changes_requested' ? await getCategories() : [];
+
+    return (
+        <div className="min-h-screen py-16 bg-gray-50/50">
+            <Container>
+                <div className="max-w-2xl mx-auto space-y-8">
+                    <div className="bg-white rounded-2xl border border-[var(--border)] shadow-sm p-6 md:p-8">
+                        <p className="text-sm text-[var(--muted-foreground)] mb-2">Submission status</p>
+                        <div className="flex flex-wrap items-center gap-3 mb-4">
+                            <h1 className="text-2xl font-bold">{submission.name}</h1>
+                            <span className={`rounded-full border px-3 py-1 text-sm font-medium ${STATUS_STYLES[submission.status]}`}>
+                                {SUBMISSION_STATUS_LABELS[submission.status]}
+                            </span>
+                        </div>
+                        <p className="text-[var(--muted-foreground)]">{STATUS_MESSAGES[submission.status]}</p>
+
+                        {submission.reviewNote && (
+                            <div className="mt-6 rounded-lg border border-[var(--border)] bg-gray-50 p-4">
+                                <p className="text-sm font-medium text-gray-700 mb-1">Note from our team</p>
+                                <p className="text-sm text-gray-700 whitespace-pre-line">{submission.reviewNote}</p>
+                            </div>
+                        )}
+
+                        {submission.status === 'approved' && submission.toolId && (
+                            <Link
+                                href={`/tool/${submission.slug}`}
+                                className="inline-block mt-6 bg-[var(--primary)] text-white font-semibold py-2 px-6 rounded-lg hover:opacity-90 transition-opacity"
+                            >
+                                View {submission.name}
+                            </Link>
+                        )}
+
+                        <p className="text-xs text-gray-500 mt-6">
+                            Submitted {new Date(submission.createdAt).toLocaleDateString('en-US', { dateStyle: 'medium' })}
+                            {' · '}{submission.websiteUrl}
+                        </p>
+                    </div>
+
+                    {submission.status === 'changes_requested' && (
+                        <SubmitToolForm
+                            categories={categories.map(({ id, name }) => ({ id, name }))}
+                            submission={submission}
+                        />
+                    )}
+                </div>
+            </Container>
+        </div>
+    );
+}
@@ -1,13 +1,22 @@
-import { redirect } from 'next/navigation';
+import { permanentRedirect, redirect } from 'next/navigation';
 import Image from 'next/image';
 import Link from 'next/link';
 import { getToolBySlug } from '@/lib/services/tools.service';
+import { resolveSlugRedirect } from '@/lib/services/redirects.service';
+import { getFaqs } from '@/lib/services/faq.service';
+import { getOwnReview, getOwnReviewVotes, getToolReviews } from '@/lib/services/reviews.service';
+import { parseReviewParams, toAggregateRating } from '@/lib/types/review';
+import { FAQAccordion } from '@/components/features/free-ai-tools';
 import { Container } from '@/components/layout/Container';
-import { Share2, Bookmark, Star, ExternalLink } from 'lucide-react';
+import { FavoriteButton } from '@/components/features/FavoriteButton';
+import { AddToCollectionButton } from '@/components/features/collections/AddToCollectionButton';
+import { ReviewsSection } from '@/components/features/reviews/ReviewsSection';
+import { Share2, Star, ExternalLink } from 'lucide-react';
 import type { Metadata } from 'next';
 
 interface PageProps {
     params: Promise<{ slug: string }>;
+    searchParams: Promise<{ reviewPage?: string; reviewSort?: string }>;
 }
 
 /**
@@ -36,16 +45,29 @@ export async function generateMetadata({ params }: PageProps): Promise<Metadata>
     };
 }
 
-export default async function ToolPage({ params }: PageProps) {
+export default async function ToolPage({ params, searchParams }: PageProps) {
     const { slug } = await params;
     const tool = await getToolBySlug(slug);
 
-    // Per Requirement 14.7: Redirect to search results page when tool doesn't exist
     if (!tool) {
+        // A renamed tool keeps its old URLs working
+        const currentSlug = await resolveSlugRedirect('tools', slug);
+        if (currentSlug) {
+            permanentRedirect(`/tool/${currentSlug}`);
+        }
+
+        // Per Requirement 14.7: Redirect to search results page when tool doesn't exist
         const searchQuery = slugToSearchQuery(slug);
         redirect(`/?search=${encodeURIComponent(searchQuery)}`);
     }
 
+    const [faqs, reviews, ownReview] = await Promise.all([
+        getFaqs(`tool:${tool.slug}`),
+        getToolReviews(tool.id, parseReviewParams(await searchParams)),
+        getOwnReview(tool.id),
+    ]);
+    const ownVotes = await getOwnReviewVotes(reviews.reviews.map(review => review.id));
+
     return (
         <div className="min-h-screen bg-gray-50 pb-20">
             {/* Breadcrumb / Header Area */}
@@ -71,9 +93,8 @@ export default async function ToolPage({ params }: PageProps) {
                                     <button type="button" className="flex items-center gap-2 px-4 py-2 bg-white border border-[var(--border)] rounded-[var(--radius-sm)] shadow-sm hover:bg-gray-50 font-medium text-sm text-gray-700">
                                         <Share2 className="w-4 h-4" /> Share
                                     </button>
-                                    <button type="button" className="flex items-center gap-2 px-4 py-2 bg-white border border-[var(--border)] rounded-[var(--radius-sm)] shadow-sm hover:bg-gray-50 font-medium text-sm text-gray-700">
-                                        <Bookmark className="w-4 h-4" /> Save ({tool.savedCount})
-                                    </button>
+                                    <FavoriteButton variant="button" toolId={tool.id} savedCount={tool.savedCount} />
+                                    <AddToCollectionButton variant="button" toolId={tool.id} toolName={tool.name} />
                                     <a
                                         href={tool.websiteUrl}
                                         target="_blank"
@@ -90,8 +111,10 @@ export default async function ToolPage({ params }: PageProps) {
                             <div className="flex flex-wrap items-center gap-4 mt-4 text-sm text-gray-500">
                                 <div className="flex items-center text-yellow-500">
                                     <Star className="w-4 h-4 fill-current" />
-                                    <span className="ml-1 font-semibold text-gray-900">{tool.reviewScore}</span>
-                                    <span className="ml-1 text-gray-400">({tool.reviewCount} reviews)</span>
+                                    <span className="ml-1 font-semibold text-gray-900">{tool.reviewScore.toFixed(1)}</span>
+                                    <a href="#reviews" className="ml-1 text-gray-400 hover:text-[var(--primary)]">
+                                        ({tool.reviewCount} {tool.reviewCount === 1 ? 'review' : 'reviews'})
+                                    </a>
                                 </div>
                                 <span className="bg-purple-100 text-[var(--primary)] px-2 py-0.5 rounded text-xs font-semibold">
                                     {tool.pricing}
@@ -121,21 +144,14 @@ export default async function ToolPage({ params }: PageProps) {
                             </div>
                         </div>
 
-                        {/* Reviews Section Placeholder */}
-                        <div className="bg-white rounded-[var(--radius)] border border-[var(--border)] p-8 shadow-sm">
-                            <h2 className="text-xl font-bold mb-4">User Reviews</h2>
-                            <div className="space-y-4">
-                                {[1, 2].map(i => (
-                                    <div key={i} className="border-b border-[var(--border)] pb-4 last:border-0 last:pb-0">
-                                        <div className="flex items-center justify-between mb-2">
-                                            <span className="font-semibold text-gray-900">User {i}</span>
-                                            <div className="flex text-yellow-400"><Star className="w-3 h-3 fill-current" /> <Star className="w-3 h-3 fill-current" /><Star className="w-3 h-3 fill-current" /></div>
-                                        </div>
-                                        <p className="text-sm text-gray-600">Great tool, really helped my workflow!</p>
-                                    </div>
-                                ))}
+                        <ReviewsSection tool={tool} reviews={reviews} ownReview={ownReview} ownVotes={ownVotes} />
+
+                        {faqs.length > 0 && (
+                            <div className="bg-white rounded-[var(--radius)] border border-[var(--border)] p-8 shadow-sm" id="faq">
+                                <h2 className="text-xl font-bold mb-4">{tool.name} FAQ</h2>
+                                <FAQAccordion items={faqs} />
                             </div>
-                        </div>
+                        )}
                     </div>
 
                     {/* Sidebar Info */}
@@ -189,11 +205,7 @@ export default async function ToolPage({ params }: PageProps) {
                             price: tool.pricing === 'Free' ? '0' : '0',
                             priceCurrency: 'USD',
                         },
-                        aggregateRating: {
-                            '@type': 'AggregateRating',
-                            ratingValue: tool.reviewScore,
-                            reviewCount: tool.reviewCount,
-                        },
+                        aggregateRating: toAggregateRating(tool),
                     }),
                 }}
             />
@@ -1,13 +1,367 @@
 'use server';
 
-import { getTools } from '@/lib/services/tools.service';
+import { queryTools, searchTools } from '@/lib/services/tools.service';
+import { DuplicateSubmissionError, resubmitTool, submitTool } from '@/lib/services/submissions.service';
+import { addFavorite, listFavorites, removeFavorite, type FavoriteState } from '@/lib/services/favorites.service';
+import { getPinnedTools, mergePinnedTools, pinTool, reorderPinnedTools, unpinTool } from '@/lib/services/pinned-tools.service';
+import { deleteReview, reportReview, saveReview, voteOnReview } from '@/lib/services/reviews.service';
+import {
+    addToCollection,
+    createCollection,
+    deleteCollection,
+    listCollectionChoices,
+    removeFromCollection,
+    reorderCollectionItems,
+    updateCollection,
+    updateCollectionNote,
+} from '@/lib/services/collections.service';
+import { AuthenticationError } from '@/lib/services/session.service';
+import { createClient } from '@/lib/supabase/server';
+import { toErrorResponse } from '@/lib/db/errors';
+import { ToolSubmissionSchema, type SubmissionDuplicate, type ToolSubmissionInput } from '@/lib/types/submission';
+import { MyToolSchema, type MyTool } from '@/lib/types/home.types';
+import { MAX_PINNED_TOOLS, PinToolInputSchema, type PinToolInput } from '@/lib/types/my-tools';
+import { ReviewInputSchema, ReviewReportSchema, type Review, type ReviewInput, type ReviewReportInput, type ReviewVoteState } from '@/lib/types/review';
+import {
+    CollectionInputSchema,
+    CollectionNoteSchema,
+    MAX_COLLECTION_ITEMS,
+    type Collection,
+    type CollectionChoice,
+    type CollectionInput,
+    type CollectionWithItems,
+} from '@/lib/types/collection';
+import type { Tool, ToolPage, ToolQuery } from '@/lib/types/tool';
+import { revalidatePath } from 'next/cache';
+import { z } from 'zod';
+
+export interface SubmitToolState {
+    message: string;
+    error?: string;
+    retryable?: boolean;
+    duplicates?: SubmissionDuplicate[]; // Listed tools or open submissions the submission matches
+    trackingToken?: string; // Set on success; the submitter's status link is /submit/status/<token>
+}
+
+export interface FavoriteActionState {
+    message: string;
+    error?: string;
+    retryable?: boolean;
+    signInRequired?: boolean; // True when the visitor must sign in first
+    favorite?: FavoriteState; // Set on success; the saved state and count from the database
+}
+
+export interface PinnedToolsActionState {
+    message: string;
+    error?: string;
+    retryable?: boolean;
+    signInRequired?: boolean; // True when the visitor must sign in first
+    tools?: MyTool[]; // Set on success; the dock as stored
+}
+
+export interface ReviewActionState {
+    message: string;
+    error?: string;
+    retryable?: boolean;
+    signInRequired?: boolean; // True when the visitor must sign in first
+    review?: Review; // Set when a review was saved
+    vote?: ReviewVoteState; // Set when a vote was recorded; the counts from the database
+}
+
+export interface CollectionActionState {
+    message: string;
+    error?: string;
+    retryable?: boolean;
+    signInRequired?: boolean; // True when the visitor must sign in first
+    collection?: Collection | CollectionWithItems; // Set on success; the collection after the change
+    choices?: CollectionChoice[]; // Set when listing the user's collections for a tool
+}
 
 export async function searchToolsAction(query: string) {
-    return await getTools({ search: query });
+    return await searchTools(query);
+}
+
+export async function filterToolsAction(query: ToolQuery, cursor: string | null): Promise<ToolPage> {
+    return await queryTools(query, { limit: 20, cursor });
+}
+
+function describeSubmitError(e: unknown): Omit<SubmitToolState, 'message'> {
+    if (e instanceof z.ZodError) {
+        return { error: e.issues.map(issue => issue.message).join(', ') };
+    }
+    if (e instanceof DuplicateSubmissionError) {
+        return { error: e.message, duplicates: e.duplicates };
+    }
+    const { message, retryable } = toErrorResponse(e);
+    return { error: message, retryable };
+}
+
+export async function submitToolAction(input: ToolSubmissionInput): Promise<SubmitToolState> {
+    try {
+        const values = ToolSubmissionSchema.parse(input);
+
+        // Linked to a signed-in submitter so RLS lets them read their own submissions
+        const supabase = await createClient();
+        const { data: { user } } = await supabase.auth.getUser();
+
+        const submission = await submitTool(values, user?.id);
+
+        revalidatePath('/admin/submissions');
+        return { message: 'Submission received', trackingToken: submission.trackingToken };
+    } catch (e) {
+        return { message: 'Failed to submit tool', ...describeSubmitError(e) };
+    }
+}
+
+export async function resubmitToolAction(token: string, input: ToolSubmissionInput): Promise<SubmitToolState> {
+    try {
+        const values = ToolSubmissionSchema.parse(input);
+        const submission = await resubmitTool(token, values);
+
+        revalidatePath('/admin/submissions');
+        revalidatePath(`/submit/status/${token}`);
+        return { message: 'Submission updated', trackingToken: submission.trackingToken };
+    } catch (e) {
+        return { message: 'Failed to update submission', ...describeSubmitError(e) };
+    }
+}
+
+function describeSessionError(e: unknown): { error: string; retryable?: boolean; signInRequired?: boolean } {
+    if (e instanceof z.ZodError) {
+        return { error: e.issues.map(issue => issue.message).join(', ') };
+    }
+    if (e instanceof AuthenticationError) {
+        return { error: e.message, signInRequired: true };
+    }
+    const { message, retryable } = toErrorResponse(e);
+    return { error: message, retryable };
+}
+
+const ToolIdSchema = z.string().uuid("Invalid tool");
+
+export async function addFavoriteAction(toolId: string): Promise<FavoriteActionState> {
+    try {
+        const favorite = await addFavorite(ToolIdSchema.parse(toolId));
+        return { message: 'Tool saved', favorite };
+    } catch (e) {
+        return { message: 'Failed to save tool', ...describeSessionError(e) };
+    }
+}
+
+export async function removeFavoriteAction(toolId: string): Promise<FavoriteActionState> {
+    try {
+        const favorite = await removeFavorite(ToolIdSchema.parse(toolId));
+        return { message: 'Tool removed from saved', favorite };
+    } catch (e) {
+        return { message: 'Failed to remove saved tool', ...describeSessionError(e) };
+    }
+}
+
+export async function listFavoritesAction(): Promise<{ tools: Tool[]; error?: string; signInRequired?: boolean }> {
+    try {
+        return { tools: await listFavorites() };
+    } catch (e) {
+        const { error, signInRequired } = describeSessionError(e);
+        return { tools: [], error, signInRequired };
+    }
+}
+
+const PinIdsSchema = z.array(z.string().uuid("Invalid item")).max(MAX_PINNED_TOOLS);
+const LocalDockSchema = z.array(MyToolSchema).max(MAX_PINNED_TOOLS);
+
+export async function listPinnedToolsAction(): Promise<PinnedToolsActionState> {
+    try {
+        const tools = await getPinnedTools();
+        return tools
+            ? { message: 'My Tools loaded', tools }
+            : { message: 'Sign in to keep My Tools on every device', signInRequired: true };
+    } catch (e) {
+        return { message: 'Failed to load My Tools', ...describeSessionError(e) };
+    }
+}
+
+export async function pinToolAction(pin: PinToolInput): Promise<PinnedToolsActionState> {
+    try {
+        const tools = await pinTool(PinToolInputSchema.parse(pin));
+        return { message: 'Added to My Tools', tools };
+    } catch (e) {
+        return { message: 'Failed to add to My Tools', ...describeSessionError(e) };
+    }
+}
+
+export async function unpinToolAction(pinId: string): Promise<PinnedToolsActionState> {
+    try {
+        const tools = await unpinTool(z.string().uuid("Invalid item").parse(pinId));
+        return { message: 'Removed from My Tools', tools };
+    } catch (e) {
+        return { message: 'Failed to remove from My Tools', ...describeSessionError(e) };
+    }
+}
+
+export async function reorderPinnedToolsAction(pinIds: string[]): Promise<PinnedToolsActionState> {
+    try {
+        const tools = await reorderPinnedTools(PinIdsSchema.parse(pinIds));
+        return { message: 'My Tools reordered', tools };
+    } catch (e) {
+        return { message: 'Failed to reorder My Tools', ...describeSessionError(e) };
+    }
+}
+
+export async function mergePinnedToolsAction(items: MyTool[]): Promise<PinnedToolsActionState> {
+    try {
+        const tools = await mergePinnedTools(LocalDockSchema.parse(items));
+        return { message: 'My Tools synced to your account', tools };
+    } catch (e) {
+        return { message: 'Failed to sync My Tools', ...describeSessionError(e) };
+    }
+}
+
+function revalidateToolPage(slug: string | null) {
+    if (slug) {
+        revalidatePath(`/tool/${slug}`);
+    }
 }
 
-export async function filterToolsAction(category: string | undefined, page: number) {
-    const limit = 20;
-    const offset = (page - 1) * limit;
-    return await getTools({ category, limit, offset });
+export async function saveReviewAction(input: ReviewInput): Promise<ReviewActionState> {
+    try {
+        const { review, toolSlug } = await saveReview(ReviewInputSchema.parse(input));
+        revalidateToolPage(toolSlug);
+        return { message: 'Review published', review };
+    } catch (e) {
+        return { message: 'Failed to publish review', ...describeSessionError(e) };
+    }
+}
+
+export async function deleteReviewAction(toolId: string): Promise<ReviewActionState> {
+    try {
+        const { toolSlug } = await deleteReview(ToolIdSchema.parse(toolId));
+        revalidateToolPage(toolSlug);
+        return { message: 'Review deleted' };
+    } catch (e) {
+        return { message: 'Failed to delete review', ...describeSessionError(e) };
+    }
+}
+
+export async function voteReviewAction(reviewId: string, helpful: boolean | null): Promise<ReviewActionState> {
+    try {
+        const vote = await voteOnReview(z.string().uuid("Invalid review").parse(reviewId), helpful);
+        return { message: helpful === null ? 'Vote removed' : 'Thanks for your feedback', vote };
+    } catch (e) {
+        return { message: 'Failed to record vote', ...describeSessionError(e) };
+    }
+}
+
+export async function reportReviewAction(input: ReviewReportInput): Promise<ReviewActionState> {
+    try {
+        await reportReview(ReviewReportSchema.parse(input));
+        revalidatePath('/admin/moderation');
+        return { message: 'Report sent to the moderators' };
+    } catch (e) {
+        return { message: 'Failed to report review', ...describeSessionError(e) };
+    }
+}
+
+const CollectionIdSchema = z.string().uuid("Invalid collection");
+
+function revalidateCollection(id: string) {
+    revalidatePath('/collections');
+    revalidatePath(`/collections/${id}`);
+}
+
+export async function listCollectionChoicesAction(toolId: string): Promise<CollectionActionState> {
+    try {
+        const choices = await listCollectionChoices(ToolIdSchema.parse(toolId));
+        return { message: 'Collections loaded', choices };
+    } catch (e) {
+        return { message: 'Failed to load collections', ...describeSessionError(e) };
+    }
+}
+
+export async function createCollectionAction(input: CollectionInput, toolId?: string): Promise<CollectionActionState> {
+    try {
+        const values = CollectionInputSchema.parse(input);
+        const created = await createCollection(values);
+        // Creating from a tool's menu adds the tool straight away
+        const collection = toolId ? await addToCollection(created.id, ToolIdSchema.parse(toolId)) : created;
+        revalidateCollection(collection.id);
+        return { message: toolId ? `Added to ${collection.name}` : 'Collection created', collection };
+    } catch (e) {
+        return { message: 'Failed to create collection', ...describeSessionError(e) };
+    }
+}
+
+export async function updateCollectionAction(id: string, input: CollectionInput): Promise<CollectionActionState> {
+    try {
+        const collection = await updateCollection(CollectionIdSchema.parse(id), CollectionInputSchema.parse(input));
+        revalidateCollection(collection.id);
+        return { message: 'Collection saved', collection };
+    } catch (e) {
+        return { message: 'Failed to save collection', ...describeSessionError(e) };
+    }
+}
+
+export async function deleteCollectionAction(id: string): Promise<CollectionActionState> {
+    try {
+        const collectionId = CollectionIdSchema.parse(id);
+        await deleteCollection(collectionId);
+        revalidateCollection(collectionId);
+        return { message: 'Collection deleted' };
+    } catch (e) {
+        return { message: 'Failed to delete collection', ...describeSessionError(e) };
+    }
+}
+
+export async function addToCollectionAction(collectionId: string, toolId: string): Promise<CollectionActionState> {
+    try {
+        const collection = await addToCollection(CollectionIdSchema.parse(collectionId), ToolIdSchema.parse(toolId));
+        revalidateCollection(collection.id);
+        return { message: `Added to ${collection.name}`, collection };
+    } catch (e) {
+        return { message: 'Failed to add to collection', ...describeSessionError(e) };
+    }
+}
+
+export async function removeFromCollectionAction(collectionId: string, toolId: string): Promise<CollectionActionState> {
+    try {
+        const collection = await removeFromCollection(CollectionIdSchema.parse(collectionId), ToolIdSchema.parse(toolId));
+        revalidateCollection(collection.id);
+        return { message: `Removed from ${collection.name}`, collection };
+    } catch (e) {
+        return { message: 'Failed to remove from collection', ...describeSessionError(e) };
+    }
+}
+
+export async function updateCollectionNoteAction(
+    collectionId: string,
+    itemId: string,
+    note: string
+): Promise<CollectionActionState> {
+    try {
+        const collection = await updateCollectionNote(
+            CollectionIdSchema.parse(collectionId),
+            z.string().uuid("Invalid entry").parse(itemId),
+            CollectionNoteSchema.parse(note)
+        );
+        revalidateCollection(collection.id);
+        return { message: 'Note saved', collection };
+    } catch (e) {
+        return { message: 'Failed to save note', ...describeSessionError(e) };
+    }
+}
+
+const CollectionOrderSchema = z
+    .array(z.string().uuid("Invalid entry"))
+    .max(MAX_COLLECTION_ITEMS, `A collection holds at most ${MAX_COLLECTION_ITEMS} tools`);
+
+export async function reorderCollectionItemsAction(collectionId: string, itemIds: string[]): Promise<CollectionActionState> {
+    try {
+        const collection = await reorderCollectionItems(
+            CollectionIdSchema.parse(collectionId),
+            CollectionOrderSchema.parse(itemIds)
+        );
+        revalidateCollection(collection.id);
+        return { message: 'Order saved', collection };
+    } catch (e) {
+        return { message: 'Failed to reorder collection', ...describeSessionError(e) };
+    }
 }
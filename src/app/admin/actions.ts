@@ -1,60 +1,691 @@
 'use server';
 
-import { createTool, updateTool, deleteTool } from '@/lib/services/admin.service';
+import {
+    createTool,
+    updateTool,
+    deleteTool,
+    restoreTool,
+    revertToolRevision,
+    applyBulkToolAction,
+    BULK_TOOLS_LIMIT,
+    type BulkToolAction,
+} from '@/lib/services/tools.service';
+import { getToolById } from '@/lib/services/admin.service';
+import {
+    requireStaffRole,
+    inviteStaff,
+    updateStaffRole,
+    revokeStaff,
+    AuthorizationError,
+    STAFF_ROLES,
+} from '@/lib/services/staff.service';
+import {
+    createCategoryGroup,
+    updateCategoryGroup,
+    deleteCategoryGroup,
+    reorderCategoryGroups,
+    createCategory,
+    updateCategory,
+    deleteCategory,
+    reorderCategories,
+    mergeCategories,
+    createSubcategory,
+    updateSubcategory,
+    deleteSubcategory,
+    reorderSubcategories,
+} from '@/lib/services/categories.service';
+import {
+    addFeaturedTool,
+    removeFeaturedTool,
+    reorderFeaturedTools,
+    scheduleFeaturedTool,
+} from '@/lib/services/featured.service';
+import { approveSubmission, requestSubmissionChanges, rejectSubmission } from '@/lib/services/submissions.service';
+import { MAX_SUBMISSION_CATEGORIES } from '@/lib/types/submission';
+import { banReviewAuthor, hideReview, restoreReview } from '@/lib/services/moderation.service';
+import { createFaq, updateFaq, deleteFaq, reorderFaqs, parseFaqScope } from '@/lib/services/faq.service';
+import { getFaqScopePath } from '@/lib/utils/faq';
+import type { FaqScope } from '@/lib/types/faq';
+import { PRICING_OPTIONS, ToolFormSchema, type ToolFormInput, type ToolFormValues } from '@/lib/types/tool-form';
+import { NotFoundError, toErrorResponse } from '@/lib/db/errors';
 import { revalidatePath } from 'next/cache';
-import { redirect } from 'next/navigation';
 import { z } from 'zod';
 
-const ToolSchema = z.object({
-    name: z.string().min(2, "Name is required"),
-    slug: z.string().min(2, "Slug is required"),
-    description: z.string().min(10, "Description must be at least 10 chars"),
-    shortDescription: z.string().max(100, "Short description too long").optional(),
-    websiteUrl: z.string().url("Invalid URL"),
-    image: z.string().url("Invalid Image URL").optional().or(z.literal('')),
-    pricing: z.string().default('Freemium'),
+const BulkToolActionSchema = z.discriminatedUnion('type', [
+    z.object({ type: z.literal('verify') }),
+    z.object({ type: z.literal('feature'), featured: z.boolean() }),
+    z.object({ type: z.literal('pricing'), pricing: z.enum(PRICING_OPTIONS) }),
+    z.object({ type: z.literal('category'), categoryId: z.string().uuid("Choose a category") }),
+    z.object({ type: z.literal('archive') }),
+]);
+
+const BulkToolIdsSchema = z
+    .array(z.string().uuid())
+    .min(1, "Select at least one tool")
+    .max(BULK_TOOLS_LIMIT, `Select at most ${BULK_TOOLS_LIMIT} tools`);
+
+const InviteStaffSchema = z.object({
+    email: z.string().email("Invalid email"),
+    role: z.enum(STAFF_ROLES),
 });
 
-export async function createToolAction(prevState: unknown, formData: FormData) {
-    try {
-        const rawData = {
-            name: formData.get('name'),
-            slug: formData.get('slug'),
-            description: formData.get('description'),
-            shortDescription: formData.get('shortDescription'),
-            websiteUrl: formData.get('websiteUrl'),
-            image: formData.get('image'),
-            pricing: formData.get('pricing'),
-        };
+const CategoryGroupSchema = z.object({
+    id: z.string().uuid().optional(),
+    name: z.string().trim().min(1, "Name is required"),
+    iconName: z.string().transform(value => value || null),
+});
+
+const CategorySchema = z.object({
+    id: z.string().uuid().optional(),
+    name: z.string().trim().min(1, "Name is required"),
+    slug: z.string().trim().min(1, "Slug is required"),
+    description: z.string().default(''),
+    iconName: z.string().transform(value => value || null),
+    groupId: z.string().uuid("Invalid group").or(z.literal('')).transform(value => value || null),
+});
+
+const SubcategorySchema = z.object({
+    id: z.string().uuid().optional(),
+    categoryId: z.string().uuid("Invalid category"),
+    name: z.string().trim().min(1, "Name is required"),
+    slug: z.string().trim().min(1, "Slug is required"),
+});
+
+const MergeCategorySchema = z.object({
+    sourceId: z.string().uuid("Invalid category"),
+    targetId: z.string().uuid("Choose a category to merge into"),
+});
+
+const OrderedIdsSchema = z.array(z.string().uuid()).min(1);
+
+const FaqSchema = z.object({
+    id: z.string().uuid().optional(),
+    scope: z.string().min(1, "Scope is required"),
+    question: z.string().trim().min(1, "Question is required"),
+    answer: z.string().trim().min(1, "Answer is required"),
+});
+
+const FeaturedScheduleSchema = z.object({
+    id: z.string().uuid("Invalid featured slot"),
+    startsAt: z.string().default(''),
+    endsAt: z.string().default(''),
+});
+
+const ApproveSubmissionSchema = z.object({
+    id: z.string().uuid("Invalid submission"),
+    slug: z.string().trim().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Slug must be lowercase letters, digits and hyphens"),
+    categoryIds: z
+        .array(z.string().uuid("Invalid category"))
+        .min(1, "Choose at least one category")
+        .max(MAX_SUBMISSION_CATEGORIES, `Choose at most ${MAX_SUBMISSION_CATEGORIES} categories`),
+});
+
+const SubmissionDecisionSchema = z.object({
+    id: z.string().uuid("Invalid submission"),
+    note: z.string().trim().min(1, "A note for the submitter is required").max(2000, "Note is too long"),
+});
+
+const ModerationDecisionSchema = z.object({
+    id: z.string().uuid("Invalid review"),
+    reason: z.string().trim().min(1, "A reason is required").max(500, "Reason is too long"),
+});
+
+export interface ToolActionState {
+    message: string;
+    error?: string;
+    retryable?: boolean; // True when the failure was transient and resubmitting may work
+}
+
+export type StaffActionState = ToolActionState;
 
-        const validateddev = ToolSchema.parse(rawData);
+export type TaxonomyActionState = ToolActionState;
 
-        // Type casting for known enum values
-        const pricing = validateddev.pricing as 'Free' | 'Freemium' | 'Paid' | 'Contact for Pricing';
+export type FeaturedActionState = ToolActionState;
 
+export type FaqActionState = ToolActionState;
+
+export type SubmissionActionState = ToolActionState;
+
+export type ModerationActionState = ToolActionState;
+
+function describeError(e: unknown): Pick<ToolActionState, 'error' | 'retryable'> {
+    if (e instanceof z.ZodError) {
+        return { error: e.issues.map(issue => issue.message).join(', ') };
+    }
+    if (e instanceof AuthorizationError) {
+        return { error: e.message };
+    }
+    // Database and service errors map to user-safe messages without SQL details
+    const { message, retryable } = toErrorResponse(e);
+    return { error: message, retryable };
+}
+
+/**
+ * Tool fields of validated form values. Blank optional text is stored as null.
+ */
+function toToolFields(values: ToolFormValues) {
+    return {
+        name: values.name,
+        slug: values.slug,
+        description: values.description,
+        shortDescription: values.shortDescription,
+        websiteUrl: values.websiteUrl,
+        externalUrl: values.externalUrl,
+        image: values.image,
+        pricing: values.pricing,
+        freeTierDetails: values.freeTierDetails,
+        tags: values.tags,
+        verified: values.verified,
+        isNew: values.isNew,
+        isFeatured: values.isFeatured,
+        metadata: values.metadata,
+    };
+}
+
+function revalidateTool(...slugs: string[]) {
+    revalidatePath('/admin/tools');
+    revalidatePath('/admin/dashboard');
+    revalidatePath('/'); // Update home page
+    revalidatePath('/category', 'layout');
+    for (const slug of new Set(slugs)) {
+        revalidatePath(`/tool/${slug}`);
+    }
+}
+
+export async function createToolAction(input: ToolFormInput): Promise<ToolActionState> {
+    try {
+        const actor = await requireStaffRole('editor');
+        const validated = ToolFormSchema.parse(input);
+
+        // Created through tools.service so the row lands in the tools table
+        // and is linked to its categories, exactly as /tool/[slug] reads it.
         await createTool({
-            ...validateddev,
-            pricing,
-            shortDescription: validateddev.shortDescription || '', // Ensure string
-            image: validateddev.image || 'https://placehold.co/600x400',
-            tags: [],
-            categories: []
-        });
+            ...toToolFields(validated),
+            image: validated.image || undefined,
+            monthlyVisits: validated.monthlyVisits ?? undefined,
+            categoryIds: validated.categoryIds,
+        }, actor.userId);
 
-        revalidatePath('/admin/tools');
-        revalidatePath('/'); // Update home page
+        revalidateTool(validated.slug);
         return { message: 'Tool created successfully' };
     } catch (e) {
-        return { message: 'Failed to create tool', error: e };
+        return { message: 'Failed to create tool', ...describeError(e) };
+    }
+}
+
+export async function updateToolAction(id: string, input: ToolFormInput): Promise<ToolActionState> {
+    try {
+        const actor = await requireStaffRole('editor');
+        const validated = ToolFormSchema.parse(input);
+
+        const previous = await getToolById(z.string().uuid().parse(id));
+        if (!previous) {
+            throw new NotFoundError('Tool', id);
+        }
+
+        const tool = await updateTool(id, {
+            ...toToolFields(validated),
+            monthlyVisits: validated.monthlyVisits,
+        }, validated.categoryIds, actor.userId);
+
+        // The old slug now redirects, so its cached page must go too
+        revalidateTool(previous.slug, tool.slug);
+        revalidatePath(`/admin/tools/${id}/edit`);
+        return { message: 'Tool saved' };
+    } catch (e) {
+        return { message: 'Failed to save tool', ...describeError(e) };
+    }
+}
+
+export async function bulkToolAction(toolIds: string[], action: BulkToolAction): Promise<ToolActionState> {
+    try {
+        const actor = await requireStaffRole('editor');
+        const validated = BulkToolActionSchema.parse(action);
+
+        const changed = await applyBulkToolAction(BulkToolIdsSchema.parse(toolIds), validated, actor.userId);
+
+        revalidateTool();
+        revalidatePath('/tool/[slug]', 'page');
+        if (validated.type === 'archive') {
+            revalidatePath('/admin/tools/archived');
+        }
+        if (validated.type === 'feature') {
+            revalidateFeatured();
+        }
+        return { message: `${changed} tool${changed === 1 ? '' : 's'} updated` };
+    } catch (e) {
+        return { message: 'Bulk action failed', ...describeError(e) };
     }
 }
 
 export async function deleteToolAction(id: string) {
+    const actor = await requireStaffRole('editor');
+
     try {
-        await deleteTool(id);
+        await deleteTool(id, actor.userId);
         revalidatePath('/admin/tools');
+        revalidatePath('/admin/tools/archived');
+        revalidatePath('/admin/dashboard');
         revalidatePath('/');
     } catch (e) {
-        throw new Error("Failed to delete tool");
+        throw new Error(`Failed to delete tool: ${describeError(e).error}`);
+    }
+}
+
+export async function restoreToolAction(id: string) {
+    const actor = await requireStaffRole('editor');
+
+    try {
+        const tool = await restoreTool(id, actor.userId);
+        revalidatePath('/admin/tools');
+        revalidatePath('/admin/tools/archived');
+        revalidatePath('/admin/dashboard');
+        revalidatePath('/');
+        revalidatePath(`/tool/${tool.slug}`);
+    } catch (e) {
+        throw new Error(`Failed to restore tool: ${describeError(e).error}`);
+    }
+}
+
+export async function revertToolRevisionAction(toolId: string, revisionId: string) {
+    const actor = await requireStaffRole('editor');
+
+    try {
+        const tool = await revertToolRevision(toolId, revisionId, actor.userId);
+        revalidatePath(`/admin/tools/${toolId}/edit`);
+        revalidatePath('/admin/tools');
+        revalidatePath('/');
+        revalidatePath(`/tool/${tool.slug}`);
+    } catch (e) {
+        throw new Error(`Failed to revert tool: ${describeError(e).error}`);
+    }
+}
+
+export async function inviteStaffAction(prevState: unknown, formData: FormData): Promise<StaffActionState> {
+    try {
+        const actor = await requireStaffRole('admin');
+        const validated = InviteStaffSchema.parse({
+            email: formData.get('email'),
+            role: formData.get('role'),
+        });
+
+        await inviteStaff(validated.email, validated.role, actor.userId);
+
+        revalidatePath('/admin/staff');
+        return { message: `Invited ${validated.email}` };
+    } catch (e) {
+        return { message: 'Failed to invite staff member', ...describeError(e) };
+    }
+}
+
+export async function updateStaffRoleAction(id: string, role: string) {
+    const actor = await requireStaffRole('admin');
+    const validatedRole = z.enum(STAFF_ROLES).parse(role);
+
+    await updateStaffRole(id, validatedRole, actor.userId);
+    revalidatePath('/admin/staff');
+}
+
+export async function revokeStaffAction(id: string) {
+    const actor = await requireStaffRole('admin');
+
+    await revokeStaff(id, actor.userId);
+    revalidatePath('/admin/staff');
+}
+
+/**
+ * Form fields as strings, with absent optional fields left out so zod defaults apply.
+ */
+function formFields(formData: FormData, keys: string[]): Record<string, string> {
+    return Object.fromEntries(
+        keys.flatMap(key => {
+            const value = formData.get(key);
+            return typeof value === 'string' && (value !== '' || key !== 'id') ? [[key, value]] : [];
+        })
+    );
+}
+
+function revalidateTaxonomy() {
+    revalidatePath('/admin/categories');
+    revalidatePath('/admin/dashboard');
+    revalidatePath('/category', 'layout');
+    revalidatePath('/');
+}
+
+export async function saveCategoryGroupAction(prevState: unknown, formData: FormData): Promise<TaxonomyActionState> {
+    try {
+        await requireStaffRole('editor');
+        const { id, ...input } = CategoryGroupSchema.parse(formFields(formData, ['id', 'name', 'iconName']));
+
+        const group = id ? await updateCategoryGroup(id, input) : await createCategoryGroup(input);
+
+        revalidateTaxonomy();
+        return { message: `Saved group ${group.name}` };
+    } catch (e) {
+        return { message: 'Failed to save group', ...describeError(e) };
+    }
+}
+
+export async function deleteCategoryGroupAction(id: string): Promise<TaxonomyActionState> {
+    try {
+        await requireStaffRole('editor');
+        await deleteCategoryGroup(z.string().uuid().parse(id));
+
+        revalidateTaxonomy();
+        return { message: 'Group deleted; its categories are now ungrouped' };
+    } catch (e) {
+        return { message: 'Failed to delete group', ...describeError(e) };
+    }
+}
+
+export async function reorderCategoryGroupsAction(groupIds: string[]): Promise<TaxonomyActionState> {
+    try {
+        await requireStaffRole('editor');
+        await reorderCategoryGroups(OrderedIdsSchema.parse(groupIds));
+
+        revalidateTaxonomy();
+        return { message: 'Group order saved' };
+    } catch (e) {
+        return { message: 'Failed to reorder groups', ...describeError(e) };
+    }
+}
+
+export async function saveCategoryAction(prevState: unknown, formData: FormData): Promise<TaxonomyActionState> {
+    try {
+        const actor = await requireStaffRole('editor');
+        const { id, ...input } = CategorySchema.parse(
+            formFields(formData, ['id', 'name', 'slug', 'description', 'iconName', 'groupId'])
+        );
+
+        const category = id
+            ? await updateCategory(id, input, actor.userId)
+            : await createCategory(input, actor.userId);
+
+        revalidateTaxonomy();
+        revalidatePath(`/category/${category.slug}`);
+        return { message: `Saved category ${category.name}` };
+    } catch (e) {
+        return { message: 'Failed to save category', ...describeError(e) };
+    }
+}
+
+export async function deleteCategoryAction(id: string): Promise<TaxonomyActionState> {
+    try {
+        const actor = await requireStaffRole('editor');
+        await deleteCategory(z.string().uuid().parse(id), actor.userId);
+
+        revalidateTaxonomy();
+        return { message: 'Category deleted' };
+    } catch (e) {
+        return { message: 'Failed to delete category', ...describeError(e) };
+    }
+}
+
+export async function reorderCategoriesAction(categoryIds: string[]): Promise<TaxonomyActionState> {
+    try {
+        const actor = await requireStaffRole('editor');
+        await reorderCategories(OrderedIdsSchema.parse(categoryIds), actor.userId);
+
+        revalidateTaxonomy();
+        return { message: 'Category order saved' };
+    } catch (e) {
+        return { message: 'Failed to reorder categories', ...describeError(e) };
+    }
+}
+
+export async function mergeCategoryAction(prevState: unknown, formData: FormData): Promise<TaxonomyActionState> {
+    try {
+        const actor = await requireStaffRole('editor');
+        const { sourceId, targetId } = MergeCategorySchema.parse(formFields(formData, ['sourceId', 'targetId']));
+
+        const moved = await mergeCategories(sourceId, targetId, actor.userId);
+
+        revalidateTaxonomy();
+        return { message: `Merged category; ${moved} tool${moved === 1 ? '' : 's'} moved` };
+    } catch (e) {
+        return { message: 'Failed to merge category', ...describeError(e) };
+    }
+}
+
+export async function saveSubcategoryAction(prevState: unknown, formData: FormData): Promise<TaxonomyActionState> {
+    try {
+        await requireStaffRole('editor');
+        const { id, categoryId, ...input } = SubcategorySchema.parse(
+            formFields(formData, ['id', 'categoryId', 'name', 'slug'])
+        );
+
+        const subcategory = id
+            ? await updateSubcategory(id, input)
+            : await createSubcategory(categoryId, input);
+
+        revalidateTaxonomy();
+        return { message: `Saved subcategory ${subcategory.name}` };
+    } catch (e) {
+        return { message: 'Failed to save subcategory', ...describeError(e) };
+    }
+}
+
+export async function deleteSubcategoryAction(id: string): Promise<TaxonomyActionState> {
+    try {
+        await requireStaffRole('editor');
+        await deleteSubcategory(z.string().uuid().parse(id));
+
+        revalidateTaxonomy();
+        return { message: 'Subcategory deleted' };
+    } catch (e) {
+        return { message: 'Failed to delete subcategory', ...describeError(e) };
+    }
+}
+
+export async function reorderSubcategoriesAction(subcategoryIds: string[]): Promise<TaxonomyActionState> {
+    try {
+        await requireStaffRole('editor');
+        await reorderSubcategories(OrderedIdsSchema.parse(subcategoryIds));
+
+        revalidateTaxonomy();
+        return { message: 'Subcategory order saved' };
+    } catch (e) {
+        return { message: 'Failed to reorder subcategories', ...describeError(e) };
+    }
+}
+
+function revalidateFeatured() {
+    revalidatePath('/admin/featured');
+    revalidatePath('/');
+    revalidatePath('/free-ai-tools');
+}
+
+export async function addFeaturedToolAction(toolId: string): Promise<FeaturedActionState> {
+    try {
+        const actor = await requireStaffRole('editor');
+        await addFeaturedTool(z.string().uuid("Invalid tool").parse(toolId), actor.userId);
+
+        revalidateFeatured();
+        return { message: 'Tool featured' };
+    } catch (e) {
+        return { message: 'Failed to feature tool', ...describeError(e) };
+    }
+}
+
+export async function removeFeaturedToolAction(slotId: string): Promise<FeaturedActionState> {
+    try {
+        const actor = await requireStaffRole('editor');
+        await removeFeaturedTool(z.string().uuid().parse(slotId), actor.userId);
+
+        revalidateFeatured();
+        return { message: 'Tool removed from featured' };
+    } catch (e) {
+        return { message: 'Failed to remove featured tool', ...describeError(e) };
+    }
+}
+
+export async function reorderFeaturedToolsAction(toolIds: string[]): Promise<FeaturedActionState> {
+    try {
+        const actor = await requireStaffRole('editor');
+        await reorderFeaturedTools(OrderedIdsSchema.parse(toolIds), actor.userId);
+
+        revalidateFeatured();
+        return { message: 'Featured order saved' };
+    } catch (e) {
+        return { message: 'Failed to reorder featured tools', ...describeError(e) };
+    }
+}
+
+export async function scheduleFeaturedToolAction(prevState: unknown, formData: FormData): Promise<FeaturedActionState> {
+    try {
+        const actor = await requireStaffRole('editor');
+        const { id, ...schedule } = FeaturedScheduleSchema.parse(formFields(formData, ['id', 'startsAt', 'endsAt']));
+
+        await scheduleFeaturedTool(id, schedule, actor.userId);
+
+        revalidateFeatured();
+        return { message: 'Schedule saved' };
+    } catch (e) {
+        return { message: 'Failed to save schedule', ...describeError(e) };
+    }
+}
+
+function revalidateFaqs(scope: FaqScope) {
+    revalidatePath('/admin/faqs');
+    revalidatePath(getFaqScopePath(scope));
+}
+
+export async function saveFaqAction(prevState: unknown, formData: FormData): Promise<FaqActionState> {
+    try {
+        const actor = await requireStaffRole('editor');
+        const { id, scope, ...input } = FaqSchema.parse(formFields(formData, ['id', 'scope', 'question', 'answer']));
+
+        const faq = id ? await updateFaq(id, input, actor.userId) : await createFaq(scope, input, actor.userId);
+
+        revalidateFaqs(faq.scope);
+        return { message: 'FAQ saved' };
+    } catch (e) {
+        return { message: 'Failed to save FAQ', ...describeError(e) };
+    }
+}
+
+export async function deleteFaqAction(id: string, scope: string): Promise<FaqActionState> {
+    try {
+        const actor = await requireStaffRole('editor');
+        const validScope = parseFaqScope(scope);
+        await deleteFaq(z.string().uuid().parse(id), actor.userId);
+
+        revalidateFaqs(validScope);
+        return { message: 'FAQ deleted' };
+    } catch (e) {
+        return { message: 'Failed to delete FAQ', ...describeError(e) };
+    }
+}
+
+export async function reorderFaqsAction(scope: string, faqIds: string[]): Promise<FaqActionState> {
+    try {
+        const actor = await requireStaffRole('editor');
+        const validScope = parseFaqScope(scope);
+        await reorderFaqs(OrderedIdsSchema.parse(faqIds), actor.userId);
+
+        revalidateFaqs(validScope);
+        return { message: 'FAQ order saved' };
+    } catch (e) {
+        return { message: 'Failed to reorder FAQs', ...describeError(e) };
+    }
+}
+
+function revalidateSubmissions() {
+    revalidatePath('/admin/submissions');
+    revalidatePath('/submit/status/[token]', 'page');
+}
+
+export async function approveSubmissionAction(
+    id: string,
+    approval: { slug: string; categoryIds: string[] }
+): Promise<SubmissionActionState> {
+    try {
+        const actor = await requireStaffRole('editor');
+        const { id: submissionId, ...choices } = ApproveSubmissionSchema.parse({ id, ...approval });
+
+        const tool = await approveSubmission(submissionId, choices, actor.userId);
+
+        revalidateSubmissions();
+        revalidateTool(tool.slug);
+        return { message: `${tool.name} is now listed` };
+    } catch (e) {
+        return { message: 'Failed to approve submission', ...describeError(e) };
+    }
+}
+
+export async function requestSubmissionChangesAction(id: string, note: string): Promise<SubmissionActionState> {
+    try {
+        const actor = await requireStaffRole('editor');
+        const decision = SubmissionDecisionSchema.parse({ id, note });
+
+        await requestSubmissionChanges(decision.id, decision.note, actor.userId);
+
+        revalidateSubmissions();
+        return { message: 'Sent back to the submitter' };
+    } catch (e) {
+        return { message: 'Failed to request changes', ...describeError(e) };
+    }
+}
+
+export async function rejectSubmissionAction(id: string, reason: string): Promise<SubmissionActionState> {
+    try {
+        const actor = await requireStaffRole('editor');
+        const decision = SubmissionDecisionSchema.parse({ id, note: reason });
+
+        await rejectSubmission(decision.id, decision.note, actor.userId);
+
+        revalidateSubmissions();
+        return { message: 'Submission rejected' };
+    } catch (e) {
+        return { message: 'Failed to reject submission', ...describeError(e) };
+    }
+}
+
+function revalidateModeration(...slugs: (string | null)[]) {
+    revalidatePath('/admin/moderation');
+    for (const slug of new Set(slugs)) {
+        if (slug) revalidatePath(`/tool/${slug}`);
+    }
+}
+
+export async function hideReviewAction(id: string, reason: string): Promise<ModerationActionState> {
+    try {
+        const actor = await requireStaffRole('editor');
+        const decision = ModerationDecisionSchema.parse({ id, reason });
+
+        const { toolSlug } = await hideReview(decision.id, decision.reason, actor.userId);
+
+        revalidateModeration(toolSlug);
+        return { message: 'Review hidden' };
+    } catch (e) {
+        return { message: 'Failed to hide review', ...describeError(e) };
+    }
+}
+
+export async function restoreReviewAction(id: string): Promise<ModerationActionState> {
+    try {
+        const actor = await requireStaffRole('editor');
+
+        const { toolSlug } = await restoreReview(z.string().uuid("Invalid review").parse(id), actor.userId);
+
+        revalidateModeration(toolSlug);
+        return { message: 'Review restored' };
+    } catch (e) {
+        return { message: 'Failed to restore review', ...describeError(e) };
+    }
+}
+
+// Bans lock a user out of reviews site-wide, so they need an admin
+export async function banReviewAuthorAction(reviewId: string, reason: string): Promise<ModerationActionState> {
+    try {
+        const actor = await requireStaffRole('admin');
+        const decision = ModerationDecisionSchema.parse({ id: reviewId, reason });
+
+        const { toolSlugs } = await banReviewAuthor(decision.id, decision.reason, actor.userId);
+
+        revalidateModeration(...toolSlugs);
+        return { message: 'User banned and their reviews hidden' };
+    } catch (e) {
+        return { message: 'Failed to ban user', ...describeError(e) };
     }
 }
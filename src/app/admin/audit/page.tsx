@@ -0,0 +1,196 @@
+import Link from 'next/link';
+import { getAuditLog } from '@/lib/services/audit.service';
+import { listStaff } from '@/lib/services/staff.service';
+import { Button } from '@/components/ui/button';
+import { ChevronRight } from 'lucide-react';
+import {
+    AUDIT_ENTITIES,
+    SCRAPER_ACTOR,
+    SYSTEM_ACTOR,
+    type AuditEntity,
+    type AuditEntry,
+    type AuditLogFilters,
+} from '@/lib/types/audit';
+
+interface AuditPageProps {
+    searchParams: Promise<{ actor?: string; entity?: string; from?: string; to?: string; after?: string }>;
+}
+
+const OPERATION_STYLES: Record<AuditEntry['operation'], string> = {
+    insert: 'bg-green-50 text-green-700',
+    update: 'bg-blue-50 text-blue-700',
+    delete: 'bg-red-50 text-red-700',
+    archive: 'bg-amber-50 text-amber-700',
+    restore: 'bg-indigo-50 text-indigo-700',
+};
+
+/**
+ * Human-readable name of the changed row, falling back to its id.
+ */
+function describeRecord(entry: AuditEntry): string {
+    const record = entry.after ?? entry.before;
+    const label = record?.name ?? record?.question ?? record?.slug;
+    return typeof label === 'string' ? label : entry.entityId ?? '—';
+}
+
+function formatValue(value: unknown): string {
+    if (value === null || value === undefined) {
+        return '∅';
+    }
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    return text.length > 120 ? `${text.slice(0, 117)}…` : text;
+}
+
+export default async function AuditPage({ searchParams }: AuditPageProps) {
+    const { after, ...params } = await searchParams;
+    const filters: AuditLogFilters = {
+        actor: params.actor || undefined,
+        entity: (AUDIT_ENTITIES as readonly string[]).includes(params.entity ?? '')
+            ? (params.entity as AuditEntity)
+            : undefined,
+        from: params.from || undefined,
+        to: params.to || undefined,
+    };
+
+    const [page, staff] = await Promise.all([getAuditLog(filters, after ?? null), listStaff()]);
+    const entries = page.items;
+
+    const filterQuery = new URLSearchParams(
+        Object.entries(filters).filter((entry): entry is [string, string] => Boolean(entry[1]))
+    );
+    const nextQuery = new URLSearchParams(filterQuery);
+    if (page.nextCursor) {
+        nextQuery.set('after', page.nextCursor);
+    }
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h2 className="text-3xl font-bold text-gray-900">Audit Log</h2>
+                <p className="text-sm text-gray-500 mt-1">
+                    Every change to tools, categories, featured tools and FAQs, with who made it.
+                </p>
+            </div>
+
+            <form method="get" className="flex flex-wrap items-end gap-4 bg-white rounded-xl border border-gray-200 shadow-sm p-4 text-sm">
+                <label className="flex flex-col gap-1 text-gray-600">
+                    Actor
+                    <select name="actor" defaultValue={filters.actor ?? ''} className="h-9 rounded-md border border-gray-200 bg-white px-2">
+                        <option value="">Anyone</option>
+                        {staff.map(member => (
+                            <option key={member.userId} value={member.userId}>{member.email}</option>
+                        ))}
+                        <option value={SCRAPER_ACTOR}>Scraper</option>
+                        <option value={SYSTEM_ACTOR}>System</option>
+                    </select>
+                </label>
+                <label className="flex flex-col gap-1 text-gray-600">
+                    Entity
+                    <select name="entity" defaultValue={filters.entity ?? ''} className="h-9 rounded-md border border-gray-200 bg-white px-2">
+                        <option value="">All</option>
+                        {AUDIT_ENTITIES.map(entity => (
+                            <option key={entity} value={entity}>{entity}</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="flex flex-col gap-1 text-gray-600">
+                    From
+                    <input type="date" name="from" defaultValue={filters.from ?? ''} className="h-9 rounded-md border border-gray-200 px-2" />
+                </label>
+                <label className="flex flex-col gap-1 text-gray-600">
+                    To
+                    <input type="date" name="to" defaultValue={filters.to ?? ''} className="h-9 rounded-md border border-gray-200 px-2" />
+                </label>
+                <Button type="submit" size="sm">Filter</Button>
+                <Button variant="ghost" size="sm" asChild>
+                    <Link href="/admin/audit">Reset</Link>
+                </Button>
+            </form>
+
+            <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
+                <table className="w-full text-sm text-left">
+                    <thead className="bg-gray-50 text-gray-500 border-b border-gray-200">
+                        <tr>
+                            <th className="px-6 py-4 font-medium">When</th>
+                            <th className="px-6 py-4 font-medium">Actor</th>
+                            <th className="px-6 py-4 font-medium">Entity</th>
+                            <th className="px-6 py-4 font-medium">Operation</th>
+                            <th className="px-6 py-4 font-medium">Changes</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                        {entries.length === 0 && (
+                            <tr>
+                                <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
+                                    No changes match these filters.
+                                </td>
+                            </tr>
+                        )}
+                        {entries.map(entry => {
+                            const changes = Object.entries(entry.changes);
+
+                            return (
+                                <tr key={entry.id} className="align-top hover:bg-gray-50 transition-colors">
+                                    <td className="px-6 py-4 text-gray-500 whitespace-nowrap">
+                                        {new Date(entry.createdAt).toLocaleString()}
+                                    </td>
+                                    <td className="px-6 py-4 text-gray-900">{entry.actorLabel}</td>
+                                    <td className="px-6 py-4">
+                                        <div className="font-medium text-gray-900">{describeRecord(entry)}</div>
+                                        <div className="text-xs text-gray-500">{entry.entity}</div>
+                                    </td>
+                                    <td className="px-6 py-4">
+                                        <span className={`px-2 py-0.5 rounded text-xs font-medium ${OPERATION_STYLES[entry.operation]}`}>
+                                            {entry.operation}
+                                        </span>
+                                    </td>
+                                    <td className="px-6 py-4 text-gray-600">
+                                        {changes.length === 0 ? '—' : (
+                                            <details>
+                                                <summary className="cursor-pointer">
+                                                    {changes.length} field{changes.length === 1 ? '' : 's'}
+                                                </summary>
+                                                <dl className="mt-2 space-y-1 text-xs">
+                                                    {changes.map(([field, change]) => (
+                                                        <div key={field}>
+                                                            <dt className="font-medium text-gray-700">{field}</dt>
+                                                            <dd className="break-all">
+                                                                <span className="text-red-600 line-through">{formatValue(change.before)}</span>
+                                                                {' → '}
+                                                                <span className="text-green-700">{formatValue(change.after)}</span>
+                                                            </dd>
+                                                        </div>
+                                                    ))}
+                                                </dl>
+                                            </details>
+                                        )}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="flex items-center justify-between text-sm text-gray-500">
+                <span>
+                    Showing {entries.length} of {page.total} changes
+                </span>
+                <div className="flex items-center gap-2">
+                    {after && (
+                        <Button variant="outline" size="sm" asChild>
+                            <Link href={`/admin/audit?${filterQuery.toString()}`}>First page</Link>
+                        </Button>
+                    )}
+                    {page.nextCursor && (
+                        <Button variant="outline" size="sm" asChild>
+                            <Link href={`/admin/audit?${nextQuery.toString()}`}>
+                                Next <ChevronRight className="w-4 h-4 ml-1" />
+                            </Link>
+                        </Button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,23 @@
+import { getCategories, listCategoryGroups, listSubcategories } from '@/lib/services/categories.service';
+import { CategoryManager } from '@/components/admin/CategoryManager';
+
+export default async function CategoriesPage() {
+    const [groups, categories, subcategories] = await Promise.all([
+        listCategoryGroups(),
+        getCategories({ withToolCount: true }),
+        listSubcategories(),
+    ]);
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h2 className="text-3xl font-bold text-gray-900">Categories</h2>
+                <p className="text-sm text-gray-500 mt-1">
+                    Drag the handles to reorder. Renamed and merged categories keep their old URLs as redirects.
+                </p>
+            </div>
+
+            <CategoryManager groups={groups} categories={categories} subcategories={subcategories} />
+        </div>
+    );
+}
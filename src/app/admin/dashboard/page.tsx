@@ -1,54 +1,183 @@
-import { getAdminStats } from '@/lib/services/admin.service';
+import Link from 'next/link';
+import { getAdminStats, DASHBOARD_PERIOD_BUCKETS, type DashboardPeriod, type ScraperRunSummary } from '@/lib/services/admin.service';
+import { BreakdownBars, ToolsAddedChart } from '@/components/admin/DashboardCharts';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { PenTool, Archive, Users, Activity } from 'lucide-react';
+import { PenTool, Archive, BadgeCheck, Heart, MessageSquare, Bot } from 'lucide-react';
 
-export default async function DashboardPage() {
-    const stats = await getAdminStats();
+interface DashboardPageProps {
+    searchParams: Promise<{ period?: string }>;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+    scraper: 'Scraper',
+    manual: 'Manual',
+};
+
+const RUN_STATUS_STYLES: Record<NonNullable<ScraperRunSummary['status']>, string> = {
+    succeeded: 'bg-green-100 text-green-800',
+    partial: 'bg-amber-100 text-amber-800',
+    failed: 'bg-red-100 text-red-800',
+};
+
+function formatDuration(ms: number): string {
+    const minutes = Math.floor(ms / 60000);
+    const seconds = Math.round((ms % 60000) / 1000);
+    return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+}
+
+function StatCard({ title, value, icon: Icon, note }: { title: string; value: number; icon: typeof PenTool; note?: React.ReactNode }) {
+    return (
+        <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">{title}</CardTitle>
+                <Icon className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+                <div className="text-2xl font-bold">{value.toLocaleString()}</div>
+                {note && <p className="text-xs text-muted-foreground">{note}</p>}
+            </CardContent>
+        </Card>
+    );
+}
+
+export default async function DashboardPage({ searchParams }: DashboardPageProps) {
+    const { period: periodParam } = await searchParams;
+    const period: DashboardPeriod = periodParam === 'week' ? 'week' : 'day';
+    const stats = await getAdminStats(period);
+    const addedInRange = stats.toolsAdded.reduce((sum, point) => sum + point.count, 0);
+    const run = stats.lastScraperRun;
 
     return (
         <div className="space-y-8">
             <h2 className="text-3xl font-bold text-gray-900">Dashboard</h2>
 
             {/* Stats Grid */}
-            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
-                <Card>
-                    <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                        <CardTitle className="text-sm font-medium">Total Tools</CardTitle>
-                        <PenTool className="h-4 w-4 text-muted-foreground" />
+            <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-5">
+                <StatCard
+                    title="Total Tools"
+                    value={stats.totalTools}
+                    icon={PenTool}
+                    note={`${addedInRange.toLocaleString()} added in the last ${DASHBOARD_PERIOD_BUCKETS[period]} ${period}s`}
+                />
+                <StatCard
+                    title="Categories"
+                    value={stats.totalCategories}
+                    icon={Archive}
+                    note={stats.emptyCategories.length > 0 ? `${stats.emptyCategories.length} without tools` : 'All have tools'}
+                />
+                <StatCard
+                    title="Unverified"
+                    value={stats.unverifiedTools}
+                    icon={BadgeCheck}
+                    note={<Link href="/admin/tools?verified=no" className="hover:underline">Review backlog</Link>}
+                />
+                <StatCard title="Favorites" value={stats.favorites} icon={Heart} note="Tools saved by users" />
+                <StatCard title="Reviews" value={stats.reviews} icon={MessageSquare} />
+            </div>
+
+            <div className="grid gap-4 lg:grid-cols-3">
+                <Card className="lg:col-span-2">
+                    <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                        <CardTitle className="text-base">Tools added per {period}</CardTitle>
+                        <div className="flex gap-1 text-sm">
+                            {(['day', 'week'] as const).map(option => (
+                                <Link
+                                    key={option}
+                                    href={option === 'day' ? '/admin/dashboard' : `/admin/dashboard?period=${option}`}
+                                    aria-current={option === period ? 'page' : undefined}
+                                    className={`px-2 py-0.5 rounded ${option === period ? 'bg-gray-900 text-white' : 'text-gray-500 hover:bg-gray-100'}`}
+                                >
+                                    {option === 'day' ? 'Daily' : 'Weekly'}
+                                </Link>
+                            ))}
+                        </div>
                     </CardHeader>
                     <CardContent>
-                        <div className="text-2xl font-bold">{stats.totalTools}</div>
-                        <p className="text-xs text-muted-foreground">+2 since last hour</p>
+                        <ToolsAddedChart points={stats.toolsAdded} period={period} />
                     </CardContent>
                 </Card>
 
                 <Card>
-                    <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                        <CardTitle className="text-sm font-medium">Categories</CardTitle>
-                        <Archive className="h-4 w-4 text-muted-foreground" />
+                    <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                        <CardTitle className="text-base">Last scraper run</CardTitle>
+                        <Bot className="h-4 w-4 text-muted-foreground" />
+                    </CardHeader>
+                    <CardContent className="space-y-2 text-sm">
+                        {run ? (
+                            <>
+                                <div className="flex items-center gap-2">
+                                    <span className="font-medium text-gray-900">{new Date(run.finishedAt).toLocaleString()}</span>
+                                    {run.status && (
+                                        <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${RUN_STATUS_STYLES[run.status]}`}>
+                                            {run.status}
+                                        </span>
+                                    )}
+                                </div>
+                                <dl className="grid grid-cols-2 gap-y-1 text-gray-600">
+                                    <dt>Tools extracted</dt>
+                                    <dd className="text-right">{run.toolsExtracted.toLocaleString()}</dd>
+                                    <dt>Categories</dt>
+                                    <dd className="text-right">{run.categoriesScraped.toLocaleString()}</dd>
+                                    {run.errorCount !== null && (
+                                        <>
+                                            <dt>Errors</dt>
+                                            <dd className="text-right">{run.errorCount.toLocaleString()}</dd>
+                                        </>
+                                    )}
+                                    {run.durationMs !== null && (
+                                        <>
+                                            <dt>Duration</dt>
+                                            <dd className="text-right">{formatDuration(run.durationMs)}</dd>
+                                        </>
+                                    )}
+                                </dl>
+                                {run.source === 'file' && (
+                                    <p className="text-xs text-gray-500">From scraping-metadata.json; no run is recorded in the database.</p>
+                                )}
+                            </>
+                        ) : (
+                            <p className="text-gray-500">The scraper has not run yet.</p>
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+
+            <div className="grid gap-4 lg:grid-cols-3">
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="text-base">Tools by pricing</CardTitle>
                     </CardHeader>
                     <CardContent>
-                        <div className="text-2xl font-bold">{stats.totalCategories}</div>
+                        <BreakdownBars rows={stats.toolsByPricing} />
                     </CardContent>
                 </Card>
 
                 <Card>
-                    <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                        <CardTitle className="text-sm font-medium">Total Prompts</CardTitle>
-                        <Activity className="h-4 w-4 text-muted-foreground" />
+                    <CardHeader>
+                        <CardTitle className="text-base">Tools by source</CardTitle>
                     </CardHeader>
                     <CardContent>
-                        <div className="text-2xl font-bold">124</div>
+                        <BreakdownBars rows={stats.toolsBySource} labels={SOURCE_LABELS} />
                     </CardContent>
                 </Card>
 
                 <Card>
-                    <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                        <CardTitle className="text-sm font-medium">Users</CardTitle>
-                        <Users className="h-4 w-4 text-muted-foreground" />
+                    <CardHeader>
+                        <CardTitle className="text-base">Categories with no tools</CardTitle>
                     </CardHeader>
                     <CardContent>
-                        <div className="text-2xl font-bold">573</div>
+                        {stats.emptyCategories.length === 0 ? (
+                            <p className="text-sm text-gray-500">Every category has at least one tool.</p>
+                        ) : (
+                            <ul className="space-y-1 text-sm max-h-48 overflow-y-auto">
+                                {stats.emptyCategories.map(category => (
+                                    <li key={category.id} className="flex items-center justify-between">
+                                        <span className="text-gray-700">{category.name}</span>
+                                        <span className="text-xs text-gray-400">/{category.slug}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
                     </CardContent>
                 </Card>
             </div>
@@ -72,9 +201,15 @@ export default async function DashboardPage() {
                                 <td className="px-6 py-3 font-medium text-gray-900">{tool.name}</td>
                                 <td className="px-6 py-3 text-gray-500">{new Date(tool.dateAdded || '').toLocaleDateString()}</td>
                                 <td className="px-6 py-3">
-                                    <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800">
-                                        Active
-                                    </span>
+                                    {tool.verified ? (
+                                        <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800">
+                                            Verified
+                                        </span>
+                                    ) : (
+                                        <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-700">
+                                            Unverified
+                                        </span>
+                                    )}
                                 </td>
                             </tr>
                         ))}
@@ -0,0 +1,60 @@
+import Link from 'next/link';
+import { getFaqs, listFaqScopes } from '@/lib/services/faq.service';
+import { getCategories } from '@/lib/services/categories.service';
+import { FaqManager } from '@/components/admin/FaqManager';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ExternalLink } from 'lucide-react';
+import { getFaqScopePath, isFaqScope } from '@/lib/utils/faq';
+import { PAGE_FAQ_SCOPES, type FaqScope } from '@/lib/types/faq';
+
+interface FaqsPageProps {
+    searchParams: Promise<{ scope?: string }>;
+}
+
+export default async function FaqsPage({ searchParams }: FaqsPageProps) {
+    const { scope: requested = PAGE_FAQ_SCOPES[0] } = await searchParams;
+    const isValid = isFaqScope(requested.trim());
+    const scope: FaqScope = isValid ? (requested.trim() as FaqScope) : PAGE_FAQ_SCOPES[0];
+
+    const [faqs, usedScopes, categories] = await Promise.all([getFaqs(scope), listFaqScopes(), getCategories()]);
+    const suggestions = [
+        ...new Set<string>([
+            ...PAGE_FAQ_SCOPES,
+            ...usedScopes,
+            ...categories.map(category => `category:${category.slug}`),
+        ]),
+    ];
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h2 className="text-3xl font-bold text-gray-900">FAQs</h2>
+                <p className="text-sm text-gray-500 mt-1">
+                    Each page has its own list: free-ai-tools, midjourney-library, category:&lt;slug&gt; or tool:&lt;slug&gt;. Answers are markdown.
+                </p>
+            </div>
+
+            <form className="flex items-center gap-2">
+                <Input name="scope" defaultValue={scope} list="faq-scopes" aria-label="Scope" className="max-w-md" />
+                <datalist id="faq-scopes">
+                    {suggestions.map(suggestion => (
+                        <option key={suggestion} value={suggestion} />
+                    ))}
+                </datalist>
+                <Button type="submit" variant="outline">Open</Button>
+                <Link href={getFaqScopePath(scope)} target="_blank" className="ml-2 text-sm text-blue-500 hover:underline flex items-center gap-1">
+                    View page <ExternalLink className="w-3 h-3" />
+                </Link>
+            </form>
+
+            {!isValid && (
+                <p className="text-sm text-red-600">
+                    &ldquo;{requested}&rdquo; is not a valid scope; showing {scope} instead.
+                </p>
+            )}
+
+            <FaqManager key={scope} scope={scope} faqs={faqs} />
+        </div>
+    );
+}
@@ -0,0 +1,73 @@
+import { listFeaturedSlots } from '@/lib/services/featured.service';
+import { searchTools } from '@/lib/services/tools.service';
+import { addFeaturedToolAction } from '@/app/admin/actions';
+import { FeaturedManager } from '@/components/admin/FeaturedManager';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Plus, Search } from 'lucide-react';
+
+interface FeaturedPageProps {
+    searchParams: Promise<{ q?: string }>;
+}
+
+export default async function FeaturedPage({ searchParams }: FeaturedPageProps) {
+    const { q = '' } = await searchParams;
+    const [slots, results] = await Promise.all([listFeaturedSlots(), searchTools(q, 10)]);
+    const featuredIds = new Set(slots.map(slot => slot.tool.id));
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h2 className="text-3xl font-bold text-gray-900">Featured</h2>
+                <p className="text-sm text-gray-500 mt-1">
+                    Active slots appear on the homepage and the Free AI Tools panel in this order. Leave a date empty to keep that side open.
+                </p>
+            </div>
+
+            <section className="bg-white rounded-xl border border-gray-200 shadow-sm p-6 space-y-4">
+                <form className="flex gap-2">
+                    <Input name="q" defaultValue={q} placeholder="Search tools to feature..." aria-label="Search tools" />
+                    <Button type="submit" variant="outline">
+                        <Search className="w-4 h-4 mr-2" /> Search
+                    </Button>
+                </form>
+
+                {q.trim() !== '' && results.length === 0 && (
+                    <p className="text-sm text-gray-500">No tools match &ldquo;{q}&rdquo;.</p>
+                )}
+
+                {results.length > 0 && (
+                    <ul className="divide-y divide-gray-100">
+                        {results.map(tool => (
+                            <li key={tool.id} className="flex items-center justify-between gap-4 py-2">
+                                <div className="min-w-0">
+                                    <div className="font-medium text-gray-900 truncate">{tool.name}</div>
+                                    <div className="text-xs text-gray-500">/tool/{tool.slug}</div>
+                                </div>
+                                {featuredIds.has(tool.id) ? (
+                                    <span className="text-xs text-gray-500">Featured</span>
+                                ) : (
+                                    <form action={async () => {
+                                        'use server';
+                                        const result = await addFeaturedToolAction(tool.id);
+                                        if (result.error) {
+                                            throw new Error(`${result.message}: ${result.error}`);
+                                        }
+                                    }}>
+                                        <Button variant="outline" size="sm">
+                                            <Plus className="w-4 h-4 mr-2" /> Feature
+                                        </Button>
+                                    </form>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </section>
+
+            <section className="bg-white rounded-xl border border-gray-200 shadow-sm p-6">
+                <FeaturedManager slots={slots} />
+            </section>
+        </div>
+    );
+}
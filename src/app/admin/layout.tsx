@@ -1,11 +1,14 @@
 import Link from 'next/link';
-import { LayoutDashboard, PenTool, Image as ImageIcon, Settings, LogOut, Search } from 'lucide-react';
+import { LayoutDashboard, PenTool, FolderTree, Star, HelpCircle, Image as ImageIcon, Settings, LogOut, Search, ShieldCheck, History, Inbox, Flag } from 'lucide-react';
+import { getCurrentStaff, hasRequiredRole } from '@/lib/services/staff.service';
 
-export default function AdminLayout({
+export default async function AdminLayout({
     children,
 }: {
     children: React.ReactNode;
 }) {
+    const staff = await getCurrentStaff();
+
     return (
         <div className="flex h-screen bg-gray-100">
             {/* Sidebar */}
@@ -27,12 +30,49 @@ export default function AdminLayout({
                         <span className="font-medium">Tools</span>
                     </Link>
 
+                    <Link href="/admin/submissions" className="flex items-center gap-3 px-4 py-3 text-gray-700 rounded-lg hover:bg-gray-50 hover:text-blue-600 transition-colors">
+                        <Inbox className="w-5 h-5" />
+                        <span className="font-medium">Submissions</span>
+                    </Link>
+
+                    <Link href="/admin/moderation" className="flex items-center gap-3 px-4 py-3 text-gray-700 rounded-lg hover:bg-gray-50 hover:text-blue-600 transition-colors">
+                        <Flag className="w-5 h-5" />
+                        <span className="font-medium">Moderation</span>
+                    </Link>
+
+                    <Link href="/admin/categories" className="flex items-center gap-3 px-4 py-3 text-gray-700 rounded-lg hover:bg-gray-50 hover:text-blue-600 transition-colors">
+                        <FolderTree className="w-5 h-5" />
+                        <span className="font-medium">Categories</span>
+                    </Link>
+
+                    <Link href="/admin/featured" className="flex items-center gap-3 px-4 py-3 text-gray-700 rounded-lg hover:bg-gray-50 hover:text-blue-600 transition-colors">
+                        <Star className="w-5 h-5" />
+                        <span className="font-medium">Featured</span>
+                    </Link>
+
+                    <Link href="/admin/faqs" className="flex items-center gap-3 px-4 py-3 text-gray-700 rounded-lg hover:bg-gray-50 hover:text-blue-600 transition-colors">
+                        <HelpCircle className="w-5 h-5" />
+                        <span className="font-medium">FAQs</span>
+                    </Link>
+
 
 
                     <Link href="/admin/prompts" className="flex items-center gap-3 px-4 py-3 text-gray-700 rounded-lg hover:bg-gray-50 hover:text-blue-600 transition-colors">
                         <ImageIcon className="w-5 h-5" />
                         <span className="font-medium">Prompts</span>
                     </Link>
+
+                    <Link href="/admin/audit" className="flex items-center gap-3 px-4 py-3 text-gray-700 rounded-lg hover:bg-gray-50 hover:text-blue-600 transition-colors">
+                        <History className="w-5 h-5" />
+                        <span className="font-medium">Audit Log</span>
+                    </Link>
+
+                    {hasRequiredRole(staff?.role ?? null, 'admin') && (
+                        <Link href="/admin/staff" className="flex items-center gap-3 px-4 py-3 text-gray-700 rounded-lg hover:bg-gray-50 hover:text-blue-600 transition-colors">
+                            <ShieldCheck className="w-5 h-5" />
+                            <span className="font-medium">Staff</span>
+                        </Link>
+                    )}
                 </nav>
 
                 <div className="p-4 border-t border-gray-100">
@@ -56,8 +96,11 @@ export default function AdminLayout({
                         />
                     </div>
                     <div className="flex items-center gap-4">
+                        {staff && (
+                            <span className="text-xs font-medium uppercase tracking-wide text-gray-500">{staff.role}</span>
+                        )}
                         <div className="w-8 h-8 rounded-full bg-blue-100 flex items-center justify-center text-blue-600 font-bold">
-                            A
+                            {staff?.email.charAt(0).toUpperCase() ?? 'A'}
                         </div>
                     </div>
                 </div>
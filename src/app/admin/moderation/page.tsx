@@ -0,0 +1,89 @@
+import Link from 'next/link';
+import { getModerationCounts, listModerationQueue } from '@/lib/services/moderation.service';
+import { getCurrentStaff, hasRequiredRole } from '@/lib/services/staff.service';
+import { ModeratedReviewCard } from '@/components/admin/ModeratedReviewCard';
+import { ChevronRight } from 'lucide-react';
+import { MODERATION_QUEUES, type ModerationQueue } from '@/lib/types/review';
+
+interface ModerationPageProps {
+    searchParams: Promise<{ queue?: string; after?: string }>;
+}
+
+const QUEUE_LABELS: Record<ModerationQueue, string> = {
+    reported: 'Reported',
+    hidden: 'Hidden',
+};
+
+function parseQueue(value: string | undefined): ModerationQueue {
+    return (MODERATION_QUEUES as readonly string[]).includes(value ?? '') ? (value as ModerationQueue) : 'reported';
+}
+
+export default async function ModerationPage({ searchParams }: ModerationPageProps) {
+    const params = await searchParams;
+    const queue = parseQueue(params.queue);
+
+    const [page, counts, staff] = await Promise.all([
+        listModerationQueue(queue, params.after ?? null),
+        getModerationCounts(),
+        getCurrentStaff(),
+    ]);
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h2 className="text-3xl font-bold text-gray-900">Moderation</h2>
+                <p className="text-sm text-gray-500 mt-1">
+                    Reviews reported by users, most reported first. Hidden reviews leave the tool page and its rating until restored.
+                </p>
+            </div>
+
+            <nav className="flex flex-wrap gap-2" aria-label="Moderation queue">
+                {MODERATION_QUEUES.map(value => (
+                    <Link
+                        key={value}
+                        href={`/admin/moderation?queue=${value}`}
+                        aria-current={value === queue ? 'page' : undefined}
+                        className={`rounded-full border px-4 py-1.5 text-sm transition-colors ${value === queue
+                            ? 'border-blue-600 bg-blue-600 text-white'
+                            : 'border-gray-200 bg-white text-gray-700 hover:border-blue-300'}`}
+                    >
+                        {QUEUE_LABELS[value]} ({counts[value] ?? 0})
+                    </Link>
+                ))}
+            </nav>
+
+            {page.items.length === 0 ? (
+                <div className="bg-white rounded-xl border border-gray-200 p-12 text-center text-gray-500">
+                    No {QUEUE_LABELS[queue].toLowerCase()} reviews.
+                </div>
+            ) : (
+                <div className="space-y-4">
+                    {page.items.map(review => (
+                        <ModeratedReviewCard
+                            key={`${review.id}:${review.hiddenAt ?? ''}:${review.reportCount}`}
+                            review={review}
+                            canBan={hasRequiredRole(staff?.role ?? null, 'admin')}
+                        />
+                    ))}
+                </div>
+            )}
+
+            <div className="flex items-center justify-between text-sm text-gray-500">
+                <span>{page.total} {page.total === 1 ? 'review' : 'reviews'}</span>
+                <div className="flex gap-4">
+                    {params.after && (
+                        <Link href={`/admin/moderation?queue=${queue}`} className="hover:text-blue-600">First page</Link>
+                    )}
+                    {page.nextCursor && (
+                        <Link
+                            href={`/admin/moderation?queue=${queue}&after=${encodeURIComponent(page.nextCursor)}`}
+                            className="inline-flex items-center gap-1 hover:text-blue-600"
+                        >
+                            Next <ChevronRight className="w-4 h-4" />
+                        </Link>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
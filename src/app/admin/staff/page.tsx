@@ -0,0 +1,88 @@
+import { listStaff, getCurrentStaff, STAFF_ROLES } from '@/lib/services/staff.service';
+import { updateStaffRoleAction, revokeStaffAction } from '@/app/admin/actions';
+import { StaffInviteForm } from '@/components/admin/StaffInviteForm';
+import { Button } from '@/components/ui/button';
+import { UserMinus } from 'lucide-react';
+
+export default async function StaffPage() {
+    const [staff, currentStaff] = await Promise.all([listStaff(), getCurrentStaff()]);
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h2 className="text-3xl font-bold text-gray-900">Staff</h2>
+                <p className="text-sm text-gray-500 mt-1">
+                    Viewers can browse the admin area, editors can change content, admins can also manage staff.
+                </p>
+            </div>
+
+            <StaffInviteForm />
+
+            <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
+                <table className="w-full text-sm text-left">
+                    <thead className="bg-gray-50 text-gray-500 border-b border-gray-200">
+                        <tr>
+                            <th className="px-6 py-4 font-medium">Email</th>
+                            <th className="px-6 py-4 font-medium">Role</th>
+                            <th className="px-6 py-4 font-medium">Added</th>
+                            <th className="px-6 py-4 font-medium text-right">Actions</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                        {staff.map(member => {
+                            const isSelf = member.userId === currentStaff?.userId;
+
+                            return (
+                                <tr key={member.id} className="hover:bg-gray-50 transition-colors">
+                                    <td className="px-6 py-4 font-medium text-gray-900">
+                                        {member.email}
+                                        {isSelf && <span className="ml-2 text-xs text-gray-400">(you)</span>}
+                                    </td>
+                                    <td className="px-6 py-4">
+                                        <form
+                                            className="flex items-center gap-2"
+                                            action={async (formData: FormData) => {
+                                                'use server';
+                                                await updateStaffRoleAction(member.id, String(formData.get('role')));
+                                            }}
+                                        >
+                                            <select
+                                                name="role"
+                                                defaultValue={member.role}
+                                                disabled={isSelf}
+                                                aria-label={`Role for ${member.email}`}
+                                                className="h-8 rounded-md border border-gray-200 bg-white px-2 text-sm capitalize"
+                                            >
+                                                {STAFF_ROLES.map(role => (
+                                                    <option key={role} value={role}>{role}</option>
+                                                ))}
+                                            </select>
+                                            {!isSelf && (
+                                                <Button type="submit" variant="outline" size="sm">Save</Button>
+                                            )}
+                                        </form>
+                                    </td>
+                                    <td className="px-6 py-4 text-gray-500">
+                                        {member.createdAt ? new Date(member.createdAt).toLocaleDateString() : '—'}
+                                    </td>
+                                    <td className="px-6 py-4 text-right">
+                                        {!isSelf && (
+                                            <form action={async () => {
+                                                'use server';
+                                                await revokeStaffAction(member.id);
+                                            }}>
+                                                <Button variant="ghost" size="icon" className="text-red-500 hover:text-red-600 hover:bg-red-50" aria-label={`Revoke ${member.email}`}>
+                                                    <UserMinus className="w-4 h-4" />
+                                                </Button>
+                                            </form>
+                                        )}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
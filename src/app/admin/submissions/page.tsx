@@ -0,0 +1,99 @@
+import Link from 'next/link';
+import {
+    findSubmissionDuplicates,
+    getSubmissionCounts,
+    listSubmissions,
+} from '@/lib/services/submissions.service';
+import { getCategories } from '@/lib/services/categories.service';
+import { SubmissionReviewCard } from '@/components/admin/SubmissionReviewCard';
+import { ChevronRight } from 'lucide-react';
+import {
+    OPEN_SUBMISSION_STATUSES,
+    SUBMISSION_STATUSES,
+    SUBMISSION_STATUS_LABELS,
+    type SubmissionStatus,
+} from '@/lib/types/submission';
+
+interface SubmissionsPageProps {
+    searchParams: Promise<{ status?: string; after?: string }>;
+}
+
+function parseStatus(value: string | undefined): SubmissionStatus {
+    return (SUBMISSION_STATUSES as readonly string[]).includes(value ?? '') ? (value as SubmissionStatus) : 'pending';
+}
+
+export default async function SubmissionsPage({ searchParams }: SubmissionsPageProps) {
+    const params = await searchParams;
+    const status = parseStatus(params.status);
+
+    const [page, counts, categories] = await Promise.all([
+        listSubmissions(status, params.after ?? null),
+        getSubmissionCounts(),
+        getCategories(),
+    ]);
+
+    // Decided submissions are no longer checked for duplicates
+    const duplicates = OPEN_SUBMISSION_STATUSES.includes(status)
+        ? await Promise.all(page.items.map(submission => findSubmissionDuplicates(submission, submission.id)))
+        : page.items.map(() => []);
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h2 className="text-3xl font-bold text-gray-900">Submissions</h2>
+                <p className="text-sm text-gray-500 mt-1">
+                    Tools submitted from /submit, oldest first. Approving creates the tool; notes are shown to the submitter.
+                </p>
+            </div>
+
+            <nav className="flex flex-wrap gap-2" aria-label="Submission status">
+                {SUBMISSION_STATUSES.map(value => (
+                    <Link
+                        key={value}
+                        href={`/admin/submissions?status=${value}`}
+                        aria-current={value === status ? 'page' : undefined}
+                        className={`rounded-full border px-4 py-1.5 text-sm transition-colors ${value === status
+                            ? 'border-blue-600 bg-blue-600 text-white'
+                            : 'border-gray-200 bg-white text-gray-700 hover:border-blue-300'}`}
+                    >
+                        {SUBMISSION_STATUS_LABELS[value]} ({counts[value] ?? 0})
+                    </Link>
+                ))}
+            </nav>
+
+            {page.items.length === 0 ? (
+                <div className="bg-white rounded-xl border border-gray-200 p-12 text-center text-gray-500">
+                    No {SUBMISSION_STATUS_LABELS[status].toLowerCase()} submissions.
+                </div>
+            ) : (
+                <div className="space-y-4">
+                    {page.items.map((submission, index) => (
+                        <SubmissionReviewCard
+                            key={`${submission.id}:${submission.updatedAt}`}
+                            submission={submission}
+                            duplicates={duplicates[index]}
+                            categories={categories.map(({ id, name }) => ({ id, name }))}
+                        />
+                    ))}
+                </div>
+            )}
+
+            <div className="flex items-center justify-between text-sm text-gray-500">
+                <span>{page.total} {page.total === 1 ? 'submission' : 'submissions'}</span>
+                <div className="flex gap-4">
+                    {params.after && (
+                        <Link href={`/admin/submissions?status=${status}`} className="hover:text-blue-600">First page</Link>
+                    )}
+                    {page.nextCursor && (
+                        <Link
+                            href={`/admin/submissions?status=${status}&after=${encodeURIComponent(page.nextCursor)}`}
+                            className="inline-flex items-center gap-1 hover:text-blue-600"
+                        >
+                            Next <ChevronRight className="w-4 h-4" />
+                        </Link>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,86 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { getToolById, getToolCategoryIds } from '@/lib/services/admin.service';
+import { getToolRevisions } from '@/lib/services/tools.service';
+import { getCategories } from '@/lib/services/categories.service';
+import { getCurrentStaff, hasRequiredRole } from '@/lib/services/staff.service';
+import { ToolRevisionHistory } from '@/components/admin/ToolRevisionHistory';
+import { ToolForm } from '@/components/admin/ToolForm';
+import { TOOL_DEFAULTS } from '@/lib/db/mappers/tool.mapper';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, ExternalLink } from 'lucide-react';
+
+interface EditToolPageProps {
+    params: Promise<{ id: string }>;
+    searchParams: Promise<{ tab?: string }>;
+}
+
+const TABS = [
+    { key: 'details', label: 'Details' },
+    { key: 'history', label: 'History' },
+] as const;
+
+export default async function EditToolPage({ params, searchParams }: EditToolPageProps) {
+    const [{ id }, { tab }] = await Promise.all([params, searchParams]);
+    const activeTab = tab === 'history' ? 'history' : 'details';
+
+    const [tool, staff] = await Promise.all([getToolById(id), getCurrentStaff()]);
+    if (!tool) {
+        notFound();
+    }
+
+    const isHistory = activeTab === 'history';
+    const [revisions, categories, categoryIds] = await Promise.all([
+        isHistory ? getToolRevisions(tool.id) : [],
+        isHistory ? [] : getCategories(),
+        isHistory ? [] : getToolCategoryIds(tool.id),
+    ]);
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h2 className="text-3xl font-bold text-gray-900">{tool.name}</h2>
+                    <a href={`/tool/${tool.slug}`} target="_blank" className="text-xs text-blue-500 hover:underline flex items-center gap-1 mt-1">
+                        View Live <ExternalLink className="w-3 h-3" />
+                    </a>
+                </div>
+                <Button variant="outline" asChild>
+                    <Link href="/admin/tools">
+                        <ArrowLeft className="w-4 h-4 mr-2" /> All Tools
+                    </Link>
+                </Button>
+            </div>
+
+            <div className="flex gap-2 border-b border-gray-200">
+                {TABS.map(({ key, label }) => (
+                    <Link
+                        key={key}
+                        href={key === 'details' ? `/admin/tools/${tool.id}/edit` : `/admin/tools/${tool.id}/edit?tab=${key}`}
+                        className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${activeTab === key
+                            ? 'border-blue-600 text-blue-600'
+                            : 'border-transparent text-gray-500 hover:text-gray-700'
+                            }`}
+                    >
+                        {label}
+                    </Link>
+                ))}
+            </div>
+
+            {activeTab === 'details' ? (
+                <ToolForm
+                    categories={categories}
+                    // The placeholder image is a display default, not a stored URL
+                    tool={tool.image === TOOL_DEFAULTS.image ? { ...tool, image: '' } : tool}
+                    categoryIds={categoryIds}
+                />
+            ) : (
+                <ToolRevisionHistory
+                    toolId={tool.id}
+                    revisions={revisions}
+                    canRevert={hasRequiredRole(staff?.role ?? null, 'editor')}
+                />
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,113 @@
+import Link from 'next/link';
+import { getArchivedToolsPage } from '@/lib/services/admin.service';
+import { ARCHIVE_RETENTION_DAYS } from '@/lib/services/tools.service';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, ChevronRight, RotateCcw } from 'lucide-react';
+import { restoreToolAction } from '@/app/admin/actions';
+
+interface ArchivedToolsPageProps {
+    searchParams: Promise<{ after?: string }>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days left before the nightly purge permanently deletes an archived tool.
+ */
+function daysUntilPurge(archivedAt: string | undefined): number {
+    if (!archivedAt) {
+        return ARCHIVE_RETENTION_DAYS;
+    }
+    const elapsed = Math.floor((Date.now() - new Date(archivedAt).getTime()) / DAY_MS);
+    return Math.max(0, ARCHIVE_RETENTION_DAYS - elapsed);
+}
+
+export default async function ArchivedToolsPage({ searchParams }: ArchivedToolsPageProps) {
+    const { after } = await searchParams;
+    const page = await getArchivedToolsPage(after ?? null);
+    const tools = page.items;
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h2 className="text-3xl font-bold text-gray-900">Archived Tools</h2>
+                    <p className="text-sm text-gray-500 mt-1">
+                        Archived tools are hidden from the site and permanently deleted {ARCHIVE_RETENTION_DAYS} days after archiving.
+                    </p>
+                </div>
+                <Button variant="outline" asChild>
+                    <Link href="/admin/tools">
+                        <ArrowLeft className="w-4 h-4 mr-2" /> All Tools
+                    </Link>
+                </Button>
+            </div>
+
+            <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
+                <table className="w-full text-sm text-left">
+                    <thead className="bg-gray-50 text-gray-500 border-b border-gray-200">
+                        <tr>
+                            <th className="px-6 py-4 font-medium">Name</th>
+                            <th className="px-6 py-4 font-medium">Archived</th>
+                            <th className="px-6 py-4 font-medium">Purged In</th>
+                            <th className="px-6 py-4 font-medium text-right">Actions</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                        {tools.length === 0 && (
+                            <tr>
+                                <td colSpan={4} className="px-6 py-8 text-center text-gray-500">
+                                    No archived tools.
+                                </td>
+                            </tr>
+                        )}
+                        {tools.map(tool => (
+                            <tr key={tool.id} className="group hover:bg-gray-50 transition-colors">
+                                <td className="px-6 py-4">
+                                    <div className="font-medium text-gray-900">{tool.name}</div>
+                                    <div className="text-xs text-gray-500">{tool.slug}</div>
+                                </td>
+                                <td className="px-6 py-4 text-gray-600">
+                                    {tool.archivedAt ? new Date(tool.archivedAt).toLocaleDateString() : '—'}
+                                </td>
+                                <td className="px-6 py-4 text-gray-600">
+                                    {daysUntilPurge(tool.archivedAt)} days
+                                </td>
+                                <td className="px-6 py-4 text-right">
+                                    <form action={async () => {
+                                        'use server';
+                                        await restoreToolAction(tool.id);
+                                    }}>
+                                        <Button variant="outline" size="sm">
+                                            <RotateCcw className="w-4 h-4 mr-2" /> Restore
+                                        </Button>
+                                    </form>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="flex items-center justify-between text-sm text-gray-500">
+                <span>
+                    Showing {tools.length} of {page.total} archived tools
+                </span>
+                <div className="flex items-center gap-2">
+                    {after && (
+                        <Button variant="outline" size="sm" asChild>
+                            <Link href="/admin/tools/archived">First page</Link>
+                        </Button>
+                    )}
+                    {page.nextCursor && (
+                        <Button variant="outline" size="sm" asChild>
+                            <Link href={`/admin/tools/archived?after=${encodeURIComponent(page.nextCursor)}`}>
+                                Next <ChevronRight className="w-4 h-4 ml-1" />
+                            </Link>
+                        </Button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
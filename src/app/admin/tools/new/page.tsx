@@ -2,8 +2,11 @@ import { ToolForm } from '@/components/admin/ToolForm';
 import { Button } from '@/components/ui/button';
 import Link from 'next/link';
 import { ArrowLeft } from 'lucide-react';
+import { getCategories } from '@/lib/services/categories.service';
+
+export default async function NewToolPage() {
+    const categories = await getCategories();
 
-export default function NewToolPage() {
     return (
         <div className="max-w-2xl mx-auto space-y-6">
             <div className="flex items-center gap-4 mb-8">
@@ -15,7 +18,7 @@ export default function NewToolPage() {
                 <h1 className="text-2xl font-bold">Add New Tool</h1>
             </div>
 
-            <ToolForm />
+            <ToolForm categories={categories} />
         </div>
     );
 }
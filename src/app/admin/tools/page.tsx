@@ -1,74 +1,146 @@
 import Link from 'next/link';
-import { getAllTools } from '@/lib/services/admin.service';
+import { getToolsPage, parseAdminToolQuery } from '@/lib/services/admin.service';
+import { getCategories } from '@/lib/services/categories.service';
+import { ToolsTable } from '@/components/admin/ToolsTable';
 import { Button } from '@/components/ui/button';
-import { Plus, Pencil, Trash2, ExternalLink } from 'lucide-react';
-import { deleteToolAction } from '@/app/admin/actions';
+import { Input } from '@/components/ui/input';
+import { Plus, Archive, ChevronRight, ArrowUp, ArrowDown } from 'lucide-react';
+import { PRICING_OPTIONS } from '@/lib/types/tool-form';
+import type { AdminToolSortKey } from '@/lib/types/tool';
 
-export default async function ToolsPage() {
-    const tools = await getAllTools();
+type ToolsSearchParams = Record<'q' | 'pricing' | 'category' | 'verified' | 'source' | 'missing' | 'sort' | 'dir' | 'after', string | undefined>;
+
+interface ToolsPageProps {
+    searchParams: Promise<Partial<ToolsSearchParams>>;
+}
+
+const SELECT_CLASS = 'h-10 rounded-md border border-gray-200 bg-white px-3 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500';
+
+const COLUMNS: { label: string; sort?: AdminToolSortKey }[] = [
+    { label: 'Name', sort: 'name' },
+    { label: 'Pricing', sort: 'pricing' },
+    { label: 'Categories' },
+    { label: 'Saves', sort: 'savedCount' },
+    { label: 'Visits', sort: 'monthlyVisits' },
+    { label: 'Added', sort: 'createdAt' },
+];
+
+/**
+ * Link to the tools table with some params changed; empty values are dropped.
+ * Any change other than the page cursor starts again from the first page.
+ */
+function toolsHref(params: Partial<ToolsSearchParams>, changes: Partial<ToolsSearchParams>): string {
+    const next = new URLSearchParams();
+    for (const [key, value] of Object.entries({ ...params, after: undefined, ...changes })) {
+        if (value) {
+            next.set(key, value);
+        }
+    }
+    const search = next.toString();
+    return search ? `/admin/tools?${search}` : '/admin/tools';
+}
+
+export default async function ToolsPage({ searchParams }: ToolsPageProps) {
+    const params = await searchParams;
+    const query = parseAdminToolQuery(params);
+    const sort = query.sort ?? 'createdAt';
+    const ascending = query.ascending ?? false;
+
+    const [page, categories] = await Promise.all([getToolsPage(query, params.after ?? null), getCategories()]);
+    const tools = page.items;
+
+    const header = COLUMNS.map(column => {
+        if (!column.sort) {
+            return <th key={column.label} className="px-6 py-4 font-medium">{column.label}</th>;
+        }
+        const isActive = column.sort === sort;
+        const Arrow = ascending ? ArrowUp : ArrowDown;
+        return (
+            <th key={column.label} className="px-6 py-4 font-medium" aria-sort={isActive ? (ascending ? 'ascending' : 'descending') : undefined}>
+                <Link
+                    href={toolsHref(params, { sort: column.sort, dir: isActive && !ascending ? 'asc' : 'desc' })}
+                    className={`inline-flex items-center gap-1 hover:text-gray-900 ${isActive ? 'text-gray-900' : ''}`}
+                >
+                    {column.label}
+                    {isActive && <Arrow className="w-3 h-3" />}
+                </Link>
+            </th>
+        );
+    });
 
     return (
         <div className="space-y-6">
             <div className="flex items-center justify-between">
                 <h2 className="text-3xl font-bold text-gray-900">Manage Tools</h2>
-                <Button asChild>
-                    <Link href="/admin/tools/new">
-                        <Plus className="w-4 h-4 mr-2" /> Add Tool
-                    </Link>
-                </Button>
+                <div className="flex items-center gap-2">
+                    <Button variant="outline" asChild>
+                        <Link href="/admin/tools/archived">
+                            <Archive className="w-4 h-4 mr-2" /> Archived
+                        </Link>
+                    </Button>
+                    <Button asChild>
+                        <Link href="/admin/tools/new">
+                            <Plus className="w-4 h-4 mr-2" /> Add Tool
+                        </Link>
+                    </Button>
+                </div>
             </div>
 
-            <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
-                <table className="w-full text-sm text-left">
-                    <thead className="bg-gray-50 text-gray-500 border-b border-gray-200">
-                        <tr>
-                            <th className="px-6 py-4 font-medium">Name</th>
-                            <th className="px-6 py-4 font-medium">Pricing</th>
-                            <th className="px-6 py-4 font-medium">Categories</th>
-                            <th className="px-6 py-4 font-medium text-right">Actions</th>
-                        </tr>
-                    </thead>
-                    <tbody className="divide-y divide-gray-100">
-                        {tools.map(tool => (
-                            <tr key={tool.id} className="group hover:bg-gray-50 transition-colors">
-                                <td className="px-6 py-4">
-                                    <div className="font-medium text-gray-900">{tool.name}</div>
-                                    <a href={`/tool/${tool.slug}`} target="_blank" className="text-xs text-blue-500 hover:underline flex items-center gap-1">
-                                        View Live <ExternalLink className="w-3 h-3" />
-                                    </a>
-                                </td>
-                                <td className="px-6 py-4 text-gray-600">{tool.pricing}</td>
-                                <td className="px-6 py-4 text-gray-600">
-                                    <div className="flex gap-2 flex-wrap">
-                                        {tool.categories?.slice(0, 2).map(cat => (
-                                            <span key={cat} className="px-2 py-0.5 bg-gray-100 rounded text-xs">
-                                                {cat}
-                                            </span>
-                                        ))}
-                                    </div>
-                                </td>
-                                <td className="px-6 py-4 text-right">
-                                    <div className="flex items-center justify-end gap-2">
-                                        <Button variant="ghost" size="icon" asChild>
-                                            <Link href={`/admin/tools/${tool.id}/edit`}>
-                                                <Pencil className="w-4 h-4 text-gray-500" />
-                                            </Link>
-                                        </Button>
+            <form className="flex flex-wrap items-center gap-2">
+                {params.sort && <input type="hidden" name="sort" value={params.sort} />}
+                {params.dir && <input type="hidden" name="dir" value={params.dir} />}
+                <Input name="q" defaultValue={params.q} placeholder="Search tools…" aria-label="Search" className="max-w-xs" />
+                <select name="pricing" defaultValue={params.pricing ?? ''} aria-label="Pricing" className={SELECT_CLASS}>
+                    <option value="">Any pricing</option>
+                    {PRICING_OPTIONS.map(option => (
+                        <option key={option} value={option}>{option}</option>
+                    ))}
+                </select>
+                <select name="category" defaultValue={params.category ?? ''} aria-label="Category" className={SELECT_CLASS}>
+                    <option value="">Any category</option>
+                    {categories.map(category => (
+                        <option key={category.id} value={category.slug}>{category.name}</option>
+                    ))}
+                </select>
+                <select name="verified" defaultValue={params.verified ?? ''} aria-label="Verified" className={SELECT_CLASS}>
+                    <option value="">Verified or not</option>
+                    <option value="yes">Verified</option>
+                    <option value="no">Not verified</option>
+                </select>
+                <select name="source" defaultValue={params.source ?? ''} aria-label="Source" className={SELECT_CLASS}>
+                    <option value="">Any source</option>
+                    <option value="scraper">Scraper</option>
+                    <option value="manual">Manual</option>
+                </select>
+                <select name="missing" defaultValue={params.missing ?? ''} aria-label="Missing data" className={SELECT_CLASS}>
+                    <option value="">Complete or not</option>
+                    <option value="image">Missing image</option>
+                    <option value="url">Missing URL</option>
+                </select>
+                <Button type="submit" variant="outline">Filter</Button>
+                <Link href="/admin/tools" className="text-sm text-gray-500 hover:underline">Reset</Link>
+            </form>
+
+            <ToolsTable key={JSON.stringify(params)} tools={tools} categories={categories} header={header} />
 
-                                        <form action={async () => {
-                                            'use server';
-                                            await deleteToolAction(tool.id);
-                                        }}>
-                                            <Button variant="ghost" size="icon" className="text-red-500 hover:text-red-600 hover:bg-red-50">
-                                                <Trash2 className="w-4 h-4" />
-                                            </Button>
-                                        </form>
-                                    </div>
-                                </td>
-                            </tr>
-                        ))}
-                    </tbody>
-                </table>
+            <div className="flex items-center justify-between text-sm text-gray-500">
+                <span>
+                    Showing {tools.length} of {page.total} tools
+                </span>
+                <div className="flex items-center gap-2">
+                    {params.after && (
+                        <Button variant="outline" size="sm" asChild>
+                            <Link href={toolsHref(params, {})}>First page</Link>
+                        </Button>
+                    )}
+                    {page.nextCursor && (
+                        <Button variant="outline" size="sm" asChild>
+                            <Link href={toolsHref(params, { after: page.nextCursor })}>
+                                Next <ChevronRight className="w-4 h-4 ml-1" />
+                            </Link>
+                        </Button>
+                    )}
+                </div>
             </div>
         </div>
     );
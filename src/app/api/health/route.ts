@@ -0,0 +1,74 @@
+import { createAdminClient } from '@/lib/supabase/admin'
+import { getCircuitSnapshots, type CircuitSnapshot } from '@/lib/db/repositories/resilient.repository'
+import { TABLES } from '@/lib/db/constants/tables'
+import { getCurrentStaff } from '@/lib/services/staff.service'
+
+// Always probe live; never serve a cached health report
+export const dynamic = 'force-dynamic'
+
+/**
+ * Health check endpoint for uptime monitoring.
+ *
+ * Probes the database directly (bypassing retries, circuit breakers and
+ * cached fallbacks) and reports every repository circuit in this process.
+ *
+ * - 200 `healthy`: database reachable, all circuits closed
+ * - 200 `degraded`: database reachable, some circuits still open or half-open
+ * - 503 `unhealthy`: database unreachable
+ *
+ * Circuit errors name tables and repository operations, so `lastError` is
+ * null unless the caller is signed-in staff.
+ */
+export async function GET() {
+  const snapshots = getCircuitSnapshots()
+  let databaseUp = false
+
+  try {
+    const supabase = createAdminClient()
+    const { error } = await supabase
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .from(TABLES.TOOLS as any)
+      .select('id')
+      .limit(1)
+    databaseUp = !error
+  } catch {
+    databaseUp = false
+  }
+
+  const circuits = (await canSeeCircuitErrors(snapshots))
+    ? snapshots
+    : snapshots.map((circuit) => ({ ...circuit, lastError: null }))
+
+  const allClosed = circuits.every((circuit) => circuit.state === 'closed')
+  const status = !databaseUp ? 'unhealthy' : allClosed ? 'healthy' : 'degraded'
+
+  return Response.json(
+    {
+      status,
+      timestamp: new Date().toISOString(),
+      database: databaseUp ? 'up' : 'down',
+      circuits,
+    },
+    {
+      status: databaseUp ? 200 : 503,
+      headers: { 'Cache-Control': 'no-store' },
+    }
+  )
+}
+
+/**
+ * Whether the caller may see raw circuit errors. Only checked when there is
+ * an error to show, so uptime probes do not touch auth; a failed lookup
+ * counts as no.
+ */
+async function canSeeCircuitErrors(snapshots: CircuitSnapshot[]): Promise<boolean> {
+  if (!snapshots.some((circuit) => circuit.lastError)) {
+    return false
+  }
+
+  try {
+    return (await getCurrentStaff()) !== null
+  } catch {
+    return false
+  }
+}
@@ -18,6 +18,7 @@ export const metadata: Metadata = {
 };
 
 import { AuthProviderContext } from "@/components/providers/AuthProviderContext";
+import { FavoritesProvider } from "@/components/providers/FavoritesProvider";
 
 // ... (Metadata remains same)
 
@@ -30,7 +31,9 @@ export default function RootLayout({
     <html lang="en" className="scroll-smooth">
       <body className={`${inter.variable}`}>
         <AuthProviderContext>
-          {children}
+          <FavoritesProvider>
+            {children}
+          </FavoritesProvider>
         </AuthProviderContext>
       </body>
     </html>
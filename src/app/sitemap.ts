@@ -1,19 +1,20 @@
 import { MetadataRoute } from 'next';
-import { getTools } from '@/lib/services/tools.service';
+import { listAllTools } from '@/lib/services/tools.service';
 import { getCategories } from '@/lib/services/categories.service';
 import { freeAIToolsService } from '@/lib/services/free-ai-tools.service';
+import { getFormerSlugs } from '@/lib/services/redirects.service';
 
 export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
     const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000';
 
     // Static Routes
-    const routes = ['', '/submit'].map((route) => ({
+    const routes = ['', '/submit', '/collections'].map((route) => ({
         url: `${baseUrl}${route}`,
         lastModified: new Date(),
     }));
 
     // Dynamic Tools
-    const tools = await getTools({ limit: 1000 }); // Fetch all for sitemap
+    const tools = await listAllTools();
     const toolRoutes = tools.map((tool) => ({
         url: `${baseUrl}/tool/${tool.slug}`,
         lastModified: new Date(),
@@ -39,13 +40,19 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
     };
 
     // Free AI Tools - Category pages
-    const freeAIToolsCategories = await freeAIToolsService.getCategories();
-    const freeAIToolsCategoryRoutes = freeAIToolsCategories.map((cat) => ({
-        url: `${baseUrl}/free-ai-tools/${cat.slug}`,
-        lastModified: new Date(),
-        changeFrequency: 'weekly' as const,
-        priority: 0.7,
-    }));
+    // Slugs come from static data, so skip any that now redirect to a renamed category
+    const [freeAIToolsCategories, formerCategorySlugs] = await Promise.all([
+        freeAIToolsService.getCategories(),
+        getFormerSlugs('categories'),
+    ]);
+    const freeAIToolsCategoryRoutes = freeAIToolsCategories
+        .filter((cat) => !formerCategorySlugs.has(cat.slug))
+        .map((cat) => ({
+            url: `${baseUrl}/free-ai-tools/${cat.slug}`,
+            lastModified: new Date(),
+            changeFrequency: 'weekly' as const,
+            priority: 0.7,
+        }));
 
     return [
         ...routes,
@@ -0,0 +1,458 @@
+'use client';
+
+import { useOptimistic, useRef, useState, useTransition, type ReactNode } from 'react';
+import {
+    saveCategoryGroupAction,
+    deleteCategoryGroupAction,
+    reorderCategoryGroupsAction,
+    saveCategoryAction,
+    deleteCategoryAction,
+    reorderCategoriesAction,
+    mergeCategoryAction,
+    saveSubcategoryAction,
+    deleteSubcategoryAction,
+    reorderSubcategoriesAction,
+    type TaxonomyActionState,
+} from '@/app/admin/actions';
+import { SortableList } from '@/components/admin/SortableList';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CATEGORY_ICON_MAP } from '@/lib/utils/icon-mapping';
+import { ChevronDown, ChevronRight, Pencil, Plus, Trash2 } from 'lucide-react';
+import type { Category } from '@/lib/types/tool';
+import type { CategoryGroupSummary, Subcategory } from '@/lib/services/categories.service';
+
+interface CategoryManagerProps {
+    groups: CategoryGroupSummary[];
+    categories: Category[];
+    subcategories: Subcategory[];
+}
+
+type FormAction = (prevState: unknown, formData: FormData) => Promise<TaxonomyActionState>;
+
+const SELECT_CLASS = 'flex h-10 w-full rounded-md border border-gray-200 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500';
+
+const UNGROUPED = 'ungrouped';
+
+function reportFailure(result: TaxonomyActionState) {
+    if (result.error) {
+        alert(`${result.message}: ${result.error}`);
+    }
+}
+
+/**
+ * Form that submits to a taxonomy server action, reports failures and
+ * resets itself after a successful create.
+ */
+function TaxonomyForm({ action, resetOnSuccess, onSuccess, className, children }: {
+    action: FormAction;
+    resetOnSuccess?: boolean;
+    onSuccess?: () => void;
+    className?: string;
+    children: (isPending: boolean) => ReactNode;
+}) {
+    const [isPending, startTransition] = useTransition();
+    const formRef = useRef<HTMLFormElement>(null);
+
+    const handleSubmit = (formData: FormData) => {
+        startTransition(async () => {
+            const result = await action(null, formData);
+            reportFailure(result);
+            if (!result.error) {
+                if (resetOnSuccess) {
+                    formRef.current?.reset();
+                }
+                onSuccess?.();
+            }
+        });
+    };
+
+    return (
+        <form ref={formRef} action={handleSubmit} className={className}>
+            {children(isPending)}
+        </form>
+    );
+}
+
+function IconSelect({ id, defaultValue }: { id: string; defaultValue?: string }) {
+    const [value, setValue] = useState(defaultValue ?? '');
+    const Icon = value ? CATEGORY_ICON_MAP[value] : null;
+
+    return (
+        <div className="flex items-center gap-2">
+            <select
+                name="iconName"
+                id={id}
+                value={value}
+                onChange={event => setValue(event.target.value)}
+                className={SELECT_CLASS}
+            >
+                <option value="">No icon</option>
+                {Object.keys(CATEGORY_ICON_MAP).map(key => (
+                    <option key={key} value={key}>{key}</option>
+                ))}
+            </select>
+            <span className="w-6 h-6 flex-shrink-0 text-gray-600" aria-hidden="true">
+                {Icon && <Icon className="w-5 h-5" />}
+            </span>
+        </div>
+    );
+}
+
+function IconPreview({ iconName }: { iconName?: string }) {
+    const Icon = iconName ? CATEGORY_ICON_MAP[iconName] : null;
+    return Icon ? <Icon className="w-4 h-4 text-gray-500" aria-hidden="true" /> : <span className="w-4 h-4" />;
+}
+
+function DeleteButton({ label, confirmMessage, onDelete }: {
+    label: string;
+    confirmMessage: string;
+    onDelete: () => Promise<TaxonomyActionState>;
+}) {
+    const [isPending, startTransition] = useTransition();
+
+    return (
+        <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            disabled={isPending}
+            aria-label={label}
+            className="text-red-500 hover:text-red-600 hover:bg-red-50"
+            onClick={() => {
+                if (confirm(confirmMessage)) {
+                    startTransition(async () => reportFailure(await onDelete()));
+                }
+            }}
+        >
+            <Trash2 className="w-4 h-4" />
+        </Button>
+    );
+}
+
+function GroupFields({ group }: { group?: CategoryGroupSummary }) {
+    const prefix = group?.id ?? 'new-group';
+    return (
+        <>
+            {group && <input type="hidden" name="id" value={group.id} />}
+            <div className="flex-1 space-y-2">
+                <Label htmlFor={`${prefix}-name`}>Name</Label>
+                <Input name="name" id={`${prefix}-name`} defaultValue={group?.name} required />
+            </div>
+            <div className="w-48 space-y-2">
+                <Label htmlFor={`${prefix}-icon`}>Icon</Label>
+                <IconSelect id={`${prefix}-icon`} defaultValue={group?.iconName} />
+            </div>
+        </>
+    );
+}
+
+function GroupRow({ group }: { group: CategoryGroupSummary }) {
+    const [isEditing, setIsEditing] = useState(false);
+
+    if (isEditing) {
+        return (
+            <TaxonomyForm action={saveCategoryGroupAction} onSuccess={() => setIsEditing(false)} className="flex items-end gap-3">
+                {isPending => (
+                    <>
+                        <GroupFields group={group} />
+                        <Button type="submit" size="sm" disabled={isPending}>Save</Button>
+                        <Button type="button" size="sm" variant="outline" onClick={() => setIsEditing(false)}>Cancel</Button>
+                    </>
+                )}
+            </TaxonomyForm>
+        );
+    }
+
+    return (
+        <div className="flex items-center gap-3">
+            <IconPreview iconName={group.iconName} />
+            <span className="flex-1 font-medium text-gray-900">{group.name}</span>
+            <Button type="button" variant="ghost" size="icon" aria-label={`Edit ${group.name}`} onClick={() => setIsEditing(true)}>
+                <Pencil className="w-4 h-4" />
+            </Button>
+            <DeleteButton
+                label={`Delete ${group.name}`}
+                confirmMessage={`Delete group "${group.name}"? Its categories will become ungrouped.`}
+                onDelete={() => deleteCategoryGroupAction(group.id)}
+            />
+        </div>
+    );
+}
+
+function CategoryFields({ category, groups }: { category?: Category; groups: CategoryGroupSummary[] }) {
+    const prefix = category?.id ?? 'new-category';
+    return (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {category && <input type="hidden" name="id" value={category.id} />}
+            <div className="space-y-2">
+                <Label htmlFor={`${prefix}-name`}>Name</Label>
+                <Input name="name" id={`${prefix}-name`} defaultValue={category?.name} required />
+            </div>
+            <div className="space-y-2">
+                <Label htmlFor={`${prefix}-slug`}>Slug</Label>
+                <Input name="slug" id={`${prefix}-slug`} defaultValue={category?.slug} placeholder="ai-chatbots" required />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+                <Label htmlFor={`${prefix}-description`}>Description</Label>
+                <Input name="description" id={`${prefix}-description`} defaultValue={category?.description} />
+            </div>
+            <div className="space-y-2">
+                <Label htmlFor={`${prefix}-icon`}>Icon</Label>
+                <IconSelect id={`${prefix}-icon`} defaultValue={category?.iconName} />
+            </div>
+            <div className="space-y-2">
+                <Label htmlFor={`${prefix}-group`}>Group</Label>
+                <select name="groupId" id={`${prefix}-group`} defaultValue={category?.groupId ?? ''} className={SELECT_CLASS}>
+                    <option value="">Ungrouped</option>
+                    {groups.map(group => (
+                        <option key={group.id} value={group.id}>{group.name}</option>
+                    ))}
+                </select>
+            </div>
+        </div>
+    );
+}
+
+function SubcategoryRow({ subcategory }: { subcategory: Subcategory }) {
+    const [isEditing, setIsEditing] = useState(false);
+
+    if (isEditing) {
+        return (
+            <TaxonomyForm action={saveSubcategoryAction} onSuccess={() => setIsEditing(false)} className="flex items-center gap-2">
+                {isPending => (
+                    <>
+                        <input type="hidden" name="id" value={subcategory.id} />
+                        <input type="hidden" name="categoryId" value={subcategory.categoryId} />
+                        <Input name="name" defaultValue={subcategory.name} aria-label="Subcategory name" required />
+                        <Input name="slug" defaultValue={subcategory.slug} aria-label="Subcategory slug" required />
+                        <Button type="submit" size="sm" disabled={isPending}>Save</Button>
+                        <Button type="button" size="sm" variant="outline" onClick={() => setIsEditing(false)}>Cancel</Button>
+                    </>
+                )}
+            </TaxonomyForm>
+        );
+    }
+
+    return (
+        <div className="flex items-center gap-3 text-sm">
+            <span className="flex-1 text-gray-900">{subcategory.name}</span>
+            <span className="text-gray-400">{subcategory.slug}</span>
+            <Button type="button" variant="ghost" size="icon" aria-label={`Edit ${subcategory.name}`} onClick={() => setIsEditing(true)}>
+                <Pencil className="w-4 h-4" />
+            </Button>
+            <DeleteButton
+                label={`Delete ${subcategory.name}`}
+                confirmMessage={`Delete subcategory "${subcategory.name}"?`}
+                onDelete={() => deleteSubcategoryAction(subcategory.id)}
+            />
+        </div>
+    );
+}
+
+function SubcategoryList({ categoryId, subcategories }: { categoryId: string; subcategories: Subcategory[] }) {
+    const [, startTransition] = useTransition();
+    const [ordered, setOrdered] = useOptimistic(subcategories);
+
+    const handleReorder = (next: Subcategory[]) => {
+        startTransition(async () => {
+            setOrdered(next);
+            reportFailure(await reorderSubcategoriesAction(next.map(subcategory => subcategory.id)));
+        });
+    };
+
+    return (
+        <div className="space-y-2">
+            <h4 className="text-sm font-medium text-gray-700">Subcategories</h4>
+            {ordered.length > 0 ? (
+                <SortableList label="Subcategories" items={ordered} onReorder={handleReorder} renderItem={subcategory => <SubcategoryRow subcategory={subcategory} />} />
+            ) : (
+                <p className="text-sm text-gray-500">No subcategories.</p>
+            )}
+            <TaxonomyForm action={saveSubcategoryAction} resetOnSuccess className="flex items-center gap-2">
+                {isPending => (
+                    <>
+                        <input type="hidden" name="categoryId" value={categoryId} />
+                        <Input name="name" placeholder="New subcategory" aria-label="New subcategory name" required />
+                        <Input name="slug" placeholder="new-subcategory" aria-label="New subcategory slug" required />
+                        <Button type="submit" size="sm" variant="outline" disabled={isPending}>
+                            <Plus className="w-4 h-4 mr-1" /> Add
+                        </Button>
+                    </>
+                )}
+            </TaxonomyForm>
+        </div>
+    );
+}
+
+function CategoryRow({ category, groups, categories, subcategories }: {
+    category: Category;
+    groups: CategoryGroupSummary[];
+    categories: Category[];
+    subcategories: Subcategory[];
+}) {
+    const [isOpen, setIsOpen] = useState(false);
+    const mergeTargets = categories.filter(other => other.id !== category.id);
+
+    return (
+        <div>
+            <div className="flex items-center gap-3">
+                <button
+                    type="button"
+                    onClick={() => setIsOpen(open => !open)}
+                    aria-expanded={isOpen}
+                    aria-label={`${isOpen ? 'Collapse' : 'Expand'} ${category.name}`}
+                    className="text-gray-400 hover:text-gray-600"
+                >
+                    {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                </button>
+                <IconPreview iconName={category.iconName} />
+                <span className="flex-1 font-medium text-gray-900">{category.name}</span>
+                <span className="text-xs text-gray-400">{category.slug}</span>
+                <span className="w-20 text-right text-xs text-gray-500">{category.toolCount ?? category.count} tools</span>
+                <DeleteButton
+                    label={`Delete ${category.name}`}
+                    confirmMessage={`Delete category "${category.name}"? Its subcategories and tool links are removed; the tools are kept. Use merge to move the tools instead.`}
+                    onDelete={() => deleteCategoryAction(category.id)}
+                />
+            </div>
+
+            {isOpen && (
+                <div className="mt-3 ml-7 space-y-6 border-l border-gray-100 pl-4">
+                    <TaxonomyForm action={saveCategoryAction} className="space-y-3">
+                        {isPending => (
+                            <>
+                                <CategoryFields category={category} groups={groups} />
+                                <Button type="submit" size="sm" disabled={isPending}>Save Category</Button>
+                            </>
+                        )}
+                    </TaxonomyForm>
+
+                    <TaxonomyForm action={mergeCategoryAction} className="flex items-end gap-2">
+                        {isPending => (
+                            <>
+                                <input type="hidden" name="sourceId" value={category.id} />
+                                <div className="flex-1 space-y-2">
+                                    <Label htmlFor={`${category.id}-merge`}>Merge into</Label>
+                                    <select name="targetId" id={`${category.id}-merge`} defaultValue="" className={SELECT_CLASS} required>
+                                        <option value="" disabled>Choose a category</option>
+                                        {mergeTargets.map(target => (
+                                            <option key={target.id} value={target.id}>{target.name}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <Button
+                                    type="submit"
+                                    size="sm"
+                                    variant="outline"
+                                    disabled={isPending}
+                                    onClick={event => {
+                                        if (!confirm(`Merge "${category.name}" into the chosen category? "${category.name}" will be deleted and its URL will redirect.`)) {
+                                            event.preventDefault();
+                                        }
+                                    }}
+                                >
+                                    Merge
+                                </Button>
+                            </>
+                        )}
+                    </TaxonomyForm>
+
+                    <SubcategoryList categoryId={category.id} subcategories={subcategories} />
+                </div>
+            )}
+        </div>
+    );
+}
+
+export function CategoryManager({ groups, categories, subcategories }: CategoryManagerProps) {
+    const [, startTransition] = useTransition();
+    const [orderedGroups, setOrderedGroups] = useOptimistic(groups);
+    const [orderedCategories, setOrderedCategories] = useOptimistic(categories);
+
+    const sections = [
+        ...orderedGroups.map(group => ({ id: group.id, name: group.name })),
+        { id: UNGROUPED, name: 'Ungrouped' },
+    ].map(section => ({
+        ...section,
+        categories: orderedCategories.filter(category => (category.groupId ?? UNGROUPED) === section.id),
+    }));
+
+    const handleGroupReorder = (next: CategoryGroupSummary[]) => {
+        startTransition(async () => {
+            setOrderedGroups(next);
+            reportFailure(await reorderCategoryGroupsAction(next.map(group => group.id)));
+        });
+    };
+
+    // display_order is global, so a reorder within one section saves the order of every section
+    const handleCategoryReorder = (sectionId: string, next: Category[]) => {
+        const all = sections.flatMap(section => (section.id === sectionId ? next : section.categories));
+        startTransition(async () => {
+            setOrderedCategories(all);
+            reportFailure(await reorderCategoriesAction(all.map(category => category.id)));
+        });
+    };
+
+    return (
+        <div className="space-y-8">
+            <section className="bg-white rounded-xl border border-gray-200 shadow-sm p-6 space-y-4">
+                <h3 className="text-lg font-semibold text-gray-900">Groups</h3>
+                {orderedGroups.length > 0 ? (
+                    <SortableList label="Groups" items={orderedGroups} onReorder={handleGroupReorder} renderItem={group => <GroupRow group={group} />} />
+                ) : (
+                    <p className="text-sm text-gray-500">No groups yet.</p>
+                )}
+                <TaxonomyForm action={saveCategoryGroupAction} resetOnSuccess className="flex items-end gap-3 pt-4 border-t border-gray-100">
+                    {isPending => (
+                        <>
+                            <GroupFields />
+                            <Button type="submit" disabled={isPending}>
+                                <Plus className="w-4 h-4 mr-2" /> Add Group
+                            </Button>
+                        </>
+                    )}
+                </TaxonomyForm>
+            </section>
+
+            <section className="bg-white rounded-xl border border-gray-200 shadow-sm p-6 space-y-6">
+                <h3 className="text-lg font-semibold text-gray-900">Categories</h3>
+                {sections.map(section => (
+                    <div key={section.id} className="space-y-2">
+                        <h4 className="text-sm font-semibold uppercase tracking-wide text-gray-500">{section.name}</h4>
+                        {section.categories.length > 0 ? (
+                            <SortableList
+                                label={`${section.name} categories`}
+                                items={section.categories}
+                                onReorder={next => handleCategoryReorder(section.id, next)}
+                                renderItem={category => (
+                                    <CategoryRow
+                                        category={category}
+                                        groups={orderedGroups}
+                                        categories={orderedCategories}
+                                        subcategories={subcategories.filter(subcategory => subcategory.categoryId === category.id)}
+                                    />
+                                )}
+                            />
+                        ) : (
+                            <p className="text-sm text-gray-500">No categories.</p>
+                        )}
+                    </div>
+                ))}
+
+                <TaxonomyForm action={saveCategoryAction} resetOnSuccess className="space-y-3 pt-4 border-t border-gray-100">
+                    {isPending => (
+                        <>
+                            <h4 className="text-sm font-medium text-gray-700">New category</h4>
+                            <CategoryFields groups={orderedGroups} />
+                            <Button type="submit" disabled={isPending}>
+                                <Plus className="w-4 h-4 mr-2" /> Add Category
+                            </Button>
+                        </>
+                    )}
+                </TaxonomyForm>
+            </section>
+        </div>
+    );
+}
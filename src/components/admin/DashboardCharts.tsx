@@ -0,0 +1,98 @@
+import type { ToolCountByValue, ToolsAddedPoint } from '@/lib/db/repositories/tools.repository';
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+const LABEL_HEIGHT = 20;
+
+interface ToolsAddedChartProps {
+    points: ToolsAddedPoint[];
+    /** Label format for the buckets on the x axis */
+    period: 'day' | 'week';
+}
+
+function formatBucket(periodStart: string, period: 'day' | 'week'): string {
+    const date = new Date(periodStart);
+    const label = date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+    return period === 'week' ? `Week of ${label}` : label;
+}
+
+/**
+ * Column chart of tools added per bucket, drawn as static SVG on the server.
+ * Every bar has a title so exact counts show on hover.
+ */
+export function ToolsAddedChart({ points, period }: ToolsAddedChartProps) {
+    if (points.length === 0) {
+        return <p className="text-sm text-gray-500">No tools added in this range.</p>;
+    }
+
+    const max = Math.max(1, ...points.map(point => point.count));
+    const slot = CHART_WIDTH / points.length;
+    const barWidth = Math.max(2, slot * 0.7);
+    // Label the first, last and every few buckets so labels never overlap
+    const labelEvery = Math.ceil(points.length / 6);
+
+    return (
+        <svg
+            viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT + LABEL_HEIGHT}`}
+            className="w-full h-auto"
+            role="img"
+            aria-label={`Tools added per ${period}, peaking at ${max}`}
+        >
+            <line x1={0} x2={CHART_WIDTH} y1={CHART_HEIGHT} y2={CHART_HEIGHT} className="stroke-gray-200" />
+            {points.map((point, index) => {
+                const height = (point.count / max) * (CHART_HEIGHT - 8);
+                const x = index * slot + (slot - barWidth) / 2;
+                const showLabel = index % labelEvery === 0 || index === points.length - 1;
+                return (
+                    <g key={point.periodStart}>
+                        <rect x={x} y={CHART_HEIGHT - height} width={barWidth} height={height} rx={2} className="fill-blue-500">
+                            <title>{`${formatBucket(point.periodStart, period)}: ${point.count}`}</title>
+                        </rect>
+                        {showLabel && (
+                            <text x={x + barWidth / 2} y={CHART_HEIGHT + 14} textAnchor="middle" className="fill-gray-500 text-[10px]">
+                                {formatBucket(point.periodStart, 'day')}
+                            </text>
+                        )}
+                    </g>
+                );
+            })}
+        </svg>
+    );
+}
+
+interface BreakdownBarsProps {
+    rows: ToolCountByValue[];
+    /** Display names for raw values, e.g. 'scraper' → 'Scraper' */
+    labels?: Record<string, string>;
+}
+
+/**
+ * Horizontal bars of counts with each row's share of the total.
+ */
+export function BreakdownBars({ rows, labels = {} }: BreakdownBarsProps) {
+    const total = rows.reduce((sum, row) => sum + row.count, 0);
+    if (total === 0) {
+        return <p className="text-sm text-gray-500">No tools yet.</p>;
+    }
+
+    return (
+        <ul className="space-y-3">
+            {rows.map(row => {
+                const share = Math.round((row.count / total) * 100);
+                return (
+                    <li key={row.value} className="space-y-1">
+                        <div className="flex items-center justify-between text-sm">
+                            <span className="text-gray-700">{labels[row.value] ?? row.value}</span>
+                            <span className="text-gray-500">
+                                {row.count.toLocaleString()} · {share}%
+                            </span>
+                        </div>
+                        <div className="h-2 rounded-full bg-gray-100 overflow-hidden">
+                            <div className="h-full rounded-full bg-blue-500" style={{ width: `${(row.count / total) * 100}%` }} />
+                        </div>
+                    </li>
+                );
+            })}
+        </ul>
+    );
+}
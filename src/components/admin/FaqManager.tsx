@@ -0,0 +1,160 @@
+'use client';
+
+import { useOptimistic, useRef, useState, useTransition } from 'react';
+import {
+    saveFaqAction,
+    deleteFaqAction,
+    reorderFaqsAction,
+    type FaqActionState,
+} from '@/app/admin/actions';
+import { SortableList } from '@/components/admin/SortableList';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { renderMarkdown } from '@/lib/utils/markdown';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import type { FAQ, FaqScope } from '@/lib/types/faq';
+
+interface FaqManagerProps {
+    scope: FaqScope;
+    faqs: FAQ[];
+}
+
+const ANSWER_CLASS = 'text-sm text-gray-600 space-y-2 [&_a]:text-blue-600 [&_a]:underline [&_code]:bg-gray-100 [&_code]:px-1 [&_code]:rounded [&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-5 [&_ol]:pl-5';
+
+function reportFailure(result: FaqActionState) {
+    if (result.error) {
+        alert(`${result.message}: ${result.error}`);
+    }
+}
+
+/**
+ * Question and markdown answer fields with a live preview of the answer.
+ */
+function FaqForm({ scope, faq, onDone }: { scope: FaqScope; faq?: FAQ; onDone?: () => void }) {
+    const [isPending, startTransition] = useTransition();
+    const [answer, setAnswer] = useState(faq?.answer ?? '');
+    const formRef = useRef<HTMLFormElement>(null);
+    const prefix = faq?.id ?? 'new-faq';
+
+    const handleSubmit = (formData: FormData) => {
+        startTransition(async () => {
+            const result = await saveFaqAction(null, formData);
+            reportFailure(result);
+            if (!result.error) {
+                if (!faq) {
+                    formRef.current?.reset();
+                    setAnswer('');
+                }
+                onDone?.();
+            }
+        });
+    };
+
+    return (
+        <form ref={formRef} action={handleSubmit} className="space-y-3">
+            {faq && <input type="hidden" name="id" value={faq.id} />}
+            <input type="hidden" name="scope" value={scope} />
+            <div className="space-y-2">
+                <Label htmlFor={`${prefix}-question`}>Question</Label>
+                <Input name="question" id={`${prefix}-question`} defaultValue={faq?.question} required />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                    <Label htmlFor={`${prefix}-answer`}>Answer (markdown)</Label>
+                    <textarea
+                        name="answer"
+                        id={`${prefix}-answer`}
+                        rows={5}
+                        value={answer}
+                        onChange={event => setAnswer(event.target.value)}
+                        required
+                        className="w-full p-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none font-mono text-sm"
+                    />
+                    <p className="text-xs text-gray-500">**bold**, *italic*, `code`, [link](https://…), and lines starting with - or 1.</p>
+                </div>
+                <div className="space-y-2">
+                    <span className="text-sm font-medium text-gray-700">Preview</span>
+                    <div className={`min-h-[7.5rem] p-3 border border-dashed border-gray-200 rounded-lg ${ANSWER_CLASS}`} dangerouslySetInnerHTML={{ __html: renderMarkdown(answer) }} />
+                </div>
+            </div>
+            <div className="flex gap-2">
+                <Button type="submit" size="sm" disabled={isPending}>
+                    {faq ? 'Save' : <><Plus className="w-4 h-4 mr-1" /> Add FAQ</>}
+                </Button>
+                {faq && (
+                    <Button type="button" size="sm" variant="outline" onClick={onDone}>Cancel</Button>
+                )}
+            </div>
+        </form>
+    );
+}
+
+function FaqRow({ faq }: { faq: FAQ }) {
+    const [isEditing, setIsEditing] = useState(false);
+    const [isPending, startTransition] = useTransition();
+
+    if (isEditing) {
+        return <FaqForm scope={faq.scope} faq={faq} onDone={() => setIsEditing(false)} />;
+    }
+
+    return (
+        <div className="flex items-start gap-3">
+            <div className="flex-1 min-w-0 space-y-1">
+                <div className="font-medium text-gray-900">{faq.question}</div>
+                <div className={`line-clamp-3 ${ANSWER_CLASS}`} dangerouslySetInnerHTML={{ __html: renderMarkdown(faq.answer) }} />
+            </div>
+            <Button type="button" variant="ghost" size="icon" aria-label={`Edit "${faq.question}"`} onClick={() => setIsEditing(true)}>
+                <Pencil className="w-4 h-4" />
+            </Button>
+            <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                disabled={isPending}
+                aria-label={`Delete "${faq.question}"`}
+                className="text-red-500 hover:text-red-600 hover:bg-red-50"
+                onClick={() => {
+                    if (confirm(`Delete the FAQ "${faq.question}"?`)) {
+                        startTransition(async () => reportFailure(await deleteFaqAction(faq.id, faq.scope)));
+                    }
+                }}
+            >
+                <Trash2 className="w-4 h-4" />
+            </Button>
+        </div>
+    );
+}
+
+/**
+ * FAQs of one scope in display order, reordered by dragging, edited inline
+ * and added at the end of the list.
+ */
+export function FaqManager({ scope, faqs }: FaqManagerProps) {
+    const [, startTransition] = useTransition();
+    const [ordered, setOrdered] = useOptimistic(faqs);
+
+    const handleReorder = (next: FAQ[]) => {
+        startTransition(async () => {
+            setOrdered(next);
+            reportFailure(await reorderFaqsAction(scope, next.map(faq => faq.id)));
+        });
+    };
+
+    return (
+        <div className="space-y-8">
+            <section className="bg-white rounded-xl border border-gray-200 shadow-sm p-6">
+                {ordered.length > 0 ? (
+                    <SortableList items={ordered} label="FAQs" onReorder={handleReorder} renderItem={faq => <FaqRow faq={faq} />} />
+                ) : (
+                    <p className="text-sm text-gray-500">No FAQs for this page yet.</p>
+                )}
+            </section>
+
+            <section className="bg-white rounded-xl border border-gray-200 shadow-sm p-6 space-y-4">
+                <h3 className="font-semibold text-gray-900">New FAQ</h3>
+                <FaqForm key={scope} scope={scope} />
+            </section>
+        </div>
+    );
+}
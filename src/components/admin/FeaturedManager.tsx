@@ -0,0 +1,148 @@
+'use client';
+
+import { useOptimistic, useTransition } from 'react';
+import {
+    removeFeaturedToolAction,
+    reorderFeaturedToolsAction,
+    scheduleFeaturedToolAction,
+    type FeaturedActionState,
+} from '@/app/admin/actions';
+import { SortableList } from '@/components/admin/SortableList';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Trash2 } from 'lucide-react';
+import type { FeaturedSlot, FeaturedSlotStatus } from '@/lib/services/featured.service';
+
+interface FeaturedManagerProps {
+    slots: FeaturedSlot[];
+}
+
+const STATUS_STYLES: Record<FeaturedSlotStatus, string> = {
+    scheduled: 'bg-blue-50 text-blue-700',
+    active: 'bg-green-50 text-green-700',
+    ended: 'bg-gray-100 text-gray-500',
+};
+
+function reportFailure(result: FeaturedActionState) {
+    if (result.error) {
+        alert(`${result.message}: ${result.error}`);
+    }
+}
+
+/**
+ * ISO date as a datetime-local value in the browser's time zone.
+ */
+function toLocalInput(iso: string | null): string {
+    if (!iso) {
+        return '';
+    }
+    const date = new Date(iso);
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+}
+
+/**
+ * datetime-local value, read in the browser's time zone, as an ISO date.
+ */
+function toIsoDate(local: FormDataEntryValue | null): string {
+    return typeof local === 'string' && local !== '' ? new Date(local).toISOString() : '';
+}
+
+function ScheduleForm({ slot }: { slot: FeaturedSlot }) {
+    const [isPending, startTransition] = useTransition();
+
+    const handleSubmit = (formData: FormData) => {
+        const schedule = new FormData();
+        schedule.set('id', slot.id);
+        schedule.set('startsAt', toIsoDate(formData.get('startsAtLocal')));
+        schedule.set('endsAt', toIsoDate(formData.get('endsAtLocal')));
+        startTransition(async () => reportFailure(await scheduleFeaturedToolAction(null, schedule)));
+    };
+
+    return (
+        <form action={handleSubmit} className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1">
+                <Label htmlFor={`${slot.id}-starts`} className="text-xs">Starts</Label>
+                <Input
+                    id={`${slot.id}-starts`}
+                    name="startsAtLocal"
+                    type="datetime-local"
+                    defaultValue={toLocalInput(slot.startsAt)}
+                    suppressHydrationWarning
+                    className="h-8 w-52"
+                />
+            </div>
+            <div className="space-y-1">
+                <Label htmlFor={`${slot.id}-ends`} className="text-xs">Ends</Label>
+                <Input
+                    id={`${slot.id}-ends`}
+                    name="endsAtLocal"
+                    type="datetime-local"
+                    defaultValue={toLocalInput(slot.endsAt)}
+                    suppressHydrationWarning
+                    className="h-8 w-52"
+                />
+            </div>
+            <Button type="submit" variant="outline" size="sm" disabled={isPending}>
+                {isPending ? 'Saving...' : 'Save schedule'}
+            </Button>
+        </form>
+    );
+}
+
+function SlotRow({ slot }: { slot: FeaturedSlot }) {
+    const [isPending, startTransition] = useTransition();
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                        <span className="font-medium text-gray-900 truncate">{slot.tool.name}</span>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[slot.status]}`}>
+                            {slot.status}
+                        </span>
+                    </div>
+                    <div className="text-xs text-gray-500">/tool/{slot.tool.slug}</div>
+                </div>
+                <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={isPending}
+                    aria-label={`Remove ${slot.tool.name} from featured`}
+                    className="text-red-500 hover:text-red-600 hover:bg-red-50"
+                    onClick={() => {
+                        if (confirm(`Remove ${slot.tool.name} from featured?`)) {
+                            startTransition(async () => reportFailure(await removeFeaturedToolAction(slot.id)));
+                        }
+                    }}
+                >
+                    <Trash2 className="w-4 h-4" />
+                </Button>
+            </div>
+            <ScheduleForm slot={slot} />
+        </div>
+    );
+}
+
+/**
+ * Featured slots in display order, reordered by dragging and scheduled per slot.
+ */
+export function FeaturedManager({ slots }: FeaturedManagerProps) {
+    const [, startTransition] = useTransition();
+    const [ordered, setOrdered] = useOptimistic(slots);
+
+    const handleReorder = (next: FeaturedSlot[]) => {
+        startTransition(async () => {
+            setOrdered(next);
+            reportFailure(await reorderFeaturedToolsAction(next.map(slot => slot.tool.id)));
+        });
+    };
+
+    if (ordered.length === 0) {
+        return <p className="text-sm text-gray-500">No featured tools yet. Search above to add one.</p>;
+    }
+
+    return <SortableList items={ordered} label="Featured tools" onReorder={handleReorder} renderItem={slot => <SlotRow slot={slot} />} />;
+}
@@ -0,0 +1,161 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import Link from 'next/link';
+import {
+    banReviewAuthorAction,
+    hideReviewAction,
+    restoreReviewAction,
+    type ModerationActionState,
+} from '@/app/admin/actions';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Ban, Eye, EyeOff, Star } from 'lucide-react';
+import { REPORT_REASON_LABELS, type ModeratedReview } from '@/lib/types/review';
+
+interface ModeratedReviewCardProps {
+    review: ModeratedReview;
+    /** Only admins may ban users */
+    canBan: boolean;
+}
+
+type Decision = 'hide' | 'ban';
+
+/**
+ * One review in the moderation queue with its open reports. Hiding a review
+ * or banning its author needs a reason; restoring a review, or keeping a
+ * reported one, dismisses its reports.
+ */
+export function ModeratedReviewCard({ review, canBan }: ModeratedReviewCardProps) {
+    const [isPending, startTransition] = useTransition();
+    const [decision, setDecision] = useState<Decision | null>(null);
+    const [reason, setReason] = useState('');
+    const [result, setResult] = useState<ModerationActionState | null>(null);
+
+    const decide = () => {
+        startTransition(async () => {
+            const next = decision === 'hide'
+                ? await hideReviewAction(review.id, reason)
+                : await banReviewAuthorAction(review.id, reason);
+            setResult(next);
+            if (!next.error) {
+                setDecision(null);
+            }
+        });
+    };
+
+    const restore = () => {
+        startTransition(async () => {
+            setResult(await restoreReviewAction(review.id));
+        });
+    };
+
+    return (
+        <article className="bg-white rounded-xl border border-gray-200 shadow-sm p-6 space-y-4">
+            <header className="flex flex-wrap items-start justify-between gap-4">
+                <div className="min-w-0">
+                    <h3 className="text-lg font-semibold text-gray-900">{review.title}</h3>
+                    <p className="text-sm text-gray-500">
+                        {review.tool ? (
+                            <Link href={`/tool/${review.tool.slug}#reviews`} target="_blank" className="text-blue-600 hover:underline">{review.tool.name}</Link>
+                        ) : 'Deleted tool'}
+                        {' · '}
+                        <span className="inline-flex items-center gap-0.5">
+                            {review.rating} <Star className="w-3 h-3 fill-yellow-400 text-yellow-400" />
+                        </span>
+                    </p>
+                </div>
+                <div className="text-right text-xs text-gray-500">
+                    <div>
+                        {review.authorName}
+                        {review.authorBanned && <span className="ml-2 rounded-full bg-red-50 px-2 py-0.5 text-red-700">Banned</span>}
+                    </div>
+                    <div>{new Date(review.createdAt).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })}</div>
+                    <div>{review.helpfulCount} helpful · {review.unhelpfulCount} unhelpful</div>
+                </div>
+            </header>
+
+            <p className="text-sm text-gray-700 whitespace-pre-line line-clamp-6">{review.body}</p>
+
+            {review.reports.length > 0 && (
+                <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+                    <p className="font-medium">{review.reportCount} open {review.reportCount === 1 ? 'report' : 'reports'}</p>
+                    <ul className="mt-1 list-disc pl-5 space-y-0.5">
+                        {review.reports.map(report => (
+                            <li key={report.id}>
+                                {REPORT_REASON_LABELS[report.reason]}
+                                {report.details && <span className="text-amber-700">: {report.details}</span>}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {review.hiddenAt && (
+                <div className="rounded-lg bg-gray-50 p-3 text-sm text-gray-700">
+                    <span className="font-medium">Hidden {new Date(review.hiddenAt).toLocaleDateString('en-US', { dateStyle: 'medium' })}: </span>
+                    {review.hiddenReason}
+                </div>
+            )}
+
+            {decision && (
+                <div className="space-y-1 border-t border-gray-100 pt-4">
+                    <Label htmlFor={`${review.id}-reason`}>
+                        {decision === 'hide' ? 'Reason for hiding' : 'Reason for banning the author'}
+                    </Label>
+                    <textarea
+                        id={`${review.id}-reason`}
+                        rows={2}
+                        value={reason}
+                        onChange={event => setReason(event.target.value)}
+                        className="w-full rounded-md border border-gray-200 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                    />
+                    {decision === 'ban' && (
+                        <p className="text-xs text-gray-500">All of the author&apos;s reviews are hidden and they can no longer review, vote or report.</p>
+                    )}
+                </div>
+            )}
+
+            {result && (
+                <p className={`text-sm ${result.error ? 'text-red-600' : 'text-green-700'}`}>
+                    {result.error ? `${result.message}: ${result.error}` : result.message}
+                </p>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+                {decision ? (
+                    <>
+                        <Button size="sm" onClick={decide} disabled={isPending}>
+                            {isPending ? 'Saving...' : decision === 'hide' ? 'Hide review' : 'Ban user'}
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => setDecision(null)} disabled={isPending}>
+                            Cancel
+                        </Button>
+                    </>
+                ) : (
+                    <>
+                        {review.hiddenAt ? (
+                            <Button size="sm" onClick={restore} disabled={isPending}>
+                                <Eye className="w-4 h-4 mr-2" /> Restore
+                            </Button>
+                        ) : (
+                            <>
+                                <Button size="sm" onClick={() => setDecision('hide')}>
+                                    <EyeOff className="w-4 h-4 mr-2" /> Hide
+                                </Button>
+                                <Button size="sm" variant="outline" onClick={restore} disabled={isPending}>
+                                    <Eye className="w-4 h-4 mr-2" /> Keep
+                                </Button>
+                            </>
+                        )}
+                        {canBan && !review.authorBanned && (
+                            <Button size="sm" variant="outline" className="text-red-600" onClick={() => setDecision('ban')}>
+                                <Ban className="w-4 h-4 mr-2" /> Ban user
+                            </Button>
+                        )}
+                    </>
+                )}
+            </div>
+        </article>
+    );
+}
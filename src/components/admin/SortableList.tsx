@@ -0,0 +1,81 @@
+'use client';
+
+import { useState, type KeyboardEvent, type ReactNode } from 'react';
+import { GripVertical } from 'lucide-react';
+
+interface SortableListProps<T extends { id: string }> {
+    items: T[];
+    label: string; // Accessible name of the list, e.g. "Groups"
+    onReorder: (items: T[]) => void;
+    renderItem: (item: T) => ReactNode;
+}
+
+function move<T>(items: T[], from: number, to: number): T[] {
+    const next = [...items];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    return next;
+}
+
+/**
+ * Vertical list reordered by dragging the grip handle, or by focusing the
+ * handle and pressing the up and down arrow keys.
+ */
+export function SortableList<T extends { id: string }>({ items, label, onReorder, renderItem }: SortableListProps<T>) {
+    const [dragIndex, setDragIndex] = useState<number | null>(null);
+    const [overIndex, setOverIndex] = useState<number | null>(null);
+
+    const handleDrop = (index: number) => {
+        if (dragIndex !== null && dragIndex !== index) {
+            onReorder(move(items, dragIndex, index));
+        }
+        setDragIndex(null);
+        setOverIndex(null);
+    };
+
+    const handleKeyDown = (event: KeyboardEvent<HTMLButtonElement>, index: number) => {
+        const target = event.key === 'ArrowUp' ? index - 1 : event.key === 'ArrowDown' ? index + 1 : -1;
+        if (target >= 0 && target < items.length) {
+            event.preventDefault();
+            onReorder(move(items, index, target));
+        }
+    };
+
+    return (
+        <ul aria-label={label} className="divide-y divide-gray-100">
+            {items.map((item, index) => (
+                <li
+                    key={item.id}
+                    onDragOver={event => {
+                        event.preventDefault();
+                        setOverIndex(index);
+                    }}
+                    onDrop={event => {
+                        event.preventDefault();
+                        handleDrop(index);
+                    }}
+                    className={`flex items-start gap-2 py-2 ${overIndex === index && dragIndex !== index ? 'bg-blue-50' : ''} ${dragIndex === index ? 'opacity-50' : ''}`}
+                >
+                    <button
+                        type="button"
+                        draggable
+                        onDragStart={event => {
+                            event.dataTransfer.effectAllowed = 'move';
+                            setDragIndex(index);
+                        }}
+                        onDragEnd={() => {
+                            setDragIndex(null);
+                            setOverIndex(null);
+                        }}
+                        onKeyDown={event => handleKeyDown(event, index)}
+                        aria-label="Drag to reorder, or use the arrow keys"
+                        className="mt-2 cursor-grab text-gray-400 hover:text-gray-600 active:cursor-grabbing"
+                    >
+                        <GripVertical className="w-4 h-4" />
+                    </button>
+                    <div className="flex-1 min-w-0">{renderItem(item)}</div>
+                </li>
+            ))}
+        </ul>
+    );
+}
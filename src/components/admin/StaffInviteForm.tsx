@@ -0,0 +1,50 @@
+'use client';
+
+import { useRef, useTransition } from 'react';
+import { inviteStaffAction } from '@/app/admin/actions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { STAFF_ROLES } from '@/lib/types/staff';
+
+export function StaffInviteForm() {
+    const [isPending, startTransition] = useTransition();
+    const formRef = useRef<HTMLFormElement>(null);
+
+    const handleSubmit = async (formData: FormData) => {
+        startTransition(async () => {
+            const result = await inviteStaffAction(null, formData);
+            if (!result.error) {
+                formRef.current?.reset();
+            }
+            alert(result.error ? `${result.message}: ${result.error}` : result.message);
+        });
+    };
+
+    return (
+        <form ref={formRef} action={handleSubmit} className="flex flex-col md:flex-row md:items-end gap-4 bg-white p-6 rounded-xl border border-gray-200 shadow-sm">
+            <div className="flex-1 space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input name="email" id="email" type="email" placeholder="editor@example.com" required />
+            </div>
+
+            <div className="space-y-2">
+                <Label htmlFor="role">Role</Label>
+                <select
+                    name="role"
+                    id="role"
+                    defaultValue="editor"
+                    className="flex h-10 w-full md:w-40 rounded-md border border-gray-200 bg-white px-3 py-2 text-sm capitalize focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                >
+                    {STAFF_ROLES.map(role => (
+                        <option key={role} value={role}>{role}</option>
+                    ))}
+                </select>
+            </div>
+
+            <Button type="submit" disabled={isPending}>
+                {isPending ? 'Inviting...' : 'Send Invite'}
+            </Button>
+        </form>
+    );
+}
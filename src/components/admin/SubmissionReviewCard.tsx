@@ -0,0 +1,211 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import Link from 'next/link';
+import {
+    approveSubmissionAction,
+    rejectSubmissionAction,
+    requestSubmissionChangesAction,
+    type SubmissionActionState,
+} from '@/app/admin/actions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Check, ExternalLink, MessageSquare, X } from 'lucide-react';
+import {
+    MAX_SUBMISSION_CATEGORIES,
+    OPEN_SUBMISSION_STATUSES,
+    SUBMISSION_STATUS_LABELS,
+    type SubmissionDuplicate,
+    type ToolSubmission,
+} from '@/lib/types/submission';
+import type { Category } from '@/lib/types/tool';
+
+interface SubmissionReviewCardProps {
+    submission: ToolSubmission;
+    duplicates: SubmissionDuplicate[];
+    categories: Pick<Category, 'id' | 'name'>[];
+}
+
+type Decision = 'approve' | 'changes' | 'reject';
+
+/**
+ * One submission in the moderation queue. Staff can adjust the slug and
+ * categories before approving; asking for changes or rejecting needs a note,
+ * which the submitter sees on their status page.
+ */
+export function SubmissionReviewCard({ submission, duplicates, categories }: SubmissionReviewCardProps) {
+    const [isPending, startTransition] = useTransition();
+    const [decision, setDecision] = useState<Decision | null>(null);
+    const [slug, setSlug] = useState(submission.slug);
+    const [categoryIds, setCategoryIds] = useState(submission.categoryIds);
+    const [note, setNote] = useState('');
+    const [result, setResult] = useState<SubmissionActionState | null>(null);
+
+    const isOpen = OPEN_SUBMISSION_STATUSES.includes(submission.status);
+    const categoryNames = new Map(categories.map(category => [category.id, category.name]));
+
+    const decide = () => {
+        startTransition(async () => {
+            const next = decision === 'approve'
+                ? await approveSubmissionAction(submission.id, { slug, categoryIds })
+                : decision === 'changes'
+                    ? await requestSubmissionChangesAction(submission.id, note)
+                    : await rejectSubmissionAction(submission.id, note);
+            setResult(next);
+            if (!next.error) {
+                setDecision(null);
+            }
+        });
+    };
+
+    const toggleCategory = (id: string, checked: boolean) => {
+        setCategoryIds(current => (checked ? [...current, id] : current.filter(value => value !== id)));
+    };
+
+    return (
+        <article className="bg-white rounded-xl border border-gray-200 shadow-sm p-6 space-y-4">
+            <header className="flex flex-wrap items-start justify-between gap-4">
+                <div className="min-w-0">
+                    <h3 className="text-lg font-semibold text-gray-900">{submission.name}</h3>
+                    <a
+                        href={submission.websiteUrl}
+                        target="_blank"
+                        rel="noopener noreferrer nofollow"
+                        className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline break-all"
+                    >
+                        {submission.websiteUrl} <ExternalLink className="w-3 h-3" />
+                    </a>
+                </div>
+                <div className="text-right text-xs text-gray-500">
+                    <div>{submission.submitterEmail}</div>
+                    <div>{new Date(submission.createdAt).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })}</div>
+                </div>
+            </header>
+
+            <p className="text-sm text-gray-700">{submission.shortDescription}</p>
+            {submission.description && (
+                <p className="text-sm text-gray-500 whitespace-pre-line line-clamp-6">{submission.description}</p>
+            )}
+
+            <div className="flex flex-wrap gap-2 text-xs">
+                <span className="rounded-full bg-gray-100 px-2 py-1 text-gray-700">{submission.pricing}</span>
+                {submission.categoryIds.map(id => (
+                    <span key={id} className="rounded-full bg-blue-50 px-2 py-1 text-blue-700">
+                        {categoryNames.get(id) ?? 'Unknown category'}
+                    </span>
+                ))}
+            </div>
+
+            {duplicates.length > 0 && (
+                <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+                    <p className="font-medium">Possible duplicate</p>
+                    <ul className="mt-1 list-disc pl-5">
+                        {duplicates.map(duplicate => (
+                            <li key={`${duplicate.kind}:${duplicate.slug}`}>
+                                {duplicate.kind === 'tool' ? (
+                                    <Link href={`/tool/${duplicate.slug}`} target="_blank" className="underline">{duplicate.name}</Link>
+                                ) : (
+                                    `${duplicate.name} (open submission)`
+                                )}
+                                {duplicate.reason === 'domain' ? ', same website' : ', same slug'}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {submission.reviewNote && (
+                <div className="rounded-lg bg-gray-50 p-3 text-sm text-gray-700">
+                    <span className="font-medium">Note to submitter: </span>{submission.reviewNote}
+                </div>
+            )}
+
+            {!isOpen && (
+                <p className="text-sm text-gray-500">
+                    {SUBMISSION_STATUS_LABELS[submission.status]}
+                    {submission.status === 'approved' && submission.toolId && (
+                        <> as <Link href={`/admin/tools/${submission.toolId}`} className="text-blue-600 hover:underline">/tool/{submission.slug}</Link></>
+                    )}
+                </p>
+            )}
+
+            {isOpen && decision === 'approve' && (
+                <div className="space-y-3 border-t border-gray-100 pt-4">
+                    <div className="space-y-1">
+                        <Label htmlFor={`${submission.id}-slug`}>Slug</Label>
+                        <Input id={`${submission.id}-slug`} value={slug} onChange={event => setSlug(event.target.value)} />
+                    </div>
+                    <fieldset className="space-y-1">
+                        <legend className="text-sm font-medium">Categories (up to {MAX_SUBMISSION_CATEGORIES})</legend>
+                        <div className="grid grid-cols-2 md:grid-cols-3 gap-2 max-h-40 overflow-y-auto rounded-md border border-gray-200 p-3">
+                            {categories.map(category => {
+                                const checked = categoryIds.includes(category.id);
+                                return (
+                                    <label key={category.id} className="flex items-center gap-2 text-sm text-gray-700">
+                                        <input
+                                            type="checkbox"
+                                            checked={checked}
+                                            disabled={!checked && categoryIds.length >= MAX_SUBMISSION_CATEGORIES}
+                                            onChange={event => toggleCategory(category.id, event.target.checked)}
+                                        />
+                                        {category.name}
+                                    </label>
+                                );
+                            })}
+                        </div>
+                    </fieldset>
+                </div>
+            )}
+
+            {isOpen && (decision === 'changes' || decision === 'reject') && (
+                <div className="space-y-1 border-t border-gray-100 pt-4">
+                    <Label htmlFor={`${submission.id}-note`}>
+                        {decision === 'changes' ? 'What should the submitter change?' : 'Reason for rejecting'}
+                    </Label>
+                    <textarea
+                        id={`${submission.id}-note`}
+                        rows={3}
+                        value={note}
+                        onChange={event => setNote(event.target.value)}
+                        className="w-full rounded-md border border-gray-200 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                    />
+                    <p className="text-xs text-gray-500">Shown to the submitter on their status page.</p>
+                </div>
+            )}
+
+            {result && (
+                <p className={`text-sm ${result.error ? 'text-red-600' : 'text-green-700'}`}>
+                    {result.error ? `${result.message}: ${result.error}` : result.message}
+                </p>
+            )}
+
+            {isOpen && (
+                <div className="flex flex-wrap gap-2">
+                    {decision ? (
+                        <>
+                            <Button size="sm" onClick={decide} disabled={isPending}>
+                                {isPending ? 'Saving...' : decision === 'approve' ? 'Create tool' : decision === 'changes' ? 'Send back' : 'Reject'}
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => setDecision(null)} disabled={isPending}>
+                                Cancel
+                            </Button>
+                        </>
+                    ) : (
+                        <>
+                            <Button size="sm" onClick={() => setDecision('approve')}>
+                                <Check className="w-4 h-4 mr-2" /> Approve
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => setDecision('changes')}>
+                                <MessageSquare className="w-4 h-4 mr-2" /> Request changes
+                            </Button>
+                            <Button size="sm" variant="outline" className="text-red-600" onClick={() => setDecision('reject')}>
+                                <X className="w-4 h-4 mr-2" /> Reject
+                            </Button>
+                        </>
+                    )}
+                </div>
+            )}
+        </article>
+    );
+}
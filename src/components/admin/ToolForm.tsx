@@ -1,65 +1,270 @@
 'use client';
 
-import { useTransition } from 'react';
-import { createToolAction } from '@/app/admin/actions';
+import { useState, useTransition, type KeyboardEvent } from 'react';
+import { Controller, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { createToolAction, updateToolAction, type ToolActionState } from '@/app/admin/actions';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { X } from 'lucide-react';
+import {
+    MAX_TOOL_TAGS,
+    PRICING_OPTIONS,
+    ToolFormSchema,
+    getToolFormDefaults,
+    type ToolFormInput,
+    type ToolFormValues,
+} from '@/lib/types/tool-form';
+import type { Category, Tool } from '@/lib/types/tool';
 
-export function ToolForm() {
+const TEXTAREA_CLASS = 'w-full p-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none';
+
+const FLAGS = [
+    { name: 'verified', label: 'Verified', hint: 'Blue tick next to the name' },
+    { name: 'isNew', label: 'New', hint: '"New" badge on cards' },
+    { name: 'isFeatured', label: 'Featured', hint: 'Fire icon on cards' },
+] as const;
+
+interface ToolFormProps {
+    categories: Pick<Category, 'id' | 'name'>[];
+    /** Tool being edited; omit to create a new tool */
+    tool?: Tool;
+    /** IDs of the edited tool's categories */
+    categoryIds?: string[];
+}
+
+function FieldError({ message }: { message?: string }) {
+    return message ? <p className="text-sm text-red-500">{message}</p> : null;
+}
+
+/**
+ * Tag chips with an input that adds a tag on Enter or comma.
+ */
+function TagEditor({ id, value, onChange }: { id: string; value: string[]; onChange: (tags: string[]) => void }) {
+    const [draft, setDraft] = useState('');
+
+    const addDraft = () => {
+        const tag = draft.trim();
+        if (tag && !value.includes(tag)) {
+            onChange([...value, tag]);
+        }
+        setDraft('');
+    };
+
+    const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+        if (event.key === 'Enter' || event.key === ',') {
+            event.preventDefault();
+            addDraft();
+        } else if (event.key === 'Backspace' && draft === '' && value.length > 0) {
+            onChange(value.slice(0, -1));
+        }
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-2 p-2 border border-gray-200 rounded-md focus-within:ring-2 focus-within:ring-blue-500/20 focus-within:border-blue-500">
+            {value.map(tag => (
+                <span key={tag} className="inline-flex items-center gap-1 rounded-full bg-gray-100 px-2.5 py-0.5 text-sm text-gray-700">
+                    {tag}
+                    <button
+                        type="button"
+                        aria-label={`Remove tag ${tag}`}
+                        className="text-gray-400 hover:text-gray-700"
+                        onClick={() => onChange(value.filter(existing => existing !== tag))}
+                    >
+                        <X className="w-3 h-3" />
+                    </button>
+                </span>
+            ))}
+            <input
+                id={id}
+                value={draft}
+                onChange={event => setDraft(event.target.value)}
+                onKeyDown={handleKeyDown}
+                onBlur={addDraft}
+                disabled={value.length >= MAX_TOOL_TAGS}
+                placeholder={value.length >= MAX_TOOL_TAGS ? `At most ${MAX_TOOL_TAGS} tags` : 'Add a tag and press Enter'}
+                className="flex-1 min-w-[10rem] text-sm outline-none bg-transparent"
+            />
+        </div>
+    );
+}
+
+/**
+ * Create or edit a tool. Validated in the browser with ToolFormSchema; the
+ * action parses the raw values with the same schema before saving.
+ */
+export function ToolForm({ categories, tool, categoryIds = [] }: ToolFormProps) {
     const [isPending, startTransition] = useTransition();
+    const [result, setResult] = useState<ToolActionState | null>(null);
 
-    const handleSubmit = async (formData: FormData) => {
+    const {
+        register,
+        control,
+        handleSubmit,
+        getValues,
+        reset,
+        formState: { errors },
+    } = useForm<ToolFormInput, unknown, ToolFormValues>({
+        resolver: zodResolver(ToolFormSchema),
+        defaultValues: getToolFormDefaults(tool, categoryIds),
+    });
+
+    // Errors on single tags are reported per array index
+    const tagError = errors.tags?.message ?? (Array.isArray(errors.tags) ? errors.tags.find(Boolean)?.message : undefined);
+
+    const onSubmit = () => {
         startTransition(async () => {
-            await createToolAction(null, formData);
-            // In real app, handle success (toast, redirect)
-            alert('Tool created!');
+            // Raw values: the server validates them again with the same schema
+            const input = getValues();
+            const next = tool ? await updateToolAction(tool.id, input) : await createToolAction(input);
+            setResult(next);
+            if (!tool && !next.error) {
+                reset(getToolFormDefaults());
+            }
         });
     };
 
     return (
-        <form action={handleSubmit} className="space-y-6 max-w-2xl bg-white p-6 rounded-xl border border-gray-200 shadow-sm">
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-6 max-w-2xl bg-white p-6 rounded-xl border border-gray-200 shadow-sm">
             <div className="space-y-2">
                 <Label htmlFor="name">Name</Label>
-                <Input name="name" id="name" placeholder="ChatGTP" required />
+                <Input id="name" placeholder="ChatGTP" {...register('name')} />
+                <FieldError message={errors.name?.message} />
             </div>
 
             <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
                     <Label htmlFor="slug">Slug</Label>
-                    <Input name="slug" id="slug" placeholder="chat-gpt" required />
+                    <Input id="slug" placeholder="chat-gpt" {...register('slug')} />
+                    <FieldError message={errors.slug?.message} />
                 </div>
                 <div className="space-y-2">
                     <Label htmlFor="pricing">Pricing</Label>
-                    <Input name="pricing" id="pricing" placeholder="Freemium" />
+                    <select
+                        id="pricing"
+                        className="flex h-10 w-full rounded-md border border-gray-200 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                        {...register('pricing')}
+                    >
+                        {PRICING_OPTIONS.map(option => (
+                            <option key={option} value={option}>{option}</option>
+                        ))}
+                    </select>
                 </div>
             </div>
 
-            <div className="space-y-2">
-                <Label htmlFor="websiteUrl">Website URL</Label>
-                <Input name="websiteUrl" id="websiteUrl" type="url" placeholder="https://..." required />
+            <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                    <Label htmlFor="websiteUrl">Website URL</Label>
+                    <Input id="websiteUrl" type="url" placeholder="https://..." {...register('websiteUrl')} />
+                    <FieldError message={errors.websiteUrl?.message} />
+                </div>
+                <div className="space-y-2">
+                    <Label htmlFor="externalUrl">External URL</Label>
+                    <Input id="externalUrl" type="url" placeholder="https://..." {...register('externalUrl')} />
+                    <FieldError message={errors.externalUrl?.message} />
+                </div>
             </div>
 
             <div className="space-y-2">
                 <Label htmlFor="image">Image URL</Label>
-                <Input name="image" id="image" type="url" placeholder="https://..." />
+                <Input id="image" type="url" placeholder="https://..." {...register('image')} />
                 <p className="text-xs text-gray-500">For now, just paste an external image URL.</p>
+                <FieldError message={errors.image?.message} />
             </div>
 
+            {categories.length > 0 && (
+                <Controller
+                    control={control}
+                    name="categoryIds"
+                    render={({ field }) => (
+                        <fieldset className="space-y-2">
+                            <legend className="text-sm font-medium">Categories</legend>
+                            <div className="grid grid-cols-2 gap-2 max-h-48 overflow-y-auto p-3 border border-gray-200 rounded-lg">
+                                {categories.map(category => (
+                                    <label key={category.id} className="flex items-center gap-2 text-sm text-gray-700">
+                                        <input
+                                            type="checkbox"
+                                            checked={field.value.includes(category.id)}
+                                            onChange={event => field.onChange(
+                                                event.target.checked
+                                                    ? [...field.value, category.id]
+                                                    : field.value.filter(id => id !== category.id)
+                                            )}
+                                        />
+                                        {category.name}
+                                    </label>
+                                ))}
+                            </div>
+                            <FieldError message={errors.categoryIds?.message} />
+                        </fieldset>
+                    )}
+                />
+            )}
+
             <div className="space-y-2">
-                <Label htmlFor="description">Description (Markdown)</Label>
-                <textarea
-                    name="description"
-                    id="description"
-                    rows={5}
-                    className="w-full p-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none"
-                    placeholder="# Features..."
-                    required
+                <Label htmlFor="tags">Tags</Label>
+                <Controller
+                    control={control}
+                    name="tags"
+                    render={({ field }) => <TagEditor id="tags" value={field.value} onChange={field.onChange} />}
                 />
+                <FieldError message={tagError} />
+            </div>
+
+            <fieldset className="space-y-2">
+                <legend className="text-sm font-medium">Flags</legend>
+                <div className="grid grid-cols-3 gap-2">
+                    {FLAGS.map(flag => (
+                        <label key={flag.name} className="flex items-start gap-2 p-3 border border-gray-200 rounded-lg text-sm">
+                            <input type="checkbox" className="mt-0.5" {...register(flag.name)} />
+                            <span>
+                                <span className="font-medium text-gray-900">{flag.label}</span>
+                                <span className="block text-xs text-gray-500">{flag.hint}</span>
+                            </span>
+                        </label>
+                    ))}
+                </div>
+            </fieldset>
+
+            <div className="space-y-2">
+                <Label htmlFor="shortDescription">Short description</Label>
+                <Input id="shortDescription" placeholder="One line for tool cards" {...register('shortDescription')} />
+                <FieldError message={errors.shortDescription?.message} />
+            </div>
+
+            <div className="space-y-2">
+                <Label htmlFor="description">Description (Markdown)</Label>
+                <textarea id="description" rows={5} className={TEXTAREA_CLASS} placeholder="# Features..." {...register('description')} />
+                <FieldError message={errors.description?.message} />
+            </div>
+
+            <div className="space-y-2">
+                <Label htmlFor="freeTierDetails">Free tier details</Label>
+                <textarea id="freeTierDetails" rows={2} className={TEXTAREA_CLASS} placeholder="e.g. 25 images per month" {...register('freeTierDetails')} />
+                <FieldError message={errors.freeTierDetails?.message} />
             </div>
 
+            <div className="space-y-2">
+                <Label htmlFor="monthlyVisits">Monthly visits</Label>
+                <Input id="monthlyVisits" inputMode="numeric" placeholder="5000000" {...register('monthlyVisits')} />
+                <FieldError message={errors.monthlyVisits?.message} />
+            </div>
+
+            <div className="space-y-2">
+                <Label htmlFor="metadata">Metadata (JSON)</Label>
+                <textarea id="metadata" rows={6} className={`${TEXTAREA_CLASS} font-mono text-sm`} placeholder={'{\n  "source": "manual"\n}'} {...register('metadata')} />
+                <FieldError message={errors.metadata?.message} />
+            </div>
+
+            {result && (
+                <p className={`text-sm ${result.error ? 'text-red-600' : 'text-green-600'}`}>
+                    {result.error ? `${result.message}: ${result.error}` : result.message}
+                </p>
+            )}
+
             <Button type="submit" disabled={isPending} className="w-full">
-                {isPending ? 'Saving...' : 'Create Tool'}
+                {isPending ? 'Saving...' : tool ? 'Save Changes' : 'Create Tool'}
             </Button>
         </form>
     );
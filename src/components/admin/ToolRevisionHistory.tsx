@@ -0,0 +1,82 @@
+import { revertToolRevisionAction } from '@/app/admin/actions';
+import { Button } from '@/components/ui/button';
+import { RotateCcw } from 'lucide-react';
+import type { ToolRevision } from '@/lib/types/tool';
+
+interface ToolRevisionHistoryProps {
+    toolId: string;
+    revisions: ToolRevision[];
+    canRevert: boolean;
+}
+
+function formatValue(value: unknown): string {
+    if (value === null || value === undefined || value === '') {
+        return '∅';
+    }
+    if (Array.isArray(value)) {
+        return value.length > 0 ? value.join(', ') : '∅';
+    }
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    return text.length > 200 ? `${text.slice(0, 197)}…` : text;
+}
+
+export function ToolRevisionHistory({ toolId, revisions, canRevert }: ToolRevisionHistoryProps) {
+    if (revisions.length === 0) {
+        return <p className="text-sm text-gray-500">No revisions recorded yet.</p>;
+    }
+
+    return (
+        <ol className="space-y-4">
+            {revisions.map((revision, index) => (
+                <li key={revision.id} className="bg-white rounded-xl border border-gray-200 shadow-sm p-4">
+                    <div className="flex items-start justify-between gap-4">
+                        <div>
+                            <div className="font-medium text-gray-900">
+                                Revision {revision.revisionNumber}
+                                {index === 0 && <span className="ml-2 text-xs text-green-600">(current)</span>}
+                            </div>
+                            <div className="text-xs text-gray-500">
+                                {new Date(revision.createdAt).toLocaleString()} by {revision.actorLabel}
+                            </div>
+                        </div>
+                        {canRevert && index > 0 && (
+                            <form action={async () => {
+                                'use server';
+                                await revertToolRevisionAction(toolId, revision.id);
+                            }}>
+                                <Button variant="outline" size="sm">
+                                    <RotateCcw className="w-4 h-4 mr-2" /> Revert to this version
+                                </Button>
+                            </form>
+                        )}
+                    </div>
+
+                    {revision.changes.length === 0 ? (
+                        <p className="mt-3 text-xs text-gray-500">
+                            {index === revisions.length - 1 ? 'Earliest recorded version.' : 'No field changes.'}
+                        </p>
+                    ) : (
+                        <table className="mt-3 w-full text-xs text-left">
+                            <thead className="text-gray-500">
+                                <tr>
+                                    <th className="py-1 pr-4 font-medium w-40">Field</th>
+                                    <th className="py-1 pr-4 font-medium">Before</th>
+                                    <th className="py-1 font-medium">After</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100">
+                                {revision.changes.map(change => (
+                                    <tr key={change.field} className="align-top">
+                                        <td className="py-1 pr-4 font-medium text-gray-700">{change.field}</td>
+                                        <td className="py-1 pr-4 text-red-600 break-all">{formatValue(change.before)}</td>
+                                        <td className="py-1 text-green-700 break-all">{formatValue(change.after)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </li>
+            ))}
+        </ol>
+    );
+}
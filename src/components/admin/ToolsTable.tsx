@@ -0,0 +1,201 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import Link from 'next/link';
+import { bulkToolAction, deleteToolAction, type ToolActionState } from '@/app/admin/actions';
+import { Button } from '@/components/ui/button';
+import { Archive, BadgeCheck, ExternalLink, Flame, Pencil } from 'lucide-react';
+import { PRICING_OPTIONS } from '@/lib/types/tool-form';
+import type { BulkToolAction } from '@/lib/services/tools.service';
+import type { Category, Tool } from '@/lib/types/tool';
+
+interface ToolsTableProps {
+    tools: Tool[];
+    categories: Pick<Category, 'id' | 'name'>[];
+    /** Sortable column headers, rendered as links by the page */
+    header: React.ReactNode;
+}
+
+const SELECT_CLASS = 'h-8 rounded-md border border-gray-200 bg-white px-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500';
+
+function reportFailure(result: ToolActionState) {
+    if (result.error) {
+        alert(`${result.message}: ${result.error}`);
+    }
+}
+
+/**
+ * One page of the admin tools table with row selection and bulk actions.
+ * Each bulk action is applied to the whole selection in one request.
+ */
+export function ToolsTable({ tools, categories, header }: ToolsTableProps) {
+    const [isPending, startTransition] = useTransition();
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const allSelected = tools.length > 0 && tools.every(tool => selected.has(tool.id));
+
+    const toggle = (id: string) => {
+        setSelected(current => {
+            const next = new Set(current);
+            if (!next.delete(id)) {
+                next.add(id);
+            }
+            return next;
+        });
+    };
+
+    const runBulk = (action: BulkToolAction) => {
+        if (action.type === 'archive' && !confirm(`Archive ${selected.size} tool${selected.size === 1 ? '' : 's'}?`)) {
+            return;
+        }
+        startTransition(async () => {
+            const result = await bulkToolAction([...selected], action);
+            reportFailure(result);
+            if (!result.error) {
+                setSelected(new Set());
+            }
+        });
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2 min-h-10 text-sm">
+                {selected.size === 0 ? (
+                    <span className="text-gray-500">Select tools to verify, feature, re-price, categorize or archive them together.</span>
+                ) : (
+                    <>
+                        <span className="font-medium text-gray-900 mr-2">{selected.size} selected</span>
+                        <Button size="sm" variant="outline" disabled={isPending} onClick={() => runBulk({ type: 'verify' })}>
+                            <BadgeCheck className="w-4 h-4 mr-1" /> Verify
+                        </Button>
+                        <Button size="sm" variant="outline" disabled={isPending} onClick={() => runBulk({ type: 'feature', featured: true })}>
+                            <Flame className="w-4 h-4 mr-1" /> Feature
+                        </Button>
+                        <Button size="sm" variant="outline" disabled={isPending} onClick={() => runBulk({ type: 'feature', featured: false })}>
+                            Unfeature
+                        </Button>
+                        <select
+                            aria-label="Set pricing"
+                            value=""
+                            disabled={isPending}
+                            className={SELECT_CLASS}
+                            onChange={event => runBulk({ type: 'pricing', pricing: event.target.value as Tool['pricing'] })}
+                        >
+                            <option value="" disabled>Set pricing…</option>
+                            {PRICING_OPTIONS.map(option => (
+                                <option key={option} value={option}>{option}</option>
+                            ))}
+                        </select>
+                        <select
+                            aria-label="Add to category"
+                            value=""
+                            disabled={isPending}
+                            className={SELECT_CLASS}
+                            onChange={event => runBulk({ type: 'category', categoryId: event.target.value })}
+                        >
+                            <option value="" disabled>Add to category…</option>
+                            {categories.map(category => (
+                                <option key={category.id} value={category.id}>{category.name}</option>
+                            ))}
+                        </select>
+                        <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={isPending}
+                            className="text-red-500 hover:text-red-600 hover:bg-red-50"
+                            onClick={() => runBulk({ type: 'archive' })}
+                        >
+                            <Archive className="w-4 h-4 mr-1" /> Archive
+                        </Button>
+                        <button type="button" className="ml-2 text-gray-500 hover:underline" onClick={() => setSelected(new Set())}>
+                            Clear
+                        </button>
+                    </>
+                )}
+            </div>
+
+            <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
+                <table className="w-full text-sm text-left">
+                    <thead className="bg-gray-50 text-gray-500 border-b border-gray-200">
+                        <tr>
+                            <th className="pl-6 py-4 w-8">
+                                <input
+                                    type="checkbox"
+                                    aria-label="Select all tools on this page"
+                                    checked={allSelected}
+                                    onChange={() => setSelected(allSelected ? new Set() : new Set(tools.map(tool => tool.id)))}
+                                />
+                            </th>
+                            {header}
+                            <th className="px-6 py-4 font-medium text-right">Actions</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                        {tools.length === 0 && (
+                            <tr>
+                                <td colSpan={8} className="px-6 py-8 text-center text-gray-500">
+                                    No tools match these filters.
+                                </td>
+                            </tr>
+                        )}
+                        {tools.map(tool => (
+                            <tr key={tool.id} className={`group transition-colors ${selected.has(tool.id) ? 'bg-blue-50/50' : 'hover:bg-gray-50'}`}>
+                                <td className="pl-6 py-4">
+                                    <input
+                                        type="checkbox"
+                                        aria-label={`Select ${tool.name}`}
+                                        checked={selected.has(tool.id)}
+                                        onChange={() => toggle(tool.id)}
+                                    />
+                                </td>
+                                <td className="px-6 py-4">
+                                    <div className="font-medium text-gray-900 flex items-center gap-1">
+                                        {tool.name}
+                                        {tool.verified && <BadgeCheck className="w-4 h-4 text-blue-500" aria-label="Verified" />}
+                                        {tool.isFeatured && <Flame className="w-4 h-4 text-orange-500" aria-label="Featured" />}
+                                    </div>
+                                    <a href={`/tool/${tool.slug}`} target="_blank" className="text-xs text-blue-500 hover:underline flex items-center gap-1">
+                                        View Live <ExternalLink className="w-3 h-3" />
+                                    </a>
+                                </td>
+                                <td className="px-6 py-4 text-gray-600">{tool.pricing}</td>
+                                <td className="px-6 py-4 text-gray-600">
+                                    <div className="flex gap-2 flex-wrap">
+                                        {tool.categories?.slice(0, 2).map(cat => (
+                                            <span key={cat} className="px-2 py-0.5 bg-gray-100 rounded text-xs">
+                                                {cat}
+                                            </span>
+                                        ))}
+                                    </div>
+                                </td>
+                                <td className="px-6 py-4 text-gray-600">{tool.savedCount.toLocaleString()}</td>
+                                <td className="px-6 py-4 text-gray-600">{tool.monthlyVisits?.toLocaleString() ?? '—'}</td>
+                                <td className="px-6 py-4 text-gray-600">
+                                    {tool.dateAdded ? new Date(tool.dateAdded).toLocaleDateString() : '—'}
+                                </td>
+                                <td className="px-6 py-4 text-right">
+                                    <div className="flex items-center justify-end gap-2">
+                                        <Button variant="ghost" size="icon" asChild>
+                                            <Link href={`/admin/tools/${tool.id}/edit`}>
+                                                <Pencil className="w-4 h-4 text-gray-500" />
+                                            </Link>
+                                        </Button>
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            title="Archive"
+                                            disabled={isPending}
+                                            className="text-red-500 hover:text-red-600 hover:bg-red-50"
+                                            onClick={() => startTransition(() => deleteToolAction(tool.id))}
+                                        >
+                                            <Archive className="w-4 h-4" />
+                                        </Button>
+                                    </div>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,61 @@
+'use client';
+
+import { Bookmark } from 'lucide-react';
+import { useFavorites } from '@/components/providers/FavoritesProvider';
+import { cn } from '@/lib/utils';
+
+interface FavoriteButtonProps {
+    toolId: string;
+    /** Save count rendered by the server, shown until the client knows better */
+    savedCount: number;
+    /** "icon" for the round overlay on tool cards, "button" for the labelled tool page button */
+    variant?: 'icon' | 'button';
+    className?: string;
+}
+
+/**
+ * Saves or unsaves a tool for the signed-in user, updating at once and
+ * reconciling with the server's count when the action returns.
+ */
+export function FavoriteButton({ toolId, savedCount, variant = 'icon', className }: FavoriteButtonProps) {
+    const { isSaved, getSavedCount, toggle } = useFavorites();
+    const saved = isSaved(toolId);
+    const count = getSavedCount(toolId, savedCount);
+
+    const handleClick = (event: React.MouseEvent) => {
+        // Cards wrap the whole surface in a link; keep the click on the button
+        event.preventDefault();
+        event.stopPropagation();
+        toggle(toolId, savedCount);
+    };
+
+    if (variant === 'button') {
+        return (
+            <button
+                type="button"
+                onClick={handleClick}
+                aria-pressed={saved}
+                className={cn(
+                    'flex items-center gap-2 px-4 py-2 bg-white border border-[var(--border)] rounded-[var(--radius-sm)] shadow-sm hover:bg-gray-50 font-medium text-sm text-gray-700',
+                    saved && 'text-[var(--primary)] border-[var(--primary)]',
+                    className
+                )}
+            >
+                <Bookmark className={cn('w-4 h-4', saved && 'fill-current')} /> {saved ? 'Saved' : 'Save'} ({count})
+            </button>
+        );
+    }
+
+    return (
+        <button
+            type="button"
+            onClick={handleClick}
+            aria-pressed={saved}
+            aria-label={saved ? 'Remove from saved' : 'Save'}
+            title={`${count} saves`}
+            className={cn('relative z-10', className, saved && 'text-[var(--primary)]')}
+        >
+            <Bookmark className={cn('w-4 h-4', saved && 'fill-current')} />
+        </button>
+    );
+}
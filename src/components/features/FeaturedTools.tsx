@@ -1,8 +1,8 @@
-import { getTools } from '@/lib/services/tools.service';
+import { queryTools } from '@/lib/services/tools.service';
 import { ToolGrid } from './ToolGrid';
 
 export async function FeaturedTools() {
-    const tools = await getTools({ limit: 12 });
+    const page = await queryTools({}, { limit: 12 });
 
-    return <ToolGrid initialTools={tools} />;
+    return <ToolGrid initialPage={page} />;
 }
@@ -4,7 +4,7 @@ import { useState, useEffect, useRef } from 'react';
 import { Search as SearchIcon, X, Loader2 } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 import { searchToolsAction } from '@/app/actions';
-import { Tool } from '@/lib/types/tool';
+import { ToolSearchResult, SEARCH_HIGHLIGHT } from '@/lib/types/tool';
 import { cn } from '@/lib/utils';
 import Image from 'next/image';
 
@@ -13,9 +13,27 @@ interface SearchBarProps {
     variant?: 'hero' | 'header';
 }
 
+/**
+ * Renders a search snippet, turning SEARCH_HIGHLIGHT markers into <mark> elements
+ * without injecting HTML from the database.
+ */
+function HighlightedSnippet({ snippet }: { snippet: string }) {
+    const parts = snippet.split(new RegExp(`${SEARCH_HIGHLIGHT.start}(.*?)${SEARCH_HIGHLIGHT.stop}`, 'g'));
+
+    return (
+        <>
+            {parts.map((part, index) =>
+                index % 2 === 1
+                    ? <mark key={index} className="bg-yellow-100 text-inherit rounded-sm">{part}</mark>
+                    : part
+            )}
+        </>
+    );
+}
+
 export function SearchBar({ className, variant = 'header' }: SearchBarProps) {
     const [query, setQuery] = useState('');
-    const [results, setResults] = useState<Tool[]>([]);
+    const [results, setResults] = useState<ToolSearchResult[]>([]);
     const [isOpen, setIsOpen] = useState(false);
     const [loading, setLoading] = useState(false);
     const wrapperRef = useRef<HTMLDivElement>(null);
@@ -53,7 +71,12 @@ export function SearchBar({ className, variant = 'header' }: SearchBarProps) {
         return () => document.removeEventListener('mousedown', handleClickOutside);
     }, []);
 
-    const handleSelect = (tool: Tool) => {
+    // Every hit matched only by name similarity: the query is probably a typo
+    const suggestion = results.length > 0 && results.every(result => result.isFuzzyMatch)
+        ? results[0].name
+        : null;
+
+    const handleSelect = (tool: ToolSearchResult) => {
         router.push(`/tool/${tool.slug}`);
         setIsOpen(false);
         setQuery('');
@@ -95,6 +118,19 @@ export function SearchBar({ className, variant = 'header' }: SearchBarProps) {
             {isOpen && results.length > 0 && (
                 <div className="absolute top-full left-0 right-0 mt-2 bg-white rounded-[var(--radius)] shadow-xl border border-[var(--border)] overflow-hidden z-50">
                     <div className="py-2">
+                        {suggestion && (
+                            <div className="px-4 py-2 text-sm text-gray-600">
+                                Did you mean{' '}
+                                <button
+                                    type="button"
+                                    onClick={() => setQuery(suggestion)}
+                                    className="font-semibold text-[var(--primary)] hover:underline"
+                                >
+                                    {suggestion}
+                                </button>
+                                ?
+                            </div>
+                        )}
                         <div className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase tracking-wider">
                             Tools
                         </div>
@@ -114,8 +150,8 @@ export function SearchBar({ className, variant = 'header' }: SearchBarProps) {
                                     <div className="font-medium text-gray-900 truncate">{tool.name}</div>
                                     <div className="text-xs text-gray-500 truncate">
                                         {tool.categories?.[0] && <span className="text-[var(--primary)]">{tool.categories[0]}</span>}
-                                        {tool.categories?.[0] && tool.shortDescription && ' · '}
-                                        {tool.shortDescription}
+                                        {tool.categories?.[0] && tool.snippet && ' · '}
+                                        <HighlightedSnippet snippet={tool.snippet} />
                                     </div>
                                 </div>
                                 <span className="text-xs text-[var(--primary)] font-medium bg-purple-50 px-2 py-0.5 rounded-full">
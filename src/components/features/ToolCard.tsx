@@ -1,6 +1,8 @@
 import Link from 'next/link';
 import Image from 'next/image';
-import { Share2, Bookmark } from 'lucide-react';
+import { Share2 } from 'lucide-react';
+import { FavoriteButton } from '@/components/features/FavoriteButton';
+import { AddToCollectionButton } from '@/components/features/collections/AddToCollectionButton';
 import { Tool } from '@/lib/types/tool';
 
 interface ToolCardProps {
@@ -24,9 +26,16 @@ export function ToolCard({ tool, priority = false }: ToolCardProps) {
                     <button type="button" className="p-2 bg-white/90 rounded-full hover:text-[var(--primary)] shadow-sm" aria-label="Share">
                         <Share2 className="w-4 h-4" />
                     </button>
-                    <button type="button" className="p-2 bg-white/90 rounded-full hover:text-[var(--primary)] shadow-sm" aria-label="Save">
-                        <Bookmark className="w-4 h-4" />
-                    </button>
+                    <AddToCollectionButton
+                        toolId={tool.id}
+                        toolName={tool.name}
+                        className="p-2 bg-white/90 rounded-full hover:text-[var(--primary)] shadow-sm"
+                    />
+                    <FavoriteButton
+                        toolId={tool.id}
+                        savedCount={tool.savedCount}
+                        className="p-2 bg-white/90 rounded-full hover:text-[var(--primary)] shadow-sm"
+                    />
                 </div>
                 {tool.pricing === 'Free' && (
                     <div className="absolute top-3 left-3 bg-green-500 text-white text-xs font-bold px-2 py-1 rounded-[var(--radius-sm)]">
@@ -1,65 +1,54 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Tool } from '@/lib/types/tool';
+import { Tool, ToolPage, ToolQuery } from '@/lib/types/tool';
 import { ToolCard } from './ToolCard';
 import { ToolCardSkeleton } from './ToolCardSkeleton';
 import { filterToolsAction } from '@/app/actions';
 import { Loader2, AlertCircle } from 'lucide-react';
 
 interface ToolGridProps {
-    initialTools: Tool[]; // SSR Hydration Data
-    category?: string;
+    initialPage: ToolPage; // SSR Hydration Data
+    query?: ToolQuery; // Must match the query that produced initialPage
 }
 
-export function ToolGrid({ initialTools, category }: ToolGridProps) {
-    const [tools, setTools] = useState<Tool[]>(initialTools);
-    const [page, setPage] = useState(1);
+export function ToolGrid({ initialPage, query = {} }: ToolGridProps) {
+    const [tools, setTools] = useState<Tool[]>(initialPage.items);
+    const [cursor, setCursor] = useState<string | null>(initialPage.nextCursor);
     const [loading, setLoading] = useState(false);
-    const [hasMore, setHasMore] = useState(true);
     const [error, setError] = useState<string | null>(null);
 
     // Senior Dev Fix: State Sync
     // If props change (filtering from parent), reset the list.
     useEffect(() => {
-        setTools(initialTools);
-        setPage(1);
-        setHasMore(true);
+        setTools(initialPage.items);
+        setCursor(initialPage.nextCursor);
         setError(null);
-    }, [initialTools, category]);
+    }, [initialPage]);
+
+    // The server reports whether more rows exist; no guessing from page sizes.
+    const hasMore = cursor !== null;
 
     const loadMore = async () => {
-        if (loading) return;
+        if (loading || cursor === null) return;
 
         setLoading(true);
         setError(null);
 
         // Analytics Stub
-        console.log('[Analytics] Load More Clicked', { category, page: page + 1 });
-
-        const nextPage = page + 1;
+        console.log('[Analytics] Load More Clicked', { query, loaded: tools.length });
 
         try {
-            const newTools = await filterToolsAction(category, nextPage);
-
-            if (newTools.length === 0) {
-                setHasMore(false);
-            } else {
-                // Robust Deduplication: Prevent ID collisions
-                setTools(prev => {
-                    const uniqueNewTools = newTools.filter(
-                        nt => !prev.some(existing => existing.id === nt.id)
-                    );
-
-                    if (uniqueNewTools.length === 0) {
-                        setHasMore(false);
-                        return prev;
-                    }
-
-                    return [...prev, ...uniqueNewTools];
-                });
-                setPage(nextPage);
-            }
+            const nextPage = await filterToolsAction(query, cursor);
+
+            // Robust Deduplication: Prevent ID collisions
+            setTools(prev => {
+                const uniqueNewTools = nextPage.items.filter(
+                    nt => !prev.some(existing => existing.id === nt.id)
+                );
+                return [...prev, ...uniqueNewTools];
+            });
+            setCursor(nextPage.nextCursor);
         } catch (e) {
             console.error("Failed to load more tools", e);
             setError("Failed to load more tools. Please check your connection.");
@@ -0,0 +1,200 @@
+'use client';
+
+import { useRef, useState, useTransition } from 'react';
+import { createPortal } from 'react-dom';
+import Link from 'next/link';
+import { usePathname, useRouter } from 'next/navigation';
+import { FolderPlus, Loader2 } from 'lucide-react';
+import {
+    addToCollectionAction,
+    createCollectionAction,
+    listCollectionChoicesAction,
+    removeFromCollectionAction,
+    type CollectionActionState,
+} from '@/app/actions';
+import { useAuth } from '@/components/providers/AuthProviderContext';
+import { useClickOutside } from '@/hooks/useClickOutside';
+import { COLLECTION_VISIBILITY_LABELS, type CollectionChoice } from '@/lib/types/collection';
+import { cn } from '@/lib/utils';
+
+interface AddToCollectionButtonProps {
+    toolId: string;
+    toolName: string;
+    /** "icon" for the round overlay on tool cards, "button" for the labelled tool page button */
+    variant?: 'icon' | 'button';
+    className?: string;
+}
+
+/**
+ * Adds a tool to the signed-in user's collections from a menu of their
+ * collections, or to a new private one. Ticks apply at once and roll back
+ * if the action fails. Signed-out visitors are sent to log in.
+ */
+export function AddToCollectionButton({ toolId, toolName, variant = 'icon', className }: AddToCollectionButtonProps) {
+    const { user } = useAuth();
+    const router = useRouter();
+    const pathname = usePathname();
+    const dialogRef = useRef<HTMLDivElement>(null);
+    const [isPending, startTransition] = useTransition();
+    const [open, setOpen] = useState(false);
+    const [choices, setChoices] = useState<CollectionChoice[] | null>(null);
+    const [newName, setNewName] = useState('');
+    const [result, setResult] = useState<CollectionActionState | null>(null);
+
+    useClickOutside(dialogRef, () => setOpen(false), open);
+
+    const applyResult = (next: CollectionActionState) => {
+        setResult(next);
+        if (next.signInRequired) {
+            router.push(`/login?callbackUrl=${encodeURIComponent(pathname)}`);
+        }
+        return !next.error;
+    };
+
+    const handleOpen = (event: React.MouseEvent) => {
+        // Cards wrap the whole surface in a link; keep the click on the button
+        event.preventDefault();
+        event.stopPropagation();
+        if (!user) {
+            router.push(`/login?callbackUrl=${encodeURIComponent(pathname)}`);
+            return;
+        }
+        setOpen(true);
+        setResult(null);
+        startTransition(async () => {
+            const next = await listCollectionChoicesAction(toolId);
+            if (applyResult(next)) {
+                setChoices(next.choices ?? []);
+            }
+        });
+    };
+
+    const toggle = (choice: CollectionChoice) => {
+        const hasTool = !choice.hasTool;
+        const update = (value: boolean, delta: number) =>
+            setChoices(current => current?.map(item => (
+                item.id === choice.id ? { ...item, hasTool: value, itemCount: item.itemCount + delta } : item
+            )) ?? null);
+
+        update(hasTool, hasTool ? 1 : -1);
+        startTransition(async () => {
+            const next = hasTool
+                ? await addToCollectionAction(choice.id, toolId)
+                : await removeFromCollectionAction(choice.id, toolId);
+            if (!applyResult(next)) {
+                update(!hasTool, hasTool ? -1 : 1);
+            }
+        });
+    };
+
+    const create = (event: React.FormEvent) => {
+        event.preventDefault();
+        startTransition(async () => {
+            const next = await createCollectionAction({ name: newName, description: '', visibility: 'private' }, toolId);
+            const collection = next.collection;
+            if (applyResult(next) && collection) {
+                setNewName('');
+                setChoices(current => [
+                    { id: collection.id, name: collection.name, visibility: collection.visibility, itemCount: collection.itemCount, hasTool: true },
+                    ...(current ?? []),
+                ]);
+            }
+        });
+    };
+
+    return (
+        <>
+            {variant === 'button' ? (
+                <button
+                    type="button"
+                    onClick={handleOpen}
+                    aria-expanded={open}
+                    aria-haspopup="dialog"
+                    className={cn(
+                        'flex items-center gap-2 px-4 py-2 bg-white border border-[var(--border)] rounded-[var(--radius-sm)] shadow-sm hover:bg-gray-50 font-medium text-sm text-gray-700',
+                        className
+                    )}
+                >
+                    <FolderPlus className="w-4 h-4" /> Add to collection
+                </button>
+            ) : (
+                <button
+                    type="button"
+                    onClick={handleOpen}
+                    aria-expanded={open}
+                    aria-haspopup="dialog"
+                    aria-label="Add to collection"
+                    title="Add to collection"
+                    className={cn('relative z-10', className)}
+                >
+                    <FolderPlus className="w-4 h-4" />
+                </button>
+            )}
+
+            {/* Portalled: tool cards clip their overflow */}
+            {open && createPortal(
+                <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 p-4">
+                    <div
+                        ref={dialogRef}
+                        role="dialog"
+                        aria-modal="true"
+                        aria-label={`Add ${toolName} to a collection`}
+                        onClick={event => event.stopPropagation()}
+                        className="w-full max-w-sm rounded-lg border border-[var(--border)] bg-white p-4 text-left text-sm shadow-lg"
+                    >
+                        <p className="mb-2 font-semibold text-gray-900">Add {toolName} to a collection</p>
+
+                        {choices === null ? (
+                            <p className="flex items-center gap-2 text-gray-500"><Loader2 className="w-4 h-4 animate-spin" /> Loading...</p>
+                        ) : choices.length === 0 ? (
+                            <p className="text-gray-500">You have no collections yet.</p>
+                        ) : (
+                            <ul className="max-h-56 space-y-1 overflow-y-auto">
+                                {choices.map(choice => (
+                                    <li key={choice.id}>
+                                        <label className="flex items-center gap-2 rounded px-1 py-1 hover:bg-gray-50">
+                                            <input type="checkbox" checked={choice.hasTool} onChange={() => toggle(choice)} disabled={isPending} />
+                                            <span className="flex-1 truncate text-gray-700">{choice.name}</span>
+                                            <span className="text-xs text-gray-400">{COLLECTION_VISIBILITY_LABELS[choice.visibility]} · {choice.itemCount}</span>
+                                        </label>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+
+                        <form onSubmit={create} className="mt-3 flex gap-2 border-t border-[var(--border)] pt-3">
+                            <input
+                                type="text"
+                                value={newName}
+                                onChange={event => setNewName(event.target.value)}
+                                maxLength={80}
+                                placeholder="New collection"
+                                aria-label="New collection name"
+                                className="min-w-0 flex-1 rounded-md border border-gray-300 px-2 py-1 text-sm focus:ring-2 focus:ring-[var(--primary)] focus:border-transparent outline-none"
+                            />
+                            <button
+                                type="submit"
+                                disabled={isPending || !newName.trim()}
+                                className="rounded-md bg-[var(--primary)] px-3 py-1 text-sm font-medium text-white hover:opacity-90 disabled:opacity-60"
+                            >
+                                Create
+                            </button>
+                        </form>
+
+                        {result?.error && <p className="mt-2 text-xs text-red-600">{result.message}: {result.error}</p>}
+
+                        <div className="mt-3 flex items-center justify-between text-xs">
+                            <Link href="/collections" className="text-[var(--primary)] hover:underline">
+                                Manage collections
+                            </Link>
+                            <button type="button" onClick={() => setOpen(false)} className="text-gray-500 hover:text-gray-900">
+                                Done
+                            </button>
+                        </div>
+                    </div>
+                </div>,
+                document.body
+            )}
+        </>
+    );
+}
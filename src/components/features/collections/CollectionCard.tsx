@@ -0,0 +1,41 @@
+import Link from 'next/link';
+import { Globe, Link2, Lock } from 'lucide-react';
+import { COLLECTION_VISIBILITY_LABELS, type Collection, type CollectionVisibility } from '@/lib/types/collection';
+
+const VISIBILITY_ICONS: Record<CollectionVisibility, typeof Globe> = {
+    public: Globe,
+    unlisted: Link2,
+    private: Lock,
+};
+
+interface CollectionCardProps {
+    collection: Collection;
+    /** Show the visibility badge; only useful to the owner */
+    showVisibility?: boolean;
+}
+
+export function CollectionCard({ collection, showVisibility = false }: CollectionCardProps) {
+    const VisibilityIcon = VISIBILITY_ICONS[collection.visibility];
+
+    return (
+        <article className="relative flex h-full flex-col rounded-[var(--radius)] border border-[var(--border)] bg-white p-5 hover:shadow-md transition-shadow">
+            <h3 className="font-semibold text-gray-900 line-clamp-1">
+                <Link href={`/collections/${collection.id}`} className="before:absolute before:inset-0 hover:text-[var(--primary)]">
+                    {collection.name}
+                </Link>
+            </h3>
+            {collection.description && (
+                <p className="mt-1 text-sm text-[var(--muted-foreground)] line-clamp-2">{collection.description}</p>
+            )}
+            <div className="mt-auto flex items-center gap-3 pt-4 text-xs text-gray-500">
+                <span>{collection.itemCount} {collection.itemCount === 1 ? 'tool' : 'tools'}</span>
+                {showVisibility && (
+                    <span className="flex items-center gap-1">
+                        <VisibilityIcon className="w-3.5 h-3.5" />
+                        {COLLECTION_VISIBILITY_LABELS[collection.visibility]}
+                    </span>
+                )}
+            </div>
+        </article>
+    );
+}
@@ -0,0 +1,188 @@
+'use client';
+
+import { useOptimistic, useState, useTransition } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { usePathname, useRouter } from 'next/navigation';
+import { X } from 'lucide-react';
+import { SortableList } from '@/components/admin/SortableList';
+import { CollectionForm } from './CollectionForm';
+import {
+    removeFromCollectionAction,
+    reorderCollectionItemsAction,
+    updateCollectionNoteAction,
+    type CollectionActionState,
+} from '@/app/actions';
+import type { CollectionItem, CollectionWithItems } from '@/lib/types/collection';
+
+interface CollectionEditorProps {
+    collection: CollectionWithItems;
+}
+
+interface NoteEditorProps {
+    item: CollectionItem;
+    onSave: (note: string) => void;
+}
+
+function NoteEditor({ item, onSave }: NoteEditorProps) {
+    const [editing, setEditing] = useState(false);
+    const [note, setNote] = useState(item.note ?? '');
+
+    if (!editing) {
+        return (
+            <div className="mt-1 text-sm">
+                {item.note && <p className="text-gray-700 whitespace-pre-line">{item.note}</p>}
+                <button
+                    type="button"
+                    onClick={() => setEditing(true)}
+                    className="text-[var(--primary)] hover:underline"
+                >
+                    {item.note ? 'Edit note' : 'Add a note'}
+                </button>
+            </div>
+        );
+    }
+
+    return (
+        <form
+            onSubmit={event => {
+                event.preventDefault();
+                onSave(note.trim());
+                setEditing(false);
+            }}
+            className="mt-2 space-y-2"
+        >
+            <textarea
+                value={note}
+                onChange={event => setNote(event.target.value)}
+                rows={2}
+                maxLength={500}
+                aria-label={`Note on ${item.tool.name}`}
+                placeholder="Why is this tool in the collection?"
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:ring-2 focus:ring-[var(--primary)] focus:border-transparent outline-none"
+            />
+            <div className="flex gap-2 text-sm">
+                <button type="submit" className="px-3 py-1 bg-[var(--primary)] text-white rounded-[var(--radius-sm)] font-medium hover:opacity-90">
+                    Save note
+                </button>
+                <button
+                    type="button"
+                    onClick={() => {
+                        setNote(item.note ?? '');
+                        setEditing(false);
+                    }}
+                    className="px-3 py-1 text-gray-600 hover:text-gray-900"
+                >
+                    Cancel
+                </button>
+            </div>
+        </form>
+    );
+}
+
+/**
+ * Owner's view of a collection: edit its details, reorder its tools by
+ * dragging, write a note on each and remove them. Changes show at once and
+ * are replaced by the saved collection when the action returns.
+ */
+export function CollectionEditor({ collection }: CollectionEditorProps) {
+    const router = useRouter();
+    const pathname = usePathname();
+    const [items, setItems] = useState(collection.items);
+    const [optimisticItems, setOptimisticItems] = useOptimistic(items, (_current, next: CollectionItem[]) => next);
+    const [, startTransition] = useTransition();
+    const [editingDetails, setEditingDetails] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const commit = (next: CollectionItem[], action: () => Promise<CollectionActionState>) => {
+        setError(null);
+        startTransition(async () => {
+            setOptimisticItems(next);
+
+            const result = await action();
+            if (result.signInRequired) {
+                router.push(`/login?callbackUrl=${encodeURIComponent(pathname)}`);
+            } else if (result.error) {
+                setError(`${result.message}: ${result.error}`);
+            } else if (result.collection && 'items' in result.collection) {
+                setItems(result.collection.items);
+            } else {
+                setItems(next);
+            }
+        });
+    };
+
+    const handleReorder = (next: CollectionItem[]) => {
+        commit(next, () => reorderCollectionItemsAction(collection.id, next.map(item => item.id)));
+    };
+
+    const handleRemove = (item: CollectionItem) => {
+        commit(
+            optimisticItems.filter(entry => entry.id !== item.id),
+            () => removeFromCollectionAction(collection.id, item.tool.id)
+        );
+    };
+
+    const handleNote = (item: CollectionItem, note: string) => {
+        commit(
+            optimisticItems.map(entry => (entry.id === item.id ? { ...entry, note: note || null } : entry)),
+            () => updateCollectionNoteAction(collection.id, item.id, note)
+        );
+    };
+
+    return (
+        <div className="space-y-6">
+            {editingDetails ? (
+                <CollectionForm collection={collection} onClose={() => setEditingDetails(false)} />
+            ) : (
+                <button
+                    type="button"
+                    onClick={() => setEditingDetails(true)}
+                    className="px-4 py-2 bg-white border border-[var(--border)] rounded-[var(--radius-sm)] shadow-sm hover:bg-gray-50 font-medium text-sm text-gray-700"
+                >
+                    Edit details
+                </button>
+            )}
+
+            {error && (
+                <p role="alert" className="text-sm text-red-600">{error}</p>
+            )}
+
+            {optimisticItems.length === 0 ? (
+                <p className="rounded-lg border border-dashed border-[var(--border)] bg-white p-8 text-center text-gray-500">
+                    No tools yet. Use the collection button on any tool to add it here.
+                </p>
+            ) : (
+                <div className="rounded-lg border border-[var(--border)] bg-white px-4">
+                    <SortableList
+                        items={optimisticItems}
+                        label="Collection order"
+                        onReorder={handleReorder}
+                        renderItem={item => (
+                            <div className="flex items-start gap-3 py-1">
+                                <div className="relative w-10 h-10 shrink-0 overflow-hidden rounded-md border border-[var(--border)] bg-gray-50">
+                                    <Image src={item.tool.image} alt="" fill className="object-cover" sizes="40px" />
+                                </div>
+                                <div className="flex-1 min-w-0">
+                                    <Link href={`/tool/${item.tool.slug}`} className="font-medium text-gray-900 hover:text-[var(--primary)]">
+                                        {item.tool.name}
+                                    </Link>
+                                    <p className="text-xs text-gray-500 line-clamp-1">{item.tool.shortDescription}</p>
+                                    <NoteEditor key={item.note ?? ''} item={item} onSave={note => handleNote(item, note)} />
+                                </div>
+                                <button
+                                    type="button"
+                                    onClick={() => handleRemove(item)}
+                                    className="mt-1 text-gray-400 hover:text-red-600 transition-colors"
+                                    aria-label={`Remove ${item.tool.name} from the collection`}
+                                >
+                                    <X className="w-4 h-4" />
+                                </button>
+                            </div>
+                        )}
+                    />
+                </div>
+            )}
+        </div>
+    );
+}
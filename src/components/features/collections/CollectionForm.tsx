@@ -0,0 +1,167 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+    createCollectionAction,
+    deleteCollectionAction,
+    updateCollectionAction,
+    type CollectionActionState,
+} from '@/app/actions';
+import {
+    COLLECTION_VISIBILITIES,
+    COLLECTION_VISIBILITY_DESCRIPTIONS,
+    COLLECTION_VISIBILITY_LABELS,
+    CollectionInputSchema,
+    type Collection,
+    type CollectionInput,
+    type CollectionValues,
+} from '@/lib/types/collection';
+
+const FIELD_CLASS = 'w-full rounded-lg border border-gray-300 px-4 py-2 focus:ring-2 focus:ring-[var(--primary)] focus:border-transparent outline-none transition-all';
+
+interface CollectionFormProps {
+    /** The collection being edited; omit to create a new one */
+    collection?: Collection;
+    /** Closes the edit form after a save or on cancel */
+    onClose?: () => void;
+}
+
+function FieldError({ message }: { message?: string }) {
+    return message ? <p className="text-sm text-red-500 mt-1">{message}</p> : null;
+}
+
+/**
+ * Creates a collection, or edits the name, description and visibility of
+ * an existing one. A new collection opens on its own page once created.
+ */
+export function CollectionForm({ collection, onClose }: CollectionFormProps) {
+    const router = useRouter();
+    const pathname = usePathname();
+    const [isPending, startTransition] = useTransition();
+    const [result, setResult] = useState<CollectionActionState | null>(null);
+
+    const {
+        register,
+        handleSubmit,
+        getValues,
+        formState: { errors },
+    } = useForm<CollectionInput, unknown, CollectionValues>({
+        resolver: zodResolver(CollectionInputSchema),
+        defaultValues: {
+            name: collection?.name ?? '',
+            description: collection?.description ?? '',
+            visibility: collection?.visibility ?? 'private',
+        },
+    });
+
+    const applyResult = (next: CollectionActionState) => {
+        setResult(next);
+        if (next.signInRequired) {
+            router.push(`/login?callbackUrl=${encodeURIComponent(pathname)}`);
+            return false;
+        }
+        return !next.error;
+    };
+
+    const onSubmit = () => {
+        startTransition(async () => {
+            if (collection) {
+                if (applyResult(await updateCollectionAction(collection.id, getValues()))) {
+                    router.refresh();
+                    onClose?.();
+                }
+                return;
+            }
+
+            const next = await createCollectionAction(getValues());
+            if (applyResult(next) && next.collection) {
+                router.push(`/collections/${next.collection.id}`);
+            }
+        });
+    };
+
+    const onDelete = () => {
+        if (!collection || !confirm(`Delete "${collection.name}"? This cannot be undone.`)) {
+            return;
+        }
+        startTransition(async () => {
+            if (applyResult(await deleteCollectionAction(collection.id))) {
+                router.push('/collections');
+            }
+        });
+    };
+
+    const idPrefix = collection ? `collection-${collection.id}` : 'collection-new';
+
+    return (
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4 rounded-lg border border-[var(--border)] bg-white p-6">
+            <h2 className="font-semibold text-gray-900">{collection ? 'Edit collection' : 'New collection'}</h2>
+
+            <div>
+                <label htmlFor={`${idPrefix}-name`} className="block text-sm font-medium text-gray-700 mb-1">Name <span className="text-red-500">*</span></label>
+                <input id={`${idPrefix}-name`} type="text" maxLength={80} className={FIELD_CLASS} placeholder="e.g. Video pipeline" {...register('name')} />
+                <FieldError message={errors.name?.message} />
+            </div>
+
+            <div>
+                <label htmlFor={`${idPrefix}-description`} className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                <textarea id={`${idPrefix}-description`} rows={3} maxLength={500} className={FIELD_CLASS} placeholder="What is this collection for?" {...register('description')} />
+                <FieldError message={errors.description?.message} />
+            </div>
+
+            <fieldset>
+                <legend className="block text-sm font-medium text-gray-700 mb-1">Visibility</legend>
+                <div className="space-y-2">
+                    {COLLECTION_VISIBILITIES.map(visibility => (
+                        <label key={visibility} className="flex items-start gap-2 text-sm">
+                            <input type="radio" value={visibility} className="mt-1" {...register('visibility')} />
+                            <span>
+                                <span className="font-medium text-gray-900">{COLLECTION_VISIBILITY_LABELS[visibility]}</span>
+                                <span className="block text-gray-500">{COLLECTION_VISIBILITY_DESCRIPTIONS[visibility]}</span>
+                            </span>
+                        </label>
+                    ))}
+                </div>
+                <FieldError message={errors.visibility?.message} />
+            </fieldset>
+
+            {result?.error && (
+                <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+                    {result.message}: {result.error}
+                </div>
+            )}
+
+            <div className="flex flex-wrap items-center gap-3">
+                <button
+                    type="submit"
+                    disabled={isPending}
+                    className="px-4 py-2 bg-[var(--primary)] text-white rounded-[var(--radius-sm)] font-medium text-sm hover:opacity-90 transition-opacity disabled:opacity-60"
+                >
+                    {isPending ? 'Saving...' : collection ? 'Save changes' : 'Create collection'}
+                </button>
+                {collection && onClose && (
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900"
+                    >
+                        Cancel
+                    </button>
+                )}
+                {collection && (
+                    <button
+                        type="button"
+                        onClick={onDelete}
+                        disabled={isPending}
+                        className="ml-auto px-4 py-2 text-sm text-red-600 hover:text-red-700"
+                    >
+                        Delete collection
+                    </button>
+                )}
+            </div>
+        </form>
+    );
+}
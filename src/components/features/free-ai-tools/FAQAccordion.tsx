@@ -2,14 +2,16 @@
 
 import React, { useState, useCallback, useId } from 'react';
 import { cn } from '@/lib/utils';
-import type { FAQItem } from '@/lib/types/free-ai-tools';
+import { renderMarkdown } from '@/lib/utils/markdown';
+import { buildFaqPageJsonLd, serializeJsonLd } from '@/lib/utils/faq';
+import type { FAQ } from '@/lib/types/faq';
 
 /**
  * Props for FAQAccordion component
  */
 interface FAQAccordionProps {
-  /** Array of FAQ items to display */
-  items: FAQItem[];
+  /** FAQs to display, in order */
+  items: FAQ[];
   /** Additional CSS classes */
   className?: string;
 }
@@ -19,7 +21,7 @@ interface FAQAccordionProps {
  */
 interface AccordionItemProps {
   /** FAQ item data */
-  item: FAQItem;
+  item: FAQ;
   /** Whether this item is currently expanded */
   isExpanded: boolean;
   /** Callback when item is toggled */
@@ -107,9 +109,11 @@ function AccordionItem({ item, isExpanded, onToggle, itemId }: AccordionItemProp
           opacity: isExpanded ? 1 : 0,
         }}
       >
-        <div className="px-4 pb-4 text-[var(--muted-foreground)] text-sm leading-relaxed">
-          {item.answer}
-        </div>
+        {/* Markdown answer; renderMarkdown escapes everything it does not render */}
+        <div
+          className="px-4 pb-4 text-[var(--muted-foreground)] text-sm leading-relaxed space-y-2 [&_a]:text-[var(--primary)] [&_a]:underline [&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-5 [&_ol]:pl-5"
+          dangerouslySetInnerHTML={{ __html: renderMarkdown(item.answer) }}
+        />
       </div>
     </div>
   );
@@ -125,6 +129,7 @@ function AccordionItem({ item, isExpanded, onToggle, itemId }: AccordionItemProp
  * - 300ms ease-in-out animation for expand/collapse (Requirement 10.6)
  * - ARIA expanded/collapsed states (Requirement 16.3)
  * - Keyboard navigation with Enter/Space to toggle (Requirement 16.3)
+ * - Markdown answers and FAQPage JSON-LD for search engines
  * 
  * @param items - Array of FAQ items to display
  * @param className - Additional CSS classes
@@ -160,13 +165,17 @@ export function FAQAccordion({ items, className }: FAQAccordionProps) {
     >
       {items.map((item, index) => (
         <AccordionItem
-          key={`${baseId}-${index}`}
+          key={item.id}
           item={item}
           isExpanded={expandedIndex === index}
           onToggle={() => handleToggle(index)}
           itemId={`${baseId}-${index}`}
         />
       ))}
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: serializeJsonLd(buildFaqPageJsonLd(items)) }}
+      />
     </div>
   );
 }
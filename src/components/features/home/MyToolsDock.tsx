@@ -0,0 +1,378 @@
+'use client';
+
+import { useEffect, useMemo, useOptimistic, useState, useSyncExternalStore, useTransition, type FormEvent } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { Plus, X } from 'lucide-react';
+import { MyToolsSection } from './MyToolsSection';
+import { MyToolsSkeleton } from './HomePageSkeleton';
+import { SortableList } from '@/components/admin/SortableList';
+import { useAuth } from '@/components/providers/AuthProviderContext';
+import {
+    listPinnedToolsAction,
+    mergePinnedToolsAction,
+    pinToolAction,
+    reorderPinnedToolsAction,
+    searchToolsAction,
+    unpinToolAction,
+    type PinnedToolsActionState,
+} from '@/app/actions';
+import {
+    DEFAULT_PIN_COLOR,
+    MAX_PINNED_TOOLS,
+    MY_TOOLS_STORAGE_KEY,
+    PinToolInputSchema,
+    getFaviconUrl,
+    parseStoredDock,
+    toToolDockItem,
+} from '@/lib/types/my-tools';
+import type { MyTool } from '@/lib/types/home.types';
+import type { ToolSearchResult } from '@/lib/types/tool';
+
+interface MyToolsDockProps {
+    /** Dock shown to visitors who have not edited theirs */
+    defaults: MyTool[];
+}
+
+// Anonymous docks live in localStorage; listeners re-render every dock on the page when it changes
+const storedDockListeners = new Set<() => void>();
+
+function subscribeToStoredDock(listener: () => void) {
+    storedDockListeners.add(listener);
+    window.addEventListener('storage', listener);
+    return () => {
+        storedDockListeners.delete(listener);
+        window.removeEventListener('storage', listener);
+    };
+}
+
+function readStoredDock(): string | null {
+    return window.localStorage.getItem(MY_TOOLS_STORAGE_KEY);
+}
+
+function writeStoredDock(items: MyTool[] | null) {
+    if (items) {
+        window.localStorage.setItem(MY_TOOLS_STORAGE_KEY, JSON.stringify(items));
+    } else {
+        window.localStorage.removeItem(MY_TOOLS_STORAGE_KEY);
+    }
+    storedDockListeners.forEach(listener => listener());
+}
+
+/**
+ * "My Tools" quick-launch dock. Signed-in users' docks are stored in their
+ * account and edited optimistically; anonymous visitors edit a copy kept in
+ * localStorage, which is merged into their account when they sign in.
+ */
+export function MyToolsDock({ defaults }: MyToolsDockProps) {
+    const { user, loading } = useAuth();
+    const router = useRouter();
+    const pathname = usePathname();
+    const userId = user?.id;
+
+    const storedDock = useSyncExternalStore(subscribeToStoredDock, readStoredDock, () => null);
+    const localDock = useMemo(() => parseStoredDock(storedDock) ?? defaults, [storedDock, defaults]);
+
+    // The account dock belongs to the user it was loaded for
+    const [loaded, setLoaded] = useState<{ userId: string; tools: MyTool[] } | null>(null);
+    const accountDock = loaded && loaded.userId === userId ? loaded.tools : null;
+    const [optimisticDock, setOptimisticDock] = useOptimistic(accountDock, (_current, next: MyTool[]) => next);
+    const [, startTransition] = useTransition();
+    const [editing, setEditing] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Load the account dock when a user signs in, merging the dock they kept while signed out
+    useEffect(() => {
+        if (!userId) {
+            return;
+        }
+
+        let cancelled = false;
+        const local = parseStoredDock(readStoredDock());
+        const request = local ? mergePinnedToolsAction(local) : listPinnedToolsAction();
+        request.then(result => {
+            if (cancelled) {
+                return;
+            }
+            if (result.tools) {
+                setLoaded({ userId, tools: result.tools });
+                if (local) {
+                    writeStoredDock(null);
+                }
+            } else if (result.error) {
+                setError(`${result.message}: ${result.error}`);
+            }
+        });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [userId]);
+
+    if (loading || (userId && !optimisticDock)) {
+        return <MyToolsSkeleton />;
+    }
+
+    const dock = userId ? optimisticDock ?? [] : localDock;
+
+    const commit = (next: MyTool[], action: () => Promise<PinnedToolsActionState>) => {
+        setError(null);
+        if (!userId) {
+            writeStoredDock(next);
+            return;
+        }
+
+        startTransition(async () => {
+            setOptimisticDock(next);
+
+            const result = await action();
+            if (result.tools) {
+                setLoaded({ userId, tools: result.tools });
+            } else if (result.signInRequired) {
+                router.push(`/login?callbackUrl=${encodeURIComponent(pathname)}`);
+            } else if (result.error) {
+                setError(`${result.message}: ${result.error}`);
+            }
+        });
+    };
+
+    const handlePinTool = (tool: ToolSearchResult) => {
+        commit([...dock, toToolDockItem(tool)], () => pinToolAction({ kind: 'tool', toolId: tool.id }));
+    };
+
+    const handlePinLink = (item: MyTool) => {
+        const { name, url, icon, color } = item;
+        commit([...dock, item], () => pinToolAction({ kind: 'link', name, url, icon, color }));
+    };
+
+    const handleUnpin = (id: string) => {
+        commit(dock.filter(item => item.id !== id), () => unpinToolAction(id));
+    };
+
+    const handleReorder = (items: MyTool[]) => {
+        commit(items, () => reorderPinnedToolsAction(items.map(item => item.id)));
+    };
+
+    return (
+        <MyToolsSection
+            tools={dock}
+            editable
+            editing={editing}
+            onEditClick={() => setEditing(current => !current)}
+        >
+            {error && (
+                <p role="alert" className="mt-4 text-sm text-red-600">{error}</p>
+            )}
+            {editing && (
+                <div className="mt-4 border-t border-gray-100 pt-4 space-y-6">
+                    {!userId && (
+                        <p className="text-xs text-gray-500">
+                            Your changes are saved in this browser. Sign in to keep My Tools on every device.
+                        </p>
+                    )}
+
+                    {dock.length > 0 && (
+                        <SortableList
+                            items={dock}
+                            label="My Tools order"
+                            onReorder={handleReorder}
+                            renderItem={item => (
+                                <div className="flex items-center justify-between gap-2 py-1">
+                                    <span className="flex items-center gap-2 min-w-0">
+                                        <span
+                                            className="w-3 h-3 rounded-full shrink-0"
+                                            style={{ backgroundColor: item.color }}
+                                            aria-hidden="true"
+                                        />
+                                        <span className="text-sm text-gray-700 truncate">{item.name}</span>
+                                    </span>
+                                    <button
+                                        type="button"
+                                        onClick={() => handleUnpin(item.id)}
+                                        className="text-gray-400 hover:text-red-600 transition-colors"
+                                        aria-label={`Remove ${item.name} from My Tools`}
+                                    >
+                                        <X className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            )}
+                        />
+                    )}
+
+                    {dock.length >= MAX_PINNED_TOOLS ? (
+                        <p className="text-sm text-gray-500">
+                            My Tools is full. Remove an item to add another.
+                        </p>
+                    ) : (
+                        <>
+                            <ToolPicker pinned={dock} onPick={handlePinTool} />
+                            <CustomLinkForm onAdd={handlePinLink} />
+                        </>
+                    )}
+                </div>
+            )}
+        </MyToolsSection>
+    );
+}
+
+interface ToolPickerProps {
+    pinned: MyTool[];
+    onPick: (tool: ToolSearchResult) => void;
+}
+
+/**
+ * Searches the directory for tools to pin.
+ */
+function ToolPicker({ pinned, onPick }: ToolPickerProps) {
+    const [query, setQuery] = useState('');
+    const [found, setFound] = useState<{ query: string; results: ToolSearchResult[] }>({ query: '', results: [] });
+    const trimmed = query.trim();
+
+    useEffect(() => {
+        if (!trimmed) {
+            return;
+        }
+
+        let cancelled = false;
+        const timer = setTimeout(() => {
+            searchToolsAction(trimmed).then(results => {
+                if (!cancelled) {
+                    setFound({ query: trimmed, results });
+                }
+            });
+        }, 250);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [trimmed]);
+
+    const pinnedToolIds = new Set(pinned.map(item => item.toolId));
+    const results = found.query === trimmed ? found.results : [];
+
+    return (
+        <div>
+            <label htmlFor="my-tools-search" className="block text-sm font-medium text-gray-700 mb-1">
+                Add a tool
+            </label>
+            <input
+                id="my-tools-search"
+                type="search"
+                value={query}
+                onChange={event => setQuery(event.target.value)}
+                placeholder="Search tools"
+                className="w-full rounded-lg border border-gray-200 px-3 py-2 text-sm focus-visible:ring-2 focus-visible:ring-[var(--primary)] focus-visible:outline-none"
+            />
+            {trimmed && results.length > 0 && (
+                <ul className="mt-2 divide-y divide-gray-100 rounded-lg border border-gray-100">
+                    {results.map(tool => (
+                        <li key={tool.id} className="flex items-center justify-between gap-2 px-3 py-2">
+                            <span className="text-sm text-gray-700 truncate">{tool.name}</span>
+                            <button
+                                type="button"
+                                onClick={() => onPick(tool)}
+                                disabled={pinnedToolIds.has(tool.id)}
+                                className="flex items-center gap-1 text-sm text-[var(--primary)] disabled:text-gray-300 disabled:cursor-not-allowed"
+                                aria-label={`Add ${tool.name} to My Tools`}
+                            >
+                                <Plus className="w-4 h-4" />
+                                {pinnedToolIds.has(tool.id) ? 'Added' : 'Add'}
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
+
+/**
+ * Adds a custom link with its own name, icon and colour. The icon defaults
+ * to the site's favicon.
+ */
+function CustomLinkForm({ onAdd }: { onAdd: (item: MyTool) => void }) {
+    const [name, setName] = useState('');
+    const [url, setUrl] = useState('');
+    const [icon, setIcon] = useState('');
+    const [color, setColor] = useState(DEFAULT_PIN_COLOR);
+    const [error, setError] = useState<string | null>(null);
+
+    const suggestedIcon = url.trim()
+        ? getFaviconUrl(url.trim().startsWith('/') ? window.location.origin : url.trim())
+        : null;
+
+    const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+        event.preventDefault();
+
+        const parsed = PinToolInputSchema.safeParse({
+            kind: 'link',
+            name,
+            url,
+            icon: icon.trim() || suggestedIcon || '',
+            color,
+        });
+        if (!parsed.success) {
+            setError(parsed.error.issues.map(issue => issue.message).join(', '));
+            return;
+        }
+        if (parsed.data.kind !== 'link') {
+            return;
+        }
+
+        const { name: linkName, url: linkUrl, icon: linkIcon, color: linkColor } = parsed.data;
+        onAdd({ id: crypto.randomUUID(), name: linkName, url: linkUrl, icon: linkIcon, color: linkColor });
+        setName('');
+        setUrl('');
+        setIcon('');
+        setColor(DEFAULT_PIN_COLOR);
+        setError(null);
+    };
+
+    const inputClassName = 'w-full rounded-lg border border-gray-200 px-3 py-2 text-sm focus-visible:ring-2 focus-visible:ring-[var(--primary)] focus-visible:outline-none';
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-2" aria-label="Add a custom link">
+            <p className="text-sm font-medium text-gray-700">Add a custom link</p>
+            <div className="grid gap-2 sm:grid-cols-2">
+                <input
+                    aria-label="Link name"
+                    value={name}
+                    onChange={event => setName(event.target.value)}
+                    placeholder="Name"
+                    maxLength={40}
+                    className={inputClassName}
+                />
+                <input
+                    aria-label="Link URL"
+                    value={url}
+                    onChange={event => setUrl(event.target.value)}
+                    placeholder="https://example.com"
+                    className={inputClassName}
+                />
+                <input
+                    aria-label="Icon URL"
+                    value={icon}
+                    onChange={event => setIcon(event.target.value)}
+                    placeholder={suggestedIcon ?? 'Icon URL'}
+                    className={inputClassName}
+                />
+                <div className="flex items-center gap-2">
+                    <input
+                        type="color"
+                        aria-label="Colour"
+                        value={color}
+                        onChange={event => setColor(event.target.value)}
+                        className="h-9 w-12 rounded border border-gray-200"
+                    />
+                    <button
+                        type="submit"
+                        className="flex-1 rounded-lg bg-[var(--primary)] px-3 py-2 text-sm font-medium text-white hover:opacity-90 transition-opacity"
+                    >
+                        Add link
+                    </button>
+                </div>
+            </div>
+            {error && <p role="alert" className="text-sm text-red-600">{error}</p>}
+        </form>
+    );
+}
@@ -1,9 +1,9 @@
 'use client';
 
-import { useState, useMemo, useCallback } from 'react';
+import { useState, useMemo, useCallback, type ReactNode } from 'react';
 import Image from 'next/image';
 import Link from 'next/link';
-import { Pencil } from 'lucide-react';
+import { Check, Pencil } from 'lucide-react';
 import { MyTool } from '@/lib/types/home.types';
 import { FALLBACK_ICON_URL } from '@/lib/constants/home.constants';
 
@@ -14,6 +14,10 @@ interface MyToolsSectionProps {
     editable?: boolean;
     /** Callback when edit button is clicked */
     onEditClick?: () => void;
+    /** Whether the editor is open; the button then reads "Done" */
+    editing?: boolean;
+    /** Editor rendered below the icons */
+    children?: ReactNode;
 }
 
 /**
@@ -28,11 +32,15 @@ interface MyToolsSectionProps {
  * - #24: Shared types from home.types.ts
  * - #38: Edit button with proper disabled state
  * - #43: Scroll fade indicator
+ *
+ * Presentational; MyToolsDock supplies the user's tools and the editor.
  */
 export function MyToolsSection({
     tools,
     editable = false,
-    onEditClick
+    onEditClick,
+    editing = false,
+    children
 }: MyToolsSectionProps) {
     // Track failed images for fallback - Issue #1
     const [failedImages, setFailedImages] = useState<Set<string>>(new Set());
@@ -41,56 +49,56 @@ export function MyToolsSection({
         setFailedImages(prev => new Set(prev).add(toolId));
     }, []);
 
-    // Empty state - Issue #36
-    if (!tools || tools.length === 0) {
-        return (
-            <div className="bg-white rounded-2xl border border-gray-100 shadow-sm p-6 mb-6">
-                <h2 className="text-xl font-bold text-gray-900 mb-4">My Tools</h2>
-                <p className="text-gray-500 text-center py-4">
-                    No tools saved yet. Browse and save your favorites!
-                </p>
-            </div>
-        );
-    }
-
-    // Handle edit click - show alert if no callback provided
-    const handleEditClick = () => {
-        if (onEditClick) {
-            onEditClick();
-        } else {
-            alert('Please login to edit your tools');
-        }
-    };
-
     return (
         <div className="bg-white rounded-2xl border border-gray-100 shadow-sm p-6 mb-6">
             {/* Header */}
             <div className="flex items-center justify-between mb-6">
                 <h2 className="text-xl font-bold text-gray-900">My Tools</h2>
-                <button
-                    type="button"
-                    onClick={handleEditClick}
-                    className="flex items-center gap-1.5 text-sm text-gray-500 hover:text-[var(--primary)] transition-colors focus-visible:ring-2 focus-visible:ring-[var(--primary)] focus-visible:ring-offset-2 focus-visible:outline-none rounded-md px-2 py-1"
-                    aria-label="Edit my tools"
-                >
-                    <Pencil className="w-4 h-4" />
-                    Edit
-                </button>
+                {editable ? (
+                    <button
+                        type="button"
+                        onClick={onEditClick}
+                        className="flex items-center gap-1.5 text-sm text-gray-500 hover:text-[var(--primary)] transition-colors focus-visible:ring-2 focus-visible:ring-[var(--primary)] focus-visible:ring-offset-2 focus-visible:outline-none rounded-md px-2 py-1"
+                        aria-label="Edit my tools"
+                        aria-expanded={editing}
+                    >
+                        {editing ? <Check className="w-4 h-4" /> : <Pencil className="w-4 h-4" />}
+                        {editing ? 'Done' : 'Edit'}
+                    </button>
+                ) : (
+                    <span
+                        className="flex items-center gap-1.5 text-sm text-gray-300 cursor-not-allowed px-2 py-1"
+                        title="Login to edit your tools"
+                        aria-disabled="true"
+                    >
+                        <Pencil className="w-4 h-4" />
+                        Edit
+                    </span>
+                )}
             </div>
 
-            {/* Tool Icons Row - Horizontal scrollable with visible scrollbar */}
-            <div className="relative">
-                <div className="flex items-center justify-center gap-6 overflow-x-auto pb-3">
-                    {tools.map((tool) => (
-                        <ToolIcon
-                            key={tool.id}
-                            tool={tool}
-                            hasFailed={failedImages.has(tool.id)}
-                            onError={() => handleImageError(tool.id)}
-                        />
-                    ))}
+            {/* Empty state - Issue #36 */}
+            {!tools || tools.length === 0 ? (
+                <p className="text-gray-500 text-center py-4">
+                    No tools saved yet. Browse and save your favorites!
+                </p>
+            ) : (
+                /* Tool Icons Row - Horizontal scrollable with visible scrollbar */
+                <div className="relative">
+                    <div className="flex items-center justify-center gap-6 overflow-x-auto pb-3">
+                        {tools.map((tool) => (
+                            <ToolIcon
+                                key={tool.id}
+                                tool={tool}
+                                hasFailed={failedImages.has(tool.id)}
+                                onError={() => handleImageError(tool.id)}
+                            />
+                        ))}
+                    </div>
                 </div>
-            </div>
+            )}
+
+            {children}
         </div>
     );
 }
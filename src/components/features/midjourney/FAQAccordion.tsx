@@ -2,8 +2,10 @@
 
 import { ChevronDown, ChevronUp } from 'lucide-react';
 import { useState } from 'react';
-import { FAQ } from '@/lib/types/prompt';
+import type { FAQ } from '@/lib/types/faq';
 import { cn } from '@/lib/utils';
+import { renderMarkdown } from '@/lib/utils/markdown';
+import { buildFaqPageJsonLd, serializeJsonLd } from '@/lib/utils/faq';
 
 interface FAQAccordionProps {
     faqs: FAQ[];
@@ -17,6 +19,10 @@ export function FAQAccordion({ faqs, className }: FAQAccordionProps) {
         setOpenId(prev => prev === id ? null : id);
     };
 
+    if (faqs.length === 0) {
+        return null;
+    }
+
     return (
         <div className={cn("space-y-3", className)}>
             <h2 className="text-2xl font-bold text-white mb-6">Frequently Asked Questions</h2>
@@ -41,12 +47,17 @@ export function FAQAccordion({ faqs, className }: FAQAccordionProps) {
                             openId === faq.id ? "max-h-96 opacity-100" : "max-h-0 opacity-0"
                         )}
                     >
-                        <p className="px-4 pb-4 text-gray-400 leading-relaxed">
-                            {faq.answer}
-                        </p>
+                        <div
+                            className="px-4 pb-4 text-gray-400 leading-relaxed space-y-2 [&_a]:text-white [&_a]:underline [&_code]:text-gray-200 [&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-5 [&_ol]:pl-5"
+                            dangerouslySetInnerHTML={{ __html: renderMarkdown(faq.answer) }}
+                        />
                     </div>
                 </div>
             ))}
+            <script
+                type="application/ld+json"
+                dangerouslySetInnerHTML={{ __html: serializeJsonLd(buildFaqPageJsonLd(faqs)) }}
+            />
         </div>
     );
 }
@@ -0,0 +1,187 @@
+'use client';
+
+import { useOptimistic, useState, useTransition } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Flag, ThumbsDown, ThumbsUp } from 'lucide-react';
+import { reportReviewAction, voteReviewAction, type ReviewActionState } from '@/app/actions';
+import { useAuth } from '@/components/providers/AuthProviderContext';
+import {
+    REPORT_REASONS,
+    REPORT_REASON_LABELS,
+    ReviewReportSchema,
+    applyReviewVote,
+    type Review,
+    type ReviewReportInput,
+    type ReviewReportValues,
+    type ReviewVoteState,
+} from '@/lib/types/review';
+
+const FIELD_CLASS = 'w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:ring-2 focus:ring-[var(--primary)] focus:border-transparent outline-none transition-all';
+
+interface ReviewFeedbackProps {
+    review: Pick<Review, 'id' | 'helpfulCount' | 'unhelpfulCount'>;
+    /** The signed-in user's vote on the review: true for helpful, false for unhelpful */
+    ownVote?: boolean;
+    /** True when the signed-in user wrote the review; they can neither vote nor report */
+    isOwn: boolean;
+}
+
+/**
+ * Helpful and unhelpful votes and the report form under a review. Votes show
+ * at once and are replaced by the counts the database trigger keeps; choosing
+ * the same vote again removes it. Signed-out visitors are sent to log in.
+ */
+export function ReviewFeedback({ review, ownVote, isOwn }: ReviewFeedbackProps) {
+    const { user } = useAuth();
+    const router = useRouter();
+    const pathname = usePathname();
+    const [, startTransition] = useTransition();
+    const [isReporting, startReport] = useTransition();
+    const [confirmed, setConfirmed] = useState<ReviewVoteState>({
+        reviewId: review.id,
+        vote: ownVote ?? null,
+        helpfulCount: review.helpfulCount,
+        unhelpfulCount: review.unhelpfulCount,
+    });
+    const [votes, addOptimistic] = useOptimistic(confirmed, applyReviewVote);
+    const [reportOpen, setReportOpen] = useState(false);
+    const [result, setResult] = useState<ReviewActionState | null>(null);
+
+    const {
+        register,
+        handleSubmit,
+        getValues,
+        reset,
+        formState: { errors },
+    } = useForm<ReviewReportInput, unknown, ReviewReportValues>({
+        resolver: zodResolver(ReviewReportSchema),
+        defaultValues: { reviewId: review.id, reason: 'spam', details: '' },
+    });
+
+    const signIn = () => router.push(`/login?callbackUrl=${encodeURIComponent(pathname)}`);
+
+    const vote = (helpful: boolean) => {
+        if (!user) {
+            signIn();
+            return;
+        }
+
+        const next = votes.vote === helpful ? null : helpful;
+        startTransition(async () => {
+            addOptimistic(next);
+
+            const response = await voteReviewAction(review.id, next);
+            if (response.vote) {
+                setConfirmed(response.vote);
+            } else if (response.signInRequired) {
+                signIn();
+            } else if (response.error) {
+                setResult(response);
+            }
+        });
+    };
+
+    const onReport = () => {
+        startReport(async () => {
+            const response = await reportReviewAction(getValues());
+            setResult(response);
+            if (response.signInRequired) {
+                signIn();
+            } else if (!response.error) {
+                setReportOpen(false);
+                reset();
+            }
+        });
+    };
+
+    const voteClass = (active: boolean) =>
+        `inline-flex items-center gap-1 rounded-full border px-2.5 py-1 transition-colors disabled:cursor-not-allowed disabled:opacity-60 ${active ? 'border-[var(--primary)] text-[var(--primary)]' : 'border-[var(--border)] text-gray-500 hover:text-gray-900'}`;
+
+    return (
+        <div className="mt-3 text-xs">
+            <div className="flex flex-wrap items-center gap-2">
+                <span className="text-gray-500">Was this review helpful?</span>
+                <button
+                    type="button"
+                    onClick={() => vote(true)}
+                    disabled={isOwn}
+                    aria-pressed={votes.vote === true}
+                    title={isOwn ? 'You cannot vote on your own review' : undefined}
+                    className={voteClass(votes.vote === true)}
+                >
+                    <ThumbsUp className="w-3.5 h-3.5" aria-hidden="true" />
+                    Yes <span aria-label="helpful votes">({votes.helpfulCount})</span>
+                </button>
+                <button
+                    type="button"
+                    onClick={() => vote(false)}
+                    disabled={isOwn}
+                    aria-pressed={votes.vote === false}
+                    title={isOwn ? 'You cannot vote on your own review' : undefined}
+                    className={voteClass(votes.vote === false)}
+                >
+                    <ThumbsDown className="w-3.5 h-3.5" aria-hidden="true" />
+                    No <span aria-label="unhelpful votes">({votes.unhelpfulCount})</span>
+                </button>
+                {!isOwn && (
+                    <button
+                        type="button"
+                        onClick={() => (user ? setReportOpen(open => !open) : signIn())}
+                        aria-expanded={reportOpen}
+                        className="ml-auto inline-flex items-center gap-1 text-gray-400 hover:text-red-600"
+                    >
+                        <Flag className="w-3.5 h-3.5" aria-hidden="true" />
+                        Report
+                    </button>
+                )}
+            </div>
+
+            {reportOpen && (
+                <form onSubmit={handleSubmit(onReport)} className="mt-3 space-y-3 rounded-lg border border-[var(--border)] p-4">
+                    <input type="hidden" {...register('reviewId')} />
+                    <div>
+                        <label htmlFor={`report-reason-${review.id}`} className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                        <select id={`report-reason-${review.id}`} className={FIELD_CLASS} {...register('reason')}>
+                            {REPORT_REASONS.map(reason => (
+                                <option key={reason} value={reason}>{REPORT_REASON_LABELS[reason]}</option>
+                            ))}
+                        </select>
+                        {errors.reason?.message && <p className="text-sm text-red-500 mt-1">{errors.reason.message}</p>}
+                    </div>
+                    <div>
+                        <label htmlFor={`report-details-${review.id}`} className="block text-sm font-medium text-gray-700 mb-1">Details</label>
+                        <textarea
+                            id={`report-details-${review.id}`}
+                            rows={3}
+                            maxLength={1000}
+                            className={FIELD_CLASS}
+                            placeholder="Anything the moderators should know (optional)"
+                            {...register('details')}
+                        />
+                        {errors.details?.message && <p className="text-sm text-red-500 mt-1">{errors.details.message}</p>}
+                    </div>
+                    <div className="flex items-center gap-3">
+                        <button
+                            type="submit"
+                            disabled={isReporting}
+                            className="px-3 py-1.5 bg-red-600 text-white rounded-[var(--radius-sm)] font-medium text-sm hover:opacity-90 transition-opacity disabled:opacity-60"
+                        >
+                            {isReporting ? 'Sending...' : 'Send report'}
+                        </button>
+                        <button type="button" onClick={() => setReportOpen(false)} className="text-sm text-gray-600 hover:text-gray-900">
+                            Cancel
+                        </button>
+                    </div>
+                </form>
+            )}
+
+            {result && (
+                <p role="status" className={`mt-2 ${result.error ? 'text-red-600' : 'text-green-600'}`}>
+                    {result.error ? `${result.message}: ${result.error}` : result.message}
+                </p>
+            )}
+        </div>
+    );
+}
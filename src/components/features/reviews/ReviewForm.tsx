@@ -0,0 +1,214 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import Link from 'next/link';
+import { usePathname, useRouter } from 'next/navigation';
+import { Controller, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Star } from 'lucide-react';
+import { deleteReviewAction, saveReviewAction, type ReviewActionState } from '@/app/actions';
+import { useAuth } from '@/components/providers/AuthProviderContext';
+import {
+    ReviewInputSchema,
+    toReviewInput,
+    type Review,
+    type ReviewInput,
+    type ReviewValues,
+} from '@/lib/types/review';
+
+const FIELD_CLASS = 'w-full rounded-lg border border-gray-300 px-4 py-2 focus:ring-2 focus:ring-[var(--primary)] focus:border-transparent outline-none transition-all';
+
+interface ReviewFormProps {
+    toolId: string;
+    toolName: string;
+    /** The signed-in user's review of the tool, edited in place */
+    ownReview: Review | null;
+}
+
+function FieldError({ message }: { message?: string }) {
+    return message ? <p className="text-sm text-red-500 mt-1">{message}</p> : null;
+}
+
+/**
+ * Write-a-review form on the tool page. Validated in the browser with
+ * ReviewInputSchema; a user who already reviewed the tool edits or deletes
+ * their review here. Signed-out visitors are asked to log in.
+ */
+export function ReviewForm({ toolId, toolName, ownReview }: ReviewFormProps) {
+    const { user, loading } = useAuth();
+    const router = useRouter();
+    const pathname = usePathname();
+    const [isPending, startTransition] = useTransition();
+    const [result, setResult] = useState<ReviewActionState | null>(null);
+    const [open, setOpen] = useState(false);
+
+    const {
+        register,
+        control,
+        handleSubmit,
+        getValues,
+        reset,
+        formState: { errors },
+    } = useForm<ReviewInput, unknown, ReviewValues>({
+        resolver: zodResolver(ReviewInputSchema),
+        defaultValues: ownReview
+            ? toReviewInput(ownReview)
+            : { toolId, authorName: '', rating: 0, title: '', body: '', pros: '', cons: '' },
+    });
+
+    if (loading) {
+        return null;
+    }
+
+    if (!user) {
+        return (
+            <p className="text-sm text-gray-600">
+                <Link href={`/login?callbackUrl=${encodeURIComponent(pathname)}`} className="font-medium text-[var(--primary)] hover:underline">
+                    Log in
+                </Link>{' '}
+                to review {toolName}.
+            </p>
+        );
+    }
+
+    if (!open) {
+        return (
+            <button
+                type="button"
+                onClick={() => setOpen(true)}
+                className="px-4 py-2 bg-[var(--primary)] text-white rounded-[var(--radius-sm)] font-medium text-sm hover:opacity-90 transition-opacity"
+            >
+                {ownReview ? 'Edit your review' : 'Write a review'}
+            </button>
+        );
+    }
+
+    const applyResult = (next: ReviewActionState) => {
+        setResult(next);
+        if (next.signInRequired) {
+            router.push(`/login?callbackUrl=${encodeURIComponent(pathname)}`);
+        } else if (!next.error) {
+            setOpen(false);
+            router.refresh();
+        }
+    };
+
+    const onSubmit = () => {
+        startTransition(async () => {
+            const next = await saveReviewAction(getValues());
+            if (next.review) {
+                reset(toReviewInput(next.review));
+            }
+            applyResult(next);
+        });
+    };
+
+    const onDelete = () => {
+        if (!confirm('Delete your review? This cannot be undone.')) {
+            return;
+        }
+        startTransition(async () => {
+            const next = await deleteReviewAction(toolId);
+            if (!next.error) {
+                reset({ toolId, authorName: '', rating: 0, title: '', body: '', pros: '', cons: '' });
+            }
+            applyResult(next);
+        });
+    };
+
+    return (
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4 rounded-lg border border-[var(--border)] p-6">
+            <h3 className="font-semibold text-gray-900">{ownReview ? 'Edit your review' : `Review ${toolName}`}</h3>
+
+            <Controller
+                control={control}
+                name="rating"
+                render={({ field }) => (
+                    <fieldset>
+                        <legend className="block text-sm font-medium text-gray-700 mb-1">Rating <span className="text-red-500">*</span></legend>
+                        <div className="flex gap-1" role="radiogroup" aria-label="Rating">
+                            {[1, 2, 3, 4, 5].map(value => (
+                                <button
+                                    key={value}
+                                    type="button"
+                                    role="radio"
+                                    aria-checked={field.value === value}
+                                    aria-label={`${value} star${value === 1 ? '' : 's'}`}
+                                    onClick={() => field.onChange(value)}
+                                    className="text-yellow-400 focus-visible:ring-2 focus-visible:ring-[var(--primary)] focus-visible:outline-none rounded"
+                                >
+                                    <Star className={`w-6 h-6 ${value <= field.value ? 'fill-current' : 'text-gray-300'}`} />
+                                </button>
+                            ))}
+                        </div>
+                        <FieldError message={errors.rating?.message} />
+                    </fieldset>
+                )}
+            />
+
+            <div>
+                <label htmlFor="review-title" className="block text-sm font-medium text-gray-700 mb-1">Title <span className="text-red-500">*</span></label>
+                <input id="review-title" type="text" maxLength={120} className={FIELD_CLASS} placeholder="Sum up your experience" {...register('title')} />
+                <FieldError message={errors.title?.message} />
+            </div>
+
+            <div>
+                <label htmlFor="review-body" className="block text-sm font-medium text-gray-700 mb-1">Review <span className="text-red-500">*</span></label>
+                <textarea id="review-body" rows={5} className={FIELD_CLASS} placeholder={`What did you use ${toolName} for, and how did it go?`} {...register('body')} />
+                <FieldError message={errors.body?.message} />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                    <label htmlFor="review-pros" className="block text-sm font-medium text-gray-700 mb-1">Pros</label>
+                    <textarea id="review-pros" rows={3} className={FIELD_CLASS} placeholder="One per line" {...register('pros')} />
+                    <FieldError message={errors.pros?.message} />
+                </div>
+                <div>
+                    <label htmlFor="review-cons" className="block text-sm font-medium text-gray-700 mb-1">Cons</label>
+                    <textarea id="review-cons" rows={3} className={FIELD_CLASS} placeholder="One per line" {...register('cons')} />
+                    <FieldError message={errors.cons?.message} />
+                </div>
+            </div>
+
+            <div>
+                <label htmlFor="review-author" className="block text-sm font-medium text-gray-700 mb-1">Display name <span className="text-red-500">*</span></label>
+                <input id="review-author" type="text" maxLength={60} className={FIELD_CLASS} placeholder="Shown with your review" {...register('authorName')} />
+                <FieldError message={errors.authorName?.message} />
+            </div>
+
+            {result?.error && (
+                <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+                    {result.message}: {result.error}
+                </div>
+            )}
+
+            <div className="flex flex-wrap items-center gap-3">
+                <button
+                    type="submit"
+                    disabled={isPending}
+                    className="px-4 py-2 bg-[var(--primary)] text-white rounded-[var(--radius-sm)] font-medium text-sm hover:opacity-90 transition-opacity disabled:opacity-60"
+                >
+                    {isPending ? 'Saving...' : ownReview ? 'Update review' : 'Publish review'}
+                </button>
+                <button
+                    type="button"
+                    onClick={() => setOpen(false)}
+                    className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900"
+                >
+                    Cancel
+                </button>
+                {ownReview && (
+                    <button
+                        type="button"
+                        onClick={onDelete}
+                        disabled={isPending}
+                        className="ml-auto px-4 py-2 text-sm text-red-600 hover:text-red-700 disabled:opacity-60"
+                    >
+                        Delete review
+                    </button>
+                )}
+            </div>
+        </form>
+    );
+}
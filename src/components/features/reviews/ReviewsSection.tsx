@@ -0,0 +1,128 @@
+import Link from 'next/link';
+import { Star } from 'lucide-react';
+import { ReviewForm } from './ReviewForm';
+import { ReviewFeedback } from './ReviewFeedback';
+import { REVIEW_SORTS, REVIEW_SORT_LABELS, type Review, type ReviewPage, type ReviewSort } from '@/lib/types/review';
+import type { Tool } from '@/lib/types/tool';
+
+interface ReviewsSectionProps {
+    tool: Pick<Tool, 'id' | 'name' | 'slug' | 'reviewScore' | 'reviewCount'>;
+    reviews: ReviewPage;
+    /** The signed-in user's review of the tool */
+    ownReview: Review | null;
+    /** The signed-in user's votes on the listed reviews, keyed by review ID */
+    ownVotes: Record<string, boolean>;
+}
+
+function RatingStars({ rating, className = 'w-4 h-4' }: { rating: number; className?: string }) {
+    return (
+        <span className="flex text-yellow-400" aria-label={`${rating} out of 5 stars`}>
+            {[1, 2, 3, 4, 5].map(value => (
+                <Star key={value} className={`${className} ${value <= Math.round(rating) ? 'fill-current' : 'text-gray-300'}`} aria-hidden="true" />
+            ))}
+        </span>
+    );
+}
+
+function ReviewPoints({ label, points, className }: { label: string; points: string[]; className: string }) {
+    if (points.length === 0) {
+        return null;
+    }
+    return (
+        <div>
+            <p className={`text-xs font-semibold uppercase tracking-wide ${className}`}>{label}</p>
+            <ul className="mt-1 list-disc pl-5 text-sm text-gray-600 space-y-0.5">
+                {points.map((point, index) => <li key={index}>{point}</li>)}
+            </ul>
+        </div>
+    );
+}
+
+/**
+ * Reviews of a tool with their average, sortable and paginated through the
+ * reviewSort and reviewPage query parameters, and the write-a-review form.
+ * Each review can be voted helpful or reported.
+ */
+export function ReviewsSection({ tool, reviews, ownReview, ownVotes }: ReviewsSectionProps) {
+    const href = (sort: ReviewSort, page: number) => {
+        const params = new URLSearchParams();
+        if (sort !== 'newest') params.set('reviewSort', sort);
+        if (page > 1) params.set('reviewPage', String(page));
+        const query = params.toString();
+        return `/tool/${tool.slug}${query ? `?${query}` : ''}#reviews`;
+    };
+
+    return (
+        <div className="bg-white rounded-[var(--radius)] border border-[var(--border)] p-8 shadow-sm" id="reviews">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+                <div>
+                    <h2 className="text-xl font-bold">User Reviews</h2>
+                    {tool.reviewCount > 0 && (
+                        <div className="flex items-center gap-2 mt-1 text-sm text-gray-500">
+                            <RatingStars rating={tool.reviewScore} />
+                            <span className="font-semibold text-gray-900">{tool.reviewScore.toFixed(1)}</span>
+                            <span>({tool.reviewCount} {tool.reviewCount === 1 ? 'review' : 'reviews'})</span>
+                        </div>
+                    )}
+                </div>
+                <ReviewForm toolId={tool.id} toolName={tool.name} ownReview={ownReview} />
+            </div>
+
+            {reviews.total === 0 ? (
+                <p className="text-sm text-gray-500">No reviews yet. Be the first to share your experience with {tool.name}.</p>
+            ) : (
+                <>
+                    <nav aria-label="Sort reviews" className="flex flex-wrap gap-2 mb-4 text-sm">
+                        {REVIEW_SORTS.map(sort => (
+                            <Link
+                                key={sort}
+                                href={href(sort, 1)}
+                                scroll={false}
+                                aria-current={sort === reviews.sort ? 'page' : undefined}
+                                className={`px-3 py-1 rounded-full border ${sort === reviews.sort ? 'border-[var(--primary)] text-[var(--primary)] font-medium' : 'border-[var(--border)] text-gray-600 hover:text-gray-900'}`}
+                            >
+                                {REVIEW_SORT_LABELS[sort]}
+                            </Link>
+                        ))}
+                    </nav>
+
+                    <div className="space-y-4">
+                        {reviews.reviews.map(review => (
+                            <article key={review.id} className="border-b border-[var(--border)] pb-4 last:border-0 last:pb-0">
+                                <div className="flex items-center justify-between gap-4 mb-1">
+                                    <h3 className="font-semibold text-gray-900">{review.title}</h3>
+                                    <RatingStars rating={review.rating} className="w-3 h-3" />
+                                </div>
+                                <p className="text-xs text-gray-400 mb-2">
+                                    {review.authorName} ·{' '}
+                                    <time dateTime={review.createdAt}>{new Date(review.createdAt).toLocaleDateString('en-US', { dateStyle: 'medium' })}</time>
+                                    {review.updatedAt !== review.createdAt && ' (edited)'}
+                                </p>
+                                <p className="text-sm text-gray-600 whitespace-pre-line">{review.body}</p>
+                                {(review.pros.length > 0 || review.cons.length > 0) && (
+                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-3">
+                                        <ReviewPoints label="Pros" points={review.pros} className="text-green-600" />
+                                        <ReviewPoints label="Cons" points={review.cons} className="text-red-600" />
+                                    </div>
+                                )}
+                                <ReviewFeedback review={review} ownVote={ownVotes[review.id]} isOwn={review.id === ownReview?.id} />
+                            </article>
+                        ))}
+                    </div>
+
+                    {reviews.pageCount > 1 && (
+                        <nav aria-label="Reviews pages" className="flex items-center justify-between mt-6 text-sm text-gray-500">
+                            {reviews.page > 1 ? (
+                                <Link href={href(reviews.sort, reviews.page - 1)} scroll={false} className="hover:text-[var(--primary)]">Previous</Link>
+                            ) : <span />}
+                            <span>Page {reviews.page} of {reviews.pageCount}</span>
+                            {reviews.page < reviews.pageCount ? (
+                                <Link href={href(reviews.sort, reviews.page + 1)} scroll={false} className="hover:text-[var(--primary)]">Next</Link>
+                            ) : <span />}
+                        </nav>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
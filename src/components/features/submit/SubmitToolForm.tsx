@@ -0,0 +1,204 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Controller, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { resubmitToolAction, submitToolAction, type SubmitToolState } from '@/app/actions';
+import { PRICING_OPTIONS } from '@/lib/types/tool-form';
+import {
+    MAX_SUBMISSION_CATEGORIES,
+    ToolSubmissionSchema,
+    type ToolSubmission,
+    type ToolSubmissionInput,
+    type ToolSubmissionValues,
+} from '@/lib/types/submission';
+import type { Category } from '@/lib/types/tool';
+
+const FIELD_CLASS = 'w-full rounded-lg border border-gray-300 px-4 py-2 focus:ring-2 focus:ring-[var(--primary)] focus:border-transparent outline-none transition-all';
+
+interface SubmitToolFormProps {
+    categories: Pick<Category, 'id' | 'name'>[];
+    /** Submission sent back for changes; omit for a new submission */
+    submission?: ToolSubmission;
+}
+
+function FieldError({ message }: { message?: string }) {
+    return message ? <p className="text-sm text-red-500 mt-1">{message}</p> : null;
+}
+
+/**
+ * Public tool submission form. Validated in the browser with
+ * ToolSubmissionSchema; the action checks it again along with duplicates,
+ * then sends the submitter to their status page.
+ */
+export function SubmitToolForm({ categories, submission }: SubmitToolFormProps) {
+    const router = useRouter();
+    const [isPending, startTransition] = useTransition();
+    const [result, setResult] = useState<SubmitToolState | null>(null);
+
+    const {
+        register,
+        control,
+        handleSubmit,
+        getValues,
+        formState: { errors },
+    } = useForm<ToolSubmissionInput, unknown, ToolSubmissionValues>({
+        resolver: zodResolver(ToolSubmissionSchema),
+        defaultValues: {
+            name: submission?.name ?? '',
+            websiteUrl: submission?.websiteUrl ?? '',
+            shortDescription: submission?.shortDescription ?? '',
+            description: submission?.description ?? '',
+            pricing: submission?.pricing ?? 'Freemium',
+            categoryIds: submission?.categoryIds ?? [],
+            submitterEmail: submission?.submitterEmail ?? '',
+        },
+    });
+
+    const onSubmit = () => {
+        startTransition(async () => {
+            const input = getValues();
+            const next = submission
+                ? await resubmitToolAction(submission.trackingToken, input)
+                : await submitToolAction(input);
+            setResult(next);
+            if (next.trackingToken) {
+                router.push(`/submit/status/${next.trackingToken}`);
+                router.refresh();
+            }
+        });
+    };
+
+    return (
+        <form onSubmit={handleSubmit(onSubmit)} className="bg-white rounded-2xl border border-[var(--border)] shadow-sm p-6 md:p-8 space-y-6">
+            <div className="space-y-4">
+                <div>
+                    <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-1">Tool Name <span className="text-red-500">*</span></label>
+                    <input id="name" type="text" className={FIELD_CLASS} placeholder="e.g. ChatGPT" {...register('name')} />
+                    <FieldError message={errors.name?.message} />
+                </div>
+
+                <div>
+                    <label htmlFor="websiteUrl" className="block text-sm font-medium text-gray-700 mb-1">Website URL <span className="text-red-500">*</span></label>
+                    <input id="websiteUrl" type="url" className={FIELD_CLASS} placeholder="https://example.com" {...register('websiteUrl')} />
+                    <FieldError message={errors.websiteUrl?.message} />
+                </div>
+
+                <div>
+                    <label htmlFor="shortDescription" className="block text-sm font-medium text-gray-700 mb-1">Short Description <span className="text-red-500">*</span></label>
+                    <input
+                        id="shortDescription"
+                        type="text"
+                        maxLength={100}
+                        className={FIELD_CLASS}
+                        placeholder="One sentence pitch (max 100 chars)"
+                        {...register('shortDescription')}
+                    />
+                    <FieldError message={errors.shortDescription?.message} />
+                </div>
+
+                <div>
+                    <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-1">Full Description</label>
+                    <textarea id="description" rows={4} className={FIELD_CLASS} placeholder="Tell us what makes your tool special..." {...register('description')} />
+                    <FieldError message={errors.description?.message} />
+                </div>
+
+                <Controller
+                    control={control}
+                    name="categoryIds"
+                    render={({ field }) => (
+                        <fieldset>
+                            <legend className="block text-sm font-medium text-gray-700 mb-1">
+                                Categories <span className="text-red-500">*</span>
+                                <span className="font-normal text-gray-500"> (up to {MAX_SUBMISSION_CATEGORIES})</span>
+                            </legend>
+                            <div className="grid grid-cols-2 gap-2 max-h-48 overflow-y-auto p-3 border border-gray-300 rounded-lg">
+                                {categories.map(category => {
+                                    const checked = field.value.includes(category.id);
+                                    return (
+                                        <label key={category.id} className="flex items-center gap-2 text-sm text-gray-700">
+                                            <input
+                                                type="checkbox"
+                                                checked={checked}
+                                                disabled={!checked && field.value.length >= MAX_SUBMISSION_CATEGORIES}
+                                                onChange={event => field.onChange(
+                                                    event.target.checked
+                                                        ? [...field.value, category.id]
+                                                        : field.value.filter(id => id !== category.id)
+                                                )}
+                                            />
+                                            {category.name}
+                                        </label>
+                                    );
+                                })}
+                            </div>
+                            <FieldError message={errors.categoryIds?.message} />
+                        </fieldset>
+                    )}
+                />
+
+                <fieldset>
+                    <legend className="block text-sm font-medium text-gray-700 mb-1">Pricing Model</legend>
+                    <div className="flex flex-wrap gap-4">
+                        {PRICING_OPTIONS.map(option => (
+                            <label key={option} className="flex items-center gap-2">
+                                <input type="radio" value={option} className="text-[var(--primary)]" {...register('pricing')} />
+                                <span className="text-sm">{option}</span>
+                            </label>
+                        ))}
+                    </div>
+                </fieldset>
+
+                <div>
+                    <label htmlFor="submitterEmail" className="block text-sm font-medium text-gray-700 mb-1">Your Email <span className="text-red-500">*</span></label>
+                    <input
+                        id="submitterEmail"
+                        type="email"
+                        readOnly={Boolean(submission)}
+                        className={`${FIELD_CLASS} read-only:bg-gray-50 read-only:text-gray-500`}
+                        placeholder="you@example.com"
+                        {...register('submitterEmail')}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">Only used to contact you about this submission.</p>
+                    <FieldError message={errors.submitterEmail?.message} />
+                </div>
+            </div>
+
+            {result?.error && (
+                <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+                    <p>{result.message}: {result.error}</p>
+                    {result.duplicates && result.duplicates.length > 0 && (
+                        <ul className="mt-2 list-disc pl-5">
+                            {result.duplicates.map(duplicate => (
+                                <li key={`${duplicate.kind}:${duplicate.slug}`}>
+                                    {duplicate.kind === 'tool' ? (
+                                        <Link href={`/tool/${duplicate.slug}`} className="underline">{duplicate.name}</Link>
+                                    ) : (
+                                        duplicate.name
+                                    )}
+                                    {duplicate.reason === 'domain' ? ' (same website)' : ' (same name)'}
+                                    {duplicate.kind === 'submission' && ', waiting for review'}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+
+            <div className="pt-4">
+                <button
+                    type="submit"
+                    disabled={isPending}
+                    className="w-full bg-[var(--primary)] text-white font-bold py-3 px-6 rounded-lg hover:opacity-90 transition-opacity shadow-lg disabled:opacity-60"
+                >
+                    {isPending ? 'Submitting...' : submission ? 'Resubmit Tool' : 'Submit Tool'}
+                </button>
+                <p className="text-xs text-center text-gray-500 mt-4">
+                    By submitting, you agree to our Terms of Service.
+                </p>
+            </div>
+        </form>
+    );
+}
@@ -4,7 +4,9 @@ import React from 'react';
 import Image from 'next/image';
 import Link from 'next/link';
 import { Tool } from '@/lib/types/tool';
-import { Star, Bookmark, ExternalLink, BadgeCheck } from 'lucide-react';
+import { Star, ExternalLink, BadgeCheck } from 'lucide-react';
+import { FavoriteButton } from '@/components/features/FavoriteButton';
+import { AddToCollectionButton } from '@/components/features/collections/AddToCollectionButton';
 import { cn } from '@/lib/utils';
 
 interface ToolCardProps {
@@ -26,9 +28,16 @@ export function ToolCard({ tool, priority = false }: ToolCardProps) {
                     priority={priority}
                 />
                 <div className="absolute top-3 right-3 flex gap-2">
-                    <button className="p-1.5 bg-white/90 rounded-full hover:text-toolify-purple-600 transition-colors shadow-sm backdrop-blur-sm">
-                        <Bookmark className="w-4 h-4" />
-                    </button>
+                    <AddToCollectionButton
+                        toolId={tool.id}
+                        toolName={tool.name}
+                        className="p-1.5 bg-white/90 rounded-full hover:text-toolify-purple-600 transition-colors shadow-sm backdrop-blur-sm"
+                    />
+                    <FavoriteButton
+                        toolId={tool.id}
+                        savedCount={tool.savedCount}
+                        className="p-1.5 bg-white/90 rounded-full hover:text-toolify-purple-600 transition-colors shadow-sm backdrop-blur-sm"
+                    />
                 </div>
                 {tool.pricing && (
                     <div className="absolute top-3 left-3">
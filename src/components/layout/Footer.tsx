@@ -33,6 +33,7 @@ export function Footer() {
                         <ul className="space-y-3 text-sm text-[var(--muted-foreground)]">
                             <li><Link href="/Best-trending-AI-Tools" className="hover:text-[var(--primary)] transition-colors">Ranking Leaderboard</Link></li>
                             <li><Link href="/midjourney-library" className="hover:text-[var(--primary)] transition-colors">Midjourney Library</Link></li>
+                            <li><Link href="/collections" className="hover:text-[var(--primary)] transition-colors">Collections</Link></li>
                             <li><Link href="/submit" className="hover:text-[var(--primary)] transition-colors">Submit Tool</Link></li>
                         </ul>
                     </div>
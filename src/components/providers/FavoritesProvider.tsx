@@ -0,0 +1,170 @@
+'use client';
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useOptimistic,
+  useState,
+  useTransition,
+  type ReactNode,
+} from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { useAuth } from '@/components/providers/AuthProviderContext';
+import { addFavoriteAction, listFavoritesAction, removeFavoriteAction } from '@/app/actions';
+
+/**
+ * Saved tools of the signed-in user and the save counts confirmed by the server
+ */
+export interface FavoritesSnapshot {
+  savedIds: ReadonlySet<string>;
+  counts: Readonly<Record<string, number>>;
+}
+
+/**
+ * A save or unsave applied before the server confirms it
+ */
+export interface FavoriteChange {
+  toolId: string;
+  saved: boolean;
+  savedCount: number;
+}
+
+/**
+ * Favorites context value interface
+ */
+export interface FavoritesContextValue {
+  /** Whether the current user saved a tool, including pending changes */
+  isSaved: (toolId: string) => boolean;
+  /** A tool's save count, or the fallback rendered by the server until one is known */
+  getSavedCount: (toolId: string, fallback: number) => number;
+  /** Save or unsave a tool; signed-out visitors are sent to the login page */
+  toggle: (toolId: string, fallbackCount: number) => void;
+}
+
+const EMPTY_SNAPSHOT: FavoritesSnapshot = { savedIds: new Set(), counts: {} };
+
+const FavoritesContext = createContext<FavoritesContextValue>({
+  isSaved: () => false,
+  getSavedCount: (_toolId, fallback) => fallback,
+  toggle: () => {
+    console.warn('toggle called outside of FavoritesProvider');
+  },
+});
+
+/**
+ * Applies a save or unsave to a snapshot without mutating it. Used both for
+ * optimistic changes and for the server's confirmed state.
+ */
+export function applyFavoriteChange(snapshot: FavoritesSnapshot, change: FavoriteChange): FavoritesSnapshot {
+  const savedIds = new Set(snapshot.savedIds);
+  if (change.saved) {
+    savedIds.add(change.toolId);
+  } else {
+    savedIds.delete(change.toolId);
+  }
+  return { savedIds, counts: { ...snapshot.counts, [change.toolId]: change.savedCount } };
+}
+
+/**
+ * Favorites Provider that loads the signed-in user's saved tools and lets
+ * any tool card or page save and unsave tools optimistically. The server
+ * actions return the count kept by the database trigger, which replaces
+ * the optimistic count; a failed change is rolled back.
+ *
+ * @param children - Child components to wrap with favorites context
+ */
+export function FavoritesProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const router = useRouter();
+  const pathname = usePathname();
+  const userId = user?.id;
+  // Saves belong to the user they were loaded for; another user starts empty
+  const [loaded, setLoaded] = useState<{ userId: string; snapshot: FavoritesSnapshot } | null>(null);
+  const snapshot = loaded && loaded.userId === userId ? loaded.snapshot : EMPTY_SNAPSHOT;
+  const [optimistic, addOptimistic] = useOptimistic(snapshot, applyFavoriteChange);
+  const [, startTransition] = useTransition();
+
+  // Reload saves whenever a different user signs in
+  useEffect(() => {
+    if (!userId) {
+      return;
+    }
+
+    let cancelled = false;
+    listFavoritesAction().then(result => {
+      if (!cancelled && !result.error) {
+        setLoaded({
+          userId,
+          snapshot: {
+            savedIds: new Set(result.tools.map(tool => tool.id)),
+            counts: Object.fromEntries(result.tools.map(tool => [tool.id, tool.savedCount])),
+          },
+        });
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const getSavedCount = useCallback(
+    (toolId: string, fallback: number) => optimistic.counts[toolId] ?? fallback,
+    [optimistic]
+  );
+
+  const toggle = useCallback(
+    (toolId: string, fallbackCount: number) => {
+      if (!userId) {
+        router.push(`/login?callbackUrl=${encodeURIComponent(pathname)}`);
+        return;
+      }
+
+      const saved = !optimistic.savedIds.has(toolId);
+      const currentCount = optimistic.counts[toolId] ?? fallbackCount;
+
+      startTransition(async () => {
+        addOptimistic({ toolId, saved, savedCount: Math.max(currentCount + (saved ? 1 : -1), 0) });
+
+        const result = saved ? await addFavoriteAction(toolId) : await removeFavoriteAction(toolId);
+        if (result.favorite) {
+          const favorite = result.favorite;
+          setLoaded(current => ({
+            userId,
+            snapshot: applyFavoriteChange(current?.userId === userId ? current.snapshot : EMPTY_SNAPSHOT, favorite),
+          }));
+        } else if (result.signInRequired) {
+          router.push(`/login?callbackUrl=${encodeURIComponent(pathname)}`);
+        } else if (result.error) {
+          alert(`${result.message}: ${result.error}`);
+        }
+      });
+    },
+    [userId, router, pathname, optimistic, addOptimistic]
+  );
+
+  const contextValue: FavoritesContextValue = {
+    isSaved: toolId => optimistic.savedIds.has(toolId),
+    getSavedCount,
+    toggle,
+  };
+
+  return (
+    <FavoritesContext.Provider value={contextValue}>{children}</FavoritesContext.Provider>
+  );
+}
+
+/**
+ * Custom hook to access favorites context
+ *
+ * @example
+ * ```tsx
+ * const { isSaved, toggle } = useFavorites();
+ * <button onClick={() => toggle(tool.id, tool.savedCount)}>{isSaved(tool.id) ? 'Saved' : 'Save'}</button>
+ * ```
+ */
+export function useFavorites(): FavoritesContextValue {
+  return useContext(FavoritesContext);
+}
@@ -0,0 +1,85 @@
+/**
+ * Property-Based Tests for Favorites Provider
+ *
+ * **Feature: favorites, Property 1: Favorite changes are applied per tool**
+ *
+ * Saving or unsaving a tool changes only that tool's saved state and count,
+ * and never mutates the snapshot it was applied to, so React can roll an
+ * optimistic change back by discarding it.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import * as fc from 'fast-check';
+
+vi.mock('@/app/actions', () => ({
+  addFavoriteAction: vi.fn(),
+  removeFavoriteAction: vi.fn(),
+  listFavoritesAction: vi.fn(),
+}));
+
+import { applyFavoriteChange, type FavoritesSnapshot } from '../FavoritesProvider';
+
+// =============================================================================
+// Arbitraries (Generators) for Property-Based Testing
+// =============================================================================
+
+const snapshotArbitrary: fc.Arbitrary<FavoritesSnapshot> = fc
+  .uniqueArray(fc.uuid(), { maxLength: 10 })
+  .chain((ids) =>
+    fc.record({
+      savedIds: fc.subarray(ids).map((saved) => new Set(saved)),
+      counts: fc.tuple(...ids.map(() => fc.nat({ max: 10_000 }))).map((counts) =>
+        Object.fromEntries(ids.map((id, index) => [id, counts[index]]))
+      ),
+    })
+  );
+
+const changeArbitrary = fc.record({
+  toolId: fc.uuid(),
+  saved: fc.boolean(),
+  savedCount: fc.nat({ max: 10_000 }),
+});
+
+// =============================================================================
+// Property Tests
+// =============================================================================
+
+describe('Favorites Provider Property Tests', () => {
+  it('sets the changed tool and leaves every other tool as it was', () => {
+    fc.assert(
+      fc.property(snapshotArbitrary, changeArbitrary, (snapshot, change) => {
+        const next = applyFavoriteChange(snapshot, change);
+
+        expect(next.savedIds.has(change.toolId)).toBe(change.saved);
+        expect(next.counts[change.toolId]).toBe(change.savedCount);
+
+        for (const id of snapshot.savedIds) {
+          if (id !== change.toolId) {
+            expect(next.savedIds.has(id)).toBe(true);
+          }
+        }
+        for (const [id, count] of Object.entries(snapshot.counts)) {
+          if (id !== change.toolId) {
+            expect(next.counts[id]).toBe(count);
+          }
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('does not mutate the snapshot it is applied to', () => {
+    fc.assert(
+      fc.property(snapshotArbitrary, changeArbitrary, (snapshot, change) => {
+        const savedBefore = [...snapshot.savedIds];
+        const countsBefore = { ...snapshot.counts };
+
+        applyFavoriteChange(snapshot, change);
+
+        expect([...snapshot.savedIds]).toEqual(savedBefore);
+        expect(snapshot.counts).toEqual(countsBefore);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -0,0 +1,51 @@
+'use client';
+
+import { useEffect } from 'react';
+import { parseErrorDigest } from '@/lib/db/errors';
+
+interface ErrorFallbackProps {
+    error: Error & { digest?: string };
+    reset: () => void;
+}
+
+/**
+ * Shared body for route error boundaries.
+ * Database errors carry their status and retryability in the digest, so the
+ * copy can tell a temporary outage apart from a permission or data problem.
+ */
+export function ErrorFallback({ error, reset }: ErrorFallbackProps) {
+    const details = parseErrorDigest(error.digest);
+
+    useEffect(() => {
+        console.error(error);
+    }, [error]);
+
+    let title = 'Something went wrong!';
+    let description = 'An unexpected error occurred while loading this page.';
+
+    if (details?.retryable) {
+        title = 'Temporarily unavailable';
+        description = 'We could not reach the database. Please try again in a few moments.';
+    } else if (details?.status === 403) {
+        title = 'Access denied';
+        description = 'You do not have permission to view or change this content.';
+    } else if (details?.status === 409 || details?.status === 400) {
+        title = 'Could not save changes';
+        description = 'The change conflicts with existing data or contains invalid values.';
+    }
+
+    return (
+        <div className="flex h-[50vh] flex-col items-center justify-center gap-4 text-center">
+            <h2 className="text-xl font-bold">{title}</h2>
+            <p className="max-w-md text-sm text-gray-500">{description}</p>
+            {details?.status !== 403 && (
+                <button
+                    className="rounded-md bg-toolify-purple-600 px-4 py-2 text-white hover:bg-toolify-purple-700"
+                    onClick={() => reset()}
+                >
+                    Try again
+                </button>
+            )}
+        </div>
+    );
+}
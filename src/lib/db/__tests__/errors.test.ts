@@ -1,5 +1,17 @@
 import { describe, it, expect } from 'vitest';
-import { DatabaseError, NotFoundError, ValidationError } from '../errors';
+import {
+  DatabaseError,
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+  ForeignKeyError,
+  ConstraintViolationError,
+  PermissionError,
+  TransientDatabaseError,
+  classifyDatabaseError,
+  toErrorResponse,
+  parseErrorDigest,
+} from '../errors';
 
 describe('DatabaseError', () => {
   it('contains operation, table, message, and originalError', () => {
@@ -66,3 +78,109 @@ describe('ValidationError', () => {
     expect(error).toBeInstanceOf(Error);
   });
 });
+
+describe('ConflictError', () => {
+  it('parses the conflicting field and value from Postgres details', () => {
+    const error = new ConflictError('create', 'tools', 'duplicate key value', {
+      code: '23505',
+      details: 'Key (slug)=(chatgpt) already exists.',
+    });
+
+    expect(error.field).toBe('slug');
+    expect(error.value).toBe('chatgpt');
+    expect(error.code).toBe('23505');
+    expect(error.status).toBe(409);
+    expect(error.retryable).toBe(false);
+    expect(error.userMessage).toBe('The slug "chatgpt" is already in use.');
+    expect(error.name).toBe('ConflictError');
+  });
+
+  it('is an instance of DatabaseError and Error', () => {
+    const error = new ConflictError('create', 'categories', 'duplicate key value');
+    expect(error).toBeInstanceOf(DatabaseError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.field).toBeUndefined();
+  });
+});
+
+describe('classifyDatabaseError', () => {
+  it.each([
+    ['23505', ConflictError, 409, false],
+    ['23503', ForeignKeyError, 409, false],
+    ['23502', ConstraintViolationError, 400, false],
+    ['23514', ConstraintViolationError, 400, false],
+    ['22P02', ConstraintViolationError, 400, false],
+    ['42501', PermissionError, 403, false],
+    ['PGRST301', PermissionError, 403, false],
+    ['08006', TransientDatabaseError, 503, true],
+    ['40001', TransientDatabaseError, 503, true],
+    ['40P01', TransientDatabaseError, 503, true],
+    ['57014', TransientDatabaseError, 503, true],
+    ['53300', TransientDatabaseError, 503, true],
+    ['PGRST001', TransientDatabaseError, 503, true],
+  ])('maps code %s to %o', (code, ErrorClass, status, retryable) => {
+    const error = classifyDatabaseError('create', 'tools', { code, message: 'failed' });
+
+    expect(error).toBeInstanceOf(ErrorClass);
+    expect(error.code).toBe(code);
+    expect(error.status).toBe(status);
+    expect(error.retryable).toBe(retryable);
+    expect(error.message).toContain('failed');
+  });
+
+  it('treats network failures without a code as transient', () => {
+    const error = classifyDatabaseError('findAll', 'tools', {
+      code: '',
+      message: 'TypeError: fetch failed',
+    });
+    expect(error).toBeInstanceOf(TransientDatabaseError);
+  });
+
+  it('falls back to DatabaseError for unknown codes', () => {
+    const error = classifyDatabaseError('findAll', 'tools', { code: 'XX000', message: 'internal' });
+
+    expect(error.constructor).toBe(DatabaseError);
+    expect(error.status).toBe(500);
+    expect(error.retryable).toBe(false);
+  });
+});
+
+describe('toErrorResponse', () => {
+  it('never exposes SQL details for database errors', () => {
+    const error = classifyDatabaseError('create', 'tools', {
+      code: '42501',
+      message: 'new row violates row-level security policy for table "tools"',
+    });
+    const response = toErrorResponse(error);
+
+    expect(response.status).toBe(403);
+    expect(response.message).not.toContain('row-level security');
+  });
+
+  it('keeps validation and not-found messages', () => {
+    expect(toErrorResponse(new ValidationError('name', 'is required'))).toEqual({
+      status: 400,
+      message: 'Validation error on name: is required',
+      retryable: false,
+    });
+    expect(toErrorResponse(new NotFoundError('Tool', 'x')).status).toBe(404);
+  });
+
+  it('returns a generic 500 for unknown errors', () => {
+    const response = toErrorResponse(new Error('secret internals'));
+    expect(response.status).toBe(500);
+    expect(response.message).not.toContain('secret');
+  });
+});
+
+describe('parseErrorDigest', () => {
+  it('round-trips status and retryability through the digest', () => {
+    const error = classifyDatabaseError('findAll', 'tools', { code: '08006', message: 'down' });
+    expect(parseErrorDigest(error.digest)).toEqual({ status: 503, retryable: true });
+  });
+
+  it('returns null for digests from other errors', () => {
+    expect(parseErrorDigest('2837461923')).toBeNull();
+    expect(parseErrorDigest(undefined)).toBeNull();
+  });
+});
@@ -69,6 +69,7 @@ export const CATEGORY_GROUP_COLUMNS = {
 /** Maps application property names to database column names for faqs table */
 export const FAQ_COLUMNS = {
   id: 'id',
+  scope: 'scope',
   question: 'question',
   answer: 'answer',
   displayOrder: 'display_order',
@@ -80,6 +81,8 @@ export const FEATURED_TOOL_COLUMNS = {
   id: 'id',
   toolId: 'tool_id',
   displayOrder: 'display_order',
+  startsAt: 'starts_at',
+  endsAt: 'ends_at',
   createdAt: 'created_at',
 } as const;
 
@@ -100,6 +103,17 @@ export const USER_FAVORITE_COLUMNS = {
   createdAt: 'created_at',
 } as const;
 
+/** Maps application property names to database column names for admin_users table */
+export const ADMIN_USER_COLUMNS = {
+  id: 'id',
+  userId: 'user_id',
+  email: 'email',
+  role: 'role',
+  invitedBy: 'invited_by',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+} as const;
+
 export type ToolColumnKey = keyof typeof TOOL_COLUMNS;
 export type CategoryColumnKey = keyof typeof CATEGORY_COLUMNS;
 export type SubcategoryColumnKey = keyof typeof SUBCATEGORY_COLUMNS;
@@ -12,6 +12,7 @@ export {
   FEATURED_TOOL_COLUMNS,
   TOOL_CATEGORY_COLUMNS,
   USER_FAVORITE_COLUMNS,
+  ADMIN_USER_COLUMNS,
   type ToolColumnKey,
   type CategoryColumnKey,
   type SubcategoryColumnKey,
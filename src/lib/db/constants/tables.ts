@@ -11,6 +11,19 @@ export const TABLES = {
   FEATURED_TOOLS: 'featured_tools',
   FAQS: 'faqs',
   USER_FAVORITES: 'user_favorites',
+  USER_PINNED_TOOLS: 'user_pinned_tools',
+  REVIEWS: 'reviews',
+  REVIEW_VOTES: 'review_votes',
+  REVIEW_REPORTS: 'review_reports',
+  USER_BANS: 'user_bans',
+  COLLECTIONS: 'collections',
+  COLLECTION_ITEMS: 'collection_items',
+  ADMIN_USERS: 'admin_users',
+  AUDIT_LOG: 'audit_log',
+  TOOL_REVISIONS: 'tool_revisions',
+  SLUG_REDIRECTS: 'slug_redirects',
+  SCRAPER_RUNS: 'scraper_runs',
+  TOOL_SUBMISSIONS: 'tool_submissions',
 } as const;
 
 export type TableName = (typeof TABLES)[keyof typeof TABLES];
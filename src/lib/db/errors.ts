@@ -1,14 +1,68 @@
 /**
  * Custom error types for database operations.
  * Provides structured error handling with context for different failure modes.
+ *
+ * Repository failures are classified by Postgres/PostgREST error code into
+ * DatabaseError subclasses, each carrying an HTTP status and a retryable flag
+ * so callers can decide what to show and whether to try again.
  */
 
+/**
+ * Prefix of the digest carried by database errors. Next.js forwards an
+ * existing digest to error boundaries, where parseErrorDigest reads it back.
+ */
+const DATABASE_ERROR_DIGEST_PREFIX = 'DB_ERROR';
+
+/**
+ * Structured error payload for server actions and route handlers.
+ */
+export interface ErrorResponse {
+  /** HTTP status code */
+  status: number;
+  /** Message safe to show to end users */
+  message: string;
+  /** Whether retrying the same request may succeed */
+  retryable: boolean;
+}
+
+/**
+ * Extracts the Postgres/PostgREST error code from a Supabase error.
+ */
+function getErrorCode(error: unknown): string | undefined {
+  if (error && typeof error === 'object' && 'code' in error) {
+    const code = (error as { code: unknown }).code;
+    return typeof code === 'string' && code !== '' ? code : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Extracts a message from an Error or a plain PostgREST error object.
+ */
+function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  if (error && typeof error === 'object' && 'message' in error) {
+    return String((error as { message: unknown }).message);
+  }
+  return String(error);
+}
+
 /**
  * Error thrown when a database operation fails.
  * Contains context about the operation, table, and original error.
+ * Unclassified failures use this class directly.
  */
 export class DatabaseError extends Error {
-  public readonly name = 'DatabaseError';
+  public readonly name: string = 'DatabaseError';
+  /** Postgres/PostgREST error code, if the failure carried one */
+  public readonly code: string | undefined;
+  /** Whether retrying the same operation may succeed */
+  public readonly retryable: boolean = false;
+  /** HTTP status to report for this failure */
+  public readonly status: number = 500;
+  private readonly errorId = Math.random().toString(36).slice(2, 10);
 
   constructor(
     public readonly operation: string,
@@ -17,11 +71,195 @@ export class DatabaseError extends Error {
     public readonly originalError?: unknown
   ) {
     super(`Database error in ${operation} on ${table}: ${message}`);
+    this.code = getErrorCode(originalError);
     // Maintains proper stack trace for where error was thrown (V8 engines)
     if (Error.captureStackTrace) {
       Error.captureStackTrace(this, DatabaseError);
     }
   }
+
+  /**
+   * Message safe to show to end users; never includes SQL details.
+   */
+  get userMessage(): string {
+    return 'A database error occurred. Please try again later.';
+  }
+
+  /**
+   * Digest forwarded to Next.js error boundaries in place of the message,
+   * encoding the status and retryability. See parseErrorDigest.
+   */
+  get digest(): string {
+    return `${DATABASE_ERROR_DIGEST_PREFIX}:${this.status}:${this.retryable ? 1 : 0}:${this.errorId}`;
+  }
+
+  /**
+   * Returns a structured error response
+   */
+  toResponse(): ErrorResponse {
+    return {
+      status: this.status,
+      message: this.userMessage,
+      retryable: this.retryable,
+    };
+  }
+}
+
+/**
+ * Error thrown when a write collides with an existing record,
+ * such as a duplicate slug (Postgres unique violation 23505).
+ * The conflicting field and value are parsed from the Postgres error details.
+ */
+export class ConflictError extends DatabaseError {
+  public readonly name = 'ConflictError';
+  public readonly status = 409;
+  /** Column of the violated unique key, if known */
+  public readonly field: string | undefined;
+  /** Conflicting value, if known */
+  public readonly value: string | undefined;
+
+  constructor(operation: string, table: string, message: string, originalError?: unknown) {
+    super(operation, table, message, originalError);
+
+    // Postgres details look like: Key (slug)=(chatgpt) already exists.
+    const details = (originalError as { details?: unknown } | undefined)?.details;
+    const match = typeof details === 'string' ? /Key \((.+?)\)=\((.*)\)/.exec(details) : null;
+    this.field = match?.[1];
+    this.value = match?.[2];
+  }
+
+  get userMessage(): string {
+    return this.field && this.value !== undefined
+      ? `The ${this.field} "${this.value}" is already in use.`
+      : 'This record already exists.';
+  }
+}
+
+/**
+ * Error thrown when a write references a missing record, or a delete is
+ * blocked by records still referencing it (Postgres 23503).
+ */
+export class ForeignKeyError extends DatabaseError {
+  public readonly name = 'ForeignKeyError';
+  public readonly status = 409;
+
+  get userMessage(): string {
+    return 'This change refers to a record that does not exist or is still in use.';
+  }
+}
+
+/**
+ * Error thrown when a value breaks a NOT NULL, CHECK or type constraint
+ * (Postgres 23502, 23514, 22xxx).
+ */
+export class ConstraintViolationError extends DatabaseError {
+  public readonly name = 'ConstraintViolationError';
+  public readonly status = 400;
+
+  get userMessage(): string {
+    return 'Some of the submitted values are missing or invalid.';
+  }
+}
+
+/**
+ * Error thrown when row-level security or grants deny an operation
+ * (Postgres 42501, PostgREST JWT errors).
+ */
+export class PermissionError extends DatabaseError {
+  public readonly name = 'PermissionError';
+  public readonly status = 403;
+
+  get userMessage(): string {
+    return 'You do not have permission to perform this action.';
+  }
+}
+
+/**
+ * Error thrown for failures that may succeed on retry: dropped connections,
+ * timeouts, serialization failures, deadlocks and exhausted resources.
+ */
+export class TransientDatabaseError extends DatabaseError {
+  public readonly name: string = 'TransientDatabaseError';
+  public readonly status = 503;
+  public readonly retryable = true;
+
+  get userMessage(): string {
+    return 'The database is temporarily unavailable. Please try again in a few moments.';
+  }
+}
+
+/**
+ * Error thrown without contacting the database while a table's circuit
+ * breaker is open after repeated transient failures.
+ */
+export class CircuitOpenError extends TransientDatabaseError {
+  public readonly name = 'CircuitOpenError';
+
+  constructor(operation: string, table: string) {
+    super(operation, table, 'circuit open after repeated failures, failing fast');
+  }
+}
+
+/**
+ * Checks whether a code or message describes a transient failure.
+ */
+function isTransientFailure(code: string | undefined, message: string): boolean {
+  if (code) {
+    return (
+      code.startsWith('08') || // connection exception
+      code.startsWith('53') || // insufficient resources
+      code.startsWith('57P') || // operator intervention (shutdown, restart)
+      code === '57014' || // statement timeout / query canceled
+      code === '40001' || // serialization failure
+      code === '40P01' || // deadlock detected
+      ['PGRST000', 'PGRST001', 'PGRST002', 'PGRST003'].includes(code) // PostgREST cannot reach the database
+    );
+  }
+  // supabase-js reports network failures without a code
+  return /fetch failed|network|ECONNRESET|ECONNREFUSED|ETIMEDOUT|timed? ?out/i.test(message);
+}
+
+/**
+ * Classifies a Supabase/PostgREST failure into the matching DatabaseError subclass.
+ * Repositories call this from their wrapError helper.
+ *
+ * @param operation - Repository operation that failed
+ * @param table - Table the operation ran against
+ * @param error - Error returned by supabase-js
+ * @returns The classified error, DatabaseError if no class matches
+ *
+ * @example
+ * ```ts
+ * const { error } = await supabase.from('tools').insert(row);
+ * if (error) {
+ *   throw classifyDatabaseError('create', 'tools', error); // ConflictError for 23505
+ * }
+ * ```
+ */
+export function classifyDatabaseError(
+  operation: string,
+  table: string,
+  error: unknown
+): DatabaseError {
+  const code = getErrorCode(error);
+  const message = getErrorMessage(error);
+
+  if (code === '23505') {
+    return new ConflictError(operation, table, message, error);
+  }
+  if (code === '23503') {
+    return new ForeignKeyError(operation, table, message, error);
+  }
+  if (code === '23502' || code === '23514' || code?.startsWith('22')) {
+    return new ConstraintViolationError(operation, table, message, error);
+  }
+  if (code === '42501' || code === 'PGRST301' || code === 'PGRST302') {
+    return new PermissionError(operation, table, message, error);
+  }
+  if (isTransientFailure(code, message)) {
+    return new TransientDatabaseError(operation, table, message, error);
+  }
+  return new DatabaseError(operation, table, message, error);
 }
 
 /**
@@ -30,6 +268,8 @@ export class DatabaseError extends Error {
  */
 export class NotFoundError extends Error {
   public readonly name = 'NotFoundError';
+  public readonly status = 404;
+  public readonly retryable = false;
 
   constructor(
     public readonly entity: string,
@@ -48,6 +288,8 @@ export class NotFoundError extends Error {
  */
 export class ValidationError extends Error {
   public readonly name = 'ValidationError';
+  public readonly status = 400;
+  public readonly retryable = false;
 
   constructor(
     public readonly field: string,
@@ -59,3 +301,48 @@ export class ValidationError extends Error {
     }
   }
 }
+
+/**
+ * Converts any thrown value into a response safe to show to end users.
+ * Unknown errors become a generic 500 so internals never leak.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await createTool(input);
+ * } catch (e) {
+ *   const { status, message, retryable } = toErrorResponse(e);
+ * }
+ * ```
+ */
+export function toErrorResponse(error: unknown): ErrorResponse {
+  if (error instanceof DatabaseError) {
+    return error.toResponse();
+  }
+  if (error instanceof NotFoundError || error instanceof ValidationError) {
+    return { status: error.status, message: error.message, retryable: false };
+  }
+  return {
+    status: 500,
+    message: 'Something went wrong. Please try again later.',
+    retryable: false,
+  };
+}
+
+/**
+ * Reads the status and retryability back from a database error digest.
+ * Error boundaries only receive the digest in production builds.
+ *
+ * @returns The parsed details, or null if the digest is not from a DatabaseError
+ */
+export function parseErrorDigest(
+  digest: string | undefined
+): Pick<ErrorResponse, 'status' | 'retryable'> | null {
+  const match = digest?.match(new RegExp(`^${DATABASE_ERROR_DIGEST_PREFIX}:(\\d{3}):([01]):`));
+
+  if (!match) {
+    return null;
+  }
+
+  return { status: Number(match[1]), retryable: match[2] === '1' };
+}
@@ -42,4 +42,14 @@ export {
   DatabaseError,
   NotFoundError,
   ValidationError,
+  ConflictError,
+  ForeignKeyError,
+  ConstraintViolationError,
+  PermissionError,
+  TransientDatabaseError,
+  CircuitOpenError,
+  classifyDatabaseError,
+  toErrorResponse,
+  parseErrorDigest,
+  type ErrorResponse,
 } from './errors';
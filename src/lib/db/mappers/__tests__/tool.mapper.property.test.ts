@@ -11,10 +11,11 @@ import * as fc from 'fast-check';
 import {
   mapToolRowToTool,
   mapToolWithCategories,
+  mapToolSearchRow,
   mapToolToInsert,
   TOOL_DEFAULTS,
 } from '../tool.mapper';
-import type { ToolRow, ToolWithCategories } from '../../repositories/tools.repository';
+import type { ToolRow, ToolWithCategories, ToolSearchRow } from '../../repositories/tools.repository';
 
 /**
  * Helper to generate a valid ToolRow with snake_case columns
@@ -43,6 +44,7 @@ function createToolRow(overrides: Partial<ToolRow> = {}): ToolRow {
     metadata: null,
     created_at: '2024-01-01T00:00:00Z',
     updated_at: '2024-01-02T00:00:00Z',
+    deleted_at: null,
     ...overrides,
   };
 }
@@ -324,6 +326,7 @@ describe('Tool Mapper Property Tests', () => {
               metadata: null,
               created_at: null,
               updated_at: null,
+              deleted_at: null,
             };
 
             const tool = mapToolRowToTool(row);
@@ -483,6 +486,7 @@ describe('Tool Mapper Property Tests', () => {
               metadata: insertData.metadata ?? null,
               created_at: '2024-01-01T00:00:00Z',
               updated_at: '2024-01-01T00:00:00Z',
+              deleted_at: null,
             };
 
             // Map back to application type (snake_case -> camelCase)
@@ -617,4 +621,44 @@ describe('Tool Mapper Property Tests', () => {
       expect(tool.categories).toEqual(['AI']);
     });
   });
+
+  describe('mapToolSearchRow', () => {
+    it('should carry rank, snippet and fuzzy flag alongside the mapped tool (property test with 100 runs)', () => {
+      fc.assert(
+        fc.property(
+          fc.float({ min: 0, max: 10, noNaN: true }),
+          fc.string({ minLength: 1, maxLength: 200 }),
+          fc.boolean(),
+          (rank, snippet, fuzzyMatch) => {
+            const row: ToolSearchRow = {
+              ...createToolRow(),
+              rank,
+              snippet,
+              fuzzy_match: fuzzyMatch,
+            };
+
+            const result = mapToolSearchRow(row);
+
+            expect(result.rank).toBe(rank);
+            expect(result.snippet).toBe(snippet);
+            expect(result.isFuzzyMatch).toBe(fuzzyMatch);
+            expect(result.name).toBe(row.name);
+            expect(result.shortDescription).toBe(row.short_description);
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should fall back to the short description when the snippet is empty', () => {
+      const row: ToolSearchRow = {
+        ...createToolRow({ short_description: 'Fallback text' }),
+        rank: 0.5,
+        snippet: '',
+        fuzzy_match: false,
+      };
+
+      expect(mapToolSearchRow(row).snippet).toBe('Fallback text');
+    });
+  });
 });
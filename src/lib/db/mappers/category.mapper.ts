@@ -45,6 +45,9 @@ export function mapCategoryRowToCategory(row: CategoryRow): Category {
     description: row.description ?? CATEGORY_DEFAULTS.description,
     count: row.tool_count ?? CATEGORY_DEFAULTS.toolCount,
     toolCount: row.tool_count ?? CATEGORY_DEFAULTS.toolCount,
+    iconName: row.icon || undefined,
+    groupId: row.group_id ?? null,
+    displayOrder: row.display_order ?? CATEGORY_DEFAULTS.displayOrder,
   };
 }
 
@@ -70,6 +73,9 @@ export function mapCategoryWithToolCount(row: CategoryWithToolCount): Category {
     description: row.description ?? CATEGORY_DEFAULTS.description,
     count: row.computed_tool_count ?? CATEGORY_DEFAULTS.toolCount,
     toolCount: row.computed_tool_count ?? CATEGORY_DEFAULTS.toolCount,
+    iconName: row.icon || undefined,
+    groupId: row.group_id ?? null,
+    displayOrder: row.display_order ?? CATEGORY_DEFAULTS.displayOrder,
   };
 }
 
@@ -94,6 +100,9 @@ export function mapCategoryToInsert(
     name: category.name,
     slug: category.slug,
     description: category.description || null,
+    icon: category.iconName || null,
+    group_id: category.groupId ?? null,
+    display_order: category.displayOrder ?? CATEGORY_DEFAULTS.displayOrder,
     tool_count: category.toolCount ?? null,
   };
 }
@@ -120,6 +129,9 @@ export function mapCategoryToUpdate(
   if (updates.name !== undefined) result.name = updates.name;
   if (updates.slug !== undefined) result.slug = updates.slug;
   if (updates.description !== undefined) result.description = updates.description || null;
+  if (updates.iconName !== undefined) result.icon = updates.iconName || null;
+  if (updates.groupId !== undefined) result.group_id = updates.groupId;
+  if (updates.displayOrder !== undefined) result.display_order = updates.displayOrder;
   if (updates.toolCount !== undefined) result.tool_count = updates.toolCount;
 
   return result;
@@ -22,6 +22,7 @@
 export {
   mapToolRowToTool,
   mapToolWithCategories,
+  mapToolSearchRow,
   mapToolToInsert,
   mapToolToUpdate,
   TOOL_DEFAULTS,
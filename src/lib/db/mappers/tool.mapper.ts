@@ -5,8 +5,14 @@
  * @module tool.mapper
  */
 
-import type { ToolRow, ToolInsert, ToolWithCategories } from '../repositories/tools.repository';
-import type { Tool, PricingType } from '@/lib/types/tool';
+import type {
+  ToolRow,
+  ToolInsert,
+  ToolWithCategories,
+  ToolSearchRow,
+} from '../repositories/tools.repository';
+import type { Json } from '@/lib/supabase/types';
+import type { Tool, ToolChanges, PricingType, ToolSearchResult } from '@/lib/types/tool';
 
 /**
  * Default values applied when database columns are null.
@@ -46,6 +52,16 @@ function validatePricing(pricing: string | null): PricingType {
   return 'Freemium';
 }
 
+/**
+ * Returns JSON metadata as an object, or undefined if it is not one.
+ */
+function toMetadata(metadata: Json | null): Record<string, unknown> | undefined {
+  if (metadata && typeof metadata === 'object' && !Array.isArray(metadata)) {
+    return metadata as Record<string, unknown>;
+  }
+  return undefined;
+}
+
 /**
  * Maps a database tool row (snake_case) to an application Tool type (camelCase).
  * Applies default values for null fields.
@@ -69,7 +85,9 @@ export function mapToolRowToTool(row: ToolRow): Tool {
     shortDescription: row.short_description ?? TOOL_DEFAULTS.shortDescription,
     image: row.image_url ?? TOOL_DEFAULTS.image,
     websiteUrl: row.website_url,
+    externalUrl: row.external_url ?? undefined,
     pricing: validatePricing(row.pricing),
+    freeTierDetails: row.free_tier_details ?? undefined,
     categories: [], // Will be populated by mapToolWithCategories if needed
     tags: row.tags ?? TOOL_DEFAULTS.tags,
     savedCount: row.saved_count ?? TOOL_DEFAULTS.savedCount,
@@ -79,8 +97,10 @@ export function mapToolRowToTool(row: ToolRow): Tool {
     isNew: row.is_new ?? TOOL_DEFAULTS.isNew,
     isFeatured: row.is_featured ?? TOOL_DEFAULTS.isFeatured,
     dateAdded: row.created_at ?? undefined,
+    archivedAt: row.deleted_at ?? undefined,
     monthlyVisits: row.monthly_visits ?? undefined,
     changePercentage: row.change_percentage ?? undefined,
+    metadata: toMetadata(row.metadata),
   };
 }
 
@@ -111,6 +131,31 @@ export function mapToolWithCategories(row: ToolWithCategories): Tool {
   };
 }
 
+/**
+ * Maps a search_tools result row to an application ToolSearchResult.
+ * Falls back to the short description when no snippet was produced.
+ *
+ * @param row - Search row with rank, snippet and fuzzy_match columns
+ * @returns Tool with search relevance fields
+ *
+ * @example
+ * ```ts
+ * const rows = await toolsRepo.search('chat gtp');
+ * const results = rows.map(mapToolSearchRow);
+ * console.log(results[0].isFuzzyMatch); // true
+ * ```
+ */
+export function mapToolSearchRow(row: ToolSearchRow): ToolSearchResult {
+  const baseTool = mapToolRowToTool(row);
+
+  return {
+    ...baseTool,
+    rank: row.rank ?? 0,
+    snippet: row.snippet || baseTool.shortDescription,
+    isFuzzyMatch: row.fuzzy_match ?? false,
+  };
+}
+
 /**
  * Maps an application Tool object (camelCase) to a database insert type (snake_case).
  * Used when creating or updating tools in the database.
@@ -135,7 +180,9 @@ export function mapToolToInsert(
     short_description: tool.shortDescription || null,
     image_url: tool.image || null,
     website_url: tool.websiteUrl,
+    external_url: tool.externalUrl || null,
     pricing: tool.pricing || 'Freemium',
+    free_tier_details: tool.freeTierDetails || null,
     tags: tool.tags || null,
     saved_count: tool.savedCount ?? null,
     review_count: tool.reviewCount ?? null,
@@ -145,6 +192,7 @@ export function mapToolToInsert(
     is_featured: tool.isFeatured ?? null,
     monthly_visits: tool.monthlyVisits ?? null,
     change_percentage: tool.changePercentage ?? null,
+    metadata: (tool.metadata ?? null) as Json | null,
   };
 }
 
@@ -162,9 +210,7 @@ export function mapToolToInsert(
  * await toolsRepo.update(toolId, dbUpdates);
  * ```
  */
-export function mapToolToUpdate(
-  updates: Partial<Omit<Tool, 'id' | 'dateAdded' | 'categories'>>
-): Record<string, unknown> {
+export function mapToolToUpdate(updates: ToolChanges): Record<string, unknown> {
   const result: Record<string, unknown> = {};
 
   if (updates.name !== undefined) result.name = updates.name;
@@ -173,7 +219,9 @@ export function mapToolToUpdate(
   if (updates.shortDescription !== undefined) result.short_description = updates.shortDescription || null;
   if (updates.image !== undefined) result.image_url = updates.image || null;
   if (updates.websiteUrl !== undefined) result.website_url = updates.websiteUrl;
+  if (updates.externalUrl !== undefined) result.external_url = updates.externalUrl || null;
   if (updates.pricing !== undefined) result.pricing = updates.pricing;
+  if (updates.freeTierDetails !== undefined) result.free_tier_details = updates.freeTierDetails || null;
   if (updates.tags !== undefined) result.tags = updates.tags || null;
   if (updates.savedCount !== undefined) result.saved_count = updates.savedCount;
   if (updates.reviewCount !== undefined) result.review_count = updates.reviewCount;
@@ -183,6 +231,7 @@ export function mapToolToUpdate(
   if (updates.isFeatured !== undefined) result.is_featured = updates.isFeatured;
   if (updates.monthlyVisits !== undefined) result.monthly_visits = updates.monthlyVisits;
   if (updates.changePercentage !== undefined) result.change_percentage = updates.changePercentage;
+  if (updates.metadata !== undefined) result.metadata = updates.metadata;
 
   return result;
 }
@@ -0,0 +1,172 @@
+/**
+ * Property-based tests for category group ordering and membership
+ *
+ * Tests Properties 1-3 of category groups:
+ * - Property 1: Category groups ordered by display_order
+ * - Property 2: Reorder assigns display_order by position
+ * - Property 3: Categories belong to the group set in group_id
+ *
+ * To run these tests, you need to set SUPABASE_SERVICE_ROLE_KEY in your environment.
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fc from 'fast-check';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { createCategoryGroupsRepository, type CategoryGroupsRepository } from '../category-groups.repository';
+import { createCategoriesRepository, type CategoriesRepository } from '../categories.repository';
+import type { Database } from '@/lib/supabase/types';
+import { TABLES } from '../../constants/tables';
+
+// Test configuration
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const shouldSkip = !SUPABASE_URL || !SUPABASE_SERVICE_KEY;
+
+// Helper to generate unique slugs
+function generateUniqueSlug(base: string): string {
+  return `test-${base}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Helper to generate unique group names
+function generateUniqueName(base: string): string {
+  return `Test ${base} ${Date.now()} ${Math.random().toString(36).slice(2, 8)}`;
+}
+
+describe.skipIf(shouldSkip)('Category Group Property Tests', () => {
+  let supabase: SupabaseClient<Database>;
+  let groupsRepo: CategoryGroupsRepository;
+  let categoriesRepo: CategoriesRepository;
+  const testGroupIds: string[] = [];
+  const testCategoryIds: string[] = [];
+
+  beforeAll(() => {
+    supabase = createClient<Database>(SUPABASE_URL!, SUPABASE_SERVICE_KEY!, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+    groupsRepo = createCategoryGroupsRepository(supabase);
+    categoriesRepo = createCategoriesRepository(supabase);
+  });
+
+  afterAll(async () => {
+    // Clean up test data
+    if (testCategoryIds.length > 0) {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await (supabase.from as any)(TABLES.CATEGORIES)
+        .delete()
+        .in('id', testCategoryIds);
+    }
+    if (testGroupIds.length > 0) {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await (supabase.from as any)(TABLES.CATEGORY_GROUPS)
+        .delete()
+        .in('id', testGroupIds);
+    }
+  });
+
+
+  /**
+   * **Feature: category-groups, Property 1: Category groups ordered by display_order**
+   *
+   * *For any* set of groups, findAllOrdered SHALL return them sorted by
+   * display_order in ascending order.
+   */
+  describe('Property 1: Category groups ordered by display_order', () => {
+    // Arbitrary for generating display orders (0-100)
+    const displayOrderArb = fc.nat({ max: 100 });
+
+    it('should return groups sorted by display_order ascending', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          fc.array(displayOrderArb, { minLength: 2, maxLength: 5 }),
+          async (displayOrders) => {
+            const createdIds: string[] = [];
+            for (const displayOrder of displayOrders) {
+              const created = await groupsRepo.create({
+                name: generateUniqueName('Ordered Group'),
+                display_order: displayOrder,
+              });
+              testGroupIds.push(created.id);
+              createdIds.push(created.id);
+            }
+
+            const results = (await groupsRepo.findAllOrdered()).filter((group) =>
+              createdIds.includes(group.id)
+            );
+
+            // Property: Results should be sorted by display_order ascending
+            expect(results).toHaveLength(displayOrders.length);
+            for (let i = 1; i < results.length; i++) {
+              const prevOrder = results[i - 1].display_order ?? 0;
+              const currOrder = results[i].display_order ?? 0;
+              expect(currOrder).toBeGreaterThanOrEqual(prevOrder);
+            }
+          }
+        ),
+        { numRuns: 5 }
+      );
+    }, 20000);
+  });
+
+  /**
+   * **Feature: category-groups, Property 2: Reorder assigns display_order by position**
+   *
+   * *For any* permutation of groups, after reorder each group's display_order
+   * SHALL equal its index in the permutation.
+   */
+  describe('Property 2: Reorder assigns display_order by position', () => {
+    it('should follow the given order after reorder', async () => {
+      const groupIds: string[] = [];
+      for (let i = 0; i < 4; i++) {
+        const created = await groupsRepo.create({
+          name: generateUniqueName(`Reorder Group ${i}`),
+          display_order: i,
+        });
+        testGroupIds.push(created.id);
+        groupIds.push(created.id);
+      }
+
+      await fc.assert(
+        fc.asyncProperty(fc.shuffledSubarray(groupIds, { minLength: 4, maxLength: 4 }), async (order) => {
+          await groupsRepo.reorder(order);
+
+          for (const [index, id] of order.entries()) {
+            const group = await groupsRepo.findById(id);
+            expect(group.display_order).toBe(index);
+          }
+        }),
+        { numRuns: 5 }
+      );
+    }, 20000);
+  });
+
+  /**
+   * **Feature: category-groups, Property 3: Categories belong to the group set in group_id**
+   *
+   * *For any* category, findByGroup SHALL return it only for the group in its
+   * group_id, and deleting that group SHALL leave the category ungrouped.
+   */
+  describe('Property 3: Categories belong to the group set in group_id', () => {
+    it('should move a category between groups and ungroup it when its group is deleted', async () => {
+      const first = await groupsRepo.create({ name: generateUniqueName('First Group') });
+      const second = await groupsRepo.create({ name: generateUniqueName('Second Group') });
+      testGroupIds.push(first.id, second.id);
+
+      const category = await categoriesRepo.create({
+        name: 'Grouped Category',
+        slug: generateUniqueSlug('grouped-category'),
+        group_id: first.id,
+      });
+      testCategoryIds.push(category.id);
+
+      expect((await categoriesRepo.findByGroup(first.id)).map((c) => c.id)).toEqual([category.id]);
+
+      await categoriesRepo.update(category.id, { group_id: second.id });
+      expect(await categoriesRepo.findByGroup(first.id)).toEqual([]);
+      expect((await categoriesRepo.findByGroup(second.id)).map((c) => c.id)).toEqual([category.id]);
+
+      await groupsRepo.delete(second.id);
+      const ungrouped = await categoriesRepo.findById(category.id);
+      expect(ungrouped.group_id).toBeNull();
+    });
+  });
+});
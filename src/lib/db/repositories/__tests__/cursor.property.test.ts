@@ -0,0 +1,147 @@
+/**
+ * Property-based tests for opaque pagination cursors
+ *
+ * **Feature: composable-tool-query, keyset-pagination**
+ * - Property 1: decodeCursor(encodeCursor(payload)) returns the payload
+ * - Property 2: Encoded cursors are URL-safe
+ * - Property 3: Malformed cursors decode to null instead of throwing
+ * - Property 4: toKeysetPage returns at most limit rows and a cursor only when more exist
+ * - Property 5: keysetFilter compares (column, id) in the sort direction
+ *
+ * These tests run without a database connection.
+ */
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  encodeCursor,
+  decodeCursor,
+  decodeKeysetCursor,
+  keysetFilter,
+  toKeysetPage,
+} from '../base.repository';
+
+const payloadArb = fc.dictionary(
+  fc.string({ minLength: 1, maxLength: 20 }),
+  fc.oneof(
+    fc.string({ maxLength: 50 }),
+    fc.integer(),
+    fc.boolean(),
+    fc.constant(null)
+  ),
+  { maxKeys: 5 }
+);
+
+describe('Pagination cursor Property Tests', () => {
+  describe('Property 1: Cursor round-trip', () => {
+    it('should decode to the encoded payload (property test with 100 runs)', () => {
+      fc.assert(
+        fc.property(payloadArb, (payload) => {
+          expect(decodeCursor(encodeCursor(payload))).toEqual(payload);
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should round-trip non-ASCII values', () => {
+      const payload = { name: 'Générateur d’images 画像', offset: 40 };
+      expect(decodeCursor(encodeCursor(payload))).toEqual(payload);
+    });
+  });
+
+  describe('Property 2: Cursors are URL-safe', () => {
+    it('should only contain base64url characters (property test with 100 runs)', () => {
+      fc.assert(
+        fc.property(payloadArb, (payload) => {
+          expect(encodeCursor(payload)).toMatch(/^[A-Za-z0-9_-]*$/);
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('Property 3: Malformed cursors decode to null', () => {
+    it('should return null for missing cursors', () => {
+      expect(decodeCursor(null)).toBeNull();
+      expect(decodeCursor(undefined)).toBeNull();
+      expect(decodeCursor('')).toBeNull();
+    });
+
+    it('should never throw on arbitrary input (property test with 100 runs)', () => {
+      fc.assert(
+        fc.property(fc.string(), (cursor) => {
+          const decoded = decodeCursor(cursor);
+          expect(decoded === null || typeof decoded === 'object').toBe(true);
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('Property 4: toKeysetPage trims the look-ahead row', () => {
+    const rowsArb = fc.array(
+      fc.record({ id: fc.uuid(), created_at: fc.option(fc.string({ maxLength: 10 })) }),
+      { maxLength: 30 }
+    );
+
+    it('should return at most limit items and a cursor iff rows exceed limit (property test with 100 runs)', () => {
+      fc.assert(
+        fc.property(rowsArb, fc.integer({ min: 1, max: 20 }), fc.nat(1000), (rows, limit, total) => {
+          const page = toKeysetPage(rows, limit, 'created_at', total);
+
+          expect(page.items).toEqual(rows.slice(0, limit));
+          expect(page.total).toBe(total);
+          expect(page.nextCursor !== null).toBe(rows.length > limit);
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should encode the last returned row as the next position', () => {
+      const rows = [
+        { id: 'a', created_at: '2024-03-01' },
+        { id: 'b', created_at: '2024-02-01' },
+        { id: 'c', created_at: '2024-01-01' },
+      ];
+      const page = toKeysetPage(rows, 2, 'created_at', 3);
+
+      expect(decodeKeysetCursor(page.nextCursor)).toEqual({
+        value: '2024-02-01',
+        id: 'b',
+        total: 3,
+      });
+    });
+
+    it('should not treat offset cursors as keyset positions', () => {
+      expect(decodeKeysetCursor(encodeCursor({ offset: 20 }))).toBeNull();
+    });
+  });
+
+  describe('Property 5: keysetFilter', () => {
+    it('should use lt for descending and gt for ascending order', () => {
+      const position = { value: 10, id: 'x' };
+
+      expect(keysetFilter('saved_count', false, position)).toBe(
+        'saved_count.lt."10",saved_count.is.null,and(saved_count.eq."10",id.lt."x")'
+      );
+      expect(keysetFilter('saved_count', true, position)).toBe(
+        'saved_count.gt."10",saved_count.is.null,and(saved_count.eq."10",id.gt."x")'
+      );
+    });
+
+    it('should stay inside the NULL tail once the cursor value is null', () => {
+      expect(keysetFilter('review_score', false, { value: null, id: 'x' })).toBe(
+        'and(review_score.is.null,id.lt."x")'
+      );
+    });
+
+    it('should only compare ids when ordering by id', () => {
+      expect(keysetFilter('id', true, { value: 'x', id: 'x' })).toBe('id.gt."x"');
+    });
+
+    it('should quote values containing filter syntax', () => {
+      expect(keysetFilter('name', true, { value: 'a,b) "c"', id: 'x' })).toContain(
+        'name.gt."a,b) \\"c\\""'
+      );
+    });
+  });
+});
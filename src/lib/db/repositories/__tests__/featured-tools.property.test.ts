@@ -0,0 +1,142 @@
+/**
+ * Property-based tests for featured tool scheduling and ordering
+ *
+ * Tests Properties 1-3 of featured tools:
+ * - Property 1: Only slots whose schedule includes now are active
+ * - Property 2: Reorder assigns display_order by position
+ * - Property 3: A tool holds at most one featured slot
+ *
+ * To run these tests, you need to set SUPABASE_SERVICE_ROLE_KEY in your environment.
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fc from 'fast-check';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { createFeaturedToolsRepository, type FeaturedToolsRepository } from '../featured-tools.repository';
+import { createToolsRepository, type ToolsRepository } from '../tools.repository';
+import type { Database } from '@/lib/supabase/types';
+import { TABLES } from '../../constants/tables';
+import { ConflictError } from '../../errors';
+
+// Test configuration
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const shouldSkip = !SUPABASE_URL || !SUPABASE_SERVICE_KEY;
+
+const HOUR = 60 * 60 * 1000;
+
+// Helper to generate unique slugs
+function generateUniqueSlug(base: string): string {
+  return `test-${base}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+describe.skipIf(shouldSkip)('Featured Tools Property Tests', () => {
+  let supabase: SupabaseClient<Database>;
+  let featuredRepo: FeaturedToolsRepository;
+  let toolsRepo: ToolsRepository;
+  const testToolIds: string[] = [];
+
+  beforeAll(() => {
+    supabase = createClient<Database>(SUPABASE_URL!, SUPABASE_SERVICE_KEY!, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+    featuredRepo = createFeaturedToolsRepository(supabase);
+    toolsRepo = createToolsRepository(supabase);
+  });
+
+  afterAll(async () => {
+    // Featured slots cascade with their tools
+    if (testToolIds.length > 0) {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await (supabase.from as any)(TABLES.TOOLS)
+        .delete()
+        .in('id', testToolIds);
+    }
+  });
+
+  async function createTestTool(name: string): Promise<string> {
+    const tool = await toolsRepo.create({
+      name,
+      slug: generateUniqueSlug(name.toLowerCase().replace(/\s+/g, '-')),
+      website_url: 'https://example.com',
+    });
+    testToolIds.push(tool.id);
+    return tool.id;
+  }
+
+  /**
+   * **Feature: featured-tools, Property 1: Only slots whose schedule includes now are active**
+   *
+   * *For any* start and end offsets around now, findActiveWithTools SHALL
+   * return the slot exactly when the start is not after now and the end is
+   * after now, treating missing bounds as open.
+   */
+  describe('Property 1: Only slots whose schedule includes now are active', () => {
+    // Offsets in hours from now; null leaves the bound open
+    const offsetArb = fc.option(fc.integer({ min: -48, max: 48 }).filter((hours) => hours !== 0), { nil: null });
+
+    it('should return a slot only while its schedule is running', async () => {
+      const toolId = await createTestTool('Scheduled Tool');
+      const slot = await featuredRepo.create({ tool_id: toolId, display_order: 0 });
+
+      await fc.assert(
+        fc.asyncProperty(offsetArb, offsetArb, async (startOffset, endOffset) => {
+          fc.pre(startOffset === null || endOffset === null || endOffset > startOffset);
+
+          const now = Date.now();
+          await featuredRepo.update(slot.id, {
+            starts_at: startOffset === null ? null : new Date(now + startOffset * HOUR).toISOString(),
+            ends_at: endOffset === null ? null : new Date(now + endOffset * HOUR).toISOString(),
+          });
+
+          const active = await featuredRepo.findActiveWithTools(new Date(now));
+          const expected = (startOffset === null || startOffset < 0) && (endOffset === null || endOffset > 0);
+
+          expect(active.some((row) => row.id === slot.id)).toBe(expected);
+        }),
+        { numRuns: 10 }
+      );
+    }, 30000);
+  });
+
+  /**
+   * **Feature: featured-tools, Property 2: Reorder assigns display_order by position**
+   *
+   * *For any* permutation of featured tools, after reorder each slot's
+   * display_order SHALL equal its tool's index in the permutation.
+   */
+  describe('Property 2: Reorder assigns display_order by position', () => {
+    it('should follow the given order after reorder', async () => {
+      const toolIds: string[] = [];
+      for (let i = 0; i < 3; i++) {
+        const toolId = await createTestTool(`Reorder Tool ${i}`);
+        await featuredRepo.create({ tool_id: toolId, display_order: i });
+        toolIds.push(toolId);
+      }
+
+      await fc.assert(
+        fc.asyncProperty(fc.shuffledSubarray(toolIds, { minLength: 3, maxLength: 3 }), async (order) => {
+          await featuredRepo.reorder(order);
+
+          const slots = (await featuredRepo.findAllWithTools()).filter((row) => order.includes(row.tool_id));
+          expect(slots.map((row) => row.tool_id)).toEqual(order);
+        }),
+        { numRuns: 5 }
+      );
+    }, 20000);
+  });
+
+  /**
+   * **Feature: featured-tools, Property 3: A tool holds at most one featured slot**
+   *
+   * Featuring a tool twice SHALL fail with ConflictError.
+   */
+  describe('Property 3: A tool holds at most one featured slot', () => {
+    it('should reject a second slot for the same tool', async () => {
+      const toolId = await createTestTool('Duplicate Featured Tool');
+      await featuredRepo.create({ tool_id: toolId });
+
+      await expect(featuredRepo.create({ tool_id: toolId })).rejects.toThrow(ConflictError);
+    });
+  });
+});
@@ -194,6 +194,9 @@ describe.skipIf(shouldSkip)('Ordering Property Tests', () => {
     // Arbitrary for generating display orders (0-100)
     const displayOrderArb = fc.nat({ max: 100 });
 
+    // Scope the test FAQs are created in
+    const scope = 'category:test-faq-ordering';
+
     it('should return FAQs sorted by display_order ascending (property test with 100 runs)', async () => {
       await fc.assert(
         fc.asyncProperty(
@@ -210,6 +213,7 @@ describe.skipIf(shouldSkip)('Ordering Property Tests', () => {
 
             // Create FAQs with various display_orders
             const faqs: FaqInsert[] = trimmedQuestions.map((question, i) => ({
+              scope,
               question: `${question} ${Date.now()}-${i}?`,
               answer: trimmedAnswers[i],
               display_order: trimmedOrders[i],
@@ -238,9 +242,9 @@ describe.skipIf(shouldSkip)('Ordering Property Tests', () => {
     it('should handle FAQs with same display_order', async () => {
       // Create FAQs with same display_order
       const faqs: FaqInsert[] = [
-        { question: `Same Order FAQ A ${Date.now()}?`, answer: 'Answer A for same order test', display_order: 10 },
-        { question: `Same Order FAQ B ${Date.now()}?`, answer: 'Answer B for same order test', display_order: 10 },
-        { question: `Same Order FAQ C ${Date.now()}?`, answer: 'Answer C for same order test', display_order: 10 },
+        { scope, question: `Same Order FAQ A ${Date.now()}?`, answer: 'Answer A for same order test', display_order: 10 },
+        { scope, question: `Same Order FAQ B ${Date.now()}?`, answer: 'Answer B for same order test', display_order: 10 },
+        { scope, question: `Same Order FAQ C ${Date.now()}?`, answer: 'Answer C for same order test', display_order: 10 },
       ];
 
       for (const faq of faqs) {
@@ -259,6 +263,7 @@ describe.skipIf(shouldSkip)('Ordering Property Tests', () => {
     it('should handle FAQs with null display_order', async () => {
       // Create FAQ without display_order (will default to null or 0)
       const faq: FaqInsert = {
+        scope,
         question: `Null Order FAQ ${Date.now()}?`,
         answer: 'Answer for null order test',
       };
@@ -278,9 +283,9 @@ describe.skipIf(shouldSkip)('Ordering Property Tests', () => {
       // Create FAQs with specific display_orders to verify ordering
       const timestamp = Date.now();
       const faqs: FaqInsert[] = [
-        { question: `Order Test 3 ${timestamp}?`, answer: 'Answer 3', display_order: 30 },
-        { question: `Order Test 1 ${timestamp}?`, answer: 'Answer 1', display_order: 10 },
-        { question: `Order Test 2 ${timestamp}?`, answer: 'Answer 2', display_order: 20 },
+        { scope, question: `Order Test 3 ${timestamp}?`, answer: 'Answer 3', display_order: 30 },
+        { scope, question: `Order Test 1 ${timestamp}?`, answer: 'Answer 1', display_order: 10 },
+        { scope, question: `Order Test 2 ${timestamp}?`, answer: 'Answer 2', display_order: 20 },
       ];
 
       const createdIds: string[] = [];
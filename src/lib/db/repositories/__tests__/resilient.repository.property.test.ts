@@ -0,0 +1,202 @@
+/**
+ * Property-based tests for the repository resilience layer
+ *
+ * **Feature: repository-resilience**
+ * - Property 1: Transient read failures are retried at most `retries` times
+ * - Property 2: Writes and non-transient failures are never retried
+ * - Property 3: The circuit opens after `failureThreshold` transient failures and fails fast
+ * - Property 4: A half-open circuit closes again after a successful trial call
+ * - Property 5: Last-known-good results are served while reads fail transiently
+ *
+ * These tests run without a database connection.
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  withResilience,
+  getCircuitSnapshots,
+  resetResilienceState,
+} from '../resilient.repository';
+import {
+  CircuitOpenError,
+  ConflictError,
+  TransientDatabaseError,
+} from '../../errors';
+
+const transient = () => new TransientDatabaseError('findAll', 'tools', 'connection reset');
+
+/**
+ * Builds a fake repository whose methods fail `failures` times before succeeding.
+ */
+function createFlakyRepo(failures: number, error: () => Error = transient) {
+  let remaining = failures;
+  const calls = { findAll: 0, create: 0 };
+
+  const repo = {
+    async findAll(): Promise<string[]> {
+      calls.findAll++;
+      if (remaining > 0) {
+        remaining--;
+        throw error();
+      }
+      return ['tool'];
+    },
+    async create(): Promise<string> {
+      calls.create++;
+      if (remaining > 0) {
+        remaining--;
+        throw error();
+      }
+      return 'created';
+    },
+  };
+
+  return { repo, calls };
+}
+
+describe('Repository resilience Property Tests', () => {
+  beforeEach(() => {
+    resetResilienceState();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  describe('Property 1: Transient read failures are retried', () => {
+    it('should call a read at most retries + 1 times (property test with 50 runs)', async () => {
+      await fc.assert(
+        fc.asyncProperty(fc.nat(5), fc.nat(5), async (failures, retries) => {
+          resetResilienceState();
+          const { repo, calls } = createFlakyRepo(failures);
+          const resilient = withResilience(repo, 'tools', {
+            retries,
+            baseDelayMs: 0,
+            failureThreshold: 100,
+          });
+
+          if (failures <= retries) {
+            await expect(resilient.findAll()).resolves.toEqual(['tool']);
+            expect(calls.findAll).toBe(failures + 1);
+          } else {
+            await expect(resilient.findAll()).rejects.toBeInstanceOf(TransientDatabaseError);
+            expect(calls.findAll).toBe(retries + 1);
+          }
+        }),
+        { numRuns: 50 }
+      );
+    });
+  });
+
+  describe('Property 2: Writes and non-transient failures are not retried', () => {
+    it('should not retry writes', async () => {
+      const { repo, calls } = createFlakyRepo(1);
+      const resilient = withResilience(repo, 'tools', { baseDelayMs: 0 });
+
+      await expect(resilient.create()).rejects.toBeInstanceOf(TransientDatabaseError);
+      expect(calls.create).toBe(1);
+    });
+
+    it('should not retry or count non-transient failures', async () => {
+      const { repo, calls } = createFlakyRepo(3, () => new ConflictError('create', 'tools', 'duplicate'));
+      const resilient = withResilience(repo, 'tools', { baseDelayMs: 0, failureThreshold: 1 });
+
+      await expect(resilient.findAll()).rejects.toBeInstanceOf(ConflictError);
+      expect(calls.findAll).toBe(1);
+      expect(getCircuitSnapshots()[0].state).toBe('closed');
+    });
+  });
+
+  describe('Property 3: Circuit opens and fails fast', () => {
+    it('should open after failureThreshold failed calls and stop calling the database', async () => {
+      const { repo, calls } = createFlakyRepo(Infinity);
+      const resilient = withResilience(repo, 'categories', {
+        retries: 0,
+        failureThreshold: 3,
+        resetTimeoutMs: 60_000,
+      });
+
+      for (let i = 0; i < 3; i++) {
+        await expect(resilient.findAll()).rejects.toBeInstanceOf(TransientDatabaseError);
+      }
+
+      await expect(resilient.findAll()).rejects.toBeInstanceOf(CircuitOpenError);
+      expect(calls.findAll).toBe(3);
+
+      const [snapshot] = getCircuitSnapshots();
+      expect(snapshot.table).toBe('categories');
+      expect(snapshot.state).toBe('open');
+      expect(snapshot.consecutiveFailures).toBe(3);
+      expect(snapshot.openedAt).not.toBeNull();
+    });
+
+    it('should share one circuit per table across repository instances', async () => {
+      const first = withResilience(createFlakyRepo(Infinity).repo, 'tools', {
+        retries: 0,
+        failureThreshold: 1,
+      });
+      const second = createFlakyRepo(0);
+
+      await expect(first.findAll()).rejects.toBeInstanceOf(TransientDatabaseError);
+      await expect(withResilience(second.repo, 'tools').findAll()).rejects.toBeInstanceOf(
+        CircuitOpenError
+      );
+      expect(second.calls.findAll).toBe(0);
+    });
+  });
+
+  describe('Property 4: Half-open trial closes the circuit', () => {
+    it('should close the circuit after a successful call once the reset timeout passed', async () => {
+      const { repo } = createFlakyRepo(1);
+      const resilient = withResilience(repo, 'tools', {
+        retries: 0,
+        failureThreshold: 1,
+        resetTimeoutMs: 0,
+      });
+
+      await expect(resilient.findAll()).rejects.toBeInstanceOf(TransientDatabaseError);
+      expect(getCircuitSnapshots()[0].state).toBe('open');
+
+      await expect(resilient.findAll()).resolves.toEqual(['tool']);
+      expect(getCircuitSnapshots()[0].state).toBe('closed');
+      expect(getCircuitSnapshots()[0].consecutiveFailures).toBe(0);
+    });
+  });
+
+  describe('Property 5: Last-known-good fallback', () => {
+    it('should serve the cached result when a read fails transiently', async () => {
+      let online = true;
+      const calls: string[] = [];
+      const repo = {
+        async findBySlug(slug: string) {
+          calls.push(slug);
+          if (!online) {
+            throw transient();
+          }
+          return { slug };
+        },
+      };
+      const resilient = withResilience(repo, 'tools', { retries: 0, cache: true });
+
+      await expect(resilient.findBySlug('chatgpt')).resolves.toEqual({ slug: 'chatgpt' });
+
+      online = false;
+      await expect(resilient.findBySlug('chatgpt')).resolves.toEqual({ slug: 'chatgpt' });
+      await expect(resilient.findBySlug('claude')).rejects.toBeInstanceOf(TransientDatabaseError);
+    });
+
+    it('should not serve cached results unless caching is enabled', async () => {
+      let online = true;
+      const repo = {
+        async findAll() {
+          if (!online) {
+            throw transient();
+          }
+          return ['tool'];
+        },
+      };
+      const resilient = withResilience(repo, 'tools', { retries: 0 });
+
+      await resilient.findAll();
+      online = false;
+      await expect(resilient.findAll()).rejects.toBeInstanceOf(TransientDatabaseError);
+    });
+  });
+});
@@ -4,6 +4,10 @@
  * Tests Properties 8-9 from the design document:
  * - Property 8: Tool-category link/unlink consistency
  * - Property 9: BulkUpsert returns correct count
+ * - Property 10: Tool save with categories is atomic
+ * - Property 11: Archived tools are hidden from public queries until restored
+ * - Property 12: Renamed slugs resolve to the current slug
+ * - Property 13: Merging categories keeps every tool link
  *
  * To run these tests, you need to set SUPABASE_SERVICE_ROLE_KEY in your environment.
  */
@@ -12,8 +16,10 @@ import * as fc from 'fast-check';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { createToolsRepository, type ToolsRepository, type ToolInsert } from '../tools.repository';
 import { createCategoriesRepository, type CategoriesRepository, type CategoryInsert } from '../categories.repository';
+import { createSlugRedirectsRepository, type SlugRedirectsRepository } from '../slug-redirects.repository';
 import type { Database } from '@/lib/supabase/types';
 import { TABLES } from '../../constants/tables';
+import { ConflictError, NotFoundError } from '../../errors';
 
 // Test configuration
 const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -30,6 +36,7 @@ describe.skipIf(shouldSkip)('Tools Repository Property Tests', () => {
   let supabase: SupabaseClient<Database>;
   let toolsRepo: ToolsRepository;
   let categoriesRepo: CategoriesRepository;
+  let redirectsRepo: SlugRedirectsRepository;
   const testToolIds: string[] = [];
   const testCategoryIds: string[] = [];
 
@@ -39,9 +46,18 @@ describe.skipIf(shouldSkip)('Tools Repository Property Tests', () => {
     });
     toolsRepo = createToolsRepository(supabase);
     categoriesRepo = createCategoriesRepository(supabase);
+    redirectsRepo = createSlugRedirectsRepository(supabase);
   });
 
   afterAll(async () => {
+    // Redirects reference ids without a foreign key, so remove them explicitly
+    const testIds = [...testToolIds, ...testCategoryIds];
+    if (testIds.length > 0) {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await (supabase.from as any)(TABLES.SLUG_REDIRECTS)
+        .delete()
+        .in('entity_id', testIds);
+    }
     // Clean up test data - delete tool_categories first due to foreign keys
     if (testToolIds.length > 0) {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -319,4 +335,264 @@ describe.skipIf(shouldSkip)('Tools Repository Property Tests', () => {
       expect(newTool!.name).toBe('New Tool');
     });
   });
+
+  /**
+   * **Feature: atomic-tool-save, Property 10: Tool save with categories is atomic**
+   *
+   * *For any* tool saved with a category set, the tool SHALL end up linked to
+   * exactly that set, and a failed link SHALL leave no tool behind.
+   */
+  describe('Property 10: Tool save with categories is atomic', () => {
+    async function createTestCategory(base: string) {
+      const category = await categoriesRepo.create({
+        name: `Atomic ${base}`,
+        slug: generateUniqueSlug(base),
+      });
+      testCategoryIds.push(category.id);
+      return category;
+    }
+
+    it('should create a tool linked to exactly the given categories', async () => {
+      const first = await createTestCategory('atomic-a');
+      const second = await createTestCategory('atomic-b');
+
+      const tool = await toolsRepo.createWithCategories(
+        { name: 'Atomic Tool', slug: generateUniqueSlug('atomic'), website_url: 'https://example.com' },
+        [first.id, second.id]
+      );
+      testToolIds.push(tool.id);
+
+      const withCategories = await toolsRepo.findByIdWithCategories(tool.id);
+      expect(withCategories!.categories.map((c) => c.slug).sort()).toEqual(
+        [first.slug, second.slug].sort()
+      );
+    });
+
+    it('should roll back the tool when a category link fails', async () => {
+      const slug = generateUniqueSlug('atomic-rollback');
+
+      await expect(
+        toolsRepo.createWithCategories(
+          { name: 'Rollback Tool', slug, website_url: 'https://example.com' },
+          ['00000000-0000-0000-0000-000000000000']
+        )
+      ).rejects.toThrow();
+
+      expect(await toolsRepo.findBySlug(slug)).toBeNull();
+    });
+
+    it('should replace the category and tag sets on update', async () => {
+      const first = await createTestCategory('atomic-old');
+      const second = await createTestCategory('atomic-new');
+
+      const tool = await toolsRepo.createWithCategories(
+        {
+          name: 'Replace Tool',
+          slug: generateUniqueSlug('atomic-replace'),
+          website_url: 'https://example.com',
+          tags: ['old'],
+        },
+        [first.id]
+      );
+      testToolIds.push(tool.id);
+
+      const updated = await toolsRepo.updateWithCategories(
+        tool.id,
+        { tags: ['new', ' new ', 'other'] },
+        [second.id]
+      );
+
+      expect(updated.tags).toEqual(['new', 'other']);
+      expect(updated.name).toBe('Replace Tool');
+
+      const withCategories = await toolsRepo.findByIdWithCategories(tool.id);
+      expect(withCategories!.categories.map((c) => c.slug)).toEqual([second.slug]);
+    });
+
+    it('should throw ConflictError for a duplicate slug', async () => {
+      const slug = generateUniqueSlug('atomic-conflict');
+      const tool = await toolsRepo.createWithCategories(
+        { name: 'Conflict Tool', slug, website_url: 'https://example.com' },
+        []
+      );
+      testToolIds.push(tool.id);
+
+      await expect(
+        toolsRepo.createWithCategories(
+          { name: 'Conflict Tool 2', slug, website_url: 'https://example.com' },
+          []
+        )
+      ).rejects.toBeInstanceOf(ConflictError);
+    });
+  });
+
+  /**
+   * **Feature: tool-soft-delete, Property 11: Archived tools are hidden until restored**
+   *
+   * *For any* archived tool, public lookups SHALL NOT return it while findById
+   * and findArchivedPage still do, and restore SHALL make it visible again
+   * with its category links intact.
+   */
+  describe('Property 11: Archived tools are hidden until restored', () => {
+    it('should hide an archived tool from public queries and restore it with its links', async () => {
+      const category = await categoriesRepo.create({
+        name: 'Archive Category',
+        slug: generateUniqueSlug('archive-category'),
+      });
+      testCategoryIds.push(category.id);
+
+      const slug = generateUniqueSlug('archive');
+      const tool = await toolsRepo.createWithCategories(
+        { name: 'Archive Tool', slug, website_url: 'https://example.com' },
+        [category.id]
+      );
+      testToolIds.push(tool.id);
+
+      const archived = await toolsRepo.archive(tool.id);
+      expect(archived.deleted_at).not.toBeNull();
+
+      expect(await toolsRepo.findBySlug(slug)).toBeNull();
+      expect(await toolsRepo.findBySlugWithCategories(slug)).toBeNull();
+      expect(await toolsRepo.findByCategory(category.slug)).toEqual([]);
+      const page = await toolsRepo.findByQuery({ categories: [category.slug] });
+      expect(page.items.map((t) => t.id)).not.toContain(tool.id);
+
+      expect((await toolsRepo.findById(tool.id)).id).toBe(tool.id);
+      const archivedPage = await toolsRepo.findArchivedPage({ limit: 100 });
+      expect(archivedPage.items.map((t) => t.id)).toContain(tool.id);
+
+      const restored = await toolsRepo.restore(tool.id);
+      expect(restored.deleted_at).toBeNull();
+
+      const visible = await toolsRepo.findBySlugWithCategories(slug);
+      expect(visible!.categories.map((c) => c.slug)).toEqual([category.slug]);
+    });
+
+    it('should throw NotFoundError when archiving twice or restoring a live tool', async () => {
+      const tool = await toolsRepo.create({
+        name: 'Archive Twice Tool',
+        slug: generateUniqueSlug('archive-twice'),
+        website_url: 'https://example.com',
+      });
+      testToolIds.push(tool.id);
+
+      await expect(toolsRepo.restore(tool.id)).rejects.toBeInstanceOf(NotFoundError);
+      await toolsRepo.archive(tool.id);
+      await expect(toolsRepo.archive(tool.id)).rejects.toBeInstanceOf(NotFoundError);
+    });
+  });
+
+  /**
+   * **Feature: slug-redirects, Property 12: Renamed slugs resolve to the current slug**
+   *
+   * *For any* chain of slug renames, every former slug SHALL resolve to the
+   * latest slug, and a slug taken back by a live row SHALL stop redirecting.
+   */
+  describe('Property 12: Renamed slugs resolve to the current slug', () => {
+    it('should resolve every former slug of a renamed tool to its current slug', async () => {
+      await fc.assert(
+        fc.asyncProperty(fc.integer({ min: 1, max: 3 }), async (renames) => {
+          const slugs = Array.from({ length: renames + 1 }, (_, i) => generateUniqueSlug(`rename-${i}`));
+          const tool = await toolsRepo.create({
+            name: 'Renamed Tool',
+            slug: slugs[0],
+            website_url: 'https://example.com',
+          });
+          testToolIds.push(tool.id);
+
+          for (const slug of slugs.slice(1)) {
+            await toolsRepo.update(tool.id, { slug });
+          }
+
+          const current = slugs[slugs.length - 1];
+          for (const former of slugs.slice(0, -1)) {
+            expect(await redirectsRepo.resolve('tools', former)).toBe(current);
+          }
+          expect(await redirectsRepo.resolve('tools', current)).toBeNull();
+          expect(await redirectsRepo.findOldSlugs('tools')).toEqual(
+            expect.arrayContaining(slugs.slice(0, -1))
+          );
+        }),
+        { numRuns: 3 }
+      );
+    });
+
+    it('should drop the redirect when a former slug is reused and hide archived targets', async () => {
+      const oldSlug = generateUniqueSlug('reclaimed');
+      const tool = await toolsRepo.create({
+        name: 'Reclaimed Tool',
+        slug: oldSlug,
+        website_url: 'https://example.com',
+      });
+      testToolIds.push(tool.id);
+
+      const newSlug = generateUniqueSlug('reclaimed-new');
+      await toolsRepo.update(tool.id, { slug: newSlug });
+      expect(await redirectsRepo.resolve('tools', oldSlug)).toBe(newSlug);
+
+      await toolsRepo.archive(tool.id);
+      expect(await redirectsRepo.resolve('tools', oldSlug)).toBeNull();
+      await toolsRepo.restore(tool.id);
+
+      const other = await toolsRepo.create({
+        name: 'Slug Taker',
+        slug: oldSlug,
+        website_url: 'https://example.com',
+      });
+      testToolIds.push(other.id);
+      expect(await redirectsRepo.resolve('tools', oldSlug)).toBeNull();
+    });
+  });
+
+  /**
+   * **Feature: category-admin, Property 13: Merging categories keeps every tool link**
+   *
+   * *For any* split of tools between two categories, merging the source into
+   * the target SHALL leave every tool linked to the target, delete the source
+   * and redirect the source's slug to the target.
+   */
+  describe('Property 13: Merging categories keeps every tool link', () => {
+    it('should move all tool links to the target and redirect the source slug', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          fc.array(fc.constantFrom('source', 'target', 'both'), { minLength: 1, maxLength: 4 }),
+          async (placements) => {
+            const source = await categoriesRepo.create({ name: 'Merge Source', slug: generateUniqueSlug('merge-source') });
+            const target = await categoriesRepo.create({ name: 'Merge Target', slug: generateUniqueSlug('merge-target') });
+            testCategoryIds.push(source.id, target.id);
+
+            const toolIds: string[] = [];
+            for (const placement of placements) {
+              const categoryIds = placement === 'both' ? [source.id, target.id]
+                : placement === 'source' ? [source.id] : [target.id];
+              const tool = await toolsRepo.createWithCategories(
+                { name: 'Merge Tool', slug: generateUniqueSlug('merge-tool'), website_url: 'https://example.com' },
+                categoryIds
+              );
+              testToolIds.push(tool.id);
+              toolIds.push(tool.id);
+            }
+
+            const moved = await categoriesRepo.merge(source.id, target.id);
+            expect(moved).toBe(placements.filter((placement) => placement === 'source').length);
+
+            const linked = await toolsRepo.findByCategory(target.slug);
+            expect(linked.map((tool) => tool.id).sort()).toEqual([...toolIds].sort());
+            expect(await categoriesRepo.findBySlug(source.slug)).toBeNull();
+            expect(await redirectsRepo.resolve('categories', source.slug)).toBe(target.slug);
+          }
+        ),
+        { numRuns: 3 }
+      );
+    }, 20000);
+
+    it('should throw NotFoundError when the source category does not exist', async () => {
+      const target = await categoriesRepo.create({ name: 'Lonely Target', slug: generateUniqueSlug('lonely-target') });
+      testCategoryIds.push(target.id);
+
+      await expect(
+        categoriesRepo.merge('00000000-0000-0000-0000-000000000000', target.id)
+      ).rejects.toBeInstanceOf(NotFoundError);
+    });
+  });
 });
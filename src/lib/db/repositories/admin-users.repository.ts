@@ -0,0 +1,101 @@
+/**
+ * Admin users repository with specialized queries for the admin_users table.
+ * Extends base repository with staff role lookups.
+ *
+ * @module admin-users.repository
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  Database,
+  AdminUserRow as GeneratedAdminUserRow,
+  AdminUserInsert as GeneratedAdminUserInsert,
+  AdminUserUpdate as GeneratedAdminUserUpdate,
+} from '@/lib/supabase/types';
+import { DatabaseError, classifyDatabaseError } from '../errors';
+import { TABLES } from '../constants/tables';
+import {
+  createBaseRepository,
+  type BaseRepository,
+} from './base.repository';
+
+/**
+ * Admin user row type from database.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type AdminUserRow = GeneratedAdminUserRow & { [key: string]: unknown };
+
+/**
+ * Admin user insert type for granting a staff role.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type AdminUserInsert = GeneratedAdminUserInsert & { [key: string]: unknown };
+
+/**
+ * Admin user update type for partial updates.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type AdminUserUpdate = GeneratedAdminUserUpdate & { [key: string]: unknown };
+
+/**
+ * Admin users repository interface extending base repository.
+ */
+export interface AdminUsersRepository
+  extends BaseRepository<AdminUserRow, AdminUserInsert, AdminUserUpdate> {
+  /** Find the staff record for a Supabase Auth user */
+  findByUserId(userId: string): Promise<AdminUserRow | null>;
+  /** Find all staff records ordered by email */
+  findAllOrdered(): Promise<AdminUserRow[]>;
+}
+
+/**
+ * Creates an admin users repository with specialized queries.
+ *
+ * @param supabase - Supabase client instance
+ * @returns Admin users repository with CRUD and specialized operations
+ *
+ * @example
+ * ```ts
+ * const adminUsersRepo = createAdminUsersRepository(supabase);
+ * const staff = await adminUsersRepo.findByUserId(user.id);
+ * ```
+ */
+export function createAdminUsersRepository(
+  supabase: SupabaseClient<Database>
+): AdminUsersRepository {
+  const tableName = TABLES.ADMIN_USERS;
+  const baseRepo = createBaseRepository<AdminUserRow, AdminUserInsert, AdminUserUpdate>(
+    supabase,
+    tableName
+  );
+
+  /**
+   * Helper to wrap Supabase errors in the matching DatabaseError subclass.
+   */
+  function wrapError(error: unknown, operation: string): DatabaseError {
+    return classifyDatabaseError(operation, tableName, error);
+  }
+
+  return {
+    // Inherit base repository methods
+    ...baseRepo,
+
+    async findByUserId(userId: string): Promise<AdminUserRow | null> {
+      return baseRepo.findBy('user_id' as keyof AdminUserRow, userId as AdminUserRow[keyof AdminUserRow]);
+    },
+
+    async findAllOrdered(): Promise<AdminUserRow[]> {
+      const { data, error } = await supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .select('*')
+        .order('email', { ascending: true });
+
+      if (error) {
+        throw wrapError(error, 'findAllOrdered');
+      }
+
+      return (data ?? []) as unknown as AdminUserRow[];
+    },
+  };
+}
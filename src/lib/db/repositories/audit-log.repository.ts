@@ -0,0 +1,150 @@
+/**
+ * Audit log repository with filtered queries for the audit_log table.
+ * Rows are written by database triggers, so this repository only reads.
+ *
+ * @module audit-log.repository
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  Database,
+  AuditLogRow as GeneratedAuditLogRow,
+  AuditLogInsert as GeneratedAuditLogInsert,
+  AuditLogUpdate as GeneratedAuditLogUpdate,
+} from '@/lib/supabase/types';
+import { DatabaseError, classifyDatabaseError } from '../errors';
+import { TABLES } from '../constants/tables';
+import {
+  createBaseRepository,
+  decodeKeysetCursor,
+  keysetFilter,
+  toKeysetPage,
+  DEFAULT_PAGE_LIMIT,
+  type BaseRepository,
+  type Page,
+} from './base.repository';
+
+/**
+ * Audit log row type from database.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type AuditLogRow = GeneratedAuditLogRow & { [key: string]: unknown };
+
+/**
+ * Audit log insert type.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type AuditLogInsert = GeneratedAuditLogInsert & { [key: string]: unknown };
+
+/**
+ * Audit log update type.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type AuditLogUpdate = GeneratedAuditLogUpdate & { [key: string]: unknown };
+
+/**
+ * Filters for findFilteredPage. Every field is optional and all given
+ * fields are combined (AND).
+ */
+export interface AuditLogQuery {
+  /** Exact actor (auth user id, 'scraper' or 'system') */
+  actor?: string;
+  /** Table name of the changed row */
+  entity?: string;
+  /** ID of the changed row */
+  entityId?: string;
+  /** Only entries created at or after this ISO timestamp */
+  since?: string;
+  /** Only entries created before this ISO timestamp */
+  until?: string;
+}
+
+/**
+ * Audit log repository interface extending base repository.
+ */
+export interface AuditLogRepository
+  extends BaseRepository<AuditLogRow, AuditLogInsert, AuditLogUpdate> {
+  /** Find one keyset page of entries matching the filters, newest first */
+  findFilteredPage(
+    query: AuditLogQuery,
+    options?: { after?: string | null; limit?: number }
+  ): Promise<Page<AuditLogRow>>;
+}
+
+/**
+ * Creates an audit log repository with filtered queries.
+ *
+ * @param supabase - Supabase client instance
+ * @returns Audit log repository
+ *
+ * @example
+ * ```ts
+ * const auditRepo = createAuditLogRepository(supabase);
+ * const page = await auditRepo.findFilteredPage({ entity: 'tools', actor: 'scraper' });
+ * ```
+ */
+export function createAuditLogRepository(
+  supabase: SupabaseClient<Database>
+): AuditLogRepository {
+  const tableName = TABLES.AUDIT_LOG;
+  const baseRepo = createBaseRepository<AuditLogRow, AuditLogInsert, AuditLogUpdate>(
+    supabase,
+    tableName
+  );
+
+  /**
+   * Helper to wrap Supabase errors in the matching DatabaseError subclass.
+   */
+  function wrapError(error: unknown, operation: string): DatabaseError {
+    return classifyDatabaseError(operation, tableName, error);
+  }
+
+  return {
+    // Inherit base repository methods
+    ...baseRepo,
+
+    async findFilteredPage(
+      query: AuditLogQuery,
+      options?: { after?: string | null; limit?: number }
+    ): Promise<Page<AuditLogRow>> {
+      const limit = options?.limit ?? DEFAULT_PAGE_LIMIT;
+      const position = decodeKeysetCursor(options?.after);
+
+      let request = supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .select('*', position ? undefined : { count: 'exact' });
+
+      if (query.actor) {
+        request = request.eq('actor', query.actor);
+      }
+      if (query.entity) {
+        request = request.eq('entity', query.entity);
+      }
+      if (query.entityId) {
+        request = request.eq('entity_id', query.entityId);
+      }
+      if (query.since) {
+        request = request.gte('created_at', query.since);
+      }
+      if (query.until) {
+        request = request.lt('created_at', query.until);
+      }
+      if (position) {
+        request = request.or(keysetFilter('created_at', false, position));
+      }
+
+      const { data, error, count } = await request
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(limit + 1);
+
+      if (error) {
+        throw wrapError(error, 'findFilteredPage');
+      }
+
+      const rows = (data ?? []) as unknown as AuditLogRow[];
+      return toKeysetPage(rows, limit, 'created_at', position?.total ?? count ?? rows.length);
+    },
+  };
+}
@@ -7,7 +7,7 @@
 
 import type { SupabaseClient } from '@supabase/supabase-js';
 import type { Database } from '@/lib/supabase/types';
-import { DatabaseError } from '../errors';
+import { DatabaseError, classifyDatabaseError } from '../errors';
 
 /**
  * Options for findAll queries.
@@ -23,15 +23,192 @@ export interface FindAllOptions<Row> {
   ascending?: boolean;
 }
 
+/**
+ * Options for keyset (cursor) pagination with findPage.
+ */
+export interface FindPageOptions<Row> {
+  /** Cursor returned as nextCursor by the previous page; omit for the first page */
+  after?: string | null;
+  /** Column to order by; ties are broken by id (default: 'id') */
+  orderBy?: keyof Row;
+  /** Sort direction (default: false = descending) */
+  ascending?: boolean;
+  /** Maximum number of records per page (default: 20) */
+  limit?: number;
+}
+
+/**
+ * A page of records with the total match count and an opaque cursor
+ * pointing at the next page (null when there are no more records).
+ */
+export interface Page<T> {
+  items: T[];
+  total: number;
+  nextCursor: string | null;
+}
+
+/**
+ * Encodes a cursor payload as an opaque, URL-safe string.
+ * Uses TextEncoder/btoa so it also works in the Edge runtime.
+ *
+ * @example
+ * ```ts
+ * const cursor = encodeCursor({ offset: 20 });
+ * ```
+ */
+export function encodeCursor(payload: Record<string, unknown>): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(payload));
+  const binary = Array.from(bytes, (byte) => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decodes a cursor produced by encodeCursor.
+ *
+ * @returns The payload, or null if the cursor is missing or malformed
+ */
+export function decodeCursor<T extends Record<string, unknown>>(
+  cursor: string | null | undefined
+): T | null {
+  if (!cursor) {
+    return null;
+  }
+
+  try {
+    const base64 = cursor.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64);
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    const payload = JSON.parse(new TextDecoder().decode(bytes));
+    return payload && typeof payload === 'object' ? (payload as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Position of the last row of a page in a keyset ordering.
+ * The total is carried along so later pages need not recount.
+ */
+export interface KeysetPosition {
+  value: unknown;
+  id: string;
+  total: number;
+}
+
+/**
+ * Default page size for findPage.
+ */
+export const DEFAULT_PAGE_LIMIT = 20;
+
+/**
+ * Quotes a value for use inside a PostgREST logical filter.
+ */
+export function quoteFilterValue(value: unknown): string {
+  const text = String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+  return `"${text}"`;
+}
+
+/**
+ * Decodes a findPage cursor into its keyset position.
+ *
+ * @returns The position, or null for the first page or a malformed cursor
+ */
+export function decodeKeysetCursor(cursor: string | null | undefined): KeysetPosition | null {
+  const payload = decodeCursor<Partial<KeysetPosition>>(cursor);
+
+  if (!payload || typeof payload.id !== 'string' || typeof payload.total !== 'number') {
+    return null;
+  }
+
+  return { value: payload.value ?? null, id: payload.id, total: payload.total };
+}
+
+/**
+ * Builds the PostgREST `or` filter selecting rows after a keyset position.
+ * Rows are ordered by (column, id) in one direction with NULLs last, so the
+ * filter also walks into the NULL tail once non-null values run out.
+ *
+ * @example
+ * ```ts
+ * query.or(keysetFilter('created_at', false, position));
+ * // created_at.lt."2024-01-01",created_at.is.null,and(created_at.eq."2024-01-01",id.lt."…")
+ * ```
+ */
+export function keysetFilter(
+  column: string,
+  ascending: boolean,
+  position: Pick<KeysetPosition, 'value' | 'id'>
+): string {
+  const op = ascending ? 'gt' : 'lt';
+  const id = quoteFilterValue(position.id);
+
+  if (column === 'id') {
+    return `id.${op}.${id}`;
+  }
+
+  if (position.value === null || position.value === undefined) {
+    return `and(${column}.is.null,id.${op}.${id})`;
+  }
+
+  const value = quoteFilterValue(position.value);
+  return [
+    `${column}.${op}.${value}`,
+    `${column}.is.null`,
+    `and(${column}.eq.${value},id.${op}.${id})`,
+  ].join(',');
+}
+
+/**
+ * Turns up to limit + 1 fetched rows into a page. The extra row only signals
+ * that another page exists and is dropped.
+ */
+export function toKeysetPage<T extends Record<string, unknown>>(
+  rows: T[],
+  limit: number,
+  column: string,
+  total: number
+): Page<T> {
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    total,
+    nextCursor:
+      rows.length > limit && last
+        ? encodeCursor({ value: last[column] ?? null, id: String(last.id), total })
+        : null,
+  };
+}
+
+/**
+ * Options for createBaseRepository.
+ */
+export interface BaseRepositoryOptions {
+  /**
+   * Nullable timestamp column marking soft-deleted rows. When set, findAll,
+   * findPage, findBy and count only return rows where it is NULL.
+   * findById still returns soft-deleted rows so they can be restored.
+   */
+  softDeleteColumn?: string;
+}
+
 /**
  * Base repository interface with common CRUD operations.
  */
 export interface BaseRepository<Row, Insert, Update> {
   /**
    * Find all records with optional pagination and sorting.
+   * Offset pagination; prefer findPage for deep or unbounded listings.
    */
   findAll(options?: FindAllOptions<Row>): Promise<Row[]>;
 
+  /**
+   * Find one page of records using keyset pagination over (orderBy, id).
+   * Pages stay stable when rows are inserted and deep pages stay fast.
+   */
+  findPage(options?: FindPageOptions<Row>): Promise<Page<Row>>;
+
   /**
    * Find a record by ID.
    * @throws {DatabaseError} If record not found or query fails
@@ -79,6 +256,7 @@ export interface BaseRepository<Row, Insert, Update> {
  *
  * @param supabase - Supabase client instance
  * @param tableName - Name of the database table
+ * @param options - Table-specific behaviour such as soft deletion
  * @returns Repository with CRUD operations
  *
  * @example
@@ -96,23 +274,33 @@ export function createBaseRepository<
   Update extends Record<string, unknown>
 >(
   supabase: SupabaseClient<Database>,
-  tableName: string
+  tableName: string,
+  options?: BaseRepositoryOptions
 ): BaseRepository<Row, Insert, Update> {
+  const softDeleteColumn = options?.softDeleteColumn;
+
   /**
-   * Helper to wrap Supabase errors in DatabaseError.
+   * Helper to wrap Supabase errors in the matching DatabaseError subclass.
    */
   function wrapError(
     error: unknown,
     operation: string
   ): DatabaseError {
-    const message = error instanceof Error ? error.message : String(error);
-    return new DatabaseError(operation, tableName, message, error);
+    return classifyDatabaseError(operation, tableName, error);
+  }
+
+  /**
+   * Starts a select that skips soft-deleted rows when the table has them.
+   */
+  function selectLive(columns: string, selectOptions?: { count?: 'exact'; head?: boolean }) {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const query = supabase.from(tableName as any).select(columns, selectOptions);
+    return softDeleteColumn ? query.is(softDeleteColumn, null) : query;
   }
 
   return {
     async findAll(options?: FindAllOptions<Row>): Promise<Row[]> {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      let query = supabase.from(tableName as any).select('*');
+      let query = selectLive('*');
 
       // Apply ordering
       if (options?.orderBy) {
@@ -140,6 +328,34 @@ export function createBaseRepository<
       return (data ?? []) as unknown as Row[];
     },
 
+    async findPage(options?: FindPageOptions<Row>): Promise<Page<Row>> {
+      const column = (options?.orderBy as string | undefined) ?? 'id';
+      const ascending = options?.ascending ?? false;
+      const limit = options?.limit ?? DEFAULT_PAGE_LIMIT;
+      const position = decodeKeysetCursor(options?.after);
+
+      let query = selectLive('*', position ? undefined : { count: 'exact' });
+
+      if (position) {
+        query = query.or(keysetFilter(column, ascending, position));
+      }
+
+      if (column !== 'id') {
+        query = query.order(column, { ascending, nullsFirst: false });
+      }
+
+      const { data, error, count } = await query
+        .order('id', { ascending })
+        .limit(limit + 1);
+
+      if (error) {
+        throw wrapError(error, 'findPage');
+      }
+
+      const rows = (data ?? []) as unknown as Row[];
+      return toKeysetPage(rows, limit, column, position?.total ?? count ?? rows.length);
+    },
+
     async findById(id: string): Promise<Row> {
       const { data, error } = await supabase
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -159,10 +375,7 @@ export function createBaseRepository<
       column: K,
       value: Row[K]
     ): Promise<Row | null> {
-      const { data, error } = await supabase
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        .from(tableName as any)
-        .select('*')
+      const { data, error } = await selectLive('*')
         .eq(column as string, value as string)
         .maybeSingle();
 
@@ -232,10 +445,7 @@ export function createBaseRepository<
     },
 
     async count(): Promise<number> {
-      const { count, error } = await supabase
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        .from(tableName as any)
-        .select('*', { count: 'exact', head: true });
+      const { count, error } = await selectLive('*', { count: 'exact', head: true });
 
       if (error) {
         throw wrapError(error, 'count');
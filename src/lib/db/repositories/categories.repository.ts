@@ -12,7 +12,7 @@ import type {
   CategoryInsert as GeneratedCategoryInsert,
   CategoryUpdate as GeneratedCategoryUpdate,
 } from '@/lib/supabase/types';
-import { DatabaseError } from '../errors';
+import { DatabaseError, NotFoundError, classifyDatabaseError } from '../errors';
 import { TABLES } from '../constants/tables';
 import {
   createBaseRepository,
@@ -56,6 +56,12 @@ export interface CategoriesRepository
   findWithToolCount(): Promise<CategoryWithToolCount[]>;
   /** Find categories belonging to a specific group */
   findByGroup(groupId: string): Promise<CategoryRow[]>;
+  /** Reorder categories by setting display_order to each ID's position in the array */
+  reorder(categoryIds: string[]): Promise<void>;
+  /** Move a category's tools and subcategories to another category, then delete it */
+  merge(sourceId: string, targetId: string): Promise<number>;
+  /** Find categories with no live tools, by name */
+  findEmpty(): Promise<CategoryRow[]>;
 }
 
 /**
@@ -80,11 +86,10 @@ export function createCategoriesRepository(
   );
 
   /**
-   * Helper to wrap Supabase errors in DatabaseError.
+   * Helper to wrap Supabase errors in the matching DatabaseError subclass.
    */
   function wrapError(error: unknown, operation: string): DatabaseError {
-    const message = error instanceof Error ? error.message : String(error);
-    return new DatabaseError(operation, tableName, message, error);
+    return classifyDatabaseError(operation, tableName, error);
   }
 
   return {
@@ -129,25 +134,59 @@ export function createCategoriesRepository(
     },
 
     async findByGroup(groupId: string): Promise<CategoryRow[]> {
-      // Note: This assumes there's a group_id column or a junction table
-      // Based on the schema, categories don't have a direct group_id
-      // This would need a category_group_categories junction table
-      // For now, return empty array as the relationship isn't defined in schema
       const { data, error } = await supabase
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         .from(tableName as any)
         .select('*')
+        .eq('group_id', groupId)
         .order('display_order', { ascending: true });
 
       if (error) {
         throw wrapError(error, 'findByGroup');
       }
 
-      // Filter by metadata.group_id if present
-      return ((data ?? []) as unknown as CategoryRow[]).filter((cat) => {
-        const metadata = cat.metadata as Record<string, unknown> | null;
-        return metadata?.group_id === groupId;
+      return (data ?? []) as unknown as CategoryRow[];
+    },
+
+    async reorder(categoryIds: string[]): Promise<void> {
+      // Update display_order for each category based on position in array
+      for (const [index, categoryId] of categoryIds.entries()) {
+        const { error } = await supabase
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          .from(tableName as any)
+          .update({ display_order: index })
+          .eq('id', categoryId);
+
+        if (error) {
+          throw wrapError(error, 'reorder');
+        }
+      }
+    },
+
+    async merge(sourceId: string, targetId: string): Promise<number> {
+      const { data, error } = await supabase.rpc('merge_categories', {
+        source_id: sourceId,
+        target_id: targetId,
       });
+
+      if (error) {
+        if (error.code === 'P0002') {
+          throw new NotFoundError('Category', error.details || sourceId);
+        }
+        throw wrapError(error, 'merge');
+      }
+
+      return data ?? 0;
+    },
+
+    async findEmpty(): Promise<CategoryRow[]> {
+      const { data, error } = await supabase.rpc('find_empty_categories');
+
+      if (error) {
+        throw wrapError(error, 'findEmpty');
+      }
+
+      return (data ?? []) as CategoryRow[];
     },
   };
 }
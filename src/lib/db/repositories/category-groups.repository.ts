@@ -0,0 +1,113 @@
+/**
+ * Category groups repository with ordering operations for the category_groups table.
+ * Categories belong to a group through categories.group_id.
+ *
+ * @module category-groups.repository
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  Database,
+  CategoryGroupRow as GeneratedCategoryGroupRow,
+  CategoryGroupInsert as GeneratedCategoryGroupInsert,
+  CategoryGroupUpdate as GeneratedCategoryGroupUpdate,
+} from '@/lib/supabase/types';
+import { DatabaseError, classifyDatabaseError } from '../errors';
+import { TABLES } from '../constants/tables';
+import {
+  createBaseRepository,
+  type BaseRepository,
+} from './base.repository';
+
+/**
+ * Category group row type from database.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type CategoryGroupRow = GeneratedCategoryGroupRow & { [key: string]: unknown };
+
+/**
+ * Category group insert type.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type CategoryGroupInsert = GeneratedCategoryGroupInsert & { [key: string]: unknown };
+
+/**
+ * Category group update type.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type CategoryGroupUpdate = GeneratedCategoryGroupUpdate & { [key: string]: unknown };
+
+/**
+ * Category groups repository interface extending base repository.
+ */
+export interface CategoryGroupsRepository
+  extends BaseRepository<CategoryGroupRow, CategoryGroupInsert, CategoryGroupUpdate> {
+  /** Find all category groups ordered by display_order, then name */
+  findAllOrdered(): Promise<CategoryGroupRow[]>;
+  /** Reorder groups by setting display_order to each ID's position in the array */
+  reorder(groupIds: string[]): Promise<void>;
+}
+
+/**
+ * Creates a category groups repository with ordering operations.
+ *
+ * @param supabase - Supabase client instance
+ * @returns Category groups repository with CRUD and ordering operations
+ *
+ * @example
+ * ```ts
+ * const groupsRepo = createCategoryGroupsRepository(supabase);
+ * const groups = await groupsRepo.findAllOrdered();
+ * ```
+ */
+export function createCategoryGroupsRepository(
+  supabase: SupabaseClient<Database>
+): CategoryGroupsRepository {
+  const tableName = TABLES.CATEGORY_GROUPS;
+  const baseRepo = createBaseRepository<CategoryGroupRow, CategoryGroupInsert, CategoryGroupUpdate>(
+    supabase,
+    tableName
+  );
+
+  /**
+   * Helper to wrap Supabase errors in the matching DatabaseError subclass.
+   */
+  function wrapError(error: unknown, operation: string): DatabaseError {
+    return classifyDatabaseError(operation, tableName, error);
+  }
+
+  return {
+    // Inherit base repository methods
+    ...baseRepo,
+
+    async findAllOrdered(): Promise<CategoryGroupRow[]> {
+      const { data, error } = await supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .select('*')
+        .order('display_order', { ascending: true })
+        .order('name', { ascending: true });
+
+      if (error) {
+        throw wrapError(error, 'findAllOrdered');
+      }
+
+      return (data ?? []) as unknown as CategoryGroupRow[];
+    },
+
+    async reorder(groupIds: string[]): Promise<void> {
+      // Update display_order for each group based on position in array
+      for (const [index, groupId] of groupIds.entries()) {
+        const { error } = await supabase
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          .from(tableName as any)
+          .update({ display_order: index })
+          .eq('id', groupId);
+
+        if (error) {
+          throw wrapError(error, 'reorder');
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,182 @@
+/**
+ * Collection items repository for the collection_items table.
+ * Entries follow the visibility and ownership of their collection through
+ * RLS; use a session client for writes.
+ *
+ * @module collection-items.repository
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  Database,
+  CollectionItemRow as GeneratedCollectionItemRow,
+  CollectionItemInsert as GeneratedCollectionItemInsert,
+  CollectionItemUpdate as GeneratedCollectionItemUpdate,
+} from '@/lib/supabase/types';
+import { DatabaseError, classifyDatabaseError } from '../errors';
+import { TABLES } from '../constants/tables';
+import {
+  createBaseRepository,
+  type BaseRepository,
+} from './base.repository';
+import type { ToolRow } from './tools.repository';
+
+/**
+ * Collection item row type from database.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type CollectionItemRow = GeneratedCollectionItemRow & { [key: string]: unknown };
+
+/**
+ * Collection item insert type.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type CollectionItemInsert = GeneratedCollectionItemInsert & { [key: string]: unknown };
+
+/**
+ * Collection item update type.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type CollectionItemUpdate = GeneratedCollectionItemUpdate & { [key: string]: unknown };
+
+/**
+ * Collection entry with its tool.
+ */
+export interface CollectionItemWithTool extends CollectionItemRow {
+  tool: ToolRow;
+}
+
+/**
+ * Collection entry without its tool, including entries of archived tools.
+ */
+export interface CollectionItemEntry {
+  id: string;
+  tool_id: string;
+  position: number;
+  archived: boolean; // Whether the entry's tool is archived and hidden from the collection
+}
+
+/**
+ * Collection items repository interface extending base repository.
+ */
+export interface CollectionItemsRepository
+  extends BaseRepository<CollectionItemRow, CollectionItemInsert, CollectionItemUpdate> {
+  /** Find a collection's entries in order, with their tools; entries of archived tools are left out */
+  findByCollectionWithTools(collectionId: string): Promise<CollectionItemWithTool[]>;
+  /** Find every entry of a collection in order, including those of archived tools */
+  findEntries(collectionId: string): Promise<CollectionItemEntry[]>;
+  /** Find which of some collections hold a tool */
+  findCollectionIdsWithTool(collectionIds: string[], toolId: string): Promise<Set<string>>;
+  /** Set position of a collection's entries to their index in itemIds, in one statement */
+  reorder(collectionId: string, itemIds: string[]): Promise<void>;
+}
+
+/**
+ * Creates a collection items repository.
+ *
+ * @param supabase - Supabase client; carrying the user's session for writes
+ * @returns Collection items repository
+ *
+ * @example
+ * ```ts
+ * const itemsRepo = createCollectionItemsRepository(supabase);
+ * const items = await itemsRepo.findByCollectionWithTools(collectionId);
+ * ```
+ */
+export function createCollectionItemsRepository(
+  supabase: SupabaseClient<Database>
+): CollectionItemsRepository {
+  const tableName = TABLES.COLLECTION_ITEMS;
+  const baseRepo = createBaseRepository<CollectionItemRow, CollectionItemInsert, CollectionItemUpdate>(
+    supabase,
+    tableName
+  );
+
+  /**
+   * Helper to wrap Supabase errors in the matching DatabaseError subclass.
+   */
+  function wrapError(error: unknown, operation: string): DatabaseError {
+    return classifyDatabaseError(operation, tableName, error);
+  }
+
+  return {
+    // Inherit base repository methods
+    ...baseRepo,
+
+    async findByCollectionWithTools(collectionId: string): Promise<CollectionItemWithTool[]> {
+      const { data, error } = await supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .select(`
+          *,
+          tools (*)
+        `)
+        .eq('collection_id', collectionId)
+        .order('position', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        throw wrapError(error, 'findByCollectionWithTools');
+      }
+
+      return ((data ?? []) as unknown as Record<string, unknown>[])
+        .map((row) => {
+          const { tools, ...itemRow } = row;
+          const tool = tools as ToolRow | null;
+          // Archived tools keep their entry but are not shown
+          return tool && !tool.deleted_at ? ({ ...itemRow, tool } as CollectionItemWithTool) : null;
+        })
+        .filter((item): item is CollectionItemWithTool => item !== null);
+    },
+
+    async findEntries(collectionId: string): Promise<CollectionItemEntry[]> {
+      const { data, error } = await supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .select('id, tool_id, position, tools (deleted_at)')
+        .eq('collection_id', collectionId)
+        .order('position', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        throw wrapError(error, 'findEntries');
+      }
+
+      type EntryRow = Omit<CollectionItemEntry, 'archived'> & { tools: { deleted_at: string | null } | null };
+      return ((data ?? []) as unknown as EntryRow[]).map(({ tools, ...entry }) => ({
+        ...entry,
+        archived: !tools || tools.deleted_at !== null,
+      }));
+    },
+
+    async findCollectionIdsWithTool(collectionIds: string[], toolId: string): Promise<Set<string>> {
+      if (collectionIds.length === 0) {
+        return new Set();
+      }
+
+      const { data, error } = await supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .select('collection_id')
+        .in('collection_id', collectionIds)
+        .eq('tool_id', toolId);
+
+      if (error) {
+        throw wrapError(error, 'findCollectionIdsWithTool');
+      }
+
+      return new Set(((data ?? []) as unknown as { collection_id: string }[]).map((row) => row.collection_id));
+    },
+
+    async reorder(collectionId: string, itemIds: string[]): Promise<void> {
+      const { error } = await supabase.rpc('reorder_collection_items', {
+        target_collection_id: collectionId,
+        item_ids: itemIds,
+      });
+
+      if (error) {
+        throw wrapError(error, 'reorder');
+      }
+    },
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * Collections repository for the collections table.
+ * RLS lets anyone read public and unlisted collections and owners read and
+ * change their own; use a session client for writes.
+ *
+ * @module collections.repository
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  Database,
+  CollectionRow as GeneratedCollectionRow,
+  CollectionInsert as GeneratedCollectionInsert,
+  CollectionUpdate as GeneratedCollectionUpdate,
+} from '@/lib/supabase/types';
+import { DatabaseError, classifyDatabaseError } from '../errors';
+import { TABLES } from '../constants/tables';
+import {
+  createBaseRepository,
+  type BaseRepository,
+} from './base.repository';
+
+/**
+ * Collection row type from database.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type CollectionRow = GeneratedCollectionRow & { [key: string]: unknown };
+
+/**
+ * Collection insert type.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type CollectionInsert = GeneratedCollectionInsert & { [key: string]: unknown };
+
+/**
+ * Collection update type.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type CollectionUpdate = GeneratedCollectionUpdate & { [key: string]: unknown };
+
+/**
+ * Collection with the number of tools in it. Entries of archived tools are
+ * not counted.
+ */
+export interface CollectionWithCount extends CollectionRow {
+  item_count: number;
+}
+
+/**
+ * Select clause adding the item_count computed column (see the item_count
+ * SQL function), which counts only entries of live tools.
+ */
+const COLLECTION_WITH_COUNT_SELECT = '*, item_count';
+
+/**
+ * Collections repository interface extending base repository.
+ */
+export interface CollectionsRepository
+  extends BaseRepository<CollectionRow, CollectionInsert, CollectionUpdate> {
+  /** Find a collection with its tool count */
+  findWithCount(id: string): Promise<CollectionWithCount | null>;
+  /** Find a user's collections with their tool counts, most recently updated first */
+  findByUser(userId: string): Promise<CollectionWithCount[]>;
+  /** Find the most recently updated public collections */
+  findRecentPublic(limit: number): Promise<CollectionWithCount[]>;
+}
+
+/**
+ * Creates a collections repository.
+ *
+ * @param supabase - Supabase client; carrying the user's session for writes
+ * @returns Collections repository
+ *
+ * @example
+ * ```ts
+ * const collectionsRepo = createCollectionsRepository(supabase);
+ * const collections = await collectionsRepo.findByUser(userId);
+ * ```
+ */
+export function createCollectionsRepository(supabase: SupabaseClient<Database>): CollectionsRepository {
+  const tableName = TABLES.COLLECTIONS;
+  const baseRepo = createBaseRepository<CollectionRow, CollectionInsert, CollectionUpdate>(supabase, tableName);
+
+  /**
+   * Helper to wrap Supabase errors in the matching DatabaseError subclass.
+   */
+  function wrapError(error: unknown, operation: string): DatabaseError {
+    return classifyDatabaseError(operation, tableName, error);
+  }
+
+  return {
+    // Inherit base repository methods
+    ...baseRepo,
+
+    async findWithCount(id: string): Promise<CollectionWithCount | null> {
+      const { data, error } = await supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .select(COLLECTION_WITH_COUNT_SELECT)
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) {
+        throw wrapError(error, 'findWithCount');
+      }
+
+      return (data as unknown as CollectionWithCount) ?? null;
+    },
+
+    async findByUser(userId: string): Promise<CollectionWithCount[]> {
+      const { data, error } = await supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .select(COLLECTION_WITH_COUNT_SELECT)
+        .eq('user_id', userId)
+        .order('updated_at', { ascending: false })
+        .order('id', { ascending: false });
+
+      if (error) {
+        throw wrapError(error, 'findByUser');
+      }
+
+      return (data ?? []) as unknown as CollectionWithCount[];
+    },
+
+    async findRecentPublic(limit: number): Promise<CollectionWithCount[]> {
+      const { data, error } = await supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .select(COLLECTION_WITH_COUNT_SELECT)
+        .eq('visibility', 'public')
+        .order('updated_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        throw wrapError(error, 'findRecentPublic');
+      }
+
+      return (data ?? []) as unknown as CollectionWithCount[];
+    },
+  };
+}
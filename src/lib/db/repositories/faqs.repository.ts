@@ -12,7 +12,7 @@ import type {
   FaqInsert as GeneratedFaqInsert,
   FaqUpdate as GeneratedFaqUpdate,
 } from '@/lib/supabase/types';
-import { DatabaseError } from '../errors';
+import { DatabaseError, classifyDatabaseError } from '../errors';
 import { TABLES } from '../constants/tables';
 import {
   createBaseRepository,
@@ -44,6 +44,10 @@ export interface FaqsRepository
   extends BaseRepository<FaqRow, FaqInsert, FaqUpdate> {
   /** Find all FAQs ordered by display_order ascending */
   findAllOrdered(): Promise<FaqRow[]>;
+  /** Find the FAQs of one scope ordered by display_order ascending */
+  findByScope(scope: string): Promise<FaqRow[]>;
+  /** Set display_order of each FAQ to its position in the array */
+  reorder(ids: string[]): Promise<void>;
 }
 
 /**
@@ -55,7 +59,7 @@ export interface FaqsRepository
  * @example
  * ```ts
  * const faqsRepo = createFaqsRepository(supabase);
- * const faqs = await faqsRepo.findAllOrdered();
+ * const faqs = await faqsRepo.findByScope('free-ai-tools');
  * ```
  */
 export function createFaqsRepository(
@@ -68,11 +72,10 @@ export function createFaqsRepository(
   );
 
   /**
-   * Helper to wrap Supabase errors in DatabaseError.
+   * Helper to wrap Supabase errors in the matching DatabaseError subclass.
    */
   function wrapError(error: unknown, operation: string): DatabaseError {
-    const message = error instanceof Error ? error.message : String(error);
-    return new DatabaseError(operation, tableName, message, error);
+    return classifyDatabaseError(operation, tableName, error);
   }
 
   return {
@@ -92,5 +95,34 @@ export function createFaqsRepository(
 
       return (data ?? []) as unknown as FaqRow[];
     },
+
+    async findByScope(scope: string): Promise<FaqRow[]> {
+      const { data, error } = await supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .select('*')
+        .eq('scope', scope)
+        .order('display_order', { ascending: true });
+
+      if (error) {
+        throw wrapError(error, 'findByScope');
+      }
+
+      return (data ?? []) as unknown as FaqRow[];
+    },
+
+    async reorder(ids: string[]): Promise<void> {
+      for (const [index, id] of ids.entries()) {
+        const { error } = await supabase
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          .from(tableName as any)
+          .update({ display_order: index })
+          .eq('id', id);
+
+        if (error) {
+          throw wrapError(error, 'reorder');
+        }
+      }
+    },
   };
 }
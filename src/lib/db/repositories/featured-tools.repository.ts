@@ -12,7 +12,7 @@ import type {
   FeaturedToolInsert as GeneratedFeaturedToolInsert,
   FeaturedToolUpdate as GeneratedFeaturedToolUpdate,
 } from '@/lib/supabase/types';
-import { DatabaseError } from '../errors';
+import { DatabaseError, classifyDatabaseError } from '../errors';
 import { TABLES } from '../constants/tables';
 import {
   createBaseRepository,
@@ -53,8 +53,14 @@ export interface FeaturedToolsRepository
   extends BaseRepository<FeaturedToolRow, FeaturedToolInsert, FeaturedToolUpdate> {
   /** Find all featured tools with their tool data, ordered by display_order */
   findAllWithTools(): Promise<FeaturedToolWithTool[]>;
+  /** Find the featured tools whose schedule includes the given moment, ordered by display_order */
+  findActiveWithTools(at?: Date): Promise<FeaturedToolWithTool[]>;
   /** Reorder featured tools by updating display_order for each tool ID */
   reorder(toolIds: string[]): Promise<void>;
+  /** Add slots for many live tools in one statement, numbered from firstOrder; returns how many were added */
+  addMany(toolIds: string[], firstOrder: number): Promise<number>;
+  /** Remove the slots of many tools in one statement; returns how many were removed */
+  removeByToolIds(toolIds: string[]): Promise<number>;
 }
 
 /**
@@ -79,11 +85,35 @@ export function createFeaturedToolsRepository(
   );
 
   /**
-   * Helper to wrap Supabase errors in DatabaseError.
+   * Helper to wrap Supabase errors in the matching DatabaseError subclass.
    */
   function wrapError(error: unknown, operation: string): DatabaseError {
-    const message = error instanceof Error ? error.message : String(error);
-    return new DatabaseError(operation, tableName, message, error);
+    return classifyDatabaseError(operation, tableName, error);
+  }
+
+  /**
+   * Moves the joined tools column onto a tool property, dropping slots
+   * whose tool is archived.
+   */
+  function withTools(data: unknown[] | null): FeaturedToolWithTool[] {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return ((data ?? []) as any[])
+      .map((row: Record<string, unknown>) => {
+        const tool = row.tools as ToolRow | null;
+        // Archived tools keep their featured slot but are not shown
+        if (!tool || tool.deleted_at) {
+          return null;
+        }
+
+        // Remove tools from the row and add as tool property
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { tools: _, ...featuredToolRow } = row;
+        return {
+          ...featuredToolRow,
+          tool,
+        } as FeaturedToolWithTool;
+      })
+      .filter((item): item is FeaturedToolWithTool => item !== null);
   }
 
   return {
@@ -104,24 +134,28 @@ export function createFeaturedToolsRepository(
         throw wrapError(error, 'findAllWithTools');
       }
 
-      // Transform the nested structure
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      return ((data ?? []) as any[])
-        .map((row: Record<string, unknown>) => {
-          const tool = row.tools as ToolRow | null;
-          if (!tool) {
-            return null;
-          }
-
-          // Remove tools from the row and add as tool property
-          // eslint-disable-next-line @typescript-eslint/no-unused-vars
-          const { tools: _, ...featuredToolRow } = row;
-          return {
-            ...featuredToolRow,
-            tool,
-          } as FeaturedToolWithTool;
-        })
-        .filter((item): item is FeaturedToolWithTool => item !== null);
+      return withTools(data);
+    },
+
+    async findActiveWithTools(at: Date = new Date()): Promise<FeaturedToolWithTool[]> {
+      const moment = at.toISOString();
+      const { data, error } = await supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .select(`
+          *,
+          tools (*)
+        `)
+        // Open-ended bounds are stored as NULL
+        .or(`starts_at.is.null,starts_at.lte.${moment}`)
+        .or(`ends_at.is.null,ends_at.gt.${moment}`)
+        .order('display_order', { ascending: true });
+
+      if (error) {
+        throw wrapError(error, 'findActiveWithTools');
+      }
+
+      return withTools(data);
     },
 
     async reorder(toolIds: string[]): Promise<void> {
@@ -143,5 +177,63 @@ export function createFeaturedToolsRepository(
         }
       }
     },
+
+    async addMany(toolIds: string[], firstOrder: number): Promise<number> {
+      if (toolIds.length === 0) {
+        return 0;
+      }
+
+      const { data: liveTools, error: toolsError } = await supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(TABLES.TOOLS as any)
+        .select('id')
+        .in('id', toolIds)
+        .is('deleted_at', null);
+
+      if (toolsError) {
+        throw wrapError(toolsError, 'addMany');
+      }
+
+      // Archived tools are skipped; the rest keep their selection order
+      const liveIds = new Set(((liveTools ?? []) as unknown as { id: string }[]).map((tool) => tool.id));
+      const rows = toolIds
+        .filter((toolId) => liveIds.has(toolId))
+        .map((toolId, index) => ({ tool_id: toolId, display_order: firstOrder + index }));
+      if (rows.length === 0) {
+        return 0;
+      }
+
+      // Tools that already have a slot keep it unchanged
+      const { data, error } = await supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .upsert(rows, { onConflict: 'tool_id', ignoreDuplicates: true })
+        .select('id');
+
+      if (error) {
+        throw wrapError(error, 'addMany');
+      }
+
+      return data?.length ?? 0;
+    },
+
+    async removeByToolIds(toolIds: string[]): Promise<number> {
+      if (toolIds.length === 0) {
+        return 0;
+      }
+
+      const { data, error } = await supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .delete()
+        .in('tool_id', toolIds)
+        .select('id');
+
+      if (error) {
+        throw wrapError(error, 'removeByToolIds');
+      }
+
+      return data?.length ?? 0;
+    },
   };
 }
@@ -8,8 +8,18 @@
 // Base repository
 export {
   createBaseRepository,
+  encodeCursor,
+  decodeCursor,
+  decodeKeysetCursor,
+  keysetFilter,
+  quoteFilterValue,
+  toKeysetPage,
+  DEFAULT_PAGE_LIMIT,
   type BaseRepository,
   type FindAllOptions,
+  type FindPageOptions,
+  type KeysetPosition,
+  type Page,
 } from './base.repository';
 
 // Tools repository
@@ -20,6 +30,11 @@ export {
   type ToolInsert,
   type ToolUpdate,
   type ToolWithCategories,
+  type ToolSearchRow,
+  type ToolQueryOptions,
+  type ToolsAddedPoint,
+  type ToolCountByValue,
+  type ToolDashboardTotals,
 } from './tools.repository';
 
 // Categories repository
@@ -32,6 +47,15 @@ export {
   type CategoryWithToolCount,
 } from './categories.repository';
 
+// Category groups repository
+export {
+  createCategoryGroupsRepository,
+  type CategoryGroupsRepository,
+  type CategoryGroupRow,
+  type CategoryGroupInsert,
+  type CategoryGroupUpdate,
+} from './category-groups.repository';
+
 // Subcategories repository
 export {
   createSubcategoriesRepository,
@@ -60,3 +84,147 @@ export {
   type FeaturedToolUpdate,
   type FeaturedToolWithTool,
 } from './featured-tools.repository';
+
+// Admin users repository
+export {
+  createAdminUsersRepository,
+  type AdminUsersRepository,
+  type AdminUserRow,
+  type AdminUserInsert,
+  type AdminUserUpdate,
+} from './admin-users.repository';
+
+// Audit log repository
+export {
+  createAuditLogRepository,
+  type AuditLogRepository,
+  type AuditLogRow,
+  type AuditLogInsert,
+  type AuditLogUpdate,
+  type AuditLogQuery,
+} from './audit-log.repository';
+
+// Tool revisions repository
+export {
+  createToolRevisionsRepository,
+  type ToolRevisionsRepository,
+  type ToolRevisionRow,
+  type ToolRevisionInsert,
+  type ToolRevisionUpdate,
+} from './tool-revisions.repository';
+
+// Slug redirects repository
+export {
+  createSlugRedirectsRepository,
+  type SlugRedirectsRepository,
+  type SlugRedirectRow,
+  type SlugRedirectInsert,
+  type SlugRedirectUpdate,
+  type SlugRedirectEntity,
+} from './slug-redirects.repository';
+
+// Scraper runs repository
+export {
+  createScraperRunsRepository,
+  type ScraperRunsRepository,
+  type ScraperRunRow,
+  type ScraperRunInsert,
+  type ScraperRunUpdate,
+} from './scraper-runs.repository';
+
+// Tool submissions repository
+export {
+  createToolSubmissionsRepository,
+  type ToolSubmissionsRepository,
+  type ToolSubmissionRow,
+  type ToolSubmissionInsert,
+  type ToolSubmissionUpdate,
+} from './tool-submissions.repository';
+
+// User favorites repository
+export {
+  createUserFavoritesRepository,
+  type UserFavoritesRepository,
+  type UserFavoriteRow,
+  type UserFavoriteInsert,
+  type UserFavoriteUpdate,
+  type UserFavoriteWithTool,
+} from './user-favorites.repository';
+
+// User pinned tools repository
+export {
+  createUserPinnedToolsRepository,
+  type UserPinnedToolsRepository,
+  type UserPinnedToolRow,
+  type UserPinnedToolInsert,
+  type UserPinnedToolUpdate,
+  type UserPinnedToolWithTool,
+} from './user-pinned-tools.repository';
+
+// Reviews repository
+export {
+  createReviewsRepository,
+  type ReviewsRepository,
+  type ReviewRow,
+  type ReviewInsert,
+  type ReviewUpdate,
+  type ReviewOrder,
+  type ReviewWithTool,
+} from './reviews.repository';
+
+// Review votes repository
+export {
+  createReviewVotesRepository,
+  type ReviewVotesRepository,
+  type ReviewVoteRow,
+  type ReviewVoteInsert,
+  type ReviewVoteUpdate,
+} from './review-votes.repository';
+
+// Review reports repository
+export {
+  createReviewReportsRepository,
+  type ReviewReportsRepository,
+  type ReviewReportRow,
+  type ReviewReportInsert,
+  type ReviewReportUpdate,
+} from './review-reports.repository';
+
+// User bans repository
+export {
+  createUserBansRepository,
+  type UserBansRepository,
+  type UserBanRow,
+  type UserBanInsert,
+  type UserBanUpdate,
+} from './user-bans.repository';
+
+// Resilience layer (retries, circuit breakers, last-known-good cache)
+export {
+  withResilience,
+  getCircuitSnapshots,
+  resetResilienceState,
+  type ResilienceOptions,
+  type CircuitState,
+  type CircuitSnapshot,
+} from './resilient.repository';
+
+// Collections repository
+export {
+  createCollectionsRepository,
+  type CollectionsRepository,
+  type CollectionRow,
+  type CollectionInsert,
+  type CollectionUpdate,
+  type CollectionWithCount,
+} from './collections.repository';
+
+// Collection items repository
+export {
+  createCollectionItemsRepository,
+  type CollectionItemsRepository,
+  type CollectionItemRow,
+  type CollectionItemInsert,
+  type CollectionItemUpdate,
+  type CollectionItemWithTool,
+} from './collection-items.repository';
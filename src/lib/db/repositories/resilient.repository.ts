@@ -0,0 +1,291 @@
+/**
+ * Resilience layer for repositories built on createBaseRepository.
+ * Retries transient read failures with jittered backoff, fails fast through
+ * a per-table circuit breaker and can serve last-known-good read results
+ * while the database is unreachable.
+ *
+ * @module resilient.repository
+ */
+
+import { CircuitOpenError, DatabaseError } from '../errors';
+
+/**
+ * Options for withResilience.
+ */
+export interface ResilienceOptions {
+  /** Extra attempts for transient read failures (default: 2) */
+  retries?: number;
+  /** Base delay for exponential backoff in ms (default: 100) */
+  baseDelayMs?: number;
+  /** Upper bound for a single backoff delay in ms (default: 2000) */
+  maxDelayMs?: number;
+  /** Consecutive transient failures that open the circuit (default: 5) */
+  failureThreshold?: number;
+  /** Time the circuit stays open before a trial call in ms (default: 30000) */
+  resetTimeoutMs?: number;
+  /** Serve last-known-good read results when a read fails transiently (default: false) */
+  cache?: boolean;
+  /** How old cached results may be and still be served, in ms (default: 10 minutes) */
+  cacheTtlMs?: number;
+}
+
+/**
+ * Circuit breaker state.
+ * - closed: calls pass through
+ * - open: calls fail fast with CircuitOpenError
+ * - half-open: one trial call decides whether to close or reopen
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Point-in-time view of one table's circuit, for health reporting.
+ */
+export interface CircuitSnapshot {
+  table: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  lastFailureAt: string | null;
+  lastError: string | null;
+}
+
+const DEFAULT_OPTIONS: Required<ResilienceOptions> = {
+  retries: 2,
+  baseDelayMs: 100,
+  maxDelayMs: 2000,
+  failureThreshold: 5,
+  resetTimeoutMs: 30_000,
+  cache: false,
+  cacheTtlMs: 10 * 60 * 1000,
+};
+
+/** Maximum cached read results kept per process across all tables */
+const MAX_CACHE_ENTRIES = 500;
+
+/** Repository methods that only read and are therefore safe to retry and cache */
+const READ_METHOD_PATTERN = /^(find|count|search)/;
+
+/**
+ * Circuit breaker guarding all calls against one table.
+ * Only transient (retryable) failures count towards opening the circuit;
+ * conflicts and validation failures say nothing about database health.
+ */
+class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private lastFailureAt: number | null = null;
+  private lastError: string | null = null;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly table: string,
+    private readonly failureThreshold: number,
+    private readonly resetTimeoutMs: number
+  ) {}
+
+  async execute<T>(operation: string, fn: () => Promise<T>): Promise<T> {
+    if (this.state === 'open') {
+      if (Date.now() - (this.openedAt ?? 0) < this.resetTimeoutMs) {
+        throw new CircuitOpenError(operation, this.table);
+      }
+      this.state = 'half-open';
+    }
+
+    if (this.state === 'half-open') {
+      if (this.trialInFlight) {
+        throw new CircuitOpenError(operation, this.table);
+      }
+      this.trialInFlight = true;
+    }
+
+    try {
+      const result = await fn();
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      if (isRetryable(error)) {
+        this.recordFailure(error);
+      } else if (this.state === 'half-open') {
+        // The database answered, so it is reachable again
+        this.recordSuccess();
+      }
+      throw error;
+    } finally {
+      this.trialInFlight = false;
+    }
+  }
+
+  snapshot(): CircuitSnapshot {
+    return {
+      table: this.table,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : null,
+      lastFailureAt: this.lastFailureAt ? new Date(this.lastFailureAt).toISOString() : null,
+      lastError: this.lastError,
+    };
+  }
+
+  private recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+  }
+
+  private recordFailure(error: unknown): void {
+    this.consecutiveFailures++;
+    this.lastFailureAt = Date.now();
+    this.lastError = error instanceof Error ? error.message : String(error);
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+}
+
+/** Circuit breakers by table name, shared by every repository in the process */
+const breakers = new Map<string, CircuitBreaker>();
+
+/** Last-known-good read results by table, method and arguments */
+const lastKnownGood = new Map<string, { value: unknown; storedAt: number }>();
+
+/**
+ * Checks whether an error is worth retrying.
+ */
+function isRetryable(error: unknown): boolean {
+  return error instanceof DatabaseError && error.retryable;
+}
+
+/**
+ * Full-jitter exponential backoff delay for a retry attempt (0-based).
+ */
+function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  return Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Gets or creates the circuit breaker for a table.
+ */
+function getBreaker(table: string, options: Required<ResilienceOptions>): CircuitBreaker {
+  let breaker = breakers.get(table);
+  if (!breaker) {
+    breaker = new CircuitBreaker(table, options.failureThreshold, options.resetTimeoutMs);
+    breakers.set(table, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * Stores a read result, evicting the oldest entry when the cache is full.
+ */
+function remember(key: string, value: unknown): void {
+  lastKnownGood.delete(key);
+  lastKnownGood.set(key, { value, storedAt: Date.now() });
+
+  if (lastKnownGood.size > MAX_CACHE_ENTRIES) {
+    const oldest = lastKnownGood.keys().next().value;
+    if (oldest !== undefined) {
+      lastKnownGood.delete(oldest);
+    }
+  }
+}
+
+/**
+ * Wraps every method of a repository with retries, a circuit breaker and
+ * an optional last-known-good cache.
+ *
+ * Reads (find*, count*, search*) are retried on transient errors. Writes go
+ * through the circuit breaker but are never retried, since a write that timed
+ * out may already have committed.
+ *
+ * @param repo - Repository created by createBaseRepository or a specialized factory
+ * @param table - Table name identifying the circuit
+ * @param options - Retry, breaker and cache settings
+ * @returns A repository with the same interface
+ *
+ * @example
+ * ```ts
+ * const toolsRepo = withResilience(createToolsRepository(supabase), TABLES.TOOLS, {
+ *   cache: true,
+ * });
+ * const tools = await toolsRepo.findFeatured(10); // retried, cached on success
+ * ```
+ */
+export function withResilience<R extends object>(
+  repo: R,
+  table: string,
+  options?: ResilienceOptions
+): R {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const breaker = getBreaker(table, settings);
+  const wrapped: Record<string, unknown> = {};
+
+  for (const [name, member] of Object.entries(repo)) {
+    if (typeof member !== 'function') {
+      wrapped[name] = member;
+      continue;
+    }
+
+    const isRead = READ_METHOD_PATTERN.test(name);
+
+    wrapped[name] = async (...args: unknown[]) => {
+      const cacheKey = `${table}:${name}:${JSON.stringify(args)}`;
+
+      const attempt = async () => {
+        for (let retry = 0; ; retry++) {
+          try {
+            return await member.apply(repo, args);
+          } catch (error) {
+            if (!isRead || !isRetryable(error) || retry >= settings.retries) {
+              throw error;
+            }
+            await sleep(backoffDelay(retry, settings.baseDelayMs, settings.maxDelayMs));
+          }
+        }
+      };
+
+      try {
+        const result = await breaker.execute(name, attempt);
+        if (isRead && settings.cache) {
+          remember(cacheKey, result);
+        }
+        return result;
+      } catch (error) {
+        const cached = isRead && settings.cache ? lastKnownGood.get(cacheKey) : undefined;
+        if (cached && isRetryable(error) && Date.now() - cached.storedAt <= settings.cacheTtlMs) {
+          console.warn(`[resilience] Serving cached ${table}.${name} after: ${(error as Error).message}`);
+          return cached.value;
+        }
+        throw error;
+      }
+    };
+  }
+
+  return wrapped as R;
+}
+
+/**
+ * Returns the state of every table circuit created in this process.
+ *
+ * @example
+ * ```ts
+ * const open = getCircuitSnapshots().filter((c) => c.state !== 'closed');
+ * ```
+ */
+export function getCircuitSnapshots(): CircuitSnapshot[] {
+  return Array.from(breakers.values(), (breaker) => breaker.snapshot());
+}
+
+/**
+ * Clears all circuits and cached results. Intended for tests.
+ */
+export function resetResilienceState(): void {
+  breakers.clear();
+  lastKnownGood.clear();
+}
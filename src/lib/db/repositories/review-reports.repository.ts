@@ -0,0 +1,143 @@
+/**
+ * Review reports repository for the review_reports table.
+ * Users file reports with their session client; moderators list and
+ * resolve them with the admin client.
+ *
+ * @module review-reports.repository
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  Database,
+  ReviewReportRow as GeneratedReviewReportRow,
+  ReviewReportInsert as GeneratedReviewReportInsert,
+  ReviewReportUpdate as GeneratedReviewReportUpdate,
+} from '@/lib/supabase/types';
+import { DatabaseError, classifyDatabaseError } from '../errors';
+import { TABLES } from '../constants/tables';
+import {
+  createBaseRepository,
+  type BaseRepository,
+} from './base.repository';
+
+/**
+ * Review report row type from database.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type ReviewReportRow = GeneratedReviewReportRow & { [key: string]: unknown };
+
+/**
+ * Review report insert type.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type ReviewReportInsert = GeneratedReviewReportInsert & { [key: string]: unknown };
+
+/**
+ * Review report update type.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type ReviewReportUpdate = GeneratedReviewReportUpdate & { [key: string]: unknown };
+
+/**
+ * Review reports repository interface extending base repository.
+ */
+export interface ReviewReportsRepository
+  extends BaseRepository<ReviewReportRow, ReviewReportInsert, ReviewReportUpdate> {
+  /** Find a user's report on a review */
+  findByReviewAndReporter(reviewId: string, reporterId: string): Promise<ReviewReportRow | null>;
+  /** Find the open reports on some reviews, oldest first */
+  findOpenByReviews(reviewIds: string[]): Promise<ReviewReportRow[]>;
+  /** Close every open report on some reviews */
+  closeOpenByReviews(reviewIds: string[], status: 'resolved' | 'dismissed', resolvedBy: string): Promise<void>;
+}
+
+/**
+ * Creates a review reports repository.
+ *
+ * @param supabase - Supabase client; the user's session to report, the admin client to moderate
+ * @returns Review reports repository
+ *
+ * @example
+ * ```ts
+ * const reportsRepo = createReviewReportsRepository(createAdminClient());
+ * const reports = await reportsRepo.findOpenByReviews(reviewIds);
+ * ```
+ */
+export function createReviewReportsRepository(
+  supabase: SupabaseClient<Database>
+): ReviewReportsRepository {
+  const tableName = TABLES.REVIEW_REPORTS;
+  const baseRepo = createBaseRepository<ReviewReportRow, ReviewReportInsert, ReviewReportUpdate>(
+    supabase,
+    tableName
+  );
+
+  /**
+   * Helper to wrap Supabase errors in the matching DatabaseError subclass.
+   */
+  function wrapError(error: unknown, operation: string): DatabaseError {
+    return classifyDatabaseError(operation, tableName, error);
+  }
+
+  return {
+    // Inherit base repository methods
+    ...baseRepo,
+
+    async findByReviewAndReporter(reviewId: string, reporterId: string): Promise<ReviewReportRow | null> {
+      const { data, error } = await supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .select('*')
+        .eq('review_id', reviewId)
+        .eq('reporter_id', reporterId)
+        .maybeSingle();
+
+      if (error) {
+        throw wrapError(error, 'findByReviewAndReporter');
+      }
+
+      return (data as unknown as ReviewReportRow) ?? null;
+    },
+
+    async findOpenByReviews(reviewIds: string[]): Promise<ReviewReportRow[]> {
+      if (reviewIds.length === 0) {
+        return [];
+      }
+
+      const { data, error } = await supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .select('*')
+        .in('review_id', reviewIds)
+        .eq('status', 'open')
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        throw wrapError(error, 'findOpenByReviews');
+      }
+
+      return (data ?? []) as unknown as ReviewReportRow[];
+    },
+
+    async closeOpenByReviews(
+      reviewIds: string[],
+      status: 'resolved' | 'dismissed',
+      resolvedBy: string
+    ): Promise<void> {
+      if (reviewIds.length === 0) {
+        return;
+      }
+
+      const { error } = await supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .update({ status, resolved_by: resolvedBy, resolved_at: new Date().toISOString() })
+        .in('review_id', reviewIds)
+        .eq('status', 'open');
+
+      if (error) {
+        throw wrapError(error, 'closeOpenByReviews');
+      }
+    },
+  };
+}
@@ -0,0 +1,130 @@
+/**
+ * Review votes repository for the review_votes table.
+ * Holds helpful and unhelpful votes; use a session client so RLS limits
+ * every query to the user's own votes.
+ *
+ * @module review-votes.repository
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  Database,
+  ReviewVoteRow as GeneratedReviewVoteRow,
+  ReviewVoteInsert as GeneratedReviewVoteInsert,
+  ReviewVoteUpdate as GeneratedReviewVoteUpdate,
+} from '@/lib/supabase/types';
+import { DatabaseError, classifyDatabaseError } from '../errors';
+import { TABLES } from '../constants/tables';
+import {
+  createBaseRepository,
+  type BaseRepository,
+} from './base.repository';
+
+/**
+ * Review vote row type from database.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type ReviewVoteRow = GeneratedReviewVoteRow & { [key: string]: unknown };
+
+/**
+ * Review vote insert type.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type ReviewVoteInsert = GeneratedReviewVoteInsert & { [key: string]: unknown };
+
+/**
+ * Review vote update type.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type ReviewVoteUpdate = GeneratedReviewVoteUpdate & { [key: string]: unknown };
+
+/**
+ * Review votes repository interface extending base repository.
+ */
+export interface ReviewVotesRepository
+  extends BaseRepository<ReviewVoteRow, ReviewVoteInsert, ReviewVoteUpdate> {
+  /** Find a user's votes on some reviews, keyed by review ID */
+  findByUserAndReviews(userId: string, reviewIds: string[]): Promise<Record<string, boolean>>;
+  /** Record or change a user's vote on a review */
+  setVote(reviewId: string, userId: string, helpful: boolean): Promise<void>;
+  /** Remove a user's vote on a review; a no-op if they had not voted */
+  removeVote(reviewId: string, userId: string): Promise<void>;
+}
+
+/**
+ * Creates a review votes repository.
+ *
+ * @param supabase - Supabase client carrying the user's session
+ * @returns Review votes repository
+ *
+ * @example
+ * ```ts
+ * const votesRepo = createReviewVotesRepository(supabase);
+ * await votesRepo.setVote(reviewId, userId, true);
+ * ```
+ */
+export function createReviewVotesRepository(
+  supabase: SupabaseClient<Database>
+): ReviewVotesRepository {
+  const tableName = TABLES.REVIEW_VOTES;
+  const baseRepo = createBaseRepository<ReviewVoteRow, ReviewVoteInsert, ReviewVoteUpdate>(
+    supabase,
+    tableName
+  );
+
+  /**
+   * Helper to wrap Supabase errors in the matching DatabaseError subclass.
+   */
+  function wrapError(error: unknown, operation: string): DatabaseError {
+    return classifyDatabaseError(operation, tableName, error);
+  }
+
+  return {
+    // Inherit base repository methods
+    ...baseRepo,
+
+    async findByUserAndReviews(userId: string, reviewIds: string[]): Promise<Record<string, boolean>> {
+      if (reviewIds.length === 0) {
+        return {};
+      }
+
+      const { data, error } = await supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .select('review_id, helpful')
+        .eq('user_id', userId)
+        .in('review_id', reviewIds);
+
+      if (error) {
+        throw wrapError(error, 'findByUserAndReviews');
+      }
+
+      const rows = (data ?? []) as unknown as Pick<ReviewVoteRow, 'review_id' | 'helpful'>[];
+      return Object.fromEntries(rows.map((row) => [row.review_id, row.helpful]));
+    },
+
+    async setVote(reviewId: string, userId: string, helpful: boolean): Promise<void> {
+      const { error } = await supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .upsert({ review_id: reviewId, user_id: userId, helpful }, { onConflict: 'review_id,user_id' });
+
+      if (error) {
+        throw wrapError(error, 'setVote');
+      }
+    },
+
+    async removeVote(reviewId: string, userId: string): Promise<void> {
+      const { error } = await supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .delete()
+        .eq('review_id', reviewId)
+        .eq('user_id', userId);
+
+      if (error) {
+        throw wrapError(error, 'removeVote');
+      }
+    },
+  };
+}
@@ -0,0 +1,261 @@
+/**
+ * Reviews repository for the reviews table.
+ * Reviews are public to read; writes need a session client, since RLS only
+ * lets users create, edit and delete their own review. Moderation (hiding
+ * and the reported queue) needs the admin client.
+ *
+ * @module reviews.repository
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  Database,
+  ReviewRow as GeneratedReviewRow,
+  ReviewInsert as GeneratedReviewInsert,
+  ReviewUpdate as GeneratedReviewUpdate,
+} from '@/lib/supabase/types';
+import { DatabaseError, classifyDatabaseError } from '../errors';
+import { TABLES } from '../constants/tables';
+import {
+  createBaseRepository,
+  decodeKeysetCursor,
+  keysetFilter,
+  toKeysetPage,
+  DEFAULT_PAGE_LIMIT,
+  type BaseRepository,
+  type Page,
+} from './base.repository';
+import type { ToolRow } from './tools.repository';
+
+/**
+ * Review row type from database.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type ReviewRow = GeneratedReviewRow & { [key: string]: unknown };
+
+/**
+ * Review insert type.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type ReviewInsert = GeneratedReviewInsert & { [key: string]: unknown };
+
+/**
+ * Review update type.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type ReviewUpdate = GeneratedReviewUpdate & { [key: string]: unknown };
+
+/** Orders of a tool's reviews */
+export type ReviewOrder = 'newest' | 'helpful' | 'highest' | 'lowest';
+
+/**
+ * Review with the name and slug of its tool, for the moderation queue.
+ */
+export interface ReviewWithTool extends ReviewRow {
+  tool: Pick<ToolRow, 'name' | 'slug'> | null;
+}
+
+/**
+ * Moves the joined tools record of fetched reviews to their tool field.
+ */
+function toReviewsWithTool(data: unknown): ReviewWithTool[] {
+  return ((data ?? []) as Record<string, unknown>[]).map((row) => {
+    const { tools, ...reviewRow } = row;
+    return { ...reviewRow, tool: (tools as ReviewWithTool['tool']) ?? null } as ReviewWithTool;
+  });
+}
+
+/**
+ * Reviews repository interface extending base repository.
+ */
+export interface ReviewsRepository extends BaseRepository<ReviewRow, ReviewInsert, ReviewUpdate> {
+  /** Find one page of a tool's public reviews by offset, with the total count */
+  findPageByTool(
+    toolId: string,
+    options: { order: ReviewOrder; offset: number; limit: number }
+  ): Promise<{ rows: ReviewRow[]; total: number }>;
+  /** Find a user's review of a tool */
+  findByToolAndUser(toolId: string, userId: string): Promise<ReviewRow | null>;
+  /**
+   * Find a page of the moderation queue: public reviews with open reports,
+   * most reported first, or hidden reviews, most recently hidden first
+   */
+  findModerationPage(
+    queue: 'reported' | 'hidden',
+    options?: { after?: string | null; limit?: number }
+  ): Promise<Page<ReviewWithTool>>;
+  /** Count the reviews in a moderation queue */
+  countModerationQueue(queue: 'reported' | 'hidden'): Promise<number>;
+  /** Hide or restore reviews; hiddenBy and reason are cleared on restore */
+  setHidden(ids: string[], hidden: { hiddenBy: string; reason: string } | null): Promise<void>;
+  /** Find a user's public reviews with their tools */
+  findVisibleByUser(userId: string): Promise<ReviewWithTool[]>;
+}
+
+/**
+ * Creates a reviews repository.
+ *
+ * @param supabase - Supabase client; carrying the user's session for writes
+ * @returns Reviews repository
+ *
+ * @example
+ * ```ts
+ * const reviewsRepo = createReviewsRepository(supabase);
+ * const { rows, total } = await reviewsRepo.findPageByTool(toolId, { order: 'newest', offset: 0, limit: 5 });
+ * ```
+ */
+export function createReviewsRepository(supabase: SupabaseClient<Database>): ReviewsRepository {
+  const tableName = TABLES.REVIEWS;
+  const baseRepo = createBaseRepository<ReviewRow, ReviewInsert, ReviewUpdate>(supabase, tableName);
+
+  /**
+   * Helper to wrap Supabase errors in the matching DatabaseError subclass.
+   */
+  function wrapError(error: unknown, operation: string): DatabaseError {
+    return classifyDatabaseError(operation, tableName, error);
+  }
+
+  return {
+    // Inherit base repository methods
+    ...baseRepo,
+
+    async findPageByTool(
+      toolId: string,
+      options: { order: ReviewOrder; offset: number; limit: number }
+    ): Promise<{ rows: ReviewRow[]; total: number }> {
+      let request = supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .select('*', { count: 'exact' })
+        .eq('tool_id', toolId)
+        .is('hidden_at', null);
+
+      // Ties show the newest first; id keeps pages stable
+      if (options.order === 'helpful') {
+        request = request.order('helpful_score', { ascending: false });
+      } else if (options.order !== 'newest') {
+        request = request.order('rating', { ascending: options.order === 'lowest' });
+      }
+
+      const { data, error, count } = await request
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .range(options.offset, options.offset + options.limit - 1);
+
+      if (error) {
+        throw wrapError(error, 'findPageByTool');
+      }
+
+      const rows = (data ?? []) as unknown as ReviewRow[];
+      return { rows, total: count ?? rows.length };
+    },
+
+    async findByToolAndUser(toolId: string, userId: string): Promise<ReviewRow | null> {
+      const { data, error } = await supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .select('*')
+        .eq('tool_id', toolId)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) {
+        throw wrapError(error, 'findByToolAndUser');
+      }
+
+      return (data as unknown as ReviewRow) ?? null;
+    },
+
+    async findModerationPage(
+      queue: 'reported' | 'hidden',
+      options?: { after?: string | null; limit?: number }
+    ): Promise<Page<ReviewWithTool>> {
+      const limit = options?.limit ?? DEFAULT_PAGE_LIMIT;
+      const position = decodeKeysetCursor(options?.after);
+      const column = queue === 'reported' ? 'report_count' : 'hidden_at';
+
+      let request = supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .select(`
+          *,
+          tools (name, slug)
+        `, position ? undefined : { count: 'exact' });
+
+      request = queue === 'reported'
+        ? request.gt('report_count', 0).is('hidden_at', null)
+        : request.not('hidden_at', 'is', null);
+
+      if (position) {
+        request = request.or(keysetFilter(column, false, position));
+      }
+
+      const { data, error, count } = await request
+        .order(column, { ascending: false })
+        .order('id', { ascending: false })
+        .limit(limit + 1);
+
+      if (error) {
+        throw wrapError(error, 'findModerationPage');
+      }
+
+      const rows = toReviewsWithTool(data);
+      return toKeysetPage(rows, limit, column, position?.total ?? count ?? rows.length);
+    },
+
+    async countModerationQueue(queue: 'reported' | 'hidden'): Promise<number> {
+      const request = supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .select('id', { count: 'exact', head: true });
+
+      const { count, error } = queue === 'reported'
+        ? await request.gt('report_count', 0).is('hidden_at', null)
+        : await request.not('hidden_at', 'is', null);
+
+      if (error) {
+        throw wrapError(error, 'countModerationQueue');
+      }
+
+      return count ?? 0;
+    },
+
+    async setHidden(ids: string[], hidden: { hiddenBy: string; reason: string } | null): Promise<void> {
+      if (ids.length === 0) {
+        return;
+      }
+
+      const { error } = await supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .update({
+          hidden_at: hidden ? new Date().toISOString() : null,
+          hidden_by: hidden?.hiddenBy ?? null,
+          hidden_reason: hidden?.reason ?? null,
+        })
+        .in('id', ids);
+
+      if (error) {
+        throw wrapError(error, 'setHidden');
+      }
+    },
+
+    async findVisibleByUser(userId: string): Promise<ReviewWithTool[]> {
+      const { data, error } = await supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .select(`
+          *,
+          tools (name, slug)
+        `)
+        .eq('user_id', userId)
+        .is('hidden_at', null);
+
+      if (error) {
+        throw wrapError(error, 'findVisibleByUser');
+      }
+
+      return toReviewsWithTool(data);
+    },
+  };
+}
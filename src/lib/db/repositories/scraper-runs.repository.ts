@@ -0,0 +1,98 @@
+/**
+ * Scraper runs repository for the scraper_runs table.
+ * Runs are recorded by the scraper script through its own client, so this
+ * repository only reads.
+ *
+ * @module scraper-runs.repository
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  Database,
+  ScraperRunRow as GeneratedScraperRunRow,
+  ScraperRunInsert as GeneratedScraperRunInsert,
+  ScraperRunUpdate as GeneratedScraperRunUpdate,
+} from '@/lib/supabase/types';
+import { DatabaseError, classifyDatabaseError } from '../errors';
+import { TABLES } from '../constants/tables';
+import {
+  createBaseRepository,
+  type BaseRepository,
+} from './base.repository';
+
+/**
+ * Scraper run row type from database.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type ScraperRunRow = GeneratedScraperRunRow & { [key: string]: unknown };
+
+/**
+ * Scraper run insert type.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type ScraperRunInsert = GeneratedScraperRunInsert & { [key: string]: unknown };
+
+/**
+ * Scraper run update type.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type ScraperRunUpdate = GeneratedScraperRunUpdate & { [key: string]: unknown };
+
+/**
+ * Scraper runs repository interface extending base repository.
+ */
+export interface ScraperRunsRepository
+  extends BaseRepository<ScraperRunRow, ScraperRunInsert, ScraperRunUpdate> {
+  /** Find the most recently finished run, or null if the scraper never recorded one */
+  findLatest(): Promise<ScraperRunRow | null>;
+}
+
+/**
+ * Creates a scraper runs repository.
+ *
+ * @param supabase - Supabase client instance
+ * @returns Scraper runs repository
+ *
+ * @example
+ * ```ts
+ * const runsRepo = createScraperRunsRepository(supabase);
+ * const lastRun = await runsRepo.findLatest();
+ * ```
+ */
+export function createScraperRunsRepository(
+  supabase: SupabaseClient<Database>
+): ScraperRunsRepository {
+  const tableName = TABLES.SCRAPER_RUNS;
+  const baseRepo = createBaseRepository<ScraperRunRow, ScraperRunInsert, ScraperRunUpdate>(
+    supabase,
+    tableName
+  );
+
+  /**
+   * Helper to wrap Supabase errors in the matching DatabaseError subclass.
+   */
+  function wrapError(error: unknown, operation: string): DatabaseError {
+    return classifyDatabaseError(operation, tableName, error);
+  }
+
+  return {
+    // Inherit base repository methods
+    ...baseRepo,
+
+    async findLatest(): Promise<ScraperRunRow | null> {
+      const { data, error } = await supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .select('*')
+        .order('finished_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        throw wrapError(error, 'findLatest');
+      }
+
+      return (data as unknown as ScraperRunRow) ?? null;
+    },
+  };
+}
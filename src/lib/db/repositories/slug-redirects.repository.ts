@@ -0,0 +1,118 @@
+/**
+ * Slug redirects repository for the slug_redirects table.
+ * Redirects are written by database triggers whenever a tool or category
+ * slug changes, so this repository only reads.
+ *
+ * @module slug-redirects.repository
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  Database,
+  SlugRedirectRow as GeneratedSlugRedirectRow,
+  SlugRedirectInsert as GeneratedSlugRedirectInsert,
+  SlugRedirectUpdate as GeneratedSlugRedirectUpdate,
+} from '@/lib/supabase/types';
+import { DatabaseError, classifyDatabaseError } from '../errors';
+import { TABLES } from '../constants/tables';
+import {
+  createBaseRepository,
+  type BaseRepository,
+} from './base.repository';
+
+/**
+ * Slug redirect row type from database.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type SlugRedirectRow = GeneratedSlugRedirectRow & { [key: string]: unknown };
+
+/**
+ * Slug redirect insert type.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type SlugRedirectInsert = GeneratedSlugRedirectInsert & { [key: string]: unknown };
+
+/**
+ * Slug redirect update type.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type SlugRedirectUpdate = GeneratedSlugRedirectUpdate & { [key: string]: unknown };
+
+/**
+ * Tables whose slugs are redirected when they change.
+ */
+export type SlugRedirectEntity = typeof TABLES.TOOLS | typeof TABLES.CATEGORIES;
+
+/**
+ * Slug redirects repository interface extending base repository.
+ */
+export interface SlugRedirectsRepository
+  extends BaseRepository<SlugRedirectRow, SlugRedirectInsert, SlugRedirectUpdate> {
+  /** Current slug for a former one, or null if it does not redirect */
+  resolve(entity: SlugRedirectEntity, oldSlug: string): Promise<string | null>;
+  /** All former slugs of an entity */
+  findOldSlugs(entity: SlugRedirectEntity): Promise<string[]>;
+}
+
+/**
+ * Creates a slug redirects repository with lookup helpers.
+ *
+ * @param supabase - Supabase client instance
+ * @returns Slug redirects repository
+ *
+ * @example
+ * ```ts
+ * const redirectsRepo = createSlugRedirectsRepository(supabase);
+ * const slug = await redirectsRepo.resolve('tools', 'old-slug');
+ * ```
+ */
+export function createSlugRedirectsRepository(
+  supabase: SupabaseClient<Database>
+): SlugRedirectsRepository {
+  const tableName = TABLES.SLUG_REDIRECTS;
+  const baseRepo = createBaseRepository<SlugRedirectRow, SlugRedirectInsert, SlugRedirectUpdate>(
+    supabase,
+    tableName
+  );
+
+  /**
+   * Helper to wrap Supabase errors in the matching DatabaseError subclass.
+   */
+  function wrapError(error: unknown, operation: string): DatabaseError {
+    return classifyDatabaseError(operation, tableName, error);
+  }
+
+  return {
+    // Inherit base repository methods
+    ...baseRepo,
+
+    async resolve(entity: SlugRedirectEntity, oldSlug: string): Promise<string | null> {
+      const { data, error } = await supabase.rpc('resolve_slug_redirect', {
+        target_entity: entity,
+        requested_slug: oldSlug,
+      });
+
+      if (error) {
+        throw wrapError(error, 'resolve');
+      }
+
+      return data ?? null;
+    },
+
+    async findOldSlugs(entity: SlugRedirectEntity): Promise<string[]> {
+      const { data, error } = await supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .select('old_slug')
+        .eq('entity', entity);
+
+      if (error) {
+        throw wrapError(error, 'findOldSlugs');
+      }
+
+      return ((data ?? []) as unknown as Pick<SlugRedirectRow, 'old_slug'>[]).map(
+        (row) => row.old_slug
+      );
+    },
+  };
+}
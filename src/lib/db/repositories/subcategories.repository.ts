@@ -12,7 +12,7 @@ import type {
   SubcategoryInsert as GeneratedSubcategoryInsert,
   SubcategoryUpdate as GeneratedSubcategoryUpdate,
 } from '@/lib/supabase/types';
-import { DatabaseError } from '../errors';
+import { DatabaseError, classifyDatabaseError } from '../errors';
 import { TABLES } from '../constants/tables';
 import {
   createBaseRepository,
@@ -55,6 +55,8 @@ export interface SubcategoriesRepository
   findByCategory(categoryId: string): Promise<SubcategoryRow[]>;
   /** Find a subcategory with its associated tools */
   findWithTools(subcategoryId: string): Promise<SubcategoryWithTools | null>;
+  /** Reorder subcategories by setting display_order to each ID's position in the array */
+  reorder(subcategoryIds: string[]): Promise<void>;
 }
 
 /**
@@ -79,11 +81,10 @@ export function createSubcategoriesRepository(
   );
 
   /**
-   * Helper to wrap Supabase errors in DatabaseError.
+   * Helper to wrap Supabase errors in the matching DatabaseError subclass.
    */
   function wrapError(error: unknown, operation: string): DatabaseError {
-    const message = error instanceof Error ? error.message : String(error);
-    return new DatabaseError(operation, tableName, message, error);
+    return classifyDatabaseError(operation, tableName, error);
   }
 
   return {
@@ -130,7 +131,8 @@ export function createSubcategoriesRepository(
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         .from(TABLES.TOOLS as any)
         .select('*')
-        .contains('metadata', { subcategory_id: subcategoryId });
+        .contains('metadata', { subcategory_id: subcategoryId })
+        .is('deleted_at', null);
 
       if (toolsError) {
         // If the query fails (e.g., no metadata field), return empty tools
@@ -145,5 +147,20 @@ export function createSubcategoriesRepository(
         tools: (tools ?? []) as unknown as ToolRow[],
       };
     },
+
+    async reorder(subcategoryIds: string[]): Promise<void> {
+      // Update display_order for each subcategory based on position in array
+      for (const [index, subcategoryId] of subcategoryIds.entries()) {
+        const { error } = await supabase
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          .from(tableName as any)
+          .update({ display_order: index })
+          .eq('id', subcategoryId);
+
+        if (error) {
+          throw wrapError(error, 'reorder');
+        }
+      }
+    },
   };
 }
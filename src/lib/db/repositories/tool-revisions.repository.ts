@@ -0,0 +1,102 @@
+/**
+ * Tool revisions repository with history queries for the tool_revisions table.
+ * Revisions are written by database triggers, so this repository only reads.
+ *
+ * @module tool-revisions.repository
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  Database,
+  ToolRevisionRow as GeneratedToolRevisionRow,
+  ToolRevisionInsert as GeneratedToolRevisionInsert,
+  ToolRevisionUpdate as GeneratedToolRevisionUpdate,
+} from '@/lib/supabase/types';
+import { DatabaseError, classifyDatabaseError } from '../errors';
+import { TABLES } from '../constants/tables';
+import {
+  createBaseRepository,
+  type BaseRepository,
+} from './base.repository';
+
+/**
+ * Tool revision row type from database.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type ToolRevisionRow = GeneratedToolRevisionRow & { [key: string]: unknown };
+
+/**
+ * Tool revision insert type.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type ToolRevisionInsert = GeneratedToolRevisionInsert & { [key: string]: unknown };
+
+/**
+ * Tool revision update type.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type ToolRevisionUpdate = GeneratedToolRevisionUpdate & { [key: string]: unknown };
+
+/**
+ * Tool revisions repository interface extending base repository.
+ */
+export interface ToolRevisionsRepository
+  extends BaseRepository<ToolRevisionRow, ToolRevisionInsert, ToolRevisionUpdate> {
+  /** Find a tool's revisions, newest first */
+  findByTool(toolId: string, limit?: number): Promise<ToolRevisionRow[]>;
+}
+
+/**
+ * Creates a tool revisions repository with history queries.
+ *
+ * @param supabase - Supabase client instance
+ * @returns Tool revisions repository
+ *
+ * @example
+ * ```ts
+ * const revisionsRepo = createToolRevisionsRepository(supabase);
+ * const history = await revisionsRepo.findByTool(toolId, 20);
+ * ```
+ */
+export function createToolRevisionsRepository(
+  supabase: SupabaseClient<Database>
+): ToolRevisionsRepository {
+  const tableName = TABLES.TOOL_REVISIONS;
+  const baseRepo = createBaseRepository<ToolRevisionRow, ToolRevisionInsert, ToolRevisionUpdate>(
+    supabase,
+    tableName
+  );
+
+  /**
+   * Helper to wrap Supabase errors in the matching DatabaseError subclass.
+   */
+  function wrapError(error: unknown, operation: string): DatabaseError {
+    return classifyDatabaseError(operation, tableName, error);
+  }
+
+  return {
+    // Inherit base repository methods
+    ...baseRepo,
+
+    async findByTool(toolId: string, limit?: number): Promise<ToolRevisionRow[]> {
+      let query = supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .select('*')
+        .eq('tool_id', toolId)
+        .order('revision_number', { ascending: false });
+
+      if (limit !== undefined) {
+        query = query.limit(limit);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        throw wrapError(error, 'findByTool');
+      }
+
+      return (data ?? []) as unknown as ToolRevisionRow[];
+    },
+  };
+}
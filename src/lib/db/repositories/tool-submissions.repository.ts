@@ -0,0 +1,241 @@
+/**
+ * Tool submissions repository for the tool_submissions table.
+ * Provides the moderation queue, tracking-token lookup and the duplicate
+ * checks run before a submission is accepted.
+ *
+ * @module tool-submissions.repository
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  Database,
+  Json,
+  ToolSubmissionRow as GeneratedToolSubmissionRow,
+  ToolSubmissionInsert as GeneratedToolSubmissionInsert,
+  ToolSubmissionUpdate as GeneratedToolSubmissionUpdate,
+} from '@/lib/supabase/types';
+import { DatabaseError, NotFoundError, classifyDatabaseError } from '../errors';
+import { TABLES } from '../constants/tables';
+import {
+  createBaseRepository,
+  decodeKeysetCursor,
+  keysetFilter,
+  quoteFilterValue,
+  toKeysetPage,
+  DEFAULT_PAGE_LIMIT,
+  type BaseRepository,
+  type Page,
+} from './base.repository';
+import type { ToolInsert, ToolRow } from './tools.repository';
+
+/**
+ * Tool submission row type from database.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type ToolSubmissionRow = GeneratedToolSubmissionRow & { [key: string]: unknown };
+
+/**
+ * Tool submission insert type.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type ToolSubmissionInsert = GeneratedToolSubmissionInsert & { [key: string]: unknown };
+
+/**
+ * Tool submission update type.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type ToolSubmissionUpdate = GeneratedToolSubmissionUpdate & { [key: string]: unknown };
+
+/**
+ * Statuses in which a submission still awaits staff or the submitter.
+ */
+const OPEN_STATUSES = ['pending', 'changes_requested'];
+
+/**
+ * Tool submissions repository interface extending base repository.
+ */
+export interface ToolSubmissionsRepository
+  extends BaseRepository<ToolSubmissionRow, ToolSubmissionInsert, ToolSubmissionUpdate> {
+  /** Find a submission by the secret token in its status link */
+  findByToken(token: string): Promise<ToolSubmissionRow | null>;
+  /** Find one keyset page of submissions in a status, oldest first so the queue is worked in order */
+  findPageByStatus(
+    status: string,
+    options?: { after?: string | null; limit?: number }
+  ): Promise<Page<ToolSubmissionRow>>;
+  /** Find open submissions with the slug or on the website domain, optionally ignoring one submission */
+  findOpenBySlugOrDomain(slug: string, domain: string | null, excludeId?: string): Promise<ToolSubmissionRow[]>;
+  /** Count open submissions made from an email address */
+  countOpenByEmail(email: string): Promise<number>;
+  /** Count submissions per status */
+  countByStatus(statuses: readonly string[]): Promise<Record<string, number>>;
+  /** Create the tool for an open submission and mark it approved in one transaction */
+  approve(id: string, toolFields: ToolInsert, categoryIds: string[], reviewerId: string): Promise<ToolRow>;
+}
+
+/**
+ * Creates a tool submissions repository.
+ *
+ * @param supabase - Supabase client instance
+ * @returns Tool submissions repository
+ *
+ * @example
+ * ```ts
+ * const submissionsRepo = createToolSubmissionsRepository(supabase);
+ * const page = await submissionsRepo.findPageByStatus('pending');
+ * ```
+ */
+export function createToolSubmissionsRepository(
+  supabase: SupabaseClient<Database>
+): ToolSubmissionsRepository {
+  const tableName = TABLES.TOOL_SUBMISSIONS;
+  const baseRepo = createBaseRepository<ToolSubmissionRow, ToolSubmissionInsert, ToolSubmissionUpdate>(
+    supabase,
+    tableName
+  );
+
+  /**
+   * Helper to wrap Supabase errors in the matching DatabaseError subclass.
+   */
+  function wrapError(error: unknown, operation: string): DatabaseError {
+    return classifyDatabaseError(operation, tableName, error);
+  }
+
+  return {
+    // Inherit base repository methods
+    ...baseRepo,
+
+    async findByToken(token: string): Promise<ToolSubmissionRow | null> {
+      const { data, error } = await supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .select('*')
+        .eq('tracking_token', token)
+        .maybeSingle();
+
+      if (error) {
+        throw wrapError(error, 'findByToken');
+      }
+
+      return (data as unknown as ToolSubmissionRow) ?? null;
+    },
+
+    async findPageByStatus(
+      status: string,
+      options?: { after?: string | null; limit?: number }
+    ): Promise<Page<ToolSubmissionRow>> {
+      const limit = options?.limit ?? DEFAULT_PAGE_LIMIT;
+      const position = decodeKeysetCursor(options?.after);
+
+      let request = supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .select('*', position ? undefined : { count: 'exact' })
+        .eq('status', status);
+
+      if (position) {
+        request = request.or(keysetFilter('created_at', true, position));
+      }
+
+      const { data, error, count } = await request
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .limit(limit + 1);
+
+      if (error) {
+        throw wrapError(error, 'findPageByStatus');
+      }
+
+      const rows = (data ?? []) as unknown as ToolSubmissionRow[];
+      return toKeysetPage(rows, limit, 'created_at', position?.total ?? count ?? rows.length);
+    },
+
+    async findOpenBySlugOrDomain(
+      slug: string,
+      domain: string | null,
+      excludeId?: string
+    ): Promise<ToolSubmissionRow[]> {
+      const matches = [`slug.eq.${quoteFilterValue(slug)}`];
+      if (domain) {
+        matches.push(`website_domain.eq.${quoteFilterValue(domain)}`);
+      }
+
+      let request = supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .select('*')
+        .in('status', OPEN_STATUSES)
+        .or(matches.join(','));
+
+      if (excludeId) {
+        request = request.neq('id', excludeId);
+      }
+
+      const { data, error } = await request.order('created_at', { ascending: true });
+
+      if (error) {
+        throw wrapError(error, 'findOpenBySlugOrDomain');
+      }
+
+      return (data ?? []) as unknown as ToolSubmissionRow[];
+    },
+
+    async countOpenByEmail(email: string): Promise<number> {
+      const { count, error } = await supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .select('id', { count: 'exact', head: true })
+        .in('status', OPEN_STATUSES)
+        .eq('submitter_email', email.toLowerCase());
+
+      if (error) {
+        throw wrapError(error, 'countOpenByEmail');
+      }
+
+      return count ?? 0;
+    },
+
+    async countByStatus(statuses: readonly string[]): Promise<Record<string, number>> {
+      const counts = await Promise.all(
+        statuses.map(async (status) => {
+          const { count, error } = await supabase
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            .from(tableName as any)
+            .select('id', { count: 'exact', head: true })
+            .eq('status', status);
+
+          if (error) {
+            throw wrapError(error, 'countByStatus');
+          }
+
+          return [status, count ?? 0] as const;
+        })
+      );
+
+      return Object.fromEntries(counts);
+    },
+
+    async approve(
+      id: string,
+      toolFields: ToolInsert,
+      categoryIds: string[],
+      reviewerId: string
+    ): Promise<ToolRow> {
+      const { data, error } = await supabase.rpc('approve_submission', {
+        target_id: id,
+        tool_fields: toolFields as Json,
+        category_ids: categoryIds,
+        reviewer_id: reviewerId,
+      });
+
+      if (error) {
+        if (error.code === 'P0002') {
+          throw new NotFoundError('Submission', id);
+        }
+        throw wrapError(error, 'approve');
+      }
+
+      return data as unknown as ToolRow;
+    },
+  };
+}
@@ -8,16 +8,26 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
 import type {
   Database,
+  Json,
   ToolRow as GeneratedToolRow,
   ToolInsert as GeneratedToolInsert,
   ToolUpdate as GeneratedToolUpdate,
 } from '@/lib/supabase/types';
-import { DatabaseError } from '../errors';
+import type { AdminToolQuery, AdminToolSortKey, ToolQuery, ToolSortKey } from '@/lib/types/tool';
+import { DatabaseError, classifyDatabaseError, NotFoundError } from '../errors';
 import { TABLES } from '../constants/tables';
 import {
   createBaseRepository,
+  encodeCursor,
+  decodeCursor,
+  decodeKeysetCursor,
+  keysetFilter,
+  toKeysetPage,
+  DEFAULT_PAGE_LIMIT,
   type BaseRepository,
   type FindAllOptions,
+  type FindPageOptions,
+  type Page,
 } from './base.repository';
 
 /**
@@ -45,6 +55,57 @@ export interface ToolWithCategories extends ToolRow {
   categories: { name: string; slug: string }[];
 }
 
+/**
+ * Tool row returned by the search_tools database function.
+ */
+export type ToolSearchRow = ToolRow & {
+  /** Combined full-text and trigram relevance score */
+  rank: number;
+  /** Description excerpt with matches wrapped in SEARCH_HIGHLIGHT markers */
+  snippet: string;
+  /** True when the row matched only by trigram similarity (likely a typo) */
+  fuzzy_match: boolean;
+};
+
+/**
+ * Paging options for findByQuery.
+ */
+export interface ToolQueryOptions {
+  /** Page size (default: 20) */
+  limit?: number;
+  /** Opaque cursor returned as nextCursor by the previous page */
+  cursor?: string | null;
+}
+
+/**
+ * Live tools created in one day or week.
+ */
+export interface ToolsAddedPoint {
+  /** Start of the bucket (ISO timestamp) */
+  periodStart: string;
+  count: number;
+}
+
+/**
+ * Number of live tools sharing one pricing value or source.
+ */
+export interface ToolCountByValue {
+  value: string;
+  count: number;
+}
+
+/**
+ * Single-figure totals for the admin dashboard.
+ */
+export interface ToolDashboardTotals {
+  /** Live tools not yet verified */
+  unverifiedTools: number;
+  /** Tools saved by users, across all users */
+  favorites: number;
+  /** Sum of review counts across live tools */
+  reviews: number;
+}
+
 /**
  * Tools repository interface extending base repository.
  */
@@ -53,20 +114,141 @@ export interface ToolsRepository extends BaseRepository<ToolRow, ToolInsert, Too
   findBySlug(slug: string): Promise<ToolRow | null>;
   /** Find tools with their category relationships */
   findWithCategories(options?: FindAllOptions<ToolRow>): Promise<ToolWithCategories[]>;
+  /** Find one keyset page of tools with their category relationships */
+  findPageWithCategories(options?: FindPageOptions<ToolRow>): Promise<Page<ToolWithCategories>>;
+  /** Find a tool by ID with its category relationships */
+  findByIdWithCategories(id: string): Promise<ToolWithCategories | null>;
+  /** Find a tool by slug with its category relationships */
+  findBySlugWithCategories(slug: string): Promise<ToolWithCategories | null>;
   /** Find tools belonging to a specific category */
   findByCategory(categorySlug: string, limit?: number): Promise<ToolRow[]>;
   /** Find featured tools */
   findFeatured(limit?: number): Promise<ToolRow[]>;
-  /** Search tools by name or description */
-  search(query: string, limit?: number): Promise<ToolRow[]>;
+  /** Find one page of tools matching every filter in the query, in a single SQL query */
+  findByQuery(query: ToolQuery, options?: ToolQueryOptions): Promise<Page<ToolWithCategories>>;
+  /** Find one keyset page of live tools for the admin table, with data-quality filters and any sort column */
+  findAdminPage(query: AdminToolQuery, options?: ToolQueryOptions): Promise<Page<ToolWithCategories>>;
+  /** Search tools by relevance across name, descriptions and tags, tolerating typos */
+  search(query: string, limit?: number): Promise<ToolSearchRow[]>;
+  /** Create a tool and link it to exactly these categories in one transaction */
+  createWithCategories(data: ToolInsert, categoryIds: string[]): Promise<ToolRow>;
+  /** Update a tool and, when categoryIds is given, replace its category set in one transaction */
+  updateWithCategories(id: string, data: ToolUpdate, categoryIds?: string[]): Promise<ToolRow>;
+  /** Find the IDs of the categories a tool is linked to */
+  findCategoryIds(toolId: string): Promise<string[]>;
   /** Link a tool to a category */
   linkToCategory(toolId: string, categoryId: string): Promise<void>;
   /** Unlink a tool from a category */
   unlinkFromCategory(toolId: string, categoryId: string): Promise<void>;
+  /** Set the same column values on many live tools in one statement; returns how many changed */
+  updateMany(ids: string[], data: ToolUpdate): Promise<number>;
+  /** Link many tools to one category in one statement; existing links are kept */
+  linkManyToCategory(toolIds: string[], categoryId: string): Promise<void>;
+  /** Archive many live tools in one statement; returns how many were archived */
+  archiveMany(ids: string[]): Promise<number>;
   /** Bulk upsert tools using slug as conflict column */
   bulkUpsert(tools: ToolInsert[]): Promise<ToolRow[]>;
+  /** Archive a tool, hiding it from every public query while keeping its links */
+  archive(id: string): Promise<ToolRow>;
+  /** Restore an archived tool */
+  restore(id: string): Promise<ToolRow>;
+  /** Find one keyset page of archived tools, most recently archived first */
+  findArchivedPage(options?: Omit<FindPageOptions<ToolRow>, 'orderBy' | 'ascending'>): Promise<Page<ToolWithCategories>>;
+  /** Hard-delete tools archived more than retentionDays ago; returns how many were purged */
+  purgeArchived(retentionDays: number): Promise<number>;
+  /** Count live tools created per day or week since a date, including empty buckets */
+  countAddedPerPeriod(bucket: 'day' | 'week', since: Date): Promise<ToolsAddedPoint[]>;
+  /** Count live tools per pricing value or per source, largest group first */
+  countBy(dimension: 'pricing' | 'source'): Promise<ToolCountByValue[]>;
+  /** Find the unverified, favorites and reviews totals in one query */
+  findDashboardTotals(): Promise<ToolDashboardTotals>;
+  /** Find live tools whose website is on a domain ("www." is ignored) */
+  findByWebsiteDomain(domain: string): Promise<ToolRow[]>;
 }
 
+/**
+ * Column marking archived (soft-deleted) tools. Archived tools are excluded
+ * from every query except findById, findByIdWithCategories and findArchivedPage.
+ */
+const SOFT_DELETE_COLUMN = 'deleted_at';
+
+/**
+ * Select clause joining a tool to the names and slugs of its categories.
+ */
+const TOOL_WITH_CATEGORIES_SELECT = `
+  *,
+  tool_categories (
+    categories (
+      name,
+      slug
+    )
+  )
+`;
+
+/**
+ * Flattens the nested tool_categories join into a categories array.
+ */
+function flattenToolCategories(row: Record<string, unknown>): ToolWithCategories {
+  const toolCategories = row.tool_categories as Array<{
+    categories: { name: string; slug: string } | null;
+  }> | null;
+
+  const categories = (toolCategories ?? [])
+    .map((tc) => tc.categories)
+    .filter((c): c is { name: string; slug: string } => c !== null);
+
+  // Remove tool_categories from the row and add flattened categories
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { tool_categories: _, ...toolRow } = row;
+  return {
+    ...toolRow,
+    categories,
+  } as ToolWithCategories;
+}
+
+/**
+ * Column order applied for each explicit sort key. 'relevance' has no entry:
+ * with a search term filter_tools returns rows by relevance; without one
+ * it falls back to 'newest'.
+ */
+const TOOL_SORT_COLUMNS: Record<Exclude<ToolSortKey, 'relevance'>, { column: string; ascending: boolean }> = {
+  newest: { column: 'created_at', ascending: false },
+  name: { column: 'name', ascending: true },
+  popular: { column: 'saved_count', ascending: false },
+  rating: { column: 'review_score', ascending: false },
+};
+
+/**
+ * Column ordered by for each admin table sort key.
+ */
+const ADMIN_SORT_COLUMNS: Record<AdminToolSortKey, string> = {
+  name: 'name',
+  pricing: 'pricing',
+  createdAt: 'created_at',
+  savedCount: 'saved_count',
+  monthlyVisits: 'monthly_visits',
+};
+
+/**
+ * Metadata key the scraper sets to 'scraper' on every tool it imports.
+ */
+const SOURCE_FILTER_COLUMN = 'metadata->>source';
+
+/**
+ * Maps a ToolQuery onto filter_tools arguments, leaving out unused filters.
+ */
+function toFilterToolsArgs(query: Omit<ToolQuery, 'sort'>): Database['public']['Functions']['filter_tools']['Args'] {
+  const search = query.search?.trim();
+
+  return {
+    ...(search && { search_query: search }),
+    ...(query.categories?.length && { category_slugs: query.categories }),
+    ...(query.pricing?.length && { pricing_values: query.pricing }),
+    ...(query.tags?.length && { tag_values: query.tags }),
+    ...(query.verified !== undefined && { only_verified: query.verified }),
+    ...(query.featured !== undefined && { only_featured: query.featured }),
+  };
+}
 
 /**
  * Creates a tools repository with specialized queries.
@@ -86,15 +268,130 @@ export function createToolsRepository(
   const tableName = TABLES.TOOLS;
   const baseRepo = createBaseRepository<ToolRow, ToolInsert, ToolUpdate>(
     supabase,
-    tableName
+    tableName,
+    { softDeleteColumn: SOFT_DELETE_COLUMN }
   );
 
   /**
-   * Helper to wrap Supabase errors in DatabaseError.
+   * Helper to wrap Supabase errors in the matching DatabaseError subclass.
    */
   function wrapError(error: unknown, operation: string): DatabaseError {
-    const message = error instanceof Error ? error.message : String(error);
-    return new DatabaseError(operation, tableName, message, error);
+    return classifyDatabaseError(operation, tableName, error);
+  }
+
+  /**
+   * Calls the save_tool function, which writes the tool row, its tag set
+   * and its category links atomically.
+   */
+  async function saveTool(
+    targetId: string | null,
+    fields: Record<string, unknown>,
+    categoryIds: string[] | undefined,
+    operation: string
+  ): Promise<ToolRow> {
+    const { data, error } = await supabase.rpc('save_tool', {
+      target_id: targetId,
+      tool_fields: fields as Json,
+      ...(categoryIds !== undefined && { category_ids: categoryIds }),
+    });
+
+    if (error) {
+      if (error.code === 'P0002' && targetId) {
+        throw new NotFoundError('Tool', targetId);
+      }
+      throw wrapError(error, operation);
+    }
+
+    return data as unknown as ToolRow;
+  }
+
+  /**
+   * Fetches one keyset page of live or archived tools with their categories.
+   */
+  async function findToolsPage(
+    options: FindPageOptions<ToolRow> | undefined,
+    archived: boolean,
+    operation: string
+  ): Promise<Page<ToolWithCategories>> {
+    const column = (options?.orderBy as string | undefined) ?? 'created_at';
+    const ascending = options?.ascending ?? false;
+    const limit = options?.limit ?? DEFAULT_PAGE_LIMIT;
+    const position = decodeKeysetCursor(options?.after);
+
+    let query = supabase
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .from(tableName as any)
+      .select(TOOL_WITH_CATEGORIES_SELECT, position ? undefined : { count: 'exact' });
+
+    query = archived
+      ? query.not(SOFT_DELETE_COLUMN, 'is', null)
+      : query.is(SOFT_DELETE_COLUMN, null);
+
+    if (position) {
+      query = query.or(keysetFilter(column, ascending, position));
+    }
+
+    const { data, error, count } = await query
+      .order(column, { ascending, nullsFirst: false })
+      .order('id', { ascending })
+      .limit(limit + 1);
+
+    if (error) {
+      throw wrapError(error, operation);
+    }
+
+    const rows = ((data ?? []) as unknown as Record<string, unknown>[]).map(flattenToolCategories);
+    return toKeysetPage(rows, limit, column, position?.total ?? count ?? rows.length);
+  }
+
+  /**
+   * Sets or clears deleted_at on a tool that is currently live or archived.
+   */
+  async function setArchived(id: string, archived: boolean, operation: string): Promise<ToolRow> {
+    let query = supabase
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .from(tableName as any)
+      .update({ [SOFT_DELETE_COLUMN]: archived ? new Date().toISOString() : null })
+      .eq('id', id);
+
+    query = archived
+      ? query.is(SOFT_DELETE_COLUMN, null)
+      : query.not(SOFT_DELETE_COLUMN, 'is', null);
+
+    const { data, error } = await query.select().maybeSingle();
+
+    if (error) {
+      throw wrapError(error, operation);
+    }
+
+    if (!data) {
+      throw new NotFoundError(archived ? 'Tool' : 'Archived tool', id);
+    }
+
+    return data as unknown as ToolRow;
+  }
+
+  /**
+   * Applies one update to every live tool in ids and counts the changed rows.
+   */
+  async function updateLiveTools(ids: string[], data: ToolUpdate, operation: string): Promise<number> {
+    if (ids.length === 0) {
+      return 0;
+    }
+
+    const { data: rows, error } = await supabase
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .from(tableName as any)
+      .update(data as Record<string, unknown>)
+      .in('id', ids)
+      .is(SOFT_DELETE_COLUMN, null)
+      .select('id');
+
+    if (error) {
+      throw wrapError(error, operation);
+    }
+
+    return rows?.length ?? 0;
   }
 
   return {
@@ -108,16 +405,11 @@ export function createToolsRepository(
     async findWithCategories(
       options?: FindAllOptions<ToolRow>
     ): Promise<ToolWithCategories[]> {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      let query = supabase.from(tableName as any).select(`
-        *,
-        tool_categories (
-          categories (
-            name,
-            slug
-          )
-        )
-      `);
+      let query = supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .select(TOOL_WITH_CATEGORIES_SELECT)
+        .is(SOFT_DELETE_COLUMN, null);
 
       // Apply ordering
       if (options?.orderBy) {
@@ -141,25 +433,45 @@ export function createToolsRepository(
 
       // Transform the nested structure to flat categories array
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      return ((data ?? []) as any[]).map((row: Record<string, unknown>) => {
-        const toolCategories = row.tool_categories as Array<{
-          categories: { name: string; slug: string } | null;
-        }> | null;
-        
-        const categories = (toolCategories ?? [])
-          .map((tc) => tc.categories)
-          .filter((c): c is { name: string; slug: string } => c !== null);
-
-        // Remove tool_categories from the row and add flattened categories
-        // eslint-disable-next-line @typescript-eslint/no-unused-vars
-        const { tool_categories: _, ...toolRow } = row;
-        return {
-          ...toolRow,
-          categories,
-        } as ToolWithCategories;
-      });
+      return ((data ?? []) as any[]).map(flattenToolCategories);
+    },
+
+    async findPageWithCategories(
+      options?: FindPageOptions<ToolRow>
+    ): Promise<Page<ToolWithCategories>> {
+      return findToolsPage(options, false, 'findPageWithCategories');
     },
 
+    async findByIdWithCategories(id: string): Promise<ToolWithCategories | null> {
+      const { data, error } = await supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .select(TOOL_WITH_CATEGORIES_SELECT)
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) {
+        throw wrapError(error, 'findByIdWithCategories');
+      }
+
+      return data ? flattenToolCategories(data as unknown as Record<string, unknown>) : null;
+    },
+
+    async findBySlugWithCategories(slug: string): Promise<ToolWithCategories | null> {
+      const { data, error } = await supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .select(TOOL_WITH_CATEGORIES_SELECT)
+        .eq('slug', slug)
+        .is(SOFT_DELETE_COLUMN, null)
+        .maybeSingle();
+
+      if (error) {
+        throw wrapError(error, 'findBySlugWithCategories');
+      }
+
+      return data ? flattenToolCategories(data as unknown as Record<string, unknown>) : null;
+    },
 
     async findByCategory(
       categorySlug: string,
@@ -207,7 +519,8 @@ export function createToolsRepository(
         .from(tableName as any)
         .select('*')
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        .in('id', (toolIds as any[]).map((t: { tool_id: string }) => t.tool_id));
+        .in('id', (toolIds as any[]).map((t: { tool_id: string }) => t.tool_id))
+        .is(SOFT_DELETE_COLUMN, null);
 
       if (limit !== undefined) {
         toolsQuery = toolsQuery.limit(limit);
@@ -229,6 +542,7 @@ export function createToolsRepository(
         .from(tableName as any)
         .select('*')
         .eq('is_featured', true)
+        .is(SOFT_DELETE_COLUMN, null)
         .order('created_at', { ascending: false });
 
       if (limit !== undefined) {
@@ -244,29 +558,141 @@ export function createToolsRepository(
       return (data ?? []) as unknown as ToolRow[];
     },
 
+    async findByQuery(
+      query: ToolQuery,
+      options?: ToolQueryOptions
+    ): Promise<Page<ToolWithCategories>> {
+      const limit = options?.limit ?? DEFAULT_PAGE_LIMIT;
+      const args = toFilterToolsArgs(query);
+      const sort = query.sort ?? 'relevance';
+
+      // Relevance has no column to key on, so ranked search pages use offsets.
+      // Search results are small and rarely paged deeply.
+      if (sort === 'relevance' && args.search_query) {
+        const offset = decodeCursor<{ offset: number }>(options?.cursor)?.offset ?? 0;
+        const { data, error, count } = await supabase
+          .rpc('filter_tools', args, { count: 'exact' })
+          .select(TOOL_WITH_CATEGORIES_SELECT)
+          .range(offset, offset + limit - 1);
+
+        if (error) {
+          throw wrapError(error, 'findByQuery');
+        }
+
+        const items = ((data ?? []) as unknown as Record<string, unknown>[]).map(flattenToolCategories);
+        const total = count ?? items.length;
+        const nextOffset = offset + items.length;
 
-    async search(query: string, limit?: number): Promise<ToolRow[]> {
-      const searchPattern = `%${query}%`;
-      
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      let searchQuery = supabase
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        .from(tableName as any)
-        .select('*')
-        .or(`name.ilike.${searchPattern},description.ilike.${searchPattern},short_description.ilike.${searchPattern}`)
-        .order('name', { ascending: true });
+        return {
+          items,
+          total,
+          nextCursor: items.length > 0 && nextOffset < total ? encodeCursor({ offset: nextOffset }) : null,
+        };
+      }
 
-      if (limit !== undefined) {
-        searchQuery = searchQuery.limit(limit);
+      const { column, ascending } = TOOL_SORT_COLUMNS[sort === 'relevance' ? 'newest' : sort];
+      const position = decodeKeysetCursor(options?.cursor);
+
+      let request = supabase
+        .rpc('filter_tools', args, position ? undefined : { count: 'exact' })
+        .select(TOOL_WITH_CATEGORIES_SELECT);
+
+      if (position) {
+        request = request.or(keysetFilter(column, ascending, position));
+      }
+
+      const { data, error, count } = await request
+        .order(column, { ascending, nullsFirst: false })
+        .order('id', { ascending })
+        .limit(limit + 1);
+
+      if (error) {
+        throw wrapError(error, 'findByQuery');
+      }
+
+      const rows = ((data ?? []) as unknown as Record<string, unknown>[]).map(flattenToolCategories);
+      return toKeysetPage(rows, limit, column, position?.total ?? count ?? rows.length);
+    },
+
+    async findAdminPage(
+      query: AdminToolQuery,
+      options?: ToolQueryOptions
+    ): Promise<Page<ToolWithCategories>> {
+      const limit = options?.limit ?? DEFAULT_PAGE_LIMIT;
+      const column = ADMIN_SORT_COLUMNS[query.sort ?? 'createdAt'];
+      const ascending = query.ascending ?? false;
+      const position = decodeKeysetCursor(options?.cursor);
+
+      let request = supabase
+        .rpc('filter_tools', toFilterToolsArgs(query), position ? undefined : { count: 'exact' })
+        .select(TOOL_WITH_CATEGORIES_SELECT);
+
+      if (query.source === 'scraper') {
+        request = request.eq(SOURCE_FILTER_COLUMN, 'scraper');
+      } else if (query.source === 'manual') {
+        request = request.or(`${SOURCE_FILTER_COLUMN}.is.null,${SOURCE_FILTER_COLUMN}.neq.scraper`);
+      }
+
+      if (query.missing === 'image') {
+        request = request.or('image_url.is.null,image_url.eq.""');
+      } else if (query.missing === 'url') {
+        request = request.eq('website_url', '');
+      }
+
+      if (position) {
+        request = request.or(keysetFilter(column, ascending, position));
       }
 
-      const { data, error } = await searchQuery;
+      const { data, error, count } = await request
+        .order(column, { ascending, nullsFirst: false })
+        .order('id', { ascending })
+        .limit(limit + 1);
+
+      if (error) {
+        throw wrapError(error, 'findAdminPage');
+      }
+
+      const rows = ((data ?? []) as unknown as Record<string, unknown>[]).map(flattenToolCategories);
+      return toKeysetPage(rows, limit, column, position?.total ?? count ?? rows.length);
+    },
+
+    async search(query: string, limit?: number): Promise<ToolSearchRow[]> {
+      const { data, error } = await supabase.rpc('search_tools', {
+        search_query: query,
+        ...(limit !== undefined && { result_limit: limit }),
+      });
 
       if (error) {
         throw wrapError(error, 'search');
       }
 
-      return (data ?? []) as unknown as ToolRow[];
+      return (data ?? []) as unknown as ToolSearchRow[];
+    },
+
+    async createWithCategories(data: ToolInsert, categoryIds: string[]): Promise<ToolRow> {
+      return saveTool(null, data, categoryIds, 'createWithCategories');
+    },
+
+    async updateWithCategories(
+      id: string,
+      data: ToolUpdate,
+      categoryIds?: string[]
+    ): Promise<ToolRow> {
+      return saveTool(id, data, categoryIds, 'updateWithCategories');
+    },
+
+    async findCategoryIds(toolId: string): Promise<string[]> {
+      const { data, error } = await supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(TABLES.TOOL_CATEGORIES as any)
+        .select('category_id')
+        .eq('tool_id', toolId);
+
+      if (error) {
+        throw wrapError(error, 'findCategoryIds');
+      }
+
+      return ((data ?? []) as unknown as { category_id: string }[]).map((row) => row.category_id);
     },
 
     async linkToCategory(toolId: string, categoryId: string): Promise<void> {
@@ -296,6 +722,32 @@ export function createToolsRepository(
       }
     },
 
+    async updateMany(ids: string[], data: ToolUpdate): Promise<number> {
+      return updateLiveTools(ids, data, 'updateMany');
+    },
+
+    async linkManyToCategory(toolIds: string[], categoryId: string): Promise<void> {
+      if (toolIds.length === 0) {
+        return;
+      }
+
+      const { error } = await supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(TABLES.TOOL_CATEGORIES as any)
+        .upsert(
+          toolIds.map((toolId) => ({ tool_id: toolId, category_id: categoryId })),
+          { onConflict: 'tool_id,category_id', ignoreDuplicates: true }
+        );
+
+      if (error) {
+        throw wrapError(error, 'linkManyToCategory');
+      }
+    },
+
+    async archiveMany(ids: string[]): Promise<number> {
+      return updateLiveTools(ids, { [SOFT_DELETE_COLUMN]: new Date().toISOString() }, 'archiveMany');
+    },
+
     async bulkUpsert(tools: ToolInsert[]): Promise<ToolRow[]> {
       if (tools.length === 0) {
         return [];
@@ -313,5 +765,88 @@ export function createToolsRepository(
 
       return (data ?? []) as unknown as ToolRow[];
     },
+
+    async archive(id: string): Promise<ToolRow> {
+      return setArchived(id, true, 'archive');
+    },
+
+    async restore(id: string): Promise<ToolRow> {
+      return setArchived(id, false, 'restore');
+    },
+
+    async findArchivedPage(
+      options?: Omit<FindPageOptions<ToolRow>, 'orderBy' | 'ascending'>
+    ): Promise<Page<ToolWithCategories>> {
+      return findToolsPage(
+        { ...options, orderBy: SOFT_DELETE_COLUMN, ascending: false },
+        true,
+        'findArchivedPage'
+      );
+    },
+
+    async purgeArchived(retentionDays: number): Promise<number> {
+      const { data, error } = await supabase.rpc('purge_archived_tools', {
+        retention: `${retentionDays} days`,
+      });
+
+      if (error) {
+        throw wrapError(error, 'purgeArchived');
+      }
+
+      return data ?? 0;
+    },
+
+    async countAddedPerPeriod(bucket: 'day' | 'week', since: Date): Promise<ToolsAddedPoint[]> {
+      const { data, error } = await supabase.rpc('count_tools_added', {
+        bucket,
+        since: since.toISOString(),
+      });
+
+      if (error) {
+        throw wrapError(error, 'countAddedPerPeriod');
+      }
+
+      return (data ?? []).map((row) => ({
+        periodStart: row.period_start,
+        count: Number(row.tool_count),
+      }));
+    },
+
+    async countBy(dimension: 'pricing' | 'source'): Promise<ToolCountByValue[]> {
+      const { data, error } = await supabase.rpc('count_tools_by', { dimension });
+
+      if (error) {
+        throw wrapError(error, 'countBy');
+      }
+
+      return (data ?? []).map((row) => ({
+        value: row.value,
+        count: Number(row.tool_count),
+      }));
+    },
+
+    async findDashboardTotals(): Promise<ToolDashboardTotals> {
+      const { data, error } = await supabase.rpc('tool_dashboard_totals').single();
+
+      if (error) {
+        throw wrapError(error, 'findDashboardTotals');
+      }
+
+      return {
+        unverifiedTools: Number(data.unverified_tools),
+        favorites: Number(data.favorites),
+        reviews: Number(data.reviews),
+      };
+    },
+
+    async findByWebsiteDomain(domain: string): Promise<ToolRow[]> {
+      const { data, error } = await supabase.rpc('find_tools_by_domain', { domain });
+
+      if (error) {
+        throw wrapError(error, 'findByWebsiteDomain');
+      }
+
+      return (data ?? []) as ToolRow[];
+    },
   };
 }
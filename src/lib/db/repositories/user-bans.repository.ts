@@ -0,0 +1,94 @@
+/**
+ * User bans repository for the user_bans table.
+ * Banned users can no longer write reviews, votes or reports; RLS checks
+ * the table through is_user_banned. Bans are written with the admin client.
+ *
+ * @module user-bans.repository
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  Database,
+  UserBanRow as GeneratedUserBanRow,
+  UserBanInsert as GeneratedUserBanInsert,
+  UserBanUpdate as GeneratedUserBanUpdate,
+} from '@/lib/supabase/types';
+import { DatabaseError, classifyDatabaseError } from '../errors';
+import { TABLES } from '../constants/tables';
+import {
+  createBaseRepository,
+  type BaseRepository,
+} from './base.repository';
+
+/**
+ * User ban row type from database.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type UserBanRow = GeneratedUserBanRow & { [key: string]: unknown };
+
+/**
+ * User ban insert type.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type UserBanInsert = GeneratedUserBanInsert & { [key: string]: unknown };
+
+/**
+ * User ban update type.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type UserBanUpdate = GeneratedUserBanUpdate & { [key: string]: unknown };
+
+/**
+ * User bans repository interface extending base repository.
+ */
+export interface UserBansRepository extends BaseRepository<UserBanRow, UserBanInsert, UserBanUpdate> {
+  /** Find which of some users are banned */
+  findBannedUserIds(userIds: string[]): Promise<Set<string>>;
+}
+
+/**
+ * Creates a user bans repository.
+ *
+ * @param supabase - Supabase client
+ * @returns User bans repository
+ *
+ * @example
+ * ```ts
+ * const bansRepo = createUserBansRepository(createAdminClient({ auditActor: actorUserId }));
+ * await bansRepo.upsert({ user_id: userId, reason, banned_by: actorUserId }, 'user_id');
+ * ```
+ */
+export function createUserBansRepository(supabase: SupabaseClient<Database>): UserBansRepository {
+  const tableName = TABLES.USER_BANS;
+  const baseRepo = createBaseRepository<UserBanRow, UserBanInsert, UserBanUpdate>(supabase, tableName);
+
+  /**
+   * Helper to wrap Supabase errors in the matching DatabaseError subclass.
+   */
+  function wrapError(error: unknown, operation: string): DatabaseError {
+    return classifyDatabaseError(operation, tableName, error);
+  }
+
+  return {
+    // Inherit base repository methods
+    ...baseRepo,
+
+    async findBannedUserIds(userIds: string[]): Promise<Set<string>> {
+      if (userIds.length === 0) {
+        return new Set();
+      }
+
+      const { data, error } = await supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .select('user_id')
+        .in('user_id', userIds);
+
+      if (error) {
+        throw wrapError(error, 'findBannedUserIds');
+      }
+
+      return new Set(((data ?? []) as unknown as Pick<UserBanRow, 'user_id'>[]).map((row) => row.user_id));
+    },
+  };
+}
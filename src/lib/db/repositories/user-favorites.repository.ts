@@ -0,0 +1,168 @@
+/**
+ * User favorites repository for the user_favorites table.
+ * Rows are keyed by the user's email, which RLS compares with the email in
+ * the session JWT; use a session client so users only reach their own saves.
+ *
+ * @module user-favorites.repository
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  Database,
+  UserFavoriteRow as GeneratedUserFavoriteRow,
+  UserFavoriteInsert as GeneratedUserFavoriteInsert,
+  UserFavoriteUpdate as GeneratedUserFavoriteUpdate,
+} from '@/lib/supabase/types';
+import { DatabaseError, classifyDatabaseError } from '../errors';
+import { TABLES } from '../constants/tables';
+import {
+  createBaseRepository,
+  type BaseRepository,
+} from './base.repository';
+import type { ToolRow } from './tools.repository';
+
+/**
+ * User favorite row type from database.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type UserFavoriteRow = GeneratedUserFavoriteRow & { [key: string]: unknown };
+
+/**
+ * User favorite insert type.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type UserFavoriteInsert = GeneratedUserFavoriteInsert & { [key: string]: unknown };
+
+/**
+ * User favorite update type.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type UserFavoriteUpdate = GeneratedUserFavoriteUpdate & { [key: string]: unknown };
+
+/**
+ * Favorite with joined tool data.
+ */
+export interface UserFavoriteWithTool extends UserFavoriteRow {
+  tool: ToolRow;
+}
+
+/**
+ * User favorites repository interface extending base repository.
+ */
+export interface UserFavoritesRepository
+  extends BaseRepository<UserFavoriteRow, UserFavoriteInsert, UserFavoriteUpdate> {
+  /** Find the IDs of the tools a user saved */
+  findToolIdsByUser(email: string): Promise<string[]>;
+  /** Find a user's saves with their live tools, most recently saved first */
+  findWithToolsByUser(email: string): Promise<UserFavoriteWithTool[]>;
+  /** Save a tool for a user; saving it again is a no-op */
+  add(email: string, toolId: string, toolName?: string | null): Promise<void>;
+  /** Remove a user's save of a tool; removing a missing save is a no-op */
+  remove(email: string, toolId: string): Promise<void>;
+}
+
+/**
+ * Creates a user favorites repository.
+ *
+ * @param supabase - Supabase client carrying the user's session
+ * @returns User favorites repository
+ *
+ * @example
+ * ```ts
+ * const favoritesRepo = createUserFavoritesRepository(supabase);
+ * await favoritesRepo.add('user@example.com', toolId, 'ChatGPT');
+ * ```
+ */
+export function createUserFavoritesRepository(
+  supabase: SupabaseClient<Database>
+): UserFavoritesRepository {
+  const tableName = TABLES.USER_FAVORITES;
+  const baseRepo = createBaseRepository<UserFavoriteRow, UserFavoriteInsert, UserFavoriteUpdate>(
+    supabase,
+    tableName
+  );
+
+  /**
+   * Helper to wrap Supabase errors in the matching DatabaseError subclass.
+   */
+  function wrapError(error: unknown, operation: string): DatabaseError {
+    return classifyDatabaseError(operation, tableName, error);
+  }
+
+  return {
+    // Inherit base repository methods
+    ...baseRepo,
+
+    async findToolIdsByUser(email: string): Promise<string[]> {
+      const { data, error } = await supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .select('tool_id')
+        .eq('user_email', email);
+
+      if (error) {
+        throw wrapError(error, 'findToolIdsByUser');
+      }
+
+      return ((data ?? []) as unknown as { tool_id: string }[]).map((row) => row.tool_id);
+    },
+
+    async findWithToolsByUser(email: string): Promise<UserFavoriteWithTool[]> {
+      const { data, error } = await supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .select(`
+          *,
+          tools (*)
+        `)
+        .eq('user_email', email)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        throw wrapError(error, 'findWithToolsByUser');
+      }
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      return ((data ?? []) as any[])
+        .map((row: Record<string, unknown>) => {
+          const tool = row.tools as ToolRow | null;
+          // Saves of archived tools are kept for when the tool is restored
+          if (!tool || tool.deleted_at) {
+            return null;
+          }
+
+          // eslint-disable-next-line @typescript-eslint/no-unused-vars
+          const { tools: _, ...favoriteRow } = row;
+          return { ...favoriteRow, tool } as UserFavoriteWithTool;
+        })
+        .filter((item): item is UserFavoriteWithTool => item !== null);
+    },
+
+    async add(email: string, toolId: string, toolName?: string | null): Promise<void> {
+      const { error } = await supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .upsert(
+          { user_email: email, tool_id: toolId, tool_name: toolName ?? null },
+          { onConflict: 'user_email,tool_id', ignoreDuplicates: true }
+        );
+
+      if (error) {
+        throw wrapError(error, 'add');
+      }
+    },
+
+    async remove(email: string, toolId: string): Promise<void> {
+      const { error } = await supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .delete()
+        .eq('user_email', email)
+        .eq('tool_id', toolId);
+
+      if (error) {
+        throw wrapError(error, 'remove');
+      }
+    },
+  };
+}
@@ -0,0 +1,156 @@
+/**
+ * User pinned tools repository for the user_pinned_tools table.
+ * Holds each signed-in user's My Tools dock; use a session client so RLS
+ * limits every query to the user's own pins.
+ *
+ * @module user-pinned-tools.repository
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  Database,
+  UserPinnedToolRow as GeneratedUserPinnedToolRow,
+  UserPinnedToolInsert as GeneratedUserPinnedToolInsert,
+  UserPinnedToolUpdate as GeneratedUserPinnedToolUpdate,
+} from '@/lib/supabase/types';
+import { DatabaseError, classifyDatabaseError } from '../errors';
+import { TABLES } from '../constants/tables';
+import {
+  createBaseRepository,
+  type BaseRepository,
+} from './base.repository';
+import type { ToolRow } from './tools.repository';
+
+/**
+ * User pinned tool row type from database.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type UserPinnedToolRow = GeneratedUserPinnedToolRow & { [key: string]: unknown };
+
+/**
+ * User pinned tool insert type.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type UserPinnedToolInsert = GeneratedUserPinnedToolInsert & { [key: string]: unknown };
+
+/**
+ * User pinned tool update type.
+ * Uses auto-generated types from Supabase with index signature for compatibility.
+ */
+export type UserPinnedToolUpdate = GeneratedUserPinnedToolUpdate & { [key: string]: unknown };
+
+/**
+ * Pin with the joined tool, or null for custom links.
+ */
+export interface UserPinnedToolWithTool extends UserPinnedToolRow {
+  tool: Pick<ToolRow, 'id' | 'name' | 'slug' | 'website_url' | 'deleted_at'> | null;
+}
+
+/**
+ * User pinned tools repository interface extending base repository.
+ */
+export interface UserPinnedToolsRepository
+  extends BaseRepository<UserPinnedToolRow, UserPinnedToolInsert, UserPinnedToolUpdate> {
+  /** Find a user's pins in dock order, with their tools; pins of archived tools are left out */
+  findByUserWithTools(userId: string): Promise<UserPinnedToolWithTool[]>;
+  /** Insert several pins; pins of tools the user already pinned are skipped */
+  insertMany(pins: UserPinnedToolInsert[]): Promise<void>;
+  /** Set display_order of a user's pins to their position in pinIds */
+  reorder(userId: string, pinIds: string[]): Promise<void>;
+}
+
+/**
+ * Creates a user pinned tools repository.
+ *
+ * @param supabase - Supabase client carrying the user's session
+ * @returns User pinned tools repository
+ *
+ * @example
+ * ```ts
+ * const pinsRepo = createUserPinnedToolsRepository(supabase);
+ * const dock = await pinsRepo.findByUserWithTools(userId);
+ * ```
+ */
+export function createUserPinnedToolsRepository(
+  supabase: SupabaseClient<Database>
+): UserPinnedToolsRepository {
+  const tableName = TABLES.USER_PINNED_TOOLS;
+  const baseRepo = createBaseRepository<UserPinnedToolRow, UserPinnedToolInsert, UserPinnedToolUpdate>(
+    supabase,
+    tableName
+  );
+
+  /**
+   * Helper to wrap Supabase errors in the matching DatabaseError subclass.
+   */
+  function wrapError(error: unknown, operation: string): DatabaseError {
+    return classifyDatabaseError(operation, tableName, error);
+  }
+
+  return {
+    // Inherit base repository methods
+    ...baseRepo,
+
+    async findByUserWithTools(userId: string): Promise<UserPinnedToolWithTool[]> {
+      const { data, error } = await supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .select(`
+          *,
+          tools (id, name, slug, website_url, deleted_at)
+        `)
+        .eq('user_id', userId)
+        .order('display_order', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        throw wrapError(error, 'findByUserWithTools');
+      }
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      return ((data ?? []) as any[])
+        .map((row: Record<string, unknown>) => {
+          const tool = row.tools as UserPinnedToolWithTool['tool'];
+          // Archived tools keep their pin but are not shown
+          if (row.tool_id && (!tool || tool.deleted_at)) {
+            return null;
+          }
+
+          // eslint-disable-next-line @typescript-eslint/no-unused-vars
+          const { tools: _, ...pinRow } = row;
+          return { ...pinRow, tool: tool ?? null } as UserPinnedToolWithTool;
+        })
+        .filter((item): item is UserPinnedToolWithTool => item !== null);
+    },
+
+    async insertMany(pins: UserPinnedToolInsert[]): Promise<void> {
+      if (pins.length === 0) {
+        return;
+      }
+
+      const { error } = await supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from(tableName as any)
+        .upsert(pins as Record<string, unknown>[], { onConflict: 'user_id,tool_id', ignoreDuplicates: true });
+
+      if (error) {
+        throw wrapError(error, 'insertMany');
+      }
+    },
+
+    async reorder(userId: string, pinIds: string[]): Promise<void> {
+      for (const [index, id] of pinIds.entries()) {
+        const { error } = await supabase
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          .from(tableName as any)
+          .update({ display_order: index })
+          .eq('user_id', userId)
+          .eq('id', id);
+
+        if (error) {
+          throw wrapError(error, 'reorder');
+        }
+      }
+    },
+  };
+}
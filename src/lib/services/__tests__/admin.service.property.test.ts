@@ -0,0 +1,167 @@
+/**
+ * Property-Based Tests for the Admin Service
+ *
+ * **Feature: admin-tools-table, admin-dashboard**
+ *
+ * Tests that search params from the tools table URL map to repository
+ * filters, and that unknown values are ignored rather than passed through.
+ * Also tests the dashboard's chart range and scraper run summaries.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  DASHBOARD_PERIOD_BUCKETS,
+  getDashboardSince,
+  parseAdminToolQuery,
+  parseScrapingMetadata,
+  toScraperRunSummary,
+} from '../admin.service';
+import type { ScraperRunRow } from '@/lib/db/repositories/scraper-runs.repository';
+import { PRICING_OPTIONS } from '@/lib/types/tool-form';
+
+// =============================================================================
+// Arbitraries (Generators) for Property-Based Testing
+// =============================================================================
+
+const paramArbitrary = fc.option(fc.string({ maxLength: 20 }), { nil: undefined });
+
+const paramsArbitrary = fc.record({
+  q: paramArbitrary,
+  pricing: paramArbitrary,
+  category: paramArbitrary,
+  verified: paramArbitrary,
+  source: paramArbitrary,
+  missing: paramArbitrary,
+  sort: paramArbitrary,
+  dir: paramArbitrary,
+});
+
+// =============================================================================
+// Property Tests
+// =============================================================================
+
+describe('Admin Tool Query Property Tests', () => {
+  it('maps known values to filters, sort and direction', () => {
+    expect(
+      parseAdminToolQuery({
+        q: '  image  ',
+        pricing: 'Free Trial',
+        category: 'image-generators',
+        verified: 'no',
+        source: 'scraper',
+        missing: 'url',
+        sort: 'monthlyVisits',
+        dir: 'asc',
+      })
+    ).toEqual({
+      search: 'image',
+      pricing: ['Free Trial'],
+      categories: ['image-generators'],
+      verified: false,
+      source: 'scraper',
+      missing: 'url',
+      sort: 'monthlyVisits',
+      ascending: true,
+    });
+  });
+
+  it('returns no filters for empty params', () => {
+    expect(parseAdminToolQuery({})).toEqual({});
+    expect(parseAdminToolQuery({ q: '   ', pricing: '', category: '' })).toEqual({});
+  });
+
+  it('only ever yields allowed values for enumerated params', () => {
+    fc.assert(
+      fc.property(paramsArbitrary, (params) => {
+        const query = parseAdminToolQuery(params);
+
+        if (query.pricing) {
+          expect(PRICING_OPTIONS).toContain(query.pricing[0]);
+        }
+        if (query.source !== undefined) {
+          expect(['scraper', 'manual']).toContain(query.source);
+        }
+        if (query.missing !== undefined) {
+          expect(['image', 'url']).toContain(query.missing);
+        }
+        if (query.sort !== undefined) {
+          expect(['name', 'pricing', 'createdAt', 'savedCount', 'monthlyVisits']).toContain(query.sort);
+        }
+        expect(query.verified === undefined).toBe(params.verified !== 'yes' && params.verified !== 'no');
+        expect(query.ascending === undefined).toBe(params.dir !== 'asc' && params.dir !== 'desc');
+      }),
+      { numRuns: 200 }
+    );
+  });
+});
+
+describe('Admin Dashboard Property Tests', () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  it('starts the chart so that it spans exactly the configured number of buckets', () => {
+    fc.assert(
+      fc.property(
+        fc.date({ min: new Date('2020-01-01T00:00:00Z'), max: new Date('2035-01-01T00:00:00Z'), noInvalidDate: true }),
+        fc.constantFrom('day' as const, 'week' as const),
+        (now, period) => {
+          const bucketMs = period === 'day' ? DAY_MS : 7 * DAY_MS;
+          const since = getDashboardSince(period, now);
+
+          expect(now.getTime() - since.getTime()).toBe((DASHBOARD_PERIOD_BUCKETS[period] - 1) * bucketMs);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('summarizes a recorded run with its duration', () => {
+    const row = {
+      id: 'run-1',
+      started_at: '2026-10-01T10:00:00.000Z',
+      finished_at: '2026-10-01T10:02:30.000Z',
+      status: 'partial',
+      pages_scraped: 12,
+      tools_extracted: 340,
+      categories_scraped: 11,
+      error_count: 2,
+      version: '1.0.0',
+    } as ScraperRunRow;
+
+    expect(toScraperRunSummary(row)).toEqual({
+      finishedAt: '2026-10-01T10:02:30.000Z',
+      status: 'partial',
+      toolsExtracted: 340,
+      categoriesScraped: 11,
+      errorCount: 2,
+      durationMs: 150_000,
+      source: 'database',
+    });
+  });
+
+  it('reads scraping-metadata.json without a status or error count', () => {
+    const json = JSON.stringify({
+      lastScrapedAt: '2026-10-01T10:02:30.000Z',
+      totalTools: 340,
+      totalCategories: 11,
+      scrapeDurationMs: 150000,
+      version: '1.0.0',
+    });
+
+    expect(parseScrapingMetadata(json)).toEqual({
+      finishedAt: '2026-10-01T10:02:30.000Z',
+      status: null,
+      toolsExtracted: 340,
+      categoriesScraped: 11,
+      errorCount: null,
+      durationMs: 150000,
+      source: 'file',
+    });
+  });
+
+  it('rejects metadata without a valid lastScrapedAt', () => {
+    for (const json of ['', '{ broken', 'null', '{}', '{"lastScrapedAt":"yesterday"}', '{"lastScrapedAt":42}']) {
+      expect(parseScrapingMetadata(json)).toBeNull();
+    }
+  });
+});
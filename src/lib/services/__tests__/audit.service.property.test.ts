@@ -0,0 +1,61 @@
+/**
+ * Property-Based Tests for Audit Log Filters
+ *
+ * **Feature: audit-log**
+ *
+ * Tests the conversion of /admin/audit filters into repository queries.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { toAuditLogQuery } from '../audit.service';
+import { AUDIT_ENTITIES } from '@/lib/types/audit';
+
+// =============================================================================
+// Arbitraries (Generators) for Property-Based Testing
+// =============================================================================
+
+const dayArbitrary = fc
+  .date({ min: new Date('2000-01-01T00:00:00Z'), max: new Date('2099-12-31T00:00:00Z'), noInvalidDate: true })
+  .map((date) => date.toISOString().slice(0, 10));
+
+// =============================================================================
+// Property Tests
+// =============================================================================
+
+describe('Audit Log Filter Property Tests', () => {
+  describe('toAuditLogQuery', () => {
+    it('covers whole inclusive UTC days from `from` to `to`', () => {
+      fc.assert(
+        fc.property(dayArbitrary, dayArbitrary, (from, to) => {
+          const query = toAuditLogQuery({ from, to });
+          const until = new Date(query.until!);
+
+          expect(query.since).toBe(`${from}T00:00:00.000Z`);
+          expect(until.getTime() - new Date(`${to}T00:00:00.000Z`).getTime()).toBe(24 * 60 * 60 * 1000);
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('passes actor and entity through unchanged', () => {
+      fc.assert(
+        fc.property(
+          fc.string({ minLength: 1, maxLength: 40 }),
+          fc.constantFrom(...AUDIT_ENTITIES),
+          (actor, entity) => {
+            expect(toAuditLogQuery({ actor, entity })).toEqual({ actor, entity });
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    it('ignores empty and malformed dates', () => {
+      expect(toAuditLogQuery({})).toEqual({});
+      expect(toAuditLogQuery({ actor: '', from: '', to: '' })).toEqual({});
+      expect(toAuditLogQuery({ from: '2026-02-30', to: 'yesterday' })).toEqual({});
+      expect(toAuditLogQuery({ from: '2026-1-5' })).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Property-Based Tests for Category and Category Group Input
+ *
+ * **Feature: category-groups**
+ *
+ * Tests validation of category and category group fields before they are written.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { toCategoryFields, toCategoryGroupFields } from '../categories.service';
+import { ValidationError } from '@/lib/db/errors';
+import { CATEGORY_ICON_MAP } from '@/lib/utils/icon-mapping';
+
+// =============================================================================
+// Arbitraries (Generators) for Property-Based Testing
+// =============================================================================
+
+const nameArbitrary = fc
+  .string({ minLength: 1, maxLength: 40 })
+  .filter((name) => name.trim().length > 0);
+
+const iconArbitrary = fc.constantFrom(...Object.keys(CATEGORY_ICON_MAP));
+
+const slugArbitrary = fc
+  .array(fc.stringMatching(/^[a-z0-9]{1,8}$/), { minLength: 1, maxLength: 4 })
+  .map((words) => words.join('-'));
+
+// =============================================================================
+// Property Tests
+// =============================================================================
+
+describe('Category Property Tests', () => {
+  describe('toCategoryGroupFields', () => {
+    it('maps valid input to trimmed database columns', () => {
+      fc.assert(
+        fc.property(nameArbitrary, iconArbitrary, fc.nat({ max: 1000 }), (name, iconName, displayOrder) => {
+          expect(toCategoryGroupFields({ name, iconName, displayOrder })).toEqual({
+            name: name.trim(),
+            icon_name: iconName,
+            display_order: displayOrder,
+          });
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('includes only the fields that are given', () => {
+      expect(toCategoryGroupFields({})).toEqual({});
+      expect(toCategoryGroupFields({ iconName: null })).toEqual({ icon_name: null });
+      expect(toCategoryGroupFields({ displayOrder: 0 })).toEqual({ display_order: 0 });
+    });
+
+    it('rejects blank names, unknown icons and invalid positions', () => {
+      fc.assert(
+        fc.property(
+          fc.string({ maxLength: 20 }).filter((icon) => !Object.hasOwn(CATEGORY_ICON_MAP, icon)),
+          fc.oneof(fc.integer({ max: -1 }), fc.double({ noInteger: true, noNaN: true })),
+          (iconName, displayOrder) => {
+            expect(() => toCategoryGroupFields({ iconName })).toThrow(ValidationError);
+            expect(() => toCategoryGroupFields({ displayOrder })).toThrow(ValidationError);
+          }
+        ),
+        { numRuns: 100 }
+      );
+      expect(() => toCategoryGroupFields({ name: '   ' })).toThrow(ValidationError);
+    });
+  });
+
+  describe('toCategoryFields', () => {
+    it('maps valid input to database columns', () => {
+      fc.assert(
+        fc.property(nameArbitrary, slugArbitrary, iconArbitrary, fc.uuid(), (name, slug, iconName, groupId) => {
+          expect(toCategoryFields({ name, slug, iconName, groupId })).toEqual({
+            name: name.trim(),
+            slug,
+            icon: iconName,
+            group_id: groupId,
+          });
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('writes null for a cleared icon, group or description', () => {
+      expect(toCategoryFields({ iconName: null, groupId: null, description: '  ' })).toEqual({
+        icon: null,
+        group_id: null,
+        description: null,
+      });
+    });
+
+    it('rejects slugs that are not lowercase hyphenated words', () => {
+      fc.assert(
+        fc.property(
+          fc.string({ maxLength: 20 }).filter((slug) => !/^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(slug.trim())),
+          (slug) => {
+            expect(() => toCategoryFields({ slug })).toThrow(ValidationError);
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Property-Based Tests for FAQ Scopes and Answers
+ *
+ * **Feature: faqs**
+ *
+ * Tests scope validation, markdown answer rendering and FAQPage structured data.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { parseFaqScope } from '../faq.service';
+import { ValidationError } from '@/lib/db/errors';
+import { buildFaqPageJsonLd, getFaqScopePath, serializeJsonLd } from '@/lib/utils/faq';
+import { escapeHtml, renderMarkdown } from '@/lib/utils/markdown';
+
+// =============================================================================
+// Arbitraries (Generators) for Property-Based Testing
+// =============================================================================
+
+const slugArbitrary = fc.stringMatching(/^[a-z0-9]+(-[a-z0-9]+){0,3}$/);
+
+const entityScopeArbitrary = fc
+  .tuple(fc.constantFrom('category', 'tool'), slugArbitrary)
+  .map(([kind, slug]) => `${kind}:${slug}`);
+
+/** Single-line text without markdown syntax */
+const plainTextArbitrary = fc.stringMatching(/^[A-Za-z0-9<>&"' .,?!]{1,60}$/).filter((text) => text.trim() !== '');
+
+// =============================================================================
+// Property Tests
+// =============================================================================
+
+describe('FAQ Property Tests', () => {
+  describe('parseFaqScope', () => {
+    it('accepts page scopes and category or tool slugs', () => {
+      fc.assert(
+        fc.property(entityScopeArbitrary, (scope) => {
+          expect(parseFaqScope(` ${scope} `)).toBe(scope);
+        }),
+        { numRuns: 100 }
+      );
+      expect(parseFaqScope('free-ai-tools')).toBe('free-ai-tools');
+      expect(parseFaqScope('midjourney-library')).toBe('midjourney-library');
+    });
+
+    it('rejects anything else', () => {
+      for (const scope of ['', 'home', 'tool:', 'tool:Chat GPT', 'category:-x', 'user:abc', 'tool:a:b']) {
+        expect(() => parseFaqScope(scope)).toThrow(ValidationError);
+      }
+    });
+  });
+
+  describe('getFaqScopePath', () => {
+    it('maps every scope to the page that shows it', () => {
+      fc.assert(
+        fc.property(slugArbitrary, (slug) => {
+          expect(getFaqScopePath(`category:${slug}`)).toBe(`/category/${slug}`);
+          expect(getFaqScopePath(`tool:${slug}`)).toBe(`/tool/${slug}`);
+        }),
+        { numRuns: 100 }
+      );
+      expect(getFaqScopePath('free-ai-tools')).toBe('/free-ai-tools');
+    });
+  });
+
+  describe('renderMarkdown', () => {
+    it('escapes plain text into a single paragraph', () => {
+      fc.assert(
+        fc.property(plainTextArbitrary, (text) => {
+          expect(renderMarkdown(text)).toBe(`<p>${escapeHtml(text.trim())}</p>`);
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('never emits tags other than the supported ones', () => {
+      fc.assert(
+        fc.property(fc.string({ maxLength: 200 }), (markdown) => {
+          const tags = renderMarkdown(markdown).match(/<\/?([a-z]+)/g) ?? [];
+          for (const tag of tags) {
+            expect(['p', 'br', 'ul', 'ol', 'li', 'strong', 'em', 'code', 'a']).toContain(tag.replace(/[</]/g, ''));
+          }
+        }),
+        { numRuns: 200 }
+      );
+    });
+
+    it('renders lists, emphasis, code and safe links', () => {
+      expect(renderMarkdown('- one\n- **two**')).toBe('<ul><li>one</li><li><strong>two</strong></li></ul>');
+      expect(renderMarkdown('1. first\n2. *second*')).toBe('<ol><li>first</li><li><em>second</em></li></ol>');
+      expect(renderMarkdown('Use `<b>`\nnow\n\nNext')).toBe('<p>Use <code>&lt;b&gt;</code><br>now</p><p>Next</p>');
+      expect(renderMarkdown('[Docs](https://example.com/?a=1&b=2)')).toBe(
+        '<p><a href="https://example.com/?a=1&amp;b=2">Docs</a></p>'
+      );
+      expect(renderMarkdown('[x](javascript:alert(1))')).toBe('<p>[x](javascript:alert(1))</p>');
+      // Emphasis applies to the label and surrounding text, never inside the URL
+      expect(renderMarkdown('See [*Docs*](https://example.com/_docs_/*a*) _now_')).toBe(
+        '<p>See <a href="https://example.com/_docs_/*a*"><em>Docs</em></a> <em>now</em></p>'
+      );
+    });
+  });
+
+  describe('buildFaqPageJsonLd', () => {
+    it('has one question per FAQ, in order', () => {
+      fc.assert(
+        fc.property(fc.array(fc.record({ question: plainTextArbitrary, answer: plainTextArbitrary }), { maxLength: 10 }), (faqs) => {
+          const jsonLd = buildFaqPageJsonLd(faqs);
+          expect(jsonLd['@type']).toBe('FAQPage');
+          expect(jsonLd.mainEntity.map((entity) => entity.name)).toEqual(faqs.map((faq) => faq.question));
+          expect(jsonLd.mainEntity.map((entity) => entity.acceptedAnswer.text)).toEqual(
+            faqs.map((faq) => renderMarkdown(faq.answer))
+          );
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('serializes without a raw "<" so it cannot close the script element', () => {
+      fc.assert(
+        fc.property(fc.string({ maxLength: 100 }), (answer) => {
+          const json = serializeJsonLd(buildFaqPageJsonLd([{ question: '</script>', answer }]));
+          expect(json).not.toContain('<');
+          expect(JSON.parse(json).mainEntity[0].name).toBe('</script>');
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+});
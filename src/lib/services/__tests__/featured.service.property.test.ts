@@ -0,0 +1,87 @@
+/**
+ * Property-Based Tests for Featured Slot Scheduling
+ *
+ * **Feature: featured-tools**
+ *
+ * Tests schedule validation and the status derived from a slot's start and end.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { getFeaturedSlotStatus, toFeaturedSchedule } from '../featured.service';
+import { ValidationError } from '@/lib/db/errors';
+
+// =============================================================================
+// Arbitraries (Generators) for Property-Based Testing
+// =============================================================================
+
+const dateArbitrary = fc.date({
+  min: new Date('2020-01-01T00:00:00Z'),
+  max: new Date('2035-01-01T00:00:00Z'),
+  noInvalidDate: true,
+});
+
+// =============================================================================
+// Property Tests
+// =============================================================================
+
+describe('Featured Slot Property Tests', () => {
+  describe('getFeaturedSlotStatus', () => {
+    it('is active from the start (inclusive) until the end (exclusive)', () => {
+      fc.assert(
+        fc.property(dateArbitrary, fc.integer({ min: 1, max: 1_000_000 }), (start, length) => {
+          const end = new Date(start.getTime() + length);
+          const slot = { startsAt: start.toISOString(), endsAt: end.toISOString() };
+
+          expect(getFeaturedSlotStatus(slot, new Date(start.getTime() - 1))).toBe('scheduled');
+          expect(getFeaturedSlotStatus(slot, start)).toBe('active');
+          expect(getFeaturedSlotStatus(slot, new Date(end.getTime() - 1))).toBe('active');
+          expect(getFeaturedSlotStatus(slot, end)).toBe('ended');
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('treats missing bounds as open', () => {
+      fc.assert(
+        fc.property(dateArbitrary, (now) => {
+          expect(getFeaturedSlotStatus({ startsAt: null, endsAt: null }, now)).toBe('active');
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('toFeaturedSchedule', () => {
+    it('maps ordered dates to ISO columns', () => {
+      fc.assert(
+        fc.property(dateArbitrary, fc.integer({ min: 1, max: 1_000_000_000 }), (start, length) => {
+          const end = new Date(start.getTime() + length);
+          expect(toFeaturedSchedule({ startsAt: start.toISOString(), endsAt: end.toISOString() })).toEqual({
+            starts_at: start.toISOString(),
+            ends_at: end.toISOString(),
+          });
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('clears empty bounds and leaves absent ones out', () => {
+      expect(toFeaturedSchedule({ startsAt: '', endsAt: null })).toEqual({ starts_at: null, ends_at: null });
+      expect(toFeaturedSchedule({})).toEqual({});
+    });
+
+    it('rejects an end that is not after the start', () => {
+      fc.assert(
+        fc.property(dateArbitrary, fc.integer({ min: 0, max: 1_000_000_000 }), (end, gap) => {
+          const start = new Date(end.getTime() + gap);
+          expect(() =>
+            toFeaturedSchedule({ startsAt: start.toISOString(), endsAt: end.toISOString() })
+          ).toThrow(ValidationError);
+        }),
+        { numRuns: 100 }
+      );
+      expect(() => toFeaturedSchedule({ startsAt: 'not a date' })).toThrow(ValidationError);
+    });
+  });
+});
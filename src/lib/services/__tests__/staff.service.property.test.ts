@@ -0,0 +1,97 @@
+/**
+ * Property-Based Tests for Staff Roles
+ *
+ * **Feature: admin-roles**
+ *
+ * Tests role ranking and per-route role requirements using property-based testing.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { hasRequiredRole, isStaffRole, STAFF_ROLES } from '../staff.service';
+import { getRequiredRole } from '@/middleware';
+
+// =============================================================================
+// Arbitraries (Generators) for Property-Based Testing
+// =============================================================================
+
+const roleArbitrary = fc.constantFrom(...STAFF_ROLES);
+
+const pathSegmentArbitrary = fc.stringMatching(/^[a-zA-Z0-9_-]{1,20}$/);
+
+// =============================================================================
+// Property Tests
+// =============================================================================
+
+describe('Staff Role Property Tests', () => {
+  describe('hasRequiredRole', () => {
+    it('is reflexive: every role satisfies itself', () => {
+      fc.assert(
+        fc.property(roleArbitrary, (role) => {
+          expect(hasRequiredRole(role, role)).toBe(true);
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('follows the viewer < editor < admin ordering', () => {
+      fc.assert(
+        fc.property(roleArbitrary, roleArbitrary, (held, required) => {
+          const expected = STAFF_ROLES.indexOf(held) >= STAFF_ROLES.indexOf(required);
+          expect(hasRequiredRole(held, required)).toBe(expected);
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('never grants access to non-staff', () => {
+      fc.assert(
+        fc.property(roleArbitrary, (required) => {
+          expect(hasRequiredRole(null, required)).toBe(false);
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('isStaffRole', () => {
+    it('rejects any string outside the role list', () => {
+      fc.assert(
+        fc.property(
+          fc.string().filter((s) => !(STAFF_ROLES as readonly string[]).includes(s)),
+          (value) => {
+            expect(isStaffRole(value)).toBe(false);
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('getRequiredRole', () => {
+    it('requires at least viewer for any /admin route', () => {
+      fc.assert(
+        fc.property(fc.array(pathSegmentArbitrary, { maxLength: 4 }), (segments) => {
+          const pathname = ['/admin', ...segments].join('/');
+          expect(STAFF_ROLES).toContain(getRequiredRole(pathname));
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('requires admin for /admin/staff and its sub-routes', () => {
+      fc.assert(
+        fc.property(fc.array(pathSegmentArbitrary, { maxLength: 3 }), (segments) => {
+          const pathname = ['/admin/staff', ...segments].join('/');
+          expect(getRequiredRole(pathname)).toBe('admin');
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('does not treat prefix look-alikes as the staff route', () => {
+      expect(getRequiredRole('/admin/staffing')).toBe('viewer');
+      expect(getRequiredRole('/admin/tools')).toBe('viewer');
+    });
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Property-Based Tests for Submission Approval
+ *
+ * **Feature: tool-submissions, Property 2: Approval creates the tool and decides the submission together**
+ *
+ * Tests that approveSubmission hands the tool and the decision to the
+ * approve_submission transaction as one call, and that when it fails no
+ * tool is written on its own.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fc from 'fast-check';
+import type { ToolRow } from '@/lib/db/repositories/tools.repository';
+import type { ToolSubmissionRow } from '@/lib/db/repositories/tool-submissions.repository';
+import { ConflictError } from '@/lib/db/errors';
+
+vi.mock('@/lib/supabase/admin', () => ({
+  createAdminClient: vi.fn(() => ({})),
+}));
+
+vi.mock('@/lib/db/repositories/tool-submissions.repository', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/db/repositories/tool-submissions.repository')>()),
+  createToolSubmissionsRepository: vi.fn(),
+}));
+
+vi.mock('@/lib/db/repositories/tools.repository', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/db/repositories/tools.repository')>()),
+  createToolsRepository: vi.fn(),
+}));
+
+import { createToolSubmissionsRepository } from '@/lib/db/repositories/tool-submissions.repository';
+import { createToolsRepository } from '@/lib/db/repositories/tools.repository';
+import { approveSubmission } from '../submissions.service';
+
+// =============================================================================
+// Arbitraries (Generators) for Property-Based Testing
+// =============================================================================
+
+const slugArbitrary = fc.stringMatching(/^[a-z0-9]+(-[a-z0-9]+){0,3}$/);
+
+const submissionArbitrary = fc.record({
+  id: fc.uuid(),
+  name: fc.stringMatching(/^[A-Za-z][A-Za-z0-9 ]{0,30}$/),
+  slug: slugArbitrary,
+  website_url: fc.constantFrom('https://chatgpt.com', 'https://runway.ml'),
+  short_description: fc.string({ minLength: 1, maxLength: 40 }),
+  description: fc.option(fc.string({ maxLength: 40 }), { nil: null }),
+  pricing: fc.constantFrom('Free', 'Freemium', 'Paid'),
+  category_ids: fc.uniqueArray(fc.uuid(), { maxLength: 3 }),
+  status: fc.constantFrom('pending', 'changes_requested'),
+}) as fc.Arbitrary<ToolSubmissionRow>;
+
+/**
+ * Mocks the submissions repository around one open submission, with the
+ * approve_submission call answered by approve.
+ */
+function mockSubmissions(row: ToolSubmissionRow, approve: (...args: unknown[]) => Promise<ToolRow>) {
+  const repository = { findById: vi.fn(async () => row), approve: vi.fn(approve), update: vi.fn() };
+  vi.mocked(createToolSubmissionsRepository).mockReturnValue(
+    repository as unknown as ReturnType<typeof createToolSubmissionsRepository>
+  );
+  return repository;
+}
+
+// =============================================================================
+// Property Tests
+// =============================================================================
+
+describe('approveSubmission', () => {
+  const createWithCategories = vi.fn();
+
+  beforeEach(() => {
+    createWithCategories.mockReset();
+    vi.mocked(createToolsRepository).mockReturnValue(
+      { createWithCategories } as unknown as ReturnType<typeof createToolsRepository>
+    );
+  });
+
+  it('creates the tool and records the decision in one approve call', async () => {
+    await fc.assert(
+      fc.asyncProperty(submissionArbitrary, fc.option(slugArbitrary, { nil: undefined }), async (row, slug) => {
+        const repository = mockSubmissions(row, async (_id, fields) => ({ id: 'tool-1', ...(fields as object) }) as ToolRow);
+
+        const tool = await approveSubmission(row.id, { slug }, 'staff-1');
+
+        expect(repository.approve).toHaveBeenCalledTimes(1);
+        expect(repository.approve).toHaveBeenCalledWith(
+          row.id,
+          expect.objectContaining({ name: row.name, slug: slug || row.slug, website_url: row.website_url }),
+          row.category_ids,
+          'staff-1'
+        );
+        expect(tool).toMatchObject({ id: 'tool-1', slug: slug || row.slug });
+        expect(repository.update).not.toHaveBeenCalled();
+        expect(createWithCategories).not.toHaveBeenCalled();
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('leaves no tool behind when the approval transaction fails', async () => {
+    await fc.assert(
+      fc.asyncProperty(submissionArbitrary, async (row) => {
+        const failure = new ConflictError('approve', 'tool_submissions', 'duplicate key value violates unique constraint');
+        const repository = mockSubmissions(row, async () => {
+          throw failure;
+        });
+
+        await expect(approveSubmission(row.id, {}, 'staff-1')).rejects.toBe(failure);
+
+        // The tool is only ever written inside approve_submission, which rolls back as a whole
+        expect(repository.approve).toHaveBeenCalledTimes(1);
+        expect(repository.update).not.toHaveBeenCalled();
+        expect(createWithCategories).not.toHaveBeenCalled();
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Property-Based Tests for Tool Revision Diffs, Full Tool Listing and Bulk Featuring
+ *
+ * **Feature: tool-revisions**
+ * **Feature: sitemap-tools, Property 1: listAllTools returns every tool under the row cap**
+ * **Feature: bulk-tool-actions, Property 1: Bulk-featured tools are shown as featured**
+ *
+ * Tests the field-level comparison shown on the admin tool history tab,
+ * that listAllTools keeps paging when PostgREST caps each response
+ * at max_rows, and that the bulk feature action adds featured slots.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fc from 'fast-check';
+import type { ToolRow } from '@/lib/db/repositories/tools.repository';
+import type { FeaturedToolRow } from '@/lib/db/repositories/featured-tools.repository';
+import { decodeCursor, toKeysetPage } from '@/lib/db/repositories/base.repository';
+
+vi.mock('@/lib/supabase/admin', () => ({
+  createAdminClient: vi.fn(() => ({})),
+}));
+
+vi.mock('@/lib/db/repositories/tools.repository', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/db/repositories/tools.repository')>()),
+  createToolsRepository: vi.fn(),
+}));
+
+vi.mock('@/lib/db/repositories/featured-tools.repository', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/db/repositories/featured-tools.repository')>()),
+  createFeaturedToolsRepository: vi.fn(),
+}));
+
+import { createToolsRepository } from '@/lib/db/repositories/tools.repository';
+import { createFeaturedToolsRepository } from '@/lib/db/repositories/featured-tools.repository';
+import { resetResilienceState } from '@/lib/db/repositories/resilient.repository';
+import { getActiveFeaturedTools } from '../featured.service';
+import {
+  ALL_TOOLS_PAGE_SIZE,
+  applyBulkToolAction,
+  diffToolRevisions,
+  listAllTools,
+  type ToolRevisionState,
+} from '../tools.service';
+
+/** PostgREST max_rows from supabase/config.toml */
+const MAX_ROWS = 1000;
+
+// =============================================================================
+// Arbitraries (Generators) for Property-Based Testing
+// =============================================================================
+
+const fieldArbitrary = fc.constantFrom(
+  'name', 'slug', 'description', 'short_description', 'pricing',
+  'website_url', 'tags', 'is_verified', 'is_featured', 'metadata'
+);
+
+const valueArbitrary = fc.oneof(
+  fc.string({ maxLength: 20 }),
+  fc.boolean(),
+  fc.integer(),
+  fc.array(fc.string({ maxLength: 10 }), { maxLength: 3 }),
+  fc.dictionary(fc.string({ minLength: 1, maxLength: 5 }), fc.string({ maxLength: 5 }), { maxKeys: 1 })
+);
+
+const stateArbitrary: fc.Arbitrary<ToolRevisionState> = fc.record({
+  snapshot: fc.dictionary(fieldArbitrary, valueArbitrary),
+  categoryIds: fc.uniqueArray(fc.uuid(), { maxLength: 4 }),
+});
+
+/**
+ * Fake tools repository whose findPage behaves like PostgREST with
+ * max_rows set: it reads limit + 1 rows but never returns more than MAX_ROWS.
+ */
+function createCappedRepository(count: number) {
+  const rows = Array.from({ length: count }, (_, index) => ({
+    id: `tool-${String(index).padStart(5, '0')}`,
+    name: `Tool ${index}`,
+    slug: `tool-${index}`,
+    website_url: `https://tool-${index}.example.com`,
+    created_at: String(count - index).padStart(5, '0'),
+  }) as unknown as ToolRow);
+
+  const findPage = vi.fn(async ({ after, limit }: { after: string | null; limit: number }) => {
+    const offset = after ? rows.findIndex((row) => row.id === decodeCursor<{ id: string }>(after)?.id) + 1 : 0;
+    const fetched = rows.slice(offset, offset + Math.min(limit + 1, MAX_ROWS));
+    return toKeysetPage(fetched, limit, 'created_at', count);
+  });
+
+  return { rows, findPage };
+}
+
+/**
+ * Fake featured tools repository holding its slots in memory, joined to the
+ * given tools like the real one.
+ */
+function createFeaturedRepository(tools: ToolRow[]) {
+  let slots: FeaturedToolRow[] = [];
+  const byOrder = (a: FeaturedToolRow, b: FeaturedToolRow) => (a.display_order ?? 0) - (b.display_order ?? 0);
+
+  return {
+    findAll: vi.fn(async ({ ascending = true, limit }: { ascending?: boolean; limit?: number } = {}) => {
+      const sorted = [...slots].sort(byOrder);
+      return (ascending ? sorted : sorted.reverse()).slice(0, limit);
+    }),
+    addMany: vi.fn(async (toolIds: string[], firstOrder: number) => {
+      const added = toolIds
+        .filter((toolId) => tools.some((tool) => tool.id === toolId && !tool.deleted_at))
+        .filter((toolId) => !slots.some((slot) => slot.tool_id === toolId))
+        .map((toolId, index) => ({ id: `slot-${toolId}`, tool_id: toolId, display_order: firstOrder + index }) as FeaturedToolRow);
+      slots = [...slots, ...added];
+      return added.length;
+    }),
+    removeByToolIds: vi.fn(async (toolIds: string[]) => {
+      const kept = slots.filter((slot) => !toolIds.includes(slot.tool_id));
+      const removed = slots.length - kept.length;
+      slots = kept;
+      return removed;
+    }),
+    findActiveWithTools: vi.fn(async () =>
+      [...slots].sort(byOrder).flatMap((slot) => {
+        const tool = tools.find((row) => row.id === slot.tool_id && !row.deleted_at);
+        return tool ? [{ ...slot, tool }] : [];
+      })
+    ),
+  };
+}
+
+// =============================================================================
+// Property Tests
+// =============================================================================
+
+describe('listAllTools', () => {
+  beforeEach(() => {
+    resetResilienceState();
+  });
+
+  it('pages below max_rows so every tool is listed', async () => {
+    expect(ALL_TOOLS_PAGE_SIZE).toBeLessThan(MAX_ROWS);
+
+    const { rows, findPage } = createCappedRepository(MAX_ROWS + 234);
+    vi.mocked(createToolsRepository).mockReturnValue({ findPage } as unknown as ReturnType<typeof createToolsRepository>);
+
+    const tools = await listAllTools();
+
+    expect(findPage.mock.calls.length).toBeGreaterThan(1);
+    expect(findPage.mock.calls[1][0]).toMatchObject({ after: expect.any(String) });
+    expect(tools.map((tool) => tool.id)).toEqual(rows.map((row) => row.id));
+  });
+});
+
+describe('Tool Revision Property Tests', () => {
+  describe('diffToolRevisions', () => {
+    it('reports nothing for a first revision or an unchanged state', () => {
+      fc.assert(
+        fc.property(stateArbitrary, (state) => {
+          expect(diffToolRevisions(null, state)).toEqual([]);
+          expect(diffToolRevisions(state, structuredClone(state))).toEqual([]);
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('ignores the order of category ids', () => {
+      fc.assert(
+        fc.property(stateArbitrary, (state) => {
+          const reordered = { ...state, categoryIds: [...state.categoryIds].reverse() };
+          expect(diffToolRevisions(state, reordered)).toEqual([]);
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('lists each changed field once, sorted, with its old and new value', () => {
+      fc.assert(
+        fc.property(stateArbitrary, stateArbitrary, (previous, current) => {
+          const changes = diffToolRevisions(previous, current);
+          const fields = changes.map((change) => change.field);
+
+          expect(fields).toEqual([...new Set(fields)].sort((a, b) => a.localeCompare(b)));
+
+          for (const change of changes) {
+            if (change.field === 'categories') {
+              expect(change.before).toEqual([...previous.categoryIds].sort());
+              expect(change.after).toEqual([...current.categoryIds].sort());
+            } else {
+              expect(change.before).toEqual(previous.snapshot[change.field] ?? null);
+              expect(change.after).toEqual(current.snapshot[change.field] ?? null);
+              expect(change.before).not.toEqual(change.after);
+            }
+          }
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+});
+
+describe('applyBulkToolAction', () => {
+  beforeEach(() => {
+    resetResilienceState();
+  });
+
+  it('features tools in slots that getActiveFeaturedTools returns, and unfeatures them', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.uniqueArray(fc.nat({ max: 19 }), { minLength: 1, maxLength: 10 }),
+        fc.nat({ max: 19 }),
+        async (selection, archivedIndex) => {
+          const tools = Array.from({ length: 20 }, (_, index) => ({
+            id: `tool-${index}`,
+            name: `Tool ${index}`,
+            slug: `tool-${index}`,
+            website_url: `https://tool-${index}.example.com`,
+            deleted_at: index === archivedIndex ? '2026-10-19T00:00:00Z' : null,
+          }) as unknown as ToolRow);
+          const toolIds = selection.map((index) => tools[index].id);
+          const liveIds = toolIds.filter((id) => id !== tools[archivedIndex].id);
+
+          const featured = createFeaturedRepository(tools);
+          vi.mocked(createFeaturedToolsRepository).mockReturnValue(
+            featured as unknown as ReturnType<typeof createFeaturedToolsRepository>
+          );
+          vi.mocked(createToolsRepository).mockReturnValue({} as ReturnType<typeof createToolsRepository>);
+
+          expect(await applyBulkToolAction(toolIds, { type: 'feature', featured: true }, 'staff-1')).toBe(liveIds.length);
+          expect((await getActiveFeaturedTools()).map((tool) => tool.id)).toEqual(liveIds);
+
+          expect(await applyBulkToolAction(toolIds, { type: 'feature', featured: false }, 'staff-1')).toBe(liveIds.length);
+          expect(await getActiveFeaturedTools()).toEqual([]);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+});
@@ -1,110 +1,371 @@
-import { Tool, CategoryGroup } from '@/lib/types/tool';
-import fs from 'fs/promises';
+/**
+ * Admin service layer for dashboard and tool management reads.
+ * Mutations go through tools.service so admin edits and the public site
+ * share the same validation and repository code paths.
+ *
+ * @module admin.service
+ */
+
+import { readFile } from 'fs/promises';
 import path from 'path';
-import { cache } from 'react';
+import { createAdminClient } from '@/lib/supabase/admin';
+import {
+  createToolsRepository,
+  type ToolCountByValue,
+  type ToolsAddedPoint,
+} from '@/lib/db/repositories/tools.repository';
+import { createCategoriesRepository } from '@/lib/db/repositories/categories.repository';
+import { createScraperRunsRepository, type ScraperRunRow } from '@/lib/db/repositories/scraper-runs.repository';
+import { mapToolWithCategories } from '@/lib/db/mappers/tool.mapper';
+import { PRICING_OPTIONS } from '@/lib/types/tool-form';
+import type { AdminToolQuery, AdminToolSortKey, Category, PricingType, Tool, ToolPage, ToolSource } from '@/lib/types/tool';
 
-// Path to the mock database file
-// In production, this filesystem write will ONLY work if the host supports it (e.g. VPS).
-// Vercel Serverless implies Read-Only file system except /tmp, so this is for Local Dev / VPS only.
-const DB_PATH = path.join(process.cwd(), 'src', 'data', 'mock-db.json');
+/** Bucket size of the "tools added" chart */
+export type DashboardPeriod = 'day' | 'week';
 
-interface DatabaseSchema {
-    tools: Tool[];
-    categoryGroups: CategoryGroup[];
+/**
+ * Outcome of the most recent scraper run.
+ */
+export interface ScraperRunSummary {
+  /** When the run finished (ISO timestamp) */
+  finishedAt: string;
+  /** Null when only scraping-metadata.json is available, which has no status */
+  status: 'succeeded' | 'partial' | 'failed' | null;
+  toolsExtracted: number;
+  categoriesScraped: number;
+  /** Null when unknown */
+  errorCount: number | null;
+  /** Null when unknown */
+  durationMs: number | null;
+  /** Where the summary was read from */
+  source: 'database' | 'file';
 }
 
 /**
- * Reads the database from the filesystem.
- * This ensures we get the *fresh* data, not the cached build-time import.
+ * Aggregated figures shown on the admin dashboard.
  */
-const readDb = async (): Promise<DatabaseSchema> => {
-    try {
-        const data = await fs.readFile(DB_PATH, 'utf-8');
-        return JSON.parse(data);
-    } catch (error) {
-        console.error("Failed to read DB:", error);
-        throw new Error("Database access failed");
-    }
+export interface AdminStats {
+  /** Total number of tools in the tools table */
+  totalTools: number;
+  /** Total number of categories in the categories table */
+  totalCategories: number;
+  /** Most recently created tools, newest first */
+  recentTools: Tool[];
+  /** Bucket size of toolsAdded */
+  period: DashboardPeriod;
+  /** Live tools created per bucket, oldest first, including empty buckets */
+  toolsAdded: ToolsAddedPoint[];
+  /** Live tools per pricing value, largest first */
+  toolsByPricing: ToolCountByValue[];
+  /** Live tools per source ('scraper' or 'manual'), largest first */
+  toolsBySource: ToolCountByValue[];
+  /** Categories without any live tool, by name */
+  emptyCategories: Pick<Category, 'id' | 'name' | 'slug'>[];
+  /** Live tools not yet verified */
+  unverifiedTools: number;
+  /** Tools saved by users, across all users */
+  favorites: number;
+  /** Sum of review counts across live tools */
+  reviews: number;
+  /** Most recent scraper run, or null if none is recorded */
+  lastScraperRun: ScraperRunSummary | null;
+}
+
+/** Number of tools listed in the dashboard "Recent Tools" table */
+const RECENT_TOOLS_LIMIT = 5;
+
+/** Number of buckets shown in the "tools added" chart per period */
+export const DASHBOARD_PERIOD_BUCKETS: Record<DashboardPeriod, number> = {
+  day: 30,
+  week: 12,
 };
 
+/** Written by the scraper next to its JSON output; used when scraper_runs is empty */
+const SCRAPING_METADATA_PATH = path.join(process.cwd(), 'src/data/free-ai-tools/scraping-metadata.json');
+
+/** Number of tools per page in the admin tools table */
+export const ADMIN_TOOLS_PAGE_SIZE = 50;
+
+/** Sort keys accepted in the admin tools table URL */
+const ADMIN_SORT_KEYS: AdminToolSortKey[] = ['name', 'pricing', 'createdAt', 'savedCount', 'monthlyVisits'];
+
+const TOOL_SOURCES: ToolSource[] = ['scraper', 'manual'];
+
 /**
- * Writes the database to the filesystem.
+ * Reads the admin tools table query from URL search params. Unknown values
+ * are ignored, so a hand-edited URL falls back to the unfiltered table.
+ *
+ * @param params - Search params: q, pricing, category, verified, source, missing, sort and dir
+ * @returns The query; empty when no params are set
+ *
+ * @example
+ * ```ts
+ * parseAdminToolQuery({ pricing: 'Free', verified: 'no', sort: 'name', dir: 'asc' });
+ * // { pricing: ['Free'], verified: false, sort: 'name', ascending: true }
+ * ```
  */
-const writeDb = async (data: DatabaseSchema): Promise<void> => {
-    try {
-        await fs.writeFile(DB_PATH, JSON.stringify(data, null, 4), 'utf-8');
-    } catch (error) {
-        console.error("Failed to write DB:", error);
-        throw new Error("Database write failed");
-    }
-};
+export function parseAdminToolQuery(params: Record<string, string | undefined>): AdminToolQuery {
+  const query: AdminToolQuery = {};
+  const search = params.q?.trim();
 
-// --- CRUD Operations ---
+  if (search) {
+    query.search = search;
+  }
+  if (PRICING_OPTIONS.includes(params.pricing as PricingType)) {
+    query.pricing = [params.pricing as PricingType];
+  }
+  if (params.category) {
+    query.categories = [params.category];
+  }
+  if (params.verified === 'yes' || params.verified === 'no') {
+    query.verified = params.verified === 'yes';
+  }
+  if (TOOL_SOURCES.includes(params.source as ToolSource)) {
+    query.source = params.source as ToolSource;
+  }
+  if (params.missing === 'image' || params.missing === 'url') {
+    query.missing = params.missing;
+  }
+  if (ADMIN_SORT_KEYS.includes(params.sort as AdminToolSortKey)) {
+    query.sort = params.sort as AdminToolSortKey;
+  }
+  if (params.dir === 'asc' || params.dir === 'desc') {
+    query.ascending = params.dir === 'asc';
+  }
 
-export const getAllTools = async (): Promise<Tool[]> => {
-    const db = await readDb();
-    // Sort by date added desc by default for admin
-    return db.tools.sort((a, b) =>
-        new Date(b.dateAdded || 0).getTime() - new Date(a.dateAdded || 0).getTime()
-    );
-};
+  return query;
+}
 
-export const getToolById = async (id: string): Promise<Tool | undefined> => {
-    const db = await readDb();
-    return db.tools.find(t => t.id === id);
-};
+/**
+ * Fetches one page of tools with their categories for the admin tools table.
+ * Filters, sort and total count are resolved in a single database query.
+ *
+ * @param query - Filters plus sort column and direction (default: newest first)
+ * @param after - Cursor of the previous page, or null for the first page
+ * @returns The page of tools with the total match count and the next cursor
+ *
+ * @example
+ * ```ts
+ * const page = await getToolsPage({ source: 'scraper', missing: 'image' });
+ * const next = page.nextCursor ? await getToolsPage(query, page.nextCursor) : null;
+ * ```
+ */
+export async function getToolsPage(query: AdminToolQuery = {}, after: string | null = null): Promise<ToolPage> {
+  const repo = createToolsRepository(createAdminClient());
+  const page = await repo.findAdminPage(query, {
+    cursor: after,
+    limit: ADMIN_TOOLS_PAGE_SIZE,
+  });
 
-export const createTool = async (toolData: Omit<Tool, 'id' | 'dateAdded' | 'verified' | 'savedCount' | 'reviewCount' | 'reviewScore'>): Promise<Tool> => {
-    const db = await readDb();
-
-    const newTool: Tool = {
-        ...toolData,
-        id: (db.tools.length + 1).toString(), // Simple numeric ID increment
-        dateAdded: new Date().toISOString(),
-        verified: false,
-        savedCount: 0,
-        reviewCount: 0,
-        reviewScore: 0
-    };
-
-    db.tools.push(newTool);
-    await writeDb(db);
-    return newTool;
-};
+  return {
+    items: page.items.map(mapToolWithCategories),
+    total: page.total,
+    nextCursor: page.nextCursor,
+  };
+}
 
-export const updateTool = async (id: string, updates: Partial<Tool>): Promise<Tool> => {
-    const db = await readDb();
-    const index = db.tools.findIndex(t => t.id === id);
+/**
+ * Fetches one page of archived tools for the admin "Archived" view.
+ *
+ * @param after - Cursor of the previous page, or null for the first page
+ * @returns Archived tools, most recently archived first, with the next cursor
+ *
+ * @example
+ * ```ts
+ * const page = await getArchivedToolsPage(null);
+ * ```
+ */
+export async function getArchivedToolsPage(after: string | null = null): Promise<ToolPage> {
+  const repo = createToolsRepository(createAdminClient());
+  const page = await repo.findArchivedPage({ after, limit: ADMIN_TOOLS_PAGE_SIZE });
+
+  return {
+    items: page.items.map(mapToolWithCategories),
+    total: page.total,
+    nextCursor: page.nextCursor,
+  };
+}
 
-    if (index === -1) {
-        throw new Error("Tool not found");
-    }
+/**
+ * Fetches a single tool with its categories by ID.
+ *
+ * @param id - Tool ID
+ * @returns The tool or null if not found
+ *
+ * @example
+ * ```ts
+ * const tool = await getToolById('tool-uuid');
+ * ```
+ */
+export async function getToolById(id: string): Promise<Tool | null> {
+  const repo = createToolsRepository(createAdminClient());
+  const row = await repo.findByIdWithCategories(id);
 
-    const updatedTool = { ...db.tools[index], ...updates };
-    db.tools[index] = updatedTool;
+  if (!row) {
+    return null;
+  }
 
-    await writeDb(db);
-    return updatedTool;
-};
+  return mapToolWithCategories(row);
+}
 
-export const deleteTool = async (id: string): Promise<void> => {
-    const db = await readDb();
-    const initialLength = db.tools.length;
-    db.tools = db.tools.filter(t => t.id !== id);
+/**
+ * Fetches the IDs of the categories a tool is linked to.
+ *
+ * @param id - Tool ID
+ * @returns Category IDs; empty when the tool has none
+ *
+ * @example
+ * ```ts
+ * const categoryIds = await getToolCategoryIds('tool-uuid');
+ * ```
+ */
+export async function getToolCategoryIds(id: string): Promise<string[]> {
+  const repo = createToolsRepository(createAdminClient());
+  return repo.findCategoryIds(id);
+}
 
-    if (db.tools.length === initialLength) {
-        throw new Error("Tool not found");
-    }
+/**
+ * Start of the first bucket shown for a period, counting back from now.
+ *
+ * @param period - Bucket size
+ * @param now - Current time
+ * @returns A date inside the oldest bucket
+ *
+ * @example
+ * ```ts
+ * getDashboardSince('day', new Date('2026-10-30T12:00:00Z')); // 2026-10-01T12:00:00Z
+ * ```
+ */
+export function getDashboardSince(period: DashboardPeriod, now: Date = new Date()): Date {
+  const days = period === 'day' ? 1 : 7;
+  return new Date(now.getTime() - (DASHBOARD_PERIOD_BUCKETS[period] - 1) * days * 24 * 60 * 60 * 1000);
+}
 
-    await writeDb(db);
-};
+/**
+ * Maps a scraper_runs row to the dashboard summary.
+ *
+ * @param row - Recorded run
+ * @returns Summary with the run's duration
+ */
+export function toScraperRunSummary(row: ScraperRunRow): ScraperRunSummary {
+  return {
+    finishedAt: row.finished_at,
+    status: row.status as ScraperRunSummary['status'],
+    toolsExtracted: row.tools_extracted,
+    categoriesScraped: row.categories_scraped,
+    errorCount: row.error_count,
+    durationMs: new Date(row.finished_at).getTime() - new Date(row.started_at).getTime(),
+    source: 'database',
+  };
+}
 
-// Dashboard Stats
-export const getAdminStats = async () => {
-    const db = await readDb();
-    return {
-        totalTools: db.tools.length,
-        totalCategories: db.categoryGroups.reduce((acc, g) => acc + (g.categories?.length || 0), 0),
-        recentTools: db.tools.slice(-5).reverse()
-    };
-};
+/**
+ * Reads a scraping-metadata.json document written by the scraper.
+ *
+ * @param json - File contents
+ * @returns Summary without status or error count, or null if the document is not valid
+ *
+ * @example
+ * ```ts
+ * parseScrapingMetadata('{"lastScrapedAt":"2026-10-01T00:00:00Z","totalTools":120,"totalCategories":9}');
+ * ```
+ */
+export function parseScrapingMetadata(json: string): ScraperRunSummary | null {
+  let value: Record<string, unknown>;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (!value || typeof value.lastScrapedAt !== 'string' || Number.isNaN(Date.parse(value.lastScrapedAt))) {
+    return null;
+  }
+
+  const count = (field: unknown) => (typeof field === 'number' && field >= 0 ? field : 0);
+  return {
+    finishedAt: value.lastScrapedAt,
+    status: null,
+    toolsExtracted: count(value.totalTools),
+    categoriesScraped: count(value.totalCategories),
+    errorCount: null,
+    durationMs: typeof value.scrapeDurationMs === 'number' ? value.scrapeDurationMs : null,
+    source: 'file',
+  };
+}
+
+/**
+ * Latest recorded scraper run, falling back to scraping-metadata.json for
+ * runs made before scraper_runs existed or with database writes disabled.
+ */
+async function getLastScraperRun(): Promise<ScraperRunSummary | null> {
+  const row = await createScraperRunsRepository(createAdminClient()).findLatest();
+  if (row) {
+    return toScraperRunSummary(row);
+  }
+
+  try {
+    return parseScrapingMetadata(await readFile(SCRAPING_METADATA_PATH, 'utf-8'));
+  } catch {
+    // No scraper output in this deployment
+    return null;
+  }
+}
+
+/**
+ * Fetches the live aggregates for the admin dashboard: headline counts,
+ * tools added over time, pricing and source breakdowns, data-quality
+ * backlogs and the scraper's last run. Every figure is computed in SQL.
+ *
+ * @param period - Bucket size of the "tools added" chart (default: day)
+ * @returns Dashboard statistics
+ *
+ * @example
+ * ```ts
+ * const stats = await getAdminStats('week');
+ * console.log(stats.toolsAdded.at(-1)?.count);
+ * ```
+ */
+export async function getAdminStats(period: DashboardPeriod = 'day'): Promise<AdminStats> {
+  const supabase = createAdminClient();
+  const toolsRepo = createToolsRepository(supabase);
+  const categoriesRepo = createCategoriesRepository(supabase);
+
+  const [
+    totalTools,
+    totalCategories,
+    recentRows,
+    toolsAdded,
+    toolsByPricing,
+    toolsBySource,
+    emptyCategories,
+    totals,
+    lastScraperRun,
+  ] = await Promise.all([
+    toolsRepo.count(),
+    categoriesRepo.count(),
+    toolsRepo.findWithCategories({
+      limit: RECENT_TOOLS_LIMIT,
+      orderBy: 'created_at',
+      ascending: false,
+    }),
+    toolsRepo.countAddedPerPeriod(period, getDashboardSince(period)),
+    toolsRepo.countBy('pricing'),
+    toolsRepo.countBy('source'),
+    categoriesRepo.findEmpty(),
+    toolsRepo.findDashboardTotals(),
+    getLastScraperRun(),
+  ]);
+
+  return {
+    totalTools,
+    totalCategories,
+    recentTools: recentRows.map(mapToolWithCategories),
+    period,
+    toolsAdded,
+    toolsByPricing,
+    toolsBySource,
+    emptyCategories: emptyCategories.map(({ id, name, slug }) => ({ id, name, slug })),
+    ...totals,
+    lastScraperRun,
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * Audit service layer for reading the content audit log.
+ * Entries are written by database triggers on every tools, categories,
+ * featured_tools and faqs mutation; this module filters and labels them
+ * for /admin/audit.
+ *
+ * @module audit.service
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin';
+import {
+  createAuditLogRepository,
+  type AuditLogQuery,
+  type AuditLogRow,
+} from '@/lib/db/repositories/audit-log.repository';
+import {
+  AUDIT_OPERATIONS,
+  type AuditEntry,
+  type AuditFieldChange,
+  type AuditLogFilters,
+  type AuditLogPage,
+  type AuditOperation,
+} from '@/lib/types/audit';
+import { listStaff } from '@/lib/services/staff.service';
+
+/** Number of entries per page on /admin/audit */
+export const AUDIT_LOG_PAGE_SIZE = 50;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parses a YYYY-MM-DD date as UTC midnight.
+ *
+ * @returns The date, or null if the value is not a real calendar date
+ */
+function parseDay(value: string | undefined): Date | null {
+  if (!value || !DATE_PATTERN.test(value)) {
+    return null;
+  }
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value ? null : date;
+}
+
+/**
+ * Converts page filters into a repository query. Dates are inclusive whole
+ * UTC days, so `to` becomes an exclusive bound at the following midnight.
+ * Malformed dates are ignored.
+ *
+ * @example
+ * ```ts
+ * toAuditLogQuery({ from: '2026-10-01', to: '2026-10-01' });
+ * // { since: '2026-10-01T00:00:00.000Z', until: '2026-10-02T00:00:00.000Z' }
+ * ```
+ */
+export function toAuditLogQuery(filters: AuditLogFilters): AuditLogQuery {
+  const from = parseDay(filters.from);
+  const to = parseDay(filters.to);
+
+  return {
+    ...(filters.actor && { actor: filters.actor }),
+    ...(filters.entity && { entity: filters.entity }),
+    ...(from && { since: from.toISOString() }),
+    ...(to && { until: new Date(to.getTime() + 24 * 60 * 60 * 1000).toISOString() }),
+  };
+}
+
+/**
+ * Narrows a JSON value to a plain object.
+ */
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+}
+
+/**
+ * Maps an audit_log row to an AuditEntry, labelling known staff actors by email.
+ */
+function mapAuditLogRow(row: AuditLogRow, actorLabels: Map<string, string>): AuditEntry {
+  return {
+    id: row.id,
+    actor: row.actor,
+    actorLabel: actorLabels.get(row.actor) ?? row.actor,
+    entity: row.entity,
+    entityId: row.entity_id,
+    operation: (AUDIT_OPERATIONS as readonly string[]).includes(row.operation)
+      ? (row.operation as AuditOperation)
+      : 'update',
+    before: asRecord(row.before),
+    after: asRecord(row.after),
+    changes: (asRecord(row.changes) ?? {}) as Record<string, AuditFieldChange>,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Fetches one page of audit entries matching the filters, newest first.
+ *
+ * @param filters - Actor, entity and inclusive date range
+ * @param after - Cursor of the previous page, or null for the first page
+ * @returns Entries with actor labels, the total and the next cursor
+ *
+ * @example
+ * ```ts
+ * const page = await getAuditLog({ entity: 'tools', actor: 'scraper' });
+ * ```
+ */
+export async function getAuditLog(
+  filters: AuditLogFilters = {},
+  after: string | null = null
+): Promise<AuditLogPage> {
+  const [page, staff] = await Promise.all([
+    createAuditLogRepository(createAdminClient()).findFilteredPage(toAuditLogQuery(filters), {
+      after,
+      limit: AUDIT_LOG_PAGE_SIZE,
+    }),
+    listStaff(),
+  ]);
+
+  const actorLabels = new Map(staff.map((member) => [member.userId, member.email]));
+
+  return {
+    items: page.items.map((row) => mapAuditLogRow(row, actorLabels)),
+    total: page.total,
+    nextCursor: page.nextCursor,
+  };
+}
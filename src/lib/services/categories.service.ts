@@ -1,20 +1,28 @@
 /**
  * Categories service layer for business logic orchestration.
- * Provides functions for managing categories, subcategories, category groups, and FAQs.
+ * Provides functions for managing categories, subcategories and category groups.
  *
  * @module categories.service
  */
 
 import { createAdminClient } from '@/lib/supabase/admin';
 import { createCategoriesRepository } from '@/lib/db/repositories/categories.repository';
+import {
+  createCategoryGroupsRepository,
+  type CategoryGroupRow,
+  type CategoryGroupUpdate,
+} from '@/lib/db/repositories/category-groups.repository';
 import { createSubcategoriesRepository } from '@/lib/db/repositories/subcategories.repository';
-import { createFaqsRepository } from '@/lib/db/repositories/faqs.repository';
+import { withResilience } from '@/lib/db/repositories/resilient.repository';
 import {
   mapCategoryRowToCategory,
   mapCategoryWithToolCount,
+  mapCategoryToUpdate,
 } from '@/lib/db/mappers/category.mapper';
 import { mapSubcategoryRowToSubcategory } from '@/lib/db/mappers/subcategory.mapper';
 import { TABLES } from '@/lib/db/constants/tables';
+import { ValidationError } from '@/lib/db/errors';
+import { CATEGORY_ICON_MAP } from '@/lib/utils/icon-mapping';
 import type { Category, CategoryGroup } from '@/lib/types/tool';
 
 /**
@@ -44,15 +52,50 @@ export interface Subcategory {
 }
 
 /**
- * FAQ type for service layer.
+ * Category group type for service layer, without its categories.
  */
-export interface FAQ {
+export interface CategoryGroupSummary {
   id: string;
-  question: string;
-  answer: string;
+  name: string;
+  iconName?: string;
   displayOrder: number;
 }
 
+/**
+ * Input for creating or updating a category group.
+ */
+export interface CategoryGroupInput {
+  /** Group name shown in navigation */
+  name: string;
+  /** Key of CATEGORY_ICON_MAP; null clears the icon */
+  iconName?: string | null;
+  /** Position among groups; new groups are placed last when omitted */
+  displayOrder?: number;
+}
+
+/**
+ * Input for creating or updating a category.
+ */
+export interface CategoryInput {
+  name: string;
+  /** Lowercase words separated by hyphens, e.g. 'ai-chatbots' */
+  slug: string;
+  description?: string;
+  /** Key of CATEGORY_ICON_MAP; null clears the icon */
+  iconName?: string | null;
+  /** Category group; null leaves the category ungrouped */
+  groupId?: string | null;
+}
+
+/**
+ * Input for creating or updating a subcategory.
+ */
+export interface SubcategoryInput {
+  name: string;
+  /** Lowercase words separated by hyphens, unique across all subcategories */
+  slug: string;
+}
+
 /**
  * Creates a Supabase admin client instance.
  */
@@ -60,6 +103,67 @@ function getSupabaseClient() {
   return createAdminClient();
 }
 
+/**
+ * Creates a categories repository whose reads are retried on transient
+ * failures and fall back to the last known-good result.
+ */
+function getCategoriesRepository(supabase: ReturnType<typeof getSupabaseClient>) {
+  return withResilience(createCategoriesRepository(supabase), TABLES.CATEGORIES, { cache: true });
+}
+
+/**
+ * Creates a categories repository for writes.
+ *
+ * @param actorUserId - Staff user recorded in the audit log
+ */
+function getCategoriesWriteRepository(actorUserId?: string) {
+  return createCategoriesRepository(createAdminClient({ auditActor: actorUserId }));
+}
+
+/** Slugs are lowercase words separated by single hyphens */
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/**
+ * Trims a name and rejects it if blank.
+ */
+function requireName(value: string): string {
+  const name = value.trim();
+  if (!name) {
+    throw new ValidationError('name', 'Name is required');
+  }
+  return name;
+}
+
+/**
+ * Rejects slugs that are not lowercase hyphenated words.
+ */
+function requireSlug(value: string): string {
+  const slug = value.trim();
+  if (!SLUG_PATTERN.test(slug)) {
+    throw new ValidationError('slug', 'Slug must be lowercase letters, digits and single hyphens');
+  }
+  return slug;
+}
+
+/**
+ * Rejects icon names that are not keys of CATEGORY_ICON_MAP; null clears the icon.
+ */
+function requireIconName(value: string | null): string | null {
+  if (value !== null && !Object.hasOwn(CATEGORY_ICON_MAP, value)) {
+    throw new ValidationError('iconName', `Unknown icon: ${value}`);
+  }
+  return value;
+}
+
+/**
+ * Rejects ID lists that name the same row twice.
+ */
+function requireUniqueIds(ids: string[], field: string): void {
+  if (new Set(ids).size !== ids.length) {
+    throw new ValidationError(field, 'Each item may appear only once');
+  }
+}
+
 
 /**
  * Fetches categories with optional filtering and tool counts.
@@ -78,7 +182,7 @@ function getSupabaseClient() {
  */
 export async function getCategories(options?: GetCategoriesOptions): Promise<Category[]> {
   const supabase = getSupabaseClient();
-  const repo = createCategoriesRepository(supabase);
+  const repo = getCategoriesRepository(supabase);
 
   // If filtering by group, use findByGroup
   if (options?.groupId) {
@@ -119,7 +223,7 @@ export async function getCategories(options?: GetCategoriesOptions): Promise<Cat
  */
 export async function getCategoryBySlug(slug: string): Promise<Category | null> {
   const supabase = getSupabaseClient();
-  const repo = createCategoriesRepository(supabase);
+  const repo = getCategoriesRepository(supabase);
   const row = await repo.findBySlug(slug);
 
   if (!row) {
@@ -144,61 +248,342 @@ export async function getCategoryBySlug(slug: string): Promise<Category | null>
  */
 export async function getCategoryGroups(): Promise<CategoryGroup[]> {
   const supabase = getSupabaseClient();
+  const groups = await createCategoryGroupsRepository(supabase).findAllOrdered();
+
+  if (groups.length === 0) {
+    return [];
+  }
+
+  // Get all categories with tool counts; each belongs to at most one group via group_id
+  const categoriesRepo = getCategoriesRepository(supabase);
+  const categoriesWithCounts = await categoriesRepo.findWithToolCount();
+
+  return groups.map((group) => ({
+    id: group.id,
+    name: group.name,
+    iconName: group.icon_name ?? undefined,
+    categories: categoriesWithCounts
+      .filter((row) => row.group_id === group.id)
+      .map(mapCategoryWithToolCount),
+  }));
+}
+
+/**
+ * Maps a category_groups row to a CategoryGroupSummary.
+ */
+function mapCategoryGroupRow(row: CategoryGroupRow): CategoryGroupSummary {
+  return {
+    id: row.id,
+    name: row.name,
+    iconName: row.icon_name ?? undefined,
+    displayOrder: row.display_order ?? 0,
+  };
+}
+
+/**
+ * Validates category group input and converts it to database columns.
+ * Only the fields present in the input are included, so it serves both
+ * create and partial update.
+ *
+ * @param input - Group fields to validate
+ * @returns Columns to write
+ * @throws {ValidationError} If the name is blank, the icon is not in
+ *   CATEGORY_ICON_MAP or the display order is not a non-negative integer
+ *
+ * @example
+ * ```ts
+ * toCategoryGroupFields({ name: ' Creative ', iconName: 'design' });
+ * // { name: 'Creative', icon_name: 'design' }
+ * ```
+ */
+export function toCategoryGroupFields(input: Partial<CategoryGroupInput>): CategoryGroupUpdate {
+  const fields: CategoryGroupUpdate = {};
 
-  // Get all category groups
-  const { data: groups, error: groupsError } = await supabase
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    .from(TABLES.CATEGORY_GROUPS as any)
-    .select('*')
-    .order('display_order', { ascending: true });
+  if (input.name !== undefined) {
+    fields.name = requireName(input.name);
+  }
 
-  if (groupsError) {
-    throw groupsError;
+  if (input.iconName !== undefined) {
+    fields.icon_name = requireIconName(input.iconName);
   }
 
-  if (!groups || groups.length === 0) {
-    return [];
+  if (input.displayOrder !== undefined) {
+    if (!Number.isInteger(input.displayOrder) || input.displayOrder < 0) {
+      throw new ValidationError('displayOrder', 'Display order must be a non-negative integer');
+    }
+    fields.display_order = input.displayOrder;
   }
 
-  // Get all categories with tool counts
-  const categoriesRepo = createCategoriesRepository(supabase);
-  const categoriesWithCounts = await categoriesRepo.findWithToolCount();
-  const categories = categoriesWithCounts.map(mapCategoryWithToolCount);
-
-  // Group categories by their group_id in metadata
-  // Use a Set to track which categories have been assigned to prevent duplicates
-  const assignedCategoryIds = new Set<string>();
-
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  return (groups as any[]).map((group) => {
-    const groupCategories = categories.filter((cat) => {
-      // Skip if this category has already been assigned to a group
-      if (assignedCategoryIds.has(cat.id)) {
-        return false;
-      }
-
-      // Categories are linked to groups via metadata.group_id
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const catMetadata = (cat as any).metadata;
-      const belongsToGroup = catMetadata?.group_id === group.id;
-
-      if (belongsToGroup) {
-        assignedCategoryIds.add(cat.id);
-        return true;
-      }
-
-      return false;
-    });
-
-    return {
-      id: group.id,
-      name: group.name,
-      iconName: group.icon_name ?? undefined,
-      categories: groupCategories,
-    } as CategoryGroup;
+  return fields;
+}
+
+/**
+ * Lists all category groups in display order, without their categories.
+ *
+ * @returns Array of category groups
+ *
+ * @example
+ * ```ts
+ * const groups = await listCategoryGroups();
+ * ```
+ */
+export async function listCategoryGroups(): Promise<CategoryGroupSummary[]> {
+  const rows = await createCategoryGroupsRepository(getSupabaseClient()).findAllOrdered();
+  return rows.map(mapCategoryGroupRow);
+}
+
+/**
+ * Creates a category group. Without an explicit display order the group
+ * is placed after all existing groups.
+ *
+ * @param input - Group name, icon and optional position
+ * @returns The created group
+ * @throws {ValidationError} If the input is invalid
+ *
+ * @example
+ * ```ts
+ * const group = await createCategoryGroup({ name: 'Creative', iconName: 'design' });
+ * ```
+ */
+export async function createCategoryGroup(input: CategoryGroupInput): Promise<CategoryGroupSummary> {
+  const fields = toCategoryGroupFields(input);
+  if (fields.name === undefined) {
+    throw new ValidationError('name', 'Name is required');
+  }
+
+  const repo = createCategoryGroupsRepository(getSupabaseClient());
+
+  if (fields.display_order === undefined) {
+    const groups = await repo.findAllOrdered();
+    fields.display_order = groups.reduce(
+      (next, group) => Math.max(next, (group.display_order ?? 0) + 1),
+      0
+    );
+  }
+
+  const row = await repo.create({ ...fields, name: fields.name });
+  return mapCategoryGroupRow(row);
+}
+
+/**
+ * Updates a category group's name, icon or position.
+ *
+ * @param id - Group ID
+ * @param input - Fields to change
+ * @returns The updated group
+ * @throws {ValidationError} If the input is invalid
+ *
+ * @example
+ * ```ts
+ * await updateCategoryGroup('group-uuid', { name: 'Creative Tools', iconName: null });
+ * ```
+ */
+export async function updateCategoryGroup(
+  id: string,
+  input: Partial<CategoryGroupInput>
+): Promise<CategoryGroupSummary> {
+  const fields = toCategoryGroupFields(input);
+  const row = await createCategoryGroupsRepository(getSupabaseClient()).update(id, fields);
+  return mapCategoryGroupRow(row);
+}
+
+/**
+ * Deletes a category group. Its categories are kept and become ungrouped
+ * (categories.group_id is set to null by the foreign key).
+ *
+ * @param id - Group ID
+ *
+ * @example
+ * ```ts
+ * await deleteCategoryGroup('group-uuid');
+ * ```
+ */
+export async function deleteCategoryGroup(id: string): Promise<void> {
+  await createCategoryGroupsRepository(getSupabaseClient()).delete(id);
+}
+
+/**
+ * Sets the display order of category groups to their position in the list.
+ *
+ * @param groupIds - Group IDs in the desired order
+ * @throws {ValidationError} If an ID appears more than once
+ *
+ * @example
+ * ```ts
+ * await reorderCategoryGroups(['group-b', 'group-a', 'group-c']);
+ * ```
+ */
+export async function reorderCategoryGroups(groupIds: string[]): Promise<void> {
+  requireUniqueIds(groupIds, 'groupIds');
+
+  await createCategoryGroupsRepository(getSupabaseClient()).reorder(groupIds);
+}
+
+/**
+ * Moves a category into a group, or out of any group.
+ *
+ * @param categoryId - Category ID
+ * @param groupId - Target group ID, or null to ungroup the category
+ * @param actorUserId - Staff user recorded as the actor in the audit log
+ * @returns The updated category
+ * @throws {ForeignKeyError} If the group does not exist
+ *
+ * @example
+ * ```ts
+ * await assignCategoryToGroup('category-uuid', 'group-uuid', staff.userId);
+ * ```
+ */
+export async function assignCategoryToGroup(
+  categoryId: string,
+  groupId: string | null,
+  actorUserId?: string
+): Promise<Category> {
+  const row = await getCategoriesWriteRepository(actorUserId).update(categoryId, { group_id: groupId });
+  return mapCategoryRowToCategory(row);
+}
+
+/**
+ * Validates category input and converts it to database columns.
+ * Only the fields present in the input are included, so it serves both
+ * create and partial update.
+ *
+ * @param input - Category fields to validate
+ * @returns Columns to write
+ * @throws {ValidationError} If the name is blank, the slug is malformed or
+ *   the icon is not in CATEGORY_ICON_MAP
+ *
+ * @example
+ * ```ts
+ * toCategoryFields({ name: 'AI Chatbots', slug: 'ai-chatbots', iconName: 'text' });
+ * // { name: 'AI Chatbots', slug: 'ai-chatbots', icon: 'text' }
+ * ```
+ */
+export function toCategoryFields(input: Partial<CategoryInput>): Record<string, unknown> {
+  return mapCategoryToUpdate({
+    ...(input.name !== undefined && { name: requireName(input.name) }),
+    ...(input.slug !== undefined && { slug: requireSlug(input.slug) }),
+    ...(input.description !== undefined && { description: input.description.trim() }),
+    // An empty icon name is written as null by the mapper
+    ...(input.iconName !== undefined && { iconName: requireIconName(input.iconName) ?? '' }),
+    ...(input.groupId !== undefined && { groupId: input.groupId || null }),
   });
 }
 
+/**
+ * Creates a category after the existing ones.
+ *
+ * @param input - Category name, slug, description, icon and group
+ * @param actorUserId - Staff user recorded as the actor in the audit log
+ * @returns The created category
+ * @throws {ValidationError} If the input is invalid
+ * @throws {ConflictError} If the slug is already taken
+ *
+ * @example
+ * ```ts
+ * const category = await createCategory({ name: 'AI Chatbots', slug: 'ai-chatbots' }, staff.userId);
+ * ```
+ */
+export async function createCategory(input: CategoryInput, actorUserId?: string): Promise<Category> {
+  const fields = toCategoryFields(input);
+  const repo = getCategoriesWriteRepository(actorUserId);
+
+  const [last] = await repo.findAll({ orderBy: 'display_order', ascending: false, limit: 1 });
+  const row = await repo.create({
+    ...fields,
+    name: fields.name as string,
+    slug: fields.slug as string,
+    display_order: (last?.display_order ?? -1) + 1,
+  });
+
+  return mapCategoryRowToCategory(row);
+}
+
+/**
+ * Updates a category. A slug change keeps the old URL working through
+ * slug_redirects.
+ *
+ * @param id - Category ID
+ * @param input - Fields to change
+ * @param actorUserId - Staff user recorded as the actor in the audit log
+ * @returns The updated category
+ * @throws {ValidationError} If the input is invalid
+ * @throws {ConflictError} If the new slug is already taken
+ *
+ * @example
+ * ```ts
+ * await updateCategory('category-uuid', { name: 'Chatbots', iconName: 'text' }, staff.userId);
+ * ```
+ */
+export async function updateCategory(
+  id: string,
+  input: Partial<CategoryInput>,
+  actorUserId?: string
+): Promise<Category> {
+  const row = await getCategoriesWriteRepository(actorUserId).update(id, toCategoryFields(input));
+  return mapCategoryRowToCategory(row);
+}
+
+/**
+ * Deletes a category together with its subcategories and tool links.
+ * The tools themselves are kept. Use mergeCategories to keep the links.
+ *
+ * @param id - Category ID
+ * @param actorUserId - Staff user recorded as the actor in the audit log
+ *
+ * @example
+ * ```ts
+ * await deleteCategory('category-uuid', staff.userId);
+ * ```
+ */
+export async function deleteCategory(id: string, actorUserId?: string): Promise<void> {
+  await getCategoriesWriteRepository(actorUserId).delete(id);
+}
+
+/**
+ * Sets the display order of categories to their position in the list.
+ *
+ * @param categoryIds - Category IDs in the desired order
+ * @param actorUserId - Staff user recorded as the actor in the audit log
+ * @throws {ValidationError} If an ID appears more than once
+ *
+ * @example
+ * ```ts
+ * await reorderCategories(['category-b', 'category-a'], staff.userId);
+ * ```
+ */
+export async function reorderCategories(categoryIds: string[], actorUserId?: string): Promise<void> {
+  requireUniqueIds(categoryIds, 'categoryIds');
+  await getCategoriesWriteRepository(actorUserId).reorder(categoryIds);
+}
+
+/**
+ * Merges one category into another: the source's tools and subcategories
+ * move to the target, the source's URLs redirect to the target, and the
+ * source is deleted. The merge is atomic.
+ *
+ * @param sourceId - Category to merge and delete
+ * @param targetId - Category that receives the tools
+ * @param actorUserId - Staff user recorded as the actor in the audit log
+ * @returns Number of tools newly added to the target
+ * @throws {ValidationError} If both IDs are the same
+ * @throws {NotFoundError} If either category does not exist
+ *
+ * @example
+ * ```ts
+ * const moved = await mergeCategories('chat-bots-uuid', 'ai-chatbots-uuid', staff.userId);
+ * ```
+ */
+export async function mergeCategories(
+  sourceId: string,
+  targetId: string,
+  actorUserId?: string
+): Promise<number> {
+  if (sourceId === targetId) {
+    throw new ValidationError('targetId', 'Cannot merge a category into itself');
+  }
+
+  return getCategoriesWriteRepository(actorUserId).merge(sourceId, targetId);
+}
 
 /**
  * Fetches subcategories for a specific category.
@@ -220,27 +605,108 @@ export async function getSubcategories(categoryId: string): Promise<Subcategory[
 }
 
 /**
- * Fetches all FAQs ordered by display_order.
+ * Fetches every subcategory, ordered by display_order.
  *
- * @returns Array of FAQs
+ * @returns Array of subcategories across all categories
  *
  * @example
  * ```ts
- * const faqs = await getFaqs();
- * faqs.forEach(faq => {
- *   console.log(faq.question, faq.answer);
- * });
+ * const subcategories = await listSubcategories();
  * ```
  */
-export async function getFaqs(): Promise<FAQ[]> {
-  const supabase = getSupabaseClient();
-  const repo = createFaqsRepository(supabase);
-  const rows = await repo.findAllOrdered();
+export async function listSubcategories(): Promise<Subcategory[]> {
+  const repo = createSubcategoriesRepository(getSupabaseClient());
+  const rows = await repo.findAll({ orderBy: 'display_order', ascending: true });
 
-  return rows.map((row) => ({
-    id: row.id,
-    question: row.question,
-    answer: row.answer,
-    displayOrder: row.display_order ?? 0,
-  }));
+  return rows.map(mapSubcategoryRowToSubcategory);
+}
+
+/**
+ * Creates a subcategory after the category's existing ones.
+ *
+ * @param categoryId - Parent category ID
+ * @param input - Subcategory name and slug
+ * @returns The created subcategory
+ * @throws {ValidationError} If the input is invalid
+ * @throws {ConflictError} If the slug is already taken
+ *
+ * @example
+ * ```ts
+ * await createSubcategory('category-uuid', { name: 'Voice Bots', slug: 'voice-bots' });
+ * ```
+ */
+export async function createSubcategory(
+  categoryId: string,
+  input: SubcategoryInput
+): Promise<Subcategory> {
+  const repo = createSubcategoriesRepository(getSupabaseClient());
+  const siblings = await repo.findByCategory(categoryId);
+
+  const row = await repo.create({
+    category_id: categoryId,
+    name: requireName(input.name),
+    slug: requireSlug(input.slug),
+    display_order: siblings.reduce(
+      (next, sibling) => Math.max(next, (sibling.display_order ?? 0) + 1),
+      0
+    ),
+  });
+
+  return mapSubcategoryRowToSubcategory(row);
+}
+
+/**
+ * Renames a subcategory or changes its slug.
+ *
+ * @param id - Subcategory ID
+ * @param input - Fields to change
+ * @returns The updated subcategory
+ * @throws {ValidationError} If the input is invalid
+ *
+ * @example
+ * ```ts
+ * await updateSubcategory('subcategory-uuid', { name: 'Voice Assistants' });
+ * ```
+ */
+export async function updateSubcategory(
+  id: string,
+  input: Partial<SubcategoryInput>
+): Promise<Subcategory> {
+  const repo = createSubcategoriesRepository(getSupabaseClient());
+  const row = await repo.update(id, {
+    ...(input.name !== undefined && { name: requireName(input.name) }),
+    ...(input.slug !== undefined && { slug: requireSlug(input.slug) }),
+  });
+
+  return mapSubcategoryRowToSubcategory(row);
+}
+
+/**
+ * Deletes a subcategory.
+ *
+ * @param id - Subcategory ID
+ *
+ * @example
+ * ```ts
+ * await deleteSubcategory('subcategory-uuid');
+ * ```
+ */
+export async function deleteSubcategory(id: string): Promise<void> {
+  await createSubcategoriesRepository(getSupabaseClient()).delete(id);
+}
+
+/**
+ * Sets the display order of subcategories to their position in the list.
+ *
+ * @param subcategoryIds - Subcategory IDs in the desired order
+ * @throws {ValidationError} If an ID appears more than once
+ *
+ * @example
+ * ```ts
+ * await reorderSubcategories(['subcategory-b', 'subcategory-a']);
+ * ```
+ */
+export async function reorderSubcategories(subcategoryIds: string[]): Promise<void> {
+  requireUniqueIds(subcategoryIds, 'subcategoryIds');
+  await createSubcategoriesRepository(getSupabaseClient()).reorder(subcategoryIds);
 }
@@ -0,0 +1,374 @@
+/**
+ * Collections service layer for user-curated tool collections.
+ * Owners create and edit collections with their session client, so RLS
+ * limits writes to their own. Shared (public and unlisted) collections are
+ * read with the admin client so their pages, OG images and exports work
+ * for signed-out visitors; private ones are only returned to their owner.
+ *
+ * @module collections.service
+ */
+
+import {
+  createCollectionsRepository,
+  type CollectionWithCount,
+} from '@/lib/db/repositories/collections.repository';
+import {
+  createCollectionItemsRepository,
+  type CollectionItemWithTool,
+} from '@/lib/db/repositories/collection-items.repository';
+import { createToolsRepository } from '@/lib/db/repositories/tools.repository';
+import { mapToolRowToTool } from '@/lib/db/mappers/tool.mapper';
+import { NotFoundError, ValidationError } from '@/lib/db/errors';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { getSessionUser, requireSessionUser, type SessionUser } from '@/lib/services/session.service';
+import {
+  MAX_COLLECTION_ITEMS,
+  isCollectionShared,
+  type Collection,
+  type CollectionChoice,
+  type CollectionItem,
+  type CollectionValues,
+  type CollectionVisibility,
+  type CollectionWithItems,
+} from '@/lib/types/collection';
+
+/** Public collections listed on /collections */
+export const RECENT_PUBLIC_COLLECTIONS = 12;
+
+/**
+ * Maps a database row to a Collection.
+ */
+export function mapCollectionRow(row: CollectionWithCount): Collection {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    description: row.description,
+    visibility: row.visibility as CollectionVisibility,
+    itemCount: row.item_count,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Maps a database entry with its tool to a CollectionItem.
+ */
+export function mapCollectionItemRow(row: CollectionItemWithTool): CollectionItem {
+  const { id, name, slug, shortDescription, websiteUrl, image, pricing } = mapToolRowToTool(row.tool);
+  return {
+    id: row.id,
+    note: row.note,
+    position: row.position,
+    tool: { id, name, slug, shortDescription, websiteUrl, image, pricing },
+  };
+}
+
+/**
+ * Loads a collection's entries and attaches them.
+ */
+async function withItems(
+  supabase: SessionUser['supabase'] | ReturnType<typeof createAdminClient>,
+  row: CollectionWithCount
+): Promise<CollectionWithItems> {
+  const items = await createCollectionItemsRepository(supabase).findByCollectionWithTools(row.id);
+  return { ...mapCollectionRow(row), items: items.map(mapCollectionItemRow) };
+}
+
+/**
+ * Loads one of the signed-in user's collections.
+ */
+async function getOwnCollection(user: SessionUser, id: string): Promise<CollectionWithCount> {
+  const row = await createCollectionsRepository(user.supabase).findWithCount(id);
+  if (!row || row.user_id !== user.id) {
+    throw new NotFoundError('Collection', id);
+  }
+  return row;
+}
+
+/**
+ * Whether a collection ID from a URL is well formed.
+ */
+function isCollectionId(id: string): boolean {
+  return /^[0-9a-f-]{36}$/i.test(id);
+}
+
+/**
+ * Fetches a public or unlisted collection with its tools, without reading
+ * the session. Used by the OG image.
+ *
+ * @param id - Collection ID
+ * @returns The collection, or null if it is unknown, malformed or private
+ */
+export async function getSharedCollection(id: string): Promise<CollectionWithItems | null> {
+  if (!isCollectionId(id)) {
+    return null;
+  }
+  const supabase = createAdminClient();
+  const row = await createCollectionsRepository(supabase).findWithCount(id);
+  if (!row || !isCollectionShared(row.visibility as CollectionVisibility)) {
+    return null;
+  }
+  return withItems(supabase, row);
+}
+
+/**
+ * Fetches a collection with its tools for its page or an export.
+ *
+ * @param id - Collection ID
+ * @returns The collection and whether the signed-in user owns it, or null
+ * if it is unknown, malformed or private to someone else
+ *
+ * @example
+ * ```ts
+ * const view = await getCollection(params.id);
+ * if (!view) notFound();
+ * ```
+ */
+export async function getCollection(
+  id: string
+): Promise<{ collection: CollectionWithItems; isOwner: boolean } | null> {
+  if (!isCollectionId(id)) {
+    return null;
+  }
+  const supabase = createAdminClient();
+  const row = await createCollectionsRepository(supabase).findWithCount(id);
+  if (!row) {
+    return null;
+  }
+
+  const user = await getSessionUser();
+  const isOwner = user?.id === row.user_id;
+  if (!isOwner && !isCollectionShared(row.visibility as CollectionVisibility)) {
+    return null;
+  }
+
+  return { collection: await withItems(supabase, row), isOwner };
+}
+
+/**
+ * Fetches the signed-in user's collections, most recently updated first.
+ *
+ * @returns The collections, or null when signed out
+ */
+export async function listOwnCollections(): Promise<Collection[] | null> {
+  const user = await getSessionUser();
+  if (!user) {
+    return null;
+  }
+  const rows = await createCollectionsRepository(user.supabase).findByUser(user.id);
+  return rows.map(mapCollectionRow);
+}
+
+/**
+ * Fetches the most recently updated public collections.
+ */
+export async function listRecentPublicCollections(): Promise<Collection[]> {
+  const rows = await createCollectionsRepository(createAdminClient()).findRecentPublic(RECENT_PUBLIC_COLLECTIONS);
+  return rows.map(mapCollectionRow);
+}
+
+/**
+ * Fetches the signed-in user's collections for the add-to-collection menu
+ * of a tool, marking those that already hold it.
+ *
+ * @param toolId - Tool the menu was opened for
+ * @throws {AuthenticationError} If no user is signed in
+ */
+export async function listCollectionChoices(toolId: string): Promise<CollectionChoice[]> {
+  const user = await requireSessionUser();
+  const rows = await createCollectionsRepository(user.supabase).findByUser(user.id);
+  const holding = await createCollectionItemsRepository(user.supabase).findCollectionIdsWithTool(
+    rows.map((row) => row.id),
+    toolId
+  );
+
+  return rows.map((row) => ({
+    id: row.id,
+    name: row.name,
+    visibility: row.visibility as CollectionVisibility,
+    itemCount: row.item_count,
+    hasTool: holding.has(row.id),
+  }));
+}
+
+/**
+ * Creates a collection for the signed-in user.
+ *
+ * @param values - Validated collection
+ * @returns The new, empty collection
+ * @throws {AuthenticationError} If no user is signed in
+ *
+ * @example
+ * ```ts
+ * const collection = await createCollection({ name: 'Video pipeline', description: '', visibility: 'unlisted' });
+ * ```
+ */
+export async function createCollection(values: CollectionValues): Promise<Collection> {
+  const user = await requireSessionUser();
+  const row = await createCollectionsRepository(user.supabase).create({
+    user_id: user.id,
+    name: values.name,
+    description: values.description || null,
+    visibility: values.visibility,
+  });
+  return mapCollectionRow({ ...row, item_count: 0 });
+}
+
+/**
+ * Renames a collection, or changes its description or visibility.
+ *
+ * @param id - Collection ID
+ * @param values - Validated collection
+ * @returns The updated collection
+ * @throws {AuthenticationError} If no user is signed in
+ * @throws {NotFoundError} If the user has no collection with this ID
+ */
+export async function updateCollection(id: string, values: CollectionValues): Promise<Collection> {
+  const user = await requireSessionUser();
+  const existing = await getOwnCollection(user, id);
+
+  const row = await createCollectionsRepository(user.supabase).update(id, {
+    name: values.name,
+    description: values.description || null,
+    visibility: values.visibility,
+  });
+  return mapCollectionRow({ ...row, item_count: existing.item_count });
+}
+
+/**
+ * Deletes a collection with its entries.
+ *
+ * @param id - Collection ID
+ * @throws {AuthenticationError} If no user is signed in
+ * @throws {NotFoundError} If the user has no collection with this ID
+ */
+export async function deleteCollection(id: string): Promise<void> {
+  const user = await requireSessionUser();
+  await getOwnCollection(user, id);
+  await createCollectionsRepository(user.supabase).delete(id);
+}
+
+/**
+ * Adds a tool to the end of one of the signed-in user's collections.
+ *
+ * @param collectionId - Collection ID
+ * @param toolId - Tool to add
+ * @param note - Optional note shown with the tool
+ * @returns The collection after the change
+ * @throws {AuthenticationError} If no user is signed in
+ * @throws {NotFoundError} If the collection or tool does not exist
+ * @throws {ValidationError} If the tool is already in the collection or it is full
+ *
+ * @example
+ * ```ts
+ * await addToCollection(collection.id, tool.id, 'Great for cut-downs');
+ * ```
+ */
+export async function addToCollection(collectionId: string, toolId: string, note: string = ''): Promise<Collection> {
+  const user = await requireSessionUser();
+  const collection = await getOwnCollection(user, collectionId);
+
+  const itemsRepo = createCollectionItemsRepository(user.supabase);
+  const entries = await itemsRepo.findEntries(collectionId);
+  // Entries of archived tools are hidden from the owner, so they do not count toward the limit
+  if (entries.filter((entry) => !entry.archived).length >= MAX_COLLECTION_ITEMS) {
+    throw new ValidationError('collectionId', `A collection holds at most ${MAX_COLLECTION_ITEMS} tools`);
+  }
+  const tool = await createToolsRepository(user.supabase).findBy('id', toolId);
+  if (!tool) {
+    throw new NotFoundError('Tool', toolId);
+  }
+  if (entries.some((entry) => entry.tool_id === toolId)) {
+    throw new ValidationError('toolId', `${tool.name} is already in this collection`);
+  }
+
+  // Removals leave gaps, so the entry count is not a free position
+  await itemsRepo.create({
+    collection_id: collectionId,
+    tool_id: toolId,
+    note: note || null,
+    position: Math.max(-1, ...entries.map((entry) => entry.position)) + 1,
+  });
+  return mapCollectionRow({ ...collection, item_count: collection.item_count + 1 });
+}
+
+/**
+ * Removes a tool from one of the signed-in user's collections. Removing a
+ * tool that is not in the collection is a no-op.
+ *
+ * @param collectionId - Collection ID
+ * @param toolId - Tool to remove
+ * @returns The collection after the change
+ * @throws {AuthenticationError} If no user is signed in
+ * @throws {NotFoundError} If the user has no collection with this ID
+ */
+export async function removeFromCollection(collectionId: string, toolId: string): Promise<Collection> {
+  const user = await requireSessionUser();
+  await getOwnCollection(user, collectionId);
+
+  // Looked up among all entries, so those of archived tools can be removed too
+  const itemsRepo = createCollectionItemsRepository(user.supabase);
+  const entry = (await itemsRepo.findEntries(collectionId)).find((item) => item.tool_id === toolId);
+  if (entry) {
+    await itemsRepo.delete(entry.id);
+  }
+
+  const row = await getOwnCollection(user, collectionId);
+  return mapCollectionRow(row);
+}
+
+/**
+ * Changes the note on an entry of one of the signed-in user's collections.
+ *
+ * @param collectionId - Collection ID
+ * @param itemId - Entry ID
+ * @param note - Validated note; blank clears it
+ * @returns The collection with its tools after the change
+ * @throws {AuthenticationError} If no user is signed in
+ * @throws {NotFoundError} If the user has no such collection or entry
+ */
+export async function updateCollectionNote(
+  collectionId: string,
+  itemId: string,
+  note: string
+): Promise<CollectionWithItems> {
+  const user = await requireSessionUser();
+  const collection = await getOwnCollection(user, collectionId);
+
+  const itemsRepo = createCollectionItemsRepository(user.supabase);
+  const item = await itemsRepo.findBy('id', itemId);
+  if (!item || item.collection_id !== collectionId) {
+    throw new NotFoundError('Collection item', itemId);
+  }
+
+  await itemsRepo.update(itemId, { note: note || null });
+  return withItems(user.supabase, collection);
+}
+
+/**
+ * Reorders the tools of one of the signed-in user's collections. Hidden
+ * entries of archived tools keep their relative order after the others.
+ *
+ * @param collectionId - Collection ID
+ * @param itemIds - Every shown entry ID in the new order
+ * @returns The collection with its tools after the change
+ * @throws {AuthenticationError} If no user is signed in
+ * @throws {NotFoundError} If the user has no collection with this ID
+ * @throws {ValidationError} If itemIds is not exactly the collection's entries
+ */
+export async function reorderCollectionItems(collectionId: string, itemIds: string[]): Promise<CollectionWithItems> {
+  const user = await requireSessionUser();
+  const collection = await getOwnCollection(user, collectionId);
+
+  const itemsRepo = createCollectionItemsRepository(user.supabase);
+  const entries = await itemsRepo.findEntries(collectionId);
+  const shown = new Set(entries.filter((entry) => !entry.archived).map((entry) => entry.id));
+  if (itemIds.length !== shown.size || !itemIds.every((id) => shown.has(id))) {
+    throw new ValidationError('itemIds', 'The collection changed in another window; reload and try again');
+  }
+
+  const hidden = entries.filter((entry) => entry.archived).map((entry) => entry.id);
+  await itemsRepo.reorder(collectionId, [...itemIds, ...hidden]);
+  return withItems(user.supabase, collection);
+}
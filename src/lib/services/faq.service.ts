@@ -0,0 +1,210 @@
+/**
+ * FAQ service layer. Every FAQ on the site, from the Free AI Tools and
+ * Midjourney library pages to individual category and tool pages, is read
+ * and edited through this module.
+ *
+ * @module faq.service
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin';
+import { createFaqsRepository, type FaqRow, type FaqUpdate } from '@/lib/db/repositories/faqs.repository';
+import { withResilience } from '@/lib/db/repositories/resilient.repository';
+import { TABLES } from '@/lib/db/constants/tables';
+import { ValidationError } from '@/lib/db/errors';
+import { isFaqScope } from '@/lib/utils/faq';
+import type { FAQ, FaqScope } from '@/lib/types/faq';
+
+/**
+ * Editable fields of an FAQ.
+ */
+export interface FaqInput {
+  question: string;
+  /** Markdown answer */
+  answer: string;
+}
+
+/**
+ * Creates an FAQs repository whose reads are retried on transient failures
+ * and fall back to the last known-good result.
+ */
+function getFaqsRepository() {
+  return withResilience(createFaqsRepository(createAdminClient()), TABLES.FAQS, { cache: true });
+}
+
+/**
+ * Creates an FAQs repository for writes.
+ *
+ * @param actorUserId - Staff user recorded in the audit log
+ */
+function getFaqsWriteRepository(actorUserId?: string) {
+  return createFaqsRepository(createAdminClient({ auditActor: actorUserId }));
+}
+
+/**
+ * Converts a database FAQ row to an FAQ.
+ */
+function mapFaqRow(row: FaqRow): FAQ {
+  return {
+    id: row.id,
+    scope: row.scope as FaqScope,
+    question: row.question,
+    answer: row.answer,
+    displayOrder: row.display_order ?? 0,
+  };
+}
+
+/**
+ * Trims a question and answer and rejects them if blank.
+ */
+function toFaqFields(input: FaqInput): Required<Pick<FaqUpdate, 'question' | 'answer'>> {
+  const question = input.question.trim();
+  const answer = input.answer.trim();
+  if (!question) {
+    throw new ValidationError('question', 'Question is required');
+  }
+  if (!answer) {
+    throw new ValidationError('answer', 'Answer is required');
+  }
+  return { question, answer };
+}
+
+/**
+ * Rejects values that are not a valid FAQ scope.
+ *
+ * @param value - Candidate scope, e.g. from a URL or form
+ * @returns The value as a FaqScope
+ * @throws {ValidationError} If the value is not a valid scope
+ *
+ * @example
+ * ```ts
+ * const scope = parseFaqScope('category:ai-chatbots');
+ * ```
+ */
+export function parseFaqScope(value: string): FaqScope {
+  const scope = value.trim();
+  if (!isFaqScope(scope)) {
+    throw new ValidationError(
+      'scope',
+      'Scope must be free-ai-tools, midjourney-library, category:<slug> or tool:<slug>'
+    );
+  }
+  return scope;
+}
+
+/**
+ * Fetches the FAQs shown on one page, in display order.
+ *
+ * @param scope - Page scope, e.g. 'free-ai-tools' or `tool:${slug}`
+ * @returns FAQs of the scope; empty when it has none
+ *
+ * @example
+ * ```ts
+ * const faqs = await getFaqs(`category:${slug}`);
+ * ```
+ */
+export async function getFaqs(scope: FaqScope): Promise<FAQ[]> {
+  const rows = await getFaqsRepository().findByScope(scope);
+  return rows.map(mapFaqRow);
+}
+
+/**
+ * Lists every scope that currently has FAQs.
+ *
+ * @returns Scopes in alphabetical order
+ *
+ * @example
+ * ```ts
+ * const scopes = await listFaqScopes(); // ['category:ai-chatbots', 'free-ai-tools', ...]
+ * ```
+ */
+export async function listFaqScopes(): Promise<FaqScope[]> {
+  const rows = await getFaqsRepository().findAllOrdered();
+  return [...new Set(rows.map((row) => row.scope as FaqScope))].sort();
+}
+
+/**
+ * Adds an FAQ to the end of a scope's list.
+ *
+ * @param scope - Page the FAQ is shown on
+ * @param input - Question and markdown answer
+ * @param actorUserId - Staff user recorded as the actor in the audit log
+ * @returns The created FAQ
+ * @throws {ValidationError} If the scope is invalid or the question or answer is blank
+ *
+ * @example
+ * ```ts
+ * await createFaq('tool:chatgpt', {
+ *   question: 'Is ChatGPT free?',
+ *   answer: 'Yes, with a **free tier**.',
+ * }, staff.userId);
+ * ```
+ */
+export async function createFaq(scope: string, input: FaqInput, actorUserId?: string): Promise<FAQ> {
+  const validScope = parseFaqScope(scope);
+  const fields = toFaqFields(input);
+  const repo = getFaqsWriteRepository(actorUserId);
+
+  const existing = await repo.findByScope(validScope);
+  const last = existing[existing.length - 1];
+  const row = await repo.create({
+    ...fields,
+    scope: validScope,
+    display_order: (last?.display_order ?? -1) + 1,
+  });
+
+  return mapFaqRow(row);
+}
+
+/**
+ * Updates an FAQ's question and answer.
+ *
+ * @param id - FAQ ID
+ * @param input - New question and markdown answer
+ * @param actorUserId - Staff user recorded as the actor in the audit log
+ * @returns The updated FAQ
+ * @throws {ValidationError} If the question or answer is blank
+ *
+ * @example
+ * ```ts
+ * await updateFaq('faq-uuid', { question: 'Is it free?', answer: 'Yes.' }, staff.userId);
+ * ```
+ */
+export async function updateFaq(id: string, input: FaqInput, actorUserId?: string): Promise<FAQ> {
+  const row = await getFaqsWriteRepository(actorUserId).update(id, toFaqFields(input));
+  return mapFaqRow(row);
+}
+
+/**
+ * Deletes an FAQ.
+ *
+ * @param id - FAQ ID
+ * @param actorUserId - Staff user recorded as the actor in the audit log
+ *
+ * @example
+ * ```ts
+ * await deleteFaq('faq-uuid', staff.userId);
+ * ```
+ */
+export async function deleteFaq(id: string, actorUserId?: string): Promise<void> {
+  await getFaqsWriteRepository(actorUserId).delete(id);
+}
+
+/**
+ * Sets the display order of FAQs to their position in the list.
+ *
+ * @param faqIds - IDs of one scope's FAQs in their new order
+ * @param actorUserId - Staff user recorded as the actor in the audit log
+ * @throws {ValidationError} If an ID appears more than once
+ *
+ * @example
+ * ```ts
+ * await reorderFaqs(['faq-b', 'faq-a'], staff.userId);
+ * ```
+ */
+export async function reorderFaqs(faqIds: string[], actorUserId?: string): Promise<void> {
+  if (new Set(faqIds).size !== faqIds.length) {
+    throw new ValidationError('faqIds', 'Each FAQ may appear only once');
+  }
+
+  await getFaqsWriteRepository(actorUserId).reorder(faqIds);
+}
@@ -0,0 +1,108 @@
+/**
+ * Favorites service layer for tools users save ("bookmark").
+ * Every call runs with the signed-in user's session client, so RLS limits
+ * it to that user's rows. tools.saved_count is maintained by a database
+ * trigger on user_favorites and is only read here.
+ *
+ * @module favorites.service
+ */
+
+import { createUserFavoritesRepository } from '@/lib/db/repositories/user-favorites.repository';
+import { createToolsRepository } from '@/lib/db/repositories/tools.repository';
+import { mapToolRowToTool } from '@/lib/db/mappers/tool.mapper';
+import { NotFoundError } from '@/lib/db/errors';
+import { getSessionUser, requireSessionUser, type SessionUser } from '@/lib/services/session.service';
+import type { Tool } from '@/lib/types/tool';
+
+/**
+ * A tool's saved state for the current user after a change.
+ */
+export interface FavoriteState {
+  toolId: string;
+  saved: boolean;
+  /** Saves across all users, as counted by the database */
+  savedCount: number;
+}
+
+/**
+ * Loads a live tool the user is about to save or unsave.
+ */
+async function getLiveTool(user: SessionUser, toolId: string) {
+  const tool = await createToolsRepository(user.supabase).findBy('id', toolId);
+  if (!tool) {
+    throw new NotFoundError('Tool', toolId);
+  }
+  return tool;
+}
+
+/**
+ * Reads a tool's saved_count after the favorites trigger has updated it.
+ */
+async function getSavedCount(user: SessionUser, toolId: string): Promise<number> {
+  const tool = await createToolsRepository(user.supabase).findBy('id', toolId);
+  return tool?.saved_count ?? 0;
+}
+
+/**
+ * Fetches the IDs of the tools the signed-in user saved.
+ *
+ * @returns Tool IDs; empty when signed out
+ */
+export async function getFavoriteToolIds(): Promise<string[]> {
+  const user = await getSessionUser();
+  if (!user) {
+    return [];
+  }
+  return createUserFavoritesRepository(user.supabase).findToolIdsByUser(user.email);
+}
+
+/**
+ * Fetches the tools the signed-in user saved, most recently saved first.
+ * Archived tools are left out.
+ *
+ * @returns Saved tools
+ * @throws {AuthenticationError} If no user is signed in
+ */
+export async function listFavorites(): Promise<Tool[]> {
+  const user = await requireSessionUser();
+  const favorites = await createUserFavoritesRepository(user.supabase).findWithToolsByUser(user.email);
+  return favorites.map((favorite) => mapToolRowToTool(favorite.tool));
+}
+
+/**
+ * Saves a tool for the signed-in user. Saving a tool twice is a no-op.
+ *
+ * @param toolId - Tool to save
+ * @returns The tool's saved state with the updated count
+ * @throws {AuthenticationError} If no user is signed in
+ * @throws {NotFoundError} If the tool does not exist or is archived
+ *
+ * @example
+ * ```ts
+ * const { savedCount } = await addFavorite('tool-uuid');
+ * ```
+ */
+export async function addFavorite(toolId: string): Promise<FavoriteState> {
+  const user = await requireSessionUser();
+  const tool = await getLiveTool(user, toolId);
+
+  await createUserFavoritesRepository(user.supabase).add(user.email, tool.id, tool.name);
+
+  return { toolId, saved: true, savedCount: await getSavedCount(user, toolId) };
+}
+
+/**
+ * Removes a tool from the signed-in user's saves. Removing a tool that was
+ * not saved is a no-op.
+ *
+ * @param toolId - Tool to unsave
+ * @returns The tool's saved state with the updated count
+ * @throws {AuthenticationError} If no user is signed in
+ */
+export async function removeFavorite(toolId: string): Promise<FavoriteState> {
+  const user = await requireSessionUser();
+
+  await createUserFavoritesRepository(user.supabase).remove(user.email, toolId);
+
+  return { toolId, saved: false, savedCount: await getSavedCount(user, toolId) };
+}
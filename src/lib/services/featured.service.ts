@@ -0,0 +1,381 @@
+/**
+ * Featured tools service layer for curating the featured slots shown on the
+ * homepage and the Free AI Tools panel.
+ *
+ * @module featured.service
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin';
+import {
+  createFeaturedToolsRepository,
+  type FeaturedToolUpdate,
+  type FeaturedToolWithTool,
+} from '@/lib/db/repositories/featured-tools.repository';
+import { withResilience } from '@/lib/db/repositories/resilient.repository';
+import { mapToolRowToTool } from '@/lib/db/mappers/tool.mapper';
+import { TABLES } from '@/lib/db/constants/tables';
+import { ValidationError } from '@/lib/db/errors';
+import type { Tool } from '@/lib/types/tool';
+import type { FeaturedTool as HomeFeaturedTool } from '@/lib/types/home.types';
+import type { FeaturedTool as PanelFeaturedTool } from '@/lib/types/free-ai-tools';
+
+/**
+ * Where a featured slot is in its schedule.
+ * - scheduled: starts in the future
+ * - active: currently shown
+ * - ended: its end date has passed
+ */
+export type FeaturedSlotStatus = 'scheduled' | 'active' | 'ended';
+
+/**
+ * A featured slot with its tool, as listed on the admin Featured page.
+ */
+export interface FeaturedSlot {
+  id: string;
+  tool: Tool;
+  displayOrder: number;
+  /** ISO date the slot starts showing, or null to show it immediately */
+  startsAt: string | null;
+  /** ISO date the slot stops showing, or null to show it until removed */
+  endsAt: string | null;
+  status: FeaturedSlotStatus;
+}
+
+/**
+ * Start and end of a featured slot. Empty strings and null clear a bound.
+ */
+export interface FeaturedScheduleInput {
+  startsAt?: string | null;
+  endsAt?: string | null;
+}
+
+/** Icon backgrounds for homepage cards, cycled by position */
+const ICON_BG_COLORS = ['#E8F5E9', '#FFF3E0', '#E3F2FD', '#F3E5F5', '#FCE4EC', '#E0F7FA', '#FFF8E1', '#E8EAF6'];
+
+/**
+ * Creates a featured tools repository whose reads are retried on transient
+ * failures and fall back to the last known-good result.
+ */
+function getFeaturedToolsRepository() {
+  return withResilience(createFeaturedToolsRepository(createAdminClient()), TABLES.FEATURED_TOOLS, {
+    cache: true,
+  });
+}
+
+/**
+ * Creates a featured tools repository for writes.
+ *
+ * @param actorUserId - Staff user recorded in the audit log
+ */
+function getFeaturedToolsWriteRepository(actorUserId?: string) {
+  return createFeaturedToolsRepository(createAdminClient({ auditActor: actorUserId }));
+}
+
+/**
+ * Works out whether a slot is scheduled, active or ended at a given moment.
+ * The start is inclusive and the end exclusive, matching findActiveWithTools.
+ *
+ * @param slot - Start and end of the slot as ISO dates, null when open
+ * @param now - Moment to evaluate (default: current time)
+ * @returns The slot's status
+ *
+ * @example
+ * ```ts
+ * getFeaturedSlotStatus({ startsAt: '2030-01-01T00:00:00Z', endsAt: null }); // 'scheduled'
+ * ```
+ */
+export function getFeaturedSlotStatus(
+  slot: { startsAt: string | null; endsAt: string | null },
+  now: Date = new Date()
+): FeaturedSlotStatus {
+  if (slot.startsAt && new Date(slot.startsAt).getTime() > now.getTime()) {
+    return 'scheduled';
+  }
+  if (slot.endsAt && new Date(slot.endsAt).getTime() <= now.getTime()) {
+    return 'ended';
+  }
+  return 'active';
+}
+
+/**
+ * Validates a slot schedule and converts it to database columns.
+ * Only the bounds present in the input are included.
+ *
+ * @param input - Start and end dates in any format Date can parse
+ * @returns starts_at and ends_at as ISO strings or null
+ * @throws {ValidationError} If a date is invalid or the end is not after the start
+ *
+ * @example
+ * ```ts
+ * toFeaturedSchedule({ startsAt: '2026-11-01', endsAt: '' });
+ * // { starts_at: '2026-11-01T00:00:00.000Z', ends_at: null }
+ * ```
+ */
+export function toFeaturedSchedule(input: FeaturedScheduleInput): Pick<FeaturedToolUpdate, 'starts_at' | 'ends_at'> {
+  const fields: Pick<FeaturedToolUpdate, 'starts_at' | 'ends_at'> = {};
+
+  for (const [key, column] of [['startsAt', 'starts_at'], ['endsAt', 'ends_at']] as const) {
+    const value = input[key];
+    if (value === undefined) {
+      continue;
+    }
+    if (value === null || value.trim() === '') {
+      fields[column] = null;
+      continue;
+    }
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      throw new ValidationError(key, 'Invalid date');
+    }
+    fields[column] = date.toISOString();
+  }
+
+  if (fields.starts_at && fields.ends_at && fields.ends_at <= fields.starts_at) {
+    throw new ValidationError('endsAt', 'End date must be after the start date');
+  }
+
+  return fields;
+}
+
+/**
+ * Converts a featured row with its joined tool to a FeaturedSlot.
+ */
+function toFeaturedSlot(row: FeaturedToolWithTool, now: Date): FeaturedSlot {
+  const startsAt = row.starts_at ?? null;
+  const endsAt = row.ends_at ?? null;
+  return {
+    id: row.id,
+    tool: mapToolRowToTool(row.tool),
+    displayOrder: row.display_order ?? 0,
+    startsAt,
+    endsAt,
+    status: getFeaturedSlotStatus({ startsAt, endsAt }, now),
+  };
+}
+
+/**
+ * Favicon URL for a tool's website, used as its homepage card icon.
+ */
+function faviconUrl(websiteUrl: string): string {
+  try {
+    return `https://www.google.com/s2/favicons?domain=${new URL(websiteUrl).hostname}&sz=64`;
+  } catch {
+    return `https://www.google.com/s2/favicons?domain=${encodeURIComponent(websiteUrl)}&sz=64`;
+  }
+}
+
+/**
+ * Converts a tool to the card shape used by the homepage grid.
+ *
+ * @param tool - Featured tool
+ * @param index - Position in the featured list, used to pick the icon background
+ */
+export function toHomeFeaturedTool(tool: Tool, index: number): HomeFeaturedTool {
+  return {
+    id: tool.id,
+    name: tool.name,
+    icon: faviconUrl(tool.websiteUrl),
+    iconBgColor: ICON_BG_COLORS[index % ICON_BG_COLORS.length],
+    description: tool.shortDescription || tool.description,
+    isFree: tool.pricing === 'Free' || tool.pricing === 'Freemium',
+    slug: tool.slug,
+    websiteUrl: tool.websiteUrl,
+  };
+}
+
+/**
+ * Converts a tool to the card shape used by the Free AI Tools featured panel.
+ * Free tools get the "Free" badge and new tools the "New" badge.
+ *
+ * @param tool - Featured tool
+ * @param index - Position in the featured list
+ */
+export function toPanelFeaturedTool(tool: Tool, index: number): PanelFeaturedTool {
+  return {
+    id: tool.id,
+    name: tool.name,
+    slug: tool.slug,
+    imageUrl: tool.image,
+    description: tool.shortDescription || tool.description,
+    badge: tool.pricing === 'Free' ? 'Free' : tool.isNew ? 'New' : null,
+    displayOrder: index,
+  };
+}
+
+/**
+ * Fetches every featured slot, including scheduled and ended ones, in display order.
+ * Slots whose tool is archived are left out.
+ *
+ * @returns Featured slots with their tools and schedule status
+ *
+ * @example
+ * ```ts
+ * const slots = await listFeaturedSlots();
+ * const upcoming = slots.filter((slot) => slot.status === 'scheduled');
+ * ```
+ */
+export async function listFeaturedSlots(): Promise<FeaturedSlot[]> {
+  const rows = await getFeaturedToolsRepository().findAllWithTools();
+  const now = new Date();
+  return rows.map((row) => toFeaturedSlot(row, now));
+}
+
+/**
+ * Fetches the tools whose featured slot is currently active, in display order.
+ *
+ * @param limit - Maximum number of tools to return (default: all)
+ * @returns Active featured tools
+ *
+ * @example
+ * ```ts
+ * const tools = await getActiveFeaturedTools(8);
+ * ```
+ */
+export async function getActiveFeaturedTools(limit?: number): Promise<Tool[]> {
+  const rows = await getFeaturedToolsRepository().findActiveWithTools();
+  const tools = rows.map((row) => mapToolRowToTool(row.tool));
+  return limit === undefined ? tools : tools.slice(0, limit);
+}
+
+/**
+ * Fetches the active featured tools as homepage grid cards.
+ *
+ * @returns Cards for ToolCardsGrid
+ */
+export async function getHomeFeaturedTools(): Promise<HomeFeaturedTool[]> {
+  const tools = await getActiveFeaturedTools();
+  return tools.map(toHomeFeaturedTool);
+}
+
+/**
+ * Fetches the active featured tools as Free AI Tools panel cards.
+ *
+ * @returns Cards for FeaturedToolsPanel
+ */
+export async function getFeaturedPanelTools(): Promise<PanelFeaturedTool[]> {
+  const tools = await getActiveFeaturedTools();
+  return tools.map(toPanelFeaturedTool);
+}
+
+/**
+ * Features a tool in a new slot at the end of the list, shown immediately
+ * and until removed.
+ *
+ * @param toolId - Tool to feature
+ * @param actorUserId - Staff user recorded as the actor in the audit log
+ * @returns ID of the new slot
+ * @throws {ConflictError} If the tool is already featured
+ * @throws {ForeignKeyError} If no tool has this ID
+ *
+ * @example
+ * ```ts
+ * await addFeaturedTool('tool-uuid', staff.userId);
+ * ```
+ */
+export async function addFeaturedTool(toolId: string, actorUserId?: string): Promise<string> {
+  const repo = getFeaturedToolsWriteRepository(actorUserId);
+
+  const [last] = await repo.findAll({ orderBy: 'display_order', ascending: false, limit: 1 });
+  const row = await repo.create({
+    tool_id: toolId,
+    display_order: (last?.display_order ?? -1) + 1,
+  });
+
+  return row.id;
+}
+
+/**
+ * Features many tools in new slots after the current last one, in the order
+ * given, shown immediately and until removed. Tools that are archived or
+ * already featured are skipped.
+ *
+ * @param toolIds - Tools to feature
+ * @param actorUserId - Staff user recorded as the actor in the audit log
+ * @returns Number of slots added
+ *
+ * @example
+ * ```ts
+ * const added = await addFeaturedTools(['tool-a', 'tool-b'], staff.userId);
+ * ```
+ */
+export async function addFeaturedTools(toolIds: string[], actorUserId?: string): Promise<number> {
+  const repo = getFeaturedToolsWriteRepository(actorUserId);
+
+  const [last] = await repo.findAll({ orderBy: 'display_order', ascending: false, limit: 1 });
+  return repo.addMany(toolIds, (last?.display_order ?? -1) + 1);
+}
+
+/**
+ * Removes a featured slot. The tool itself is unchanged.
+ *
+ * @param slotId - Featured slot ID
+ * @param actorUserId - Staff user recorded as the actor in the audit log
+ *
+ * @example
+ * ```ts
+ * await removeFeaturedTool('slot-uuid', staff.userId);
+ * ```
+ */
+export async function removeFeaturedTool(slotId: string, actorUserId?: string): Promise<void> {
+  await getFeaturedToolsWriteRepository(actorUserId).delete(slotId);
+}
+
+/**
+ * Removes the featured slots of many tools. The tools themselves are unchanged.
+ *
+ * @param toolIds - Tools to stop featuring
+ * @param actorUserId - Staff user recorded as the actor in the audit log
+ * @returns Number of slots removed
+ *
+ * @example
+ * ```ts
+ * const removed = await removeFeaturedTools(['tool-a', 'tool-b'], staff.userId);
+ * ```
+ */
+export async function removeFeaturedTools(toolIds: string[], actorUserId?: string): Promise<number> {
+  return getFeaturedToolsWriteRepository(actorUserId).removeByToolIds(toolIds);
+}
+
+/**
+ * Sets the display order of featured tools to their position in the list.
+ *
+ * @param toolIds - IDs of the featured tools in their new order
+ * @param actorUserId - Staff user recorded as the actor in the audit log
+ * @throws {ValidationError} If an ID appears more than once
+ *
+ * @example
+ * ```ts
+ * await reorderFeaturedTools(['tool-b', 'tool-a'], staff.userId);
+ * ```
+ */
+export async function reorderFeaturedTools(toolIds: string[], actorUserId?: string): Promise<void> {
+  if (new Set(toolIds).size !== toolIds.length) {
+    throw new ValidationError('toolIds', 'Each tool may appear only once');
+  }
+
+  await getFeaturedToolsWriteRepository(actorUserId).reorder(toolIds);
+}
+
+/**
+ * Sets when a featured slot starts and stops showing.
+ *
+ * @param slotId - Featured slot ID
+ * @param schedule - New start and end; empty values leave that side open
+ * @param actorUserId - Staff user recorded as the actor in the audit log
+ * @throws {ValidationError} If a date is invalid or the end is not after the start
+ *
+ * @example
+ * ```ts
+ * await scheduleFeaturedTool('slot-uuid', {
+ *   startsAt: '2026-11-01T00:00:00Z',
+ *   endsAt: '2026-12-01T00:00:00Z',
+ * }, staff.userId);
+ * ```
+ */
+export async function scheduleFeaturedTool(
+  slotId: string,
+  schedule: FeaturedScheduleInput,
+  actorUserId?: string
+): Promise<void> {
+  await getFeaturedToolsWriteRepository(actorUserId).update(slotId, toFeaturedSchedule(schedule));
+}
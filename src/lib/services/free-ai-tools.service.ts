@@ -8,15 +8,11 @@
 import {
   type Category,
   type CategoryListItem,
-  type FeaturedTool,
-  type FAQItem,
   type Tool,
   type Subcategory,
   type CategoryRef,
   CategorySchema,
   CategoriesListSchema,
-  FeaturedToolsListSchema,
-  FAQListSchema,
 } from '@/lib/types/free-ai-tools';
 
 // =============================================================================
@@ -75,7 +71,7 @@ interface CacheEntry<T> {
 /**
  * Free AI Tools Data Service
  * 
- * Provides methods to access categories, tools, and featured tools data
+ * Provides methods to access categories and tools data
  * with in-memory caching (1-hour TTL per Requirement 7.4).
  */
 class FreeAIToolsService {
@@ -294,68 +290,6 @@ class FreeAIToolsService {
     return category.subcategories;
   }
 
-  /**
-   * Get featured tools for main page
-   * Requirement 7.3: Return curated featured tools list
-   */
-  async getFeaturedTools(): Promise<FeaturedTool[]> {
-    const cacheKey = 'featured-tools';
-    const cached = this.getCached<FeaturedTool[]>(cacheKey);
-    if (cached) return cached;
-
-    try {
-      const data = await import('@/data/free-ai-tools/featured-tools.json');
-      const validated = FeaturedToolsListSchema.parse(data.default);
-      // Sort by displayOrder
-      const sorted = validated.sort((a, b) => a.displayOrder - b.displayOrder);
-      this.setCache(cacheKey, sorted);
-      return sorted;
-    } catch (error) {
-      if (error instanceof Error && error.message.includes('Cannot find module')) {
-        throw new FreeAIToolsError(
-          'Featured tools data file not found',
-          'NOT_FOUND',
-          false
-        );
-      }
-      throw new FreeAIToolsError(
-        `Failed to parse featured tools data: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        'PARSE_ERROR',
-        false
-      );
-    }
-  }
-
-  /**
-   * Get FAQ items for main page
-   */
-  async getFAQItems(): Promise<FAQItem[]> {
-    const cacheKey = 'faq';
-    const cached = this.getCached<FAQItem[]>(cacheKey);
-    if (cached) return cached;
-
-    try {
-      const data = await import('@/data/free-ai-tools/faq.json');
-      const validated = FAQListSchema.parse(data.default);
-      this.setCache(cacheKey, validated);
-      return validated;
-    } catch (error) {
-      if (error instanceof Error && error.message.includes('Cannot find module')) {
-        throw new FreeAIToolsError(
-          'FAQ data file not found',
-          'NOT_FOUND',
-          false
-        );
-      }
-      throw new FreeAIToolsError(
-        `Failed to parse FAQ data: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        'PARSE_ERROR',
-        false
-      );
-    }
-  }
-
-
   // ===========================================================================
   // Search Functionality (Requirement 12.2)
   // ===========================================================================
@@ -11,6 +11,7 @@
  * import {
  *   // Tools service
  *   getTools,
+ *   searchTools,
  *   getToolBySlug,
  *   getFeaturedTools,
  *   createTool,
@@ -22,7 +23,6 @@
  *   getCategoryBySlug,
  *   getCategoryGroups,
  *   getSubcategories,
- *   getFaqs,
  * } from '@/lib/services';
  * ```
  */
@@ -30,11 +30,19 @@
 // Tools service exports
 export {
   getTools,
+  queryTools,
+  listAllTools,
+  searchTools,
   getToolBySlug,
   getFeaturedTools,
   createTool,
   updateTool,
   deleteTool,
+  restoreTool,
+  purgeArchivedTools,
+  ARCHIVE_RETENTION_DAYS,
+  getToolRevisions,
+  revertToolRevision,
   type GetToolsOptions,
   type CreateToolInput,
 } from './tools.service';
@@ -44,9 +52,27 @@ export {
   getCategories,
   getCategoryBySlug,
   getCategoryGroups,
+  listCategoryGroups,
+  createCategoryGroup,
+  updateCategoryGroup,
+  deleteCategoryGroup,
+  reorderCategoryGroups,
+  assignCategoryToGroup,
+  createCategory,
+  updateCategory,
+  deleteCategory,
+  reorderCategories,
+  mergeCategories,
   getSubcategories,
-  getFaqs,
+  listSubcategories,
+  createSubcategory,
+  updateSubcategory,
+  deleteSubcategory,
+  reorderSubcategories,
   type GetCategoriesOptions,
+  type CategoryGroupSummary,
+  type CategoryGroupInput,
+  type CategoryInput,
+  type SubcategoryInput,
   type Subcategory,
-  type FAQ,
 } from './categories.service';
@@ -0,0 +1,210 @@
+/**
+ * Moderation service layer for reported reviews.
+ * Staff work the /admin/moderation queue: hiding a review resolves its open
+ * reports, restoring one dismisses them, and banning the author hides all
+ * of their public reviews and stops them reviewing, voting and reporting.
+ * Hidden reviews drop out of the tool's review_score by database trigger.
+ *
+ * @module moderation.service
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin';
+import { createReviewsRepository } from '@/lib/db/repositories/reviews.repository';
+import { createReviewReportsRepository } from '@/lib/db/repositories/review-reports.repository';
+import { createUserBansRepository } from '@/lib/db/repositories/user-bans.repository';
+import { createToolsRepository } from '@/lib/db/repositories/tools.repository';
+import type { Page } from '@/lib/db/repositories/base.repository';
+import { NotFoundError, ValidationError } from '@/lib/db/errors';
+import { mapReviewRow } from '@/lib/services/reviews.service';
+import {
+  MODERATION_QUEUES,
+  type ModeratedReview,
+  type ModerationQueue,
+  type ReportReason,
+  type ReviewReport,
+} from '@/lib/types/review';
+
+/** Reviews per page of the moderation queue */
+export const MODERATION_PAGE_SIZE = 20;
+
+/**
+ * Gets a reviews repository for moderation reads.
+ */
+function getReviewsRepository() {
+  return createReviewsRepository(createAdminClient());
+}
+
+/**
+ * Fetches one page of the moderation queue with each review's open reports
+ * and whether its author is banned.
+ *
+ * @param queue - 'reported' for public reviews with open reports, most reported
+ * first; 'hidden' for hidden reviews, most recently hidden first
+ * @param after - Cursor of the previous page, or null for the first page
+ * @returns The page of reviews with the total in the queue
+ */
+export async function listModerationQueue(
+  queue: ModerationQueue,
+  after: string | null = null
+): Promise<Page<ModeratedReview>> {
+  const supabase = createAdminClient();
+  const page = await getReviewsRepository().findModerationPage(queue, {
+    after,
+    limit: MODERATION_PAGE_SIZE,
+  });
+
+  const [reports, bannedUserIds] = await Promise.all([
+    createReviewReportsRepository(supabase).findOpenByReviews(page.items.map((row) => row.id)),
+    createUserBansRepository(supabase).findBannedUserIds([...new Set(page.items.map((row) => row.user_id))]),
+  ]);
+
+  const reportsByReview = new Map<string, ReviewReport[]>();
+  for (const report of reports) {
+    const list = reportsByReview.get(report.review_id) ?? [];
+    list.push({
+      id: report.id,
+      reason: report.reason as ReportReason,
+      details: report.details,
+      createdAt: report.created_at,
+    });
+    reportsByReview.set(report.review_id, list);
+  }
+
+  return {
+    ...page,
+    items: page.items.map((row) => ({
+      ...mapReviewRow(row),
+      userId: row.user_id,
+      tool: row.tool,
+      reportCount: row.report_count ?? 0,
+      hiddenAt: row.hidden_at,
+      hiddenReason: row.hidden_reason,
+      reports: reportsByReview.get(row.id) ?? [],
+      authorBanned: bannedUserIds.has(row.user_id),
+    })),
+  };
+}
+
+/**
+ * Counts reviews in every moderation queue, for the queue tabs.
+ */
+export async function getModerationCounts(): Promise<Record<ModerationQueue, number>> {
+  const repo = getReviewsRepository();
+  const counts = await Promise.all(MODERATION_QUEUES.map((queue) => repo.countModerationQueue(queue)));
+  return Object.fromEntries(MODERATION_QUEUES.map((queue, index) => [queue, counts[index]])) as Record<
+    ModerationQueue,
+    number
+  >;
+}
+
+/**
+ * Loads a review for a moderation decision with the slug of its tool.
+ */
+async function getReview(id: string) {
+  const review = await getReviewsRepository().findBy('id', id);
+  if (!review) {
+    throw new NotFoundError('Review', id);
+  }
+  const tool = await createToolsRepository(createAdminClient()).findBy('id', review.tool_id);
+  return { review, toolSlug: tool?.slug ?? null };
+}
+
+/**
+ * Hides a review from the tool page and its rating, resolving its open reports.
+ *
+ * @param id - Review ID
+ * @param reason - Why the review was hidden; shown in the hidden queue
+ * @param actorUserId - Staff user recorded as the moderator and in the audit log
+ * @returns The slug of the reviewed tool, or null if it no longer exists
+ * @throws {NotFoundError} If no review has this ID
+ * @throws {ValidationError} If the reason is blank
+ *
+ * @example
+ * ```ts
+ * const { toolSlug } = await hideReview('review-uuid', 'Spam link', staff.userId);
+ * ```
+ */
+export async function hideReview(id: string, reason: string, actorUserId: string): Promise<{ toolSlug: string | null }> {
+  if (!reason.trim()) {
+    throw new ValidationError('reason', 'A reason is required to hide a review');
+  }
+  const { toolSlug } = await getReview(id);
+  const supabase = createAdminClient({ auditActor: actorUserId });
+
+  await createReviewsRepository(supabase).setHidden([id], { hiddenBy: actorUserId, reason: reason.trim() });
+  await createReviewReportsRepository(supabase).closeOpenByReviews([id], 'resolved', actorUserId);
+
+  return { toolSlug };
+}
+
+/**
+ * Shows a hidden review again, or keeps a reported one, dismissing its open
+ * reports.
+ *
+ * @param id - Review ID
+ * @param actorUserId - Staff user recorded as the moderator and in the audit log
+ * @returns The slug of the reviewed tool, or null if it no longer exists
+ * @throws {NotFoundError} If no review has this ID
+ */
+export async function restoreReview(id: string, actorUserId: string): Promise<{ toolSlug: string | null }> {
+  const { review, toolSlug } = await getReview(id);
+  const supabase = createAdminClient({ auditActor: actorUserId });
+
+  if (review.hidden_at) {
+    await createReviewsRepository(supabase).setHidden([id], null);
+  }
+  await createReviewReportsRepository(supabase).closeOpenByReviews([id], 'dismissed', actorUserId);
+
+  return { toolSlug };
+}
+
+/**
+ * Bans the author of a review: they can no longer review, vote or report,
+ * and all of their public reviews are hidden with their reports resolved.
+ * Banning an author who is already banned updates the reason.
+ *
+ * @param reviewId - A review by the author to ban
+ * @param reason - Why the author was banned
+ * @param actorUserId - Staff user recorded as the moderator and in the audit log
+ * @returns The slugs of the tools whose reviews were hidden
+ * @throws {NotFoundError} If no review has this ID
+ * @throws {ValidationError} If the reason is blank or staff ban themselves
+ *
+ * @example
+ * ```ts
+ * const { toolSlugs } = await banReviewAuthor('review-uuid', 'Repeated spam', staff.userId);
+ * ```
+ */
+export async function banReviewAuthor(
+  reviewId: string,
+  reason: string,
+  actorUserId: string
+): Promise<{ toolSlugs: string[] }> {
+  if (!reason.trim()) {
+    throw new ValidationError('reason', 'A reason is required to ban a user');
+  }
+  const { review } = await getReview(reviewId);
+  if (review.user_id === actorUserId) {
+    throw new ValidationError('reason', 'You cannot ban yourself');
+  }
+
+  const supabase = createAdminClient({ auditActor: actorUserId });
+  const reviewsRepo = createReviewsRepository(supabase);
+
+  await createUserBansRepository(supabase).upsert(
+    { user_id: review.user_id, reason: reason.trim(), banned_by: actorUserId },
+    'user_id'
+  );
+
+  const visible = await reviewsRepo.findVisibleByUser(review.user_id);
+  const reviewIds = visible.map((row) => row.id);
+  await reviewsRepo.setHidden(reviewIds, { hiddenBy: actorUserId, reason: `Author banned: ${reason.trim()}` });
+  // Reports on the author's already hidden reviews are settled too
+  await createReviewReportsRepository(supabase).closeOpenByReviews(
+    [...new Set([...reviewIds, reviewId])],
+    'resolved',
+    actorUserId
+  );
+
+  return { toolSlugs: [...new Set(visible.flatMap((row) => (row.tool ? [row.tool.slug] : [])))] };
+}
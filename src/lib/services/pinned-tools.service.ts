@@ -0,0 +1,185 @@
+/**
+ * Pinned tools service layer for the home page "My Tools" dock.
+ * Signed-in users' docks live in user_pinned_tools and every call runs with
+ * their session client. Anonymous docks are kept in the browser and handed
+ * to mergePinnedTools once the visitor signs in.
+ *
+ * @module pinned-tools.service
+ */
+
+import {
+  createUserPinnedToolsRepository,
+  type UserPinnedToolInsert,
+  type UserPinnedToolWithTool,
+} from '@/lib/db/repositories/user-pinned-tools.repository';
+import { createToolsRepository } from '@/lib/db/repositories/tools.repository';
+import { NotFoundError, ValidationError } from '@/lib/db/errors';
+import { getSessionUser, requireSessionUser, type SessionUser } from '@/lib/services/session.service';
+import {
+  DEFAULT_PIN_COLOR,
+  MAX_PINNED_TOOLS,
+  selectPinsToMerge,
+  toPinInput,
+  toToolDockItem,
+  type PinToolInput,
+} from '@/lib/types/my-tools';
+import { FALLBACK_ICON_URL } from '@/lib/constants/home.constants';
+import type { MyTool } from '@/lib/types/home.types';
+
+/**
+ * Converts a pin to the dock item MyToolsSection renders.
+ */
+export function mapPinnedToolRow(row: UserPinnedToolWithTool): MyTool {
+  if (row.tool) {
+    const { id, name, slug, website_url } = row.tool;
+    return { ...toToolDockItem({ id, name, slug, websiteUrl: website_url }, row.color), id: row.id };
+  }
+  return {
+    id: row.id,
+    name: row.name ?? '',
+    icon: row.icon_url ?? FALLBACK_ICON_URL,
+    url: row.url ?? '/',
+    color: row.color,
+  };
+}
+
+/**
+ * Loads a user's dock in order.
+ */
+async function loadDock(user: SessionUser): Promise<MyTool[]> {
+  const rows = await createUserPinnedToolsRepository(user.supabase).findByUserWithTools(user.id);
+  return rows.map(mapPinnedToolRow);
+}
+
+/**
+ * Builds the rows for new pins, placed after the existing ones. Every row
+ * sets the same columns so they can be inserted in one statement.
+ */
+async function toPinRows(user: SessionUser, pins: PinToolInput[], firstOrder: number): Promise<UserPinnedToolInsert[]> {
+  const toolIds = pins.flatMap((pin) => (pin.kind === 'tool' ? [pin.toolId] : []));
+  const toolsRepo = createToolsRepository(user.supabase);
+  const liveTools = await Promise.all(toolIds.map((id) => toolsRepo.findBy('id', id)));
+  const missing = toolIds.find((id, index) => !liveTools[index]);
+  if (missing) {
+    throw new NotFoundError('Tool', missing);
+  }
+
+  return pins.map((pin, index) => ({
+    user_id: user.id,
+    tool_id: pin.kind === 'tool' ? pin.toolId : null,
+    name: pin.kind === 'link' ? pin.name : null,
+    url: pin.kind === 'link' ? pin.url : null,
+    icon_url: pin.kind === 'link' ? pin.icon : null,
+    color: pin.color ?? DEFAULT_PIN_COLOR,
+    display_order: firstOrder + index,
+  }));
+}
+
+/**
+ * Fetches the signed-in user's dock.
+ *
+ * @returns Dock items in order, or null when signed out so the caller can
+ * fall back to the browser's dock
+ */
+export async function getPinnedTools(): Promise<MyTool[] | null> {
+  const user = await getSessionUser();
+  return user ? loadDock(user) : null;
+}
+
+/**
+ * Pins a tool or custom link to the end of the signed-in user's dock.
+ *
+ * @param pin - Validated pin
+ * @returns The dock after the change
+ * @throws {AuthenticationError} If no user is signed in
+ * @throws {ValidationError} If the dock is full or the tool is already pinned
+ * @throws {NotFoundError} If the tool does not exist or is archived
+ *
+ * @example
+ * ```ts
+ * const dock = await pinTool({ kind: 'tool', toolId: 'tool-uuid' });
+ * ```
+ */
+export async function pinTool(pin: PinToolInput): Promise<MyTool[]> {
+  const user = await requireSessionUser();
+  const dock = await loadDock(user);
+
+  if (dock.length >= MAX_PINNED_TOOLS) {
+    throw new ValidationError('pin', `My Tools holds at most ${MAX_PINNED_TOOLS} items`);
+  }
+  if (pin.kind === 'tool' && dock.some((item) => item.toolId === pin.toolId)) {
+    throw new ValidationError('toolId', 'This tool is already in My Tools');
+  }
+
+  const rows = await toPinRows(user, [pin], dock.length);
+  await createUserPinnedToolsRepository(user.supabase).insertMany(rows);
+
+  return loadDock(user);
+}
+
+/**
+ * Removes an item from the signed-in user's dock.
+ *
+ * @param pinId - Dock item ID
+ * @returns The dock after the change
+ * @throws {AuthenticationError} If no user is signed in
+ */
+export async function unpinTool(pinId: string): Promise<MyTool[]> {
+  const user = await requireSessionUser();
+  await createUserPinnedToolsRepository(user.supabase).delete(pinId);
+  return loadDock(user);
+}
+
+/**
+ * Reorders the signed-in user's dock.
+ *
+ * @param pinIds - Every dock item ID in the new order
+ * @returns The dock after the change
+ * @throws {AuthenticationError} If no user is signed in
+ * @throws {ValidationError} If pinIds is not exactly the user's dock items
+ */
+export async function reorderPinnedTools(pinIds: string[]): Promise<MyTool[]> {
+  const user = await requireSessionUser();
+  const dock = await loadDock(user);
+
+  const current = new Set(dock.map((item) => item.id));
+  if (pinIds.length !== current.size || !pinIds.every((id) => current.has(id))) {
+    throw new ValidationError('pinIds', 'My Tools changed in another window; reload and try again');
+  }
+
+  await createUserPinnedToolsRepository(user.supabase).reorder(user.id, pinIds);
+  return loadDock(user);
+}
+
+/**
+ * Adds an anonymous visitor's dock to their account after they sign in.
+ * Items already pinned are skipped and the dock's capacity is respected.
+ *
+ * @param items - Dock kept in the browser before signing in
+ * @returns The account's dock after the merge
+ * @throws {AuthenticationError} If no user is signed in
+ *
+ * @example
+ * ```ts
+ * const dock = await mergePinnedTools(JSON.parse(localStorage.getItem(MY_TOOLS_STORAGE_KEY)));
+ * ```
+ */
+export async function mergePinnedTools(items: MyTool[]): Promise<MyTool[]> {
+  const user = await requireSessionUser();
+  const dock = await loadDock(user);
+  const additions = selectPinsToMerge(dock, items);
+
+  if (additions.length > 0) {
+    // Tools archived since they were pinned locally are dropped rather than failing the merge
+    const toolsRepo = createToolsRepository(user.supabase);
+    const live = await Promise.all(
+      additions.map((item) => (item.toolId ? toolsRepo.findBy('id', item.toolId) : Promise.resolve(true)))
+    );
+    const pins = additions.filter((_, index) => live[index]).map(toPinInput);
+
+    const rows = await toPinRows(user, pins, dock.length);
+    await createUserPinnedToolsRepository(user.supabase).insertMany(rows);
+  }
+
+  return loadDock(user);
+}
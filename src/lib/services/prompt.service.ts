@@ -1,4 +1,4 @@
-import { Prompt, AspectRatio, PromptType, FilterGroup, FAQ } from '@/lib/types/prompt';
+import { Prompt, AspectRatio, PromptType, FilterGroup } from '@/lib/types/prompt';
 import { cache } from 'react';
 
 // Categories for midjourney styles
@@ -187,32 +187,6 @@ export const getFilterGroups = cache(async (): Promise<FilterGroup[]> => {
     ];
 });
 
-// FAQs
-export const getFAQs = cache(async (): Promise<FAQ[]> => {
-    return [
-        {
-            id: 'what-is-sref',
-            question: 'What are Midjourney SREF codes?',
-            answer: 'SREF (Style Reference) codes are unique identifiers in Midjourney that allow you to apply a specific aesthetic style to your generations. Simply add --sref [code] to your prompt to use a style.'
-        },
-        {
-            id: 'how-to-use',
-            question: 'How do I use these styles in Midjourney?',
-            answer: 'Copy the SREF code or full prompt, paste it into Midjourney, and add your own subject description. For example: "a cat in a garden --sref 1234567890" will apply that style to your cat image.'
-        },
-        {
-            id: 'aspect-ratios',
-            question: 'What aspect ratios work best?',
-            answer: 'The aspect ratio depends on your use case. Use --ar 16:9 for landscapes and wallpapers, --ar 1:1 for social media posts, --ar 9:16 for mobile wallpapers, and --ar 3:4 for portraits.'
-        },
-        {
-            id: 'version',
-            question: 'Which Midjourney version should I use?',
-            answer: 'Most SREF codes work best with Midjourney v5.2 or v6. Some styles may produce different results on different versions, so experiment to find what works best for your needs.'
-        }
-    ];
-});
-
 export const getPrompts = cache(async (count: number = 20): Promise<Prompt[]> => {
     const prompts = getDatabase();
     await new Promise(resolve => setTimeout(resolve, 100));
@@ -0,0 +1,57 @@
+/**
+ * Redirects service layer for renamed tool and category slugs.
+ * Former slugs are recorded by database triggers; pages call this module
+ * when a slug does not match a live row to find where it moved.
+ *
+ * @module redirects.service
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin';
+import {
+  createSlugRedirectsRepository,
+  type SlugRedirectEntity,
+} from '@/lib/db/repositories/slug-redirects.repository';
+
+export type { SlugRedirectEntity };
+
+/**
+ * Finds the current slug of a renamed tool or category.
+ *
+ * @param entity - 'tools' or 'categories'
+ * @param slug - The requested, possibly former, slug
+ * @returns The current slug, or null if the slug never belonged to a live row
+ *
+ * @example
+ * ```ts
+ * const current = await resolveSlugRedirect('tools', 'chat-gpt');
+ * if (current) {
+ *   permanentRedirect(`/tool/${current}`);
+ * }
+ * ```
+ */
+export async function resolveSlugRedirect(
+  entity: SlugRedirectEntity,
+  slug: string
+): Promise<string | null> {
+  const current = await createSlugRedirectsRepository(createAdminClient()).resolve(entity, slug);
+  return current && current !== slug ? current : null;
+}
+
+/**
+ * Lists every former slug of an entity, for excluding non-canonical URLs
+ * from sources that are not read from the database (e.g. the sitemap's
+ * free AI tools categories).
+ *
+ * @param entity - 'tools' or 'categories'
+ * @returns Set of slugs that now redirect
+ *
+ * @example
+ * ```ts
+ * const former = await getFormerSlugs('categories');
+ * former.has('image-generators'); // true once the category was renamed
+ * ```
+ */
+export async function getFormerSlugs(entity: SlugRedirectEntity): Promise<Set<string>> {
+  const slugs = await createSlugRedirectsRepository(createAdminClient()).findOldSlugs(entity);
+  return new Set(slugs);
+}
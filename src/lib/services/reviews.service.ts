@@ -0,0 +1,280 @@
+/**
+ * Reviews service layer for user reviews of tools.
+ * Listing is public. Writing, editing, deleting, voting and reporting run
+ * with the signed-in user's session client so RLS limits them to the user's
+ * own rows; the tool's review_score and review_count and each review's vote
+ * and report counts follow by database trigger.
+ *
+ * @module reviews.service
+ */
+
+import { createReviewsRepository, type ReviewRow } from '@/lib/db/repositories/reviews.repository';
+import { createReviewVotesRepository } from '@/lib/db/repositories/review-votes.repository';
+import { createReviewReportsRepository } from '@/lib/db/repositories/review-reports.repository';
+import { createUserBansRepository } from '@/lib/db/repositories/user-bans.repository';
+import { createToolsRepository } from '@/lib/db/repositories/tools.repository';
+import { withResilience } from '@/lib/db/repositories/resilient.repository';
+import { TABLES } from '@/lib/db/constants/tables';
+import { NotFoundError, ValidationError } from '@/lib/db/errors';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { getSessionUser, requireSessionUser, type SessionUser } from '@/lib/services/session.service';
+import {
+  REVIEWS_PAGE_SIZE,
+  type Review,
+  type ReviewPage,
+  type ReviewReportValues,
+  type ReviewSort,
+  type ReviewVoteState,
+  type ReviewValues,
+} from '@/lib/types/review';
+
+/**
+ * Gets a reviews repository for public reads.
+ */
+function getReviewsRepository() {
+  return withResilience(createReviewsRepository(createAdminClient()), TABLES.REVIEWS, { cache: true });
+}
+
+/**
+ * Maps a database row to a Review.
+ */
+export function mapReviewRow(row: ReviewRow): Review {
+  return {
+    id: row.id,
+    toolId: row.tool_id,
+    authorName: row.author_name,
+    rating: row.rating,
+    title: row.title,
+    body: row.body,
+    pros: row.pros ?? [],
+    cons: row.cons ?? [],
+    helpfulCount: row.helpful_count ?? 0,
+    unhelpfulCount: row.unhelpful_count ?? 0,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Fails for banned users before RLS would reject their write.
+ */
+async function assertNotBanned(user: SessionUser): Promise<void> {
+  const banned = await createUserBansRepository(user.supabase).findBannedUserIds([user.id]);
+  if (banned.has(user.id)) {
+    throw new ValidationError('user', 'Your account can no longer post reviews, votes or reports');
+  }
+}
+
+/**
+ * Loads a public review someone other than the signed-in user wrote.
+ */
+async function getOthersReview(user: SessionUser, reviewId: string, action: string): Promise<ReviewRow> {
+  const review = await createReviewsRepository(user.supabase).findBy('id', reviewId);
+  if (!review || review.hidden_at) {
+    throw new NotFoundError('Review', reviewId);
+  }
+  if (review.user_id === user.id) {
+    throw new ValidationError('reviewId', `You cannot ${action} your own review`);
+  }
+  return review;
+}
+
+/**
+ * Fetches one page of a tool's reviews.
+ *
+ * @param toolId - Reviewed tool
+ * @param options - 1-based page and sort order
+ * @returns The page with the total count; pages past the end are empty
+ *
+ * @example
+ * ```ts
+ * const { reviews, pageCount } = await getToolReviews(tool.id, { page: 2, sort: 'highest' });
+ * ```
+ */
+export async function getToolReviews(
+  toolId: string,
+  options: { page: number; sort: ReviewSort }
+): Promise<ReviewPage> {
+  const { rows, total } = await getReviewsRepository().findPageByTool(toolId, {
+    order: options.sort,
+    offset: (options.page - 1) * REVIEWS_PAGE_SIZE,
+    limit: REVIEWS_PAGE_SIZE,
+  });
+
+  return {
+    reviews: rows.map(mapReviewRow),
+    total,
+    page: options.page,
+    pageCount: Math.max(Math.ceil(total / REVIEWS_PAGE_SIZE), 1),
+    sort: options.sort,
+  };
+}
+
+/**
+ * Fetches the signed-in user's review of a tool.
+ *
+ * @param toolId - Reviewed tool
+ * @returns The review, or null when signed out or not yet reviewed
+ */
+export async function getOwnReview(toolId: string): Promise<Review | null> {
+  const user = await getSessionUser();
+  if (!user) {
+    return null;
+  }
+
+  const row = await createReviewsRepository(user.supabase).findByToolAndUser(toolId, user.id);
+  return row ? mapReviewRow(row) : null;
+}
+
+/**
+ * Publishes the signed-in user's review of a tool, or replaces it when they
+ * already reviewed the tool.
+ *
+ * @param values - Validated review
+ * @returns The saved review and the slug of the reviewed tool
+ * @throws {AuthenticationError} If no user is signed in
+ * @throws {ValidationError} If the user is banned
+ * @throws {NotFoundError} If the tool does not exist or is archived
+ *
+ * @example
+ * ```ts
+ * const { review } = await saveReview(ReviewInputSchema.parse(input));
+ * ```
+ */
+export async function saveReview(values: ReviewValues): Promise<{ review: Review; toolSlug: string }> {
+  const user = await requireSessionUser();
+  await assertNotBanned(user);
+
+  const tool = await createToolsRepository(user.supabase).findBy('id', values.toolId);
+  if (!tool) {
+    throw new NotFoundError('Tool', values.toolId);
+  }
+
+  const repo = createReviewsRepository(user.supabase);
+  const fields = {
+    author_name: values.authorName,
+    rating: values.rating,
+    title: values.title,
+    body: values.body,
+    pros: values.pros,
+    cons: values.cons,
+  };
+
+  const existing = await repo.findByToolAndUser(tool.id, user.id);
+  const row = existing
+    ? await repo.update(existing.id, fields)
+    : await repo.create({ ...fields, tool_id: tool.id, user_id: user.id });
+
+  return { review: mapReviewRow(row), toolSlug: tool.slug };
+}
+
+/**
+ * Deletes the signed-in user's review of a tool. Deleting a review that
+ * does not exist is a no-op.
+ *
+ * @param toolId - Reviewed tool
+ * @returns The slug of the reviewed tool, or null if it no longer exists
+ * @throws {AuthenticationError} If no user is signed in
+ */
+export async function deleteReview(toolId: string): Promise<{ toolSlug: string | null }> {
+  const user = await requireSessionUser();
+  const repo = createReviewsRepository(user.supabase);
+
+  const existing = await repo.findByToolAndUser(toolId, user.id);
+  if (existing) {
+    await repo.delete(existing.id);
+  }
+
+  const tool = await createToolsRepository(user.supabase).findBy('id', toolId);
+  return { toolSlug: tool?.slug ?? null };
+}
+
+/**
+ * Fetches the signed-in user's votes on some reviews.
+ *
+ * @param reviewIds - Reviews shown on the page
+ * @returns Votes keyed by review ID (true for helpful); empty when signed out
+ */
+export async function getOwnReviewVotes(reviewIds: string[]): Promise<Record<string, boolean>> {
+  const user = await getSessionUser();
+  if (!user || reviewIds.length === 0) {
+    return {};
+  }
+  return createReviewVotesRepository(user.supabase).findByUserAndReviews(user.id, reviewIds);
+}
+
+/**
+ * Records the signed-in user's vote on someone else's review, replacing
+ * any earlier vote, or removes it.
+ *
+ * @param reviewId - Review voted on
+ * @param helpful - true for helpful, false for unhelpful, null to remove the vote
+ * @returns The user's vote and the review's counts after the change
+ * @throws {AuthenticationError} If no user is signed in
+ * @throws {ValidationError} If the user is banned or wrote the review
+ * @throws {NotFoundError} If the review does not exist or is hidden
+ *
+ * @example
+ * ```ts
+ * const { helpfulCount } = await voteOnReview(reviewId, true);
+ * ```
+ */
+export async function voteOnReview(reviewId: string, helpful: boolean | null): Promise<ReviewVoteState> {
+  const user = await requireSessionUser();
+  await assertNotBanned(user);
+  await getOthersReview(user, reviewId, 'vote on');
+
+  const votesRepo = createReviewVotesRepository(user.supabase);
+  if (helpful === null) {
+    await votesRepo.removeVote(reviewId, user.id);
+  } else {
+    await votesRepo.setVote(reviewId, user.id, helpful);
+  }
+
+  // Counts as updated by the vote trigger
+  const review = await createReviewsRepository(user.supabase).findBy('id', reviewId);
+  return {
+    reviewId,
+    vote: helpful,
+    helpfulCount: review?.helpful_count ?? 0,
+    unhelpfulCount: review?.unhelpful_count ?? 0,
+  };
+}
+
+/**
+ * Reports someone else's review to the moderators. Reporting a review again
+ * updates the earlier report while it is open.
+ *
+ * @param report - Validated report
+ * @throws {AuthenticationError} If no user is signed in
+ * @throws {ValidationError} If the user is banned, wrote the review or
+ * already had a report on it decided
+ * @throws {NotFoundError} If the review does not exist or is hidden
+ *
+ * @example
+ * ```ts
+ * await reportReview({ reviewId, reason: 'spam', details: '' });
+ * ```
+ */
+export async function reportReview(report: ReviewReportValues): Promise<void> {
+  const user = await requireSessionUser();
+  await assertNotBanned(user);
+  await getOthersReview(user, report.reviewId, 'report');
+
+  const reportsRepo = createReviewReportsRepository(user.supabase);
+  const existing = await reportsRepo.findByReviewAndReporter(report.reviewId, user.id);
+  if (existing && existing.status !== 'open') {
+    throw new ValidationError('reviewId', 'You already reported this review and a moderator has looked at it');
+  }
+
+  await reportsRepo.upsert(
+    {
+      review_id: report.reviewId,
+      reporter_id: user.id,
+      reason: report.reason,
+      details: report.details || null,
+      status: 'open',
+    },
+    'review_id,reporter_id'
+  );
+}
@@ -0,0 +1,68 @@
+/**
+ * Session service layer for the user signed in on the current request.
+ * User-owned data (favorites and the like) is read and written with the
+ * session client, so RLS scopes every query to this user.
+ *
+ * @module session.service
+ */
+
+import { createClient } from '@/lib/supabase/server';
+
+/**
+ * The signed-in user and the Supabase client carrying their session.
+ */
+export interface SessionUser {
+  id: string;
+  email: string;
+  supabase: Awaited<ReturnType<typeof createClient>>;
+}
+
+/**
+ * Error thrown when an operation needs a signed-in user and there is none.
+ */
+export class AuthenticationError extends Error {
+  public readonly name = 'AuthenticationError';
+
+  constructor(message: string = 'Sign in to continue') {
+    super(message);
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, AuthenticationError);
+    }
+  }
+}
+
+/**
+ * Fetches the user signed in on the current request.
+ *
+ * @returns The user with their session client, or null if signed out
+ */
+export async function getSessionUser(): Promise<SessionUser | null> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user?.email) {
+    return null;
+  }
+
+  return { id: user.id, email: user.email, supabase };
+}
+
+/**
+ * Fetches the signed-in user, failing when there is none.
+ *
+ * @returns The user with their session client
+ * @throws {AuthenticationError} If no user is signed in
+ *
+ * @example
+ * ```ts
+ * const user = await requireSessionUser();
+ * await createUserFavoritesRepository(user.supabase).add(user.email, toolId);
+ * ```
+ */
+export async function requireSessionUser(): Promise<SessionUser> {
+  const user = await getSessionUser();
+  if (!user) {
+    throw new AuthenticationError();
+  }
+  return user;
+}
@@ -0,0 +1,269 @@
+/**
+ * Staff service layer for admin roles and authorization.
+ * Staff roles live in the admin_users table; every admin route and server
+ * action checks them through this module.
+ *
+ * @module staff.service
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin';
+import { createClient } from '@/lib/supabase/server';
+import {
+  createAdminUsersRepository,
+  type AdminUserRow,
+} from '@/lib/db/repositories/admin-users.repository';
+import { ValidationError } from '@/lib/db/errors';
+import { STAFF_ROLES, type StaffRole, type StaffMember } from '@/lib/types/staff';
+
+export { STAFF_ROLES, type StaffRole, type StaffMember };
+
+/**
+ * Error thrown when the current user lacks the role an operation requires.
+ */
+export class AuthorizationError extends Error {
+  public readonly name = 'AuthorizationError';
+
+  constructor(
+    public readonly requiredRole: StaffRole,
+    message: string = `Requires ${requiredRole} role`
+  ) {
+    super(message);
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, AuthorizationError);
+    }
+  }
+}
+
+/**
+ * Checks whether a value is a known staff role.
+ */
+export function isStaffRole(value: unknown): value is StaffRole {
+  return typeof value === 'string' && (STAFF_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Checks whether a role satisfies a required minimum role.
+ *
+ * @param role - The role held, or null for non-staff
+ * @param required - The minimum role needed
+ *
+ * @example
+ * ```ts
+ * hasRequiredRole('admin', 'editor'); // true
+ * hasRequiredRole('viewer', 'editor'); // false
+ * hasRequiredRole(null, 'viewer'); // false
+ * ```
+ */
+export function hasRequiredRole(role: StaffRole | null, required: StaffRole): boolean {
+  if (!role) {
+    return false;
+  }
+  return STAFF_ROLES.indexOf(role) >= STAFF_ROLES.indexOf(required);
+}
+
+/**
+ * Maps an admin_users row to a StaffMember, treating unknown roles as viewer.
+ */
+function mapAdminUserRow(row: AdminUserRow): StaffMember {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    email: row.email,
+    role: isStaffRole(row.role) ? row.role : 'viewer',
+    invitedBy: row.invited_by,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Creates an admin users repository instance with admin client.
+ * Role lookups must not depend on the caller's own RLS visibility.
+ */
+function getAdminUsersRepository() {
+  return createAdminUsersRepository(createAdminClient());
+}
+
+/**
+ * Fetches the staff role held by a Supabase Auth user.
+ *
+ * @param userId - Supabase Auth user ID
+ * @returns The role, or null if the user is not staff
+ */
+export async function getStaffRole(userId: string): Promise<StaffRole | null> {
+  const row = await getAdminUsersRepository().findByUserId(userId);
+  return row ? mapAdminUserRow(row).role : null;
+}
+
+/**
+ * Fetches the staff record of the user signed in on the current request.
+ *
+ * @returns The staff member, or null if signed out or not staff
+ */
+export async function getCurrentStaff(): Promise<StaffMember | null> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return null;
+  }
+
+  const row = await getAdminUsersRepository().findByUserId(user.id);
+  return row ? mapAdminUserRow(row) : null;
+}
+
+/**
+ * Ensures the user signed in on the current request holds a minimum role.
+ * Call at the top of every admin server action.
+ *
+ * @param required - The minimum role needed
+ * @returns The authorized staff member
+ * @throws {AuthorizationError} If signed out, not staff, or the role is too low
+ *
+ * @example
+ * ```ts
+ * export async function deleteToolAction(id: string) {
+ *   await requireStaffRole('editor');
+ *   await deleteTool(id);
+ * }
+ * ```
+ */
+export async function requireStaffRole(required: StaffRole): Promise<StaffMember> {
+  const staff = await getCurrentStaff();
+
+  if (!staff || !hasRequiredRole(staff.role, required)) {
+    throw new AuthorizationError(required);
+  }
+
+  return staff;
+}
+
+/**
+ * Fetches all staff members ordered by email.
+ */
+export async function listStaff(): Promise<StaffMember[]> {
+  const rows = await getAdminUsersRepository().findAllOrdered();
+  return rows.map(mapAdminUserRow);
+}
+
+/**
+ * Finds the Supabase Auth user ID registered with an email address.
+ */
+async function findAuthUserIdByEmail(email: string): Promise<string | null> {
+  const supabase = createAdminClient();
+  const perPage = 1000;
+
+  for (let page = 1; ; page++) {
+    const { data, error } = await supabase.auth.admin.listUsers({ page, perPage });
+
+    if (error) {
+      throw error;
+    }
+
+    const match = data.users.find((user) => user.email?.toLowerCase() === email);
+    if (match) {
+      return match.id;
+    }
+
+    if (data.users.length < perPage) {
+      return null;
+    }
+  }
+}
+
+/**
+ * Grants a staff role to an email address.
+ * New addresses receive a Supabase invitation email; existing accounts are
+ * granted the role directly.
+ *
+ * @param email - Email address to invite
+ * @param role - Role to grant
+ * @param invitedBy - Auth user ID of the admin sending the invite
+ * @returns The created staff member
+ * @throws {ValidationError} If the email or role is invalid, or the user is already staff
+ */
+export async function inviteStaff(
+  email: string,
+  role: StaffRole,
+  invitedBy: string
+): Promise<StaffMember> {
+  const normalizedEmail = email.trim().toLowerCase();
+
+  if (!normalizedEmail) {
+    throw new ValidationError('email', 'Email is required');
+  }
+
+  if (!isStaffRole(role)) {
+    throw new ValidationError('role', `Unknown role: ${role}`);
+  }
+
+  let userId = await findAuthUserIdByEmail(normalizedEmail);
+
+  if (!userId) {
+    const { data, error } = await createAdminClient().auth.admin.inviteUserByEmail(normalizedEmail);
+    if (error) {
+      throw error;
+    }
+    userId = data.user.id;
+  }
+
+  const repo = getAdminUsersRepository();
+
+  if (await repo.findByUserId(userId)) {
+    throw new ValidationError('email', `${normalizedEmail} is already a staff member`);
+  }
+
+  const row = await repo.create({
+    user_id: userId,
+    email: normalizedEmail,
+    role,
+    invited_by: invitedBy,
+  });
+
+  return mapAdminUserRow(row);
+}
+
+/**
+ * Changes the role of an existing staff member.
+ *
+ * @param id - admin_users row ID
+ * @param role - New role
+ * @param actorUserId - Auth user ID of the admin making the change
+ * @throws {ValidationError} If the role is invalid or admins try to demote themselves
+ */
+export async function updateStaffRole(
+  id: string,
+  role: StaffRole,
+  actorUserId: string
+): Promise<StaffMember> {
+  if (!isStaffRole(role)) {
+    throw new ValidationError('role', `Unknown role: ${role}`);
+  }
+
+  const repo = getAdminUsersRepository();
+  const existing = await repo.findById(id);
+
+  if (existing.user_id === actorUserId && role !== 'admin') {
+    throw new ValidationError('role', 'You cannot remove your own admin role');
+  }
+
+  const row = await repo.update(id, { role });
+  return mapAdminUserRow(row);
+}
+
+/**
+ * Revokes staff access. The Supabase Auth account itself is kept.
+ *
+ * @param id - admin_users row ID
+ * @param actorUserId - Auth user ID of the admin revoking access
+ * @throws {ValidationError} If admins try to revoke themselves
+ */
+export async function revokeStaff(id: string, actorUserId: string): Promise<void> {
+  const repo = getAdminUsersRepository();
+  const existing = await repo.findById(id);
+
+  if (existing.user_id === actorUserId) {
+    throw new ValidationError('id', 'You cannot revoke your own access');
+  }
+
+  await repo.delete(id);
+}
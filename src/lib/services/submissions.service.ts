@@ -0,0 +1,387 @@
+/**
+ * Submissions service layer for the public tool submission pipeline.
+ * Visitors submit tools from /submit and follow them through a private
+ * tracking link; staff approve, send back or reject them from
+ * /admin/submissions. Approval creates the tool and decides the submission
+ * in one transaction.
+ *
+ * @module submissions.service
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin';
+import {
+  createToolSubmissionsRepository,
+  type ToolSubmissionRow,
+  type ToolSubmissionUpdate,
+} from '@/lib/db/repositories/tool-submissions.repository';
+import { createToolsRepository } from '@/lib/db/repositories/tools.repository';
+import type { Page } from '@/lib/db/repositories/base.repository';
+import { NotFoundError, ValidationError } from '@/lib/db/errors';
+import { mapToolRowToTool } from '@/lib/db/mappers/tool.mapper';
+import { toToolInsert } from '@/lib/services/tools.service';
+import {
+  OPEN_SUBMISSION_STATUSES,
+  SUBMISSION_STATUSES,
+  getWebsiteDomain,
+  toSubmissionSlug,
+  type SubmissionDuplicate,
+  type SubmissionStatus,
+  type ToolSubmission,
+  type ToolSubmissionValues,
+} from '@/lib/types/submission';
+import type { PricingType, Tool } from '@/lib/types/tool';
+
+/**
+ * Thrown when a submission matches a listed tool or another open submission.
+ * Carries the matches so the form can link to them.
+ */
+export class DuplicateSubmissionError extends ValidationError {
+  constructor(public readonly duplicates: SubmissionDuplicate[]) {
+    const first = duplicates[0];
+    super(
+      first.reason === 'domain' ? 'websiteUrl' : 'name',
+      first.kind === 'tool'
+        ? `${first.name} is already listed`
+        : `${first.name} has already been submitted and is waiting for review`
+    );
+  }
+}
+
+/**
+ * What staff decide when approving a submission; both default to what the
+ * submitter entered.
+ */
+export interface SubmissionApproval {
+  /** Slug the tool is created with */
+  slug?: string;
+  /** Categories the tool is linked to */
+  categoryIds?: string[];
+}
+
+/** Open submissions one email address may have at a time */
+export const MAX_OPEN_SUBMISSIONS_PER_EMAIL = 5;
+
+/** Number of submissions per page of the moderation queue */
+export const SUBMISSIONS_PAGE_SIZE = 25;
+
+/**
+ * Creates a tool submissions repository with admin client. Submissions are
+ * written on behalf of anonymous visitors, so RLS cannot authorize them.
+ *
+ * @param actorUserId - Staff user recorded in the audit log for tools created on approval
+ */
+function getSubmissionsRepository(actorUserId?: string) {
+  return createToolSubmissionsRepository(createAdminClient({ auditActor: actorUserId }));
+}
+
+/**
+ * Converts a tool_submissions row to a ToolSubmission.
+ */
+export function mapSubmissionRow(row: ToolSubmissionRow): ToolSubmission {
+  return {
+    id: row.id,
+    trackingToken: row.tracking_token,
+    name: row.name,
+    slug: row.slug,
+    websiteUrl: row.website_url,
+    websiteDomain: row.website_domain,
+    shortDescription: row.short_description,
+    description: row.description ?? '',
+    pricing: row.pricing as PricingType,
+    categoryIds: row.category_ids ?? [],
+    submitterEmail: row.submitter_email,
+    status: (SUBMISSION_STATUSES as readonly string[]).includes(row.status)
+      ? (row.status as SubmissionStatus)
+      : 'pending',
+    reviewNote: row.review_note,
+    toolId: row.tool_id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Columns written from validated form values.
+ */
+function toSubmissionFields(values: ToolSubmissionValues) {
+  return {
+    name: values.name,
+    slug: toSubmissionSlug(values.name),
+    website_url: values.websiteUrl,
+    short_description: values.shortDescription,
+    description: values.description || null,
+    pricing: values.pricing,
+    category_ids: values.categoryIds,
+  };
+}
+
+/**
+ * Finds listed tools and open submissions that a submission appears to
+ * duplicate: same slug as its name, or a website on the same domain.
+ *
+ * @param submission - Name and website of the submission
+ * @param excludeId - Submission to leave out, e.g. the one being checked
+ * @returns Matches, listed tools first; empty when the submission is new
+ *
+ * @example
+ * ```ts
+ * const duplicates = await findSubmissionDuplicates({ name: 'ChatGPT', websiteUrl: 'https://chatgpt.com' });
+ * ```
+ */
+export async function findSubmissionDuplicates(
+  submission: Pick<ToolSubmission, 'name' | 'websiteUrl'>,
+  excludeId?: string
+): Promise<SubmissionDuplicate[]> {
+  const supabase = createAdminClient();
+  const toolsRepo = createToolsRepository(supabase);
+  const slug = toSubmissionSlug(submission.name);
+  const domain = getWebsiteDomain(submission.websiteUrl);
+
+  const [toolBySlug, toolsByDomain, submissions] = await Promise.all([
+    toolsRepo.findBySlug(slug),
+    domain ? toolsRepo.findByWebsiteDomain(domain) : Promise.resolve([]),
+    createToolSubmissionsRepository(supabase).findOpenBySlugOrDomain(slug, domain, excludeId),
+  ]);
+
+  const duplicates: SubmissionDuplicate[] = [];
+  const seenTools = new Set<string>();
+
+  if (toolBySlug) {
+    seenTools.add(toolBySlug.id);
+    duplicates.push({ reason: 'slug', kind: 'tool', name: toolBySlug.name, slug: toolBySlug.slug });
+  }
+  for (const tool of toolsByDomain) {
+    if (!seenTools.has(tool.id)) {
+      seenTools.add(tool.id);
+      duplicates.push({ reason: 'domain', kind: 'tool', name: tool.name, slug: tool.slug });
+    }
+  }
+  for (const row of submissions) {
+    duplicates.push({
+      reason: row.slug === slug ? 'slug' : 'domain',
+      kind: 'submission',
+      name: row.name,
+      slug: row.slug,
+    });
+  }
+
+  return duplicates;
+}
+
+/**
+ * Records a new submission after checking it is not a duplicate.
+ *
+ * @param values - Validated submit form values
+ * @param submitterUserId - Auth user of a signed-in submitter
+ * @returns The submission, including the tracking token for its status link
+ * @throws {DuplicateSubmissionError} If the tool is listed or already submitted
+ * @throws {ValidationError} If the email address has too many open submissions
+ *
+ * @example
+ * ```ts
+ * const submission = await submitTool(ToolSubmissionSchema.parse(input));
+ * redirect(`/submit/status/${submission.trackingToken}`);
+ * ```
+ */
+export async function submitTool(values: ToolSubmissionValues, submitterUserId?: string): Promise<ToolSubmission> {
+  const repo = getSubmissionsRepository();
+
+  const [openCount, duplicates] = await Promise.all([
+    repo.countOpenByEmail(values.submitterEmail),
+    findSubmissionDuplicates(values),
+  ]);
+
+  if (duplicates.length > 0) {
+    throw new DuplicateSubmissionError(duplicates);
+  }
+  if (openCount >= MAX_OPEN_SUBMISSIONS_PER_EMAIL) {
+    throw new ValidationError(
+      'submitterEmail',
+      `You already have ${openCount} submissions in review; please wait for a decision on them first`
+    );
+  }
+
+  const row = await repo.create({
+    ...toSubmissionFields(values),
+    submitter_email: values.submitterEmail,
+    submitter_user_id: submitterUserId ?? null,
+  });
+
+  return mapSubmissionRow(row);
+}
+
+/**
+ * Fetches a submission by the token in its status link.
+ *
+ * @param token - Tracking token
+ * @returns The submission, or null if the token is unknown or malformed
+ */
+export async function getSubmissionByToken(token: string): Promise<ToolSubmission | null> {
+  if (!/^[0-9a-f-]{36}$/i.test(token)) {
+    return null;
+  }
+  const row = await getSubmissionsRepository().findByToken(token);
+  return row ? mapSubmissionRow(row) : null;
+}
+
+/**
+ * Updates a submission that staff sent back and returns it to the queue.
+ * The submitter's email cannot be changed.
+ *
+ * @param token - Tracking token of the submission
+ * @param values - Validated submit form values
+ * @returns The updated submission
+ * @throws {NotFoundError} If the token is unknown
+ * @throws {ValidationError} If the submission is not awaiting changes
+ * @throws {DuplicateSubmissionError} If the new name or website duplicates a tool
+ */
+export async function resubmitTool(token: string, values: ToolSubmissionValues): Promise<ToolSubmission> {
+  const submission = await getSubmissionByToken(token);
+  if (!submission) {
+    throw new NotFoundError('Submission', token);
+  }
+  if (submission.status !== 'changes_requested') {
+    throw new ValidationError('status', 'This submission is not waiting for changes');
+  }
+
+  const duplicates = await findSubmissionDuplicates(values, submission.id);
+  if (duplicates.length > 0) {
+    throw new DuplicateSubmissionError(duplicates);
+  }
+
+  const row = await getSubmissionsRepository().update(submission.id, {
+    ...toSubmissionFields(values),
+    status: 'pending',
+  });
+
+  return mapSubmissionRow(row);
+}
+
+/**
+ * Fetches one page of the moderation queue, oldest first.
+ *
+ * @param status - Queue to list
+ * @param after - Cursor of the previous page, or null for the first page
+ * @returns The page of submissions with the total in this status
+ */
+export async function listSubmissions(
+  status: SubmissionStatus,
+  after: string | null = null
+): Promise<Page<ToolSubmission>> {
+  const page = await getSubmissionsRepository().findPageByStatus(status, {
+    after,
+    limit: SUBMISSIONS_PAGE_SIZE,
+  });
+  return { ...page, items: page.items.map(mapSubmissionRow) };
+}
+
+/**
+ * Counts submissions in every status, for the queue tabs.
+ */
+export async function getSubmissionCounts(): Promise<Record<SubmissionStatus, number>> {
+  const counts = await getSubmissionsRepository().countByStatus(SUBMISSION_STATUSES);
+  return counts as Record<SubmissionStatus, number>;
+}
+
+/**
+ * Loads a submission that staff may still decide on.
+ */
+async function getOpenSubmission(id: string): Promise<ToolSubmissionRow> {
+  const row = await getSubmissionsRepository().findById(id);
+  if (!row) {
+    throw new NotFoundError('Submission', id);
+  }
+  if (!(OPEN_SUBMISSION_STATUSES as readonly string[]).includes(row.status)) {
+    throw new ValidationError('status', 'This submission has already been decided');
+  }
+  return row;
+}
+
+/**
+ * Records a moderation decision on a submission.
+ */
+async function decide(id: string, changes: ToolSubmissionUpdate, actorUserId: string): Promise<ToolSubmission> {
+  const row = await getSubmissionsRepository().update(id, {
+    ...changes,
+    reviewed_by: actorUserId,
+    reviewed_at: new Date().toISOString(),
+  });
+  return mapSubmissionRow(row);
+}
+
+/**
+ * Approves a submission: creates the tool with its categories, marks the
+ * submission approved and links the tool, all in one transaction.
+ *
+ * @param id - Submission ID
+ * @param approval - Slug and categories chosen by staff
+ * @param actorUserId - Staff user recorded as the reviewer and in the audit log
+ * @returns The created tool
+ * @throws {NotFoundError} If no submission has this ID
+ * @throws {ValidationError} If the submission was already decided
+ * @throws {ConflictError} If the slug is already taken
+ *
+ * @example
+ * ```ts
+ * const tool = await approveSubmission('submission-uuid', { categoryIds: ['category-uuid'] }, staff.userId);
+ * ```
+ */
+export async function approveSubmission(
+  id: string,
+  approval: SubmissionApproval,
+  actorUserId: string
+): Promise<Tool> {
+  const row = await getOpenSubmission(id);
+
+  const toolFields = toToolInsert({
+    name: row.name,
+    slug: approval.slug || row.slug,
+    websiteUrl: row.website_url,
+    description: row.description ?? row.short_description,
+    shortDescription: row.short_description,
+    pricing: row.pricing as PricingType,
+    metadata: { source: 'submission', submission_id: row.id },
+  });
+
+  // A failure at any step leaves neither the tool nor the decision behind
+  const toolRow = await getSubmissionsRepository(actorUserId).approve(
+    id,
+    toolFields,
+    approval.categoryIds ?? row.category_ids ?? [],
+    actorUserId
+  );
+
+  return mapToolRowToTool(toolRow);
+}
+
+/**
+ * Sends a submission back to the submitter with a note on what to change.
+ *
+ * @param id - Submission ID
+ * @param note - What the submitter should change; shown on the status page
+ * @param actorUserId - Staff user recorded as the reviewer
+ * @throws {ValidationError} If the note is blank or the submission was already decided
+ */
+export async function requestSubmissionChanges(id: string, note: string, actorUserId: string): Promise<ToolSubmission> {
+  if (!note.trim()) {
+    throw new ValidationError('note', 'Tell the submitter what to change');
+  }
+  await getOpenSubmission(id);
+  return decide(id, { status: 'changes_requested', review_note: note.trim() }, actorUserId);
+}
+
+/**
+ * Rejects a submission with a reason shown to the submitter.
+ *
+ * @param id - Submission ID
+ * @param reason - Why the tool is not listed
+ * @param actorUserId - Staff user recorded as the reviewer
+ * @throws {ValidationError} If the reason is blank or the submission was already decided
+ */
+export async function rejectSubmission(id: string, reason: string, actorUserId: string): Promise<ToolSubmission> {
+  if (!reason.trim()) {
+    throw new ValidationError('note', 'A reason is required to reject a submission');
+  }
+  await getOpenSubmission(id);
+  return decide(id, { status: 'rejected', review_note: reason.trim() }, actorUserId);
+}
@@ -6,30 +6,45 @@
  */
 
 import { createAdminClient } from '@/lib/supabase/admin';
-import { createToolsRepository } from '@/lib/db/repositories/tools.repository';
+import {
+  createToolsRepository,
+  type ToolInsert,
+  type ToolQueryOptions,
+} from '@/lib/db/repositories/tools.repository';
+import { withResilience } from '@/lib/db/repositories/resilient.repository';
+import {
+  createToolRevisionsRepository,
+  type ToolRevisionRow,
+} from '@/lib/db/repositories/tool-revisions.repository';
+import { TABLES } from '@/lib/db/constants/tables';
 import {
   mapToolRowToTool,
   mapToolWithCategories,
+  mapToolSearchRow,
   mapToolToInsert,
   mapToolToUpdate,
 } from '@/lib/db/mappers/tool.mapper';
-import { ValidationError } from '@/lib/db/errors';
-import type { Tool, PricingType } from '@/lib/types/tool';
+import { NotFoundError, ValidationError } from '@/lib/db/errors';
+import type {
+  Tool,
+  ToolChanges,
+  PricingType,
+  ToolQuery,
+  ToolPage,
+  ToolRevision,
+  ToolRevisionChange,
+  ToolSearchResult,
+} from '@/lib/types/tool';
+import { getCategories } from '@/lib/services/categories.service';
+import { listStaff } from '@/lib/services/staff.service';
+import { addFeaturedTools, removeFeaturedTools } from '@/lib/services/featured.service';
 
 /**
- * Options for filtering and paginating tools.
+ * Options for filtering and limiting tools.
  */
-export interface GetToolsOptions {
-  /** Filter by category slug */
-  category?: string;
-  /** Filter by pricing type */
-  pricing?: string;
-  /** Search query for name/description */
-  search?: string;
-  /** Maximum number of results */
+export interface GetToolsOptions extends ToolQuery {
+  /** Maximum number of results (default: 20) */
   limit?: number;
-  /** Number of results to skip */
-  offset?: number;
 }
 
 /**
@@ -48,84 +63,193 @@ export interface CreateToolInput {
   shortDescription?: string;
   /** Image URL */
   image?: string;
+  /** Alternative outbound link, e.g. a referral URL */
+  externalUrl?: string;
   /** Pricing model */
   pricing?: PricingType;
+  /** What the free plan or trial includes */
+  freeTierDetails?: string;
   /** Tags for categorization */
   tags?: string[];
   /** Category IDs to link */
   categoryIds?: string[];
+  /** Show the verified badge (default: false) */
+  verified?: boolean;
+  /** Show the "New" badge (default: true) */
+  isNew?: boolean;
+  /** Flag the tool as featured (default: false) */
+  isFeatured?: boolean;
+  /** Monthly visits used for rankings */
+  monthlyVisits?: number;
+  /** Free-form JSON metadata */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Editorial state stored by a tool revision.
+ */
+export interface ToolRevisionState {
+  /** Tool columns in database (snake_case) form */
+  snapshot: Record<string, unknown>;
+  /** IDs of the categories the tool was linked to */
+  categoryIds: string[];
 }
 
+/**
+ * A change applied to every selected tool in the admin tools table.
+ */
+export type BulkToolAction =
+  | { type: 'verify' }
+  | { type: 'feature'; featured: boolean }
+  | { type: 'pricing'; pricing: PricingType }
+  | { type: 'category'; categoryId: string }
+  | { type: 'archive' };
+
+/** Most tools a single bulk action may change */
+export const BULK_TOOLS_LIMIT = 100;
+
+/**
+ * Page size used by listAllTools. findPage reads one row past the page to
+ * detect the next one, so this must stay below PostgREST's max_rows (1000);
+ * a capped response would otherwise look like the last page.
+ */
+export const ALL_TOOLS_PAGE_SIZE = 500;
+
+/** Number of revisions shown in a tool's history */
+export const TOOL_REVISIONS_LIMIT = 50;
+
 /**
  * Creates a tools repository instance with admin client.
  * Uses admin client to bypass RLS for all operations.
+ * Reads are retried on transient failures and fall back to the last
+ * known-good result while the tools circuit is open.
+ *
+ * @param actorUserId - Staff user recorded in the audit log for writes
  */
-function getToolsRepository() {
-  const supabase = createAdminClient();
-  return createToolsRepository(supabase);
+function getToolsRepository(actorUserId?: string) {
+  const supabase = createAdminClient({ auditActor: actorUserId });
+  return withResilience(createToolsRepository(supabase), TABLES.TOOLS, { cache: true });
 }
 
 
 /**
- * Fetches tools with optional filtering, pagination, and search.
+ * Fetches one page of tools matching a composable query.
+ * All filters, the sort and the total count are resolved in a single
+ * database query, so callers can rely on nextCursor instead of guessing.
+ *
+ * @param query - Category, pricing, tag, flag and search filters plus sort key
+ * @param options - Page size and the cursor returned by the previous page
+ * @returns The page of tools, the total match count and the next cursor
  *
- * @param options - Filtering and pagination options
+ * @example
+ * ```ts
+ * const page = await queryTools(
+ *   { categories: ['ai-chatbots'], pricing: ['Free', 'Freemium'], sort: 'popular' },
+ *   { limit: 20 }
+ * );
+ * const next = page.nextCursor
+ *   ? await queryTools(query, { limit: 20, cursor: page.nextCursor })
+ *   : null;
+ * ```
+ */
+export async function queryTools(
+  query: ToolQuery = {},
+  options?: ToolQueryOptions
+): Promise<ToolPage> {
+  const repo = getToolsRepository();
+  const page = await repo.findByQuery(query, options);
+
+  return {
+    items: page.items.map(mapToolWithCategories),
+    total: page.total,
+    nextCursor: page.nextCursor,
+  };
+}
+
+/**
+ * Fetches tools with optional filtering and search.
+ *
+ * @param options - Query filters and maximum number of results
  * @returns Array of tools matching the criteria
  *
  * @example
  * ```ts
- * // Get all tools
- * const tools = await getTools();
+ * // Get the newest tools
+ * const tools = await getTools({ limit: 20 });
  *
- * // Get tools by category with pagination
- * const tools = await getTools({ category: 'ai-chatbots', limit: 10, offset: 0 });
+ * // Get free tools in a category
+ * const tools = await getTools({ categories: ['ai-chatbots'], pricing: ['Free'] });
  *
  * // Search tools
  * const tools = await getTools({ search: 'chatgpt', limit: 20 });
  * ```
  */
 export async function getTools(options?: GetToolsOptions): Promise<Tool[]> {
-  const repo = getToolsRepository();
-
-  // If searching, use the search method
-  if (options?.search) {
-    const rows = await repo.search(options.search, options?.limit);
-    return rows.map(mapToolRowToTool);
-  }
-
-  // If filtering by category, use findByCategory
-  if (options?.category) {
-    const rows = await repo.findByCategory(options.category, options?.limit);
-
-    // Apply pricing filter if specified
-    let tools = rows.map(mapToolRowToTool);
-    if (options?.pricing) {
-      tools = tools.filter((t) => t.pricing === options.pricing);
-    }
+  const { limit, ...query } = options ?? {};
+  const page = await queryTools(query, { limit });
+  return page.items;
+}
 
-    return tools;
-  }
+/**
+ * Fetches every tool, walking keyset pages so the result is not capped
+ * at PostgREST's row limit. Intended for build-time consumers such as the sitemap.
+ *
+ * @returns All tools, newest first
+ *
+ * @example
+ * ```ts
+ * const tools = await listAllTools();
+ * ```
+ */
+export async function listAllTools(): Promise<Tool[]> {
+  const repo = getToolsRepository();
+  const tools: Tool[] = [];
+  let after: string | null = null;
+
+  do {
+    const page = await repo.findPage({
+      after,
+      orderBy: 'created_at',
+      ascending: false,
+      limit: ALL_TOOLS_PAGE_SIZE,
+    });
+    tools.push(...page.items.map(mapToolRowToTool));
+    after = page.nextCursor;
+  } while (after);
 
-  // Otherwise, get all tools with categories
-  const rows = await repo.findWithCategories({
-    limit: options?.limit,
-    offset: options?.offset,
-    orderBy: 'created_at',
-    ascending: false,
-  });
+  return tools;
+}
 
-  let tools = rows.map(mapToolWithCategories);
+/**
+ * Searches tools by relevance with typo tolerance.
+ * Results include a highlighted snippet and whether each hit was a fuzzy match.
+ *
+ * @param query - Free-text search query
+ * @param limit - Maximum number of results (default: 10)
+ * @returns Search results ordered by rank, best first
+ *
+ * @example
+ * ```ts
+ * const results = await searchTools('chat gtp');
+ * if (results.every((r) => r.isFuzzyMatch)) {
+ *   console.log(`Did you mean ${results[0].name}?`);
+ * }
+ * ```
+ */
+export async function searchTools(query: string, limit: number = 10): Promise<ToolSearchResult[]> {
+  const trimmed = query.trim();
 
-  // Apply pricing filter if specified
-  if (options?.pricing) {
-    tools = tools.filter((t) => t.pricing === options.pricing);
+  if (trimmed === '') {
+    return [];
   }
 
-  return tools;
+  const repo = getToolsRepository();
+  const rows = await repo.search(trimmed, limit);
+  return rows.map(mapToolSearchRow);
 }
 
 /**
- * Fetches a single tool by its slug.
+ * Fetches a single tool by its slug, including its category names.
  *
  * @param slug - URL-friendly identifier
  * @returns The tool or null if not found
@@ -140,13 +264,13 @@ export async function getTools(options?: GetToolsOptions): Promise<Tool[]> {
  */
 export async function getToolBySlug(slug: string): Promise<Tool | null> {
   const repo = getToolsRepository();
-  const row = await repo.findBySlug(slug);
+  const row = await repo.findBySlugWithCategories(slug);
 
   if (!row) {
     return null;
   }
 
-  return mapToolRowToTool(row);
+  return mapToolWithCategories(row);
 }
 
 /**
@@ -168,24 +292,19 @@ export async function getFeaturedTools(limit: number = 10): Promise<Tool[]> {
 
 
 /**
- * Creates a new tool with validation.
+ * Validates new tool input and converts it to a tools row, filling in the
+ * defaults a new tool starts with.
  *
  * @param data - Tool creation data
- * @returns The created tool
+ * @returns Column values for save_tool
  * @throws {ValidationError} If required fields are missing
  *
  * @example
  * ```ts
- * const tool = await createTool({
- *   name: 'ChatGPT',
- *   slug: 'chatgpt',
- *   websiteUrl: 'https://chat.openai.com',
- *   pricing: 'Freemium',
- *   categoryIds: ['category-uuid-1'],
- * });
+ * const fields = toToolInsert({ name: 'ChatGPT', slug: 'chatgpt', websiteUrl: 'https://chat.openai.com' });
  * ```
  */
-export async function createTool(data: CreateToolInput): Promise<Tool> {
+export function toToolInsert(data: CreateToolInput): ToolInsert {
   // Validate required fields
   if (!data.name || data.name.trim() === '') {
     throw new ValidationError('name', 'Name is required');
@@ -199,84 +318,365 @@ export async function createTool(data: CreateToolInput): Promise<Tool> {
     throw new ValidationError('websiteUrl', 'Website URL is required');
   }
 
-  const repo = getToolsRepository();
-
   // Map input to database insert format
-  const insertData = mapToolToInsert({
+  return mapToolToInsert({
     name: data.name,
     slug: data.slug,
     websiteUrl: data.websiteUrl,
     description: data.description ?? '',
     shortDescription: data.shortDescription ?? '',
     image: data.image ?? '',
+    externalUrl: data.externalUrl,
     pricing: data.pricing ?? 'Freemium',
+    freeTierDetails: data.freeTierDetails,
     tags: data.tags ?? [],
     savedCount: 0,
     reviewCount: 0,
     reviewScore: 0,
-    verified: false,
-    isNew: true,
-    isFeatured: false,
+    verified: data.verified ?? false,
+    isNew: data.isNew ?? true,
+    isFeatured: data.isFeatured ?? false,
+    monthlyVisits: data.monthlyVisits,
+    metadata: data.metadata ?? {},
   });
+}
 
-  // Create the tool
-  const row = await repo.create(insertData);
+/**
+ * Creates a new tool with validation.
+ *
+ * @param data - Tool creation data
+ * @param actorUserId - Staff user recorded as the actor in the audit log
+ * @returns The created tool
+ * @throws {ValidationError} If required fields are missing
+ * @throws {ConflictError} If the slug is already taken
+ *
+ * @example
+ * ```ts
+ * const tool = await createTool({
+ *   name: 'ChatGPT',
+ *   slug: 'chatgpt',
+ *   websiteUrl: 'https://chat.openai.com',
+ *   pricing: 'Freemium',
+ *   categoryIds: ['category-uuid-1'],
+ * }, staff.userId);
+ * ```
+ */
+export async function createTool(data: CreateToolInput, actorUserId?: string): Promise<Tool> {
+  const insertData = toToolInsert(data);
+  const repo = getToolsRepository(actorUserId);
 
-  // Link to categories if provided
-  if (data.categoryIds && data.categoryIds.length > 0) {
-    for (const categoryId of data.categoryIds) {
-      await repo.linkToCategory(row.id, categoryId);
-    }
-  }
+  // Insert the tool and its category links in one transaction
+  const row = await repo.createWithCategories(insertData, data.categoryIds ?? []);
 
   return mapToolRowToTool(row);
 }
 
 /**
- * Updates an existing tool.
+ * Updates an existing tool. Passing categoryIds replaces the tool's whole
+ * category set; the row update and the relinking commit or fail together.
  *
  * @param id - Tool ID
- * @param updates - Partial tool data to update
+ * @param updates - Partial tool data to update; tags replace the existing set
+ *   and a null monthlyVisits clears it
+ * @param categoryIds - Complete new set of category IDs, or undefined to keep the current links
+ * @param actorUserId - Staff user recorded as the actor in the audit log
  * @returns The updated tool
+ * @throws {NotFoundError} If no tool has this ID
+ * @throws {ConflictError} If the new slug is already taken
  *
  * @example
  * ```ts
  * const updated = await updateTool('tool-uuid', {
  *   name: 'ChatGPT Plus',
  *   pricing: 'Paid',
- * });
+ * }, ['category-uuid-1', 'category-uuid-2'], staff.userId);
  * ```
  */
 export async function updateTool(
   id: string,
-  updates: Partial<Omit<Tool, 'id' | 'dateAdded' | 'categories'>>
+  updates: ToolChanges,
+  categoryIds?: string[],
+  actorUserId?: string
 ): Promise<Tool> {
-  const repo = getToolsRepository();
+  const repo = getToolsRepository(actorUserId);
 
   // Map updates to database format
   const dbUpdates = mapToolToUpdate(updates);
 
-  // Update the tool
-  const row = await repo.update(id, dbUpdates);
+  // Update the tool and, if given, its category links atomically
+  const row = await repo.updateWithCategories(id, dbUpdates, categoryIds);
 
   return mapToolRowToTool(row);
 }
 
 /**
- * Deletes a tool and its category relationships.
- * The tool_categories junction table records are automatically deleted
- * via ON DELETE CASCADE constraint.
+ * Archives a tool. Archived tools disappear from every public listing,
+ * search and tool page, but keep their category links, featured slot and
+ * user favorites so restoreTool can bring them back unchanged.
+ * purgeArchivedTools hard-deletes them once the retention window has passed.
  *
- * @param id - Tool ID to delete
+ * @param id - Tool ID to archive
+ * @param actorUserId - Staff user recorded as the actor in the audit log
+ * @throws {NotFoundError} If no live tool has this ID
  *
  * @example
  * ```ts
- * await deleteTool('tool-uuid');
+ * await deleteTool('tool-uuid', staff.userId);
  * ```
  */
-export async function deleteTool(id: string): Promise<void> {
+export async function deleteTool(id: string, actorUserId?: string): Promise<void> {
+  const repo = getToolsRepository(actorUserId);
+  await repo.archive(id);
+}
+
+/**
+ * Restores an archived tool to the public site.
+ *
+ * @param id - Tool ID to restore
+ * @param actorUserId - Staff user recorded as the actor in the audit log
+ * @returns The restored tool
+ * @throws {NotFoundError} If no archived tool has this ID
+ *
+ * @example
+ * ```ts
+ * const tool = await restoreTool('tool-uuid', staff.userId);
+ * ```
+ */
+export async function restoreTool(id: string, actorUserId?: string): Promise<Tool> {
+  const repo = getToolsRepository(actorUserId);
+  const row = await repo.restore(id);
+  return mapToolRowToTool(row);
+}
+
+/**
+ * Applies one change to many tools as a single batched database operation.
+ * Archived tools in the selection are skipped.
+ *
+ * @param toolIds - Tools to change
+ * @param action - Verify, feature or unfeature, set pricing, add a category, or archive
+ * @param actorUserId - Staff user recorded as the actor in the audit log
+ * @returns Number of tools changed; for 'feature', the number of featured slots added or removed;
+ * for 'category', the number of tools selected
+ * @throws {ValidationError} If no tools are selected, an ID repeats, or more than BULK_TOOLS_LIMIT are
+ * @throws {ForeignKeyError} If the category does not exist
+ *
+ * @example
+ * ```ts
+ * const changed = await applyBulkToolAction(['tool-a', 'tool-b'], { type: 'pricing', pricing: 'Free' }, staff.userId);
+ * ```
+ */
+export async function applyBulkToolAction(
+  toolIds: string[],
+  action: BulkToolAction,
+  actorUserId?: string
+): Promise<number> {
+  if (toolIds.length === 0) {
+    throw new ValidationError('toolIds', 'Select at least one tool');
+  }
+  if (new Set(toolIds).size !== toolIds.length) {
+    throw new ValidationError('toolIds', 'Each tool may appear only once');
+  }
+  if (toolIds.length > BULK_TOOLS_LIMIT) {
+    throw new ValidationError('toolIds', `Select at most ${BULK_TOOLS_LIMIT} tools`);
+  }
+
+  const repo = getToolsRepository(actorUserId);
+
+  switch (action.type) {
+    case 'verify':
+      return repo.updateMany(toolIds, mapToolToUpdate({ verified: true }));
+    case 'feature':
+      // Featured slots are what the homepage and Free AI Tools panel show
+      return action.featured
+        ? addFeaturedTools(toolIds, actorUserId)
+        : removeFeaturedTools(toolIds, actorUserId);
+    case 'pricing':
+      return repo.updateMany(toolIds, mapToolToUpdate({ pricing: action.pricing }));
+    case 'category':
+      await repo.linkManyToCategory(toolIds, action.categoryId);
+      return toolIds.length;
+    case 'archive':
+      return repo.archiveMany(toolIds);
+  }
+}
+
+/** Days an archived tool is kept before purgeArchivedTools deletes it */
+export const ARCHIVE_RETENTION_DAYS = 30;
+
+/**
+ * Permanently deletes tools archived longer than the retention window.
+ * Category links, featured slots and favorites cascade with them.
+ * The purge_archived_tools database job runs this nightly; call it directly
+ * to purge on demand.
+ *
+ * @param retentionDays - Minimum days since archiving (default: ARCHIVE_RETENTION_DAYS)
+ * @returns Number of tools purged
+ *
+ * @example
+ * ```ts
+ * const purged = await purgeArchivedTools();
+ * ```
+ */
+export async function purgeArchivedTools(
+  retentionDays: number = ARCHIVE_RETENTION_DAYS
+): Promise<number> {
+  if (!Number.isInteger(retentionDays) || retentionDays < 0) {
+    throw new ValidationError('retentionDays', 'Retention must be a whole number of days');
+  }
+
   const repo = getToolsRepository();
+  return repo.purgeArchived(retentionDays);
+}
 
-  // Delete the tool - cascade will handle tool_categories cleanup
-  await repo.delete(id);
+/**
+ * Compares two revision states field by field.
+ * Category sets are compared regardless of order and reported under 'categories'.
+ *
+ * @param previous - The older state, or null for a tool's first revision
+ * @param current - The newer state
+ * @returns Changed fields sorted by name; empty for a first revision
+ *
+ * @example
+ * ```ts
+ * diffToolRevisions(
+ *   { snapshot: { name: 'ChatGPT' }, categoryIds: [] },
+ *   { snapshot: { name: 'ChatGPT Plus' }, categoryIds: [] }
+ * );
+ * // [{ field: 'name', before: 'ChatGPT', after: 'ChatGPT Plus' }]
+ * ```
+ */
+export function diffToolRevisions(
+  previous: ToolRevisionState | null,
+  current: ToolRevisionState
+): ToolRevisionChange[] {
+  if (!previous) {
+    return [];
+  }
+
+  const fields = new Set([...Object.keys(previous.snapshot), ...Object.keys(current.snapshot)]);
+  const changes: ToolRevisionChange[] = Array.from(fields)
+    .filter(
+      (field) =>
+        JSON.stringify(previous.snapshot[field] ?? null) !==
+        JSON.stringify(current.snapshot[field] ?? null)
+    )
+    .map((field) => ({
+      field,
+      before: previous.snapshot[field] ?? null,
+      after: current.snapshot[field] ?? null,
+    }));
+
+  const before = [...previous.categoryIds].sort();
+  const after = [...current.categoryIds].sort();
+  if (before.join(',') !== after.join(',')) {
+    changes.push({ field: 'categories', before, after });
+  }
+
+  return changes.sort((a, b) => a.field.localeCompare(b.field));
+}
+
+/**
+ * Reads the stored state of a revision row.
+ */
+function toRevisionState(row: ToolRevisionRow): ToolRevisionState {
+  const snapshot = row.snapshot;
+  return {
+    snapshot:
+      snapshot && typeof snapshot === 'object' && !Array.isArray(snapshot)
+        ? (snapshot as Record<string, unknown>)
+        : {},
+    categoryIds: row.category_ids ?? [],
+  };
+}
+
+/**
+ * Fetches a tool's revision history, newest first, with each revision's
+ * changes against the one before it. Category changes list category names.
+ *
+ * @param toolId - Tool ID
+ * @param limit - Maximum number of revisions (default: TOOL_REVISIONS_LIMIT)
+ * @returns Revisions with field-level changes
+ *
+ * @example
+ * ```ts
+ * const [latest, ...older] = await getToolRevisions('tool-uuid');
+ * ```
+ */
+export async function getToolRevisions(
+  toolId: string,
+  limit: number = TOOL_REVISIONS_LIMIT
+): Promise<ToolRevision[]> {
+  const repo = createToolRevisionsRepository(createAdminClient());
+
+  // One extra row so the oldest shown revision can still be diffed
+  const [rows, staff, categories] = await Promise.all([
+    repo.findByTool(toolId, limit + 1),
+    listStaff(),
+    getCategories(),
+  ]);
+
+  const actorLabels = new Map(staff.map((member) => [member.userId, member.email]));
+  const categoryNames = new Map(categories.map((category) => [category.id, category.name]));
+  const toNames = (ids: unknown) =>
+    (ids as string[]).map((id) => categoryNames.get(id) ?? id);
+
+  return rows.slice(0, limit).map((row, index) => {
+    const previous = rows[index + 1];
+    const changes = diffToolRevisions(
+      previous ? toRevisionState(previous) : null,
+      toRevisionState(row)
+    ).map((change) =>
+      change.field === 'categories'
+        ? { ...change, before: toNames(change.before), after: toNames(change.after) }
+        : change
+    );
+
+    return {
+      id: row.id,
+      toolId: row.tool_id,
+      revisionNumber: row.revision_number,
+      actor: row.actor,
+      actorLabel: actorLabels.get(row.actor) ?? row.actor,
+      createdAt: row.created_at,
+      categoryIds: row.category_ids ?? [],
+      changes,
+    };
+  });
+}
+
+/**
+ * Restores a tool to an earlier revision: its editorial fields and its
+ * category set. The revert is itself recorded as a new revision, so it can
+ * be undone the same way. Counters and the archived state are not changed.
+ *
+ * @param toolId - Tool ID
+ * @param revisionId - Revision to restore
+ * @param actorUserId - Staff user recorded as the actor in the audit log
+ * @returns The restored tool
+ * @throws {NotFoundError} If the revision does not belong to this tool
+ * @throws {ForeignKeyError} If a category of that revision no longer exists
+ *
+ * @example
+ * ```ts
+ * const tool = await revertToolRevision('tool-uuid', 'revision-uuid', staff.userId);
+ * ```
+ */
+export async function revertToolRevision(
+  toolId: string,
+  revisionId: string,
+  actorUserId?: string
+): Promise<Tool> {
+  const revision = await createToolRevisionsRepository(createAdminClient())
+    .findBy('id', revisionId);
+
+  if (!revision || revision.tool_id !== toolId) {
+    throw new NotFoundError('Tool revision', revisionId);
+  }
+
+  const { snapshot, categoryIds } = toRevisionState(revision);
+  const repo = getToolsRepository(actorUserId);
+  const row = await repo.updateWithCategories(toolId, snapshot, categoryIds);
+
+  return mapToolRowToTool(row);
 }
+
@@ -1,5 +1,18 @@
 import { createClient } from '@supabase/supabase-js'
 import type { Database } from './types'
+import { AUDIT_ACTOR_HEADER } from '@/lib/types/audit'
+
+/**
+ * Options for createAdminClient.
+ */
+export interface AdminClientOptions {
+  /**
+   * Actor recorded in audit_log for writes made through this client, such as
+   * the acting staff member's auth user id. Service-role requests carry no
+   * auth user, so without it the audit log records "system".
+   */
+  auditActor?: string
+}
 
 /**
  * Creates a Supabase client with SERVICE ROLE key.
@@ -28,10 +41,11 @@ import type { Database } from './types'
  * }
  * ```
  * 
+ * @param options - Audit actor for writes made through the client
  * @throws {Error} If SUPABASE_SERVICE_ROLE_KEY environment variable is missing
  * @returns Supabase client with service role privileges
  */
-export function createAdminClient() {
+export function createAdminClient(options?: AdminClientOptions) {
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
   const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
 
@@ -48,5 +62,8 @@ export function createAdminClient() {
       autoRefreshToken: false,
       persistSession: false,
     },
+    ...(options?.auditActor && {
+      global: { headers: { [AUDIT_ACTOR_HEADER]: options.auditActor } },
+    }),
   })
 }
@@ -39,6 +39,9 @@ export type {
   UserFavoriteRow,
   UserFavoriteInsert,
   UserFavoriteUpdate,
+  AdminUserRow,
+  AdminUserInsert,
+  AdminUserUpdate,
 } from './types'
 
 // Re-export middleware types
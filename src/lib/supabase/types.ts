@@ -18,11 +18,78 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      admin_users: {
+        Row: {
+          created_at: string | null
+          email: string
+          id: string
+          invited_by: string | null
+          role: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          email: string
+          id?: string
+          invited_by?: string | null
+          role?: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          email?: string
+          id?: string
+          invited_by?: string | null
+          role?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      audit_log: {
+        Row: {
+          actor: string
+          after: Json | null
+          before: Json | null
+          changes: Json
+          created_at: string
+          entity: string
+          entity_id: string | null
+          id: string
+          operation: string
+        }
+        Insert: {
+          actor: string
+          after?: Json | null
+          before?: Json | null
+          changes?: Json
+          created_at?: string
+          entity: string
+          entity_id?: string | null
+          id?: string
+          operation: string
+        }
+        Update: {
+          actor?: string
+          after?: Json | null
+          before?: Json | null
+          changes?: Json
+          created_at?: string
+          entity?: string
+          entity_id?: string | null
+          id?: string
+          operation?: string
+        }
+        Relationships: []
+      }
       categories: {
         Row: {
           created_at: string | null
           description: string | null
           display_order: number | null
+          group_id: string | null
           icon: string | null
           id: string
           metadata: Json | null
@@ -35,6 +102,7 @@ export type Database = {
           created_at?: string | null
           description?: string | null
           display_order?: number | null
+          group_id?: string | null
           icon?: string | null
           id?: string
           metadata?: Json | null
@@ -47,6 +115,7 @@ export type Database = {
           created_at?: string | null
           description?: string | null
           display_order?: number | null
+          group_id?: string | null
           icon?: string | null
           id?: string
           metadata?: Json | null
@@ -55,7 +124,15 @@ export type Database = {
           tool_count?: number | null
           updated_at?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "categories_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "category_groups"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       category_groups: {
         Row: {
@@ -84,6 +161,81 @@ export type Database = {
         }
         Relationships: []
       }
+      collection_items: {
+        Row: {
+          collection_id: string
+          created_at: string
+          id: string
+          note: string | null
+          position: number
+          tool_id: string
+          updated_at: string
+        }
+        Insert: {
+          collection_id: string
+          created_at?: string
+          id?: string
+          note?: string | null
+          position?: number
+          tool_id: string
+          updated_at?: string
+        }
+        Update: {
+          collection_id?: string
+          created_at?: string
+          id?: string
+          note?: string | null
+          position?: number
+          tool_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "collection_items_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: false
+            referencedRelation: "collections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "collection_items_tool_id_fkey"
+            columns: ["tool_id"]
+            isOneToOne: false
+            referencedRelation: "tools"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      collections: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+          visibility: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+          visibility?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+          visibility?: string
+        }
+        Relationships: []
+      }
       faqs: {
         Row: {
           answer: string
@@ -91,6 +243,7 @@ export type Database = {
           display_order: number | null
           id: string
           question: string
+          scope: string
         }
         Insert: {
           answer: string
@@ -98,6 +251,7 @@ export type Database = {
           display_order?: number | null
           id?: string
           question: string
+          scope: string
         }
         Update: {
           answer?: string
@@ -105,6 +259,7 @@ export type Database = {
           display_order?: number | null
           id?: string
           question?: string
+          scope?: string
         }
         Relationships: []
       }
@@ -112,31 +267,247 @@ export type Database = {
         Row: {
           created_at: string | null
           display_order: number | null
+          ends_at: string | null
           id: string
+          starts_at: string | null
           tool_id: string
         }
         Insert: {
           created_at?: string | null
           display_order?: number | null
+          ends_at?: string | null
           id?: string
+          starts_at?: string | null
           tool_id: string
         }
         Update: {
           created_at?: string | null
           display_order?: number | null
+          ends_at?: string | null
           id?: string
+          starts_at?: string | null
           tool_id?: string
         }
         Relationships: [
           {
             foreignKeyName: "featured_tools_tool_id_fkey"
             columns: ["tool_id"]
+            isOneToOne: true
+            referencedRelation: "tools"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      review_reports: {
+        Row: {
+          created_at: string
+          details: string | null
+          id: string
+          reason: string
+          reporter_id: string
+          resolved_at: string | null
+          resolved_by: string | null
+          review_id: string
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          reason: string
+          reporter_id: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          review_id: string
+          status?: string
+        }
+        Update: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          reason?: string
+          reporter_id?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          review_id?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_reports_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: false
+            referencedRelation: "reviews"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      review_votes: {
+        Row: {
+          created_at: string
+          helpful: boolean
+          id: string
+          review_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          helpful: boolean
+          id?: string
+          review_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          helpful?: boolean
+          id?: string
+          review_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_votes_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: false
+            referencedRelation: "reviews"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reviews: {
+        Row: {
+          author_name: string
+          body: string
+          cons: string[]
+          created_at: string
+          helpful_count: number
+          helpful_score: number
+          hidden_at: string | null
+          hidden_by: string | null
+          hidden_reason: string | null
+          id: string
+          pros: string[]
+          rating: number
+          report_count: number
+          title: string
+          tool_id: string
+          unhelpful_count: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          author_name: string
+          body: string
+          cons?: string[]
+          created_at?: string
+          helpful_count?: number
+          helpful_score?: number
+          hidden_at?: string | null
+          hidden_by?: string | null
+          hidden_reason?: string | null
+          id?: string
+          pros?: string[]
+          rating: number
+          report_count?: number
+          title: string
+          tool_id: string
+          unhelpful_count?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          author_name?: string
+          body?: string
+          cons?: string[]
+          created_at?: string
+          helpful_count?: number
+          helpful_score?: number
+          hidden_at?: string | null
+          hidden_by?: string | null
+          hidden_reason?: string | null
+          id?: string
+          pros?: string[]
+          rating?: number
+          report_count?: number
+          title?: string
+          tool_id?: string
+          unhelpful_count?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reviews_tool_id_fkey"
+            columns: ["tool_id"]
             isOneToOne: false
             referencedRelation: "tools"
             referencedColumns: ["id"]
           },
         ]
       }
+      scraper_runs: {
+        Row: {
+          categories_scraped: number
+          error_count: number
+          finished_at: string
+          id: string
+          pages_scraped: number
+          started_at: string
+          status: string
+          tools_extracted: number
+          version: string | null
+        }
+        Insert: {
+          categories_scraped?: number
+          error_count?: number
+          finished_at?: string
+          id?: string
+          pages_scraped?: number
+          started_at: string
+          status: string
+          tools_extracted?: number
+          version?: string | null
+        }
+        Update: {
+          categories_scraped?: number
+          error_count?: number
+          finished_at?: string
+          id?: string
+          pages_scraped?: number
+          started_at?: string
+          status?: string
+          tools_extracted?: number
+          version?: string | null
+        }
+        Relationships: []
+      }
+      slug_redirects: {
+        Row: {
+          created_at: string
+          entity: string
+          entity_id: string
+          id: string
+          old_slug: string
+        }
+        Insert: {
+          created_at?: string
+          entity: string
+          entity_id: string
+          id?: string
+          old_slug: string
+        }
+        Update: {
+          created_at?: string
+          entity?: string
+          entity_id?: string
+          id?: string
+          old_slug?: string
+        }
+        Relationships: []
+      }
       subcategories: {
         Row: {
           category_id: string
@@ -211,10 +582,116 @@ export type Database = {
           },
         ]
       }
+      tool_revisions: {
+        Row: {
+          actor: string
+          category_ids: string[]
+          created_at: string
+          id: string
+          revision_number: number
+          snapshot: Json
+          tool_id: string
+          transaction_id: number
+        }
+        Insert: {
+          actor: string
+          category_ids?: string[]
+          created_at?: string
+          id?: string
+          revision_number: number
+          snapshot: Json
+          tool_id: string
+          transaction_id?: number
+        }
+        Update: {
+          actor?: string
+          category_ids?: string[]
+          created_at?: string
+          id?: string
+          revision_number?: number
+          snapshot?: Json
+          tool_id?: string
+          transaction_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tool_revisions_tool_id_fkey"
+            columns: ["tool_id"]
+            isOneToOne: false
+            referencedRelation: "tools"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tool_submissions: {
+        Row: {
+          category_ids: string[]
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          pricing: string
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          short_description: string
+          slug: string
+          status: string
+          submitter_email: string
+          submitter_user_id: string | null
+          tool_id: string | null
+          tracking_token: string
+          updated_at: string
+          website_domain: string | null
+          website_url: string
+        }
+        Insert: {
+          category_ids?: string[]
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          pricing: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          short_description: string
+          slug: string
+          status?: string
+          submitter_email: string
+          submitter_user_id?: string | null
+          tool_id?: string | null
+          tracking_token?: string
+          updated_at?: string
+          website_url: string
+        }
+        Update: {
+          category_ids?: string[]
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          pricing?: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          short_description?: string
+          slug?: string
+          status?: string
+          submitter_email?: string
+          submitter_user_id?: string | null
+          tool_id?: string | null
+          tracking_token?: string
+          updated_at?: string
+          website_url?: string
+        }
+        Relationships: []
+      }
       tools: {
         Row: {
           change_percentage: number | null
           created_at: string | null
+          deleted_at: string | null
           description: string | null
           external_url: string | null
           free_tier_details: string | null
@@ -239,6 +716,7 @@ export type Database = {
         Insert: {
           change_percentage?: number | null
           created_at?: string | null
+          deleted_at?: string | null
           description?: string | null
           external_url?: string | null
           free_tier_details?: string | null
@@ -263,6 +741,7 @@ export type Database = {
         Update: {
           change_percentage?: number | null
           created_at?: string | null
+          deleted_at?: string | null
           description?: string | null
           external_url?: string | null
           free_tier_details?: string | null
@@ -286,6 +765,30 @@ export type Database = {
         }
         Relationships: []
       }
+      user_bans: {
+        Row: {
+          banned_by: string
+          created_at: string
+          id: string
+          reason: string
+          user_id: string
+        }
+        Insert: {
+          banned_by: string
+          created_at?: string
+          id?: string
+          reason: string
+          user_id: string
+        }
+        Update: {
+          banned_by?: string
+          created_at?: string
+          id?: string
+          reason?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_favorites: {
         Row: {
           category_id: string | null
@@ -321,12 +824,160 @@ export type Database = {
           },
         ]
       }
+      user_pinned_tools: {
+        Row: {
+          color: string
+          created_at: string
+          display_order: number
+          icon_url: string | null
+          id: string
+          name: string | null
+          tool_id: string | null
+          updated_at: string
+          url: string | null
+          user_id: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          display_order?: number
+          icon_url?: string | null
+          id?: string
+          name?: string | null
+          tool_id?: string | null
+          updated_at?: string
+          url?: string | null
+          user_id: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          display_order?: number
+          icon_url?: string | null
+          id?: string
+          name?: string | null
+          tool_id?: string | null
+          updated_at?: string
+          url?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_pinned_tools_tool_id_fkey"
+            columns: ["tool_id"]
+            isOneToOne: false
+            referencedRelation: "tools"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      approve_submission: {
+        Args: {
+          target_id: string
+          tool_fields: Json
+          category_ids: string[]
+          reviewer_id: string
+        }
+        Returns: Database["public"]["Tables"]["tools"]["Row"]
+      }
+      count_tools_added: {
+        Args: { bucket: string; since: string }
+        Returns: { period_start: string; tool_count: number }[]
+      }
+      count_tools_by: {
+        Args: { dimension: string }
+        Returns: { value: string; tool_count: number }[]
+      }
+      filter_tools: {
+        Args: {
+          search_query?: string | null
+          category_slugs?: string[] | null
+          pricing_values?: string[] | null
+          tag_values?: string[] | null
+          only_verified?: boolean | null
+          only_featured?: boolean | null
+        }
+        Returns: Database["public"]["Tables"]["tools"]["Row"][]
+      }
+      find_empty_categories: {
+        Args: Record<PropertyKey, never>
+        Returns: Database["public"]["Tables"]["categories"]["Row"][]
+      }
+      find_tools_by_domain: {
+        Args: { domain: string }
+        Returns: Database["public"]["Tables"]["tools"]["Row"][]
+      }
+      has_staff_role: {
+        Args: { required_role: string }
+        Returns: boolean
+      }
+      item_count: {
+        Args: { collection: Database["public"]["Tables"]["collections"]["Row"] }
+        Returns: number
+      }
+      merge_categories: {
+        Args: { source_id: string; target_id: string }
+        Returns: number
+      }
+      purge_archived_tools: {
+        Args: { retention?: string }
+        Returns: number
+      }
+      reorder_collection_items: {
+        Args: { target_collection_id: string; item_ids: string[] }
+        Returns: undefined
+      }
+      resolve_slug_redirect: {
+        Args: { target_entity: string; requested_slug: string }
+        Returns: string | null
+      }
+      save_tool: {
+        Args: {
+          target_id: string | null
+          tool_fields: Json
+          category_ids?: string[] | null
+        }
+        Returns: Database["public"]["Tables"]["tools"]["Row"]
+      }
+      search_tools: {
+        Args: { search_query: string; result_limit?: number }
+        Returns: {
+          change_percentage: number | null
+          created_at: string | null
+          description: string | null
+          external_url: string | null
+          free_tier_details: string | null
+          fuzzy_match: boolean
+          id: string
+          image_url: string | null
+          is_featured: boolean | null
+          is_new: boolean | null
+          metadata: Json | null
+          monthly_visits: number | null
+          name: string
+          pricing: string | null
+          rank: number
+          review_count: number | null
+          review_score: number | null
+          saved_count: number | null
+          short_description: string | null
+          slug: string
+          snippet: string
+          tags: string[] | null
+          updated_at: string | null
+          verified: boolean | null
+          website_url: string
+        }[]
+      }
+      tool_dashboard_totals: {
+        Args: Record<PropertyKey, never>
+        Returns: { unverified_tools: number; favorites: number; reviews: number }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -386,7 +1037,72 @@ export type FaqRow = Tables<'faqs'>
 export type FaqInsert = TablesInsert<'faqs'>
 export type FaqUpdate = TablesUpdate<'faqs'>
 
+// Admin Users
+export type AdminUserRow = Tables<'admin_users'>
+export type AdminUserInsert = TablesInsert<'admin_users'>
+export type AdminUserUpdate = TablesUpdate<'admin_users'>
+
 // User Favorites
 export type UserFavoriteRow = Tables<'user_favorites'>
 export type UserFavoriteInsert = TablesInsert<'user_favorites'>
 export type UserFavoriteUpdate = TablesUpdate<'user_favorites'>
+
+// User Pinned Tools
+export type UserPinnedToolRow = Tables<'user_pinned_tools'>
+export type UserPinnedToolInsert = TablesInsert<'user_pinned_tools'>
+export type UserPinnedToolUpdate = TablesUpdate<'user_pinned_tools'>
+
+// Reviews
+export type ReviewRow = Tables<'reviews'>
+export type ReviewInsert = TablesInsert<'reviews'>
+export type ReviewUpdate = TablesUpdate<'reviews'>
+
+// Review Votes
+export type ReviewVoteRow = Tables<'review_votes'>
+export type ReviewVoteInsert = TablesInsert<'review_votes'>
+export type ReviewVoteUpdate = TablesUpdate<'review_votes'>
+
+// Review Reports
+export type ReviewReportRow = Tables<'review_reports'>
+export type ReviewReportInsert = TablesInsert<'review_reports'>
+export type ReviewReportUpdate = TablesUpdate<'review_reports'>
+
+// User Bans
+export type UserBanRow = Tables<'user_bans'>
+export type UserBanInsert = TablesInsert<'user_bans'>
+export type UserBanUpdate = TablesUpdate<'user_bans'>
+
+// Collections
+export type CollectionRow = Tables<'collections'>
+export type CollectionInsert = TablesInsert<'collections'>
+export type CollectionUpdate = TablesUpdate<'collections'>
+
+// Collection Items
+export type CollectionItemRow = Tables<'collection_items'>
+export type CollectionItemInsert = TablesInsert<'collection_items'>
+export type CollectionItemUpdate = TablesUpdate<'collection_items'>
+
+// Audit Log
+export type AuditLogRow = Tables<'audit_log'>
+export type AuditLogInsert = TablesInsert<'audit_log'>
+export type AuditLogUpdate = TablesUpdate<'audit_log'>
+
+// Tool Revisions
+export type ToolRevisionRow = Tables<'tool_revisions'>
+export type ToolRevisionInsert = TablesInsert<'tool_revisions'>
+export type ToolRevisionUpdate = TablesUpdate<'tool_revisions'>
+
+// Scraper Runs
+export type ScraperRunRow = Tables<'scraper_runs'>
+export type ScraperRunInsert = TablesInsert<'scraper_runs'>
+export type ScraperRunUpdate = TablesUpdate<'scraper_runs'>
+
+// Tool Submissions
+export type ToolSubmissionRow = Tables<'tool_submissions'>
+export type ToolSubmissionInsert = TablesInsert<'tool_submissions'>
+export type ToolSubmissionUpdate = TablesUpdate<'tool_submissions'>
+
+// Slug Redirects
+export type SlugRedirectRow = Tables<'slug_redirects'>
+export type SlugRedirectInsert = TablesInsert<'slug_redirects'>
+export type SlugRedirectUpdate = TablesUpdate<'slug_redirects'>
@@ -0,0 +1,67 @@
+/**
+ * Tables whose rows are recorded in the audit log.
+ */
+export const AUDIT_ENTITIES = ['tools', 'categories', 'featured_tools', 'faqs'] as const;
+
+export type AuditEntity = (typeof AUDIT_ENTITIES)[number];
+
+/**
+ * Kinds of change recorded in the audit log.
+ * archive/restore are updates that set or clear tools.deleted_at.
+ */
+export const AUDIT_OPERATIONS = ['insert', 'update', 'delete', 'archive', 'restore'] as const;
+
+export type AuditOperation = (typeof AUDIT_OPERATIONS)[number];
+
+/**
+ * Request header naming the actor for service-role writes, which carry no
+ * auth user (read by audit_actor() in the database).
+ */
+export const AUDIT_ACTOR_HEADER = 'x-audit-actor';
+
+/**
+ * Actor recorded for writes made by the free-ai-tools scraper.
+ */
+export const SCRAPER_ACTOR = 'scraper';
+
+/**
+ * Actor recorded when a write names no actor, e.g. scheduled jobs.
+ */
+export const SYSTEM_ACTOR = 'system';
+
+export interface AuditFieldChange {
+    before: unknown;
+    after: unknown;
+}
+
+/**
+ * One recorded mutation (audit_log table).
+ */
+export interface AuditEntry {
+    id: string;
+    actor: string; // Auth user id, SCRAPER_ACTOR or SYSTEM_ACTOR
+    actorLabel: string; // Staff email when the actor is a known user, otherwise the actor itself
+    entity: string;
+    entityId: string | null;
+    operation: AuditOperation;
+    before: Record<string, unknown> | null;
+    after: Record<string, unknown> | null;
+    changes: Record<string, AuditFieldChange>;
+    createdAt: string;
+}
+
+/**
+ * Filters for the admin audit log. Dates are YYYY-MM-DD and inclusive.
+ */
+export interface AuditLogFilters {
+    actor?: string;
+    entity?: AuditEntity;
+    from?: string;
+    to?: string;
+}
+
+export interface AuditLogPage {
+    items: AuditEntry[];
+    total: number;
+    nextCursor: string | null;
+}
@@ -0,0 +1,199 @@
+/**
+ * Property-Based Tests for the Tool Collection Model
+ *
+ * **Feature: tool-collections, Property 1: Exports keep every entry intact and inert**
+ *
+ * Tests that the CSV export parses back to one row per entry with the
+ * original fields, and that fields a spreadsheet would run as formulas are
+ * defused. Also tests that the Markdown export has one linked line per tool
+ * whatever the names contain, that export file names are safe slugs and
+ * that collection input is trimmed and bounded.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  COLLECTION_EXPORT_FORMATS,
+  CollectionInputSchema,
+  toCollectionCsv,
+  toCollectionFileName,
+  toCollectionMarkdown,
+  toCsvField,
+  type CollectionItem,
+  type CollectionWithItems,
+} from './collection';
+
+const BASE_URL = 'https://example.com';
+
+// =============================================================================
+// Arbitraries (Generators) for Property-Based Testing
+// =============================================================================
+
+// Names and notes as users type them, markup and CSV specials included
+const textArbitrary = fc.string({
+  unit: fc.constantFrom('a', 'Z', '7', ' ', ',', '"', '\n', '=', '-', '+', '@', '*', '_', '[', ']', '(', ')', '#', '|', '<', '\\', '`'),
+  minLength: 1,
+  maxLength: 30,
+});
+
+const slugArbitrary = fc.stringMatching(/^[a-z0-9]+(-[a-z0-9]+){0,3}$/);
+
+const itemArbitrary: fc.Arbitrary<CollectionItem> = fc.record({
+  id: fc.uuid(),
+  note: fc.option(textArbitrary, { nil: null }),
+  position: fc.nat({ max: 99 }),
+  tool: fc.record({
+    id: fc.uuid(),
+    name: textArbitrary,
+    slug: slugArbitrary,
+    shortDescription: fc.oneof(fc.constant(''), textArbitrary),
+    websiteUrl: fc.constantFrom('https://runway.ml', 'https://example.com/a,b'),
+    image: fc.constant('/images/tool.png'),
+    pricing: fc.constantFrom('Free' as const, 'Freemium' as const, 'Paid' as const),
+  }),
+});
+
+const collectionArbitrary: fc.Arbitrary<CollectionWithItems> = fc
+  .record({
+    id: fc.uuid(),
+    userId: fc.uuid(),
+    name: textArbitrary,
+    description: fc.option(textArbitrary, { nil: null }),
+    visibility: fc.constantFrom('public' as const, 'unlisted' as const, 'private' as const),
+    items: fc.array(itemArbitrary, { maxLength: 8 }),
+    createdAt: fc.constant('2026-10-19T00:00:00.000Z'),
+    updatedAt: fc.constant('2026-10-19T00:00:00.000Z'),
+  })
+  .map((collection) => ({ ...collection, itemCount: collection.items.length }));
+
+/**
+ * Minimal RFC 4180 reader used to check the export.
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\r' && text[i + 1] === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      i++;
+    } else {
+      field += char;
+    }
+  }
+  return rows;
+}
+
+function defused(value: string): string {
+  return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+// =============================================================================
+// Property Tests
+// =============================================================================
+
+describe('Tool Collection Property Tests', () => {
+  it('exports CSV that parses back to a header and one row per entry', () => {
+    fc.assert(
+      fc.property(collectionArbitrary, (collection) => {
+        const rows = parseCsv(toCollectionCsv(collection, BASE_URL));
+
+        expect(rows[0]).toEqual(['position', 'name', 'pricing', 'website', 'page', 'note']);
+        expect(rows).toHaveLength(collection.items.length + 1);
+        collection.items.forEach((item, index) => {
+          expect(rows[index + 1]).toEqual([
+            String(index + 1),
+            defused(item.tool.name),
+            item.tool.pricing,
+            item.tool.websiteUrl,
+            `${BASE_URL}/tool/${item.tool.slug}`,
+            defused(item.note ?? ''),
+          ]);
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('never starts a CSV field with a formula character', () => {
+    fc.assert(
+      fc.property(textArbitrary, (value) => {
+        const field = toCsvField(value);
+        const content = field.startsWith('"') ? field.slice(1) : field;
+        expect(content).not.toMatch(/^[=+\-@\t\r]/);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('exports Markdown with one numbered, linked line per tool', () => {
+    fc.assert(
+      fc.property(collectionArbitrary, (collection) => {
+        const lines = toCollectionMarkdown(collection, BASE_URL).split('\n').slice(0, -1);
+        const toolLines = lines.filter((line) => /^\d+\. \[/.test(line));
+        const noteLines = lines.filter((line) => line.startsWith('   > '));
+
+        expect(lines[0].startsWith('# ')).toBe(true);
+        expect(toolLines).toHaveLength(collection.items.length);
+        expect(noteLines).toHaveLength(collection.items.filter((item) => item.note).length);
+        collection.items.forEach((item, index) => {
+          expect(toolLines[index].startsWith(`${index + 1}. [`)).toBe(true);
+          expect(toolLines[index]).toContain(`](${BASE_URL}/tool/${item.tool.slug})`);
+          // Brackets in the name are escaped, so the link text cannot close early
+          expect(toolLines[index].split(`](${BASE_URL}/tool/`)).toHaveLength(2);
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('names export files with a lowercase slug and the format extension', () => {
+    fc.assert(
+      fc.property(textArbitrary, fc.constantFrom(...COLLECTION_EXPORT_FORMATS), (name, format) => {
+        const fileName = toCollectionFileName(name, format);
+        expect(fileName).toMatch(/^[a-z0-9]+(-[a-z0-9]+)*\.(md|csv)$/);
+        expect(fileName.endsWith(format === 'markdown' ? '.md' : '.csv')).toBe(true);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('trims collection input and rejects blank names and unknown visibility', () => {
+    fc.assert(
+      fc.property(
+        fc.stringMatching(/^[A-Za-z][A-Za-z0-9 ]{0,60}[A-Za-z0-9]$/),
+        fc.constantFrom('public', 'unlisted', 'private'),
+        (name, visibility) => {
+          const result = CollectionInputSchema.safeParse({ name: `  ${name}  `, description: ' ', visibility });
+          expect(result.success).toBe(true);
+          expect(result.data).toEqual({ name: name.trim(), description: '', visibility });
+        }
+      ),
+      { numRuns: 100 }
+    );
+
+    expect(CollectionInputSchema.safeParse({ name: '   ', description: '', visibility: 'public' }).success).toBe(false);
+    expect(CollectionInputSchema.safeParse({ name: 'Mine', description: '', visibility: 'friends' }).success).toBe(false);
+    expect(CollectionInputSchema.safeParse({ name: 'x'.repeat(81), description: '', visibility: 'public' }).success).toBe(false);
+  });
+});
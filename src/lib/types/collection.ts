@@ -0,0 +1,179 @@
+/**
+ * Tool Collection Model
+ *
+ * Named, ordered lists of tools curated by signed-in users, with a note on
+ * each entry. Public and unlisted collections are shared through their
+ * /collections/<id> page and can be exported as Markdown or CSV.
+ */
+
+import { z } from 'zod';
+import type { PricingType, Tool } from './tool';
+
+export const COLLECTION_VISIBILITIES = ['public', 'unlisted', 'private'] as const;
+
+export type CollectionVisibility = (typeof COLLECTION_VISIBILITIES)[number];
+
+export const COLLECTION_VISIBILITY_LABELS: Record<CollectionVisibility, string> = {
+    public: 'Public',
+    unlisted: 'Unlisted',
+    private: 'Private',
+};
+
+export const COLLECTION_VISIBILITY_DESCRIPTIONS: Record<CollectionVisibility, string> = {
+    public: 'Anyone can find and open it',
+    unlisted: 'Anyone with the link can open it',
+    private: 'Only you can open it',
+};
+
+/** Most tools a collection may hold */
+export const MAX_COLLECTION_ITEMS = 100;
+
+export const COLLECTION_EXPORT_FORMATS = ['markdown', 'csv'] as const;
+
+export type CollectionExportFormat = (typeof COLLECTION_EXPORT_FORMATS)[number];
+
+/**
+ * A new or edited collection.
+ */
+export const CollectionInputSchema = z.object({
+    name: z.string().trim().min(1, 'Name is required').max(80, 'Keep the name under 80 characters'),
+    description: z.string().trim().max(500, 'Keep the description under 500 characters'),
+    visibility: z.enum(COLLECTION_VISIBILITIES, 'Pick who can see the collection'),
+});
+
+/** Raw form values */
+export type CollectionInput = z.input<typeof CollectionInputSchema>;
+
+/** Validated collection values */
+export type CollectionValues = z.output<typeof CollectionInputSchema>;
+
+/**
+ * The note on a collection entry.
+ */
+export const CollectionNoteSchema = z.string().trim().max(500, 'Keep the note under 500 characters');
+
+/**
+ * A collection without its entries (collections table).
+ */
+export interface Collection {
+    id: string;
+    userId: string;
+    name: string;
+    description: string | null;
+    visibility: CollectionVisibility;
+    itemCount: number;
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * A tool in a collection with the curator's note.
+ */
+export interface CollectionItem {
+    id: string;
+    note: string | null;
+    position: number;
+    tool: Pick<Tool, 'id' | 'name' | 'slug' | 'shortDescription' | 'websiteUrl' | 'image'> & { pricing: PricingType };
+}
+
+/**
+ * A collection with its entries in order.
+ */
+export interface CollectionWithItems extends Collection {
+    items: CollectionItem[];
+}
+
+/**
+ * One of the signed-in user's collections in the add-to-collection menu.
+ */
+export interface CollectionChoice {
+    id: string;
+    name: string;
+    visibility: CollectionVisibility;
+    itemCount: number;
+    hasTool: boolean; // Whether the tool the menu was opened for is in the collection
+}
+
+/**
+ * Whether visitors other than the owner may open a collection.
+ */
+export function isCollectionShared(visibility: CollectionVisibility): boolean {
+    return visibility !== 'private';
+}
+
+/**
+ * Escapes text for a Markdown line so tool names and notes cannot add
+ * links, emphasis or headings of their own.
+ */
+function escapeMarkdown(text: string): string {
+    return text
+        .replace(/\s*\n\s*/g, ' ')
+        .replace(/[\\`*_[\]<>|]/g, '\\$&')
+        .replace(/^([#>+-])/, '\\$1');
+}
+
+/**
+ * Renders a collection as a Markdown list of linked tools with their notes.
+ *
+ * @param collection - Collection to export
+ * @param baseUrl - Site origin used for the tool page links
+ *
+ * @example
+ * toCollectionMarkdown(collection, 'https://example.com');
+ * // '# Video pipeline\n\n1. [Runway](https://example.com/tool/runway) - Editing\n   > Great for cut-downs\n'
+ */
+export function toCollectionMarkdown(collection: CollectionWithItems, baseUrl: string): string {
+    const lines = [`# ${escapeMarkdown(collection.name)}`, ''];
+    if (collection.description) {
+        lines.push(escapeMarkdown(collection.description), '');
+    }
+    collection.items.forEach((item, index) => {
+        const summary = item.tool.shortDescription ? ` - ${escapeMarkdown(item.tool.shortDescription)}` : '';
+        lines.push(`${index + 1}. [${escapeMarkdown(item.tool.name)}](${baseUrl}/tool/${item.tool.slug})${summary}`);
+        if (item.note) {
+            lines.push(`   > ${escapeMarkdown(item.note)}`);
+        }
+    });
+    return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Quotes a CSV field when needed (RFC 4180). Fields that a spreadsheet
+ * would run as a formula are prefixed with an apostrophe.
+ */
+export function toCsvField(value: string): string {
+    const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Renders a collection's entries as CSV with a header row.
+ *
+ * @param collection - Collection to export
+ * @param baseUrl - Site origin used for the tool page links
+ */
+export function toCollectionCsv(collection: CollectionWithItems, baseUrl: string): string {
+    const rows = [
+        ['position', 'name', 'pricing', 'website', 'page', 'note'],
+        ...collection.items.map((item, index) => [
+            String(index + 1),
+            item.tool.name,
+            item.tool.pricing,
+            item.tool.websiteUrl,
+            `${baseUrl}/tool/${item.tool.slug}`,
+            item.note ?? '',
+        ]),
+    ];
+    return `${rows.map(row => row.map(toCsvField).join(',')).join('\r\n')}\r\n`;
+}
+
+/**
+ * File name of an exported collection, from its name.
+ *
+ * @example
+ * toCollectionFileName('Video pipeline!', 'csv'); // 'video-pipeline.csv'
+ */
+export function toCollectionFileName(name: string, format: CollectionExportFormat): string {
+    const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'collection';
+    return `${base}.${format === 'markdown' ? 'md' : 'csv'}`;
+}
@@ -0,0 +1,23 @@
+/**
+ * FAQ scopes for pages that are not tied to a category or tool.
+ */
+export const PAGE_FAQ_SCOPES = ['free-ai-tools', 'midjourney-library'] as const;
+
+export type PageFaqScope = (typeof PAGE_FAQ_SCOPES)[number];
+
+/**
+ * Page an FAQ is shown on: one of PAGE_FAQ_SCOPES, a category page
+ * (category:<slug>) or a tool page (tool:<slug>).
+ */
+export type FaqScope = PageFaqScope | `category:${string}` | `tool:${string}`;
+
+/**
+ * A question and its markdown answer (faqs table).
+ */
+export interface FAQ {
+    id: string;
+    scope: FaqScope;
+    question: string;
+    answer: string; // Markdown; render with renderMarkdown
+    displayOrder: number;
+}
@@ -136,16 +136,6 @@ export const CategoriesListSchema = z.array(
 
 export type CategoryListItem = z.infer<typeof CategoriesListSchema>[number];
 
-/**
- * Schema for featured-tools.json
- */
-export const FeaturedToolsListSchema = z.array(FeaturedToolSchema);
-
-/**
- * Schema for faq.json
- */
-export const FAQListSchema = z.array(FAQItemSchema);
-
 // =============================================================================
 // Validation Helper Functions
 // =============================================================================
@@ -14,6 +14,7 @@ export const MyToolSchema = z.object({
     icon: z.string().url(),
     url: z.string(),
     color: z.string(),
+    toolId: z.string().uuid().optional(), // Set when the item pins a listed tool rather than a custom link
 });
 
 /**
@@ -0,0 +1,124 @@
+/**
+ * Property-Based Tests for the My Tools Dock Model
+ *
+ * **Feature: my-tools-dock, Property 1: Merging a local dock never duplicates or overfills**
+ *
+ * Tests that merging an anonymous dock into an account skips items already
+ * pinned, keeps local order and respects the dock's capacity, and that
+ * stored docks and new pins are validated.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  MAX_PINNED_TOOLS,
+  PinToolInputSchema,
+  getFaviconUrl,
+  parseStoredDock,
+  selectPinsToMerge,
+  toPinInput,
+} from './my-tools';
+import type { MyTool } from './home.types';
+
+// =============================================================================
+// Arbitraries (Generators) for Property-Based Testing
+// =============================================================================
+
+const dockItemArbitrary: fc.Arbitrary<MyTool> = fc.oneof(
+  fc.uuid().map((toolId) => ({
+    id: toolId,
+    toolId,
+    name: 'Tool',
+    icon: 'https://www.google.com/s2/favicons?domain=example.com&sz=64',
+    url: `/tool/${toolId.slice(0, 8)}`,
+    color: '#6B7280',
+  })),
+  fc.constantFrom('/a', '/b', '/c', 'https://example.com/d').map((url) => ({
+    id: url,
+    name: 'Link',
+    icon: 'https://example.com/icon.png',
+    url,
+    color: '#4285F4',
+  }))
+);
+
+const dockArbitrary = fc.array(dockItemArbitrary, { maxLength: MAX_PINNED_TOOLS });
+
+const keyOf = (item: MyTool) => item.toolId ?? item.url;
+
+// =============================================================================
+// Property Tests
+// =============================================================================
+
+describe('My Tools Dock Property Tests', () => {
+  it('merges only items not already pinned, without repeats and within capacity', () => {
+    fc.assert(
+      fc.property(dockArbitrary, dockArbitrary, (account, local) => {
+        const merged = selectPinsToMerge(account, local);
+        const accountKeys = new Set(account.map(keyOf));
+        const mergedKeys = merged.map(keyOf);
+
+        expect(mergedKeys.every((key) => !accountKeys.has(key))).toBe(true);
+        expect(new Set(mergedKeys).size).toBe(mergedKeys.length);
+        expect(account.length + merged.length).toBeLessThanOrEqual(Math.max(account.length, MAX_PINNED_TOOLS));
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('keeps the local order of merged items', () => {
+    fc.assert(
+      fc.property(dockArbitrary, (local) => {
+        const merged = selectPinsToMerge([], local);
+        const positions = merged.map((item) => local.indexOf(item));
+
+        expect(positions).toEqual([...positions].sort((a, b) => a - b));
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('recreates every dock item as a valid pin', () => {
+    fc.assert(
+      fc.property(dockItemArbitrary, (item) => {
+        const pin = toPinInput(item);
+
+        expect(PinToolInputSchema.safeParse(pin).success).toBe(true);
+        expect(pin.kind).toBe(item.toolId ? 'tool' : 'link');
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('round-trips a stored dock and drops malformed ones', () => {
+    fc.assert(
+      fc.property(dockArbitrary, (dock) => {
+        expect(parseStoredDock(JSON.stringify(dock))).toEqual(dock);
+      }),
+      { numRuns: 100 }
+    );
+
+    expect(parseStoredDock(null)).toBeNull();
+    expect(parseStoredDock('not json')).toBeNull();
+    expect(parseStoredDock(JSON.stringify([{ id: 'x' }]))).toBeNull();
+  });
+});
+
+describe('Pin validation', () => {
+  it('rejects links with unsafe URLs or colours', () => {
+    const link = { kind: 'link', name: 'Docs', url: 'https://example.com', icon: 'https://example.com/i.png', color: '#112233' };
+
+    expect(PinToolInputSchema.safeParse(link).success).toBe(true);
+    expect(PinToolInputSchema.safeParse({ ...link, url: '/tools' }).success).toBe(true);
+    expect(PinToolInputSchema.safeParse({ ...link, url: 'javascript:alert(1)' }).success).toBe(false);
+    expect(PinToolInputSchema.safeParse({ ...link, url: '//evil.com' }).success).toBe(false);
+    expect(PinToolInputSchema.safeParse({ ...link, color: 'red' }).success).toBe(false);
+  });
+
+  it('derives favicons from the host and ignores invalid URLs', () => {
+    expect(getFaviconUrl('https://chat.openai.com/c/1')).toBe(
+      'https://www.google.com/s2/favicons?domain=chat.openai.com&sz=64'
+    );
+    expect(getFaviconUrl('/tool/chatgpt')).toBeNull();
+  });
+});
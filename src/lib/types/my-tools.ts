@@ -0,0 +1,136 @@
+/**
+ * My Tools Dock Model
+ *
+ * The quick-launch dock on the home page. Signed-in users' docks are stored
+ * in user_pinned_tools; anonymous visitors keep theirs in localStorage until
+ * they sign in, when it is merged into their account.
+ */
+
+import { z } from 'zod';
+import { MyToolSchema, type MyTool } from './home.types';
+import { FALLBACK_ICON_URL } from '@/lib/constants/home.constants';
+
+/** Most items a dock may hold */
+export const MAX_PINNED_TOOLS = 20;
+
+/** localStorage key of an anonymous visitor's dock */
+export const MY_TOOLS_STORAGE_KEY = 'my-tools';
+
+/** Colour of pins created without one */
+export const DEFAULT_PIN_COLOR = '#6B7280';
+
+const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Colour must be a hex value such as #4285F4');
+
+const linkUrl = z
+    .string()
+    .trim()
+    .refine(
+        url => (url.startsWith('/') && !url.startsWith('//')) || /^https?:\/\/\S+$/i.test(url),
+        'Enter a URL starting with https:// or a site path starting with /'
+    );
+
+/**
+ * A new pin: a listed tool, or a custom link with its own name, icon and colour.
+ */
+export const PinToolInputSchema = z.discriminatedUnion('kind', [
+    z.object({
+        kind: z.literal('tool'),
+        toolId: z.string().uuid('Invalid tool'),
+        color: hexColor.optional(),
+    }),
+    z.object({
+        kind: z.literal('link'),
+        name: z.string().trim().min(1, 'Name is required').max(40, 'Name is too long'),
+        url: linkUrl,
+        icon: z.string().trim().url('Icon must be an image URL'),
+        color: hexColor,
+    }),
+]);
+
+export type PinToolInput = z.infer<typeof PinToolInputSchema>;
+
+/**
+ * Icon of a website, from Google's favicon service. Used for pinned tools
+ * and as the suggested icon of a custom link.
+ *
+ * @example
+ * getFaviconUrl('https://chat.openai.com/'); // 'https://www.google.com/s2/favicons?domain=chat.openai.com&sz=64'
+ */
+export function getFaviconUrl(url: string): string | null {
+    try {
+        const { hostname } = new URL(url);
+        return hostname ? `https://www.google.com/s2/favicons?domain=${hostname}&sz=64` : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Dock item of a listed tool, linking to its detail page. The ID is the
+ * tool's until it is stored in an account.
+ */
+export function toToolDockItem(
+    tool: { id: string; name: string; slug: string; websiteUrl: string },
+    color: string = DEFAULT_PIN_COLOR
+): MyTool {
+    return {
+        id: tool.id,
+        toolId: tool.id,
+        name: tool.name,
+        icon: getFaviconUrl(tool.websiteUrl) ?? FALLBACK_ICON_URL,
+        url: `/tool/${tool.slug}`,
+        color,
+    };
+}
+
+/**
+ * The pin that recreates a dock item, used when merging a local dock into
+ * an account.
+ */
+export function toPinInput(item: MyTool): PinToolInput {
+    if (item.toolId) {
+        return { kind: 'tool', toolId: item.toolId, color: item.color };
+    }
+    return { kind: 'link', name: item.name, url: item.url, icon: item.icon, color: item.color };
+}
+
+/**
+ * Items of a local dock to add to an account's dock when the visitor signs
+ * in: those not already pinned (same tool, or same URL for links), without
+ * repeats, in local order, up to the dock's capacity.
+ *
+ * @example
+ * selectPinsToMerge(accountItems, localItems).map(toPinInput);
+ */
+export function selectPinsToMerge(account: MyTool[], local: MyTool[], max: number = MAX_PINNED_TOOLS): MyTool[] {
+    const pinned = new Set(account.map(item => item.toolId ?? item.url));
+    const merged: MyTool[] = [];
+
+    for (const item of local) {
+        const key = item.toolId ?? item.url;
+        if (account.length + merged.length >= max) {
+            break;
+        }
+        if (!pinned.has(key)) {
+            pinned.add(key);
+            merged.push(item);
+        }
+    }
+
+    return merged;
+}
+
+/**
+ * Parses a dock read from localStorage, dropping it when it is malformed.
+ */
+export function parseStoredDock(json: string | null): MyTool[] | null {
+    if (!json) {
+        return null;
+    }
+    try {
+        const result = z.array(MyToolSchema).max(MAX_PINNED_TOOLS).safeParse(JSON.parse(json));
+        return result.success ? result.data : null;
+    } catch {
+        return null;
+    }
+}
@@ -30,9 +30,3 @@ export interface FilterGroup {
     name: string;
     categories: FilterCategory[];
 }
-
-export interface FAQ {
-    id: string;
-    question: string;
-    answer: string;
-}
@@ -0,0 +1,182 @@
+/**
+ * Property-Based Tests for the Tool Review Model
+ *
+ * **Feature: tool-reviews, Property 1: Review input and list parameters are normalized**
+ * **Feature: tool-reviews, Property 2: Helpful votes rank and count consistently**
+ *
+ * Tests that pros and cons entered one per line become trimmed points,
+ * that a saved review round-trips through the edit form, that any query
+ * string yields a valid reviews page and sort, and that tools without
+ * reviews get no aggregate rating. Also tests that the Wilson score stays
+ * within [0, share of helpful votes] and that optimistic votes keep each
+ * user's vote counted once.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  REVIEW_SORTS,
+  ReviewInputSchema,
+  ReviewReportSchema,
+  applyReviewVote,
+  parseReviewParams,
+  toAggregateRating,
+  toReviewInput,
+  toReviewPoints,
+  wilsonLowerBound,
+  type Review,
+} from './review';
+
+// =============================================================================
+// Arbitraries (Generators) for Property-Based Testing
+// =============================================================================
+
+const pointArbitrary = fc.stringMatching(/^[A-Za-z][A-Za-z0-9 ]{0,40}[A-Za-z0-9]$/);
+
+const reviewArbitrary: fc.Arbitrary<Review> = fc.record({
+  id: fc.uuid(),
+  toolId: fc.uuid(),
+  authorName: fc.constantFrom('Ada', 'Grace Hopper', 'Linus'),
+  rating: fc.integer({ min: 1, max: 5 }),
+  title: fc.constantFrom('Great for drafts', 'Too slow for me', 'Solid choice'),
+  body: fc.constant('I used it every day for a month and it held up well.'),
+  pros: fc.array(pointArbitrary, { maxLength: 10 }),
+  cons: fc.array(pointArbitrary, { maxLength: 10 }),
+  helpfulCount: fc.nat({ max: 1000 }),
+  unhelpfulCount: fc.nat({ max: 1000 }),
+  createdAt: fc.constant('2026-10-19T00:00:00.000Z'),
+  updatedAt: fc.constant('2026-10-19T00:00:00.000Z'),
+});
+
+// =============================================================================
+// Property Tests
+// =============================================================================
+
+describe('Tool Review Property Tests', () => {
+  it('splits pros and cons into trimmed, non-empty points without bullets', () => {
+    fc.assert(
+      fc.property(fc.array(pointArbitrary, { maxLength: 10 }), (points) => {
+        const text = points.map((point, index) => (index % 2 ? ` - ${point} ` : point)).join('\n\n');
+        expect(toReviewPoints(text)).toEqual(points.map((point) => point.trim()));
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('round-trips a saved review through the edit form', () => {
+    fc.assert(
+      fc.property(reviewArbitrary, (review) => {
+        const values = ReviewInputSchema.parse(toReviewInput(review));
+
+        expect(values.rating).toBe(review.rating);
+        expect(values.pros).toEqual(review.pros.map((point) => point.trim()));
+        expect(values.cons).toEqual(review.cons.map((point) => point.trim()));
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('reads a valid page and sort from any query string', () => {
+    fc.assert(
+      fc.property(fc.option(fc.string()), fc.option(fc.string()), (reviewPage, reviewSort) => {
+        const { page, sort } = parseReviewParams({
+          reviewPage: reviewPage ?? undefined,
+          reviewSort: reviewSort ?? undefined,
+        });
+
+        expect(Number.isInteger(page) && page >= 1).toBe(true);
+        expect(REVIEW_SORTS).toContain(sort);
+      }),
+      { numRuns: 100 }
+    );
+
+    expect(parseReviewParams({ reviewPage: '3', reviewSort: 'lowest' })).toEqual({ page: 3, sort: 'lowest' });
+    expect(parseReviewParams({ reviewPage: '-2', reviewSort: 'best' })).toEqual({ page: 1, sort: 'newest' });
+  });
+
+  it('ranks helpful votes by a Wilson lower bound within [0, helpful share]', () => {
+    fc.assert(
+      fc.property(fc.nat({ max: 10000 }), fc.nat({ max: 10000 }), (helpful, unhelpful) => {
+        const total = helpful + unhelpful;
+        const score = wilsonLowerBound(helpful, total);
+
+        expect(score).toBeGreaterThanOrEqual(0);
+        expect(score).toBeLessThanOrEqual(total === 0 ? 0 : helpful / total + 1e-12);
+        // One more helpful vote never lowers the score
+        expect(wilsonLowerBound(helpful + 1, total + 1)).toBeGreaterThanOrEqual(score);
+      }),
+      { numRuns: 100 }
+    );
+
+    // Many mostly-helpful votes outrank a couple of perfect ones
+    expect(wilsonLowerBound(40, 50)).toBeGreaterThan(wilsonLowerBound(2, 2));
+  });
+
+  it('counts each optimistic vote once and restores the counts when removed', () => {
+    const voteArbitrary = fc.constantFrom(true, false, null);
+    fc.assert(
+      fc.property(
+        fc.nat({ max: 1000 }),
+        fc.nat({ max: 1000 }),
+        voteArbitrary,
+        fc.array(voteArbitrary, { maxLength: 10 }),
+        (helpfulCount, unhelpfulCount, vote, changes) => {
+          const start = {
+            reviewId: 'review',
+            vote,
+            helpfulCount: helpfulCount + (vote === true ? 1 : 0),
+            unhelpfulCount: unhelpfulCount + (vote === false ? 1 : 0),
+          };
+          const end = changes.reduce(applyReviewVote, start);
+          const cleared = applyReviewVote(end, null);
+
+          expect(end.vote).toBe(changes.length ? changes[changes.length - 1] : vote);
+          expect(cleared).toEqual({ reviewId: 'review', vote: null, helpfulCount, unhelpfulCount });
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('Review validation', () => {
+  const valid = {
+    toolId: '8f14e45f-ceea-467a-9af4-2a1d0f1e7a11',
+    authorName: 'Ada',
+    rating: 4,
+    title: 'Great for drafts',
+    body: 'I used it every day for a month and it held up well.',
+    pros: 'Fast',
+    cons: '',
+  };
+
+  it('requires a 1-5 rating and a body of at least 20 characters', () => {
+    expect(ReviewInputSchema.safeParse(valid).success).toBe(true);
+    expect(ReviewInputSchema.safeParse({ ...valid, rating: 0 }).success).toBe(false);
+    expect(ReviewInputSchema.safeParse({ ...valid, rating: 6 }).success).toBe(false);
+    expect(ReviewInputSchema.safeParse({ ...valid, rating: 3.5 }).success).toBe(false);
+    expect(ReviewInputSchema.safeParse({ ...valid, body: 'Too short' }).success).toBe(false);
+  });
+
+  it('rejects more than 10 pros', () => {
+    const pros = Array.from({ length: 11 }, (_, index) => `Point ${index}`).join('\n');
+    expect(ReviewInputSchema.safeParse({ ...valid, pros }).success).toBe(false);
+  });
+
+  it('omits the aggregate rating of tools nobody reviewed', () => {
+    expect(toAggregateRating({ reviewScore: 0, reviewCount: 0 })).toBeUndefined();
+    expect(toAggregateRating({ reviewScore: 4.3, reviewCount: 12 })).toMatchObject({
+      '@type': 'AggregateRating',
+      ratingValue: 4.3,
+      reviewCount: 12,
+    });
+  });
+
+  it('accepts reports with a known reason and at most 1000 characters of details', () => {
+    const report = { reviewId: valid.toolId, reason: 'spam', details: '' };
+    expect(ReviewReportSchema.safeParse(report).success).toBe(true);
+    expect(ReviewReportSchema.safeParse({ ...report, reason: 'boring' }).success).toBe(false);
+    expect(ReviewReportSchema.safeParse({ ...report, details: 'x'.repeat(1001) }).success).toBe(false);
+    expect(ReviewReportSchema.safeParse({ ...report, reviewId: 'not-a-uuid' }).success).toBe(false);
+  });
+});
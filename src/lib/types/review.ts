@@ -0,0 +1,246 @@
+/**
+ * Tool Review Model
+ *
+ * Signed-in users rate a tool from 1 to 5 with a title, body and optional
+ * pros and cons, at most once per tool. The tool's review_score and
+ * review_count are computed from these reviews by a database trigger.
+ * Other users vote reviews helpful or unhelpful and report abuse, which
+ * moderators work through in /admin/moderation.
+ */
+
+import { z } from 'zod';
+
+export const REVIEW_SORTS = ['newest', 'helpful', 'highest', 'lowest'] as const;
+
+export type ReviewSort = (typeof REVIEW_SORTS)[number];
+
+export const REVIEW_SORT_LABELS: Record<ReviewSort, string> = {
+    newest: 'Newest',
+    helpful: 'Most helpful',
+    highest: 'Highest rated',
+    lowest: 'Lowest rated',
+};
+
+export const REPORT_REASONS = ['spam', 'offensive', 'off_topic', 'conflict_of_interest', 'other'] as const;
+
+export type ReportReason = (typeof REPORT_REASONS)[number];
+
+export const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+    spam: 'Spam or advertising',
+    offensive: 'Offensive or abusive',
+    off_topic: 'Not about this tool',
+    conflict_of_interest: 'Written by the maker or a competitor',
+    other: 'Something else',
+};
+
+/** Reviews shown per page on a tool page */
+export const REVIEWS_PAGE_SIZE = 5;
+
+/** Most pros or cons a review may list */
+export const MAX_REVIEW_POINTS = 10;
+
+/**
+ * Splits a textarea with one point per line into trimmed, non-empty points.
+ *
+ * @example
+ * toReviewPoints('Fast\n\n - Cheap '); // ['Fast', 'Cheap']
+ */
+export function toReviewPoints(text: string): string[] {
+    return text
+        .split('\n')
+        .map(line => line.replace(/^\s*[-*•]\s*/, '').trim())
+        .filter(line => line !== '');
+}
+
+const reviewPoints = z
+    .string()
+    .transform(toReviewPoints)
+    .pipe(
+        z
+            .array(z.string().max(200, 'Keep each point under 200 characters'))
+            .max(MAX_REVIEW_POINTS, `List at most ${MAX_REVIEW_POINTS} points`)
+    );
+
+/**
+ * A review as written in the tool page form. Pros and cons are entered one
+ * per line.
+ */
+export const ReviewInputSchema = z.object({
+    toolId: z.string().uuid('Invalid tool'),
+    authorName: z.string().trim().min(1, 'Enter the name to show with your review').max(60, 'Name is too long'),
+    rating: z.number().int().min(1, 'Pick a rating').max(5, 'Pick a rating'),
+    title: z.string().trim().min(3, 'Title is required').max(120, 'Title is too long'),
+    body: z.string().trim().min(20, 'Write at least 20 characters').max(5000, 'Review is too long'),
+    pros: reviewPoints,
+    cons: reviewPoints,
+});
+
+/**
+ * An abuse report on a review.
+ */
+export const ReviewReportSchema = z.object({
+    reviewId: z.string().uuid('Invalid review'),
+    reason: z.enum(REPORT_REASONS, 'Pick a reason'),
+    details: z.string().trim().max(1000, 'Keep details under 1000 characters'),
+});
+
+/** Raw report form values */
+export type ReviewReportInput = z.input<typeof ReviewReportSchema>;
+
+/** Validated report values */
+export type ReviewReportValues = z.output<typeof ReviewReportSchema>;
+
+/** Raw form values */
+export type ReviewInput = z.input<typeof ReviewInputSchema>;
+
+/** Validated review values */
+export type ReviewValues = z.output<typeof ReviewInputSchema>;
+
+/**
+ * A published review (reviews table).
+ */
+export interface Review {
+    id: string;
+    toolId: string;
+    authorName: string;
+    rating: number; // 1-5
+    title: string;
+    body: string;
+    pros: string[];
+    cons: string[];
+    helpfulCount: number;
+    unhelpfulCount: number;
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * A review's helpful votes as seen by the signed-in user.
+ */
+export interface ReviewVoteState {
+    reviewId: string;
+    vote: boolean | null; // The user's vote: true for helpful, false for unhelpful, null for none
+    helpfulCount: number;
+    unhelpfulCount: number;
+}
+
+/**
+ * A reported or hidden review in the moderation queue.
+ */
+export interface ModeratedReview extends Review {
+    userId: string;
+    tool: { name: string; slug: string } | null;
+    reportCount: number; // Open reports
+    hiddenAt: string | null;
+    hiddenReason: string | null;
+    reports: ReviewReport[]; // Open reports, oldest first
+    authorBanned: boolean;
+}
+
+/**
+ * An abuse report in the moderation queue.
+ */
+export interface ReviewReport {
+    id: string;
+    reason: ReportReason;
+    details: string | null;
+    createdAt: string;
+}
+
+/** Tabs of the moderation queue */
+export const MODERATION_QUEUES = ['reported', 'hidden'] as const;
+
+export type ModerationQueue = (typeof MODERATION_QUEUES)[number];
+
+/**
+ * One page of a tool's reviews.
+ */
+export interface ReviewPage {
+    reviews: Review[];
+    total: number;
+    page: number; // 1-based
+    pageCount: number;
+    sort: ReviewSort;
+}
+
+/**
+ * Lower bound of the Wilson score interval for the share of helpful votes,
+ * at 95% confidence. Matches the wilson_lower_bound database function that
+ * orders the "most helpful" sort: a review needs many votes, not just a
+ * perfect ratio, to rank high.
+ *
+ * @example
+ * wilsonLowerBound(2, 2) < wilsonLowerBound(40, 50); // true
+ */
+export function wilsonLowerBound(positive: number, total: number, z: number = 1.96): number {
+    if (total <= 0) {
+        return 0;
+    }
+    const share = positive / total;
+    const zz = z * z;
+    return (
+        (share + zz / (2 * total) - z * Math.sqrt((share * (1 - share) + zz / (4 * total)) / total)) /
+        (1 + zz / total)
+    );
+}
+
+/**
+ * Replaces the user's vote on a review and adjusts the counts to match,
+ * for showing a vote before the server confirms it.
+ *
+ * @example
+ * applyReviewVote({ reviewId, vote: false, helpfulCount: 3, unhelpfulCount: 1 }, true);
+ * // { reviewId, vote: true, helpfulCount: 4, unhelpfulCount: 0 }
+ */
+export function applyReviewVote(state: ReviewVoteState, vote: boolean | null): ReviewVoteState {
+    const count = (helpful: boolean, current: number) =>
+        Math.max(current - (state.vote === helpful ? 1 : 0) + (vote === helpful ? 1 : 0), 0);
+    return {
+        reviewId: state.reviewId,
+        vote,
+        helpfulCount: count(true, state.helpfulCount),
+        unhelpfulCount: count(false, state.unhelpfulCount),
+    };
+}
+
+/**
+ * Reads the reviews page and sort from a tool page's query string, falling
+ * back to the first page of the newest reviews.
+ */
+export function parseReviewParams(params: { reviewPage?: string; reviewSort?: string }): { page: number; sort: ReviewSort } {
+    const page = Number.parseInt(params.reviewPage ?? '', 10);
+    const sort = REVIEW_SORTS.find(value => value === params.reviewSort) ?? 'newest';
+    return { page: Number.isInteger(page) && page > 0 ? page : 1, sort };
+}
+
+/**
+ * The review form values that edit an existing review.
+ */
+export function toReviewInput(review: Review): ReviewInput {
+    return {
+        toolId: review.toolId,
+        authorName: review.authorName,
+        rating: review.rating,
+        title: review.title,
+        body: review.body,
+        pros: review.pros.join('\n'),
+        cons: review.cons.join('\n'),
+    };
+}
+
+/**
+ * schema.org AggregateRating of a tool. Search engines reject ratings
+ * without reviews, so tools nobody has reviewed get none.
+ */
+export function toAggregateRating(tool: { reviewScore: number; reviewCount: number }) {
+    if (tool.reviewCount <= 0) {
+        return undefined;
+    }
+    return {
+        '@type': 'AggregateRating',
+        ratingValue: tool.reviewScore,
+        reviewCount: tool.reviewCount,
+        bestRating: 5,
+        worstRating: 1,
+    };
+}
@@ -0,0 +1,21 @@
+/**
+ * Staff roles, from least to most privileged.
+ * - viewer: read-only access to admin screens
+ * - editor: can create, update and delete content
+ * - admin: editor rights plus staff management
+ */
+export const STAFF_ROLES = ['viewer', 'editor', 'admin'] as const;
+
+export type StaffRole = (typeof STAFF_ROLES)[number];
+
+/**
+ * A Supabase Auth user granted a staff role (admin_users table).
+ */
+export interface StaffMember {
+    id: string;
+    userId: string;
+    email: string;
+    role: StaffRole;
+    invitedBy: string | null;
+    createdAt: string | null;
+}
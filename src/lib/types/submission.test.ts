@@ -0,0 +1,101 @@
+/**
+ * Property-Based Tests for the Tool Submission Schema
+ *
+ * **Feature: tool-submissions, Property 1: Submission slugs and domains are normalized**
+ *
+ * Tests that any submitted name yields a slug accepted by the admin tool
+ * form, that website domains ignore case and "www.", and that invalid
+ * submissions are rejected.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { ToolSubmissionSchema, getWebsiteDomain, toSubmissionSlug } from './submission';
+
+// =============================================================================
+// Arbitraries (Generators) for Property-Based Testing
+// =============================================================================
+
+const hostArbitrary = fc.stringMatching(/^[a-z0-9]+(-[a-z0-9]+)?\.(com|io|ai)$/);
+
+const validSubmission = {
+  name: 'ChatGPT',
+  websiteUrl: 'https://chatgpt.com',
+  shortDescription: 'Conversational AI assistant',
+  description: '',
+  pricing: 'Freemium',
+  categoryIds: ['8f14e45f-ceea-467a-9af4-2a1d0f1e7a11'],
+  submitterEmail: 'maker@example.com',
+};
+
+// =============================================================================
+// Property Tests
+// =============================================================================
+
+describe('Tool Submission Property Tests', () => {
+  it('turns any name into a lowercase hyphenated slug', () => {
+    fc.assert(
+      fc.property(fc.string({ maxLength: 120 }), (name) => {
+        const slug = toSubmissionSlug(name);
+
+        expect(slug === '' || /^[a-z0-9]+(-[a-z0-9]+)*$/.test(slug)).toBe(true);
+        expect(slug.length).toBeLessThanOrEqual(60);
+        expect(toSubmissionSlug(slug)).toBe(slug);
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  it('strips accents and punctuation from slugs', () => {
+    expect(toSubmissionSlug('Chat GPT 4o!')).toBe('chat-gpt-4o');
+    expect(toSubmissionSlug('  Café  Crème ')).toBe('cafe-creme');
+    expect(toSubmissionSlug('!!!')).toBe('');
+  });
+
+  it('reads the same domain regardless of case, www. and path', () => {
+    fc.assert(
+      fc.property(hostArbitrary, fc.boolean(), fc.stringMatching(/^(\/[a-z0-9]{1,8}){0,3}$/), (host, www, path) => {
+        const url = `https://${www ? 'www.' : ''}${host.toUpperCase()}${path}`;
+
+        expect(getWebsiteDomain(url)).toBe(host);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('returns null for values that are not absolute URLs', () => {
+    for (const url of ['', 'chatgpt.com', '/tool/chatgpt']) {
+      expect(getWebsiteDomain(url)).toBeNull();
+    }
+  });
+
+  it('lowercases the submitter email', () => {
+    const values = ToolSubmissionSchema.parse({ ...validSubmission, submitterEmail: ' Maker@Example.COM ' });
+    expect(values.submitterEmail).toBe('maker@example.com');
+  });
+
+  it('rejects invalid submissions', () => {
+    const invalid = [
+      { name: '!!' },
+      { websiteUrl: 'ftp://chatgpt.com' },
+      { websiteUrl: 'not a url' },
+      { shortDescription: 'Too short' },
+      { pricing: 'Cheap' },
+      { categoryIds: [] },
+      { categoryIds: ['not-a-uuid'] },
+      {
+        categoryIds: [
+          '8f14e45f-ceea-467a-9af4-2a1d0f1e7a11',
+          '8f14e45f-ceea-467a-9af4-2a1d0f1e7a12',
+          '8f14e45f-ceea-467a-9af4-2a1d0f1e7a13',
+          '8f14e45f-ceea-467a-9af4-2a1d0f1e7a14',
+        ],
+      },
+      { submitterEmail: 'maker' },
+    ];
+
+    for (const changes of invalid) {
+      expect(ToolSubmissionSchema.safeParse({ ...validSubmission, ...changes }).success).toBe(false);
+    }
+  });
+});
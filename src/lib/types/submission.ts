@@ -0,0 +1,131 @@
+/**
+ * Tool Submission Model
+ *
+ * Tools submitted from /submit and moderated in /admin/submissions. The
+ * submit form validates with ToolSubmissionSchema in the browser and the
+ * submit action parses the same input again on the server.
+ */
+
+import { z } from 'zod';
+import { PRICING_OPTIONS } from './tool-form';
+import type { PricingType } from './tool';
+
+/**
+ * Moderation states of a submission.
+ * - pending: waiting for staff
+ * - changes_requested: sent back to the submitter with a note
+ * - approved: listed as a tool
+ * - rejected: closed with a reason
+ */
+export const SUBMISSION_STATUSES = ['pending', 'changes_requested', 'approved', 'rejected'] as const;
+
+export type SubmissionStatus = (typeof SUBMISSION_STATUSES)[number];
+
+/** States in which a submission still awaits someone's action */
+export const OPEN_SUBMISSION_STATUSES: readonly SubmissionStatus[] = ['pending', 'changes_requested'];
+
+export const SUBMISSION_STATUS_LABELS: Record<SubmissionStatus, string> = {
+    pending: 'In review',
+    changes_requested: 'Changes requested',
+    approved: 'Approved',
+    rejected: 'Rejected',
+};
+
+/** Most categories a submitter may pick */
+export const MAX_SUBMISSION_CATEGORIES = 3;
+
+const httpUrl = z
+    .string()
+    .trim()
+    .url('Enter a valid URL')
+    .refine(url => /^https?:\/\//i.test(url), 'URL must start with http:// or https://');
+
+export const ToolSubmissionSchema = z.object({
+    name: z
+        .string()
+        .trim()
+        .min(2, 'Tool name is required')
+        .max(80, 'Tool name is too long')
+        .refine(name => toSubmissionSlug(name) !== '', 'Tool name must contain letters or digits'),
+    websiteUrl: httpUrl,
+    shortDescription: z.string().trim().min(10, 'Describe the tool in at least 10 characters').max(100, 'Short description too long'),
+    description: z.string().trim().max(5000, 'Description too long'),
+    pricing: z.enum(PRICING_OPTIONS),
+    categoryIds: z
+        .array(z.string().uuid('Invalid category'))
+        .min(1, 'Pick at least one category')
+        .max(MAX_SUBMISSION_CATEGORIES, `Pick at most ${MAX_SUBMISSION_CATEGORIES} categories`),
+    submitterEmail: z.string().trim().toLowerCase().email('Enter a valid email address'),
+});
+
+/** Raw form values, as edited on /submit */
+export type ToolSubmissionInput = z.input<typeof ToolSubmissionSchema>;
+
+/** Validated submission values */
+export type ToolSubmissionValues = z.output<typeof ToolSubmissionSchema>;
+
+/**
+ * A submitted tool (tool_submissions table).
+ */
+export interface ToolSubmission {
+    id: string;
+    trackingToken: string;
+    name: string;
+    slug: string; // Slug the tool is created with; the listed slug once approved
+    websiteUrl: string;
+    websiteDomain: string | null;
+    shortDescription: string;
+    description: string;
+    pricing: PricingType;
+    categoryIds: string[];
+    submitterEmail: string;
+    status: SubmissionStatus;
+    reviewNote: string | null; // Shown to the submitter for changes_requested and rejected
+    toolId: string | null; // Set once approved
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * An existing tool or open submission that a submission appears to duplicate.
+ */
+export interface SubmissionDuplicate {
+    reason: 'slug' | 'domain';
+    kind: 'tool' | 'submission';
+    name: string;
+    slug: string;
+}
+
+/**
+ * Host of a URL without "www.", lowercased, matching url_domain() in the
+ * database. Returns null for values that are not absolute URLs.
+ *
+ * @example
+ * getWebsiteDomain('https://www.Example.com/pricing'); // 'example.com'
+ */
+export function getWebsiteDomain(url: string): string | null {
+    try {
+        const host = new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+        return host || null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Slug a submitted tool is listed under: lowercase words and digits joined
+ * by hyphens, matching the slug rule of the admin tool form.
+ *
+ * @example
+ * toSubmissionSlug('Chat GPT 4o!'); // 'chat-gpt-4o'
+ */
+export function toSubmissionSlug(name: string): string {
+    return name
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, 60)
+        .replace(/-+$/, '');
+}
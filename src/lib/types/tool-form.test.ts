@@ -0,0 +1,102 @@
+/**
+ * Property-Based Tests for the Admin Tool Form Schema
+ *
+ * **Feature: admin-tool-form, Property 1: Form defaults round-trip through the schema**
+ *
+ * Tests that an existing tool's form values validate back to the same
+ * fields, and that invalid monthly visits, metadata and slugs are rejected.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { PRICING_OPTIONS, ToolFormSchema, getToolFormDefaults } from './tool-form';
+import type { Tool } from './tool';
+
+// =============================================================================
+// Arbitraries (Generators) for Property-Based Testing
+// =============================================================================
+
+const slugArbitrary = fc.stringMatching(/^[a-z0-9]+(-[a-z0-9]+){0,3}$/);
+
+const textArbitrary = (minLength: number, maxLength: number) =>
+  fc.string({ minLength, maxLength }).filter((s) => s.trim() === s && s.length >= minLength);
+
+const toolArbitrary: fc.Arbitrary<Tool> = fc.record({
+  id: fc.uuid(),
+  name: textArbitrary(2, 50),
+  slug: slugArbitrary,
+  description: textArbitrary(10, 200),
+  shortDescription: textArbitrary(0, 100),
+  image: fc.constant('https://example.com/logo.png'),
+  websiteUrl: fc.constant('https://example.com'),
+  externalUrl: fc.constantFrom('https://example.com/?ref=toolify', ''),
+  pricing: fc.constantFrom(...PRICING_OPTIONS),
+  freeTierDetails: textArbitrary(0, 100),
+  categories: fc.constant([]),
+  tags: fc.uniqueArray(fc.stringMatching(/^[a-z][a-z ]{0,19}[a-z]$/), { maxLength: 5 }),
+  savedCount: fc.nat(),
+  reviewCount: fc.nat(),
+  reviewScore: fc.constant(0),
+  verified: fc.boolean(),
+  isNew: fc.boolean(),
+  isFeatured: fc.boolean(),
+  monthlyVisits: fc.option(fc.nat(), { nil: undefined }),
+  metadata: fc.dictionary(fc.stringMatching(/^[a-z_]{1,10}$/), fc.oneof(fc.string(), fc.integer(), fc.boolean())),
+});
+
+/** Required fields that a new tool's defaults leave blank */
+const validFields = {
+  name: 'ChatGPT',
+  slug: 'chatgpt',
+  description: 'Conversational assistant',
+  websiteUrl: 'https://chat.openai.com',
+};
+
+// =============================================================================
+// Property Tests
+// =============================================================================
+
+describe('Tool Form Schema Property Tests', () => {
+  it('validates an existing tool back to its own fields', () => {
+    fc.assert(
+      fc.property(toolArbitrary, fc.uniqueArray(fc.uuid(), { maxLength: 3 }), (tool, categoryIds) => {
+        const values = ToolFormSchema.parse(getToolFormDefaults(tool, categoryIds));
+
+        expect(values).toMatchObject({
+          name: tool.name,
+          slug: tool.slug,
+          pricing: tool.pricing,
+          tags: tool.tags,
+          verified: tool.verified,
+          isNew: tool.isNew,
+          isFeatured: tool.isFeatured,
+          categoryIds,
+          monthlyVisits: tool.monthlyVisits ?? null,
+          metadata: tool.metadata,
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('rejects metadata that is not a JSON object', () => {
+    for (const metadata of ['[1, 2]', '"text"', '42', 'null', '{ broken']) {
+      const result = ToolFormSchema.safeParse({ ...getToolFormDefaults(), ...validFields, metadata });
+      expect(result.success).toBe(false);
+    }
+  });
+
+  it('rejects monthly visits that are not whole numbers', () => {
+    for (const monthlyVisits of ['-1', '1.5', '1e6', 'many']) {
+      const result = ToolFormSchema.safeParse({ ...getToolFormDefaults(), ...validFields, monthlyVisits });
+      expect(result.success).toBe(false);
+    }
+  });
+
+  it('rejects slugs that are not lowercase words separated by hyphens', () => {
+    for (const slug of ['Chat-GPT', 'chat gpt', '-chat', 'chat--gpt', 'chat-']) {
+      const result = ToolFormSchema.safeParse({ ...getToolFormDefaults(), ...validFields, slug });
+      expect(result.success).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Tool Form Model
+ *
+ * Zod schema for the admin tool create and edit form. ToolForm validates
+ * with it in the browser and the tool actions parse the same input again on
+ * the server, so both reject the same values with the same messages.
+ */
+
+import { z } from 'zod';
+import type { PricingType, Tool } from './tool';
+
+export const PRICING_OPTIONS = ['Free', 'Freemium', 'Paid', 'Free Trial', 'Contact for Pricing'] as const satisfies readonly PricingType[];
+
+export const MAX_TOOL_TAGS = 20;
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+const optionalUrl = (message: string) => z.string().trim().url(message).or(z.literal(''));
+
+export const ToolFormSchema = z.object({
+    name: z.string().trim().min(2, 'Name is required'),
+    slug: z.string().trim().regex(SLUG_PATTERN, 'Slug must be lowercase letters and digits separated by hyphens'),
+    description: z.string().trim().min(10, 'Description must be at least 10 chars'),
+    shortDescription: z.string().trim().max(100, 'Short description too long'),
+    websiteUrl: z.string().trim().url('Invalid URL'),
+    externalUrl: optionalUrl('Invalid external URL'),
+    image: optionalUrl('Invalid Image URL'),
+    pricing: z.enum(PRICING_OPTIONS),
+    freeTierDetails: z.string().trim().max(500, 'Free tier details too long'),
+    categoryIds: z.array(z.string().uuid('Invalid category')),
+    tags: z
+        .array(z.string().trim().min(1, 'Tags cannot be blank').max(40, 'Tags are at most 40 characters'))
+        .max(MAX_TOOL_TAGS, `At most ${MAX_TOOL_TAGS} tags`),
+    verified: z.boolean(),
+    isNew: z.boolean(),
+    isFeatured: z.boolean(),
+    // Blank clears the value
+    monthlyVisits: z
+        .string()
+        .trim()
+        .regex(/^\d*$/, 'Monthly visits must be a whole number')
+        .transform(value => (value === '' ? null : Number(value))),
+    // JSON object text; blank means no metadata
+    metadata: z.string().transform((text, ctx) => {
+        if (text.trim() === '') {
+            return {};
+        }
+        try {
+            const value: unknown = JSON.parse(text);
+            if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+                return value as Record<string, unknown>;
+            }
+        } catch {
+            // Reported below
+        }
+        ctx.addIssue({ code: 'custom', message: 'Metadata must be a JSON object' });
+        return z.NEVER;
+    }),
+});
+
+/** Raw form values, as edited in ToolForm and sent to the tool actions */
+export type ToolFormInput = z.input<typeof ToolFormSchema>;
+
+/** Validated form values */
+export type ToolFormValues = z.output<typeof ToolFormSchema>;
+
+/**
+ * Form values for a new tool, or for editing an existing one
+ */
+export function getToolFormDefaults(tool?: Tool, categoryIds: string[] = []): ToolFormInput {
+    return {
+        name: tool?.name ?? '',
+        slug: tool?.slug ?? '',
+        description: tool?.description ?? '',
+        shortDescription: tool?.shortDescription ?? '',
+        websiteUrl: tool?.websiteUrl ?? '',
+        externalUrl: tool?.externalUrl ?? '',
+        image: tool?.image ?? '',
+        pricing: tool?.pricing ?? 'Freemium',
+        freeTierDetails: tool?.freeTierDetails ?? '',
+        categoryIds,
+        tags: tool?.tags ?? [],
+        verified: tool?.verified ?? false,
+        isNew: tool?.isNew ?? true,
+        isFeatured: tool?.isFeatured ?? false,
+        monthlyVisits: tool?.monthlyVisits?.toString() ?? '',
+        metadata: tool?.metadata && Object.keys(tool.metadata).length > 0 ? JSON.stringify(tool.metadata, null, 2) : '',
+    };
+}
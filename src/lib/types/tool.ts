@@ -8,7 +8,9 @@ export interface Tool {
     shortDescription: string;
     image: string; // URL
     websiteUrl: string;
+    externalUrl?: string; // Alternative outbound link, e.g. a referral URL
     pricing: PricingType;
+    freeTierDetails?: string; // What the free plan or trial includes
     categories: string[];
     tags: string[];
     savedCount: number;
@@ -18,8 +20,103 @@ export interface Tool {
     isNew?: boolean;    // New: "New" badge
     isFeatured?: boolean; // New: "Fire" icon
     dateAdded?: string; // ISO Date string
+    archivedAt?: string; // ISO Date string; set only while the tool is archived
     monthlyVisits?: number; // New for Ranking: e.g. 5000000
     changePercentage?: number; // New for Ranking: e.g. 15.4 or -2.1
+    metadata?: Record<string, unknown>; // Free-form JSON, e.g. scraper provenance
+}
+
+/**
+ * Changes to a tool's own fields. Omitted fields keep their value;
+ * a null monthlyVisits clears it.
+ */
+export type ToolChanges = Partial<Omit<Tool, 'id' | 'dateAdded' | 'categories' | 'monthlyVisits'>> & {
+    monthlyVisits?: number | null;
+};
+
+/**
+ * Sort orders available when listing tools.
+ * 'relevance' only differs from 'newest' when a search term is present.
+ */
+export type ToolSortKey = 'relevance' | 'newest' | 'name' | 'popular' | 'rating';
+
+/**
+ * Composable tool listing query. Every field is optional and all given
+ * fields are combined (AND) in a single database query.
+ */
+export interface ToolQuery {
+    categories?: string[]; // Category slugs; a tool matches if it is in any of them
+    pricing?: PricingType[]; // Tool matches if its pricing is any of these
+    tags?: string[]; // Tool must carry all of these tags
+    verified?: boolean;
+    featured?: boolean;
+    search?: string;
+    sort?: ToolSortKey;
+}
+
+/**
+ * Where a tool listing came from: the free AI tools scraper, or staff.
+ */
+export type ToolSource = 'scraper' | 'manual';
+
+/**
+ * Columns the admin tools table can be sorted by.
+ */
+export type AdminToolSortKey = 'name' | 'pricing' | 'createdAt' | 'savedCount' | 'monthlyVisits';
+
+/**
+ * Admin tools table query: the public filters plus data-quality filters
+ * and an explicit sort column and direction.
+ */
+export interface AdminToolQuery extends Omit<ToolQuery, 'sort'> {
+    source?: ToolSource;
+    missing?: 'image' | 'url'; // Tools with no image, or a blank website URL
+    sort?: AdminToolSortKey; // Default: createdAt
+    ascending?: boolean; // Default: false
+}
+
+/**
+ * One page of tools with the total match count and an opaque cursor
+ * for the following page (null on the last page).
+ */
+export interface ToolPage {
+    items: Tool[];
+    total: number;
+    nextCursor: string | null;
+}
+
+/**
+ * Markers wrapping matched terms in search snippets (see search_tools in migrations).
+ */
+export const SEARCH_HIGHLIGHT = { start: '«', stop: '»' } as const;
+
+export interface ToolSearchResult extends Tool {
+    rank: number;
+    snippet: string; // Excerpt with matches wrapped in SEARCH_HIGHLIGHT markers
+    isFuzzyMatch: boolean; // Matched only by name similarity, e.g. a typo
+}
+
+/**
+ * One field that differs between a revision and the one before it.
+ */
+export interface ToolRevisionChange {
+    field: string; // Tool column, or 'categories' for the category set
+    before: unknown;
+    after: unknown;
+}
+
+/**
+ * A stored version of a tool listing and its category set.
+ */
+export interface ToolRevision {
+    id: string;
+    toolId: string;
+    revisionNumber: number;
+    actor: string; // Auth user id, 'scraper' or 'system'
+    actorLabel: string; // Staff email when the actor is a known user
+    createdAt: string;
+    categoryIds: string[];
+    changes: ToolRevisionChange[]; // Compared with the previous revision; empty for the first
 }
 
 export type Category = {
@@ -28,6 +125,9 @@ export type Category = {
     slug: string;
     count: number;
     description?: string;
+    iconName?: string; // Key of CATEGORY_ICON_MAP
+    groupId?: string | null; // Category group, null when ungrouped
+    displayOrder?: number;
     // Computed fields
     toolCount?: number;
 };
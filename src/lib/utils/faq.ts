@@ -0,0 +1,54 @@
+/**
+ * Utility functions for FAQs
+ * These are pure functions that can be used in both server and client components
+ */
+
+import { PAGE_FAQ_SCOPES, type FAQ, type FaqScope } from '@/lib/types/faq';
+import { renderMarkdown } from '@/lib/utils/markdown';
+
+const ENTITY_SCOPE_PATTERN = /^(category|tool):[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/**
+ * Check whether a value is a valid FAQ scope
+ * Mirrors the faqs_scope_check constraint in the database
+ */
+export function isFaqScope(value: string): value is FaqScope {
+  return (PAGE_FAQ_SCOPES as readonly string[]).includes(value) || ENTITY_SCOPE_PATTERN.test(value);
+}
+
+/**
+ * Get the site path of the page that shows a scope's FAQs
+ *
+ * @example
+ * getFaqScopePath('category:ai-chatbots'); // '/category/ai-chatbots'
+ */
+export function getFaqScopePath(scope: FaqScope): string {
+  const [kind, slug] = scope.split(':');
+  return slug === undefined ? `/${kind}` : `/${kind}/${slug}`;
+}
+
+/**
+ * Build schema.org FAQPage structured data, with answers rendered to HTML
+ */
+export function buildFaqPageJsonLd(faqs: Pick<FAQ, 'question' | 'answer'>[]) {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'FAQPage',
+    mainEntity: faqs.map((faq) => ({
+      '@type': 'Question',
+      name: faq.question,
+      acceptedAnswer: {
+        '@type': 'Answer',
+        text: renderMarkdown(faq.answer),
+      },
+    })),
+  };
+}
+
+/**
+ * Serialize structured data for an inline ld+json script
+ * "<" is escaped so text content cannot close the script element
+ */
+export function serializeJsonLd(data: unknown): string {
+  return JSON.stringify(data).replace(/</g, '\\u003c');
+}
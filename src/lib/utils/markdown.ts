@@ -0,0 +1,100 @@
+/**
+ * Minimal markdown renderer for short editorial text such as FAQ answers.
+ * Pure function, usable in both server and client components.
+ *
+ * Supported: paragraphs (line breaks kept), "-" / "*" bullet lists,
+ * "1." numbered lists, **bold**, *italic*, `code` and [links](url).
+ * All other input is HTML-escaped, so the output is safe to inject.
+ */
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+const BULLET_ITEM = /^[-*]\s+/;
+const NUMBERED_ITEM = /^\d+\.\s+/;
+
+/** Only web and site-relative links are rendered; anything else stays text */
+const SAFE_URL = /^(https?:\/\/|\/(?!\/)|#)/;
+
+/** Splits escaped text into plain runs and [label](url) links */
+const LINK_TOKEN = /(\[[^\]\n]+\]\([^)\s]+\))/;
+const LINK = /^\[([^\]\n]+)\]\(([^)\s]+)\)$/;
+
+/**
+ * Escape text for use in HTML content and attribute values
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+/**
+ * Render bold and italic within already-escaped text
+ */
+function renderEmphasis(html: string): string {
+  return html
+    .replace(/\*\*([^*\n]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^*\w])\*([^*\n]+)\*(?!\w)/g, '$1<em>$2</em>')
+    .replace(/(^|[^_\w])_([^_\n]+)_(?!\w)/g, '$1<em>$2</em>');
+}
+
+/**
+ * Render inline markup within one already-split block of text
+ */
+function renderInline(text: string): string {
+  // Code spans are escaped but otherwise left untouched
+  return text
+    .split(/(`[^`\n]+`)/)
+    .map((part, index) => {
+      if (index % 2 === 1) {
+        return `<code>${escapeHtml(part.slice(1, -1))}</code>`;
+      }
+      // Links are split out first so emphasis never reaches into a URL
+      return escapeHtml(part)
+        .split(LINK_TOKEN)
+        .map((piece, pieceIndex) => {
+          const link = pieceIndex % 2 === 1 ? LINK.exec(piece) : null;
+          if (!link) {
+            return renderEmphasis(piece);
+          }
+          const [, label, url] = link;
+          // url is already escaped, so it cannot leave the attribute
+          const decoded = url.replace(/&amp;/g, '&');
+          return SAFE_URL.test(decoded) ? `<a href="${url}">${renderEmphasis(label)}</a>` : renderEmphasis(piece);
+        })
+        .join('');
+    })
+    .join('');
+}
+
+/**
+ * Render markdown to HTML
+ *
+ * @example
+ * renderMarkdown('Add `--sref` to **any** prompt.');
+ * // '<p>Add <code>--sref</code> to <strong>any</strong> prompt.</p>'
+ */
+export function renderMarkdown(markdown: string): string {
+  return markdown
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .map((block) => block.trim())
+    .filter((block) => block !== '')
+    .map((block) => {
+      const lines = block.split('\n').map((line) => line.trim());
+
+      for (const [pattern, tag] of [[BULLET_ITEM, 'ul'], [NUMBERED_ITEM, 'ol']] as const) {
+        if (lines.every((line) => pattern.test(line))) {
+          const items = lines.map((line) => `<li>${renderInline(line.replace(pattern, ''))}</li>`);
+          return `<${tag}>${items.join('')}</${tag}>`;
+        }
+      }
+
+      return `<p>${lines.map(renderInline).join('<br>')}</p>`;
+    })
+    .join('');
+}
@@ -1,12 +1,22 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
 import { updateSession } from '@/lib/supabase/middleware';
+import { getStaffRole, hasRequiredRole, type StaffRole } from '@/lib/services/staff.service';
 
 /**
  * Protected route patterns that require authentication
  */
 const PROTECTED_ROUTES = ['/admin'];
 
+/**
+ * Minimum staff role per protected route prefix.
+ * The most specific (longest) matching prefix wins.
+ */
+const ROUTE_ROLE_REQUIREMENTS: Record<string, StaffRole> = {
+  '/admin': 'viewer',
+  '/admin/staff': 'admin',
+};
+
 /**
  * Check if a pathname matches any protected route pattern
  */
@@ -14,10 +24,22 @@ function isProtectedRoute(pathname: string): boolean {
   return PROTECTED_ROUTES.some(route => pathname.startsWith(route));
 }
 
+/**
+ * Resolve the minimum staff role required for a protected pathname
+ */
+export function getRequiredRole(pathname: string): StaffRole {
+  const match = Object.keys(ROUTE_ROLE_REQUIREMENTS)
+    .filter(prefix => pathname === prefix || pathname.startsWith(`${prefix}/`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return match ? ROUTE_ROLE_REQUIREMENTS[match] : 'admin';
+}
+
 /**
  * Middleware that handles:
  * 1. Supabase Auth session refresh on every request
  * 2. Protected route redirection for unauthenticated users
+ * 3. Staff role checks for /admin routes (admin_users table)
  * 
  * Requirements:
  * - 2.1: Refresh Supabase_Auth session using cookies on every request
@@ -46,6 +68,18 @@ export async function middleware(request: NextRequest) {
     return NextResponse.redirect(loginUrl);
   }
 
+  // 3. Signed-in users without a sufficient staff role are sent home
+  if (isProtectedRoute(pathname) && user) {
+    const role = await getStaffRole(user.id).catch((roleError) => {
+      console.error('[Middleware] Staff role lookup failed:', roleError);
+      return null;
+    });
+
+    if (!hasRequiredRole(role, getRequiredRole(pathname))) {
+      return NextResponse.redirect(new URL('/', request.url));
+    }
+  }
+
   // Return response with updated cookies
   return response;
 }
@@ -0,0 +1,76 @@
+-- Create admin_users table mapping Supabase Auth users to a staff role
+CREATE TABLE IF NOT EXISTS admin_users (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT NOT NULL UNIQUE,
+  role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('admin', 'editor', 'viewer')),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE admin_users IS 'Staff accounts allowed into /admin, with their role';
+COMMENT ON COLUMN admin_users.role IS 'admin: manage staff and content, editor: manage content, viewer: read-only admin access';
+
+-- Bootstrap the first admin manually, e.g.:
+-- INSERT INTO admin_users (user_id, email, role)
+--   SELECT id, email, 'admin' FROM auth.users WHERE email = 'owner@example.com';
+
+CREATE TRIGGER trigger_admin_users_updated_at
+  BEFORE UPDATE ON admin_users
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- Returns true when the current user holds at least the required role.
+-- SECURITY DEFINER so policies can consult admin_users without recursing into its RLS.
+CREATE OR REPLACE FUNCTION has_staff_role(required_role TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM admin_users
+    WHERE user_id = auth.uid()
+      AND CASE role WHEN 'admin' THEN 3 WHEN 'editor' THEN 2 WHEN 'viewer' THEN 1 ELSE 0 END
+        >= CASE required_role WHEN 'admin' THEN 3 WHEN 'editor' THEN 2 WHEN 'viewer' THEN 1 ELSE 4 END
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- admin_users: staff can read their own row, admins manage everyone
+ALTER TABLE admin_users ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view own role" ON admin_users
+  FOR SELECT USING (user_id = auth.uid() OR has_staff_role('admin'));
+CREATE POLICY "Admins can insert staff" ON admin_users
+  FOR INSERT WITH CHECK (has_staff_role('admin'));
+CREATE POLICY "Admins can update staff" ON admin_users
+  FOR UPDATE USING (has_staff_role('admin')) WITH CHECK (has_staff_role('admin'));
+CREATE POLICY "Admins can delete staff" ON admin_users
+  FOR DELETE USING (has_staff_role('admin'));
+
+-- Content tables: editors and admins can write
+CREATE POLICY "Editors can insert" ON tools FOR INSERT WITH CHECK (has_staff_role('editor'));
+CREATE POLICY "Editors can update" ON tools FOR UPDATE USING (has_staff_role('editor')) WITH CHECK (has_staff_role('editor'));
+CREATE POLICY "Editors can delete" ON tools FOR DELETE USING (has_staff_role('editor'));
+
+CREATE POLICY "Editors can insert" ON categories FOR INSERT WITH CHECK (has_staff_role('editor'));
+CREATE POLICY "Editors can update" ON categories FOR UPDATE USING (has_staff_role('editor')) WITH CHECK (has_staff_role('editor'));
+CREATE POLICY "Editors can delete" ON categories FOR DELETE USING (has_staff_role('editor'));
+
+CREATE POLICY "Editors can insert" ON category_groups FOR INSERT WITH CHECK (has_staff_role('editor'));
+CREATE POLICY "Editors can update" ON category_groups FOR UPDATE USING (has_staff_role('editor')) WITH CHECK (has_staff_role('editor'));
+CREATE POLICY "Editors can delete" ON category_groups FOR DELETE USING (has_staff_role('editor'));
+
+CREATE POLICY "Editors can insert" ON subcategories FOR INSERT WITH CHECK (has_staff_role('editor'));
+CREATE POLICY "Editors can update" ON subcategories FOR UPDATE USING (has_staff_role('editor')) WITH CHECK (has_staff_role('editor'));
+CREATE POLICY "Editors can delete" ON subcategories FOR DELETE USING (has_staff_role('editor'));
+
+CREATE POLICY "Editors can insert" ON tool_categories FOR INSERT WITH CHECK (has_staff_role('editor'));
+CREATE POLICY "Editors can update" ON tool_categories FOR UPDATE USING (has_staff_role('editor')) WITH CHECK (has_staff_role('editor'));
+CREATE POLICY "Editors can delete" ON tool_categories FOR DELETE USING (has_staff_role('editor'));
+
+CREATE POLICY "Editors can insert" ON featured_tools FOR INSERT WITH CHECK (has_staff_role('editor'));
+CREATE POLICY "Editors can update" ON featured_tools FOR UPDATE USING (has_staff_role('editor')) WITH CHECK (has_staff_role('editor'));
+CREATE POLICY "Editors can delete" ON featured_tools FOR DELETE USING (has_staff_role('editor'));
+
+CREATE POLICY "Editors can insert" ON faqs FOR INSERT WITH CHECK (has_staff_role('editor'));
+CREATE POLICY "Editors can update" ON faqs FOR UPDATE USING (has_staff_role('editor')) WITH CHECK (has_staff_role('editor'));
+CREATE POLICY "Editors can delete" ON faqs FOR DELETE USING (has_staff_role('editor'));
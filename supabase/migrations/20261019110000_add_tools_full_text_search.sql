@@ -0,0 +1,118 @@
+-- Full-text and trigram search for tools
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Weighted search document: name (A) > short_description (B) > description (C) > tags (D).
+-- Kept as an IMMUTABLE function backing an expression index rather than a stored
+-- column, so select('*') payloads do not carry the tsvector.
+CREATE OR REPLACE FUNCTION tool_search_document(
+  tool_name TEXT,
+  tool_short_description TEXT,
+  tool_description TEXT,
+  tool_tags TEXT[]
+)
+RETURNS tsvector AS $$
+  SELECT
+    setweight(to_tsvector('english', coalesce(tool_name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(tool_short_description, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(tool_description, '')), 'C') ||
+    setweight(to_tsvector('english', coalesce(array_to_string(tool_tags, ' '), '')), 'D');
+$$ LANGUAGE sql IMMUTABLE;
+
+COMMENT ON FUNCTION tool_search_document IS 'Weighted tsvector for tools; must match idx_tools_search_document';
+
+CREATE INDEX IF NOT EXISTS idx_tools_search_document ON tools
+  USING GIN (tool_search_document(name, short_description, description, tags));
+
+-- Trigram indexes for typo-tolerant name matching and tag lookups
+CREATE INDEX IF NOT EXISTS idx_tools_name_trgm ON tools USING GIN (name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_tools_tags ON tools USING GIN (tags);
+
+-- Ranked search over tools.
+-- Matches full-text hits, trigram-similar names (typos) and exact tags.
+-- fuzzy_match is true for rows found only through trigram similarity, which
+-- the UI uses to offer "did you mean" suggestions.
+CREATE OR REPLACE FUNCTION search_tools(search_query TEXT, result_limit INTEGER DEFAULT 20)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  slug TEXT,
+  description TEXT,
+  short_description TEXT,
+  image_url TEXT,
+  website_url TEXT,
+  external_url TEXT,
+  pricing TEXT,
+  tags TEXT[],
+  saved_count INTEGER,
+  review_count INTEGER,
+  review_score DECIMAL(2,1),
+  verified BOOLEAN,
+  is_new BOOLEAN,
+  is_featured BOOLEAN,
+  monthly_visits INTEGER,
+  change_percentage DECIMAL(5,2),
+  free_tier_details TEXT,
+  metadata JSONB,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  rank REAL,
+  snippet TEXT,
+  fuzzy_match BOOLEAN
+) AS $$
+  WITH query AS (
+    SELECT
+      websearch_to_tsquery('english', search_query) AS tsq,
+      lower(trim(search_query)) AS term
+  ),
+  matches AS (
+    SELECT
+      t.*,
+      tool_search_document(t.name, t.short_description, t.description, t.tags) @@ query.tsq AS text_match,
+      query.tsq,
+      query.term
+    FROM tools t, query
+    WHERE tool_search_document(t.name, t.short_description, t.description, t.tags) @@ query.tsq
+       OR t.name % query.term
+       OR query.term <% t.name
+       OR t.tags @> ARRAY[query.term]
+  )
+  SELECT
+    m.id,
+    m.name,
+    m.slug,
+    m.description,
+    m.short_description,
+    m.image_url,
+    m.website_url,
+    m.external_url,
+    m.pricing,
+    m.tags,
+    m.saved_count,
+    m.review_count,
+    m.review_score,
+    m.verified,
+    m.is_new,
+    m.is_featured,
+    m.monthly_visits,
+    m.change_percentage,
+    m.free_tier_details,
+    m.metadata,
+    m.created_at,
+    m.updated_at,
+    (
+      ts_rank_cd(tool_search_document(m.name, m.short_description, m.description, m.tags), m.tsq)
+      + greatest(similarity(m.name, m.term), word_similarity(m.term, m.name))
+    )::REAL AS rank,
+    ts_headline(
+      'english',
+      coalesce(nullif(m.short_description, ''), m.description, ''),
+      m.tsq,
+      'StartSel=«, StopSel=», MaxWords=24, MinWords=8, MaxFragments=1'
+    ) AS snippet,
+    NOT m.text_match AND NOT coalesce(m.tags @> ARRAY[m.term], false) AS fuzzy_match
+  FROM matches m
+  ORDER BY rank DESC, m.name ASC
+  LIMIT result_limit;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION search_tools IS 'Relevance-ranked tool search with typo tolerance and highlighted snippets';
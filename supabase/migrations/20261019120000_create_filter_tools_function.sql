@@ -0,0 +1,50 @@
+-- Composable tool filtering in a single query.
+-- Every argument is optional; NULL means "do not filter on this".
+-- Returns SETOF tools so PostgREST can still embed tool_categories, apply
+-- ORDER BY / LIMIT / OFFSET and compute an exact count on top of the call.
+-- Without an explicit order, rows come back by search relevance (or newest first).
+CREATE OR REPLACE FUNCTION filter_tools(
+  search_query TEXT DEFAULT NULL,
+  category_slugs TEXT[] DEFAULT NULL,
+  pricing_values TEXT[] DEFAULT NULL,
+  tag_values TEXT[] DEFAULT NULL,
+  only_verified BOOLEAN DEFAULT NULL,
+  only_featured BOOLEAN DEFAULT NULL
+)
+RETURNS SETOF tools AS $$
+  SELECT t.*
+  FROM tools t
+  WHERE (
+      category_slugs IS NULL
+      OR EXISTS (
+        SELECT 1
+        FROM tool_categories tc
+        JOIN categories c ON c.id = tc.category_id
+        WHERE tc.tool_id = t.id
+          AND c.slug = ANY(category_slugs)
+      )
+    )
+    AND (pricing_values IS NULL OR t.pricing = ANY(pricing_values))
+    AND (tag_values IS NULL OR t.tags @> tag_values)
+    AND (only_verified IS NULL OR coalesce(t.verified, false) = only_verified)
+    AND (only_featured IS NULL OR coalesce(t.is_featured, false) = only_featured)
+    AND (
+      nullif(trim(search_query), '') IS NULL
+      OR tool_search_document(t.name, t.short_description, t.description, t.tags)
+         @@ websearch_to_tsquery('english', search_query)
+      OR t.name % lower(trim(search_query))
+      OR lower(trim(search_query)) <% t.name
+    )
+  ORDER BY
+    CASE
+      WHEN nullif(trim(search_query), '') IS NULL THEN 0
+      ELSE ts_rank_cd(
+             tool_search_document(t.name, t.short_description, t.description, t.tags),
+             websearch_to_tsquery('english', search_query)
+           ) + word_similarity(lower(trim(search_query)), t.name)
+    END DESC,
+    t.created_at DESC,
+    t.id ASC;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION filter_tools IS 'Combined category/pricing/tag/flag/search filter over tools';
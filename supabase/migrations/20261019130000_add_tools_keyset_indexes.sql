@@ -0,0 +1,7 @@
+-- Composite indexes backing keyset pagination over (sort column, id).
+-- Directions and NULLS LAST match the ORDER BY issued by findPage and
+-- findByQuery so deep pages are index range scans instead of offsets.
+CREATE INDEX IF NOT EXISTS idx_tools_created_at_id ON tools(created_at DESC NULLS LAST, id DESC);
+CREATE INDEX IF NOT EXISTS idx_tools_name_id ON tools(name ASC NULLS LAST, id ASC);
+CREATE INDEX IF NOT EXISTS idx_tools_saved_count_id ON tools(saved_count DESC NULLS LAST, id DESC);
+CREATE INDEX IF NOT EXISTS idx_tools_review_score_id ON tools(review_score DESC NULLS LAST, id DESC);
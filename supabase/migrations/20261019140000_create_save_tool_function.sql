@@ -0,0 +1,100 @@
+-- Atomic tool create/update including its category links.
+-- Runs as one transaction: if any category link fails, the tool insert or
+-- update is rolled back too, so tools are never left half-linked.
+--
+-- target_id    NULL to create a tool, otherwise the tool to update
+-- tool_fields  Column values as JSON; on update only the keys present change
+-- category_ids NULL to leave links untouched, otherwise the complete new set
+--
+-- Errors surface with their Postgres codes: 23505 for a duplicate slug,
+-- 23503 for an unknown category and P0002 when target_id does not exist.
+CREATE OR REPLACE FUNCTION save_tool(
+  target_id UUID,
+  tool_fields JSONB,
+  category_ids UUID[] DEFAULT NULL
+)
+RETURNS tools AS $$
+DECLARE
+  saved tools;
+BEGIN
+  IF target_id IS NULL THEN
+    saved := jsonb_populate_record(
+      NULL::tools,
+      jsonb_build_object(
+        'id', gen_random_uuid(),
+        'pricing', 'Freemium',
+        'tags', '[]'::jsonb,
+        'saved_count', 0,
+        'review_count', 0,
+        'review_score', 0,
+        'verified', false,
+        'is_new', false,
+        'is_featured', false,
+        'metadata', '{}'::jsonb,
+        'created_at', now(),
+        'updated_at', now()
+      ) || (tool_fields - 'id' - 'created_at' - 'updated_at')
+    );
+  ELSE
+    SELECT * INTO saved FROM tools WHERE id = target_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Tool not found: %', target_id USING ERRCODE = 'no_data_found';
+    END IF;
+
+    saved := jsonb_populate_record(saved, tool_fields - 'id' - 'created_at' - 'updated_at');
+  END IF;
+
+  -- Tag set replacement: trimmed, non-empty, first occurrence wins
+  saved.tags := ARRAY(
+    SELECT btrim(u.tag)
+    FROM unnest(coalesce(saved.tags, '{}')) WITH ORDINALITY AS u(tag, position)
+    WHERE btrim(u.tag) <> ''
+    GROUP BY btrim(u.tag)
+    ORDER BY min(u.position)
+  );
+
+  IF target_id IS NULL THEN
+    INSERT INTO tools VALUES (saved.*) RETURNING * INTO saved;
+  ELSE
+    UPDATE tools SET
+      name = saved.name,
+      slug = saved.slug,
+      description = saved.description,
+      short_description = saved.short_description,
+      image_url = saved.image_url,
+      website_url = saved.website_url,
+      external_url = saved.external_url,
+      pricing = saved.pricing,
+      tags = saved.tags,
+      saved_count = saved.saved_count,
+      review_count = saved.review_count,
+      review_score = saved.review_score,
+      verified = saved.verified,
+      is_new = saved.is_new,
+      is_featured = saved.is_featured,
+      monthly_visits = saved.monthly_visits,
+      change_percentage = saved.change_percentage,
+      free_tier_details = saved.free_tier_details,
+      metadata = saved.metadata
+    WHERE id = target_id
+    RETURNING * INTO saved;
+  END IF;
+
+  -- Category set replacement
+  IF category_ids IS NOT NULL THEN
+    DELETE FROM tool_categories
+    WHERE tool_id = saved.id
+      AND category_id <> ALL(category_ids);
+
+    INSERT INTO tool_categories (tool_id, category_id)
+    SELECT DISTINCT saved.id, category_id
+    FROM unnest(category_ids) AS category_id
+    ON CONFLICT (tool_id, category_id) DO NOTHING;
+  END IF;
+
+  RETURN saved;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION save_tool IS 'Creates or updates a tool and replaces its category and tag sets in one transaction';
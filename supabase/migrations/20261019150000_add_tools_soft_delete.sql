@@ -0,0 +1,177 @@
+-- Soft delete for tools.
+-- Archiving sets deleted_at instead of deleting the row, so tool_categories,
+-- featured_tools and user_favorites survive a mistaken delete and the tool can
+-- be restored. purge_archived_tools() hard-deletes after the retention window.
+ALTER TABLE tools ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN tools.deleted_at IS 'When the tool was archived; NULL for live tools';
+
+-- Public listings only ever scan live tools
+CREATE INDEX IF NOT EXISTS idx_tools_live_created_at ON tools(created_at DESC NULLS LAST, id DESC)
+  WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_tools_deleted_at ON tools(deleted_at)
+  WHERE deleted_at IS NOT NULL;
+
+-- Anonymous and signed-in visitors see live tools only; staff also see archived ones
+DROP POLICY IF EXISTS "Public read access" ON tools;
+CREATE POLICY "Public read access" ON tools FOR SELECT
+  USING (deleted_at IS NULL OR has_staff_role('viewer'));
+
+-- Hard-deletes tools archived longer than the retention window.
+-- Cascades remove their category links, featured slots and favorites.
+CREATE OR REPLACE FUNCTION purge_archived_tools(retention INTERVAL DEFAULT INTERVAL '30 days')
+RETURNS INTEGER AS $$
+DECLARE
+  purged INTEGER;
+BEGIN
+  DELETE FROM tools
+  WHERE deleted_at IS NOT NULL
+    AND deleted_at < now() - retention;
+
+  GET DIAGNOSTICS purged = ROW_COUNT;
+  RETURN purged;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION purge_archived_tools IS 'Hard-deletes tools archived for longer than the retention interval';
+
+-- Nightly purge job (pg_cron is available on Supabase projects)
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+SELECT cron.schedule(
+  'purge-archived-tools',
+  '0 3 * * *',
+  $$SELECT purge_archived_tools()$$
+);
+
+-- Exclude archived tools from search and filtering
+CREATE OR REPLACE FUNCTION filter_tools(
+  search_query TEXT DEFAULT NULL,
+  category_slugs TEXT[] DEFAULT NULL,
+  pricing_values TEXT[] DEFAULT NULL,
+  tag_values TEXT[] DEFAULT NULL,
+  only_verified BOOLEAN DEFAULT NULL,
+  only_featured BOOLEAN DEFAULT NULL
+)
+RETURNS SETOF tools AS $$
+  SELECT t.*
+  FROM tools t
+  WHERE t.deleted_at IS NULL
+    AND (
+      category_slugs IS NULL
+      OR EXISTS (
+        SELECT 1
+        FROM tool_categories tc
+        JOIN categories c ON c.id = tc.category_id
+        WHERE tc.tool_id = t.id
+          AND c.slug = ANY(category_slugs)
+      )
+    )
+    AND (pricing_values IS NULL OR t.pricing = ANY(pricing_values))
+    AND (tag_values IS NULL OR t.tags @> tag_values)
+    AND (only_verified IS NULL OR coalesce(t.verified, false) = only_verified)
+    AND (only_featured IS NULL OR coalesce(t.is_featured, false) = only_featured)
+    AND (
+      nullif(trim(search_query), '') IS NULL
+      OR tool_search_document(t.name, t.short_description, t.description, t.tags)
+         @@ websearch_to_tsquery('english', search_query)
+      OR t.name % lower(trim(search_query))
+      OR lower(trim(search_query)) <% t.name
+    )
+  ORDER BY
+    CASE
+      WHEN nullif(trim(search_query), '') IS NULL THEN 0
+      ELSE ts_rank_cd(
+             tool_search_document(t.name, t.short_description, t.description, t.tags),
+             websearch_to_tsquery('english', search_query)
+           ) + word_similarity(lower(trim(search_query)), t.name)
+    END DESC,
+    t.created_at DESC,
+    t.id ASC;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION search_tools(search_query TEXT, result_limit INTEGER DEFAULT 20)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  slug TEXT,
+  description TEXT,
+  short_description TEXT,
+  image_url TEXT,
+  website_url TEXT,
+  external_url TEXT,
+  pricing TEXT,
+  tags TEXT[],
+  saved_count INTEGER,
+  review_count INTEGER,
+  review_score DECIMAL(2,1),
+  verified BOOLEAN,
+  is_new BOOLEAN,
+  is_featured BOOLEAN,
+  monthly_visits INTEGER,
+  change_percentage DECIMAL(5,2),
+  free_tier_details TEXT,
+  metadata JSONB,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  rank REAL,
+  snippet TEXT,
+  fuzzy_match BOOLEAN
+) AS $$
+  WITH query AS (
+    SELECT
+      websearch_to_tsquery('english', search_query) AS tsq,
+      lower(trim(search_query)) AS term
+  ),
+  matches AS (
+    SELECT
+      t.*,
+      tool_search_document(t.name, t.short_description, t.description, t.tags) @@ query.tsq AS text_match,
+      query.tsq,
+      query.term
+    FROM tools t, query
+    WHERE t.deleted_at IS NULL
+      AND (
+        tool_search_document(t.name, t.short_description, t.description, t.tags) @@ query.tsq
+        OR t.name % query.term
+        OR query.term <% t.name
+        OR t.tags @> ARRAY[query.term]
+      )
+  )
+  SELECT
+    m.id,
+    m.name,
+    m.slug,
+    m.description,
+    m.short_description,
+    m.image_url,
+    m.website_url,
+    m.external_url,
+    m.pricing,
+    m.tags,
+    m.saved_count,
+    m.review_count,
+    m.review_score,
+    m.verified,
+    m.is_new,
+    m.is_featured,
+    m.monthly_visits,
+    m.change_percentage,
+    m.free_tier_details,
+    m.metadata,
+    m.created_at,
+    m.updated_at,
+    (
+      ts_rank_cd(tool_search_document(m.name, m.short_description, m.description, m.tags), m.tsq)
+      + greatest(similarity(m.name, m.term), word_similarity(m.term, m.name))
+    )::REAL AS rank,
+    ts_headline(
+      'english',
+      coalesce(nullif(m.short_description, ''), m.description, ''),
+      m.tsq,
+      'StartSel=«, StopSel=», MaxWords=24, MinWords=8, MaxFragments=1'
+    ) AS snippet,
+    NOT m.text_match AND NOT coalesce(m.tags @> ARRAY[m.term], false) AS fuzzy_match
+  FROM matches m
+  ORDER BY rank DESC, m.name ASC
+  LIMIT result_limit;
+$$ LANGUAGE sql STABLE;
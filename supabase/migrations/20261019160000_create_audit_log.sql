@@ -0,0 +1,110 @@
+-- Audit log of every content mutation.
+-- Row triggers on tools, categories, featured_tools and faqs record who made
+-- each change and a before/after diff, so writes from admin actions, the
+-- save_tool function and the scraper are all captured the same way.
+CREATE TABLE IF NOT EXISTS audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor TEXT NOT NULL,
+  entity TEXT NOT NULL,
+  entity_id TEXT,
+  operation TEXT NOT NULL CHECK (operation IN ('insert', 'update', 'delete', 'archive', 'restore')),
+  before JSONB,
+  after JSONB,
+  changes JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE audit_log IS 'Who changed which content row, when, and how';
+COMMENT ON COLUMN audit_log.actor IS 'Auth user id, a service name such as "scraper", or "system" when unknown';
+COMMENT ON COLUMN audit_log.changes IS 'Changed columns as {"column": {"before": ..., "after": ...}}';
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log(actor, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity_id ON audit_log(entity_id);
+
+-- Staff can read the log; only the audit trigger writes to it
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view audit log" ON audit_log
+  FOR SELECT USING (has_staff_role('viewer'));
+
+-- Resolves who is making the current change.
+-- Signed-in requests use their auth user id. Service-role clients have no
+-- user, so they name the actor in the x-audit-actor request header, which
+-- PostgREST exposes through request.headers.
+CREATE OR REPLACE FUNCTION audit_actor()
+RETURNS TEXT AS $$
+  SELECT coalesce(
+    auth.uid()::text,
+    nullif(current_setting('request.headers', true)::json->>'x-audit-actor', ''),
+    'system'
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Columns whose value changed between two row images, ignoring updated_at
+CREATE OR REPLACE FUNCTION audit_changes(before_row JSONB, after_row JSONB)
+RETURNS JSONB AS $$
+  SELECT coalesce(
+    jsonb_object_agg(key, jsonb_build_object('before', before_row->key, 'after', after_row->key)),
+    '{}'::jsonb
+  )
+  FROM jsonb_object_keys(coalesce(before_row, '{}'::jsonb) || coalesce(after_row, '{}'::jsonb)) AS key
+  WHERE key <> 'updated_at'
+    AND (before_row->key) IS DISTINCT FROM (after_row->key);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- SECURITY DEFINER so the insert succeeds whatever the writer's RLS rights on audit_log
+CREATE OR REPLACE FUNCTION record_audit_log()
+RETURNS TRIGGER AS $$
+DECLARE
+  before_row JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  after_row JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  diff JSONB := audit_changes(before_row, after_row);
+  op TEXT := lower(TG_OP);
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    -- Upserts that rewrite identical values are not changes
+    IF diff = '{}'::jsonb THEN
+      RETURN NULL;
+    END IF;
+
+    IF diff ? 'deleted_at' THEN
+      op := CASE WHEN after_row->>'deleted_at' IS NULL THEN 'restore' ELSE 'archive' END;
+    END IF;
+  END IF;
+
+  INSERT INTO audit_log (actor, entity, entity_id, operation, before, after, changes)
+  VALUES (
+    audit_actor(),
+    TG_TABLE_NAME,
+    coalesce(after_row, before_row)->>'id',
+    op,
+    before_row,
+    after_row,
+    diff
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_tools_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON tools
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_log();
+
+CREATE TRIGGER trigger_categories_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON categories
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_log();
+
+CREATE TRIGGER trigger_featured_tools_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON featured_tools
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_log();
+
+CREATE TRIGGER trigger_faqs_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON faqs
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_log();
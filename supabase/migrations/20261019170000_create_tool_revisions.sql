@@ -0,0 +1,119 @@
+-- Tool revision history.
+-- Every committed change to a tool's listing or its category links is stored
+-- as a numbered revision holding the full editorial state, so earlier versions
+-- can be compared and restored (see revertToolRevision in tools.service).
+--
+-- Revisions are written by deferred triggers, which run at commit and see the
+-- final state. All changes a transaction makes to one tool (e.g. save_tool
+-- updating the row and then relinking categories) collapse into one revision.
+CREATE TABLE IF NOT EXISTS tool_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tool_id UUID NOT NULL REFERENCES tools(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  snapshot JSONB NOT NULL,
+  category_ids UUID[] NOT NULL DEFAULT '{}',
+  actor TEXT NOT NULL,
+  transaction_id BIGINT NOT NULL DEFAULT txid_current(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (tool_id, revision_number),
+  UNIQUE (tool_id, transaction_id)
+);
+
+COMMENT ON TABLE tool_revisions IS 'Numbered versions of each tool listing and its category set';
+COMMENT ON COLUMN tool_revisions.snapshot IS 'Editorial tool columns; ids, timestamps, counters and deleted_at are left out';
+
+CREATE INDEX IF NOT EXISTS idx_tool_revisions_tool ON tool_revisions(tool_id, revision_number DESC);
+
+ALTER TABLE tool_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view tool revisions" ON tool_revisions
+  FOR SELECT USING (has_staff_role('viewer'));
+
+-- Editorial state of a tool. Counters are maintained by the site itself and
+-- archiving is tracked in audit_log, so neither is versioned or reverted.
+-- The scraper stamps metadata.scraped_at on every run; it is dropped so that
+-- re-scraping an unchanged tool does not create a revision.
+CREATE OR REPLACE FUNCTION tool_revision_snapshot(tool tools)
+RETURNS JSONB AS $$
+  SELECT (to_jsonb(tool) - ARRAY[
+      'id', 'created_at', 'updated_at', 'deleted_at',
+      'saved_count', 'review_count', 'review_score'
+    ])
+    || jsonb_build_object('metadata', coalesce(tool.metadata, '{}'::jsonb) - 'scraped_at');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- SECURITY DEFINER so any writer allowed to change a tool also records its revision
+CREATE OR REPLACE FUNCTION record_tool_revision()
+RETURNS TRIGGER AS $$
+DECLARE
+  changed_row JSONB := CASE WHEN TG_OP = 'DELETE' THEN to_jsonb(OLD) ELSE to_jsonb(NEW) END;
+  changed_tool_id UUID := CASE WHEN TG_TABLE_NAME = 'tools' THEN (changed_row->>'id')::uuid
+                               ELSE (changed_row->>'tool_id')::uuid END;
+  tool tools;
+  current_snapshot JSONB;
+  current_categories UUID[];
+  latest tool_revisions;
+BEGIN
+  SELECT * INTO tool FROM tools WHERE id = changed_tool_id;
+
+  -- The tool itself was deleted in this transaction
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  current_snapshot := tool_revision_snapshot(tool);
+  current_categories := ARRAY(
+    SELECT category_id FROM tool_categories WHERE tool_id = changed_tool_id ORDER BY category_id
+  );
+
+  SELECT * INTO latest
+  FROM tool_revisions
+  WHERE tool_id = changed_tool_id
+  ORDER BY revision_number DESC
+  LIMIT 1;
+
+  IF FOUND AND latest.transaction_id = txid_current() THEN
+    -- Another row trigger of this transaction already recorded the revision
+    UPDATE tool_revisions
+    SET snapshot = current_snapshot, category_ids = current_categories
+    WHERE id = latest.id;
+  ELSIF NOT FOUND
+     OR latest.snapshot IS DISTINCT FROM current_snapshot
+     OR latest.category_ids IS DISTINCT FROM current_categories THEN
+    INSERT INTO tool_revisions (tool_id, revision_number, snapshot, category_ids, actor)
+    VALUES (
+      changed_tool_id,
+      coalesce(latest.revision_number, 0) + 1,
+      current_snapshot,
+      current_categories,
+      audit_actor()
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE CONSTRAINT TRIGGER trigger_tools_revision
+  AFTER INSERT OR UPDATE ON tools
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION record_tool_revision();
+
+CREATE CONSTRAINT TRIGGER trigger_tool_categories_revision
+  AFTER INSERT OR UPDATE OR DELETE ON tool_categories
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION record_tool_revision();
+
+-- Seed revision 1 for tools that existed before history was recorded
+INSERT INTO tool_revisions (tool_id, revision_number, snapshot, category_ids, actor, created_at)
+SELECT
+  t.id,
+  1,
+  tool_revision_snapshot(t),
+  ARRAY(SELECT tc.category_id FROM tool_categories tc WHERE tc.tool_id = t.id ORDER BY tc.category_id),
+  'system',
+  coalesce(t.updated_at, t.created_at, now())
+FROM tools t
+ON CONFLICT DO NOTHING;
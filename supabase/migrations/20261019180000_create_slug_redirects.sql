@@ -0,0 +1,69 @@
+-- Slug redirects.
+-- When a tool or category slug changes, the old slug is kept here pointing at
+-- the row's id, so /tool/old-slug and /category/old-slug keep resolving with
+-- a permanent redirect to the current slug (see redirects.service).
+--
+-- Redirects point at ids rather than slugs, so a chain of renames
+-- (a -> b -> c) resolves in one hop from any earlier slug.
+CREATE TABLE IF NOT EXISTS slug_redirects (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity TEXT NOT NULL CHECK (entity IN ('tools', 'categories')),
+  old_slug TEXT NOT NULL,
+  entity_id UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (entity, old_slug)
+);
+
+COMMENT ON TABLE slug_redirects IS 'Former tool and category slugs and the row they now belong to';
+
+CREATE INDEX IF NOT EXISTS idx_slug_redirects_entity_id ON slug_redirects(entity, entity_id);
+
+ALTER TABLE slug_redirects ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read access" ON slug_redirects
+  FOR SELECT USING (true);
+
+-- SECURITY DEFINER so any writer allowed to rename a row also records its redirect
+CREATE OR REPLACE FUNCTION record_slug_redirect()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- A live slug always wins: drop any redirect the new slug used to be
+  DELETE FROM slug_redirects
+  WHERE entity = TG_TABLE_NAME AND old_slug = NEW.slug;
+
+  IF TG_OP = 'UPDATE' AND OLD.slug IS DISTINCT FROM NEW.slug THEN
+    INSERT INTO slug_redirects (entity, old_slug, entity_id)
+    VALUES (TG_TABLE_NAME, OLD.slug, NEW.id)
+    ON CONFLICT (entity, old_slug)
+    DO UPDATE SET entity_id = EXCLUDED.entity_id, created_at = NOW();
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_tools_slug_redirect
+  AFTER INSERT OR UPDATE OF slug ON tools
+  FOR EACH ROW
+  EXECUTE FUNCTION record_slug_redirect();
+
+CREATE TRIGGER trigger_categories_slug_redirect
+  AFTER INSERT OR UPDATE OF slug ON categories
+  FOR EACH ROW
+  EXECUTE FUNCTION record_slug_redirect();
+
+-- Current slug for a former one, or NULL when the slug was never renamed or
+-- its row is gone. Archived tools do not resolve, matching the tool page.
+CREATE OR REPLACE FUNCTION resolve_slug_redirect(target_entity TEXT, requested_slug TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE r.entity
+    WHEN 'tools' THEN (
+      SELECT t.slug FROM tools t WHERE t.id = r.entity_id AND t.deleted_at IS NULL
+    )
+    WHEN 'categories' THEN (
+      SELECT c.slug FROM categories c WHERE c.id = r.entity_id
+    )
+  END
+  FROM slug_redirects r
+  WHERE r.entity = target_entity AND r.old_slug = requested_slug;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,16 @@
+-- Category group membership moves from metadata to the group_id column.
+-- group_id was added in 20251219191609 but categories were still grouped by
+-- metadata.group_id; copy any valid value across before the service switches
+-- to the column, then drop the stale key.
+UPDATE categories c
+SET group_id = g.id
+FROM category_groups g
+WHERE c.group_id IS NULL
+  AND c.metadata ? 'group_id'
+  AND c.metadata->>'group_id' = g.id::text;
+
+UPDATE categories
+SET metadata = metadata - 'group_id'
+WHERE metadata ? 'group_id';
+
+CREATE INDEX IF NOT EXISTS idx_category_groups_display_order ON category_groups(display_order);
@@ -0,0 +1,51 @@
+-- Merge one category into another.
+-- Moves the source's tool links and subcategories to the target, points the
+-- source's URLs at the target through slug_redirects, then deletes the source.
+-- Everything happens in one transaction, so a failed merge leaves both intact.
+--
+-- Returns the number of tools newly linked to the target (tools already in
+-- both categories are not counted).
+CREATE OR REPLACE FUNCTION merge_categories(source_id UUID, target_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  source categories;
+  moved INTEGER;
+BEGIN
+  IF source_id = target_id THEN
+    RAISE EXCEPTION 'Cannot merge a category into itself' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT * INTO source FROM categories WHERE id = source_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Category not found: %', source_id
+      USING ERRCODE = 'no_data_found', DETAIL = source_id::text;
+  END IF;
+
+  PERFORM 1 FROM categories WHERE id = target_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Category not found: %', target_id
+      USING ERRCODE = 'no_data_found', DETAIL = target_id::text;
+  END IF;
+
+  INSERT INTO tool_categories (tool_id, category_id)
+  SELECT tool_id, target_id FROM tool_categories WHERE category_id = source_id
+  ON CONFLICT DO NOTHING;
+  GET DIAGNOSTICS moved = ROW_COUNT;
+
+  UPDATE subcategories SET category_id = target_id WHERE category_id = source_id;
+
+  -- Earlier slugs of the source, and the source's own slug, now lead to the target
+  UPDATE slug_redirects SET entity_id = target_id
+  WHERE entity = 'categories' AND entity_id = source_id;
+
+  INSERT INTO slug_redirects (entity, old_slug, entity_id)
+  VALUES ('categories', source.slug, target_id)
+  ON CONFLICT (entity, old_slug)
+  DO UPDATE SET entity_id = EXCLUDED.entity_id, created_at = NOW();
+
+  -- Cascades to the source's remaining tool_categories rows
+  DELETE FROM categories WHERE id = source_id;
+
+  RETURN moved;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,22 @@
+-- Featured slots can be scheduled: a slot is shown from starts_at (inclusive)
+-- until ends_at (exclusive). A NULL bound leaves that side open, so existing
+-- slots stay visible until an editor schedules them.
+ALTER TABLE featured_tools
+  ADD COLUMN IF NOT EXISTS starts_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS ends_at TIMESTAMPTZ;
+
+ALTER TABLE featured_tools
+  ADD CONSTRAINT featured_tools_schedule_check
+  CHECK (starts_at IS NULL OR ends_at IS NULL OR ends_at > starts_at);
+
+-- A tool holds at most one slot; keep the earliest-ordered one of any duplicates
+DELETE FROM featured_tools f
+USING featured_tools other
+WHERE f.tool_id = other.tool_id
+  AND (COALESCE(f.display_order, 0), f.created_at, f.id)
+    > (COALESCE(other.display_order, 0), other.created_at, other.id);
+
+ALTER TABLE featured_tools
+  ADD CONSTRAINT featured_tools_tool_id_key UNIQUE (tool_id);
+
+CREATE INDEX IF NOT EXISTS idx_featured_tools_display_order ON featured_tools(display_order);
@@ -0,0 +1,69 @@
+-- FAQ scopes.
+-- Every FAQ belongs to the page it is shown on:
+--   free-ai-tools          the Free AI Tools landing page
+--   midjourney-library     the Midjourney library
+--   category:<slug>        a category page
+--   tool:<slug>            a tool page
+-- Answers are markdown. Existing rows were the site-wide FAQ and move to
+-- free-ai-tools.
+ALTER TABLE faqs ADD COLUMN IF NOT EXISTS scope TEXT;
+
+UPDATE faqs SET scope = 'free-ai-tools' WHERE scope IS NULL;
+
+ALTER TABLE faqs
+  ALTER COLUMN scope SET NOT NULL,
+  ADD CONSTRAINT faqs_scope_check
+  CHECK (scope ~ '^(free-ai-tools|midjourney-library|(category|tool):[a-z0-9]+(-[a-z0-9]+)*)$');
+
+COMMENT ON COLUMN faqs.scope IS 'Page the FAQ is shown on: free-ai-tools, midjourney-library, category:<slug> or tool:<slug>';
+
+CREATE INDEX IF NOT EXISTS idx_faqs_scope_display_order ON faqs(scope, display_order);
+
+-- Category and tool scopes follow their row: a renamed slug carries its FAQs
+-- along, and a deleted row takes its FAQs with it. Archiving a tool keeps them.
+-- SECURITY DEFINER so any writer allowed to rename or delete the row can do so.
+CREATE OR REPLACE FUNCTION sync_faq_scope()
+RETURNS TRIGGER AS $$
+DECLARE
+  prefix TEXT := CASE TG_TABLE_NAME WHEN 'tools' THEN 'tool:' ELSE 'category:' END;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM faqs WHERE scope = prefix || OLD.slug;
+  ELSIF OLD.slug IS DISTINCT FROM NEW.slug THEN
+    UPDATE faqs SET scope = prefix || NEW.slug WHERE scope = prefix || OLD.slug;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_tools_faq_scope
+  AFTER UPDATE OF slug OR DELETE ON tools
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_faq_scope();
+
+CREATE TRIGGER trigger_categories_faq_scope
+  AFTER UPDATE OF slug OR DELETE ON categories
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_faq_scope();
+
+-- FAQs previously read from src/data/free-ai-tools/faq.json and prompt.service
+INSERT INTO faqs (scope, question, answer, display_order)
+SELECT v.scope, v.question, v.answer, v.display_order
+FROM (VALUES
+  ('free-ai-tools', 'What are free AI tools?',
+   'Free AI tools are artificial intelligence applications that you can use without paying. They help with various tasks like writing, image generation, and productivity.', 0),
+  ('free-ai-tools', 'How do I choose the right AI tool?',
+   'Consider your specific needs, the tool''s features, ease of use, and any limitations of the free tier. Browse our categories to find tools that match your requirements.', 1),
+  ('midjourney-library', 'What are Midjourney SREF codes?',
+   'SREF (Style Reference) codes are unique identifiers in Midjourney that allow you to apply a specific aesthetic style to your generations. Simply add `--sref [code]` to your prompt to use a style.', 0),
+  ('midjourney-library', 'How do I use these styles in Midjourney?',
+   'Copy the SREF code or full prompt, paste it into Midjourney, and add your own subject description. For example: `a cat in a garden --sref 1234567890` will apply that style to your cat image.', 1),
+  ('midjourney-library', 'What aspect ratios work best?',
+   'The aspect ratio depends on your use case. Use `--ar 16:9` for landscapes and wallpapers, `--ar 1:1` for social media posts, `--ar 9:16` for mobile wallpapers, and `--ar 3:4` for portraits.', 2),
+  ('midjourney-library', 'Which Midjourney version should I use?',
+   'Most SREF codes work best with Midjourney v5.2 or v6. Some styles may produce different results on different versions, so experiment to find what works best for your needs.', 3)
+) AS v(scope, question, answer, display_order)
+WHERE NOT EXISTS (
+  SELECT 1 FROM faqs f WHERE f.scope = v.scope AND f.question = v.question
+);
@@ -0,0 +1,94 @@
+-- Aggregates for the admin dashboard.
+-- The scraper records each run in scraper_runs (the DB equivalent of
+-- scraping-metadata.json), and the functions below group tools in SQL so
+-- the dashboard never loads whole tables to count them.
+
+CREATE TABLE IF NOT EXISTS scraper_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  started_at TIMESTAMPTZ NOT NULL,
+  finished_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  status TEXT NOT NULL CHECK (status IN ('succeeded', 'partial', 'failed')),
+  pages_scraped INTEGER NOT NULL DEFAULT 0,
+  tools_extracted INTEGER NOT NULL DEFAULT 0,
+  categories_scraped INTEGER NOT NULL DEFAULT 0,
+  error_count INTEGER NOT NULL DEFAULT 0,
+  version TEXT
+);
+
+COMMENT ON TABLE scraper_runs IS 'One row per scraper run, written by the scraper when it finishes';
+COMMENT ON COLUMN scraper_runs.status IS 'failed: the run aborted; partial: it finished with page or database errors';
+
+CREATE INDEX IF NOT EXISTS idx_scraper_runs_finished_at ON scraper_runs(finished_at DESC);
+
+-- Staff can read runs; only the service-role scraper writes them
+ALTER TABLE scraper_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view scraper runs" ON scraper_runs
+  FOR SELECT USING (has_staff_role('viewer'));
+
+-- Live tools created per day or week since a point in time, one row per
+-- bucket including empty ones so charts have no gaps.
+CREATE OR REPLACE FUNCTION count_tools_added(bucket TEXT, since TIMESTAMPTZ)
+RETURNS TABLE (period_start TIMESTAMPTZ, tool_count BIGINT) AS $$
+  SELECT period.start, count(t.id)
+  FROM generate_series(
+    date_trunc(bucket, since),
+    date_trunc(bucket, NOW()),
+    ('1 ' || bucket)::interval
+  ) AS period(start)
+  LEFT JOIN tools t
+    ON t.deleted_at IS NULL
+   AND date_trunc(bucket, t.created_at) = period.start
+  WHERE bucket IN ('day', 'week')
+  GROUP BY period.start
+  ORDER BY period.start;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION count_tools_added IS 'Live tools created per day or week, zero-filled';
+
+-- Live tools grouped by pricing or by source ('scraper' or 'manual').
+CREATE OR REPLACE FUNCTION count_tools_by(dimension TEXT)
+RETURNS TABLE (value TEXT, tool_count BIGINT) AS $$
+  SELECT grouped.value, count(*)
+  FROM (
+    SELECT CASE dimension
+      WHEN 'pricing' THEN coalesce(t.pricing, 'Unknown')
+      WHEN 'source' THEN CASE WHEN t.metadata->>'source' = 'scraper' THEN 'scraper' ELSE 'manual' END
+    END AS value
+    FROM tools t
+    WHERE t.deleted_at IS NULL
+      AND dimension IN ('pricing', 'source')
+  ) AS grouped
+  GROUP BY grouped.value
+  ORDER BY count(*) DESC, grouped.value;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION count_tools_by IS 'Live tool counts per pricing value or per source';
+
+-- Single-row totals shown as dashboard cards.
+CREATE OR REPLACE FUNCTION tool_dashboard_totals()
+RETURNS TABLE (unverified_tools BIGINT, favorites BIGINT, reviews BIGINT) AS $$
+  SELECT
+    (SELECT count(*) FROM tools WHERE deleted_at IS NULL AND NOT coalesce(verified, false)),
+    (SELECT count(*) FROM user_favorites),
+    (SELECT coalesce(sum(review_count), 0) FROM tools WHERE deleted_at IS NULL);
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION tool_dashboard_totals IS 'Unverified live tools, saved favorites and reviews across live tools';
+
+-- Categories with no live tools linked to them.
+CREATE OR REPLACE FUNCTION find_empty_categories()
+RETURNS SETOF categories AS $$
+  SELECT c.*
+  FROM categories c
+  WHERE NOT EXISTS (
+    SELECT 1
+    FROM tool_categories tc
+    JOIN tools t ON t.id = tc.tool_id
+    WHERE tc.category_id = c.id
+      AND t.deleted_at IS NULL
+  )
+  ORDER BY c.name;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION find_empty_categories IS 'Categories without any live tool';
@@ -0,0 +1,76 @@
+-- Public tool submissions and their moderation state.
+-- Anyone can submit a tool from /submit; staff approve it (which creates the
+-- tool through tools.service), ask for changes or reject it from
+-- /admin/submissions. Submitters follow their submission through the secret
+-- tracking_token link they get after submitting.
+
+-- Host of a URL without "www.", lowercased; NULL when the URL has no host.
+-- Used to spot submissions of tools that are already listed.
+CREATE OR REPLACE FUNCTION url_domain(url TEXT)
+RETURNS TEXT AS $$
+  SELECT nullif(
+    regexp_replace(lower(substring(url FROM '^[a-zA-Z][a-zA-Z0-9+.-]*://(?:[^@/]*@)?([^/:?#]+)')), '^www\.', ''),
+    ''
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE INDEX IF NOT EXISTS idx_tools_website_domain ON tools(url_domain(website_url));
+
+CREATE TABLE IF NOT EXISTS tool_submissions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tracking_token UUID NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  slug TEXT NOT NULL,
+  website_url TEXT NOT NULL,
+  website_domain TEXT GENERATED ALWAYS AS (url_domain(website_url)) STORED,
+  short_description TEXT NOT NULL,
+  description TEXT,
+  pricing TEXT NOT NULL,
+  category_ids UUID[] NOT NULL DEFAULT '{}',
+  submitter_email TEXT NOT NULL CHECK (submitter_email = lower(submitter_email)),
+  submitter_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'changes_requested', 'approved', 'rejected')),
+  review_note TEXT,
+  reviewed_by UUID,
+  reviewed_at TIMESTAMPTZ,
+  tool_id UUID REFERENCES tools(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE tool_submissions IS 'Tools submitted from /submit, waiting for or past moderation';
+COMMENT ON COLUMN tool_submissions.tracking_token IS 'Secret in the submitter''s status link; never shown to other users';
+COMMENT ON COLUMN tool_submissions.review_note IS 'Reason given to the submitter when changes are requested or the tool is rejected';
+COMMENT ON COLUMN tool_submissions.tool_id IS 'Tool created when the submission was approved';
+
+CREATE INDEX IF NOT EXISTS idx_tool_submissions_status ON tool_submissions(status, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_tool_submissions_domain ON tool_submissions(website_domain);
+CREATE INDEX IF NOT EXISTS idx_tool_submissions_email ON tool_submissions(submitter_email);
+
+CREATE TRIGGER trigger_tool_submissions_updated_at
+  BEFORE UPDATE ON tool_submissions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- Submissions are written by server actions with the service role.
+-- Staff can read the queue and signed-in submitters can read their own rows.
+ALTER TABLE tool_submissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view tool submissions" ON tool_submissions
+  FOR SELECT USING (has_staff_role('viewer'));
+
+CREATE POLICY "Submitters can view own submissions" ON tool_submissions
+  FOR SELECT USING (submitter_user_id = auth.uid());
+
+-- Live tools whose website is on a domain.
+CREATE OR REPLACE FUNCTION find_tools_by_domain(domain TEXT)
+RETURNS SETOF tools AS $$
+  SELECT *
+  FROM tools
+  WHERE url_domain(website_url) = lower(domain)
+    AND deleted_at IS NULL
+  ORDER BY name;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION find_tools_by_domain IS 'Live tools whose website_url host (without www.) is the given domain';
@@ -0,0 +1,80 @@
+-- Keeps tools.saved_count equal to the number of user_favorites rows for
+-- the tool. Only the favorites trigger may change it: values sent by the
+-- app, the scraper or an upsert are ignored.
+
+-- Counters are not content changes; leave them out of audit diffs
+CREATE OR REPLACE FUNCTION audit_changes(before_row JSONB, after_row JSONB)
+RETURNS JSONB AS $$
+  SELECT coalesce(
+    jsonb_object_agg(key, jsonb_build_object('before', before_row->key, 'after', after_row->key)),
+    '{}'::jsonb
+  )
+  FROM jsonb_object_keys(coalesce(before_row, '{}'::jsonb) || coalesce(after_row, '{}'::jsonb)) AS key
+  WHERE key NOT IN ('updated_at', 'saved_count')
+    AND (before_row->key) IS DISTINCT FROM (after_row->key);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- A save is not an edit of the tool, so it must not move updated_at
+DROP TRIGGER IF EXISTS trigger_tools_updated_at ON tools;
+
+CREATE TRIGGER trigger_tools_updated_at
+  BEFORE UPDATE ON tools
+  FOR EACH ROW
+  WHEN ((to_jsonb(OLD) - 'saved_count') IS DISTINCT FROM (to_jsonb(NEW) - 'saved_count'))
+  EXECUTE FUNCTION update_updated_at();
+
+-- Recount existing tools before the count is protected
+UPDATE tools
+SET saved_count = counts.saved_count
+FROM (
+  SELECT t.id, count(f.id)::integer AS saved_count
+  FROM tools t
+  LEFT JOIN user_favorites f ON f.tool_id = t.id
+  GROUP BY t.id
+) AS counts
+WHERE tools.id = counts.id
+  AND tools.saved_count IS DISTINCT FROM counts.saved_count;
+
+-- New tools start unsaved; updates keep the stored count unless they come
+-- from sync_tool_saved_count, which sets app.syncing_saved_count.
+CREATE OR REPLACE FUNCTION protect_tool_saved_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.saved_count := 0;
+  ELSIF coalesce(current_setting('app.syncing_saved_count', true), '') <> 'on' THEN
+    NEW.saved_count := OLD.saved_count;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_tools_protect_saved_count
+  BEFORE INSERT OR UPDATE ON tools
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_tool_saved_count();
+
+-- SECURITY DEFINER so a user saving a tool can bump a count they cannot write
+CREATE OR REPLACE FUNCTION sync_tool_saved_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM set_config('app.syncing_saved_count', 'on', true);
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    UPDATE tools SET saved_count = coalesce(saved_count, 0) + 1 WHERE id = NEW.tool_id;
+  END IF;
+  IF TG_OP IN ('DELETE', 'UPDATE') THEN
+    UPDATE tools SET saved_count = greatest(coalesce(saved_count, 0) - 1, 0) WHERE id = OLD.tool_id;
+  END IF;
+
+  PERFORM set_config('app.syncing_saved_count', '', true);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_user_favorites_saved_count
+  AFTER INSERT OR DELETE OR UPDATE OF tool_id ON user_favorites
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_tool_saved_count();
+
+COMMENT ON COLUMN tools.saved_count IS 'Number of users who saved the tool; maintained by trigger_user_favorites_saved_count';
@@ -0,0 +1,46 @@
+-- "My Tools" quick-launch dock of each signed-in user.
+-- A pin is either a listed tool (tool_id) or a custom link with its own
+-- name, URL, icon and colour. Anonymous visitors keep their dock in
+-- localStorage; it is merged into these rows when they sign in.
+CREATE TABLE IF NOT EXISTS user_pinned_tools (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  tool_id UUID REFERENCES tools(id) ON DELETE CASCADE,
+  name TEXT,
+  url TEXT,
+  icon_url TEXT,
+  color TEXT NOT NULL DEFAULT '#6B7280' CHECK (color ~ '^#[0-9a-fA-F]{6}$'),
+  display_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT user_pinned_tools_target CHECK (
+    tool_id IS NOT NULL
+    OR (name IS NOT NULL AND url IS NOT NULL AND icon_url IS NOT NULL)
+  ),
+  CONSTRAINT unique_user_pinned_tool UNIQUE (user_id, tool_id)
+);
+
+COMMENT ON TABLE user_pinned_tools IS 'Tools and custom links pinned to a user''s My Tools dock';
+COMMENT ON COLUMN user_pinned_tools.tool_id IS 'Pinned tool; NULL for a custom link';
+COMMENT ON COLUMN user_pinned_tools.name IS 'Custom link label; tool pins use the tool''s name';
+COMMENT ON COLUMN user_pinned_tools.display_order IS 'Position in the dock, ascending';
+
+CREATE INDEX IF NOT EXISTS idx_user_pinned_tools_user ON user_pinned_tools(user_id, display_order);
+CREATE INDEX IF NOT EXISTS idx_user_pinned_tools_tool ON user_pinned_tools(tool_id);
+
+CREATE TRIGGER trigger_user_pinned_tools_updated_at
+  BEFORE UPDATE ON user_pinned_tools
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- Users can only see and change their own dock
+ALTER TABLE user_pinned_tools ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own pinned tools" ON user_pinned_tools
+  FOR SELECT USING (user_id = auth.uid());
+CREATE POLICY "Users can insert own pinned tools" ON user_pinned_tools
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users can update own pinned tools" ON user_pinned_tools
+  FOR UPDATE USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users can delete own pinned tools" ON user_pinned_tools
+  FOR DELETE USING (user_id = auth.uid());
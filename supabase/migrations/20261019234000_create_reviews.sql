@@ -0,0 +1,134 @@
+-- User reviews of tools: a 1-5 rating with a title, body and optional
+-- pros and cons, at most one per user per tool. tools.review_score and
+-- tools.review_count are maintained from these rows by trigger and cannot
+-- be written by the app, the scraper or an upsert.
+CREATE TABLE IF NOT EXISTS reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tool_id UUID NOT NULL REFERENCES tools(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  author_name TEXT NOT NULL CHECK (char_length(author_name) BETWEEN 1 AND 60),
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  title TEXT NOT NULL CHECK (char_length(title) BETWEEN 3 AND 120),
+  body TEXT NOT NULL CHECK (char_length(body) BETWEEN 20 AND 5000),
+  pros TEXT[] NOT NULL DEFAULT '{}' CHECK (cardinality(pros) <= 10),
+  cons TEXT[] NOT NULL DEFAULT '{}' CHECK (cardinality(cons) <= 10),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT unique_review_per_user_tool UNIQUE (tool_id, user_id)
+);
+
+COMMENT ON TABLE reviews IS 'User reviews of tools; one per user per tool';
+COMMENT ON COLUMN reviews.author_name IS 'Name shown with the review; never the reviewer''s email';
+
+CREATE INDEX IF NOT EXISTS idx_reviews_tool_created ON reviews(tool_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_reviews_tool_rating ON reviews(tool_id, rating);
+CREATE INDEX IF NOT EXISTS idx_reviews_user ON reviews(user_id);
+
+CREATE TRIGGER trigger_reviews_updated_at
+  BEFORE UPDATE ON reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- Reviews are public; only their authors can write, edit or delete them
+ALTER TABLE reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can view reviews" ON reviews
+  FOR SELECT USING (true);
+CREATE POLICY "Users can insert own reviews" ON reviews
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users can update own reviews" ON reviews
+  FOR UPDATE USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users can delete own reviews" ON reviews
+  FOR DELETE USING (user_id = auth.uid());
+
+-- Counters are not content changes; leave them out of audit diffs
+CREATE OR REPLACE FUNCTION audit_changes(before_row JSONB, after_row JSONB)
+RETURNS JSONB AS $$
+  SELECT coalesce(
+    jsonb_object_agg(key, jsonb_build_object('before', before_row->key, 'after', after_row->key)),
+    '{}'::jsonb
+  )
+  FROM jsonb_object_keys(coalesce(before_row, '{}'::jsonb) || coalesce(after_row, '{}'::jsonb)) AS key
+  WHERE key NOT IN ('updated_at', 'saved_count', 'review_count', 'review_score')
+    AND (before_row->key) IS DISTINCT FROM (after_row->key);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- A review is not an edit of the tool, so it must not move updated_at
+DROP TRIGGER IF EXISTS trigger_tools_updated_at ON tools;
+
+CREATE TRIGGER trigger_tools_updated_at
+  BEFORE UPDATE ON tools
+  FOR EACH ROW
+  WHEN (
+    (to_jsonb(OLD) - 'saved_count' - 'review_count' - 'review_score')
+    IS DISTINCT FROM (to_jsonb(NEW) - 'saved_count' - 'review_count' - 'review_score')
+  )
+  EXECUTE FUNCTION update_updated_at();
+
+-- Replace the placeholder ratings with the (so far empty) real ones
+UPDATE tools
+SET review_count = 0, review_score = 0
+WHERE review_count IS DISTINCT FROM 0 OR review_score IS DISTINCT FROM 0;
+
+-- New tools start unreviewed; updates keep the stored stats unless they
+-- come from sync_tool_review_stats, which sets app.syncing_review_stats.
+CREATE OR REPLACE FUNCTION protect_tool_review_stats()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.review_count := 0;
+    NEW.review_score := 0;
+  ELSIF coalesce(current_setting('app.syncing_review_stats', true), '') <> 'on' THEN
+    NEW.review_count := OLD.review_count;
+    NEW.review_score := OLD.review_score;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_tools_protect_review_stats
+  BEFORE INSERT OR UPDATE ON tools
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_tool_review_stats();
+
+-- Recomputes rather than increments: an edit can change a rating, and the
+-- average cannot be adjusted without the other ratings anyway.
+-- SECURITY DEFINER so a reviewer can update stats they cannot write.
+CREATE OR REPLACE FUNCTION sync_tool_review_stats()
+RETURNS TRIGGER AS $$
+DECLARE
+  affected UUID;
+BEGIN
+  PERFORM set_config('app.syncing_review_stats', 'on', true);
+
+  FOR affected IN
+    SELECT DISTINCT id FROM unnest(ARRAY[
+      CASE WHEN TG_OP <> 'DELETE' THEN NEW.tool_id END,
+      CASE WHEN TG_OP <> 'INSERT' THEN OLD.tool_id END
+    ]) AS ids(id)
+    WHERE id IS NOT NULL
+  LOOP
+    UPDATE tools
+    SET review_count = stats.review_count,
+        review_score = stats.review_score
+    FROM (
+      SELECT count(*)::integer AS review_count,
+             coalesce(round(avg(rating), 1), 0) AS review_score
+      FROM reviews
+      WHERE tool_id = affected
+    ) AS stats
+    WHERE tools.id = affected;
+  END LOOP;
+
+  PERFORM set_config('app.syncing_review_stats', '', true);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_reviews_sync_tool_stats
+  AFTER INSERT OR DELETE OR UPDATE OF tool_id, rating ON reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_tool_review_stats();
+
+COMMENT ON COLUMN tools.review_count IS 'Number of reviews; maintained by trigger_reviews_sync_tool_stats';
+COMMENT ON COLUMN tools.review_score IS 'Average review rating rounded to one decimal; maintained by trigger_reviews_sync_tool_stats';
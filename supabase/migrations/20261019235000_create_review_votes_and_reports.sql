@@ -0,0 +1,314 @@
+-- Quality signals on reviews: helpful/unhelpful votes (one per user per
+-- review), abuse reports, moderator hiding and user bans.
+--
+-- reviews gains counters kept by trigger: helpful_count, unhelpful_count,
+-- helpful_score (lower bound of the Wilson score interval for the share of
+-- helpful votes, used by the "most helpful" sort) and report_count (open
+-- reports). Hidden reviews are left out of the public list and of the
+-- tool's review_score and review_count.
+
+ALTER TABLE reviews
+  ADD COLUMN IF NOT EXISTS helpful_count INTEGER NOT NULL DEFAULT 0 CHECK (helpful_count >= 0),
+  ADD COLUMN IF NOT EXISTS unhelpful_count INTEGER NOT NULL DEFAULT 0 CHECK (unhelpful_count >= 0),
+  ADD COLUMN IF NOT EXISTS helpful_score DOUBLE PRECISION NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS report_count INTEGER NOT NULL DEFAULT 0 CHECK (report_count >= 0),
+  ADD COLUMN IF NOT EXISTS hidden_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS hidden_by TEXT,
+  ADD COLUMN IF NOT EXISTS hidden_reason TEXT;
+
+COMMENT ON COLUMN reviews.helpful_score IS 'Wilson score lower bound (95%) of helpful votes; maintained by trigger_review_votes_sync_counts';
+COMMENT ON COLUMN reviews.report_count IS 'Open abuse reports; maintained by trigger_review_reports_sync_count';
+COMMENT ON COLUMN reviews.hidden_at IS 'Set when a moderator hides the review; NULL while it is public';
+COMMENT ON COLUMN reviews.hidden_by IS 'Audit actor who hid the review';
+
+CREATE INDEX IF NOT EXISTS idx_reviews_tool_helpful ON reviews(tool_id, helpful_score DESC) WHERE hidden_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_reviews_reported ON reviews(report_count DESC, id DESC) WHERE report_count > 0 AND hidden_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_reviews_hidden ON reviews(hidden_at DESC, id DESC) WHERE hidden_at IS NOT NULL;
+
+-- Lower bound of the Wilson score interval at 95% confidence (z = 1.96).
+-- Ranks a review with 40 of 50 helpful votes above one with 2 of 2.
+CREATE OR REPLACE FUNCTION wilson_lower_bound(positive INTEGER, total INTEGER)
+RETURNS DOUBLE PRECISION AS $$
+  SELECT CASE WHEN total <= 0 THEN 0 ELSE
+    (
+      positive::float8 / total + 1.9208 / total
+      - 1.96 * sqrt((positive::float8 / total) * (1 - positive::float8 / total) / total + 0.9604 / (total::float8 * total))
+    ) / (1 + 3.8416 / total)
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Banned users can no longer review, vote or report
+CREATE TABLE IF NOT EXISTS user_bans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (char_length(reason) BETWEEN 1 AND 2000),
+  banned_by TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE user_bans IS 'Users barred from writing reviews, votes and reports';
+COMMENT ON COLUMN user_bans.banned_by IS 'Audit actor who banned the user';
+
+ALTER TABLE user_bans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view user bans" ON user_bans
+  FOR SELECT USING (has_staff_role('viewer') OR user_id = auth.uid());
+
+CREATE TRIGGER trigger_user_bans_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON user_bans
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_log();
+
+-- SECURITY DEFINER so policies can check bans the user cannot list
+CREATE OR REPLACE FUNCTION is_user_banned(check_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM user_bans WHERE user_id = check_user_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Hidden reviews stay visible to their author; banned users cannot write
+DROP POLICY IF EXISTS "Public can view reviews" ON reviews;
+DROP POLICY IF EXISTS "Users can insert own reviews" ON reviews;
+DROP POLICY IF EXISTS "Users can update own reviews" ON reviews;
+
+CREATE POLICY "Public can view visible reviews" ON reviews
+  FOR SELECT USING (hidden_at IS NULL OR user_id = auth.uid());
+CREATE POLICY "Users can insert own reviews" ON reviews
+  FOR INSERT WITH CHECK (user_id = auth.uid() AND NOT is_user_banned(auth.uid()));
+CREATE POLICY "Users can update own reviews" ON reviews
+  FOR UPDATE USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid() AND NOT is_user_banned(auth.uid()));
+
+-- Authors cannot set their own counters or undo a moderator's decision.
+-- Counters change only through the vote and report triggers, which set
+-- app.syncing_review_feedback; moderation columns only through service-role
+-- clients, which carry no auth user.
+CREATE OR REPLACE FUNCTION protect_review_moderation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.helpful_count := 0;
+    NEW.unhelpful_count := 0;
+    NEW.helpful_score := 0;
+    NEW.report_count := 0;
+  ELSIF coalesce(current_setting('app.syncing_review_feedback', true), '') <> 'on' THEN
+    NEW.helpful_count := OLD.helpful_count;
+    NEW.unhelpful_count := OLD.unhelpful_count;
+    NEW.helpful_score := OLD.helpful_score;
+    NEW.report_count := OLD.report_count;
+  END IF;
+
+  IF auth.uid() IS NOT NULL THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.hidden_at := NULL;
+      NEW.hidden_by := NULL;
+      NEW.hidden_reason := NULL;
+    ELSE
+      NEW.hidden_at := OLD.hidden_at;
+      NEW.hidden_by := OLD.hidden_by;
+      NEW.hidden_reason := OLD.hidden_reason;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_reviews_protect_moderation
+  BEFORE INSERT OR UPDATE ON reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_review_moderation();
+
+-- Votes, reports and moderation are not edits by the author, so they must
+-- not mark the review as edited
+DROP TRIGGER IF EXISTS trigger_reviews_updated_at ON reviews;
+
+CREATE TRIGGER trigger_reviews_updated_at
+  BEFORE UPDATE ON reviews
+  FOR EACH ROW
+  WHEN (
+    (to_jsonb(OLD) - ARRAY['helpful_count', 'unhelpful_count', 'helpful_score', 'report_count', 'hidden_at', 'hidden_by', 'hidden_reason'])
+    IS DISTINCT FROM
+    (to_jsonb(NEW) - ARRAY['helpful_count', 'unhelpful_count', 'helpful_score', 'report_count', 'hidden_at', 'hidden_by', 'hidden_reason'])
+  )
+  EXECUTE FUNCTION update_updated_at();
+
+-- Tool ratings only count public reviews
+CREATE OR REPLACE FUNCTION sync_tool_review_stats()
+RETURNS TRIGGER AS $$
+DECLARE
+  affected UUID;
+BEGIN
+  PERFORM set_config('app.syncing_review_stats', 'on', true);
+
+  FOR affected IN
+    SELECT DISTINCT id FROM unnest(ARRAY[
+      CASE WHEN TG_OP <> 'DELETE' THEN NEW.tool_id END,
+      CASE WHEN TG_OP <> 'INSERT' THEN OLD.tool_id END
+    ]) AS ids(id)
+    WHERE id IS NOT NULL
+  LOOP
+    UPDATE tools
+    SET review_count = stats.review_count,
+        review_score = stats.review_score
+    FROM (
+      SELECT count(*)::integer AS review_count,
+             coalesce(round(avg(rating), 1), 0) AS review_score
+      FROM reviews
+      WHERE tool_id = affected
+        AND hidden_at IS NULL
+    ) AS stats
+    WHERE tools.id = affected;
+  END LOOP;
+
+  PERFORM set_config('app.syncing_review_stats', '', true);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_reviews_sync_tool_stats ON reviews;
+
+CREATE TRIGGER trigger_reviews_sync_tool_stats
+  AFTER INSERT OR DELETE OR UPDATE OF tool_id, rating, hidden_at ON reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_tool_review_stats();
+
+-- One helpful or unhelpful vote per user per review
+CREATE TABLE IF NOT EXISTS review_votes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id UUID NOT NULL REFERENCES reviews(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  helpful BOOLEAN NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT unique_review_vote_per_user UNIQUE (review_id, user_id)
+);
+
+COMMENT ON TABLE review_votes IS 'Helpful (true) or unhelpful (false) votes on reviews';
+
+CREATE INDEX IF NOT EXISTS idx_review_votes_user ON review_votes(user_id);
+
+CREATE TRIGGER trigger_review_votes_updated_at
+  BEFORE UPDATE ON review_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- Users see and change only their own votes, never on their own reviews
+ALTER TABLE review_votes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own review votes" ON review_votes
+  FOR SELECT USING (user_id = auth.uid());
+CREATE POLICY "Users can insert own review votes" ON review_votes
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid()
+    AND NOT is_user_banned(auth.uid())
+    AND NOT EXISTS (SELECT 1 FROM reviews r WHERE r.id = review_id AND r.user_id = auth.uid())
+  );
+CREATE POLICY "Users can update own review votes" ON review_votes
+  FOR UPDATE USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid() AND NOT is_user_banned(auth.uid()));
+CREATE POLICY "Users can delete own review votes" ON review_votes
+  FOR DELETE USING (user_id = auth.uid());
+
+-- SECURITY DEFINER so a voter can update counters on someone else's review
+CREATE OR REPLACE FUNCTION sync_review_vote_counts()
+RETURNS TRIGGER AS $$
+DECLARE
+  affected UUID;
+BEGIN
+  PERFORM set_config('app.syncing_review_feedback', 'on', true);
+
+  FOR affected IN
+    SELECT DISTINCT id FROM unnest(ARRAY[
+      CASE WHEN TG_OP <> 'DELETE' THEN NEW.review_id END,
+      CASE WHEN TG_OP <> 'INSERT' THEN OLD.review_id END
+    ]) AS ids(id)
+    WHERE id IS NOT NULL
+  LOOP
+    UPDATE reviews
+    SET helpful_count = counts.helpful,
+        unhelpful_count = counts.unhelpful,
+        helpful_score = wilson_lower_bound(counts.helpful, counts.helpful + counts.unhelpful)
+    FROM (
+      SELECT count(*) FILTER (WHERE helpful)::integer AS helpful,
+             count(*) FILTER (WHERE NOT helpful)::integer AS unhelpful
+      FROM review_votes
+      WHERE review_id = affected
+    ) AS counts
+    WHERE reviews.id = affected;
+  END LOOP;
+
+  PERFORM set_config('app.syncing_review_feedback', '', true);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_review_votes_sync_counts
+  AFTER INSERT OR DELETE OR UPDATE OF review_id, helpful ON review_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_review_vote_counts();
+
+-- Abuse reports; a user reports a review at most once
+CREATE TABLE IF NOT EXISTS review_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id UUID NOT NULL REFERENCES reviews(id) ON DELETE CASCADE,
+  reporter_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (reason IN ('spam', 'offensive', 'off_topic', 'conflict_of_interest', 'other')),
+  details TEXT CHECK (char_length(details) <= 1000),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'dismissed')),
+  resolved_by TEXT,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT unique_review_report_per_user UNIQUE (review_id, reporter_id)
+);
+
+COMMENT ON TABLE review_reports IS 'Abuse reports on reviews, worked through in /admin/moderation';
+COMMENT ON COLUMN review_reports.status IS 'open until a moderator hides the review (resolved) or keeps it (dismissed)';
+
+CREATE INDEX IF NOT EXISTS idx_review_reports_review ON review_reports(review_id, status);
+
+-- Reporters see their own reports; moderators work through service-role clients
+ALTER TABLE review_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own review reports" ON review_reports
+  FOR SELECT USING (reporter_id = auth.uid() OR has_staff_role('viewer'));
+CREATE POLICY "Users can insert own review reports" ON review_reports
+  FOR INSERT WITH CHECK (
+    reporter_id = auth.uid()
+    AND status = 'open'
+    AND NOT is_user_banned(auth.uid())
+  );
+-- Reporters may change the reason of a report until a moderator decides it
+CREATE POLICY "Users can update own open review reports" ON review_reports
+  FOR UPDATE USING (reporter_id = auth.uid() AND status = 'open')
+  WITH CHECK (reporter_id = auth.uid() AND status = 'open' AND NOT is_user_banned(auth.uid()));
+
+CREATE OR REPLACE FUNCTION sync_review_report_count()
+RETURNS TRIGGER AS $$
+DECLARE
+  affected UUID;
+BEGIN
+  PERFORM set_config('app.syncing_review_feedback', 'on', true);
+
+  FOR affected IN
+    SELECT DISTINCT id FROM unnest(ARRAY[
+      CASE WHEN TG_OP <> 'DELETE' THEN NEW.review_id END,
+      CASE WHEN TG_OP <> 'INSERT' THEN OLD.review_id END
+    ]) AS ids(id)
+    WHERE id IS NOT NULL
+  LOOP
+    UPDATE reviews
+    SET report_count = (
+      SELECT count(*)::integer FROM review_reports WHERE review_id = affected AND status = 'open'
+    )
+    WHERE reviews.id = affected;
+  END LOOP;
+
+  PERFORM set_config('app.syncing_review_feedback', '', true);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_review_reports_sync_count
+  AFTER INSERT OR DELETE OR UPDATE OF review_id, status ON review_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_review_report_count();
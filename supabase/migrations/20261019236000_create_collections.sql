@@ -0,0 +1,99 @@
+-- User-curated tool collections, e.g. "tools for our video pipeline".
+-- A collection is an ordered list of tools with a note per entry. Public
+-- and unlisted collections can be opened by anyone with their
+-- /collections/<id> link; only public ones may be listed or indexed.
+-- Private collections are visible to their owner only.
+CREATE TABLE IF NOT EXISTS collections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 80),
+  description TEXT CHECK (char_length(description) <= 500),
+  visibility TEXT NOT NULL DEFAULT 'private' CHECK (visibility IN ('public', 'unlisted', 'private')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE collections IS 'Named, shareable lists of tools curated by signed-in users';
+COMMENT ON COLUMN collections.visibility IS 'public: listed and indexed; unlisted: anyone with the link; private: owner only';
+
+CREATE INDEX IF NOT EXISTS idx_collections_user ON collections(user_id, updated_at DESC);
+
+CREATE TRIGGER trigger_collections_updated_at
+  BEFORE UPDATE ON collections
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+CREATE TABLE IF NOT EXISTS collection_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  collection_id UUID NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+  tool_id UUID NOT NULL REFERENCES tools(id) ON DELETE CASCADE,
+  note TEXT CHECK (char_length(note) <= 500),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT unique_collection_tool UNIQUE (collection_id, tool_id)
+);
+
+COMMENT ON TABLE collection_items IS 'Tools in a collection, with the curator''s note';
+COMMENT ON COLUMN collection_items.position IS 'Position in the collection, ascending';
+
+CREATE INDEX IF NOT EXISTS idx_collection_items_collection ON collection_items(collection_id, position);
+CREATE INDEX IF NOT EXISTS idx_collection_items_tool ON collection_items(tool_id);
+
+CREATE TRIGGER trigger_collection_items_updated_at
+  BEFORE UPDATE ON collection_items
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- Adding, editing or removing an entry counts as updating the collection
+CREATE OR REPLACE FUNCTION touch_collection_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE collections
+  SET updated_at = NOW()
+  WHERE id = CASE WHEN TG_OP = 'DELETE' THEN OLD.collection_id ELSE NEW.collection_id END;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_collection_items_touch_collection
+  AFTER INSERT OR UPDATE OR DELETE ON collection_items
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_collection_updated_at();
+
+-- Anyone can open shared collections; only owners can change them
+ALTER TABLE collections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Shared collections are viewable" ON collections
+  FOR SELECT USING (visibility <> 'private' OR user_id = auth.uid());
+CREATE POLICY "Users can insert own collections" ON collections
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users can update own collections" ON collections
+  FOR UPDATE USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users can delete own collections" ON collections
+  FOR DELETE USING (user_id = auth.uid());
+
+-- Entries follow the visibility and ownership of their collection
+ALTER TABLE collection_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Entries of shared collections are viewable" ON collection_items
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM collections c
+      WHERE c.id = collection_id AND (c.visibility <> 'private' OR c.user_id = auth.uid())
+    )
+  );
+CREATE POLICY "Users can insert entries in own collections" ON collection_items
+  FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM collections c WHERE c.id = collection_id AND c.user_id = auth.uid())
+  );
+CREATE POLICY "Users can update entries in own collections" ON collection_items
+  FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM collections c WHERE c.id = collection_id AND c.user_id = auth.uid())
+  ) WITH CHECK (
+    EXISTS (SELECT 1 FROM collections c WHERE c.id = collection_id AND c.user_id = auth.uid())
+  );
+CREATE POLICY "Users can delete entries in own collections" ON collection_items
+  FOR DELETE USING (
+    EXISTS (SELECT 1 FROM collections c WHERE c.id = collection_id AND c.user_id = auth.uid())
+  );
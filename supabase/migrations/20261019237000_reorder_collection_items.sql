@@ -0,0 +1,21 @@
+-- Reorders a collection's entries in one statement, so a failure never
+-- leaves a half-applied order.
+--
+-- target_collection_id  Collection whose entries move
+-- item_ids              Entry IDs in their new order; position becomes the index
+--
+-- Runs with the caller's rights, so RLS still limits it to the owner's
+-- collections. IDs that are not entries of the collection are ignored.
+CREATE OR REPLACE FUNCTION reorder_collection_items(
+  target_collection_id UUID,
+  item_ids UUID[]
+)
+RETURNS VOID AS $$
+  UPDATE collection_items
+  SET position = ordered.ordinality - 1
+  FROM unnest(item_ids) WITH ORDINALITY AS ordered(id, ordinality)
+  WHERE collection_items.id = ordered.id
+    AND collection_items.collection_id = target_collection_id;
+$$ LANGUAGE sql;
+
+COMMENT ON FUNCTION reorder_collection_items IS 'Sets the position of a collection''s entries to their index in item_ids in one statement';
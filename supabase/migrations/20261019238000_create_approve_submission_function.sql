@@ -0,0 +1,51 @@
+-- Approves a tool submission in one transaction: creates the tool and its
+-- category links through save_tool, then marks the submission approved and
+-- links it to the tool. If either step fails both are rolled back, so an
+-- approval never leaves a live tool behind a submission still in the queue.
+--
+-- target_id     Submission to approve
+-- tool_fields   Column values for the new tool as JSON, as for save_tool
+-- category_ids  Categories the new tool is linked to
+-- reviewer_id   Staff user recorded as the reviewer
+--
+-- Errors surface with their Postgres codes: 23505 for a duplicate slug,
+-- 23503 for an unknown category, P0002 when target_id does not exist and
+-- 23514 when the submission was already approved or rejected.
+CREATE OR REPLACE FUNCTION approve_submission(
+  target_id UUID,
+  tool_fields JSONB,
+  category_ids UUID[],
+  reviewer_id UUID
+)
+RETURNS tools AS $$
+DECLARE
+  submission tool_submissions;
+  created tools;
+BEGIN
+  -- Locked so two reviewers cannot approve the same submission twice
+  SELECT * INTO submission FROM tool_submissions WHERE id = target_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Submission not found: %', target_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF submission.status NOT IN ('pending', 'changes_requested') THEN
+    RAISE EXCEPTION 'Submission already decided: %', target_id USING ERRCODE = 'check_violation';
+  END IF;
+
+  created := save_tool(NULL, tool_fields, category_ids);
+
+  UPDATE tool_submissions SET
+    status = 'approved',
+    tool_id = created.id,
+    slug = created.slug,
+    review_note = NULL,
+    reviewed_by = reviewer_id,
+    reviewed_at = now()
+  WHERE id = target_id;
+
+  RETURN created;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION approve_submission IS 'Creates the tool for an open submission and marks the submission approved in one transaction';
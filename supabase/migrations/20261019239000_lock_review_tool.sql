@@ -0,0 +1,23 @@
+-- A review belongs to the tool it was written for. The update policy lets
+-- authors edit their own reviews, so without this an author could move a
+-- review (with its votes and reports) onto another tool.
+
+-- Rejects an UPDATE that changes the column named in the trigger argument.
+-- Raised as 23514 so it surfaces like a failed check constraint.
+CREATE OR REPLACE FUNCTION reject_column_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF to_jsonb(NEW) -> TG_ARGV[0] IS DISTINCT FROM to_jsonb(OLD) -> TG_ARGV[0] THEN
+    RAISE EXCEPTION '%.% cannot be changed', TG_TABLE_NAME, TG_ARGV[0] USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION reject_column_change IS 'Trigger function rejecting updates that change the column named in TG_ARGV[0]';
+
+CREATE TRIGGER trigger_reviews_lock_tool
+  BEFORE UPDATE OF tool_id ON reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION reject_column_change('tool_id');
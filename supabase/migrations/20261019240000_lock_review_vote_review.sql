@@ -0,0 +1,20 @@
+-- A vote belongs to the review it was cast on. The update policy only
+-- re-checked the voter, so a user could insert a vote on someone else's
+-- review and then point it at their own review.
+
+DROP POLICY IF EXISTS "Users can update own review votes" ON review_votes;
+
+CREATE POLICY "Users can update own review votes" ON review_votes
+  FOR UPDATE USING (user_id = auth.uid())
+  WITH CHECK (
+    user_id = auth.uid()
+    AND NOT is_user_banned(auth.uid())
+    AND NOT EXISTS (SELECT 1 FROM reviews r WHERE r.id = review_id AND r.user_id = auth.uid())
+  );
+
+-- Changing the vote means changing helpful; the upsert that records it
+-- rewrites review_id with the same value, which is allowed
+CREATE TRIGGER trigger_review_votes_lock_review
+  BEFORE UPDATE OF review_id ON review_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION reject_column_change('review_id');
@@ -0,0 +1,17 @@
+-- Number of tools a collection shows. Entries of archived tools stay in the
+-- collection so restoring the tool brings them back, but they are not
+-- listed and must not be counted either.
+--
+-- Takes the collections row type, so PostgREST exposes it as a computed
+-- column: select=*,item_count. Runs with the caller's rights, so RLS
+-- still decides which entries are visible.
+CREATE OR REPLACE FUNCTION item_count(collection collections)
+RETURNS INTEGER AS $$
+  SELECT count(*)::INTEGER
+  FROM collection_items
+  JOIN tools ON tools.id = collection_items.tool_id
+  WHERE collection_items.collection_id = collection.id
+    AND tools.deleted_at IS NULL;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION item_count(collections) IS 'Entries of live tools in a collection; exposed to PostgREST as collections.item_count';